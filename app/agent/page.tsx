@@ -8,21 +8,53 @@ import { LayoutWrapper } from "@/components/layout-wrapper"
 import { PageHeader } from "@/components/page-header"
 import { formsAPI } from "@/lib/api"
 import { useToast } from "@/hooks/use-toast"
-import { FileText, Loader, CheckCircle2 } from "lucide-react"
+import {
+  FileText,
+  Loader,
+  CheckCircle2,
+  CloudOff,
+  RefreshCw,
+  AlertTriangle,
+  Trash2,
+  Undo2,
+  MessageSquare,
+} from "lucide-react"
 import type { Form } from "@/lib/types"
+import { cacheForms, getCachedForms } from "@/lib/offline-queue"
+import { useOfflineQueue } from "@/hooks/use-offline-queue"
+import { useReturnedResponses } from "@/hooks/use-responses"
+import { formatRelativeTime } from "@/lib/date-utils"
 
 export default function AgentDashboardPage() {
   const router = useRouter()
   const { toast } = useToast()
   const [forms, setForms] = useState<Form[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [usingCachedForms, setUsingCachedForms] = useState(false)
+  const { items, countsByForm, isOnline, isSyncing, syncNow, retry, discard } = useOfflineQueue()
+  const { data: returned = [] } = useReturnedResponses()
+
+  const needsAttention = items.filter(
+    (item) => item.status === "failed" || item.status === "conflict"
+  )
 
   useEffect(() => {
     const fetchAssignedForms = async () => {
       try {
         const response = await formsAPI.getAssigned()
         setForms(response.data.data)
+        cacheForms(response.data.data)
       } catch (error: any) {
+        // Offline: show the forms cached on this device
+        if (!error.response) {
+          const cached = await getCachedForms()
+          if (cached.length > 0) {
+            setForms(cached.map((entry) => entry.form))
+            setUsingCachedForms(true)
+            return
+          }
+        }
+
         toast({
           title: "Error",
           description: error.response?.data?.detail || "Failed to load assigned forms",
@@ -50,6 +82,126 @@ export default function AgentDashboardPage() {
     <LayoutWrapper>
       <PageHeader title="My Assigned Forms" description="Forms available for data collection" />
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {(!isOnline || usingCachedForms || items.some((item) => item.status === "pending")) && (
+          <Card className="p-4 mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-amber-50 border-amber-200">
+            <div className="flex items-center gap-2 text-sm text-amber-800">
+              <CloudOff className="w-4 h-4 flex-shrink-0" />
+              <span>
+                {!isOnline
+                  ? "You are offline. Forms saved on this device are still available."
+                  : usingCachedForms
+                    ? "Showing forms saved on this device."
+                    : "Some responses are waiting to be submitted."}
+              </span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => syncNow()}
+              disabled={!isOnline || isSyncing}
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? "animate-spin" : ""}`} />
+              {isSyncing ? "Syncing..." : "Sync Now"}
+            </Button>
+          </Card>
+        )}
+
+        {needsAttention.length > 0 && (
+          <Card className="p-4 mb-6 border-red-200">
+            <div className="flex items-center gap-2 mb-3">
+              <AlertTriangle className="w-4 h-4 text-red-600" />
+              <h3 className="text-sm font-semibold text-foreground">
+                {needsAttention.length} response{needsAttention.length > 1 ? "s" : ""} could not be
+                submitted
+              </h3>
+            </div>
+            <div className="space-y-2">
+              {needsAttention.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-md bg-red-50 text-sm"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">
+                      {item.form_title || item.form_id}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">
+                        captured {new Date(item.created_at).toLocaleString()}
+                      </span>
+                    </p>
+                    <p className="text-xs text-red-700">
+                      {item.status === "conflict"
+                        ? `Rejected by server (${item.conflict?.status}): ${item.conflict?.message}`
+                        : `Gave up after ${item.attempts} attempts: ${item.last_error}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button size="sm" variant="outline" onClick={() => retry(item.id)}>
+                      <RefreshCw className="w-3 h-3 mr-1" />
+                      Retry
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => discard(item.id)}>
+                      <Trash2 className="w-3 h-3 mr-1" />
+                      Discard
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {returned.length > 0 && (
+          <Card className="p-4 mb-6 border-amber-200">
+            <div className="flex items-center gap-2 mb-3">
+              <Undo2 className="w-4 h-4 text-amber-600" />
+              <h3 className="text-sm font-semibold text-foreground">
+                Returned to me ({returned.length})
+              </h3>
+            </div>
+            <div className="space-y-2">
+              {returned.map((response) => {
+                const commentCount = (response.field_comments ?? []).filter(
+                  (comment) => !comment.resolved_at
+                ).length
+                return (
+                  <div
+                    key={response.id}
+                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-md bg-amber-50 text-sm"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium text-foreground truncate">
+                        {forms.find((form) => form.id === response.form_id)?.title ||
+                          response.form_id}
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">
+                          submitted {formatRelativeTime(response.submitted_at)}
+                        </span>
+                      </p>
+                      {response.review_note && (
+                        <p className="text-xs text-amber-800 line-clamp-2">
+                          {response.review_note}
+                        </p>
+                      )}
+                      {commentCount > 0 && (
+                        <p className="text-xs text-amber-800 flex items-center gap-1 mt-1">
+                          <MessageSquare className="w-3 h-3" />
+                          {commentCount} comment{commentCount > 1 ? "s" : ""} on answers
+                        </p>
+                      )}
+                    </div>
+                    <Button
+                      size="sm"
+                      className="flex-shrink-0"
+                      onClick={() => router.push(`/agent/responses/${response.id}/amend`)}
+                    >
+                      Amend
+                    </Button>
+                  </div>
+                )
+              })}
+            </div>
+          </Card>
+        )}
+
         {forms.length === 0 ? (
           <Card className="p-12 text-center">
             <FileText className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
@@ -86,6 +238,20 @@ export default function AgentDashboardPage() {
                   {form.schema?.fields?.length || 0} fields • Version {form.version}
                 </p>
 
+                {countsByForm[form.id] && (
+                  <div className="flex flex-wrap gap-2 mb-4 text-xs">
+                    <span className="px-2 py-1 rounded bg-amber-50 text-amber-700">
+                      {countsByForm[form.id].pending} pending
+                    </span>
+                    <span className="px-2 py-1 rounded bg-red-50 text-red-700">
+                      {countsByForm[form.id].failed + countsByForm[form.id].conflict} failed
+                    </span>
+                    <span className="px-2 py-1 rounded bg-green-50 text-green-700">
+                      {countsByForm[form.id].synced} synced
+                    </span>
+                  </div>
+                )}
+
                 {form.schema?.branding?.header_text && (
                   <p className="text-xs text-muted-foreground mb-4 line-clamp-2">
                     {form.schema.branding.header_text}
@@ -0,0 +1,170 @@
+"use client"
+
+/**
+ * Amend Returned Response Page
+ * Lets an agent correct a response a reviewer sent back; each amendment is
+ * stored as a new revision
+ */
+
+import { useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { LayoutWrapper } from "@/components/layout-wrapper"
+import { FormRenderer } from "@/components/form-renderer"
+import { ResponseRevisionHistory } from "@/components/responses/response-revision-history"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Loader, CheckCircle2, MessageSquare, Undo2 } from "lucide-react"
+import { useAmendResponse, useResponse } from "@/hooks/use-responses"
+import { useForm } from "@/hooks/use-forms"
+import { useConditionalRules } from "@/hooks/forms/use-conditional-logic"
+import { describeResponseData } from "@/lib/repeating-groups"
+import { getOpenFieldComments, getReviewStatus } from "@/lib/response-review"
+import { formatRelativeTime } from "@/lib/date-utils"
+import type { FormResponseData } from "@/lib/types"
+
+export default function AmendResponsePage() {
+  const params = useParams()
+  const router = useRouter()
+  const responseId = params.id as string
+  const [note, setNote] = useState("")
+  const [amended, setAmended] = useState(false)
+
+  const { data: response, isLoading: responseLoading } = useResponse(responseId)
+  const { data: form, isLoading: formLoading } = useForm(response?.form_id ?? "")
+  const { data: rules = [] } = useConditionalRules(response?.form_id)
+  const amendResponse = useAmendResponse()
+
+  const handleSubmit = async (data: FormResponseData, attachments: Record<string, string>) => {
+    // Rethrown errors make the renderer report the failure and keep the answers
+    await amendResponse.mutateAsync({
+      id: responseId,
+      data,
+      attachments,
+      note: note.trim() || undefined,
+    })
+    setAmended(true)
+  }
+
+  if (responseLoading || (response && formLoading)) {
+    return (
+      <LayoutWrapper>
+        <div className="p-8 flex items-center justify-center h-screen">
+          <Loader className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      </LayoutWrapper>
+    )
+  }
+
+  if (!response || !form) {
+    return (
+      <LayoutWrapper>
+        <div className="p-8 text-center">
+          <p className="text-muted-foreground">Response not found</p>
+        </div>
+      </LayoutWrapper>
+    )
+  }
+
+  if (amended || getReviewStatus(response) !== "needs_correction") {
+    return (
+      <LayoutWrapper>
+        <div className="p-8 max-w-2xl mx-auto">
+          <Card className="p-12 text-center">
+            <CheckCircle2 className="w-16 h-16 text-green-600 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-foreground mb-2">
+              {amended ? "Response Amended" : "Nothing to Correct"}
+            </h2>
+            <p className="text-muted-foreground mb-6">
+              {amended
+                ? "Your changes were saved and the response is back in the review queue."
+                : "This response is not waiting for corrections."}
+            </p>
+            <Button onClick={() => router.push("/agent")}>Back to My Forms</Button>
+          </Card>
+        </div>
+      </LayoutWrapper>
+    )
+  }
+
+  const openComments = getOpenFieldComments(response)
+  const labels = new Map(
+    describeResponseData(response.data, form.schema?.fields).map((entry) => [
+      entry.key,
+      entry.label,
+    ])
+  )
+
+  return (
+    <LayoutWrapper>
+      <div className="p-8 space-y-6">
+        <Card className="max-w-3xl mx-auto p-6 space-y-4 border-amber-200">
+          <div className="flex items-center gap-2">
+            <Undo2 className="w-5 h-5 text-amber-600" />
+            <h2 className="text-lg font-semibold">Returned for correction</h2>
+          </div>
+          {response.reviewed_at && (
+            <p className="text-sm text-muted-foreground">
+              {response.reviewed_by ? `${response.reviewed_by} returned this ` : "Returned "}
+              {formatRelativeTime(response.reviewed_at)}
+            </p>
+          )}
+          {response.review_note && (
+            <p className="text-sm bg-amber-50 text-amber-900 p-3 rounded-lg whitespace-pre-wrap">
+              {response.review_note}
+            </p>
+          )}
+          {openComments.size > 0 && (
+            <div className="space-y-2">
+              {Array.from(openComments.entries()).map(([fieldId, comments]) => (
+                <div key={fieldId} className="text-sm">
+                  <p className="font-medium flex items-center gap-1">
+                    <MessageSquare className="w-3 h-3" />
+                    {labels.get(fieldId) ?? fieldId}
+                  </p>
+                  {comments.map((comment) => (
+                    <p key={comment.id} className="text-muted-foreground pl-4">
+                      {comment.comment}
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="amend-note">Note for the reviewer (optional)</Label>
+            <Textarea
+              id="amend-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Describe what you changed"
+            />
+          </div>
+        </Card>
+
+        <FormRenderer
+          formId={form.id}
+          formTitle={form.title}
+          description={form.description}
+          fields={form.schema?.fields || []}
+          branding={form.schema?.branding}
+          onSubmit={handleSubmit}
+          isSubmitting={amendResponse.isPending}
+          rules={rules.filter((rule) => rule.enabled)}
+          pages={form.schema?.pages}
+          pageSettings={form.schema?.settings}
+          initialData={response.data}
+          initialAttachments={response.attachments}
+          draftKey={`response-amendment-${response.id}`}
+          submitLabel="Resubmit Response"
+        />
+
+        <div className="max-w-3xl mx-auto space-y-3">
+          <h3 className="font-semibold">Earlier Amendments</h3>
+          <ResponseRevisionHistory responseId={response.id} fields={form.schema?.fields} />
+        </div>
+      </div>
+    </LayoutWrapper>
+  )
+}
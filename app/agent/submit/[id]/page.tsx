@@ -1,32 +1,69 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useCallback, useEffect, useRef, useState } from "react"
 import { useParams, useRouter } from "next/navigation"
 import { LayoutWrapper } from "@/components/layout-wrapper"
 import { FormRenderer } from "@/components/form-renderer"
 import { formsAPI, responsesAPI } from "@/lib/api"
 import { useToast } from "@/hooks/use-toast"
 import type { Form, FormResponseData } from "@/lib/types"
-import { Loader, CheckCircle2 } from "lucide-react"
+import { Loader, CheckCircle2, CloudOff } from "lucide-react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { logger } from "@/lib/logger"
+import { cacheFormRules, cacheForms, getCachedForm, type PendingFile } from "@/lib/offline-queue"
+import { useOfflineQueue } from "@/hooks/use-offline-queue"
+import type { ConditionalRule } from "@/hooks/forms/use-conditional-logic"
+import { normalizeConditionalRules } from "@/lib/conditional-rules"
 
 export default function SubmitFormPage() {
   const params = useParams()
   const router = useRouter()
   const { toast } = useToast()
   const [form, setForm] = useState<Form | null>(null)
+  const [rules, setRules] = useState<ConditionalRule[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submitted, setSubmitted] = useState(false)
+  const [queuedOffline, setQueuedOffline] = useState(false)
+  const [usingCachedForm, setUsingCachedForm] = useState(false)
+  const pendingFilesRef = useRef<Record<string, File>>({})
+  const { isOnline, countsByForm, enqueue, syncNow } = useOfflineQueue()
+
+  const handlePendingFilesChange = useCallback((files: Record<string, File>) => {
+    pendingFilesRef.current = files
+  }, [])
 
   useEffect(() => {
     const fetchForm = async () => {
       try {
         const response = await formsAPI.getById(params.id as string)
         setForm(response.data.data)
+        await cacheForms([response.data.data])
+
+        // Rules are optional: the form still works (without logic) if they fail to load
+        try {
+          const rulesResponse = await formsAPI.getConditionalRules(params.id as string, {
+            is_active: true,
+          })
+          const activeRules = normalizeConditionalRules(rulesResponse.data.data)
+          setRules(activeRules)
+          cacheFormRules(params.id as string, activeRules)
+        } catch (rulesError) {
+          logger.warn("Failed to load conditional rules", { formId: params.id, rulesError })
+        }
       } catch (error: any) {
+        // Without a response the device is offline: fall back to the cached schema
+        if (!error.response) {
+          const cached = await getCachedForm(params.id as string)
+          if (cached) {
+            setForm(cached.form)
+            setRules(cached.rules ?? [])
+            setUsingCachedForm(true)
+            return
+          }
+        }
+
         toast({
           title: "Error",
           description: error.response?.data?.detail || "Failed to load form",
@@ -41,12 +78,43 @@ export default function SubmitFormPage() {
     fetchForm()
   }, [params.id, router, toast])
 
+  const queueSubmission = async (data: FormResponseData, attachments: Record<string, string>) => {
+    if (!form) return
+
+    const pendingFiles: PendingFile[] = Object.entries(pendingFilesRef.current).map(
+      ([fieldId, file]) => ({ field_id: fieldId, name: file.name, type: file.type, blob: file })
+    )
+
+    await enqueue({
+      form,
+      payload: { form_id: form.id, data, attachments },
+      pendingFiles,
+    })
+
+    setQueuedOffline(true)
+    setSubmitted(true)
+    toast({
+      title: "Saved Offline",
+      description: "Your response will be submitted automatically when you are back online",
+    })
+
+    if (isOnline) {
+      syncNow()
+    }
+  }
+
   const handleSubmit = async (data: FormResponseData, attachments: Record<string, string>) => {
     if (!form) return
 
     setIsSubmitting(true)
 
     try {
+      // Files captured offline (or an offline device) go through the outbox
+      if (!isOnline || Object.keys(pendingFilesRef.current).length > 0) {
+        await queueSubmission(data, attachments)
+        return
+      }
+
       await responsesAPI.create({
         form_id: form.id,
         data,
@@ -59,6 +127,21 @@ export default function SubmitFormPage() {
         description: "Response submitted successfully",
       })
     } catch (error: any) {
+      // Network failure: keep the response in the outbox instead of losing it
+      if (!error.response) {
+        try {
+          await queueSubmission(data, attachments)
+        } catch (queueError) {
+          logger.error("Failed to queue offline submission", { formId: form.id, queueError })
+          toast({
+            title: "Error",
+            description: "You appear to be offline and the response could not be saved locally.",
+            variant: "destructive",
+          })
+        }
+        return
+      }
+
       logger.error("Form submission failed", {
         formId: form.id,
         errorStatus: error.response?.status,
@@ -122,14 +205,33 @@ export default function SubmitFormPage() {
       <LayoutWrapper>
         <div className="p-8 max-w-2xl mx-auto">
           <Card className="p-12 text-center">
-            <CheckCircle2 className="w-16 h-16 text-green-600 mx-auto mb-4" />
-            <h2 className="text-2xl font-bold text-foreground mb-2">Response Submitted!</h2>
-            <p className="text-muted-foreground mb-6">
-              Your response has been recorded successfully.
-            </p>
+            {queuedOffline ? (
+              <>
+                <CloudOff className="w-16 h-16 text-amber-600 mx-auto mb-4" />
+                <h2 className="text-2xl font-bold text-foreground mb-2">Response Saved Offline</h2>
+                <p className="text-muted-foreground mb-6">
+                  Your response is stored on this device and will be submitted automatically when a
+                  connection is available.
+                </p>
+              </>
+            ) : (
+              <>
+                <CheckCircle2 className="w-16 h-16 text-green-600 mx-auto mb-4" />
+                <h2 className="text-2xl font-bold text-foreground mb-2">Response Submitted!</h2>
+                <p className="text-muted-foreground mb-6">
+                  Your response has been recorded successfully.
+                </p>
+              </>
+            )}
             <div className="flex gap-3 justify-center">
               <Button onClick={() => router.push("/agent")}>Back to My Forms</Button>
-              <Button variant="outline" onClick={() => setSubmitted(false)}>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setSubmitted(false)
+                  setQueuedOffline(false)
+                }}
+              >
                 Submit Another Response
               </Button>
             </div>
@@ -139,9 +241,23 @@ export default function SubmitFormPage() {
     )
   }
 
+  const pendingCount = countsByForm[form.id]?.pending ?? 0
+
   return (
     <LayoutWrapper>
       <div className="p-8">
+        {(!isOnline || usingCachedForm || pendingCount > 0) && (
+          <div className="max-w-3xl mx-auto mb-4 p-3 bg-amber-50 border border-amber-200 rounded-md flex items-center gap-2 text-sm text-amber-800">
+            <CloudOff className="w-4 h-4 flex-shrink-0" />
+            <span>
+              {!isOnline
+                ? "You are offline. Responses will be saved on this device and submitted later."
+                : usingCachedForm
+                  ? "Showing the copy of this form saved on your device."
+                  : `${pendingCount} response${pendingCount > 1 ? "s" : ""} waiting to sync.`}
+            </span>
+          </div>
+        )}
         <FormRenderer
           formId={form.id}
           formTitle={form.title}
@@ -150,6 +266,11 @@ export default function SubmitFormPage() {
           branding={form.schema?.branding}
           onSubmit={handleSubmit}
           isSubmitting={isSubmitting}
+          isOffline={!isOnline}
+          onPendingFilesChange={handlePendingFilesChange}
+          rules={rules}
+          pages={form.schema?.pages}
+          pageSettings={form.schema?.settings}
         />
       </div>
     </LayoutWrapper>
@@ -26,11 +26,13 @@ import {
   TrendingUp,
   ChevronRight,
   Activity,
+  Layers,
 } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 import { formatDistanceToNow, format } from "date-fns"
 import { usePermissions } from "@/lib/permission-context"
 import { RouteGuard } from "@/components/route-guard"
+import { CollationRollupExplorer } from "@/components/collation"
 import { useElection } from "@/hooks/elections"
 import {
   useCollationDashboard,
@@ -382,6 +384,10 @@ export default function ElectionCollationPage() {
                 <FileText className="h-4 w-4" />
                 Result Sheets
               </TabsTrigger>
+              <TabsTrigger value="explorer" className="gap-2">
+                <Layers className="h-4 w-4" />
+                Explorer
+              </TabsTrigger>
               <TabsTrigger value="incidents" className="gap-2">
                 <AlertTriangle className="h-4 w-4" />
                 Incidents
@@ -547,6 +553,10 @@ export default function ElectionCollationPage() {
               </Card>
             </TabsContent>
 
+            <TabsContent value="explorer">
+              <CollationRollupExplorer electionId={electionId} />
+            </TabsContent>
+
             <TabsContent value="incidents">
               <Card>
                 <CardHeader>
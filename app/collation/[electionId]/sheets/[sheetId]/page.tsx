@@ -0,0 +1,67 @@
+"use client"
+
+import { useParams } from "next/navigation"
+import { LayoutWrapper } from "@/components/layout-wrapper"
+import { PageHeader } from "@/components/page-header"
+import { Skeleton } from "@/components/ui/skeleton"
+import { RouteGuard } from "@/components/route-guard"
+import { ResultSheetEntry } from "@/components/collation"
+import { useElection } from "@/hooks/elections"
+import { useResultSheet } from "@/hooks/collation"
+
+export default function ResultSheetEntryPage() {
+  const params = useParams()
+  const electionId = params.electionId as string
+  const sheetId = params.sheetId as string
+
+  const { data: election, isLoading: electionLoading } = useElection(electionId)
+  const { data: sheet } = useResultSheet(sheetId)
+
+  const positions = (election?.positions ?? []).map((position) => ({
+    id: position.id,
+    title: position.title,
+    candidates: (position.candidates ?? []).map((candidate) => ({
+      id: candidate.id,
+      name: candidate.name,
+      party: candidate.party,
+      photo_url: candidate.photo_url,
+    })),
+  }))
+
+  const title = sheet?.polling_station_name || sheet?.collation_center_name || "Result Sheet"
+
+  return (
+    <RouteGuard permissions={["collation:read"]}>
+      <LayoutWrapper>
+        <PageHeader
+          title={title}
+          description={election?.title || "Loading..."}
+          breadcrumbs={[
+            { label: "Dashboard", href: "/dashboard" },
+            { label: "Collation", href: "/collation" },
+            { label: election?.title || "...", href: `/collation/${electionId}` },
+            { label: "Sheets", href: `/collation/${electionId}/sheets` },
+            { label: title },
+          ]}
+        />
+
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {electionLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-40 w-full" />
+              <Skeleton className="h-64 w-full" />
+            </div>
+          ) : (
+            <ResultSheetEntry
+              sheetId={sheetId}
+              electionId={electionId}
+              positions={positions}
+              pollOptions={election?.poll_options}
+              allowWriteIns={!!election?.settings?.allow_write_in}
+            />
+          )}
+        </div>
+      </LayoutWrapper>
+    </RouteGuard>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { use, useState } from "react"
+import { use, useMemo, useState } from "react"
 import Link from "next/link"
 import { format } from "date-fns"
 import { LayoutWrapper } from "@/components/layout-wrapper"
@@ -32,20 +32,31 @@ import {
   RefreshCw,
   CheckCircle2,
   Lock,
+  PenLine,
 } from "lucide-react"
 import { motion } from "framer-motion"
 import { useElection } from "@/hooks/elections"
 import {
   useElectionResults,
+  useElectionBallots,
   useElectionAnalytics,
   useTurnoutStats,
   useVotingTrends,
   useElectionPredictions,
   useFinalizeResults,
   useExportElectionData,
+  useWriteInMerges,
 } from "@/hooks/elections"
+import { RankedChoiceRounds, WriteInModeration } from "@/components/elections"
 import { usePermissions } from "@/lib/permission-context"
-import type { ElectionStatus } from "@/lib/types"
+import {
+  findRoundMismatch,
+  tabulateInstantRunoff,
+  toRankedBallot,
+  type InstantRunoffResult,
+} from "@/lib/ballots"
+import { mergePositionResults, type MergedPositionResult } from "@/lib/write-ins"
+import type { ElectionStatus, PositionResult, RankedChoiceRound } from "@/lib/types"
 
 const statusColors: Record<ElectionStatus, string> = {
   draft: "bg-gray-100 text-gray-800",
@@ -56,6 +67,19 @@ const statusColors: Record<ElectionStatus, string> = {
   cancelled: "bg-red-100 text-red-800",
 }
 
+interface RunoffRecount {
+  key: string
+  title: string
+  result: InstantRunoffResult
+  /** Rounds reported by the server, when it sent any */
+  reported?: RankedChoiceRound[]
+}
+
+type MergedPosition = Omit<PositionResult, "write_ins"> & MergedPositionResult
+
+// Write-in names shown under each position's candidates; the rest are on the Write-ins tab
+const TOP_WRITE_INS = 3
+
 export default function ElectionAnalyticsPage({
   params,
 }: {
@@ -70,6 +94,59 @@ export default function ElectionAnalyticsPage({
   const { data: turnout, isLoading: turnoutLoading } = useTurnoutStats(id)
   const { data: trends, isLoading: trendsLoading } = useVotingTrends(id, trendGranularity)
   const { data: predictions, isLoading: predictionsLoading } = useElectionPredictions(id)
+  const { data: writeInMerges } = useWriteInMerges(id)
+
+  const isRankedChoice = election?.voting_method === "ranked_choice"
+  const { data: ballots, isLoading: ballotsLoading } = useElectionBallots(
+    id,
+    isRankedChoice && !!results && !results.results_hidden
+  )
+
+  // Recount ranked-choice contests from the raw ballots so admins can check
+  // the server's rounds
+  const recounts = useMemo<RunoffRecount[]>(() => {
+    if (!isRankedChoice || !results || !ballots) return []
+
+    if (results.positions) {
+      return results.positions.map((position) => ({
+        key: position.position_id,
+        title: position.title,
+        result: tabulateInstantRunoff(
+          ballots.map((ballot) => toRankedBallot(ballot.votes, position.position_id)),
+          position.candidates
+        ),
+        reported: position.candidates.find((candidate) => candidate.rounds?.length)?.rounds,
+      }))
+    }
+    if (results.options) {
+      return [
+        {
+          key: "poll",
+          title: "Poll",
+          result: tabulateInstantRunoff(
+            ballots.map((ballot) => toRankedBallot(ballot.votes)),
+            results.options.map((option) => ({
+              candidate_id: option.option_id,
+              name: option.option_text,
+            }))
+          ),
+        },
+      ]
+    }
+    return []
+  }, [isRankedChoice, results, ballots])
+
+  // Fold merged write-in spellings into their name or candidate
+  const mergedPositions = useMemo<MergedPosition[]>(
+    () =>
+      (results?.positions ?? []).map((position) => ({
+        ...position,
+        ...mergePositionResults(position, writeInMerges ?? []),
+      })),
+    [results, writeInMerges]
+  )
+  const hasWriteIns =
+    !!writeInMerges?.length || mergedPositions.some((position) => position.write_ins.length > 0)
 
   const finalizeResults = useFinalizeResults()
   const exportData = useExportElectionData()
@@ -280,17 +357,23 @@ export default function ElectionAnalyticsPage({
             <Tabs defaultValue="results">
               <TabsList>
                 <TabsTrigger value="results">Results</TabsTrigger>
+                {isRankedChoice && !results?.results_hidden && (
+                  <TabsTrigger value="rounds">Rounds</TabsTrigger>
+                )}
                 <TabsTrigger value="trends">Trends</TabsTrigger>
                 {predictions && election.status === "active" && (
                   <TabsTrigger value="predictions">Predictions</TabsTrigger>
                 )}
+                {hasWriteIns && !results?.results_hidden && (
+                  <TabsTrigger value="write-ins">Write-ins</TabsTrigger>
+                )}
               </TabsList>
 
               <TabsContent value="results" className="mt-6 space-y-6">
                 {!results?.results_hidden ? (
                   <>
                     {isElectionType && results?.positions ? (
-                      results.positions.map((position) => (
+                      mergedPositions.map((position) => (
                         <Card key={position.position_id}>
                           <CardHeader>
                             <CardTitle>{position.title}</CardTitle>
@@ -335,6 +418,36 @@ export default function ElectionAnalyticsPage({
                                     />
                                   </div>
                                 ))}
+                              {position.write_ins.length > 0 && (
+                                <div className="space-y-2 border-t pt-4">
+                                  <div className="flex items-center justify-between">
+                                    <div className="flex items-center gap-3">
+                                      <PenLine className="h-5 w-5 text-muted-foreground" />
+                                      <div>
+                                        <p className="font-medium">Write-ins</p>
+                                        <p className="text-sm text-muted-foreground">
+                                          {position.write_ins
+                                            .slice(0, TOP_WRITE_INS)
+                                            .map((group) => `${group.name} (${group.votes})`)
+                                            .join(", ")}
+                                          {position.write_ins.length > TOP_WRITE_INS &&
+                                            ` and ${position.write_ins.length - TOP_WRITE_INS} more`}
+                                        </p>
+                                      </div>
+                                    </div>
+                                    <div className="text-right">
+                                      <p className="font-bold">{position.write_in_total}</p>
+                                      <p className="text-sm text-muted-foreground">
+                                        {(position.total_votes > 0
+                                          ? (position.write_in_total / position.total_votes) * 100
+                                          : 0
+                                        ).toFixed(1)}
+                                        %
+                                      </p>
+                                    </div>
+                                  </div>
+                                </div>
+                              )}
                             </div>
                           </CardContent>
                         </Card>
@@ -408,6 +521,62 @@ export default function ElectionAnalyticsPage({
                 )}
               </TabsContent>
 
+              {isRankedChoice && !results?.results_hidden && (
+                <TabsContent value="rounds" className="mt-6 space-y-6">
+                  {ballotsLoading ? (
+                    <Skeleton className="h-64" />
+                  ) : recounts.length > 0 ? (
+                    recounts.map((recount) => {
+                      const mismatch = recount.reported
+                        ? findRoundMismatch(recount.reported, recount.result.rounds)
+                        : null
+
+                      return (
+                        <Card key={recount.key}>
+                          <CardHeader>
+                            <div className="flex items-start justify-between gap-4">
+                              <div>
+                                <CardTitle>{recount.title}</CardTitle>
+                                <CardDescription>
+                                  Instant-runoff recount of {ballots?.length || 0} ballots
+                                </CardDescription>
+                              </div>
+                              {recount.reported &&
+                                (mismatch === null ? (
+                                  <Badge variant="secondary" className="gap-1">
+                                    <CheckCircle2 className="h-3 w-3" />
+                                    Matches reported rounds
+                                  </Badge>
+                                ) : (
+                                  <Badge variant="destructive" className="gap-1">
+                                    <AlertTriangle className="h-3 w-3" />
+                                    Differs from reported results in round {mismatch}
+                                  </Badge>
+                                ))}
+                            </div>
+                          </CardHeader>
+                          <CardContent>
+                            <RankedChoiceRounds
+                              rounds={recount.result.rounds}
+                              eliminations={recount.result.eliminations}
+                              exhausted={recount.result.exhausted}
+                              winnerId={recount.result.winner_id}
+                            />
+                          </CardContent>
+                        </Card>
+                      )
+                    })
+                  ) : (
+                    <Card>
+                      <CardContent className="py-12 text-center">
+                        <Vote className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                        <p className="text-muted-foreground">No ballots available to recount</p>
+                      </CardContent>
+                    </Card>
+                  )}
+                </TabsContent>
+              )}
+
               <TabsContent value="trends" className="mt-6">
                 <Card>
                   <CardHeader>
@@ -555,6 +724,17 @@ export default function ElectionAnalyticsPage({
                   </div>
                 </TabsContent>
               )}
+
+              {hasWriteIns && !results?.results_hidden && (
+                <TabsContent value="write-ins" className="mt-6 space-y-6">
+                  <WriteInModeration
+                    electionId={id}
+                    positions={mergedPositions}
+                    merges={writeInMerges ?? []}
+                    canManage={hasPermission("elections:manage") && !results?.finalized}
+                  />
+                </TabsContent>
+              )}
             </Tabs>
           </motion.div>
         </div>
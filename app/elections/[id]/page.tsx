@@ -12,23 +12,8 @@ import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Skeleton } from "@/components/ui/skeleton"
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-  AlertDialogTrigger,
-} from "@/components/ui/alert-dialog"
 import {
   Edit,
-  Play,
-  Pause,
-  Square,
-  XCircle,
   BarChart3,
   Calendar,
   Users,
@@ -38,22 +23,16 @@ import {
   Clock,
   AlertTriangle,
   Eye,
-  ExternalLink,
-  Settings,
 } from "lucide-react"
 import { motion } from "framer-motion"
-import {
-  useElection,
-  usePublishElection,
-  usePauseElection,
-  useResumeElection,
-  useCloseElection,
-  useCancelElection,
-} from "@/hooks/elections"
+import { useElection } from "@/hooks/elections"
 import { useElectionResults, useTurnoutStats } from "@/hooks/elections"
 import { usePermissions } from "@/lib/permission-context"
 import { PositionsManager } from "@/components/elections/positions-manager"
 import { PollOptionsManager } from "@/components/elections/poll-options-manager"
+import { ReceiptCodeChecker } from "@/components/elections/receipt-code-checker"
+import { ElectionLifecycleControls } from "@/components/elections/election-lifecycle-controls"
+import { ElectionTimeline } from "@/components/elections/election-timeline"
 import type { ElectionStatus, ElectionType } from "@/lib/types"
 
 const statusColors: Record<ElectionStatus, string> = {
@@ -97,12 +76,6 @@ export default function ElectionDetailPage({
   const { data: results } = useElectionResults(id)
   const { data: turnout } = useTurnoutStats(id)
 
-  const publishElection = usePublishElection()
-  const pauseElection = usePauseElection()
-  const resumeElection = useResumeElection()
-  const closeElection = useCloseElection()
-  const cancelElection = useCancelElection()
-
   if (isLoading) {
     return (
       <RouteGuard permissions={["elections:read"]}>
@@ -199,6 +172,12 @@ export default function ElectionDetailPage({
                   </Button>
                 </Link>
               )}
+              <Link href={`/elections/${id}/preview`}>
+                <Button variant="outline" className="gap-2">
+                  <Eye className="h-4 w-4" />
+                  Preview Ballot
+                </Button>
+              </Link>
               <Link href={`/elections/${id}/analytics`}>
                 <Button variant="outline" className="gap-2">
                   <BarChart3 className="h-4 w-4" />
@@ -302,146 +281,18 @@ export default function ElectionDetailPage({
             </Card>
           </motion.div>
 
-          {/* Lifecycle Actions */}
-          {canManage && (
-            <motion.div
-              initial={{ opacity: 0, y: 10 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.2 }}
-            >
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-lg flex items-center gap-2">
-                    <Settings className="h-5 w-5" />
-                    Election Controls
-                  </CardTitle>
-                  <CardDescription>Manage the election lifecycle</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex flex-wrap gap-3">
-                    {election.status === "draft" && (
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button className="gap-2" variant="default">
-                            <Play className="h-4 w-4" />
-                            Publish Election
-                          </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>Publish Election?</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              This will make the election live and allow voters to cast their votes.
-                              Make sure all positions and candidates are configured.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                              onClick={() => publishElection.mutate(id)}
-                            >
-                              Publish
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
-                    )}
-
-                    {election.status === "active" && (
-                      <>
-                        <Button
-                          variant="outline"
-                          className="gap-2 text-yellow-600"
-                          onClick={() => pauseElection.mutate(id)}
-                        >
-                          <Pause className="h-4 w-4" />
-                          Pause Voting
-                        </Button>
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button variant="outline" className="gap-2 text-purple-600">
-                              <Square className="h-4 w-4" />
-                              Close Voting
-                            </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Close Voting?</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                This will end the voting period. No more votes will be accepted.
-                                This action cannot be undone.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction
-                                onClick={() => closeElection.mutate(id)}
-                              >
-                                Close Voting
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
-                      </>
-                    )}
-
-                    {election.status === "paused" && (
-                      <Button
-                        variant="outline"
-                        className="gap-2 text-green-600"
-                        onClick={() => resumeElection.mutate(id)}
-                      >
-                        <Play className="h-4 w-4" />
-                        Resume Voting
-                      </Button>
-                    )}
-
-                    {!["cancelled", "closed"].includes(election.status) && (
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button variant="outline" className="gap-2 text-destructive">
-                            <XCircle className="h-4 w-4" />
-                            Cancel Election
-                          </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>Cancel Election?</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              This will cancel the election entirely. All votes will be discarded.
-                              This action cannot be undone.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                              onClick={() => cancelElection.mutate(id)}
-                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                            >
-                              Cancel Election
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
-                    )}
-
-                    {election.status === "active" && (
-                      <Link
-                        href={`/vote/${id}`}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                      >
-                        <Button variant="outline" className="gap-2">
-                          <ExternalLink className="h-4 w-4" />
-                          View Public Ballot
-                        </Button>
-                      </Link>
-                    )}
-                  </div>
-                </CardContent>
-              </Card>
-            </motion.div>
-          )}
+          {/* Schedule & Lifecycle Actions */}
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className={`grid grid-cols-1 gap-4 ${canManage ? "lg:grid-cols-2" : ""}`}
+          >
+            <ElectionTimeline election={election} canManage={canManage} />
+            {canManage && (
+              <ElectionLifecycleControls election={election} totalVotes={results?.total_voters} />
+            )}
+          </motion.div>
 
           {/* Main Content Tabs */}
           <motion.div
@@ -529,7 +380,8 @@ export default function ElectionDetailPage({
                 </Card>
               </TabsContent>
 
-              <TabsContent value="audit" className="mt-6">
+              <TabsContent value="audit" className="mt-6 space-y-6">
+                {canManage && <ReceiptCodeChecker electionId={id} />}
                 <Card>
                   <CardHeader>
                     <CardTitle>Audit Log</CardTitle>
@@ -0,0 +1,203 @@
+"use client"
+
+import { use, useState } from "react"
+import Link from "next/link"
+import { AlertTriangle, ArrowLeft, CheckCircle, Eye, RotateCcw, Shuffle } from "lucide-react"
+import { RouteGuard } from "@/components/route-guard"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { BallotLayout, ElectionBallot } from "@/components/elections"
+import { useElection } from "@/hooks/elections"
+import { useLocalStorage } from "@/hooks/use-local-storage"
+import { useToast } from "@/hooks/use-toast"
+import {
+  buildCastVotesInput,
+  getBallotContests,
+  toPublicElection,
+  validateBallot,
+  type BallotSelections,
+  type BallotWriteIns,
+} from "@/lib/ballots"
+import { getVerificationSteps } from "@/lib/voter-verification"
+
+const VERIFICATION_STEP_LABELS = {
+  national_id: "Ghana Card number",
+  phone: "phone number",
+  code: "SMS code",
+}
+
+const newSeed = () => Math.random().toString(36).slice(2)
+
+export default function BallotPreviewPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params)
+  const { toast } = useToast()
+  const { data, isLoading, error } = useElection(id)
+  const [selections, setSelections] = useState<BallotSelections>({})
+  const [writeIns, setWriteIns] = useState<BallotWriteIns>({})
+  const [accessible, setAccessible] = useLocalStorage("ballot-accessible", false)
+  const [shuffleSeed, setShuffleSeed] = useState(newSeed)
+  const [checkedVotes, setCheckedVotes] = useState<number | null>(null)
+
+  if (isLoading) {
+    return (
+      <RouteGuard permissions={["elections:read"]}>
+        <div className="max-w-3xl mx-auto p-8 space-y-6">
+          <Skeleton className="h-32" />
+          <Skeleton className="h-64" />
+        </div>
+      </RouteGuard>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <RouteGuard permissions={["elections:read"]}>
+        <div className="text-center py-12">
+          <AlertTriangle className="h-12 w-12 text-destructive mx-auto mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Election Not Found</h2>
+          <Link href="/elections">
+            <Button>Back to Elections</Button>
+          </Link>
+        </div>
+      </RouteGuard>
+    )
+  }
+
+  const election = toPublicElection(data)
+  const contests = getBallotContests(election)
+  const verificationSteps = getVerificationSteps(election)
+
+  const handleSelectionChange = (contestId: string, choiceIds: string[]) => {
+    setSelections((prev) => ({ ...prev, [contestId]: choiceIds }))
+  }
+
+  const handleWriteInChange = (contestId: string, name: string) => {
+    setWriteIns((prev) => ({ ...prev, [contestId]: name }))
+  }
+
+  // Runs the live ballot's checks; nothing is sent
+  const handleSubmit = () => {
+    const ballotError = contests
+      .map((contest) =>
+        validateBallot(
+          election.voting_method,
+          contest,
+          selections[contest.id] ?? [],
+          writeIns[contest.id]
+        )
+      )
+      .find(Boolean)
+    if (ballotError) {
+      toast({ title: "Invalid Ballot", description: ballotError, variant: "destructive" })
+      return
+    }
+
+    const { votes } = buildCastVotesInput(
+      election.voting_method,
+      contests,
+      selections,
+      undefined,
+      writeIns
+    )
+    if (votes.length === 0) {
+      toast({
+        title: "No Selection",
+        description: "Please make a selection before submitting.",
+        variant: "destructive",
+      })
+      return
+    }
+    setCheckedVotes(votes.length)
+  }
+
+  const handleStartOver = () => {
+    setSelections({})
+    setWriteIns({})
+    setCheckedVotes(null)
+  }
+
+  const banner = (
+    <div className="sticky top-0 z-10 border-b bg-amber-100 px-4 py-3 text-amber-900 dark:bg-amber-900 dark:text-amber-100">
+      <div className="max-w-3xl mx-auto flex flex-wrap items-center justify-between gap-2 text-sm">
+        <p className="flex items-center gap-2 font-medium">
+          <Eye className="h-4 w-4" />
+          Ballot preview: nothing you choose here is recorded
+        </p>
+        <div className="flex items-center gap-2">
+          {election.settings?.randomize_candidates && (
+            <Button variant="outline" size="sm" onClick={() => setShuffleSeed(newSeed())}>
+              <Shuffle className="h-4 w-4 mr-2" />
+              Shuffle Again
+            </Button>
+          )}
+          <Link href={`/elections/${id}`}>
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Election
+            </Button>
+          </Link>
+        </div>
+      </div>
+      {verificationSteps.length > 0 && (
+        <p className="max-w-3xl mx-auto mt-1 text-xs">
+          Voters confirm their{" "}
+          {verificationSteps.map((step) => VERIFICATION_STEP_LABELS[step]).join(", then ")} before
+          they see this ballot.
+        </p>
+      )}
+    </div>
+  )
+
+  return (
+    <RouteGuard permissions={["elections:read"]}>
+      <BallotLayout
+        election={election}
+        accessible={accessible}
+        onAccessibleChange={setAccessible}
+        banner={banner}
+      >
+        {checkedVotes !== null ? (
+          <Card>
+            <CardHeader className="text-center">
+              <CheckCircle className="w-10 h-10 mx-auto text-green-600" />
+              <CardTitle>Ballot Accepted</CardTitle>
+              <CardDescription>
+                A voter submitting these choices would cast {checkedVotes}{" "}
+                {checkedVotes === 1 ? "vote" : "votes"}. This preview didn&apos;t record them.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex justify-center">
+              <Button variant="outline" onClick={handleStartOver}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Start Over
+              </Button>
+            </CardContent>
+          </Card>
+        ) : contests.every((contest) => contest.choices.length === 0) ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Nothing to Vote On Yet</CardTitle>
+              <CardDescription>
+                Add {data.election_type === "poll" ? "poll options" : "positions and candidates"} to
+                see them on the ballot.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <ElectionBallot
+            election={election}
+            selections={selections}
+            onSelectionChange={handleSelectionChange}
+            onSubmit={handleSubmit}
+            submitLabel="Submit Vote (Preview)"
+            accessible={accessible}
+            shuffleSeed={shuffleSeed}
+            writeIns={writeIns}
+            onWriteInChange={handleWriteInChange}
+          />
+        )}
+      </BallotLayout>
+    </RouteGuard>
+  )
+}
@@ -9,12 +9,15 @@ import { Loader } from "lucide-react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { logger } from "@/lib/logger"
+import type { ConditionalRule } from "@/hooks/forms/use-conditional-logic"
+import { normalizeConditionalRules } from "@/lib/conditional-rules"
 
 export default function PublicFormPage() {
   const params = useParams()
   const router = useRouter()
   const { toast } = useToast()
   const [form, setForm] = useState<Form | null>(null)
+  const [rules, setRules] = useState<ConditionalRule[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submitted, setSubmitted] = useState(false)
@@ -35,6 +38,8 @@ export default function PublicFormPage() {
 
         if (result.success) {
           setForm(result.data)
+          // Published rules are evaluated in the browser as the respondent types
+          setRules(normalizeConditionalRules(result.data.conditional_rules))
         } else {
           throw new Error(result.message || "Failed to load form")
         }
@@ -163,6 +168,7 @@ export default function PublicFormPage() {
       form={form}
       onSubmit={handleSubmit}
       isSubmitting={isSubmitting}
+      rules={rules}
     />
   )
 }
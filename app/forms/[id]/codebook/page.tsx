@@ -0,0 +1,248 @@
+"use client"
+
+/**
+ * Form Codebook Page
+ * Field-level data dictionary with Markdown, CSV and PDF downloads
+ */
+
+import { useMemo, useState } from "react"
+import { useParams } from "next/navigation"
+import { LayoutWrapper } from "@/components/layout-wrapper"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useForm, useExportCodebook } from "@/hooks/use-forms"
+import { useFormVersions } from "@/hooks/forms/use-form-versioning"
+import { useConditionalRules } from "@/hooks/forms/use-conditional-logic"
+import { useValidationRules } from "@/hooks/forms/use-form-validation"
+import { buildCodebook, describeHistory } from "@/lib/codebook"
+import { BookOpen, Download, FileSpreadsheet, FileText, Loader2, Search } from "lucide-react"
+
+export default function FormCodebookPage() {
+  const params = useParams()
+  const formId = params.id as string
+  const [search, setSearch] = useState("")
+
+  const { data: form, isLoading: formLoading } = useForm(formId)
+  const { data: versions, isLoading: versionsLoading } = useFormVersions(formId)
+  const { data: conditionalRules, isLoading: conditionalLoading } = useConditionalRules(formId)
+  const { data: validationRules, isLoading: validationLoading } = useValidationRules(formId)
+  const exportCodebook = useExportCodebook()
+
+  const isLoading = formLoading || versionsLoading || conditionalLoading || validationLoading
+
+  const codebook = useMemo(
+    () =>
+      form
+        ? buildCodebook(form, versions ?? [], conditionalRules ?? [], validationRules ?? [])
+        : null,
+    [form, versions, conditionalRules, validationRules]
+  )
+
+  const entries = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    if (!codebook || !query) return codebook?.entries ?? []
+    return codebook.entries.filter(
+      (entry) =>
+        entry.variable.toLowerCase().includes(query) || entry.label.toLowerCase().includes(query)
+    )
+  }, [codebook, search])
+
+  return (
+    <LayoutWrapper>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <BookOpen className="h-8 w-8 text-primary" />
+              Data Dictionary
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              {form
+                ? `${form.title} · version ${form.version}`
+                : "Variables, codes and skip logic for this form"}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={!codebook || exportCodebook.isPending}>
+                  <FileSpreadsheet className="mr-2 h-4 w-4" />
+                  Export Responses
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Responses with data dictionary</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {(["csv", "xlsx", "json"] as const).map((format) => (
+                  <DropdownMenuItem
+                    key={format}
+                    onClick={() =>
+                      exportCodebook.mutate({ formId, format: "csv", responses: format })
+                    }
+                  >
+                    {format.toUpperCase()}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button disabled={!codebook || exportCodebook.isPending}>
+                  {exportCodebook.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Download className="mr-2 h-4 w-4" />
+                  )}
+                  Download
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => exportCodebook.mutate({ formId, format: "pdf" })}>
+                  <FileText className="mr-2 h-4 w-4" />
+                  PDF
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => exportCodebook.mutate({ formId, format: "markdown" })}
+                >
+                  <FileText className="mr-2 h-4 w-4" />
+                  Markdown
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportCodebook.mutate({ formId, format: "csv" })}>
+                  <FileSpreadsheet className="mr-2 h-4 w-4" />
+                  CSV
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle>Variables</CardTitle>
+                <CardDescription>
+                  {codebook?.entries.length ?? 0} variable(s); codes are the values stored in
+                  responses
+                </CardDescription>
+              </div>
+              <div className="relative w-64">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search variables"
+                  className="pl-8"
+                />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-3">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-16 w-full" />
+                ))}
+              </div>
+            ) : entries.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Variable</TableHead>
+                    <TableHead>Question</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Values</TableHead>
+                    <TableHead>Skip logic</TableHead>
+                    <TableHead>History</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.variable} className="align-top">
+                      <TableCell className="font-mono text-xs">{entry.variable}</TableCell>
+                      <TableCell className="max-w-xs whitespace-normal">
+                        <div className="font-medium">{entry.label}</div>
+                        {entry.description && (
+                          <p className="text-xs text-muted-foreground">{entry.description}</p>
+                        )}
+                        {entry.calculation && (
+                          <p className="text-xs font-mono mt-1">= {entry.calculation}</p>
+                        )}
+                        {entry.validation.map((rule) => (
+                          <p key={rule} className="text-xs text-muted-foreground">
+                            {rule}
+                          </p>
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{entry.typeLabel}</div>
+                        {entry.required && (
+                          <Badge variant="outline" className="text-xs mt-1">
+                            Required
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-normal">
+                        {entry.values.length > 0 ? (
+                          <div className="space-y-0.5">
+                            {entry.values.map((value) => (
+                              <div key={value.code} className="text-xs">
+                                <code className="bg-muted px-1 rounded">{value.code}</code>{" "}
+                                {value.label}
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-xs whitespace-normal text-xs">
+                        {entry.skipLogic.length > 0 ? (
+                          entry.skipLogic.map((text) => <p key={text}>{text}</p>)
+                        ) : (
+                          <span className="text-muted-foreground">Always asked</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-xs whitespace-normal text-xs">
+                        <p>{describeHistory(entry)}</p>
+                        {entry.changes.map((change, index) => (
+                          <p key={index} className="text-muted-foreground">
+                            v{change.version}: {change.description}
+                          </p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-12 text-muted-foreground">
+                {search ? "No variables match your search" : "This form has no fields yet"}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </LayoutWrapper>
+  )
+}
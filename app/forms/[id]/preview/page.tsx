@@ -7,7 +7,10 @@ import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { MediaUploader } from "@/components/media-uploader"
+import { RepeatingGroupField } from "@/components/repeating-group-field"
+import { FormFieldRenderer } from "@/components/public-forms/form-field-renderer"
 import { formsAPI } from "@/lib/api"
+import { evaluateCalculatedFields, formatFormulaValue } from "@/lib/formula"
 import type { Form, FormField } from "@/lib/types"
 import { useToast } from "@/hooks/use-toast"
 import { Loader } from "lucide-react"
@@ -121,6 +124,27 @@ export default function PreviewFormPage() {
             GPS location capture would be enabled on mobile
           </div>
         )
+      case "calculated":
+        return (
+          <Input
+            readOnly
+            value={formatFormulaValue(
+              evaluateCalculatedFields(form?.schema?.fields || [], formData)[field.id]
+            )}
+          />
+        )
+      case "group":
+        return (
+          <RepeatingGroupField
+            field={field}
+            value={value}
+            data={formData}
+            onChange={(rows) => handleFieldChange(field.id, rows)}
+            renderChild={(child, childValue, onChildChange) => (
+              <FormFieldRenderer field={child} value={childValue} onChange={onChildChange} />
+            )}
+          />
+        )
       default:
         return null
     }
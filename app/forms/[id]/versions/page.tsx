@@ -39,6 +39,13 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
 import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import { Textarea } from "@/components/ui/textarea"
 import {
   useFormVersions,
@@ -61,8 +68,10 @@ import {
   Copy,
   Upload,
   FileText,
+  GitCompare,
 } from "lucide-react"
 import { Skeleton } from "@/components/ui/skeleton"
+import { FormVersionDiff } from "@/components/form-version-diff"
 import { format } from "date-fns"
 import { useForm } from "react-hook-form"
 
@@ -76,6 +85,8 @@ export default function FormVersionsPage() {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [isCreateVersionDialogOpen, setIsCreateVersionDialogOpen] = useState(false)
   const [createNewOnRestore, setCreateNewOnRestore] = useState(true)
+  const [compareFrom, setCompareFrom] = useState<number | null>(null)
+  const [compareTo, setCompareTo] = useState<number | null>(null)
 
   const { data: versions, isLoading: versionsLoading } = useFormVersions(formId)
   const { data: currentVersion } = useCurrentFormVersion(formId)
@@ -87,6 +98,14 @@ export default function FormVersionsPage() {
   const createVersionMutation = useCreateFormVersion(formId)
   const duplicateMutation = useDuplicateVersion(formId, selectedVersion?.version || 0)
 
+  const fromVersion = versions?.find((version) => version.version === compareFrom)
+  const toVersion = versions?.find((version) => version.version === compareTo)
+
+  const compareWithCurrent = (version: FormVersion) => {
+    setCompareFrom(version.version)
+    setCompareTo(currentVersion?.version ?? null)
+  }
+
   const {
     register,
     handleSubmit,
@@ -364,6 +383,16 @@ export default function FormVersionsPage() {
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
+                          {!version.is_current && currentVersion && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => compareWithCurrent(version)}
+                              title="Compare with current version"
+                            >
+                              <GitCompare className="h-4 w-4" />
+                            </Button>
+                          )}
                           {!version.is_current && version.status === "draft" && (
                             <Button
                               variant="ghost"
@@ -424,6 +453,69 @@ export default function FormVersionsPage() {
           </CardContent>
         </Card>
 
+        {/* Compare Versions */}
+        {versions && versions.length > 1 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <GitCompare className="h-5 w-5" />
+                Compare Versions
+              </CardTitle>
+              <CardDescription>
+                See how changes between versions affect responses already collected
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label>From</Label>
+                  <Select
+                    value={compareFrom !== null ? String(compareFrom) : ""}
+                    onValueChange={(value) => setCompareFrom(Number(value))}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue placeholder="Select version" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem key={version.id} value={String(version.version)}>
+                          v{version.version}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>To</Label>
+                  <Select
+                    value={compareTo !== null ? String(compareTo) : ""}
+                    onValueChange={(value) => setCompareTo(Number(value))}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue placeholder="Select version" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem key={version.id} value={String(version.version)}>
+                          v{version.version}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {fromVersion && toVersion && fromVersion.id !== toVersion.id ? (
+                <FormVersionDiff formId={formId} from={fromVersion} to={toVersion} />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Pick two different versions to compare
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Restore Dialog */}
         <AlertDialog open={isRestoreDialogOpen} onOpenChange={setIsRestoreDialogOpen}>
           <AlertDialogContent>
@@ -2,13 +2,26 @@
 
 import { LayoutWrapper } from "@/components/layout-wrapper"
 import { FormBuilder } from "@/components/form-builder"
+import { FormImportWizard } from "@/components/form-import-wizard"
 import { RouteGuard } from "@/components/route-guard"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 
 export default function NewFormPage() {
   return (
     <RouteGuard permission="forms:create">
       <LayoutWrapper>
-        <FormBuilder autoLock={false} enableAutosave={false} />
+        <Tabs defaultValue="build">
+          <TabsList>
+            <TabsTrigger value="build">Build from scratch</TabsTrigger>
+            <TabsTrigger value="import">Import</TabsTrigger>
+          </TabsList>
+          <TabsContent value="build">
+            <FormBuilder autoLock={false} enableAutosave={false} />
+          </TabsContent>
+          <TabsContent value="import" className="mx-auto w-full max-w-3xl">
+            <FormImportWizard />
+          </TabsContent>
+        </Tabs>
       </LayoutWrapper>
     </RouteGuard>
   )
@@ -1,3 +1,4 @@
+import { Suspense } from "react"
 import { LayoutWrapper } from "@/components/layout-wrapper"
 import { ProfessionalResponsesTable } from "@/components/responses/professional-responses-table"
 import { RouteGuard } from "@/components/route-guard"
@@ -7,7 +8,10 @@ export default function ResponsesPage() {
     <RouteGuard permission="responses:read">
       <LayoutWrapper>
         <div className="max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
-          <ProfessionalResponsesTable />
+          {/* The table reads its view from the URL */}
+          <Suspense>
+            <ProfessionalResponsesTable />
+          </Suspense>
         </div>
       </LayoutWrapper>
     </RouteGuard>
@@ -31,6 +31,12 @@ import {
 import { webhooksAPI } from "@/lib/api"
 import { useToast } from "@/hooks/use-toast"
 import type { Webhook, CreateWebhookInput } from "@/lib/types"
+import { WEBHOOK_EVENTS } from "@/lib/webhooks"
+import {
+  WebhookDeliveryInspector,
+  WebhookEventCatalogue,
+  WebhookSignatureVerifier,
+} from "@/components/webhooks"
 import {
   Webhook as WebhookIcon,
   Loader2,
@@ -44,26 +50,11 @@ import {
   Calendar,
   AlertTriangle,
   Code,
+  History,
+  ShieldCheck,
 } from "lucide-react"
 import { formatDistanceToNow } from "date-fns"
 
-const AVAILABLE_EVENTS = [
-  { id: "form.created", label: "Form Created", description: "When a new form is created" },
-  { id: "form.updated", label: "Form Updated", description: "When a form is modified" },
-  { id: "form.deleted", label: "Form Deleted", description: "When a form is deleted" },
-  { id: "form.published", label: "Form Published", description: "When a form is published" },
-  {
-    id: "response.created",
-    label: "Response Created",
-    description: "When a new response is submitted",
-  },
-  { id: "response.updated", label: "Response Updated", description: "When a response is modified" },
-  { id: "response.deleted", label: "Response Deleted", description: "When a response is deleted" },
-  { id: "user.created", label: "User Created", description: "When a new user is created" },
-  { id: "user.updated", label: "User Updated", description: "When a user is modified" },
-  { id: "role.assigned", label: "Role Assigned", description: "When a role is assigned to a user" },
-]
-
 export default function WebhooksPage() {
   const { toast } = useToast()
   const queryClient = useQueryClient()
@@ -71,6 +62,7 @@ export default function WebhooksPage() {
   const [showEditDialog, setShowEditDialog] = useState(false)
   const [webhookToDelete, setWebhookToDelete] = useState<Webhook | null>(null)
   const [selectedWebhook, setSelectedWebhook] = useState<Webhook | null>(null)
+  const [inspectedWebhook, setInspectedWebhook] = useState<Webhook | null>(null)
 
   const [formData, setFormData] = useState<CreateWebhookInput>({
     name: "",
@@ -294,6 +286,14 @@ export default function WebhooksPage() {
                       </div>
                     </div>
                     <div className="flex items-center gap-2 ml-4">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setInspectedWebhook(webhook)}
+                        title="View deliveries"
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -333,25 +333,22 @@ export default function WebhooksPage() {
           </CardHeader>
           <CardContent className="space-y-4">
             <div>
-              <h4 className="font-medium text-sm mb-2">Payload Format</h4>
-              <pre className="bg-muted p-3 rounded-lg text-xs overflow-auto">
-                {`{
-  "event": "response.created",
-  "timestamp": "2025-01-14T10:30:00Z",
-  "data": {
-    "id": "resp_123",
-    "form_id": "form_456",
-    ...
-  }
-}`}
-              </pre>
+              <h4 className="font-medium text-sm mb-2">Events and Payloads</h4>
+              <p className="text-sm text-muted-foreground mb-2">
+                Every delivery is a JSON object with <code>event</code>, <code>timestamp</code>,{" "}
+                <code>webhook_id</code> and an event-specific <code>data</code> object.
+              </p>
+              <WebhookEventCatalogue />
             </div>
             <div>
               <h4 className="font-medium text-sm mb-2">Security</h4>
               <ul className="space-y-1 text-sm text-muted-foreground">
                 <li className="flex items-start gap-2">
                   <span className="text-primary mt-0.5">•</span>
-                  <span>All webhook requests include a signature header for verification</span>
+                  <span>
+                    Every request carries an <code>X-Webhook-Signature</code> header: an HMAC-SHA256
+                    of the raw body keyed with the webhook secret
+                  </span>
                 </li>
                 <li className="flex items-start gap-2">
                   <span className="text-primary mt-0.5">•</span>
@@ -366,6 +363,38 @@ export default function WebhooksPage() {
           </CardContent>
         </Card>
 
+        {/* Signature Verifier */}
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <ShieldCheck className="w-5 h-5" />
+              Verify a Signature
+            </CardTitle>
+            <CardDescription>
+              Check that a payload your endpoint received was signed with your webhook secret
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WebhookSignatureVerifier webhooks={webhooks} />
+          </CardContent>
+        </Card>
+
+        {/* Delivery Inspector Dialog */}
+        <Dialog
+          open={!!inspectedWebhook}
+          onOpenChange={(open) => !open && setInspectedWebhook(null)}
+        >
+          <DialogContent className="max-w-5xl">
+            <DialogHeader>
+              <DialogTitle>Deliveries · {inspectedWebhook?.name}</DialogTitle>
+              <DialogDescription className="font-mono text-xs">
+                {inspectedWebhook?.url}
+              </DialogDescription>
+            </DialogHeader>
+            {inspectedWebhook && <WebhookDeliveryInspector webhook={inspectedWebhook} />}
+          </DialogContent>
+        </Dialog>
+
         {/* Create/Edit Webhook Dialog */}
         <Dialog
           open={showCreateDialog || showEditDialog}
@@ -413,7 +442,7 @@ export default function WebhooksPage() {
               <div>
                 <Label className="mb-3 block">Events to Subscribe *</Label>
                 <div className="space-y-3 max-h-64 overflow-y-auto border rounded-lg p-4">
-                  {AVAILABLE_EVENTS.map((event) => (
+                  {WEBHOOK_EVENTS.map((event) => (
                     <div key={event.id} className="flex items-start gap-3">
                       <Checkbox
                         id={event.id}
@@ -1,147 +1,150 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
 import { useParams } from "next/navigation"
 import { useToast } from "@/hooks/use-toast"
-import { Loader, Vote, CheckCircle, AlertCircle } from "lucide-react"
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useLocalStorage } from "@/hooks/use-local-storage"
+import { Loader, CheckCircle, AlertCircle } from "lucide-react"
 import { Button } from "@/components/ui/button"
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
-import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  BallotLayout,
+  ElectionBallot,
+  VoteReceiptDownloads,
+  VoterVerificationWizard,
+  getBallotAccent,
+} from "@/components/elections"
+import {
+  useCastPublicVote,
+  usePublicElection,
+  usePublicVoteStatus,
+  useVerifyPublicVoter,
+} from "@/hooks/elections/use-public-voting"
 import { logger } from "@/lib/logger"
-
-interface Candidate {
-  id: string
-  name: string
-  photo_url?: string
-  party?: string
-  bio?: string
-  manifesto?: string
-}
-
-interface Position {
-  id: string
-  title: string
-  description?: string
-  max_selections: number
-  candidates: Candidate[]
-}
-
-interface PollOption {
-  id: string
-  option_text: string
-  description?: string
-}
-
-interface PublicElection {
-  id: string
-  title: string
-  description?: string
-  election_type: string
-  voting_method: string
-  verification_level: string
-  require_national_id: boolean
-  require_phone_otp: boolean
-  status: string
-  start_date: string
-  end_date: string
-  branding?: {
-    header_text?: string
-    footer_text?: string
-    primary_color?: string
-    logo_url?: string
-  }
-  positions: Position[]
-  poll_options: PollOption[]
-  total_votes?: number
-}
-
-interface VoteReceipt {
-  election_id: string
-  election_title: string
-  votes_cast: number
-  confirmation_code: string
-}
+import {
+  buildCastVotesInput,
+  getBallotContests,
+  validateBallot,
+  type BallotSelections,
+  type BallotWriteIns,
+} from "@/lib/ballots"
+import {
+  clearVoteReceipt,
+  clearVoterToken,
+  getStoredVoteReceipt,
+  getStoredVoterToken,
+  getVerificationSteps,
+  getVoteErrorMessage,
+  storeVoteReceipt,
+  storeVoterToken,
+  type StoredVoteReceipt,
+} from "@/lib/voter-verification"
+import type { VoteReceipt } from "@/lib/types"
 
 export default function PublicElectionPage() {
   const params = useParams()
+  const electionId = params.id as string
   const { toast } = useToast()
-  const [election, setElection] = useState<PublicElection | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
-  const [isSubmitting, setIsSubmitting] = useState(false)
-  const [hasVoted, setHasVoted] = useState(false)
-  const [receipt, setReceipt] = useState<VoteReceipt | null>(null)
+  const { data: election, isLoading, error } = usePublicElection(electionId)
   const [voterToken, setVoterToken] = useState<string | null>(null)
-  const [selections, setSelections] = useState<Record<string, string>>({})
-  const [error, setError] = useState<string | null>(null)
-
+  const [hasReadToken, setHasReadToken] = useState(false)
+  const [receipt, setReceipt] = useState<VoteReceipt | null>(null)
+  const [storedReceipt, setStoredReceipt] = useState<StoredVoteReceipt | null>(null)
+  const [selections, setSelections] = useState<BallotSelections>({})
+  const [writeIns, setWriteIns] = useState<BallotWriteIns>({})
+  // Large text, high contrast and native controls; remembered across elections
+  const [accessible, setAccessible] = useLocalStorage("ballot-accessible", false)
+  const voteStatus = usePublicVoteStatus(electionId, voterToken)
+  const {
+    mutate: requestToken,
+    isIdle: hasNotRequestedToken,
+    error: tokenError,
+  } = useVerifyPublicVoter()
+  const castVote = useCastPublicVote()
+
+  const verificationSteps = election ? getVerificationSteps(election) : []
+  const needsVerification = verificationSteps.length > 0
+
+  // A receipt from an earlier visit is shown until the voter asks for a
+  // ballot; a token from earlier in this session resumes an unfinished one
   useEffect(() => {
-    const abortController = new AbortController()
-
-    const fetchElection = async () => {
-      try {
-        const response = await fetch(
-          `${process.env.NEXT_PUBLIC_API_URL}/vote/${params.id}`,
-          { signal: abortController.signal }
-        )
-        const result = await response.json()
+    setStoredReceipt(getStoredVoteReceipt(electionId))
+    setVoterToken(getStoredVoterToken(electionId))
+    setHasReadToken(true)
+  }, [electionId])
 
-        if (result.success) {
-          setElection(result.data)
-          // For anonymous elections, get a voter token immediately
-          if (result.data.verification_level === "anonymous") {
-            await getVoterToken()
-          }
-        } else {
-          setError(result.message || "Failed to load election")
-        }
-      } catch (err: any) {
-        if (err.name === "AbortError") return
-        setError(err.message || "Failed to load election")
-        logger.error("Failed to fetch public election", { error: err, electionId: params.id })
-      } finally {
-        setIsLoading(false)
-      }
+  // The token has been used; keep only the receipt
+  const votedStatus = voteStatus.data?.has_voted ? voteStatus.data : null
+  useEffect(() => {
+    if (votedStatus?.confirmation_code) {
+      storeVoteReceipt(electionId, {
+        confirmation_code: votedStatus.confirmation_code,
+        voted_at: votedStatus.voted_at,
+      })
     }
+  }, [votedStatus, electionId])
 
-    fetchElection()
-
-    return () => {
-      abortController.abort()
+  // The API no longer accepts the stored token (expired or revoked); start over
+  useEffect(() => {
+    if (voteStatus.isError) {
+      clearVoterToken(electionId)
+      setVoterToken(null)
     }
-  }, [params.id])
+  }, [voteStatus.isError, electionId])
 
-  const getVoterToken = async () => {
-    try {
-      const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/vote/${params.id}/verify`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({}),
-        }
-      )
-      const result = await response.json()
-      if (result.success && result.data?.voter_token) {
-        setVoterToken(result.data.voter_token)
-      }
-    } catch (err) {
-      logger.error("Failed to get voter token", { error: err })
-    }
+  // Shared devices keep the last voter's receipt; the server decides whether
+  // the next voter may cast a ballot
+  const handleVoteAgain = () => {
+    clearVoteReceipt(electionId)
+    setStoredReceipt(null)
   }
 
-  const handleSelectionChange = (positionId: string, candidateId: string) => {
+  const handleVerified = useCallback(
+    (token: string) => {
+      storeVoterToken(electionId, token)
+      setVoterToken(token)
+    },
+    [electionId]
+  )
+
+  // Elections that ask for nothing hand out a token straight away
+  useEffect(() => {
+    if (!election || election.status !== "active" || !hasReadToken) return
+    if (voterToken || storedReceipt || needsVerification || !hasNotRequestedToken) return
+    requestToken(
+      { electionId: election.id, data: {} },
+      {
+        onSuccess: (result) => result.voter_token && handleVerified(result.voter_token),
+        onError: (err) => logger.error("Failed to get voter token", { error: err }),
+      }
+    )
+  }, [
+    election,
+    hasReadToken,
+    voterToken,
+    storedReceipt,
+    needsVerification,
+    hasNotRequestedToken,
+    requestToken,
+    handleVerified,
+  ])
+
+  const handleSelectionChange = (contestId: string, choiceIds: string[]) => {
     setSelections(prev => ({
       ...prev,
-      [positionId]: candidateId,
+      [contestId]: choiceIds,
     }))
   }
 
-  const handlePollOptionChange = (optionId: string) => {
-    setSelections({ poll_option: optionId })
+  const handleWriteInChange = (contestId: string, name: string) => {
+    setWriteIns(prev => ({
+      ...prev,
+      [contestId]: name,
+    }))
   }
 
-  const handleSubmitVote = async () => {
+  const handleSubmitVote = () => {
     if (!election || !voterToken) {
       toast({
         title: "Error",
@@ -151,24 +154,35 @@ export default function PublicElectionPage() {
       return
     }
 
-    // Build votes array
-    const votes: { position_id?: string; candidate_id?: string; poll_option_id?: string }[] = []
+    const contests = getBallotContests(election)
+    const ballotError = contests
+      .map((contest) =>
+        validateBallot(
+          election.voting_method,
+          contest,
+          selections[contest.id] ?? [],
+          writeIns[contest.id]
+        )
+      )
+      .find(Boolean)
 
-    if (election.election_type === "poll") {
-      if (selections.poll_option) {
-        votes.push({ poll_option_id: selections.poll_option })
-      }
-    } else {
-      for (const position of election.positions) {
-        if (selections[position.id]) {
-          votes.push({
-            position_id: position.id,
-            candidate_id: selections[position.id],
-          })
-        }
-      }
+    if (ballotError) {
+      toast({
+        title: "Invalid Ballot",
+        description: ballotError,
+        variant: "destructive",
+      })
+      return
     }
 
+    const { votes } = buildCastVotesInput(
+      election.voting_method,
+      contests,
+      selections,
+      undefined,
+      writeIns
+    )
+
     if (votes.length === 0) {
       toast({
         title: "No Selection",
@@ -178,50 +192,30 @@ export default function PublicElectionPage() {
       return
     }
 
-    setIsSubmitting(true)
-
-    try {
-      const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/vote/${election.id}/vote`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            votes,
-            voter_token: voterToken,
-          }),
-        }
-      )
-
-      const result = await response.json()
-
-      if (result.success) {
-        setHasVoted(true)
-        setReceipt(result.data.receipt)
-        toast({
-          title: "Vote Submitted",
-          description: "Your vote has been recorded successfully.",
-        })
-      } else {
-        toast({
-          title: "Error",
-          description: result.detail?.message || result.detail || result.message || "Failed to submit vote",
-          variant: "destructive",
-        })
+    castVote.mutate(
+      { electionId: election.id, data: { votes, voter_token: voterToken } },
+      {
+        onSuccess: (result) => {
+          storeVoteReceipt(election.id, result)
+          setReceipt(result)
+          toast({
+            title: "Vote Submitted",
+            description: "Your vote has been recorded successfully.",
+          })
+        },
+        onError: (err) => {
+          logger.error("Failed to submit vote", { error: err })
+          toast({
+            title: "Error",
+            description: getVoteErrorMessage(err, "Failed to submit vote. Please try again."),
+            variant: "destructive",
+          })
+        },
       }
-    } catch (err: any) {
-      logger.error("Failed to submit vote", { error: err })
-      toast({
-        title: "Error",
-        description: "Network error. Please try again.",
-        variant: "destructive",
-      })
-    } finally {
-      setIsSubmitting(false)
-    }
+    )
   }
 
-  if (isLoading) {
+  if (isLoading || !hasReadToken || (voterToken && voteStatus.isLoading)) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
         <Loader className="w-8 h-8 animate-spin text-primary" />
@@ -239,25 +233,10 @@ export default function PublicElectionPage() {
               Election Not Found
             </CardTitle>
             <CardDescription>
-              {error || "The election you're looking for doesn't exist or is not publicly available."}
-            </CardDescription>
-          </CardHeader>
-        </Card>
-      </div>
-    )
-  }
-
-  if (election.status !== "active") {
-    return (
-      <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
-        <Card className="max-w-md">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <AlertCircle className="w-5 h-5" />
-              Election Not Active
-            </CardTitle>
-            <CardDescription>
-              This election is currently {election.status}. Voting is not available.
+              {getVoteErrorMessage(
+                error,
+                "The election you're looking for doesn't exist or is not publicly available."
+              )}
             </CardDescription>
           </CardHeader>
         </Card>
@@ -265,7 +244,13 @@ export default function PublicElectionPage() {
     )
   }
 
-  if (hasVoted && receipt) {
+  const status = voteStatus.data
+  // Once the server has answered for this voter, its status wins over a stored receipt
+  const showStoredReceipt = !!storedReceipt && !status
+  if (receipt || status?.has_voted || showStoredReceipt) {
+    const confirmationCode =
+      receipt?.confirmation_code ?? status?.confirmation_code ?? storedReceipt?.confirmation_code
+    const votedAt = receipt?.voted_at ?? status?.voted_at ?? storedReceipt?.voted_at
     return (
       <div className="min-h-screen bg-gradient-to-br from-green-50 to-emerald-100 dark:from-green-900 dark:to-emerald-800 p-4">
         <div className="max-w-lg mx-auto mt-20">
@@ -274,29 +259,68 @@ export default function PublicElectionPage() {
               <div className="mx-auto w-16 h-16 bg-green-100 dark:bg-green-900 rounded-full flex items-center justify-center mb-4">
                 <CheckCircle className="w-8 h-8 text-green-600 dark:text-green-400" />
               </div>
-              <CardTitle className="text-2xl">Vote Submitted!</CardTitle>
+              <CardTitle className="text-2xl">
+                {receipt ? "Vote Submitted!" : "You Have Already Voted"}
+              </CardTitle>
               <CardDescription>
-                Your vote has been recorded successfully
+                {receipt
+                  ? "Your vote has been recorded successfully"
+                  : "Your vote in this election was recorded earlier"}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="bg-muted p-4 rounded-lg space-y-2">
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Election</span>
-                  <span className="font-medium">{receipt.election_title}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Votes Cast</span>
-                  <span className="font-medium">{receipt.votes_cast}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Confirmation Code</span>
-                  <span className="font-mono font-bold text-primary">{receipt.confirmation_code}</span>
+                  <span className="font-medium">{receipt?.election_title ?? election.title}</span>
                 </div>
+                {receipt && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Votes Cast</span>
+                    <span className="font-medium">{receipt.votes_cast}</span>
+                  </div>
+                )}
+                {votedAt && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Voted At</span>
+                    <span className="font-medium">{new Date(votedAt).toLocaleString()}</span>
+                  </div>
+                )}
+                {confirmationCode && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Confirmation Code</span>
+                    <span className="font-mono font-bold text-primary">{confirmationCode}</span>
+                  </div>
+                )}
               </div>
-              <p className="text-sm text-muted-foreground text-center">
-                Save your confirmation code for your records.
-              </p>
+              {confirmationCode && (
+                <>
+                  <VoteReceiptDownloads
+                    electionId={election.id}
+                    electionTitle={receipt?.election_title ?? election.title}
+                    confirmationCode={confirmationCode}
+                    votedAt={votedAt}
+                    votesCast={receipt?.votes_cast}
+                  />
+                  <p className="text-sm text-muted-foreground text-center">
+                    Save your receipt to{" "}
+                    <Link
+                      href={`/vote/${election.id}/receipt?code=${encodeURIComponent(confirmationCode)}`}
+                      className="underline"
+                    >
+                      check your ballot
+                    </Link>{" "}
+                    was recorded and counted.
+                  </p>
+                </>
+              )}
+              {showStoredReceipt && !receipt && (
+                <div className="text-center">
+                  <Button variant="link" onClick={handleVoteAgain}>
+                    Not you? Vote now
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -304,154 +328,67 @@ export default function PublicElectionPage() {
     )
   }
 
-  const primaryColor = election.branding?.primary_color || "#2563eb"
-
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
-      {/* Header */}
-      <div
-        className="py-8 px-4 text-white"
-        style={{ backgroundColor: primaryColor }}
-      >
-        <div className="max-w-3xl mx-auto text-center">
-          {election.branding?.logo_url && (
-            <img
-              src={election.branding.logo_url}
-              alt="Logo"
-              className="h-16 mx-auto mb-4"
-            />
-          )}
-          {election.branding?.header_text && (
-            <p className="text-sm opacity-90 mb-2">{election.branding.header_text}</p>
-          )}
-          <h1 className="text-3xl font-bold">{election.title}</h1>
-          {election.description && (
-            <p className="mt-2 opacity-90">{election.description}</p>
-          )}
-        </div>
+  if (election.status !== "active") {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5" />
+              Election Not Active
+            </CardTitle>
+            <CardDescription>
+              This election is currently {election.status}. Voting is not available.
+            </CardDescription>
+          </CardHeader>
+        </Card>
       </div>
+    )
+  }
 
-      {/* Content */}
-      <div className="max-w-3xl mx-auto p-4 space-y-6">
-        {/* Poll Options */}
-        {election.election_type === "poll" && election.poll_options.length > 0 && (
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Vote className="w-5 h-5" />
-                Make Your Choice
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <RadioGroup
-                value={selections.poll_option || ""}
-                onValueChange={handlePollOptionChange}
-              >
-                <div className="space-y-3">
-                  {election.poll_options.map((option) => (
-                    <div
-                      key={option.id}
-                      className="flex items-center space-x-3 p-4 border rounded-lg hover:bg-muted/50 cursor-pointer"
-                      onClick={() => handlePollOptionChange(option.id)}
-                    >
-                      <RadioGroupItem value={option.id} id={option.id} />
-                      <Label htmlFor={option.id} className="flex-1 cursor-pointer">
-                        <div className="font-medium">{option.option_text}</div>
-                        {option.description && (
-                          <div className="text-sm text-muted-foreground">{option.description}</div>
-                        )}
-                      </Label>
-                    </div>
-                  ))}
-                </div>
-              </RadioGroup>
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Election Positions */}
-        {election.election_type !== "poll" && election.positions.map((position) => (
-          <Card key={position.id}>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Vote className="w-5 h-5" />
-                {position.title}
-              </CardTitle>
-              {position.description && (
-                <CardDescription>{position.description}</CardDescription>
+  if (!voterToken && !needsVerification && tokenError) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <AlertCircle className="w-5 h-5" />
+              Unable to Vote
+            </CardTitle>
+            <CardDescription>
+              {getVoteErrorMessage(
+                tokenError,
+                "We couldn't issue you a ballot. Please try again later."
               )}
-            </CardHeader>
-            <CardContent>
-              <RadioGroup
-                value={selections[position.id] || ""}
-                onValueChange={(value) => handleSelectionChange(position.id, value)}
-              >
-                <div className="space-y-3">
-                  {position.candidates.map((candidate) => (
-                    <div
-                      key={candidate.id}
-                      className="flex items-start space-x-3 p-4 border rounded-lg hover:bg-muted/50 cursor-pointer"
-                      onClick={() => handleSelectionChange(position.id, candidate.id)}
-                    >
-                      <RadioGroupItem value={candidate.id} id={candidate.id} className="mt-1" />
-                      <Label htmlFor={candidate.id} className="flex-1 cursor-pointer">
-                        <div className="flex items-center gap-3">
-                          {candidate.photo_url && (
-                            <img
-                              src={candidate.photo_url}
-                              alt={candidate.name}
-                              className="w-12 h-12 rounded-full object-cover"
-                            />
-                          )}
-                          <div>
-                            <div className="font-medium text-lg">{candidate.name}</div>
-                            {candidate.party && (
-                              <div className="text-sm text-muted-foreground">{candidate.party}</div>
-                            )}
-                          </div>
-                        </div>
-                        {candidate.bio && (
-                          <p className="mt-2 text-sm text-muted-foreground">{candidate.bio}</p>
-                        )}
-                      </Label>
-                    </div>
-                  ))}
-                </div>
-              </RadioGroup>
-            </CardContent>
-          </Card>
-        ))}
-
-        {/* Submit Button */}
-        <div className="flex justify-center pb-8">
-          <Button
-            size="lg"
-            className="px-12"
-            onClick={handleSubmitVote}
-            disabled={isSubmitting || !voterToken}
-            style={{ backgroundColor: primaryColor }}
-          >
-            {isSubmitting ? (
-              <>
-                <Loader className="w-4 h-4 mr-2 animate-spin" />
-                Submitting...
-              </>
-            ) : (
-              <>
-                <Vote className="w-4 h-4 mr-2" />
-                Submit Vote
-              </>
-            )}
-          </Button>
-        </div>
-
-        {/* Footer */}
-        {election.branding?.footer_text && (
-          <p className="text-center text-sm text-muted-foreground pb-8">
-            {election.branding.footer_text}
-          </p>
-        )}
+            </CardDescription>
+          </CardHeader>
+        </Card>
       </div>
-    </div>
+    )
+  }
+
+  return (
+    <BallotLayout election={election} accessible={accessible} onAccessibleChange={setAccessible}>
+      {!voterToken && needsVerification ? (
+        <VoterVerificationWizard
+          election={election}
+          onVerified={handleVerified}
+          accentColor={getBallotAccent(election, accessible)}
+        />
+      ) : (
+        <ElectionBallot
+          election={election}
+          selections={selections}
+          onSelectionChange={handleSelectionChange}
+          onSubmit={handleSubmitVote}
+          isSubmitting={castVote.isPending}
+          submitDisabled={!voterToken}
+          accessible={accessible}
+          shuffleSeed={voterToken}
+          writeIns={writeIns}
+          onWriteInChange={handleWriteInChange}
+        />
+      )}
+    </BallotLayout>
   )
 }
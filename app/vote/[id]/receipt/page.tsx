@@ -0,0 +1,167 @@
+"use client"
+
+import { Suspense, useState } from "react"
+import Link from "next/link"
+import { useParams, useSearchParams } from "next/navigation"
+import { AlertCircle, CheckCircle, Clock, Loader, Search, ShieldCheck } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { VoteReceiptDownloads } from "@/components/elections"
+import { usePublicElection, useVoteReceiptVerification } from "@/hooks/elections/use-public-voting"
+import { getVoteErrorMessage } from "@/lib/voter-verification"
+import { normalizeConfirmationCode } from "@/lib/vote-receipts"
+
+function ReceiptLookup() {
+  const params = useParams()
+  const searchParams = useSearchParams()
+  const electionId = params.id as string
+  const linkedCode = normalizeConfirmationCode(searchParams.get("code") ?? "")
+  const [input, setInput] = useState(linkedCode ?? "")
+  const [code, setCode] = useState<string | null>(linkedCode)
+  const [inputError, setInputError] = useState<string | null>(null)
+  const { data: election } = usePublicElection(electionId)
+  const { data: verification, isLoading, error } = useVoteReceiptVerification(electionId, code)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const normalized = normalizeConfirmationCode(input)
+    if (!normalized) {
+      setInputError("Enter the confirmation code exactly as it appears on your receipt")
+      return
+    }
+    setInputError(null)
+    setInput(normalized)
+    setCode(normalized)
+  }
+
+  const electionTitle = verification?.election_title ?? election?.title
+  const primaryColor = election?.branding?.primary_color || "#2563eb"
+
+  return (
+    <div className="max-w-lg mx-auto mt-12 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Check Your Vote Receipt
+          </CardTitle>
+          <CardDescription>
+            {electionTitle ? `${electionTitle}: ` : ""}
+            Confirm your ballot was recorded and counted. This check never shows how you voted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-2">
+            <Label htmlFor="confirmation-code">Confirmation Code</Label>
+            <div className="flex gap-2">
+              <Input
+                id="confirmation-code"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder="e.g. K7Q2-M9XD"
+                className="font-mono uppercase"
+                autoComplete="off"
+              />
+              <Button type="submit" style={{ backgroundColor: primaryColor }}>
+                <Search className="w-4 h-4 mr-2" />
+                Check
+              </Button>
+            </div>
+            {inputError && <p className="text-sm text-destructive">{inputError}</p>}
+          </form>
+        </CardContent>
+      </Card>
+
+      {code && isLoading && (
+        <div className="flex justify-center">
+          <Loader className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      )}
+
+      {code && !isLoading && (error || (verification && !verification.recorded)) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <AlertCircle className="w-5 h-5" />
+              No Ballot Found
+            </CardTitle>
+            <CardDescription>
+              {error && (error as any).response?.status !== 404
+                ? getVoteErrorMessage(error, "Unable to check this code. Please try again.")
+                : `No ballot in this election has the code ${code}. Check the code on your receipt and try again.`}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      {verification?.recorded && (
+        <Card>
+          <CardHeader className="text-center">
+            <div className="mx-auto w-14 h-14 bg-green-100 dark:bg-green-900 rounded-full flex items-center justify-center mb-2">
+              <CheckCircle className="w-7 h-7 text-green-600 dark:text-green-400" />
+            </div>
+            <CardTitle>Ballot Recorded</CardTitle>
+            <CardDescription>Your ballot is in the ballot box for this election</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="bg-muted p-4 rounded-lg space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Confirmation Code</span>
+                <span className="font-mono font-bold">{verification.confirmation_code}</span>
+              </div>
+              {verification.voted_at && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Voted At</span>
+                  <span className="font-medium">
+                    {new Date(verification.voted_at).toLocaleString()}
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">Counted</span>
+                {verification.counted ? (
+                  <span className="flex items-center gap-1 font-medium text-green-600">
+                    <CheckCircle className="w-4 h-4" />
+                    Included in the results
+                  </span>
+                ) : (
+                  <span className="flex items-center gap-1 font-medium text-muted-foreground">
+                    <Clock className="w-4 h-4" />
+                    {verification.election_status === "active"
+                      ? "Counted when voting closes"
+                      : "Not yet counted"}
+                  </span>
+                )}
+              </div>
+            </div>
+            <VoteReceiptDownloads
+              electionId={electionId}
+              electionTitle={verification.election_title}
+              confirmationCode={verification.confirmation_code}
+              votedAt={verification.voted_at}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <p className="text-center text-sm text-muted-foreground">
+        <Link href={`/vote/${electionId}`} className="underline">
+          Back to the ballot
+        </Link>
+      </p>
+    </div>
+  )
+}
+
+export default function VoteReceiptPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 p-4">
+      {/* The code can arrive in the link from a receipt's QR code */}
+      <Suspense>
+        <ReceiptLookup />
+      </Suspense>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+import { render, screen } from "@testing-library/react"
+import SubmitFormPage from "@/app/agent/submit/[id]/page"
+import { formsAPI } from "@/lib/api"
+
+jest.mock("next/navigation", () => ({
+  useRouter: () => ({ push: jest.fn() }),
+  useParams: () => ({ id: "paged-form" }),
+}))
+
+jest.mock("@/components/layout-wrapper", () => ({
+  LayoutWrapper: ({ children }: any) => <div>{children}</div>,
+}))
+
+jest.mock("@/hooks/use-toast", () => {
+  const toast = jest.fn()
+  return { toast, useToast: () => ({ toast }) }
+})
+
+jest.mock("@/lib/api", () => ({
+  formsAPI: { getById: jest.fn(), getConditionalRules: jest.fn() },
+  responsesAPI: { create: jest.fn() },
+}))
+
+jest.mock("@/lib/offline-queue", () => ({
+  cacheForms: jest.fn(),
+  cacheFormRules: jest.fn(),
+  getCachedForm: jest.fn(),
+}))
+
+jest.mock("@/hooks/use-offline-queue", () => ({
+  useOfflineQueue: () => ({
+    isOnline: true,
+    countsByForm: {},
+    enqueue: jest.fn(),
+    syncNow: jest.fn(),
+  }),
+}))
+
+jest.mock("../media-uploader", () => ({ MediaUploader: () => null }))
+jest.mock("../gps-capture", () => ({ GPSCapture: () => null }))
+
+describe("Agent submit page", () => {
+  beforeEach(() => {
+    localStorage.clear()
+    ;(formsAPI.getById as jest.Mock).mockResolvedValue({
+      data: {
+        data: {
+          id: "paged-form",
+          title: "Household Survey",
+          schema: {
+            fields: [
+              { id: "name", type: "text", label: "Name", required: true },
+              { id: "comments", type: "text", label: "Comments", required: false },
+            ],
+            pages: [
+              { id: "p1", title: "About you", order: 0, fields: ["name"] },
+              { id: "p2", title: "Wrap up", order: 1, fields: ["comments"] },
+            ],
+          },
+        },
+      },
+    })
+    ;(formsAPI.getConditionalRules as jest.Mock).mockResolvedValue({ data: { data: [] } })
+  })
+
+  it("renders a paged schema one page at a time", async () => {
+    render(<SubmitFormPage />)
+
+    expect(await screen.findByText("Page 1 of 2")).toBeInTheDocument()
+    expect(screen.getByLabelText(/Name/i)).toBeInTheDocument()
+    expect(screen.queryByLabelText(/Comments/i)).not.toBeInTheDocument()
+  })
+})
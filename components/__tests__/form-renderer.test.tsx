@@ -674,5 +674,159 @@ describe("FormRenderer", () => {
         )
       })
     })
+
+    it("should show calculated fields as live read-only values and submit them", async () => {
+      const user = userEvent.setup()
+      mockOnSubmit.mockResolvedValue(undefined)
+
+      const fields: FormField[] = [
+        { id: "price", type: "number", label: "Price", required: true },
+        { id: "qty", type: "number", label: "Quantity", required: true },
+        {
+          id: "total",
+          type: "calculated",
+          label: "Total",
+          required: false,
+          formula: "{price} * {qty}",
+        },
+      ]
+
+      render(
+        <FormRenderer
+          formTitle="Test Form"
+          description=""
+          formId="form-1"
+          fields={fields}
+          onSubmit={mockOnSubmit}
+        />
+      )
+
+      await user.type(screen.getByLabelText(/Price/i), "2.5")
+      await user.type(screen.getByLabelText(/Quantity/i), "4")
+
+      expect(screen.getByRole("status")).toHaveTextContent("10")
+
+      await user.click(screen.getByRole("button", { name: /Submit Response/i }))
+
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith(
+          expect.objectContaining({ price: 2.5, qty: 4, total: 10 }),
+          expect.any(Object)
+        )
+      })
+    })
+  })
+
+  describe("Multi-page forms", () => {
+    const pagedFields: FormField[] = [
+      { id: "name", type: "text", label: "Name", required: true },
+      { id: "has_children", type: "text", label: "Has children", required: false },
+      { id: "children", type: "number", label: "Number of children", required: true },
+      { id: "comments", type: "text", label: "Comments", required: false },
+    ]
+    const pages = [
+      { id: "p1", title: "About you", order: 0, fields: ["name", "has_children"] },
+      {
+        id: "p2",
+        title: "Children",
+        order: 1,
+        fields: ["children"],
+        show_conditions: [{ field_id: "has_children", operator: "equals" as const, value: "yes" }],
+      },
+      { id: "p3", title: "Wrap up", order: 2, fields: ["comments"] },
+    ]
+
+    beforeEach(() => {
+      localStorage.clear()
+    })
+
+    it("validates the current page before moving on and skips pages by condition", async () => {
+      const user = userEvent.setup()
+      mockOnSubmit.mockResolvedValue(undefined)
+
+      render(
+        <FormRenderer
+          formTitle="Test Form"
+          formId="paged-form"
+          fields={pagedFields}
+          pages={pages}
+          onSubmit={mockOnSubmit}
+          isPublic
+        />
+      )
+
+      expect(screen.getByText("Page 1 of 2")).toBeInTheDocument()
+      expect(screen.queryByLabelText(/Comments/i)).not.toBeInTheDocument()
+
+      await user.click(screen.getByRole("button", { name: /Next/i }))
+      expect(screen.getByText("Name is required")).toBeInTheDocument()
+
+      await user.type(screen.getByLabelText(/Name/i), "Ama")
+      await user.type(screen.getByLabelText(/Has children/i), "no")
+      await user.click(screen.getByRole("button", { name: /Next/i }))
+
+      // The children page is skipped
+      expect(screen.getByText("Wrap up")).toBeInTheDocument()
+      expect(screen.getByText("Page 2 of 2")).toBeInTheDocument()
+      expect(JSON.parse(localStorage.getItem("form-draft-paged-form")!).data).toEqual(
+        expect.objectContaining({ name: "Ama" })
+      )
+
+      await user.click(screen.getByRole("button", { name: /Submit Response/i }))
+
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith(
+          { name: "Ama", has_children: "no" },
+          expect.any(Object)
+        )
+      })
+    })
+  })
+
+  describe("Repeating groups", () => {
+    it("collects one row per entry and validates child fields", async () => {
+      const user = userEvent.setup()
+      mockOnSubmit.mockResolvedValue(undefined)
+
+      const fields: FormField[] = [
+        {
+          id: "members",
+          type: "group",
+          label: "Member",
+          required: true,
+          repeatable: true,
+          minRepeats: 1,
+          maxRepeats: 2,
+          fields: [{ id: "name", type: "text", label: "Name", required: true }],
+        },
+      ]
+
+      render(
+        <FormRenderer
+          formTitle="Household"
+          formId="household"
+          fields={fields}
+          onSubmit={mockOnSubmit}
+          isPublic
+        />
+      )
+
+      await user.click(screen.getByRole("button", { name: /Submit Response/i }))
+      expect(screen.getByText("Member #1: Name is required")).toBeInTheDocument()
+
+      await user.type(screen.getByLabelText(/Name/i), "Ama")
+      await user.click(screen.getByRole("button", { name: /Add another/i }))
+      expect(screen.queryByRole("button", { name: /Add another/i })).not.toBeInTheDocument()
+
+      await user.type(screen.getAllByLabelText(/Name/i)[1], "Kofi")
+      await user.click(screen.getByRole("button", { name: /Submit Response/i }))
+
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith(
+          { members: [{ name: "Ama" }, { name: "Kofi" }] },
+          expect.any(Object)
+        )
+      })
+    })
   })
 })
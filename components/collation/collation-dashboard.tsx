@@ -31,6 +31,7 @@ import {
 } from "lucide-react"
 import { formatDistanceToNow } from "date-fns"
 import { cn } from "@/lib/utils"
+import { CollationRollupExplorer } from "./collation-rollup-explorer"
 
 interface CollationDashboardProps {
   electionId: string
@@ -317,6 +318,17 @@ export function CollationDashboard({ electionId, electionTitle }: CollationDashb
         </CardContent>
       </Card>
 
+      {/* Roll-up Explorer */}
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold">Roll-up Explorer</h3>
+          <p className="text-sm text-muted-foreground">
+            Drill down from national totals to individual polling stations
+          </p>
+        </div>
+        <CollationRollupExplorer electionId={electionId} />
+      </div>
+
       {/* Top Candidates */}
       {top_candidates.length > 0 && (
         <Card>
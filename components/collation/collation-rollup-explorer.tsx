@@ -0,0 +1,570 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb"
+import {
+  useAggregateResults,
+  useConstituencies,
+  useCreateResultSheet,
+  useElectoralAreas,
+  usePollingStations,
+  useRegions,
+  useResultSheets,
+  useSubmissionProgress,
+} from "@/hooks/collation"
+import {
+  countReported,
+  emptyRollupCounts,
+  fromSubmissionProgress,
+  getStationProgress,
+  groupContestTotals,
+  isStationGap,
+  rollUpStations,
+  type RollupCounts,
+  type RollupLevel,
+  type StationProgress,
+  type StationSheetStatus,
+} from "@/lib/collation-rollup"
+import { usePermissions } from "@/lib/permission-context"
+import { toast } from "sonner"
+import { AlertTriangle, ChevronRight, FileText, Layers, Loader2, MapPin } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface ExplorerNode {
+  level: RollupLevel
+  id?: string
+  name: string
+}
+
+interface CollationRollupExplorerProps {
+  electionId: string
+}
+
+const levelLabels: Record<RollupLevel, string> = {
+  national: "Regions",
+  region: "Constituencies",
+  constituency: "Electoral Areas",
+  electoral_area: "Polling Stations",
+}
+
+const stationStatusColors: Record<StationSheetStatus, string> = {
+  missing: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  draft: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  submitted: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  verified: "bg-cyan-100 text-cyan-800 dark:bg-cyan-900 dark:text-cyan-200",
+  approved: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  certified: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+}
+
+// Large enough to cover every station in a constituency in one page
+const STATION_PAGE_SIZE = 2000
+
+/**
+ * Drill-down from national totals through regions, constituencies and
+ * electoral areas to individual polling stations
+ */
+export function CollationRollupExplorer({ electionId }: CollationRollupExplorerProps) {
+  const [path, setPath] = useState<ExplorerNode[]>([{ level: "national", name: "National" }])
+  const current = path[path.length - 1]
+  const constituencyId = path.find((node) => node.level === "constituency")?.id
+
+  const drillInto = (node: ExplorerNode) => setPath((prev) => [...prev, node])
+
+  return (
+    <div className="space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          {path.map((node, index) => (
+            <BreadcrumbItem key={`${node.level}:${node.id ?? "root"}`}>
+              {index > 0 && <BreadcrumbSeparator />}
+              {index === path.length - 1 ? (
+                <BreadcrumbPage>{node.name}</BreadcrumbPage>
+              ) : (
+                <BreadcrumbLink asChild>
+                  <button type="button" onClick={() => setPath(path.slice(0, index + 1))}>
+                    {node.name}
+                  </button>
+                </BreadcrumbLink>
+              )}
+            </BreadcrumbItem>
+          ))}
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-4 w-4" />
+              {levelLabels[current.level]}
+            </CardTitle>
+            <CardDescription>
+              {current.level === "electoral_area"
+                ? "Stations without a submitted sheet are highlighted"
+                : "Select an area to drill down"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {current.level === "national" && (
+              <RegionRows electionId={electionId} onSelect={drillInto} />
+            )}
+            {current.level === "region" && current.id && (
+              <ConstituencyRows
+                electionId={electionId}
+                regionId={current.id}
+                onSelect={drillInto}
+              />
+            )}
+            {current.level === "constituency" && current.id && (
+              <ElectoralAreaRows
+                electionId={electionId}
+                constituencyId={current.id}
+                onSelect={drillInto}
+              />
+            )}
+            {current.level === "electoral_area" && current.id && constituencyId && (
+              <StationRows
+                electionId={electionId}
+                constituencyId={constituencyId}
+                electoralAreaId={current.id}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        <AreaTotals electionId={electionId} node={current} />
+      </div>
+    </div>
+  )
+}
+
+//=============================================================================
+// Area rows
+//=============================================================================
+
+function AreaRow({
+  name,
+  code,
+  counts,
+  isLoading,
+  onSelect,
+}: {
+  name: string
+  code?: string
+  counts?: RollupCounts
+  isLoading?: boolean
+  onSelect: () => void
+}) {
+  const reported = counts ? countReported(counts) : 0
+  const percentage =
+    counts && counts.total_stations > 0 ? (reported / counts.total_stations) * 100 : 0
+
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className="w-full text-left rounded-lg border p-3 space-y-2 hover:bg-muted/50 transition-colors"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="font-medium truncate">{name}</span>
+          {code && <span className="text-xs text-muted-foreground font-mono">{code}</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          {counts && counts.missing > 0 && (
+            <Badge variant="outline" className="gap-1 border-red-200 text-red-600">
+              <AlertTriangle className="h-3 w-3" />
+              {counts.missing.toLocaleString()} missing
+            </Badge>
+          )}
+          <ChevronRight className="h-4 w-4 text-muted-foreground" />
+        </div>
+      </div>
+      {isLoading || !counts ? (
+        <Skeleton className="h-2 w-full" />
+      ) : (
+        <>
+          <Progress value={percentage} className="h-2" />
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            <span>
+              {reported.toLocaleString()} / {counts.total_stations.toLocaleString()} stations
+              reported
+            </span>
+            <span>{counts.submitted.toLocaleString()} submitted</span>
+            <span>{counts.verified.toLocaleString()} verified</span>
+            <span>{counts.certified.toLocaleString()} certified</span>
+          </div>
+        </>
+      )}
+    </button>
+  )
+}
+
+function ProgressAreaRow({
+  electionId,
+  filter,
+  name,
+  code,
+  onSelect,
+}: {
+  electionId: string
+  filter: { region_id?: string; constituency_id?: string }
+  name: string
+  code?: string
+  onSelect: () => void
+}) {
+  const { data: progress, isLoading } = useSubmissionProgress(electionId, filter)
+
+  return (
+    <AreaRow
+      name={name}
+      code={code}
+      counts={progress ? fromSubmissionProgress(progress) : undefined}
+      isLoading={isLoading}
+      onSelect={onSelect}
+    />
+  )
+}
+
+function RowsSkeleton() {
+  return (
+    <div className="space-y-3">
+      {[1, 2, 3].map((i) => (
+        <Skeleton key={i} className="h-16 w-full" />
+      ))}
+    </div>
+  )
+}
+
+function EmptyRows({ label }: { label: string }) {
+  return <p className="py-6 text-center text-sm text-muted-foreground">No {label} found</p>
+}
+
+function RegionRows({
+  electionId,
+  onSelect,
+}: {
+  electionId: string
+  onSelect: (node: ExplorerNode) => void
+}) {
+  const { data: regions, isLoading } = useRegions()
+
+  if (isLoading) return <RowsSkeleton />
+  if (!regions?.length) return <EmptyRows label="regions" />
+
+  return (
+    <div className="space-y-3">
+      {regions.map((region) => (
+        <ProgressAreaRow
+          key={region.id}
+          electionId={electionId}
+          filter={{ region_id: region.id }}
+          name={region.name}
+          code={region.code}
+          onSelect={() => onSelect({ level: "region", id: region.id, name: region.name })}
+        />
+      ))}
+    </div>
+  )
+}
+
+function ConstituencyRows({
+  electionId,
+  regionId,
+  onSelect,
+}: {
+  electionId: string
+  regionId: string
+  onSelect: (node: ExplorerNode) => void
+}) {
+  const { data: constituencies, isLoading } = useConstituencies(regionId)
+
+  if (isLoading) return <RowsSkeleton />
+  if (!constituencies?.length) return <EmptyRows label="constituencies" />
+
+  return (
+    <div className="space-y-3">
+      {constituencies.map((constituency) => (
+        <ProgressAreaRow
+          key={constituency.id}
+          electionId={electionId}
+          filter={{ constituency_id: constituency.id }}
+          name={constituency.name}
+          code={constituency.code}
+          onSelect={() =>
+            onSelect({ level: "constituency", id: constituency.id, name: constituency.name })
+          }
+        />
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Stations and polling station sheets for a constituency, paired up. Progress
+ * isn't reported per electoral area, so the explorer counts it client-side.
+ */
+function useConstituencyStations(electionId: string, constituencyId: string) {
+  const { data: stations, isLoading: stationsLoading } = usePollingStations({
+    constituency_id: constituencyId,
+    limit: STATION_PAGE_SIZE,
+  })
+  const { data: sheets, isLoading: sheetsLoading } = useResultSheets(electionId, {
+    sheet_type: "polling_station",
+    constituency_id: constituencyId,
+  })
+
+  const progress = useMemo(
+    () => getStationProgress(stations ?? [], sheets ?? []),
+    [stations, sheets]
+  )
+
+  return { progress, isLoading: stationsLoading || sheetsLoading }
+}
+
+function ElectoralAreaRows({
+  electionId,
+  constituencyId,
+  onSelect,
+}: {
+  electionId: string
+  constituencyId: string
+  onSelect: (node: ExplorerNode) => void
+}) {
+  const { data: areas, isLoading: areasLoading } = useElectoralAreas(constituencyId)
+  const { progress, isLoading } = useConstituencyStations(electionId, constituencyId)
+
+  const countsByArea = useMemo(
+    () => rollUpStations(progress, (station) => station.electoral_area_id),
+    [progress]
+  )
+
+  if (areasLoading) return <RowsSkeleton />
+  if (!areas?.length) return <EmptyRows label="electoral areas" />
+
+  return (
+    <div className="space-y-3">
+      {areas.map((area) => (
+        <AreaRow
+          key={area.id}
+          name={area.name}
+          code={area.code}
+          counts={isLoading ? undefined : (countsByArea.get(area.id) ?? emptyRollupCounts())}
+          isLoading={isLoading}
+          onSelect={() => onSelect({ level: "electoral_area", id: area.id, name: area.name })}
+        />
+      ))}
+    </div>
+  )
+}
+
+//=============================================================================
+// Stations
+//=============================================================================
+
+function StationRows({
+  electionId,
+  constituencyId,
+  electoralAreaId,
+}: {
+  electionId: string
+  constituencyId: string
+  electoralAreaId: string
+}) {
+  const [gapsOnly, setGapsOnly] = useState(false)
+  const { progress, isLoading } = useConstituencyStations(electionId, constituencyId)
+
+  const stations = useMemo(
+    () => progress.filter(({ station }) => station.electoral_area_id === electoralAreaId),
+    [progress, electoralAreaId]
+  )
+  const gapCount = stations.filter(isStationGap).length
+  const visible = gapsOnly ? stations.filter(isStationGap) : stations
+
+  if (isLoading) return <RowsSkeleton />
+  if (stations.length === 0) return <EmptyRows label="polling stations" />
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {gapCount === 0
+            ? "Every station has submitted a sheet"
+            : `${gapCount.toLocaleString()} of ${stations.length.toLocaleString()} stations still need results`}
+        </p>
+        <div className="flex items-center gap-2">
+          <Switch id="rollup-gaps-only" checked={gapsOnly} onCheckedChange={setGapsOnly} />
+          <Label htmlFor="rollup-gaps-only" className="text-sm">
+            Gaps only
+          </Label>
+        </div>
+      </div>
+
+      {visible.map((item) => (
+        <StationRow key={item.station.id} electionId={electionId} item={item} />
+      ))}
+    </div>
+  )
+}
+
+function StationRow({ electionId, item }: { electionId: string; item: StationProgress }) {
+  const { station, sheet, status } = item
+  const gap = isStationGap(item)
+
+  return (
+    <div
+      className={cn(
+        "flex items-center justify-between gap-3 rounded-lg border p-3",
+        status === "missing" && "border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-950/30",
+        status === "draft" &&
+          "border-yellow-200 bg-yellow-50 dark:border-yellow-900 dark:bg-yellow-950/30"
+      )}
+    >
+      <div className="flex items-center gap-3 min-w-0">
+        <MapPin className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+        <div className="min-w-0">
+          <p className="font-medium truncate">{station.name}</p>
+          <p className="text-xs text-muted-foreground">
+            <span className="font-mono">{station.code}</span> ·{" "}
+            {station.registered_voters.toLocaleString()} registered
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Badge className={stationStatusColors[status]}>{status}</Badge>
+        {gap ? (
+          <EnterResultsButton electionId={electionId} stationId={station.id} sheetId={sheet?.id} />
+        ) : (
+          sheet && (
+            <Button asChild variant="ghost" size="sm">
+              <Link href={`/collation/${electionId}/sheets/${sheet.id}`}>View</Link>
+            </Button>
+          )
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Opens result entry for a station, creating its sheet first if needed
+ */
+function EnterResultsButton({
+  electionId,
+  stationId,
+  sheetId,
+}: {
+  electionId: string
+  stationId: string
+  sheetId?: string
+}) {
+  const router = useRouter()
+  const { hasPermission } = usePermissions()
+  const createSheet = useCreateResultSheet()
+
+  if (!hasPermission("collation:create")) return null
+
+  if (sheetId) {
+    return (
+      <Button asChild size="sm" variant="outline" className="gap-1">
+        <Link href={`/collation/${electionId}/sheets/${sheetId}`}>
+          <FileText className="h-3.5 w-3.5" />
+          Continue entry
+        </Link>
+      </Button>
+    )
+  }
+
+  const handleCreate = async () => {
+    try {
+      const response = await createSheet.mutateAsync({
+        election_id: electionId,
+        polling_station_id: stationId,
+        sheet_type: "polling_station",
+      })
+      router.push(`/collation/${electionId}/sheets/${response.data.data.id}`)
+    } catch {
+      toast.error("Failed to create result sheet")
+    }
+  }
+
+  return (
+    <Button size="sm" className="gap-1" onClick={handleCreate} disabled={createSheet.isPending}>
+      {createSheet.isPending ? (
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+      ) : (
+        <FileText className="h-3.5 w-3.5" />
+      )}
+      Enter results
+    </Button>
+  )
+}
+
+//=============================================================================
+// Candidate totals
+//=============================================================================
+
+function AreaTotals({ electionId, node }: { electionId: string; node: ExplorerNode }) {
+  const { data: aggregate, isLoading } = useAggregateResults(electionId, node.level, node.id)
+  const contests = useMemo(() => groupContestTotals(aggregate?.results ?? []), [aggregate])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{node.name} totals</CardTitle>
+        <CardDescription>
+          {aggregate
+            ? `From ${aggregate.sheets_counted.toLocaleString()} collated sheets`
+            : "Candidate totals for this area"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <RowsSkeleton />
+        ) : contests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No results collated yet</p>
+        ) : (
+          contests.map((contest) => (
+            <div key={contest.id} className="space-y-2">
+              <p className="text-sm font-medium">{contest.title}</p>
+              {contest.rows.map((row) => {
+                const share =
+                  contest.total_votes > 0 ? (row.total_votes / contest.total_votes) * 100 : 0
+                return (
+                  <div key={row.id} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="truncate">
+                        {row.name}
+                        {row.party && (
+                          <span className="text-xs text-muted-foreground"> · {row.party}</span>
+                        )}
+                      </span>
+                      <span className="font-mono">{row.total_votes.toLocaleString()}</span>
+                    </div>
+                    <Progress value={share} className="h-1.5" />
+                  </div>
+                )
+              })}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
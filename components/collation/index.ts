@@ -1,3 +1,4 @@
 export { CollationDashboard } from "./collation-dashboard"
 export { ResultSheetsList } from "./result-sheets-list"
 export { ResultSheetEntry } from "./result-sheet-entry"
+export { CollationRollupExplorer } from "./collation-rollup-explorer"
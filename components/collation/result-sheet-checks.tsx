@@ -0,0 +1,149 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react"
+import type { DiscrepancyReport, SheetCheckIssue } from "@/lib/result-sheet-checks"
+import { cn } from "@/lib/utils"
+
+interface ResultSheetChecksProps {
+  issues: SheetCheckIssue[]
+  /** Whether any figures have been entered yet */
+  hasFigures: boolean
+}
+
+/**
+ * Live list of arithmetic check results for a result sheet
+ */
+export function ResultSheetChecks({ issues, hasFigures }: ResultSheetChecksProps) {
+  if (!hasFigures) return null
+
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-green-600">
+        <CheckCircle2 className="h-4 w-4" />
+        <span className="text-sm">All figures are consistent</span>
+      </div>
+    )
+  }
+
+  return (
+    <ul className="space-y-2" aria-live="polite">
+      {issues.map((issue) => (
+        <li
+          key={issue.id}
+          className={cn(
+            "flex items-start gap-2 text-sm",
+            issue.severity === "error" ? "text-red-600" : "text-yellow-600"
+          )}
+        >
+          {issue.severity === "error" ? (
+            <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          ) : (
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          )}
+          <span>{issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+interface DiscrepancyOverrideDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  reports: DiscrepancyReport[]
+  onConfirm: (reports: DiscrepancyReport[]) => void
+  isSubmitting?: boolean
+}
+
+/**
+ * Confirms submitting a sheet with warnings. Each warning is recorded as a
+ * discrepancy; the officer can add to the pre-filled description.
+ */
+export function DiscrepancyOverrideDialog({
+  open,
+  onOpenChange,
+  reports,
+  onConfirm,
+  isSubmitting,
+}: DiscrepancyOverrideDialogProps) {
+  const [drafts, setDrafts] = useState<DiscrepancyReport[]>(reports)
+  const latestReports = useRef(reports)
+  latestReports.current = reports
+
+  // Start from fresh reports each time the dialog opens, but keep the
+  // officer's edits if the figures behind it re-render while it is open
+  useEffect(() => {
+    if (open) setDrafts(latestReports.current)
+  }, [open])
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Submit with discrepancies?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The figures don&apos;t add up. If they match the pink sheet, submit anyway and each
+            problem below will be recorded as a discrepancy for review.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+          {drafts.map((report, index) => (
+            <div key={index} className="space-y-2 rounded-lg border p-3">
+              <div className="flex flex-wrap gap-4 text-sm">
+                <span className="font-medium capitalize">
+                  {report.discrepancy_type.replace(/_/g, " ")}
+                </span>
+                {report.expected_value !== undefined && (
+                  <span className="text-muted-foreground">
+                    Expected: <span className="font-mono">{report.expected_value}</span>
+                  </span>
+                )}
+                {report.actual_value !== undefined && (
+                  <span className="text-muted-foreground">
+                    Actual: <span className="font-mono">{report.actual_value}</span>
+                  </span>
+                )}
+              </div>
+              <Textarea
+                value={report.description}
+                onChange={(e) =>
+                  setDrafts((prev) =>
+                    prev.map((draft, i) =>
+                      i === index ? { ...draft, description: e.target.value } : draft
+                    )
+                  )
+                }
+                rows={2}
+                aria-label={`Description for discrepancy ${index + 1}`}
+              />
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isSubmitting}>Go back and fix</AlertDialogCancel>
+          <Button
+            onClick={() => onConfirm(drafts)}
+            disabled={isSubmitting || drafts.some((draft) => !draft.description.trim())}
+          >
+            Submit and record {drafts.length}{" "}
+            {drafts.length === 1 ? "discrepancy" : "discrepancies"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { z } from "zod"
@@ -28,10 +28,20 @@ import { ImageUpload } from "@/components/ui/image-upload"
 import {
   useResultSheet,
   useBulkAddEntries,
+  useUpdateResultEntry,
+  useDeleteResultEntry,
   useUpdateSheetTotals,
   useSubmitSheet,
+  useReportDiscrepancy,
 } from "@/hooks/collation"
 import { collationAPI } from "@/lib/api"
+import {
+  buildDiscrepancyReports,
+  checkResultSheet,
+  type DiscrepancyReport,
+  type SheetContest,
+} from "@/lib/result-sheet-checks"
+import { DiscrepancyOverrideDialog, ResultSheetChecks } from "./result-sheet-checks"
 import { toast } from "sonner"
 import {
   Save,
@@ -40,7 +50,9 @@ import {
   FileImage,
   Calculator,
   CheckCircle2,
-  AlertTriangle,
+  PenLine,
+  Plus,
+  X,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 
@@ -61,6 +73,8 @@ interface ResultSheetEntryProps {
     id: string
     option_text: string
   }>
+  /** Show write-in rows under each position */
+  allowWriteIns?: boolean
 }
 
 const totalsSchema = z.object({
@@ -72,20 +86,51 @@ const totalsSchema = z.object({
 
 type TotalsFormData = z.infer<typeof totalsSchema>
 
+// Inputs hold strings until the resolver runs, so read totals leniently
+function toCount(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+  const count = Number(value)
+  return Number.isFinite(count) ? count : undefined
+}
+
+// Vote and word figures for write-ins share the candidate maps under these keys
+const writeInKey = (positionId: string, row: number) => `writein:${positionId}:${row}`
+
+function omitKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const next = { ...record }
+  delete next[key]
+  return next
+}
+
 export function ResultSheetEntry({
   sheetId,
   electionId,
   positions,
   pollOptions,
+  allowWriteIns,
 }: ResultSheetEntryProps) {
   const [votes, setVotes] = useState<Record<string, number>>({})
+  const [votesInWords, setVotesInWords] = useState<Record<string, string>>({})
+  // Write-in row keys per position, and the name entered on each row
+  const [writeInRows, setWriteInRows] = useState<Record<string, string[]>>({})
+  const [writeInNames, setWriteInNames] = useState<Record<string, string>>({})
+  // Saved entry id behind each loaded write-in row, and saved entries whose rows were removed
+  const [writeInEntryIds, setWriteInEntryIds] = useState<Record<string, string>>({})
+  const [removedWriteInEntries, setRemovedWriteInEntries] = useState<string[]>([])
+  const [nextWriteInRow, setNextWriteInRow] = useState(0)
+  const [isOverrideOpen, setIsOverrideOpen] = useState(false)
   const [attachments, setAttachments] = useState<string[]>([])
   const [isSaving, setIsSaving] = useState(false)
 
   const { data: sheet, refetch } = useResultSheet(sheetId)
   const bulkAddEntries = useBulkAddEntries()
+  const updateEntry = useUpdateResultEntry()
+  const deleteEntry = useDeleteResultEntry()
   const updateTotals = useUpdateSheetTotals()
   const submitSheet = useSubmitSheet()
+  const reportDiscrepancy = useReportDiscrepancy()
+  // Reports already recorded on the sheet, so a retried submit doesn't repeat them
+  const sentReports = useRef(new Set<string>())
 
   const form = useForm<TotalsFormData>({
     resolver: zodResolver(totalsSchema),
@@ -101,16 +146,32 @@ export function ResultSheetEntry({
   useEffect(() => {
     if (sheet?.entries_by_position) {
       const existingVotes: Record<string, number> = {}
+      const existingWords: Record<string, string> = {}
+      const existingRows: Record<string, string[]> = {}
+      const existingNames: Record<string, string> = {}
+      const existingEntryIds: Record<string, string> = {}
+      let row = 0
       Object.values(sheet.entries_by_position).forEach((entries: any[]) => {
         entries.forEach((entry) => {
-          if (entry.candidate_id) {
-            existingVotes[entry.candidate_id] = entry.votes
-          } else if (entry.poll_option_id) {
-            existingVotes[`poll_${entry.poll_option_id}`] = entry.votes
+          let key = entry.candidate_id || (entry.poll_option_id && `poll_${entry.poll_option_id}`)
+          if (!key && entry.write_in_name && entry.position_id) {
+            key = writeInKey(entry.position_id, row++)
+            existingRows[entry.position_id] = [...(existingRows[entry.position_id] ?? []), key]
+            existingNames[key] = entry.write_in_name
+            existingEntryIds[key] = entry.id
           }
+          if (!key) return
+          existingVotes[key] = entry.votes
+          if (entry.votes_in_words) existingWords[key] = entry.votes_in_words
         })
       })
       setVotes(existingVotes)
+      setVotesInWords(existingWords)
+      setWriteInRows(existingRows)
+      setWriteInNames(existingNames)
+      setWriteInEntryIds(existingEntryIds)
+      setRemovedWriteInEntries([])
+      setNextWriteInRow(row)
     }
 
     if (sheet) {
@@ -134,7 +195,96 @@ export function ResultSheetEntry({
     }))
   }
 
-  const handleSave = async () => {
+  // Live arithmetic checks
+  const watchedTotals = form.watch()
+  const contests = useMemo<SheetContest[]>(() => {
+    const entryFor = (key: string, label: string) => ({
+      key,
+      label,
+      votes: votes[key],
+      votes_in_words: votesInWords[key],
+    })
+    return [
+      ...positions.map((position) => ({
+        id: position.id,
+        title: position.title,
+        entries: [
+          ...position.candidates.map((candidate) => entryFor(candidate.id, candidate.name)),
+          ...(writeInRows[position.id] ?? []).map((key) => ({
+            ...entryFor(key, writeInNames[key]?.trim() || "Write-in"),
+            write_in: true,
+            write_in_name: writeInNames[key],
+          })),
+        ],
+      })),
+      ...(pollOptions && pollOptions.length > 0
+        ? [
+            {
+              id: "poll",
+              title: "Poll options",
+              entries: pollOptions.map((option) =>
+                entryFor(`poll_${option.id}`, option.option_text)
+              ),
+            },
+          ]
+        : []),
+    ]
+  }, [positions, pollOptions, votes, votesInWords, writeInRows, writeInNames])
+
+  const registeredVoters = toCount(watchedTotals.total_registered_voters)
+  const votesCast = toCount(watchedTotals.total_votes_cast)
+  const validVotes = toCount(watchedTotals.total_valid_votes)
+  const rejectedVotes = toCount(watchedTotals.total_rejected_votes)
+
+  const issues = useMemo(
+    () =>
+      checkResultSheet(
+        {
+          total_registered_voters: registeredVoters,
+          total_votes_cast: votesCast,
+          total_valid_votes: validVotes,
+          total_rejected_votes: rejectedVotes,
+        },
+        contests
+      ),
+    [registeredVoters, votesCast, validVotes, rejectedVotes, contests]
+  )
+  const blockingIssues = issues.filter((issue) => issue.severity === "error")
+  const discrepancyReports = useMemo(() => buildDiscrepancyReports(issues), [issues])
+  const issueEntryKeys = new Set(issues.map((issue) => issue.entryKey).filter(Boolean))
+
+  const handleWordsChange = (key: string, value: string) => {
+    setVotesInWords((prev) => ({
+      ...prev,
+      [key]: value,
+    }))
+  }
+
+  const handleAddWriteIn = (positionId: string) => {
+    const key = writeInKey(positionId, nextWriteInRow)
+    setNextWriteInRow((prev) => prev + 1)
+    setWriteInRows((prev) => ({
+      ...prev,
+      [positionId]: [...(prev[positionId] ?? []), key],
+    }))
+  }
+
+  const handleRemoveWriteIn = (positionId: string, key: string) => {
+    setWriteInRows((prev) => ({
+      ...prev,
+      [positionId]: (prev[positionId] ?? []).filter((rowKey) => rowKey !== key),
+    }))
+    setWriteInNames((prev) => omitKey(prev, key))
+    const entryId = writeInEntryIds[key]
+    if (entryId) {
+      setRemovedWriteInEntries((prev) => [...prev, entryId])
+      setWriteInEntryIds((prev) => omitKey(prev, key))
+    }
+    setVotes((prev) => omitKey(prev, key))
+    setVotesInWords((prev) => omitKey(prev, key))
+  }
+
+  const handleSave = async (): Promise<boolean> => {
     setIsSaving(true)
     try {
       // Build entries array
@@ -142,7 +292,14 @@ export function ResultSheetEntry({
         position_id?: string
         candidate_id?: string
         poll_option_id?: string
+        write_in_name?: string
         votes: number
+        votes_in_words?: string
+      }> = []
+      // Saved write-ins are edited in place so a rename doesn't add a second entry
+      const writeInUpdates: Array<{
+        entryId: string
+        data: { write_in_name: string; votes: number; votes_in_words?: string }
       }> = []
 
       // Add candidate votes
@@ -153,9 +310,27 @@ export function ResultSheetEntry({
               position_id: position.id,
               candidate_id: candidate.id,
               votes: votes[candidate.id],
+              votes_in_words: votesInWords[candidate.id]?.trim() || undefined,
             })
           }
         })
+
+        // Unnamed write-ins are flagged by the checks and left unsaved
+        for (const key of writeInRows[position.id] ?? []) {
+          const name = writeInNames[key]?.trim()
+          if (!name || votes[key] === undefined) continue
+          const entry = {
+            write_in_name: name,
+            votes: votes[key],
+            votes_in_words: votesInWords[key]?.trim() || undefined,
+          }
+          const entryId = writeInEntryIds[key]
+          if (entryId) {
+            writeInUpdates.push({ entryId, data: entry })
+          } else {
+            entries.push({ position_id: position.id, ...entry })
+          }
+        }
       })
 
       // Add poll option votes
@@ -165,6 +340,7 @@ export function ResultSheetEntry({
           entries.push({
             poll_option_id: option.id,
             votes: votes[key],
+            votes_in_words: votesInWords[key]?.trim() || undefined,
           })
         }
       })
@@ -172,6 +348,13 @@ export function ResultSheetEntry({
       if (entries.length > 0) {
         await bulkAddEntries.mutateAsync({ sheetId, entries })
       }
+      for (const { entryId, data } of writeInUpdates) {
+        await updateEntry.mutateAsync({ sheetId, entryId, data })
+      }
+      for (const entryId of removedWriteInEntries) {
+        await deleteEntry.mutateAsync({ sheetId, entryId })
+        setRemovedWriteInEntries((prev) => prev.filter((id) => id !== entryId))
+      }
 
       // Save totals
       const totalsData = form.getValues()
@@ -199,31 +382,53 @@ export function ResultSheetEntry({
 
       toast.success("Result sheet saved successfully")
       refetch()
+      return true
     } catch (error) {
       toast.error("Failed to save result sheet")
+      return false
     } finally {
       setIsSaving(false)
     }
   }
 
-  const handleSubmit = async () => {
+  const saveAndSubmit = async (reports: DiscrepancyReport[]) => {
     // First save
-    await handleSave()
+    if (!(await handleSave())) return
 
     // Then submit
     try {
+      for (const report of reports) {
+        const key = `${sheetId}:${JSON.stringify(report)}`
+        if (sentReports.current.has(key)) continue
+        await reportDiscrepancy.mutateAsync({ sheetId, data: report })
+        sentReports.current.add(key)
+      }
       await submitSheet.mutateAsync(sheetId)
-      toast.success("Result sheet submitted for verification")
+      toast.success(
+        reports.length > 0
+          ? `Result sheet submitted with ${reports.length} recorded ${reports.length === 1 ? "discrepancy" : "discrepancies"}`
+          : "Result sheet submitted for verification"
+      )
+      setIsOverrideOpen(false)
       refetch()
     } catch (error: any) {
       toast.error(error.response?.data?.detail || "Failed to submit result sheet")
     }
   }
 
+  const handleSubmit = async () => {
+    if (blockingIssues.length > 0) {
+      toast.error(blockingIssues[0].message)
+      return
+    }
+    if (discrepancyReports.length > 0) {
+      setIsOverrideOpen(true)
+      return
+    }
+    await saveAndSubmit([])
+  }
+
   const isEditable = sheet?.status === "draft"
-  const hasDiscrepancy =
-    calculatedTotal !== (form.watch("total_valid_votes") || 0) &&
-    form.watch("total_valid_votes") !== undefined
 
   return (
     <div className="space-y-6">
@@ -351,14 +556,12 @@ export function ResultSheetEntry({
               <span className="text-sm font-medium">Calculated Total (sum of entries):</span>
               <span className="font-bold">{calculatedTotal.toLocaleString()}</span>
             </div>
-            {hasDiscrepancy && (
-              <div className="flex items-center gap-2 mt-2 text-yellow-600">
-                <AlertTriangle className="h-4 w-4" />
-                <span className="text-sm">
-                  Calculated total differs from entered valid votes
-                </span>
-              </div>
-            )}
+            <div className="mt-2">
+              <ResultSheetChecks
+                issues={issues}
+                hasFigures={Object.keys(votes).length > 0 || validVotes !== undefined}
+              />
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -414,9 +617,86 @@ export function ResultSheetEntry({
                             disabled={!isEditable}
                           />
                           <span className="text-sm text-muted-foreground">votes</span>
+                          <Input
+                            value={votesInWords[candidate.id] || ""}
+                            onChange={(e) =>
+                              handleWordsChange(candidate.id, e.target.value)
+                            }
+                            className={cn(
+                              "w-48",
+                              issueEntryKeys.has(candidate.id) && "border-yellow-500"
+                            )}
+                            placeholder="In words"
+                            aria-label={`${candidate.name} votes in words`}
+                            disabled={!isEditable}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                    {(writeInRows[position.id] ?? []).map((key) => (
+                      <div
+                        key={key}
+                        className="flex items-center gap-4 p-3 rounded-lg border border-dashed"
+                      >
+                        <PenLine className="h-5 w-5 text-muted-foreground" />
+                        <Input
+                          value={writeInNames[key] || ""}
+                          onChange={(e) =>
+                            setWriteInNames((prev) => ({ ...prev, [key]: e.target.value }))
+                          }
+                          className={cn(
+                            "flex-1 min-w-0",
+                            issueEntryKeys.has(key) && "border-yellow-500"
+                          )}
+                          placeholder="Write-in name"
+                          aria-label="Write-in name"
+                          disabled={!isEditable}
+                        />
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="number"
+                            min={0}
+                            value={votes[key] || ""}
+                            onChange={(e) => handleVoteChange(key, e.target.value)}
+                            className="w-24 text-right"
+                            placeholder="0"
+                            disabled={!isEditable}
+                          />
+                          <span className="text-sm text-muted-foreground">votes</span>
+                          <Input
+                            value={votesInWords[key] || ""}
+                            onChange={(e) => handleWordsChange(key, e.target.value)}
+                            className={cn(
+                              "w-48",
+                              issueEntryKeys.has(key) && "border-yellow-500"
+                            )}
+                            placeholder="In words"
+                            aria-label={`${writeInNames[key] || "Write-in"} votes in words`}
+                            disabled={!isEditable}
+                          />
+                          {isEditable && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleRemoveWriteIn(position.id, key)}
+                              aria-label="Remove write-in"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                     ))}
+                    {allowWriteIns && isEditable && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleAddWriteIn(position.id)}
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add write-in
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </AccordionContent>
@@ -455,6 +735,19 @@ export function ResultSheetEntry({
                       disabled={!isEditable}
                     />
                     <span className="text-sm text-muted-foreground">votes</span>
+                    <Input
+                      value={votesInWords[`poll_${option.id}`] || ""}
+                      onChange={(e) =>
+                        handleWordsChange(`poll_${option.id}`, e.target.value)
+                      }
+                      className={cn(
+                        "w-48",
+                        issueEntryKeys.has(`poll_${option.id}`) && "border-yellow-500"
+                      )}
+                      placeholder="In words"
+                      aria-label={`${option.option_text} votes in words`}
+                      disabled={!isEditable}
+                    />
                   </div>
                 </div>
               ))}
@@ -548,7 +841,8 @@ export function ResultSheetEntry({
                 isSaving ||
                 bulkAddEntries.isPending ||
                 submitSheet.isPending ||
-                Object.keys(votes).length === 0
+                Object.keys(votes).length === 0 ||
+                blockingIssues.length > 0
               }
             >
               <Send className="h-4 w-4 mr-2" />
@@ -558,6 +852,14 @@ export function ResultSheetEntry({
         </Card>
       )}
 
+      <DiscrepancyOverrideDialog
+        open={isOverrideOpen}
+        onOpenChange={setIsOverrideOpen}
+        reports={discrepancyReports}
+        onConfirm={saveAndSubmit}
+        isSubmitting={isSaving || reportDiscrepancy.isPending || submitSheet.isPending}
+      />
+
       {/* Read-only notice */}
       {!isEditable && (
         <Card className="bg-muted/50">
@@ -19,12 +19,20 @@ import {
   Settings,
   PlusCircle,
   Search,
+  Bookmark,
 } from "lucide-react"
 import { useCommandPalette } from "./command-palette-provider"
+import { usePermissions } from "@/lib/permission-context"
+import { useResponseViews } from "@/hooks/use-response-views"
 
 export function CommandPalette() {
   const { open, setOpen } = useCommandPalette()
   const router = useRouter()
+  const { hasPermission } = usePermissions()
+  // Only fetched once the palette opens
+  const { data: savedViews = [] } = useResponseViews(undefined, {
+    enabled: open && hasPermission("responses:read"),
+  })
 
   // Toggle command palette with Cmd+K or Ctrl+K
   useEffect(() => {
@@ -73,6 +81,25 @@ export function CommandPalette() {
           </CommandItem>
         </CommandGroup>
 
+        {savedViews.length > 0 && (
+          <>
+            <CommandSeparator />
+
+            <CommandGroup heading="Saved Views">
+              {savedViews.map((view) => (
+                <CommandItem
+                  key={view.id}
+                  value={`view ${view.name} ${view.id}`}
+                  onSelect={() => handleSelect(`/responses?view=${view.state}`)}
+                >
+                  <Bookmark className="mr-2 h-4 w-4" />
+                  <span>{view.name}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+
         <CommandSeparator />
 
         <CommandGroup heading="Actions">
@@ -4,16 +4,29 @@ import * as React from "react"
 import {
   ColumnDef,
   ColumnFiltersState,
+  ColumnOrderState,
+  ExpandedState,
+  GroupingState,
+  OnChangeFn,
   SortingState,
   VisibilityState,
   flexRender,
   getCoreRowModel,
+  getExpandedRowModel,
   getFilteredRowModel,
+  getGroupedRowModel,
   getPaginationRowModel,
   getSortedRowModel,
   useReactTable,
 } from "@tanstack/react-table"
-import { ArrowUpDown, ChevronDown, Search, MoreHorizontal } from "lucide-react"
+import {
+  ArrowUpDown,
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  Search,
+  MoreHorizontal,
+} from "lucide-react"
 
 import { Button } from "@/components/ui/button"
 import { Checkbox } from "@/components/ui/checkbox"
@@ -56,6 +69,39 @@ interface DataTableProps<TData, TValue> {
     action: (selectedRows: TData[]) => void
     variant?: "default" | "destructive" | "outline" | "secondary" | "ghost" | "link"
   }[]
+  /**
+   * Controlled table state for saved views. Each value falls back to internal
+   * state when omitted; passing `onColumnOrderChange` also shows reorder
+   * buttons in the Columns menu.
+   */
+  sorting?: SortingState
+  onSortingChange?: (sorting: SortingState) => void
+  columnVisibility?: VisibilityState
+  onColumnVisibilityChange?: (visibility: VisibilityState) => void
+  columnOrder?: ColumnOrderState
+  onColumnOrderChange?: (order: ColumnOrderState) => void
+  /** Group rows by these column IDs */
+  grouping?: GroupingState
+}
+
+/** Optional `meta.label` on a column definition names it in the Columns menu */
+function getColumnLabel(column: { id: string; columnDef: { meta?: unknown } }): string {
+  return (column.columnDef.meta as { label?: string } | undefined)?.label ?? column.id
+}
+
+function useControllableState<T>(
+  value: T | undefined,
+  onChange: ((value: T) => void) | undefined,
+  initial: T
+): [T, OnChangeFn<T>] {
+  const [internal, setInternal] = React.useState<T>(initial)
+  const current = value ?? internal
+  const setValue: OnChangeFn<T> = (updater) => {
+    const next = typeof updater === "function" ? (updater as (old: T) => T)(current) : updater
+    if (value === undefined) setInternal(next)
+    onChange?.(next)
+  }
+  return [current, setValue]
 }
 
 export function DataTable<TData, TValue>({
@@ -66,10 +112,26 @@ export function DataTable<TData, TValue>({
   filterOptions = [],
   onRowDoubleClick,
   bulkActions = [],
+  grouping = [],
+  ...controlled
 }: DataTableProps<TData, TValue>) {
-  const [sorting, setSorting] = React.useState<SortingState>([])
+  const [sorting, setSorting] = useControllableState(
+    controlled.sorting,
+    controlled.onSortingChange,
+    []
+  )
   const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>([])
-  const [columnVisibility, setColumnVisibility] = React.useState<VisibilityState>({})
+  const [columnVisibility, setColumnVisibility] = useControllableState(
+    controlled.columnVisibility,
+    controlled.onColumnVisibilityChange,
+    {}
+  )
+  const [columnOrder, setColumnOrder] = useControllableState(
+    controlled.columnOrder,
+    controlled.onColumnOrderChange,
+    []
+  )
+  const [expanded, setExpanded] = React.useState<ExpandedState>(true)
   const [rowSelection, setRowSelection] = React.useState({})
 
   // Add checkbox column for bulk selection
@@ -106,18 +168,46 @@ export function DataTable<TData, TValue>({
     getPaginationRowModel: getPaginationRowModel(),
     getSortedRowModel: getSortedRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
+    getGroupedRowModel: getGroupedRowModel(),
+    getExpandedRowModel: getExpandedRowModel(),
     onColumnVisibilityChange: setColumnVisibility,
     onRowSelectionChange: setRowSelection,
+    onExpandedChange: setExpanded,
     state: {
       sorting,
       columnFilters,
       columnVisibility,
+      // The selection checkbox always stays first
+      columnOrder: columnOrder.length > 0 ? ["select", ...columnOrder] : [],
+      grouping,
+      expanded,
       rowSelection,
     },
   })
 
   const selectedRows = table.getFilteredSelectedRowModel().rows
 
+  // Listed columns first, the rest in definition order, as the table lays them out
+  const orderedColumns = table
+    .getAllLeafColumns()
+    .filter((column) => column.getCanHide())
+    .sort((a, b) => {
+      const rank = (id: string) => {
+        const index = columnOrder.indexOf(id)
+        return index === -1 ? columnOrder.length : index
+      }
+      return rank(a.id) - rank(b.id)
+    })
+
+  const moveColumn = (columnId: string, offset: number) => {
+    const ids = orderedColumns.map((column) => column.id)
+    const from = ids.indexOf(columnId)
+    const to = from + offset
+    if (from === -1 || to < 0 || to >= ids.length) return
+    ;[ids[from], ids[to]] = [ids[to], ids[from]]
+    setColumnOrder(ids)
+  }
+
   return (
     <div className="space-y-4">
       {/* Bulk Actions */}
@@ -202,21 +292,44 @@ export function DataTable<TData, TValue>({
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
-            {table
-              .getAllColumns()
-              .filter((column) => column.getCanHide())
-              .map((column) => {
-                return (
+            {orderedColumns.map((column, index) => {
+              const label = getColumnLabel(column)
+              return (
+                <div key={column.id} className="flex items-center">
                   <DropdownMenuCheckboxItem
-                    key={column.id}
-                    className="capitalize"
+                    className="capitalize flex-1"
                     checked={column.getIsVisible()}
                     onCheckedChange={(value) => column.toggleVisibility(!!value)}
                   >
-                    {column.id}
+                    {label}
                   </DropdownMenuCheckboxItem>
-                )
-              })}
+                  {controlled.onColumnOrderChange && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => moveColumn(column.id, -1)}
+                        disabled={index === 0}
+                        aria-label={`Move ${label} up`}
+                      >
+                        <ChevronUp className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => moveColumn(column.id, 1)}
+                        disabled={index === orderedColumns.length - 1}
+                        aria-label={`Move ${label} down`}
+                      >
+                        <ChevronDown className="h-3 w-3" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )
+            })}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
@@ -252,20 +365,53 @@ export function DataTable<TData, TValue>({
             </TableHeader>
             <TableBody>
               {table.getRowModel().rows?.length ? (
-                table.getRowModel().rows.map((row) => (
-                  <TableRow
-                    key={row.id}
-                    data-state={row.getIsSelected() && "selected"}
-                    className={`hover:bg-muted/50 transition-colors ${onRowDoubleClick ? "cursor-pointer" : ""}`}
-                    onDoubleClick={() => onRowDoubleClick?.(row.original)}
-                  >
-                    {row.getVisibleCells().map((cell) => (
-                      <TableCell key={cell.id} className="whitespace-nowrap">
-                        {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                      </TableCell>
-                    ))}
-                  </TableRow>
-                ))
+                table.getRowModel().rows.map((row) => {
+                  if (row.getIsGrouped()) {
+                    const cell = row
+                      .getVisibleCells()
+                      .find((candidate) => candidate.column.id === row.groupingColumnId)
+                    return (
+                      <TableRow key={row.id} className="bg-muted/30 hover:bg-muted/50">
+                        <TableCell colSpan={row.getVisibleCells().length}>
+                          <button
+                            type="button"
+                            onClick={row.getToggleExpandedHandler()}
+                            className="flex items-center gap-2 font-medium"
+                            aria-expanded={row.getIsExpanded()}
+                          >
+                            <ChevronRight
+                              className={`h-4 w-4 transition-transform ${row.getIsExpanded() ? "rotate-90" : ""}`}
+                              aria-hidden="true"
+                            />
+                            {cell
+                              ? `${getColumnLabel(cell.column)}: `
+                              : `${row.groupingColumnId}: `}
+                            {cell
+                              ? flexRender(cell.column.columnDef.cell, cell.getContext())
+                              : null}
+                            <span className="text-muted-foreground font-normal">
+                              ({row.subRows.length})
+                            </span>
+                          </button>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  }
+                  return (
+                    <TableRow
+                      key={row.id}
+                      data-state={row.getIsSelected() && "selected"}
+                      className={`hover:bg-muted/50 transition-colors ${onRowDoubleClick ? "cursor-pointer" : ""}`}
+                      onDoubleClick={() => onRowDoubleClick?.(row.original)}
+                    >
+                      {row.getVisibleCells().map((cell) => (
+                        <TableCell key={cell.id} className="whitespace-nowrap">
+                          {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  )
+                })
               ) : (
                 <TableRow>
                   <TableCell colSpan={columns.length} className="h-24 text-center">
@@ -0,0 +1,130 @@
+"use client"
+
+/**
+ * Accessible Ballot
+ * High-contrast, large-text contest built from native form controls so screen
+ * readers announce every choice, its rank and how many are still allowed
+ */
+
+import type { ReactNode } from "react"
+import { setRank, toggleSelection } from "@/lib/ballots"
+import type { VotingMethod } from "@/lib/types"
+import type { BallotChoice } from "./ranked-ballot"
+
+interface AccessibleContestProps {
+  /** Used to keep control IDs unique when several contests share a page */
+  name: string
+  title: string
+  description?: string
+  method: VotingMethod
+  choices: BallotChoice[]
+  value: string[]
+  max: number
+  onChange: (selected: string[]) => void
+  /** Extra controls inside the contest, e.g. a write-in field */
+  children?: ReactNode
+}
+
+function getInstructions(method: VotingMethod, max: number, count: number): string {
+  if (method === "ranked_choice") {
+    return `Rank as many choices as you like, 1 for your first choice. You have ranked ${count} of ${max}.`
+  }
+  if (method === "multi_choice") {
+    return `Choose up to ${max}. You have chosen ${count}.`
+  }
+  return count > 0 ? "Choose one. You have made your choice." : "Choose one."
+}
+
+export function AccessibleContest({
+  name,
+  title,
+  description,
+  method,
+  choices,
+  value,
+  max,
+  onChange,
+  children,
+}: AccessibleContestProps) {
+  const instructionsId = `${name}-instructions`
+
+  return (
+    <fieldset
+      className="rounded-lg border-4 border-black p-6 dark:border-white"
+      aria-describedby={instructionsId}
+    >
+      <legend className="px-2 text-2xl font-bold">{title}</legend>
+      {description && <p className="mb-2 text-lg">{description}</p>}
+      <p id={instructionsId} className="mb-4 text-lg font-semibold" aria-live="polite">
+        {getInstructions(method, max, value.length)}
+      </p>
+
+      <div className="space-y-3">
+        {choices.map((choice) => {
+          const id = `${name}-${choice.id}`
+          const detailsId = `${id}-details`
+          const details = [choice.party, choice.description].filter(Boolean).join(". ")
+          const rank = value.indexOf(choice.id) + 1
+          const checked = rank > 0
+          const disabled = method === "multi_choice" && !checked && value.length >= max
+
+          return (
+            <div
+              key={choice.id}
+              className={`flex items-center gap-4 rounded-lg border-2 border-black p-4 focus-within:outline focus-within:outline-4 focus-within:outline-offset-2 focus-within:outline-black dark:border-white dark:focus-within:outline-white ${
+                checked ? "bg-yellow-300 text-black" : ""
+              } ${disabled ? "opacity-60" : ""}`}
+            >
+              {method === "ranked_choice" ? (
+                <select
+                  id={id}
+                  value={rank || ""}
+                  onChange={(e) =>
+                    onChange(
+                      setRank(value, choice.id, e.target.value ? Number(e.target.value) : null)
+                    )
+                  }
+                  aria-describedby={details ? detailsId : undefined}
+                  className="h-12 rounded border-2 border-black bg-white px-2 text-lg text-black"
+                >
+                  <option value="">Not ranked</option>
+                  {choices.map((_, index) => (
+                    <option key={index} value={index + 1}>
+                      Rank {index + 1}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  id={id}
+                  type={method === "multi_choice" ? "checkbox" : "radio"}
+                  name={name}
+                  checked={checked}
+                  disabled={disabled}
+                  onChange={() =>
+                    onChange(
+                      method === "multi_choice"
+                        ? toggleSelection(value, choice.id, max)
+                        : [choice.id]
+                    )
+                  }
+                  aria-describedby={details ? detailsId : undefined}
+                  className="h-7 w-7 shrink-0 accent-black dark:accent-white"
+                />
+              )}
+              <label htmlFor={id} className="flex-1 cursor-pointer">
+                <span className="block text-xl font-bold">{choice.name}</span>
+                {details && (
+                  <span id={detailsId} className="block text-lg">
+                    {details}
+                  </span>
+                )}
+              </label>
+            </div>
+          )
+        })}
+      </div>
+      {children}
+    </fieldset>
+  )
+}
@@ -0,0 +1,393 @@
+"use client"
+
+/**
+ * Election Ballot
+ * The public ballot's branded page and contests, shared by the vote page and
+ * the admin preview, with a high-contrast accessible variant
+ */
+
+import type { ReactNode } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Accessibility, Loader, PenLine, Vote } from "lucide-react"
+import {
+  getBallotContests,
+  getMaxSelections,
+  shuffleChoices,
+  toggleSelection,
+  WRITE_IN_CHOICE_ID,
+  WRITE_IN_MAX_LENGTH,
+  type BallotContest,
+  type BallotSelections,
+  type BallotWriteIns,
+} from "@/lib/ballots"
+import type { PublicElection } from "@/lib/types"
+import { AccessibleContest } from "./accessible-ballot"
+import { MultiChoiceBallot } from "./multi-choice-ballot"
+import { RankedBallot, type BallotChoice } from "./ranked-ballot"
+
+const DEFAULT_ACCENT = "#2563eb"
+
+/** Brand colour for buttons and rank badges; the accessible ballot keeps to black and white */
+export function getBallotAccent(election: PublicElection, accessible: boolean) {
+  return accessible ? undefined : election.branding?.primary_color || DEFAULT_ACCENT
+}
+
+interface BallotLayoutProps {
+  election: PublicElection
+  accessible: boolean
+  onAccessibleChange: (accessible: boolean) => void
+  /** Shown above the ballot, e.g. a preview notice */
+  banner?: ReactNode
+  children: ReactNode
+}
+
+export function BallotLayout({
+  election,
+  accessible,
+  onAccessibleChange,
+  banner,
+  children,
+}: BallotLayoutProps) {
+  return (
+    <div
+      className={
+        accessible
+          ? "min-h-screen bg-white text-lg text-black dark:bg-black dark:text-white"
+          : "min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800"
+      }
+    >
+      {banner}
+
+      {/* Header */}
+      <header
+        className={
+          accessible
+            ? "border-b-4 border-black bg-white px-4 py-8 text-black dark:border-white dark:bg-black dark:text-white"
+            : "py-8 px-4 text-white"
+        }
+        style={accessible ? undefined : { backgroundColor: getBallotAccent(election, false) }}
+      >
+        <div className="max-w-3xl mx-auto text-center">
+          {election.branding?.logo_url && (
+            <img src={election.branding.logo_url} alt="Logo" className="h-16 mx-auto mb-4" />
+          )}
+          {election.branding?.header_text && (
+            <p className={accessible ? "mb-2" : "text-sm opacity-90 mb-2"}>
+              {election.branding.header_text}
+            </p>
+          )}
+          <h1 className={accessible ? "text-4xl font-bold" : "text-3xl font-bold"}>
+            {election.title}
+          </h1>
+          {election.description && (
+            <p className={accessible ? "mt-2" : "mt-2 opacity-90"}>{election.description}</p>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className={
+              accessible
+                ? "mt-4 border-2 border-black bg-yellow-300 text-base text-black hover:bg-yellow-400"
+                : "mt-4 bg-transparent text-white hover:bg-white/10 hover:text-white"
+            }
+            aria-pressed={accessible}
+            onClick={() => onAccessibleChange(!accessible)}
+          >
+            <Accessibility className="w-4 h-4 mr-2" />
+            {accessible ? "Switch to standard ballot" : "Large text & high contrast"}
+          </Button>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="max-w-3xl mx-auto p-4 space-y-6">
+        {children}
+
+        {/* Footer */}
+        {election.branding?.footer_text && (
+          <p
+            className={
+              accessible ? "text-center pb-8" : "text-center text-sm text-muted-foreground pb-8"
+            }
+          >
+            {election.branding.footer_text}
+          </p>
+        )}
+      </main>
+    </div>
+  )
+}
+
+interface ElectionBallotProps {
+  election: PublicElection
+  selections: BallotSelections
+  onSelectionChange: (contestId: string, choiceIds: string[]) => void
+  onSubmit: () => void
+  isSubmitting?: boolean
+  submitDisabled?: boolean
+  submitLabel?: string
+  accessible: boolean
+  /** Orders choices when the election randomizes candidates; the voter token on the live ballot */
+  shuffleSeed?: string | null
+  /** Names written in; positions offer a write-in when the election allows it and this is set */
+  writeIns?: BallotWriteIns
+  onWriteInChange?: (contestId: string, name: string) => void
+}
+
+function getContestChoices(
+  election: PublicElection,
+  contestId: string,
+  shuffleSeed?: string | null
+): BallotChoice[] {
+  const position = election.positions.find((p) => p.id === contestId)
+  const showParty = election.settings?.show_party_affiliation !== false
+  const choices: BallotChoice[] = position
+    ? position.candidates.map((candidate) => ({
+        id: candidate.id,
+        name: candidate.name,
+        party: showParty ? candidate.party : undefined,
+        photo_url: candidate.photo_url,
+        description: candidate.bio,
+      }))
+    : election.poll_options.map((option) => ({
+        id: option.id,
+        name: option.option_text,
+        description: option.description,
+      }))
+
+  return election.settings?.randomize_candidates && shuffleSeed
+    ? shuffleChoices(choices, `${shuffleSeed}:${contestId}`)
+    : choices
+}
+
+interface WriteInFieldProps {
+  id: string
+  value: string
+  accessible: boolean
+  onChange: (name: string) => void
+}
+
+function WriteInField({ id, value, accessible, onChange }: WriteInFieldProps) {
+  return (
+    <div className={accessible ? "mt-4 space-y-2" : "mt-4 space-y-2 border-t pt-4"}>
+      <Label
+        htmlFor={id}
+        className={accessible ? "text-xl font-bold" : "flex items-center gap-2 font-medium"}
+      >
+        {!accessible && <PenLine className="w-4 h-4" />}
+        Write in a name
+      </Label>
+      <Input
+        id={id}
+        value={value}
+        maxLength={WRITE_IN_MAX_LENGTH}
+        placeholder="Someone not listed above"
+        onChange={(e) => onChange(e.target.value)}
+        className={
+          accessible
+            ? "h-14 border-2 border-black bg-white text-xl text-black dark:border-white"
+            : undefined
+        }
+      />
+    </div>
+  )
+}
+
+export function ElectionBallot({
+  election,
+  selections,
+  onSelectionChange,
+  onSubmit,
+  isSubmitting,
+  submitDisabled,
+  submitLabel = "Submit Vote",
+  accessible,
+  shuffleSeed,
+  writeIns,
+  onWriteInChange,
+}: ElectionBallotProps) {
+  const accentColor = getBallotAccent(election, accessible)
+
+  // Typing a name marks the write-in; clearing it takes the mark away
+  const handleWriteIn = (contest: BallotContest, selected: string[], max: number, name: string) => {
+    onWriteInChange?.(contest.id, name)
+    const marked = selected.includes(WRITE_IN_CHOICE_ID)
+    if (!name.trim()) {
+      if (marked) {
+        onSelectionChange(
+          contest.id,
+          selected.filter((id) => id !== WRITE_IN_CHOICE_ID)
+        )
+      }
+    } else if (!marked) {
+      onSelectionChange(
+        contest.id,
+        election.voting_method === "single_choice"
+          ? [WRITE_IN_CHOICE_ID]
+          : election.voting_method === "multi_choice"
+            ? toggleSelection(selected, WRITE_IN_CHOICE_ID, max)
+            : [...selected, WRITE_IN_CHOICE_ID]
+      )
+    }
+  }
+
+  return (
+    <>
+      {getBallotContests(election).map((contest) => {
+        const position = election.positions.find((p) => p.id === contest.id)
+        const listed = getContestChoices(election, contest.id, shuffleSeed)
+        if (listed.length === 0) return null
+
+        const selected = selections[contest.id] ?? []
+        const title = contest.type === "poll" ? "Make Your Choice" : contest.title
+        const max = getMaxSelections(election.voting_method, contest)
+        const canWriteIn = !!contest.allow_write_in && !!onWriteInChange
+        const writeIn = writeIns?.[contest.id] ?? ""
+        const choices: BallotChoice[] = canWriteIn
+          ? [
+              ...listed,
+              {
+                id: WRITE_IN_CHOICE_ID,
+                name: writeIn.trim() || "Write-in",
+                description: writeIn.trim() ? "Written in" : "Type a name below",
+              },
+            ]
+          : listed
+        const writeInField = canWriteIn && (
+          <WriteInField
+            id={`${contest.id}-write-in-name`}
+            value={writeIn}
+            accessible={accessible}
+            onChange={(name) => handleWriteIn(contest, selected, max, name)}
+          />
+        )
+
+        if (accessible) {
+          return (
+            <AccessibleContest
+              key={contest.id}
+              name={contest.id}
+              title={title}
+              description={position?.description}
+              method={election.voting_method}
+              choices={choices}
+              value={selected}
+              max={max}
+              onChange={(choiceIds) => onSelectionChange(contest.id, choiceIds)}
+            >
+              {writeInField}
+            </AccessibleContest>
+          )
+        }
+
+        return (
+          <Card key={contest.id}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Vote className="w-5 h-5" />
+                {title}
+              </CardTitle>
+              {position?.description && <CardDescription>{position.description}</CardDescription>}
+            </CardHeader>
+            <CardContent>
+              {election.voting_method === "ranked_choice" ? (
+                <RankedBallot
+                  choices={choices}
+                  value={selected}
+                  onChange={(ranking) => onSelectionChange(contest.id, ranking)}
+                  accentColor={accentColor}
+                />
+              ) : election.voting_method === "multi_choice" ? (
+                <MultiChoiceBallot
+                  name={contest.id}
+                  choices={choices}
+                  value={selected}
+                  max={max}
+                  onChange={(choiceIds) => onSelectionChange(contest.id, choiceIds)}
+                />
+              ) : (
+                <RadioGroup
+                  value={selected[0] || ""}
+                  onValueChange={(value) => onSelectionChange(contest.id, [value])}
+                >
+                  <div className="space-y-3">
+                    {choices.map((choice) => (
+                      <div
+                        key={choice.id}
+                        className="flex items-start space-x-3 p-4 border rounded-lg hover:bg-muted/50 cursor-pointer"
+                        onClick={() => onSelectionChange(contest.id, [choice.id])}
+                      >
+                        <RadioGroupItem
+                          value={choice.id}
+                          id={`${contest.id}-${choice.id}`}
+                          className="mt-1"
+                        />
+                        <Label
+                          htmlFor={`${contest.id}-${choice.id}`}
+                          className="flex-1 cursor-pointer"
+                        >
+                          <div className="flex items-center gap-3">
+                            {choice.photo_url && (
+                              <img
+                                src={choice.photo_url}
+                                alt={choice.name}
+                                className="w-12 h-12 rounded-full object-cover"
+                              />
+                            )}
+                            <div>
+                              <div className="font-medium text-lg">{choice.name}</div>
+                              {choice.party && (
+                                <div className="text-sm text-muted-foreground">{choice.party}</div>
+                              )}
+                            </div>
+                          </div>
+                          {choice.description && (
+                            <p className="mt-2 text-sm text-muted-foreground">
+                              {choice.description}
+                            </p>
+                          )}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </RadioGroup>
+              )}
+              {writeInField}
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      {/* Submit Button */}
+      <div className="flex justify-center pb-8">
+        <Button
+          size="lg"
+          className={
+            accessible
+              ? "px-12 h-14 text-xl border-4 border-black bg-black text-white hover:bg-black/90 dark:border-white dark:bg-white dark:text-black"
+              : "px-12"
+          }
+          onClick={onSubmit}
+          disabled={isSubmitting || submitDisabled}
+          style={accentColor ? { backgroundColor: accentColor } : undefined}
+        >
+          {isSubmitting ? (
+            <>
+              <Loader className="w-4 h-4 mr-2 animate-spin" />
+              Submitting...
+            </>
+          ) : (
+            <>
+              <Vote className="w-4 h-4 mr-2" />
+              {submitLabel}
+            </>
+          )}
+        </Button>
+      </div>
+    </>
+  )
+}
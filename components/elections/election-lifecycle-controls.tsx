@@ -0,0 +1,220 @@
+"use client"
+
+/**
+ * Election Lifecycle Controls
+ * Buttons for the legal transitions, each confirmed against a pre-flight checklist
+ */
+
+import { useState } from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  AlertTriangle,
+  CheckCircle2,
+  ExternalLink,
+  Pause,
+  Play,
+  Settings,
+  Square,
+  XCircle,
+} from "lucide-react"
+import {
+  usePublishElection,
+  useOpenElection,
+  usePauseElection,
+  useResumeElection,
+  useCloseElection,
+  useCancelElection,
+} from "@/hooks/elections"
+import {
+  getManualTransitions,
+  getTransitionTarget,
+  runPreflightChecks,
+  type ElectionTransition,
+  type PreflightResult,
+} from "@/lib/election-lifecycle"
+import type { Election } from "@/lib/types"
+
+interface ElectionLifecycleControlsProps {
+  election: Election
+  totalVotes?: number
+}
+
+const TRANSITION_ACTIONS: Record<
+  ElectionTransition,
+  { label: string; title: string; icon: typeof Play; className: string }
+> = {
+  publish: { label: "Publish Election", title: "Publish Election?", icon: Play, className: "" },
+  open: { label: "Open Voting", title: "Open Voting?", icon: Play, className: "text-green-600" },
+  pause: {
+    label: "Pause Voting",
+    title: "Pause Voting?",
+    icon: Pause,
+    className: "text-yellow-600",
+  },
+  resume: {
+    label: "Resume Voting",
+    title: "Resume Voting?",
+    icon: Play,
+    className: "text-green-600",
+  },
+  close: {
+    label: "Close Voting",
+    title: "Close Voting?",
+    icon: Square,
+    className: "text-purple-600",
+  },
+  cancel: {
+    label: "Cancel Election",
+    title: "Cancel Election?",
+    icon: XCircle,
+    className: "text-destructive",
+  },
+}
+
+function describeTransition(election: Election, transition: ElectionTransition): string {
+  switch (transition) {
+    case "publish":
+      return getTransitionTarget(election, "publish") === "scheduled"
+        ? `Voting is due to open on ${format(new Date(election.start_date), "PPp")}.`
+        : "This will make the election live and allow voters to cast their votes."
+    case "open":
+      return `Voters can cast ballots until ${format(new Date(election.end_date), "PPp")}.`
+    case "pause":
+      return "Voters can't cast ballots until voting is resumed."
+    case "resume":
+      return "Voters can cast ballots again."
+    case "close":
+      return "This will end the voting period. No more votes will be accepted. This action cannot be undone."
+    case "cancel":
+      return "This will cancel the election entirely. All votes will be discarded. This action cannot be undone."
+  }
+}
+
+export function ElectionLifecycleControls({
+  election,
+  totalVotes,
+}: ElectionLifecycleControlsProps) {
+  const [pending, setPending] = useState<ElectionTransition | null>(null)
+  const [checks, setChecks] = useState<PreflightResult>({ errors: [], warnings: [] })
+
+  const mutations: Record<ElectionTransition, { mutate: (id: string) => void }> = {
+    publish: usePublishElection(),
+    open: useOpenElection(),
+    pause: usePauseElection(),
+    resume: useResumeElection(),
+    close: useCloseElection(),
+    cancel: useCancelElection(),
+  }
+
+  const openDialog = (transition: ElectionTransition) => {
+    setChecks(runPreflightChecks(election, transition, { totalVotes }))
+    setPending(transition)
+  }
+
+  const handleConfirm = () => {
+    if (pending && checks.errors.length === 0) mutations[pending].mutate(election.id)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Settings className="h-5 w-5" />
+          Election Controls
+        </CardTitle>
+        <CardDescription>Manage the election lifecycle</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-3">
+          {getManualTransitions(election.status).map((transition) => {
+            const action = TRANSITION_ACTIONS[transition]
+            return (
+              <Button
+                key={transition}
+                variant={transition === "publish" ? "default" : "outline"}
+                className={`gap-2 ${action.className}`}
+                onClick={() => openDialog(transition)}
+              >
+                <action.icon className="h-4 w-4" />
+                {action.label}
+              </Button>
+            )
+          })}
+
+          {election.status === "active" && (
+            <Link href={`/vote/${election.id}`} target="_blank" rel="noopener noreferrer">
+              <Button variant="outline" className="gap-2">
+                <ExternalLink className="h-4 w-4" />
+                View Public Ballot
+              </Button>
+            </Link>
+          )}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        {pending && (
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{TRANSITION_ACTIONS[pending].title}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {describeTransition(election, pending)}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+
+            <ul className="space-y-2 text-sm">
+              {checks.errors.map((message) => (
+                <li key={message} className="flex items-start gap-2 text-destructive">
+                  <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  {message}
+                </li>
+              ))}
+              {checks.warnings.map((message) => (
+                <li key={message} className="flex items-start gap-2 text-yellow-700">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  {message}
+                </li>
+              ))}
+              {checks.errors.length === 0 && checks.warnings.length === 0 && (
+                <li className="flex items-center gap-2 text-green-600">
+                  <CheckCircle2 className="h-4 w-4" />
+                  All pre-flight checks passed
+                </li>
+              )}
+            </ul>
+
+            <AlertDialogFooter>
+              <AlertDialogCancel>Back</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleConfirm}
+                disabled={checks.errors.length > 0}
+                className={
+                  pending === "cancel"
+                    ? "bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    : undefined
+                }
+              >
+                {checks.errors.length > 0
+                  ? "Fix the errors above"
+                  : TRANSITION_ACTIONS[pending].label}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        )}
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,103 @@
+"use client"
+
+/**
+ * Election Timeline
+ * Countdown to the next scheduled open/close and when each one happens
+ */
+
+import { format } from "date-fns"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { AlertTriangle, CheckCircle2, Circle, Clock, XCircle } from "lucide-react"
+import { useElectionSchedule } from "@/hooks/elections"
+import {
+  formatCountdown,
+  getElectionTimeline,
+  type TimelineEventState,
+} from "@/lib/election-lifecycle"
+import type { Election } from "@/lib/types"
+
+interface ElectionTimelineProps {
+  election: Election
+  /** Whether the viewer can confirm a due transition from the election controls */
+  canManage: boolean
+}
+
+const STATE_STYLES: Record<TimelineEventState, { icon: typeof Circle; className: string }> = {
+  done: { icon: CheckCircle2, className: "text-green-600" },
+  due: { icon: Clock, className: "text-yellow-600" },
+  upcoming: { icon: Circle, className: "text-muted-foreground" },
+  skipped: { icon: XCircle, className: "text-muted-foreground" },
+}
+
+export function ElectionTimeline({ election, canManage }: ElectionTimelineProps) {
+  const { now, next, blockers } = useElectionSchedule(election)
+  const events = getElectionTimeline(election, new Date(now))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Schedule
+        </CardTitle>
+        <CardDescription>
+          {election.status === "draft"
+            ? "When voting is due to open and close once the election is published"
+            : "When voting is due to open and close"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {next && (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-muted p-4">
+            <div>
+              <p className="text-sm text-muted-foreground">{next.label}</p>
+              <p className="text-sm font-medium">{format(next.at, "PPpp")}</p>
+            </div>
+            {next.state === "due" ? (
+              <Badge variant="outline" className="text-yellow-700">
+                {canManage
+                  ? "Due now: confirm in Election Controls"
+                  : "Waiting for an election manager"}
+              </Badge>
+            ) : (
+              <span className="font-mono text-2xl font-bold tabular-nums">
+                {formatCountdown(next.at.getTime() - now)}
+              </span>
+            )}
+          </div>
+        )}
+
+        {blockers.length > 0 && (
+          <div className="rounded-lg border border-destructive/50 p-3 text-sm">
+            <p className="flex items-center gap-2 font-medium text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              Voting can&apos;t open until these are fixed
+            </p>
+            <ul className="mt-2 ml-6 list-disc text-muted-foreground">
+              {blockers.map((blocker) => (
+                <li key={blocker}>{blocker}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <ol className="space-y-3">
+          {events.map((event) => {
+            const { icon: Icon, className } = STATE_STYLES[event.state]
+            return (
+              <li key={event.transition} className="flex items-center gap-3">
+                <Icon className={`h-5 w-5 shrink-0 ${className}`} />
+                <div className="flex-1">
+                  <p className="text-sm font-medium">{event.label}</p>
+                  <p className="text-sm text-muted-foreground">{format(event.at, "PPp")}</p>
+                </div>
+                {event.state === "skipped" && <Badge variant="outline">Cancelled</Badge>}
+              </li>
+            )
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,3 +4,14 @@ export { PositionsManager } from "./positions-manager"
 export { CandidatesManager } from "./candidates-manager"
 export { PollOptionsManager } from "./poll-options-manager"
 export { ElectionsDashboardWidget } from "./elections-dashboard-widget"
+export { RankedBallot, type BallotChoice } from "./ranked-ballot"
+export { MultiChoiceBallot } from "./multi-choice-ballot"
+export { RankedChoiceRounds } from "./ranked-choice-rounds"
+export { VoterVerificationWizard } from "./voter-verification-wizard"
+export { VoteReceiptDownloads } from "./vote-receipt-downloads"
+export { ReceiptCodeChecker } from "./receipt-code-checker"
+export { ElectionLifecycleControls } from "./election-lifecycle-controls"
+export { ElectionTimeline } from "./election-timeline"
+export { BallotLayout, ElectionBallot, getBallotAccent } from "./election-ballot"
+export { AccessibleContest } from "./accessible-ballot"
+export { WriteInModeration } from "./write-in-moderation"
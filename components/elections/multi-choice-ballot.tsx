@@ -0,0 +1,76 @@
+"use client"
+
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { toggleSelection } from "@/lib/ballots"
+import type { BallotChoice } from "./ranked-ballot"
+
+interface MultiChoiceBallotProps {
+  /** Used to keep checkbox IDs unique when several ballots share a page */
+  name: string
+  choices: BallotChoice[]
+  value: string[]
+  max: number
+  onChange: (selected: string[]) => void
+}
+
+/**
+ * Checkbox ballot allowing up to `max` choices; once the limit is reached
+ * the remaining choices are disabled until one is unticked
+ */
+export function MultiChoiceBallot({ name, choices, value, max, onChange }: MultiChoiceBallotProps) {
+  const atLimit = value.length >= max
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground" aria-live="polite">
+        Select up to {max} ({value.length} selected)
+      </p>
+      {choices.map((choice) => {
+        const id = `${name}-${choice.id}`
+        const checked = value.includes(choice.id)
+        const disabled = !checked && atLimit
+
+        return (
+          <div
+            key={choice.id}
+            className={`flex items-start space-x-3 p-4 border rounded-lg ${
+              disabled ? "opacity-50" : "hover:bg-muted/50"
+            }`}
+          >
+            <Checkbox
+              id={id}
+              checked={checked}
+              disabled={disabled}
+              onCheckedChange={() => onChange(toggleSelection(value, choice.id, max))}
+              className="mt-1"
+            />
+            <Label
+              htmlFor={id}
+              className={`flex-1 ${disabled ? "cursor-not-allowed" : "cursor-pointer"}`}
+            >
+              <div className="flex items-center gap-3">
+                {choice.photo_url && (
+                  <img
+                    src={choice.photo_url}
+                    alt={choice.name}
+                    className="w-12 h-12 rounded-full object-cover"
+                  />
+                )}
+                <div>
+                  <div className="font-medium text-lg">{choice.name}</div>
+                  {choice.party && (
+                    <div className="text-sm text-muted-foreground">{choice.party}</div>
+                  )}
+                </div>
+              </div>
+              {choice.description && (
+                <p className="mt-2 text-sm text-muted-foreground">{choice.description}</p>
+              )}
+            </Label>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+"use client"
+
+import { Reorder } from "framer-motion"
+import { Button } from "@/components/ui/button"
+import { ArrowDown, ArrowUp, GripVertical, Plus, X } from "lucide-react"
+
+export interface BallotChoice {
+  id: string
+  name: string
+  description?: string
+  party?: string
+  photo_url?: string
+}
+
+interface RankedBallotProps {
+  choices: BallotChoice[]
+  /** Ranked choice IDs, most preferred first */
+  value: string[]
+  onChange: (ranking: string[]) => void
+  accentColor?: string
+}
+
+function ChoiceSummary({ choice }: { choice: BallotChoice }) {
+  return (
+    <div className="flex items-center gap-3 min-w-0">
+      {choice.photo_url && (
+        <img
+          src={choice.photo_url}
+          alt={choice.name}
+          className="w-10 h-10 rounded-full object-cover"
+        />
+      )}
+      <div className="min-w-0">
+        <div className="font-medium truncate">{choice.name}</div>
+        {(choice.party || choice.description) && (
+          <div className="text-sm text-muted-foreground truncate">
+            {choice.party || choice.description}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Ranked-choice ballot: voters add choices in order of preference, then drag
+ * or use the arrow buttons to reorder them. Unranked choices get no vote.
+ */
+export function RankedBallot({ choices, value, onChange, accentColor }: RankedBallotProps) {
+  const choicesById = new Map(choices.map((choice) => [choice.id, choice]))
+  const ranked = value.filter((id) => choicesById.has(id))
+  const unranked = choices.filter((choice) => !ranked.includes(choice.id))
+
+  const move = (index: number, offset: number) => {
+    const next = [...ranked]
+    const [moved] = next.splice(index, 1)
+    next.splice(index + offset, 0, moved)
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Add candidates in order of preference. Drag or use the arrows to change the order; you
+        don&apos;t have to rank everyone.
+      </p>
+
+      {ranked.length > 0 && (
+        <Reorder.Group axis="y" values={ranked} onReorder={onChange} className="space-y-2">
+          {ranked.map((id, index) => (
+            <Reorder.Item key={id} value={id}>
+              <div className="flex items-center gap-3 p-3 border rounded-lg bg-card">
+                <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab active:cursor-grabbing flex-shrink-0" />
+                <span
+                  className="w-7 h-7 rounded-full flex items-center justify-center text-sm font-bold text-white flex-shrink-0"
+                  style={{ backgroundColor: accentColor || "#2563eb" }}
+                  aria-label={`Choice ${index + 1}`}
+                >
+                  {index + 1}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <ChoiceSummary choice={choicesById.get(id)!} />
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${choicesById.get(id)!.name} up`}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => move(index, 1)}
+                    disabled={index === ranked.length - 1}
+                    aria-label={`Move ${choicesById.get(id)!.name} down`}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onChange(ranked.filter((rankedId) => rankedId !== id))}
+                    aria-label={`Remove ${choicesById.get(id)!.name} from ranking`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </Reorder.Item>
+          ))}
+        </Reorder.Group>
+      )}
+
+      {unranked.length > 0 && (
+        <div className="space-y-2">
+          {ranked.length > 0 && (
+            <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              Not ranked
+            </p>
+          )}
+          {unranked.map((choice) => (
+            <div
+              key={choice.id}
+              className="flex items-center justify-between gap-3 p-3 border border-dashed rounded-lg"
+            >
+              <ChoiceSummary choice={choice} />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => onChange([...ranked, choice.id])}
+                aria-label={`Rank ${choice.name} as choice ${ranked.length + 1}`}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Rank #{ranked.length + 1}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
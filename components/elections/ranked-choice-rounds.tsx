@@ -0,0 +1,128 @@
+"use client"
+
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Badge } from "@/components/ui/badge"
+import type { IrvElimination } from "@/lib/ballots"
+import type { RankedChoiceRound } from "@/lib/types"
+
+const ROUND_COLORS = [
+  "hsl(var(--primary))",
+  "#16a34a",
+  "#f59e0b",
+  "#dc2626",
+  "#7c3aed",
+  "#0891b2",
+  "#db2777",
+  "#65a30d",
+]
+
+interface RankedChoiceRoundsProps {
+  rounds: RankedChoiceRound[]
+  eliminations?: IrvElimination[]
+  exhausted?: number[]
+  winnerId?: string | null
+}
+
+/**
+ * Round-by-round instant-runoff chart: one group of bars per round, with the
+ * candidate eliminated after each round listed underneath
+ */
+export function RankedChoiceRounds({
+  rounds,
+  eliminations = [],
+  exhausted = [],
+  winnerId,
+}: RankedChoiceRoundsProps) {
+  // Every candidate who appears in any round, in first-round order
+  const candidates = Array.from(
+    new Map(
+      rounds.flatMap((round) =>
+        round.candidates.map((candidate) => [candidate.candidate_id, candidate.name] as const)
+      )
+    )
+  )
+  const names = new Map(candidates)
+  const data = rounds.map((round) => ({
+    round: `Round ${round.round}`,
+    ...Object.fromEntries(
+      round.candidates.map((candidate) => [candidate.candidate_id, candidate.votes])
+    ),
+  }))
+
+  if (rounds.length === 0) {
+    return <p className="text-sm text-muted-foreground">No ranked ballots to count yet</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <ResponsiveContainer width="100%" height={280}>
+        <BarChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+          <XAxis dataKey="round" tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 12 }} />
+          <YAxis
+            allowDecimals={false}
+            tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 12 }}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: "hsl(var(--popover))",
+              border: "1px solid hsl(var(--border))",
+              borderRadius: "8px",
+            }}
+          />
+          <Legend />
+          {candidates.map(([id, name], index) => (
+            <Bar
+              key={id}
+              dataKey={id}
+              name={name}
+              fill={ROUND_COLORS[index % ROUND_COLORS.length]}
+              radius={[2, 2, 0, 0]}
+            />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+
+      <ol className="space-y-2 text-sm">
+        {rounds.map((round, index) => {
+          const elimination = eliminations.find((entry) => entry.round === round.round)
+          const leader = round.candidates[0]
+
+          return (
+            <li key={round.round} className="flex flex-wrap items-center gap-2">
+              <span className="font-medium w-20">Round {round.round}</span>
+              {leader && (
+                <span className="text-muted-foreground">
+                  {leader.name} leads with {leader.percentage.toFixed(1)}%
+                </span>
+              )}
+              {elimination && (
+                <Badge variant="outline">
+                  {names.get(elimination.candidate_id) ?? elimination.candidate_id} eliminated
+                  {elimination.tiebreak ? " (tie-break)" : ""}
+                </Badge>
+              )}
+              {index === rounds.length - 1 && winnerId && (
+                <Badge>{names.get(winnerId) ?? winnerId} wins</Badge>
+              )}
+              {!!exhausted[index] && (
+                <span className="text-xs text-muted-foreground">
+                  {exhausted[index]} exhausted {exhausted[index] === 1 ? "ballot" : "ballots"}
+                </span>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+"use client"
+
+/**
+ * Receipt Code Checker
+ * Bulk-check voters' confirmation codes against the election's audit log
+ */
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Loader2, ReceiptText } from "lucide-react"
+import { useCheckReceiptCodes } from "@/hooks/elections"
+import {
+  parseReceiptCodes,
+  summarizeReceiptChecks,
+  type ReceiptCheckResult,
+  type ReceiptCheckStatus,
+} from "@/lib/vote-receipts"
+
+interface ReceiptCodeCheckerProps {
+  electionId: string
+}
+
+const STATUS_BADGES: Record<ReceiptCheckStatus, { label: string; className: string }> = {
+  recorded: {
+    label: "Recorded",
+    className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  },
+  duplicate: {
+    label: "Duplicate",
+    className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  },
+  not_found: {
+    label: "Not Found",
+    className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  },
+}
+
+export function ReceiptCodeChecker({ electionId }: ReceiptCodeCheckerProps) {
+  const [input, setInput] = useState("")
+  const [results, setResults] = useState<ReceiptCheckResult[] | null>(null)
+  const [invalid, setInvalid] = useState<string[]>([])
+  const checkCodes = useCheckReceiptCodes()
+
+  const handleCheck = () => {
+    const parsed = parseReceiptCodes(input)
+    setInvalid(parsed.invalid)
+    if (parsed.codes.length === 0) {
+      setResults([])
+      return
+    }
+    checkCodes.mutate({ electionId, codes: parsed.codes }, { onSuccess: setResults })
+  }
+
+  const summary = results ? summarizeReceiptChecks(results) : null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ReceiptText className="h-5 w-5" />
+          Receipt Check
+        </CardTitle>
+        <CardDescription>
+          Paste confirmation codes from voters&apos; receipts to confirm each one matches a recorded
+          ballot
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="One code per line, or separated by commas"
+          rows={5}
+          className="font-mono"
+        />
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex flex-wrap gap-2 text-sm">
+            {summary &&
+              (Object.keys(STATUS_BADGES) as ReceiptCheckStatus[]).map((status) => (
+                <Badge key={status} className={STATUS_BADGES[status].className}>
+                  {summary[status]} {STATUS_BADGES[status].label}
+                </Badge>
+              ))}
+            {invalid.length > 0 && (
+              <span className="text-muted-foreground">
+                Skipped {invalid.length} invalid {invalid.length === 1 ? "entry" : "entries"}
+              </span>
+            )}
+          </div>
+          <Button onClick={handleCheck} disabled={!input.trim() || checkCodes.isPending}>
+            {checkCodes.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Check Codes
+          </Button>
+        </div>
+
+        {results && results.length > 0 && (
+          <div className="border rounded-lg max-h-96 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Confirmation Code</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Recorded At</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result) => (
+                  <TableRow key={result.code}>
+                    <TableCell className="font-mono">{result.code}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_BADGES[result.status].className}>
+                        {STATUS_BADGES[result.status].label}
+                        {result.status === "duplicate" && ` (${result.entries.length})`}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {result.entries
+                        .map((entry) => format(new Date(entry.created_at), "PPp"))
+                        .join(", ") || "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,140 @@
+"use client"
+
+/**
+ * Vote Receipt Downloads
+ * Save a QR-coded receipt as a PDF or PNG so the ballot can be checked later
+ */
+
+import { Button } from "@/components/ui/button"
+import { FileText, ImageIcon } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { encodeQrCode, QR_QUIET_ZONE } from "@/lib/qr-code"
+import {
+  buildReceiptPdf,
+  getReceiptUrl,
+  RECEIPT_NOTE,
+  type ReceiptDocument,
+} from "@/lib/vote-receipts"
+
+interface VoteReceiptDownloadsProps extends Omit<ReceiptDocument, "verifyUrl"> {
+  electionId: string
+}
+
+const PNG_WIDTH = 480
+const PNG_MODULE_SIZE = 6
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.URL.revokeObjectURL(url)
+}
+
+/** Wrap text to the canvas width, returning the lines */
+function wrapText(context: CanvasRenderingContext2D, text: string, width: number): string[] {
+  const lines: string[] = []
+  let line = ""
+  text.split(" ").forEach((word) => {
+    const candidate = line ? `${line} ${word}` : word
+    if (line && context.measureText(candidate).width > width) {
+      lines.push(line)
+      line = word
+    } else {
+      line = candidate
+    }
+  })
+  if (line) lines.push(line)
+  return lines
+}
+
+function drawReceipt(receipt: ReceiptDocument): HTMLCanvasElement {
+  const qr = encodeQrCode(receipt.verifyUrl)
+  const qrSide = (qr.size + QR_QUIET_ZONE * 2) * PNG_MODULE_SIZE
+  const canvas = document.createElement("canvas")
+  canvas.width = PNG_WIDTH
+  canvas.height = 190 + qrSide + 80
+  const context = canvas.getContext("2d")!
+  const center = PNG_WIDTH / 2
+
+  context.fillStyle = "#ffffff"
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.fillStyle = "#111827"
+  context.textAlign = "center"
+
+  context.font = "bold 22px system-ui, sans-serif"
+  context.fillText("Vote Receipt", center, 44)
+  context.font = "16px system-ui, sans-serif"
+  context.fillText(receipt.electionTitle, center, 76, PNG_WIDTH - 40)
+  context.font = "bold 28px ui-monospace, monospace"
+  context.fillText(receipt.confirmationCode, center, 124)
+  context.font = "13px system-ui, sans-serif"
+  context.fillStyle = "#6b7280"
+  if (receipt.votedAt) {
+    context.fillText(`Voted ${new Date(receipt.votedAt).toLocaleString()}`, center, 152)
+  }
+
+  const left = center - qrSide / 2
+  const top = 170 + QR_QUIET_ZONE * PNG_MODULE_SIZE
+  context.fillStyle = "#000000"
+  qr.modules.forEach((row, rowIndex) => {
+    row.forEach((dark, colIndex) => {
+      if (!dark) return
+      context.fillRect(
+        left + (QR_QUIET_ZONE + colIndex) * PNG_MODULE_SIZE,
+        top + rowIndex * PNG_MODULE_SIZE,
+        PNG_MODULE_SIZE,
+        PNG_MODULE_SIZE
+      )
+    })
+  })
+
+  context.fillStyle = "#6b7280"
+  context.font = "12px system-ui, sans-serif"
+  wrapText(context, RECEIPT_NOTE, PNG_WIDTH - 48).forEach((line, index) => {
+    context.fillText(line, center, 190 + qrSide + index * 18)
+  })
+
+  return canvas
+}
+
+export function VoteReceiptDownloads({ electionId, ...details }: VoteReceiptDownloadsProps) {
+  const { toast } = useToast()
+  const fileName = `vote-receipt-${details.confirmationCode}`
+
+  const getReceipt = (): ReceiptDocument => ({
+    ...details,
+    verifyUrl: getReceiptUrl(window.location.origin, electionId, details.confirmationCode),
+  })
+
+  const handleDownloadPdf = () => {
+    const pdf = buildReceiptPdf(getReceipt()) as BlobPart
+    downloadBlob(new Blob([pdf], { type: "application/pdf" }), `${fileName}.pdf`)
+  }
+
+  const handleDownloadPng = () => {
+    drawReceipt(getReceipt()).toBlob((blob) => {
+      if (blob) {
+        downloadBlob(blob, `${fileName}.png`)
+      } else {
+        toast({ title: "Error", description: "Failed to create image", variant: "destructive" })
+      }
+    }, "image/png")
+  }
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2">
+      <Button variant="outline" onClick={handleDownloadPdf}>
+        <FileText className="w-4 h-4 mr-2" />
+        Download PDF
+      </Button>
+      <Button variant="outline" onClick={handleDownloadPng}>
+        <ImageIcon className="w-4 h-4 mr-2" />
+        Download PNG
+      </Button>
+    </div>
+  )
+}
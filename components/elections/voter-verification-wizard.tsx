@@ -0,0 +1,317 @@
+"use client"
+
+/**
+ * Voter Verification Wizard
+ * Steps a public voter through national ID capture and phone code verification
+ */
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { AlertCircle, IdCard, Loader2, MessageSquare, Phone, ShieldCheck } from "lucide-react"
+import { useRequestVoterOTP, useVerifyPublicVoter } from "@/hooks/elections/use-public-voting"
+import { VOTER_VERIFICATION } from "@/lib/constants"
+import {
+  getRetryAfterSeconds,
+  getVerificationSteps,
+  getVoteErrorMessage,
+  maskPhoneNumber,
+  NATIONAL_ID_EXAMPLE,
+  normalizeNationalId,
+  normalizePhoneNumber,
+  type VerificationStep,
+} from "@/lib/voter-verification"
+import type { PublicElection, VoterVerificationInput } from "@/lib/types"
+
+interface VoterVerificationWizardProps {
+  election: PublicElection
+  onVerified: (voterToken: string) => void
+  accentColor?: string
+}
+
+const STEP_TITLES: Record<VerificationStep, string> = {
+  national_id: "National ID",
+  phone: "Phone Number",
+  code: "Verification Code",
+}
+
+/** Seconds left until a timestamp, ticking once a second while positive */
+function useSecondsUntil(until: number | null): number {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!until) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [until])
+
+  return until ? Math.max(0, Math.ceil((until - now) / 1000)) : 0
+}
+
+export function VoterVerificationWizard({
+  election,
+  onVerified,
+  accentColor,
+}: VoterVerificationWizardProps) {
+  const steps = getVerificationSteps(election)
+  const [stepIndex, setStepIndex] = useState(0)
+  const [nationalIdInput, setNationalIdInput] = useState("")
+  const [phoneInput, setPhoneInput] = useState("")
+  const [phone, setPhone] = useState<string | null>(null)
+  const [code, setCode] = useState("")
+  const [attemptsLeft, setAttemptsLeft] = useState<number>(VOTER_VERIFICATION.MAX_OTP_ATTEMPTS)
+  const [resendAt, setResendAt] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const requestOTP = useRequestVoterOTP()
+  const verifyVoter = useVerifyPublicVoter()
+
+  const step = steps[stepIndex]
+  const resendIn = useSecondsUntil(resendAt)
+  const nationalId = normalizeNationalId(nationalIdInput)
+  const isLockedOut = attemptsLeft <= 0
+
+  const goTo = (next: VerificationStep) => {
+    setError(null)
+    setStepIndex(steps.indexOf(next))
+  }
+
+  /** Returns why verification failed, or null once the voter has a token */
+  const verify = async (data: VoterVerificationInput): Promise<string | null> => {
+    try {
+      const result = await verifyVoter.mutateAsync({ electionId: election.id, data })
+      if (result.verified && result.voter_token) {
+        onVerified(result.voter_token)
+        return null
+      }
+      return result.message || "We couldn't verify you for this election"
+    } catch (err) {
+      return getVoteErrorMessage(err, "We couldn't verify you for this election")
+    }
+  }
+
+  const handleNationalIdSubmit = async () => {
+    if (!nationalId) {
+      setError(`Enter your Ghana Card number in the format ${NATIONAL_ID_EXAMPLE}`)
+      return
+    }
+    setError(null)
+    if (election.require_phone_otp) {
+      goTo("phone")
+    } else {
+      setError(await verify({ national_id: nationalId }))
+    }
+  }
+
+  const handleRequestCode = async () => {
+    const normalized = normalizePhoneNumber(phoneInput)
+    if (!normalized) {
+      setError("Enter a valid mobile number, e.g. 024 123 4567")
+      return
+    }
+    setError(null)
+    try {
+      await requestOTP.mutateAsync({ electionId: election.id, phone: normalized })
+      setPhone(normalized)
+      setCode("")
+      setAttemptsLeft(VOTER_VERIFICATION.MAX_OTP_ATTEMPTS)
+      setResendAt(Date.now() + VOTER_VERIFICATION.OTP_RESEND_COOLDOWN_SECONDS * 1000)
+      goTo("code")
+    } catch (err: any) {
+      if (err?.response?.status === 429) {
+        setResendAt(Date.now() + getRetryAfterSeconds(err) * 1000)
+      }
+      setError(getVoteErrorMessage(err, "Failed to send the verification code"))
+    }
+  }
+
+  const handleVerifyCode = async (otp: string) => {
+    if (!phone || isLockedOut || otp.length !== VOTER_VERIFICATION.OTP_LENGTH) return
+    const failure = await verify({ national_id: nationalId ?? undefined, phone, otp })
+    if (!failure) return
+
+    const remaining = attemptsLeft - 1
+    setAttemptsLeft(remaining)
+    setCode("")
+    setError(
+      remaining > 0
+        ? `${failure} (${remaining} ${remaining === 1 ? "attempt" : "attempts"} remaining)`
+        : "Too many incorrect codes. Request a new code to try again."
+    )
+  }
+
+  const isBusy = requestOTP.isPending || verifyVoter.isPending
+  const buttonStyle = accentColor ? { backgroundColor: accentColor } : undefined
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Verify Your Identity
+        </CardTitle>
+        <CardDescription>
+          Step {stepIndex + 1} of {steps.length}: {STEP_TITLES[step]}
+        </CardDescription>
+        <div className="flex gap-1 pt-2">
+          {steps.map((s, index) => (
+            <div
+              key={s}
+              className={`h-1 flex-1 rounded-full ${index <= stepIndex ? "bg-primary" : "bg-muted"}`}
+              style={
+                index <= stepIndex && accentColor ? { backgroundColor: accentColor } : undefined
+              }
+            />
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="w-4 h-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {step === "national_id" && (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleNationalIdSubmit()
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="voter-national-id">Ghana Card Number</Label>
+              <Input
+                id="voter-national-id"
+                value={nationalIdInput}
+                onChange={(e) => setNationalIdInput(e.target.value)}
+                onBlur={() => nationalId && setNationalIdInput(nationalId)}
+                placeholder={NATIONAL_ID_EXAMPLE}
+                autoComplete="off"
+              />
+              <p className="text-xs text-muted-foreground">
+                As printed on your card, e.g. {NATIONAL_ID_EXAMPLE}
+              </p>
+            </div>
+            <Button type="submit" className="w-full" disabled={isBusy} style={buttonStyle}>
+              {verifyVoter.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <IdCard className="w-4 h-4 mr-2" />
+              )}
+              Continue
+            </Button>
+          </form>
+        )}
+
+        {step === "phone" && (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleRequestCode()
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="voter-phone">Mobile Number</Label>
+              <Input
+                id="voter-phone"
+                type="tel"
+                inputMode="tel"
+                autoComplete="tel"
+                value={phoneInput}
+                onChange={(e) => setPhoneInput(e.target.value)}
+                placeholder="024 123 4567"
+              />
+              <p className="text-xs text-muted-foreground">
+                We&apos;ll send a {VOTER_VERIFICATION.OTP_LENGTH}-digit code by SMS
+              </p>
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isBusy || resendIn > 0}
+              style={buttonStyle}
+            >
+              {requestOTP.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <MessageSquare className="w-4 h-4 mr-2" />
+              )}
+              {resendIn > 0 ? `Send code in ${resendIn}s` : "Send Code"}
+            </Button>
+            {election.require_national_id && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => goTo("national_id")}
+              >
+                Back
+              </Button>
+            )}
+          </form>
+        )}
+
+        {step === "code" && phone && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Enter the code sent to <span className="font-medium">{maskPhoneNumber(phone)}</span>
+            </p>
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={VOTER_VERIFICATION.OTP_LENGTH}
+                value={code}
+                onChange={setCode}
+                onComplete={handleVerifyCode}
+                disabled={isLockedOut || verifyVoter.isPending}
+                autoComplete="one-time-code"
+                inputMode="numeric"
+                pattern="^[0-9]*$"
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: VOTER_VERIFICATION.OTP_LENGTH }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => handleVerifyCode(code)}
+              disabled={isLockedOut || isBusy || code.length !== VOTER_VERIFICATION.OTP_LENGTH}
+              style={buttonStyle}
+            >
+              {verifyVoter.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <ShieldCheck className="w-4 h-4 mr-2" />
+              )}
+              Verify
+            </Button>
+            <div className="flex items-center justify-between text-sm">
+              <Button variant="link" className="px-0" onClick={() => goTo("phone")}>
+                <Phone className="w-3 h-3 mr-1" />
+                Change number
+              </Button>
+              <Button
+                variant="link"
+                className="px-0"
+                onClick={handleRequestCode}
+                disabled={isBusy || resendIn > 0}
+              >
+                {resendIn > 0 ? `Resend code in ${resendIn}s` : "Resend code"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,306 @@
+"use client"
+
+/**
+ * Write-in Moderation
+ * Merge write-in spelling variants into one name or into a listed candidate
+ */
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { ArrowRight, GitMerge, Lightbulb, Undo2 } from "lucide-react"
+import { useCreateWriteInMerge, useDeleteWriteInMerge } from "@/hooks/elections"
+import { suggestWriteInMerges, type MergedPositionResult } from "@/lib/write-ins"
+import type { CreateWriteInMergeInput, WriteInMerge } from "@/lib/types"
+
+/** Merge into a new name rather than a candidate */
+const NEW_NAME = "new-name"
+
+export interface WriteInPosition extends MergedPositionResult {
+  position_id: string
+  title: string
+}
+
+interface WriteInModerationProps {
+  electionId: string
+  positions: WriteInPosition[]
+  merges: WriteInMerge[]
+  /** Off once results are finalized or for read-only users */
+  canManage: boolean
+}
+
+export function WriteInModeration({
+  electionId,
+  positions,
+  merges,
+  canManage,
+}: WriteInModerationProps) {
+  return (
+    <>
+      {positions.map((position) => (
+        <PositionWriteIns
+          key={position.position_id}
+          electionId={electionId}
+          position={position}
+          merges={merges.filter((merge) => merge.position_id === position.position_id)}
+          canManage={canManage}
+        />
+      ))}
+    </>
+  )
+}
+
+interface PositionWriteInsProps {
+  electionId: string
+  position: WriteInPosition
+  merges: WriteInMerge[]
+  canManage: boolean
+}
+
+function PositionWriteIns({ electionId, position, merges, canManage }: PositionWriteInsProps) {
+  const [selected, setSelected] = useState<string[]>([])
+  const [target, setTarget] = useState(NEW_NAME)
+  const [name, setName] = useState("")
+  const createMerge = useCreateWriteInMerge()
+  const deleteMerge = useDeleteWriteInMerge()
+
+  const groups = position.write_ins
+  const suggestions = canManage ? suggestWriteInMerges(groups, position.candidates) : []
+  const candidateMerges = merges.filter((merge) => merge.candidate_id)
+  const candidateName = (candidateId?: string) =>
+    position.candidates.find((candidate) => candidate.candidate_id === candidateId)?.name ??
+    "Removed candidate"
+
+  const variantsOf = (keys: string[]) =>
+    groups.filter((group) => keys.includes(group.key)).flatMap((group) => group.variants)
+
+  const merge = (data: CreateWriteInMergeInput) => {
+    createMerge.mutate(
+      { electionId, data },
+      {
+        onSuccess: () => {
+          setSelected([])
+          setTarget(NEW_NAME)
+          setName("")
+        },
+      }
+    )
+  }
+
+  const handleMerge = () => {
+    const variants = variantsOf(selected)
+    if (variants.length === 0) return
+    merge(
+      target === NEW_NAME
+        ? { position_id: position.position_id, variants, name: name.trim() }
+        : { position_id: position.position_id, variants, candidate_id: target }
+    )
+  }
+
+  const toggleGroup = (key: string, checked: boolean) => {
+    const next = checked ? [...selected, key] : selected.filter((k) => k !== key)
+    setSelected(next)
+    // Offer the most-voted spelling as the merged name
+    if (checked && next.length === 1) {
+      setName(groups.find((group) => group.key === key)?.name ?? "")
+    }
+  }
+
+  const canMerge = selected.length > 0 && (target !== NEW_NAME || name.trim().length > 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{position.title}</CardTitle>
+        <CardDescription>
+          {groups.length} {groups.length === 1 ? "name" : "names"}, {position.write_in_total}{" "}
+          write-in votes
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {suggestions.length > 0 && (
+          <div className="space-y-2 rounded-lg border border-dashed p-3">
+            <p className="flex items-center gap-2 text-sm font-medium">
+              <Lightbulb className="h-4 w-4 text-yellow-600" />
+              Possible spelling variants
+            </p>
+            {suggestions.map((suggestion) => {
+              const variants = variantsOf(suggestion.keys)
+              return (
+                <div
+                  key={suggestion.keys.join("|")}
+                  className="flex flex-wrap items-center justify-between gap-2 text-sm"
+                >
+                  <span className="flex flex-wrap items-center gap-2">
+                    {variants.join(", ")}
+                    <ArrowRight className="h-3 w-3" />
+                    <span className="font-medium">{suggestion.name}</span>
+                    {suggestion.candidate_id && <Badge variant="outline">Candidate</Badge>}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={createMerge.isPending}
+                    onClick={() =>
+                      merge({
+                        position_id: position.position_id,
+                        variants,
+                        ...(suggestion.candidate_id
+                          ? { candidate_id: suggestion.candidate_id }
+                          : { name: suggestion.name }),
+                      })
+                    }
+                  >
+                    Merge
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {groups.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {canManage && <TableHead className="w-10" />}
+                <TableHead>Name</TableHead>
+                <TableHead>Spellings</TableHead>
+                <TableHead className="text-right">Votes</TableHead>
+                {canManage && <TableHead className="w-32" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map((group) => (
+                <TableRow key={group.key}>
+                  {canManage && (
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.includes(group.key)}
+                        onCheckedChange={(checked) => toggleGroup(group.key, checked === true)}
+                        aria-label={`Select ${group.name}`}
+                      />
+                    </TableCell>
+                  )}
+                  <TableCell className="font-medium">
+                    {group.name}
+                    {group.mergeId && (
+                      <Badge variant="secondary" className="ml-2">
+                        Merged
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {group.variants.join(", ")}
+                  </TableCell>
+                  <TableCell className="text-right font-bold">{group.votes}</TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      {group.mergeId && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={deleteMerge.isPending}
+                          onClick={() =>
+                            deleteMerge.mutate({ electionId, mergeId: group.mergeId as string })
+                          }
+                        >
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          Undo
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Every write-in has been merged into a candidate.
+          </p>
+        )}
+
+        {canManage && selected.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 rounded-lg bg-muted p-3">
+            <span className="text-sm">Merge {selected.length} selected into</span>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_NAME}>A write-in name</SelectItem>
+                {position.candidates.map((candidate) => (
+                  <SelectItem key={candidate.candidate_id} value={candidate.candidate_id}>
+                    {candidate.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {target === NEW_NAME && (
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name to show"
+                className="w-48"
+              />
+            )}
+            <Button size="sm" disabled={!canMerge || createMerge.isPending} onClick={handleMerge}>
+              <GitMerge className="h-4 w-4 mr-2" />
+              Merge
+            </Button>
+          </div>
+        )}
+
+        {candidateMerges.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Counted for candidates</p>
+            {candidateMerges.map((candidateMerge) => (
+              <div
+                key={candidateMerge.id}
+                className="flex flex-wrap items-center justify-between gap-2 text-sm"
+              >
+                <span className="flex flex-wrap items-center gap-2 text-muted-foreground">
+                  {candidateMerge.variants.join(", ")}
+                  <ArrowRight className="h-3 w-3" />
+                  <span className="font-medium text-foreground">
+                    {candidateName(candidateMerge.candidate_id)}
+                  </span>
+                </span>
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteMerge.isPending}
+                    onClick={() => deleteMerge.mutate({ electionId, mergeId: candidateMerge.id })}
+                  >
+                    <Undo2 className="h-4 w-4 mr-1" />
+                    Undo
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
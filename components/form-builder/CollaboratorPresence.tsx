@@ -0,0 +1,90 @@
+/**
+ * Collaborator Presence
+ * Shows who else is editing the form and which field each person has selected
+ */
+
+"use client"
+
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { useFormBuilderContext } from "./FormBuilderProvider"
+import type { CollaboratorPresence } from "@/lib/form-collaboration"
+
+const MAX_VISIBLE = 4
+
+function initials(username: string) {
+  return username
+    .split(/[\s._-]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("")
+}
+
+/**
+ * Avatar stack of everyone else in the form, for the toolbar
+ */
+export function CollaboratorAvatars() {
+  const { collaborators, collaborationStatus, fields } = useFormBuilderContext()
+
+  if (collaborationStatus !== "open" || collaborators.length === 0) return null
+
+  const visible = collaborators.slice(0, MAX_VISIBLE)
+  const hidden = collaborators.length - visible.length
+
+  const describe = (peer: CollaboratorPresence) => {
+    const field = fields.find((f) => f.id === peer.selectedFieldId)
+    return field ? `${peer.username} · editing "${field.label}"` : `${peer.username} · viewing`
+  }
+
+  return (
+    <TooltipProvider>
+      <div className="flex items-center -space-x-2" aria-label="People editing this form">
+        {visible.map((peer) => (
+          <Tooltip key={peer.sessionId}>
+            <TooltipTrigger asChild>
+              <Avatar className="h-7 w-7 border-2" style={{ borderColor: peer.color }}>
+                <AvatarFallback
+                  className="text-[10px] font-semibold text-white"
+                  style={{ backgroundColor: peer.color }}
+                >
+                  {initials(peer.username)}
+                </AvatarFallback>
+              </Avatar>
+            </TooltipTrigger>
+            <TooltipContent>{describe(peer)}</TooltipContent>
+          </Tooltip>
+        ))}
+        {hidden > 0 && (
+          <Avatar className="h-7 w-7 border-2 border-background">
+            <AvatarFallback className="text-[10px]">+{hidden}</AvatarFallback>
+          </Avatar>
+        )}
+      </div>
+    </TooltipProvider>
+  )
+}
+
+/**
+ * Name tags for collaborators who have a field selected
+ */
+export function FieldPresenceTags({ fieldId }: { fieldId: string }) {
+  const { collaborators } = useFormBuilderContext()
+  const here = collaborators.filter((peer) => peer.selectedFieldId === fieldId)
+
+  if (here.length === 0) return null
+
+  return (
+    <div className="absolute -top-3 right-4 flex gap-1">
+      {here.map((peer) => (
+        <span
+          key={peer.sessionId}
+          className="rounded px-1.5 py-0.5 text-[10px] font-medium text-white shadow-sm"
+          style={{ backgroundColor: peer.color }}
+        >
+          {peer.username}
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -10,14 +10,17 @@ import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { Checkbox } from "@/components/ui/checkbox"
 import { getFieldConfig } from "@/lib/form-builder/field-configs"
+import { GroupFieldsEditor } from "./GroupFieldsEditor"
 import type { FormField } from "@/lib/types"
 
 interface FieldConfigPanelProps {
   field: FormField
   onUpdate: (id: string, updates: Partial<FormField>) => void
+  /** All form fields, for settings that reference other fields */
+  fields?: FormField[]
 }
 
-export function FieldConfigPanel({ field, onUpdate }: FieldConfigPanelProps) {
+export function FieldConfigPanel({ field, onUpdate, fields = [] }: FieldConfigPanelProps) {
   const config = getFieldConfig(field.type)
 
   return (
@@ -307,6 +310,11 @@ export function FieldConfigPanel({ field, onUpdate }: FieldConfigPanelProps) {
         </div>
       )}
 
+      {/* Group-specific config */}
+      {field.type === "group" && (
+        <GroupFieldsEditor field={field} fields={fields} onUpdate={onUpdate} />
+      )}
+
       {/* GPS info */}
       {field.type === "gps" && (
         <div className="p-3 bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-md">
@@ -16,6 +16,8 @@ import { getFieldConfig } from "@/lib/form-builder/field-configs"
 import { FieldConfigPanel } from "./FieldConfigPanel"
 import { FieldOptionsEditor } from "./FieldOptionsEditor"
 import { FieldValidationEditor } from "./FieldValidationEditor"
+import { FormulaEditor } from "./FormulaEditor"
+import { FieldPresenceTags } from "../CollaboratorPresence"
 import type { FormField } from "@/lib/types"
 import { useState } from "react"
 
@@ -25,7 +27,7 @@ interface FieldEditorContainerProps {
 }
 
 export function FieldEditorContainer({ field, index }: FieldEditorContainerProps) {
-  const { updateField, removeField, duplicateField, selectedFieldId, setSelectedFieldId } =
+  const { fields, updateField, removeField, duplicateField, selectedFieldId, setSelectedFieldId } =
     useFormBuilderContext()
 
   const [isExpanded, setIsExpanded] = useState(selectedFieldId === field.id)
@@ -101,6 +103,9 @@ export function FieldEditorContainer({ field, index }: FieldEditorContainerProps
           }
         }}
       >
+        {/* Collaborators on this field */}
+        <FieldPresenceTags fieldId={field.id} />
+
         {/* Drag Handle */}
         <div className="absolute left-2 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity cursor-grab active:cursor-grabbing">
           <GripVertical className="w-5 h-5 text-muted-foreground" aria-label="Drag to reorder" />
@@ -194,7 +199,12 @@ export function FieldEditorContainer({ field, index }: FieldEditorContainerProps
             >
               <div className="pt-4 border-t border-border space-y-6">
                 {/* Basic Configuration */}
-                <FieldConfigPanel field={field} onUpdate={updateField} />
+                <FieldConfigPanel field={field} onUpdate={updateField} fields={fields} />
+
+                {/* Formula Editor (for calculated fields) */}
+                {field.type === "calculated" && (
+                  <FormulaEditor field={field} fields={fields} onUpdate={updateField} />
+                )}
 
                 {/* Options Editor (for choice fields) */}
                 {config.supportsOptions && (
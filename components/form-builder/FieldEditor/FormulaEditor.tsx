@@ -0,0 +1,204 @@
+/**
+ * Formula Editor
+ * Expression editor for calculated fields with field ID and function autocomplete
+ */
+
+"use client"
+
+import { useMemo, useRef, useState } from "react"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { AlertCircle, CheckCircle2 } from "lucide-react"
+import { buildCalculationPlan, FORMULA_FUNCTIONS } from "@/lib/formula"
+import type { FormField } from "@/lib/types"
+
+interface FormulaEditorProps {
+  field: FormField
+  fields: FormField[]
+  onUpdate: (id: string, updates: Partial<FormField>) => void
+}
+
+interface Suggestion {
+  label: string
+  detail: string
+  insert: string
+  /** Characters before the cursor replaced by `insert` */
+  replaceLength: number
+}
+
+/**
+ * Work out what the user is typing at the cursor: an open `{field` reference
+ * or a function name
+ */
+function getSuggestions(
+  formula: string,
+  cursor: number,
+  fields: FormField[],
+  currentFieldId: string
+): Suggestion[] {
+  const beforeCursor = formula.slice(0, cursor)
+
+  const fieldMatch = /\{([^{}]*)$/.exec(beforeCursor)
+  if (fieldMatch) {
+    const query = fieldMatch[1].toLowerCase()
+    return fields
+      .filter((candidate) => candidate.id !== currentFieldId)
+      .filter(
+        (candidate) =>
+          candidate.id.toLowerCase().includes(query) ||
+          candidate.label.toLowerCase().includes(query)
+      )
+      .slice(0, 8)
+      .map((candidate) => ({
+        label: `{${candidate.id}}`,
+        detail: `${candidate.label} (${candidate.type})`,
+        insert: `{${candidate.id}}`,
+        replaceLength: fieldMatch[0].length,
+      }))
+  }
+
+  const functionMatch = /([A-Za-z_][A-Za-z0-9_]*)$/.exec(beforeCursor)
+  if (functionMatch) {
+    const query = functionMatch[1].toLowerCase()
+    return Object.entries(FORMULA_FUNCTIONS)
+      .filter(([name]) => name.startsWith(query) && name !== query)
+      .slice(0, 8)
+      .map(([name, definition]) => ({
+        label: definition.signature,
+        detail: definition.description,
+        insert: `${name}(`,
+        replaceLength: functionMatch[1].length,
+      }))
+  }
+
+  return []
+}
+
+export function FormulaEditor({ field, fields, onUpdate }: FormulaEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [cursor, setCursor] = useState(0)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [showSuggestions, setShowSuggestions] = useState(false)
+
+  const formula = field.formula || ""
+
+  const suggestions = useMemo(
+    () => (showSuggestions ? getSuggestions(formula, cursor, fields, field.id) : []),
+    [showSuggestions, formula, cursor, fields, field.id]
+  )
+
+  // Validate against the whole form so cycles through other calculated fields show up
+  const plan = useMemo(() => buildCalculationPlan(fields), [fields])
+  const diagnostics = plan.diagnostics.filter(
+    (diagnostic) =>
+      diagnostic.field_id === field.id || plan.cycles.some((cycle) => cycle.includes(field.id))
+  )
+  const dependencies = plan.dependencies[field.id] ?? []
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    const start = cursor - suggestion.replaceLength
+    const nextFormula = formula.slice(0, start) + suggestion.insert + formula.slice(cursor)
+    const nextCursor = start + suggestion.insert.length
+
+    onUpdate(field.id, { formula: nextFormula })
+    setShowSuggestions(false)
+    setCursor(nextCursor)
+
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(nextCursor, nextCursor)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault()
+      const step = e.key === "ArrowDown" ? 1 : -1
+      setActiveIndex((index) => (index + step + suggestions.length) % suggestions.length)
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault()
+      applySuggestion(suggestions[Math.min(activeIndex, suggestions.length - 1)])
+    } else if (e.key === "Escape") {
+      e.stopPropagation()
+      setShowSuggestions(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={`${field.id}-formula`} className="text-sm font-medium">
+        Formula
+      </Label>
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          id={`${field.id}-formula`}
+          value={formula}
+          onChange={(e) => {
+            onUpdate(field.id, { formula: e.target.value })
+            setCursor(e.target.selectionStart)
+            setActiveIndex(0)
+            setShowSuggestions(true)
+          }}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => setCursor(e.currentTarget.selectionStart)}
+          onBlur={() => setShowSuggestions(false)}
+          placeholder="e.g. round({price} * {quantity}, 2)"
+          className="text-sm font-mono min-h-[70px]"
+          aria-label="Formula for calculated field"
+          aria-autocomplete="list"
+          aria-expanded={suggestions.length > 0}
+          spellCheck={false}
+        />
+
+        {suggestions.length > 0 && (
+          <ul
+            role="listbox"
+            className="absolute z-20 left-0 right-0 mt-1 max-h-56 overflow-auto rounded-md border bg-popover shadow-md text-sm"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.label}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={`px-3 py-2 cursor-pointer ${index === activeIndex ? "bg-accent" : ""}`}
+                // Keep focus in the textarea while picking a suggestion
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  applySuggestion(suggestion)
+                }}
+              >
+                <span className="font-mono">{suggestion.label}</span>
+                <span className="ml-2 text-xs text-muted-foreground">{suggestion.detail}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {diagnostics.length > 0 ? (
+        <div className="space-y-1">
+          {diagnostics.map((diagnostic, index) => (
+            <p key={index} className="flex items-center gap-1 text-xs text-red-600">
+              <AlertCircle className="w-3 h-3 flex-shrink-0" />
+              {diagnostic.message}
+            </p>
+          ))}
+        </div>
+      ) : (
+        <p className="flex items-center gap-1 text-xs text-green-700">
+          <CheckCircle2 className="w-3 h-3 flex-shrink-0" />
+          {dependencies.length > 0
+            ? `Uses ${dependencies.map((id) => `{${id}}`).join(", ")}`
+            : "Formula is valid"}
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Type <code>{"{"}</code> to insert a field. Supports + - * / ^, &amp; for text, comparisons
+        and functions such as sum, avg, round, concat, if, today and datediff.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,236 @@
+/**
+ * Group Fields Editor
+ * Child fields and repetition settings for repeating group fields
+ */
+
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Plus, Trash2 } from "lucide-react"
+import { FieldOptionsEditor } from "./FieldOptionsEditor"
+import { getFieldConfig } from "@/lib/form-builder/field-configs"
+import { generateFieldId } from "@/lib/security"
+import { GROUP_CHILD_FIELD_TYPES, MAX_GROUP_REPEATS } from "@/lib/repeating-groups"
+import type { FormField } from "@/lib/types"
+
+interface GroupFieldsEditorProps {
+  field: FormField
+  /** Other fields on the form; number fields can drive the row count */
+  fields: FormField[]
+  onUpdate: (id: string, updates: Partial<FormField>) => void
+}
+
+const NO_COUNT_FIELD = "__none__"
+
+export function GroupFieldsEditor({ field, fields, onUpdate }: GroupFieldsEditorProps) {
+  const children = field.fields || []
+  const countFieldCandidates = fields.filter(
+    (candidate) => candidate.id !== field.id && candidate.type === "number"
+  )
+
+  const updateChildren = (nextChildren: FormField[]) => {
+    onUpdate(field.id, { fields: nextChildren })
+  }
+
+  const updateChild = (childId: string, updates: Partial<FormField>) => {
+    updateChildren(
+      children.map((child) => (child.id === childId ? { ...child, ...updates } : child))
+    )
+  }
+
+  const changeChildType = (child: FormField, type: FormField["type"]) => {
+    const supportsOptions = getFieldConfig(type).supportsOptions
+    updateChild(child.id, {
+      type,
+      options: supportsOptions
+        ? child.options?.length
+          ? child.options
+          : [
+              { label: "Option 1", value: "Option 1" },
+              { label: "Option 2", value: "Option 2" },
+            ]
+        : undefined,
+    })
+  }
+
+  const parseCount = (value: string) =>
+    value === "" ? undefined : Math.min(Math.max(Number.parseInt(value) || 0, 0), MAX_GROUP_REPEATS)
+
+  return (
+    <div className="space-y-4">
+      {/* Repetition */}
+      <div className="space-y-3">
+        <Label className="text-sm font-medium">Repetition</Label>
+        <div className="space-y-2">
+          <Label htmlFor={`${field.id}-count-field`} className="text-xs text-muted-foreground">
+            Number of entries
+          </Label>
+          <Select
+            value={field.repeatCountField || NO_COUNT_FIELD}
+            onValueChange={(value) =>
+              onUpdate(field.id, {
+                repeatCountField: value === NO_COUNT_FIELD ? undefined : value,
+              })
+            }
+          >
+            <SelectTrigger id={`${field.id}-count-field`} className="text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_COUNT_FIELD}>Chosen by the respondent</SelectItem>
+              {countFieldCandidates.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  From answer to “{candidate.label}”
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!field.repeatCountField && (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`${field.id}-repeatable`}
+              checked={!!field.repeatable}
+              onCheckedChange={(checked) => onUpdate(field.id, { repeatable: !!checked })}
+            />
+            <Label htmlFor={`${field.id}-repeatable`} className="text-sm cursor-pointer">
+              Allow adding more entries
+            </Label>
+          </div>
+        )}
+
+        {(field.repeatable || field.repeatCountField) && (
+          <div className="grid grid-cols-2 gap-3">
+            {!field.repeatCountField && (
+              <div className="space-y-2">
+                <Label htmlFor={`${field.id}-min-repeats`} className="text-xs">
+                  Minimum entries
+                </Label>
+                <Input
+                  id={`${field.id}-min-repeats`}
+                  type="number"
+                  min="0"
+                  value={field.minRepeats ?? ""}
+                  onChange={(e) => onUpdate(field.id, { minRepeats: parseCount(e.target.value) })}
+                  placeholder={field.required ? "1" : "0"}
+                  className="text-sm"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor={`${field.id}-max-repeats`} className="text-xs">
+                Maximum entries
+              </Label>
+              <Input
+                id={`${field.id}-max-repeats`}
+                type="number"
+                min="1"
+                max={MAX_GROUP_REPEATS}
+                value={field.maxRepeats ?? ""}
+                onChange={(e) => onUpdate(field.id, { maxRepeats: parseCount(e.target.value) })}
+                placeholder={String(MAX_GROUP_REPEATS)}
+                className="text-sm"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Child fields */}
+      <div className="space-y-3">
+        <Label className="text-sm font-medium">Fields in each entry</Label>
+        {children.length === 0 && (
+          <p className="text-xs text-red-600">Add at least one field to this group</p>
+        )}
+        {children.map((child) => (
+          <div key={child.id} className="p-3 border border-border rounded-md space-y-3">
+            <div className="flex items-center gap-2">
+              <Input
+                value={child.label}
+                onChange={(e) => updateChild(child.id, { label: e.target.value })}
+                placeholder="Field label"
+                className="text-sm h-8"
+                aria-label="Child field label"
+              />
+              <Select
+                value={child.type}
+                onValueChange={(type) => changeChildType(child, type as FormField["type"])}
+              >
+                <SelectTrigger className="text-sm h-8 w-36" aria-label="Child field type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GROUP_CHILD_FIELD_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {getFieldConfig(type).label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 flex-shrink-0"
+                onClick={() => updateChildren(children.filter((c) => c.id !== child.id))}
+                aria-label={`Remove ${child.label}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`${field.id}-${child.id}-required`}
+                checked={child.required}
+                onCheckedChange={(checked) => updateChild(child.id, { required: !!checked })}
+              />
+              <Label
+                htmlFor={`${field.id}-${child.id}-required`}
+                className="text-xs cursor-pointer"
+              >
+                Required
+              </Label>
+              <code className="ml-auto text-xs text-muted-foreground">{child.id}</code>
+            </div>
+            {getFieldConfig(child.type).supportsOptions && (
+              <FieldOptionsEditor
+                field={child}
+                onUpdate={(childId, updates) => updateChild(childId, updates)}
+              />
+            )}
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            updateChildren([
+              ...children,
+              {
+                id: generateFieldId(),
+                type: "text",
+                label: `Field ${children.length + 1}`,
+                required: false,
+              },
+            ])
+          }
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add field to group
+        </Button>
+      </div>
+    </div>
+  )
+}
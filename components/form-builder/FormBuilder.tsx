@@ -19,6 +19,7 @@ import { formsAPI } from "@/lib/api"
 import { toast } from "@/hooks/use-toast"
 import { useRouter } from "next/navigation"
 import { sanitizeFormField } from "@/lib/security"
+import { formatRuleIssues, validateConditionalRules } from "@/lib/conditional-rules"
 import { useStore } from "@/lib/store"
 import { useKeyboardNavigation } from "@/hooks/form-builder/use-keyboard-navigation"
 import { useFocusManagement } from "@/hooks/form-builder/use-focus-management"
@@ -60,6 +61,8 @@ function FormBuilderInner() {
     description,
     fields,
     branding,
+    pages,
+    pageSettings,
     setBranding,
     showBrandingEditor,
     setShowBrandingEditor,
@@ -77,6 +80,7 @@ function FormBuilderInner() {
     undo,
     redo,
     markAsSaved,
+    conditionalRules,
   } = useFormBuilderContext()
 
   const router = useRouter()
@@ -107,6 +111,21 @@ function FormBuilderInner() {
         return
       }
 
+      // Rules pointing at deleted fields would silently stop working once live
+      if (publish) {
+        const ruleIssues = validateConditionalRules(conditionalRules, fields).filter(
+          (issue) => issue.severity === "error"
+        )
+        if (ruleIssues.length > 0) {
+          toast({
+            title: "Fix Conditional Rules",
+            description: formatRuleIssues(ruleIssues),
+            variant: "destructive",
+          })
+          return
+        }
+      }
+
       // Check if form is locked by another user
       if (lockStatus?.is_locked && !lockStatus.can_edit) {
         toast({
@@ -122,6 +141,8 @@ function FormBuilderInner() {
       try {
         // Sanitize all fields before saving
         const sanitizedFields = fields.map((field) => sanitizeFormField(field))
+        // Single-page forms keep the flat schema
+        const pageSchema = pages.length > 1 ? { pages, settings: pageSettings } : {}
 
         if (formId && formId !== "new") {
           // Update existing form
@@ -131,6 +152,7 @@ function FormBuilderInner() {
             form_schema: {
               fields: sanitizedFields,
               branding: branding || {},
+              ...pageSchema,
             },
             status: publish ? ("active" as const) : ("draft" as const),
           }
@@ -145,6 +167,7 @@ function FormBuilderInner() {
             form_schema: {
               fields: sanitizedFields,
               branding: branding || {},
+              ...pageSchema,
             },
             version: 1,
             status: publish ? ("active" as const) : ("draft" as const),
@@ -177,7 +200,19 @@ function FormBuilderInner() {
         setIsSaving(false)
       }
     },
-    [title, description, fields, branding, formId, lockStatus, router, currentUser]
+    [
+      title,
+      description,
+      fields,
+      branding,
+      pages,
+      pageSettings,
+      formId,
+      lockStatus,
+      router,
+      currentUser,
+      conditionalRules,
+    ]
   )
 
   // Store handleSave in ref for keyboard navigation
@@ -5,6 +5,7 @@
 
 "use client"
 
+import { Fragment } from "react"
 import { Reorder } from "framer-motion"
 import { Card } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -12,6 +13,7 @@ import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { useFormBuilderContext } from "./FormBuilderProvider"
 import { FieldEditorContainer } from "./FieldEditor/FieldEditorContainer"
+import { InsertPageBreakButton, PageBreakHeader, PageSettingsPanel } from "./PageBreakEditor"
 import { FileQuestion, Eye, Layout } from "lucide-react"
 import { FormRenderer } from "@/components/form-renderer"
 
@@ -25,8 +27,15 @@ export function FormBuilderCanvas() {
     reorderFields,
     showPreview,
     branding,
+    pages,
+    pageSettings,
   } = useFormBuilderContext()
 
+  // Page headers render above the field each page starts at
+  const pageStarts = new Map(
+    pages.map((page, index) => [page.fields[0], { page, pageNumber: index + 1 }])
+  )
+
   // Preview Mode
   if (showPreview) {
     return (
@@ -51,6 +60,11 @@ export function FormBuilderCanvas() {
             <div className="px-3 py-1 bg-background rounded-md border border-border">
               {fields.filter((f) => f.required).length} required
             </div>
+            {pages.length > 1 && (
+              <div className="px-3 py-1 bg-background rounded-md border border-border">
+                {pages.length} pages
+              </div>
+            )}
           </div>
         </Card>
 
@@ -62,6 +76,8 @@ export function FormBuilderCanvas() {
             description={description}
             fields={fields}
             branding={branding}
+            pages={pages}
+            pageSettings={pageSettings}
             onSubmit={async (data) => {
               console.log("Preview submission:", data)
               alert("This is a preview. Form submissions are disabled in preview mode.")
@@ -143,7 +159,8 @@ export function FormBuilderCanvas() {
             <div>
               <h3 className="text-lg font-semibold">Form Fields</h3>
               <p className="text-sm text-muted-foreground">
-                Drag fields to reorder • Click to configure
+                Drag fields to reorder • Click to configure • Hover between fields to add a page
+                break
               </p>
             </div>
             <div className="text-sm text-muted-foreground">
@@ -151,11 +168,28 @@ export function FormBuilderCanvas() {
             </div>
           </div>
 
+          <PageSettingsPanel />
+
           {/* Reorderable Field List */}
           <Reorder.Group axis="y" values={fields} onReorder={reorderFields} className="space-y-3">
-            {fields.map((field, index) => (
-              <FieldEditorContainer key={field.id} field={field} index={index} />
-            ))}
+            {fields.map((field, index) => {
+              const pageStart = pageStarts.get(field.id)
+              return (
+                <Fragment key={field.id}>
+                  {pageStart ? (
+                    <PageBreakHeader
+                      page={pageStart.page}
+                      pageNumber={pageStart.pageNumber}
+                      pageCount={pages.length}
+                      precedingFields={fields.slice(0, index)}
+                    />
+                  ) : (
+                    index > 0 && <InsertPageBreakButton fieldId={field.id} />
+                  )}
+                  <FieldEditorContainer field={field} index={index} />
+                </Fragment>
+              )
+            })}
           </Reorder.Group>
         </div>
       ) : (
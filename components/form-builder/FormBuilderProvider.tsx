@@ -7,8 +7,15 @@
 
 import React, { createContext, useContext, type ReactNode } from "react"
 import type { FormField, FormBranding, Form } from "@/lib/types"
-import type { ConditionalRule, ValidationRule } from "@/lib/types-extended"
+import type {
+  ConditionalRule,
+  FormPage,
+  FormPageSettings,
+  ValidationRule,
+} from "@/lib/types-extended"
 import type { LockStatus } from "@/hooks/forms/use-form-locking"
+import type { CollabTransportStatus, CollaboratorPresence } from "@/lib/form-collaboration"
+import type { TimelineEntry } from "@/lib/form-history"
 import { useFormBuilder } from "@/hooks/form-builder/use-form-builder"
 
 interface FormBuilderContextValue {
@@ -17,6 +24,8 @@ interface FormBuilderContextValue {
   description: string
   fields: FormField[]
   branding: FormBranding
+  pages: FormPage[]
+  pageSettings: FormPageSettings
   selectedFieldId: string | null
   selectedField: FormField | null
 
@@ -25,6 +34,8 @@ interface FormBuilderContextValue {
   validationRules: ValidationRule[]
   lockStatus: LockStatus | null
   currentVersion: number
+  collaborators: CollaboratorPresence[]
+  collaborationStatus: CollabTransportStatus
 
   // UI state
   isSaving: boolean
@@ -43,6 +54,12 @@ interface FormBuilderContextValue {
   moveFieldDown: (id: string) => void
   setSelectedFieldId: (id: string | null) => void
 
+  // Page operations
+  addPageBreak: (fieldId: string) => void
+  removePageBreak: (pageId: string) => void
+  updatePage: (pageId: string, updates: Partial<Omit<FormPage, "id" | "fields" | "order">>) => void
+  updatePageSettings: (updates: Partial<FormPageSettings>) => void
+
   // Form operations
   setTitle: (title: string) => void
   setDescription: (description: string) => void
@@ -61,6 +78,8 @@ interface FormBuilderContextValue {
   canUndo: boolean
   canRedo: boolean
   clearHistory: () => void
+  historyTimeline: TimelineEntry[]
+  goToHistory: (nodeId: string | null) => void
 
   // Validation
   validateFieldIds: () => { isValid: boolean; duplicates: string[] }
@@ -79,6 +98,7 @@ interface FormBuilderProviderProps {
   initialForm?: Form
   onSave?: (formData: any) => Promise<void>
   autoLock?: boolean
+  collaborative?: boolean
   enableAutosave?: boolean
   autosaveInterval?: number
 }
@@ -88,6 +108,7 @@ export function FormBuilderProvider({
   initialForm,
   onSave,
   autoLock = true,
+  collaborative = true,
   enableAutosave = true,
   autosaveInterval = 30000,
 }: FormBuilderProviderProps) {
@@ -95,6 +116,7 @@ export function FormBuilderProvider({
     initialForm,
     onSave,
     autoLock,
+    collaborative,
     enableAutosave,
     autosaveInterval,
   })
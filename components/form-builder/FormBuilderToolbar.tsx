@@ -43,6 +43,8 @@ import {
 } from "@/components/ui/select"
 import { Checkbox } from "@/components/ui/checkbox"
 import { useFormBuilderContext } from "./FormBuilderProvider"
+import { CollaboratorAvatars } from "./CollaboratorPresence"
+import { HistoryTimeline } from "./HistoryTimeline"
 import { Badge } from "@/components/ui/badge"
 import { useSaveAsTemplate } from "@/hooks/use-templates"
 import { useState } from "react"
@@ -158,6 +160,8 @@ export function FormBuilderToolbar({ onSave, isSaving }: FormBuilderToolbarProps
 
           {/* Middle Section - Actions */}
           <div className="flex items-center gap-2">
+            <CollaboratorAvatars />
+
             {/* Undo/Redo */}
             <div className="flex items-center gap-1 border-r border-border pr-2">
               <Button
@@ -180,6 +184,16 @@ export function FormBuilderToolbar({ onSave, isSaving }: FormBuilderToolbarProps
               >
                 <Redo2 className="w-4 h-4" />
               </Button>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="ghost" size="sm" title="History" aria-label="Show history">
+                    <History className="w-4 h-4" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-96" align="start">
+                  <HistoryTimeline onSave={onSave} />
+                </PopoverContent>
+              </Popover>
             </div>
 
             {/* Branding Toggle */}
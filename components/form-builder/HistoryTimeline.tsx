@@ -0,0 +1,226 @@
+/**
+ * History Timeline
+ * Every recorded builder command, including abandoned redo branches.
+ * Any point can be jumped to or saved as a named form version. Versions are
+ * snapshots of the saved form, so saving an earlier point first saves the
+ * form as it was then, which the user confirms while naming the version.
+ */
+
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { AlertTriangle, GitBranch, HardDrive, Loader, Tag } from "lucide-react"
+import { useFormBuilderContext } from "./FormBuilderProvider"
+import { useCreateFormVersion } from "@/hooks/forms/use-form-versioning"
+import type { TimelineEntry } from "@/lib/form-history"
+
+interface HistoryTimelineProps {
+  onSave: (publish?: boolean) => Promise<void>
+}
+
+interface PendingPromotion {
+  nodeId: string
+  name: string
+  changelog: string
+}
+
+export function HistoryTimeline({ onSave }: HistoryTimelineProps) {
+  const { historyTimeline, goToHistory, formId } = useFormBuilderContext()
+  const isExistingForm = Boolean(formId && formId !== "new")
+  const createVersion = useCreateFormVersion(formId || "")
+
+  const [namingId, setNamingId] = useState<string | null>(null)
+  const [versionName, setVersionName] = useState("")
+  const [pending, setPending] = useState<PendingPromotion | null>(null)
+  const promoting = useRef(false)
+
+  // Save once the jump has rendered, so the form is saved at that point
+  useEffect(() => {
+    if (!pending || promoting.current || !formId) return
+    promoting.current = true
+
+    const promote = async () => {
+      try {
+        await onSave(false)
+        await createVersion.mutateAsync({
+          form_id: formId,
+          title: pending.name,
+          changelog: pending.changelog,
+        })
+      } catch {
+        // Errors are toasted by the save and mutation handlers
+      } finally {
+        promoting.current = false
+        setPending(null)
+      }
+    }
+
+    promote()
+  }, [pending, formId, onSave, createVersion])
+
+  const startNaming = (entry: TimelineEntry) => {
+    setNamingId(entry.node.id)
+    setVersionName("")
+  }
+
+  const confirmPromotion = (entry: TimelineEntry) => {
+    if (!versionName.trim()) return
+    goToHistory(entry.node.id)
+    setPending({
+      nodeId: entry.node.id,
+      name: versionName.trim(),
+      changelog: entry.node.command.description,
+    })
+    setNamingId(null)
+  }
+
+  const isAtStart = historyTimeline.every((entry) => !entry.isHead)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-sm">History</h4>
+        <span className="text-xs text-muted-foreground">
+          {historyTimeline.length} change{historyTimeline.length !== 1 ? "s" : ""}
+        </span>
+      </div>
+
+      {historyTimeline.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          Changes you make will appear here
+        </p>
+      ) : (
+        <ScrollArea className="h-80 pr-2">
+          <ol className="space-y-1" aria-label="Form history">
+            <li>
+              <button
+                type="button"
+                onClick={() => goToHistory(null)}
+                className={`w-full rounded px-2 py-1.5 text-left text-xs transition-colors hover:bg-muted ${
+                  isAtStart ? "bg-primary/10 font-medium" : "text-muted-foreground"
+                }`}
+              >
+                Start of history
+              </button>
+            </li>
+            {historyTimeline.map((entry) => (
+              <li key={entry.node.id} style={{ marginLeft: entry.depth * 16 }}>
+                <div
+                  className={`group flex items-start gap-2 rounded px-2 py-1.5 transition-colors hover:bg-muted ${
+                    entry.isHead ? "bg-primary/10" : ""
+                  }`}
+                >
+                  {entry.depth > 0 && !entry.isActive ? (
+                    <GitBranch className="w-3 h-3 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                  ) : (
+                    <span
+                      className={`mt-1 h-2 w-2 flex-shrink-0 rounded-full ${
+                        entry.isHead
+                          ? "bg-primary"
+                          : entry.isAhead
+                            ? "border border-muted-foreground"
+                            : "bg-muted-foreground"
+                      }`}
+                    />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => goToHistory(entry.node.id)}
+                    className="min-w-0 flex-1 text-left"
+                    aria-current={entry.isHead ? "step" : undefined}
+                    title="Jump to this point"
+                  >
+                    <p
+                      className={`truncate text-xs ${
+                        entry.isActive && !entry.isAhead ? "" : "text-muted-foreground"
+                      } ${entry.isHead ? "font-medium" : ""}`}
+                    >
+                      {entry.node.command.description}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground">
+                      {formatDistanceToNow(entry.node.command.timestamp, { addSuffix: true })}
+                      {!entry.isActive && " · abandoned branch"}
+                    </p>
+                  </button>
+                  {isExistingForm && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                      onClick={() => startNaming(entry)}
+                      disabled={Boolean(pending)}
+                      title="Save as version"
+                      aria-label={`Save "${entry.node.command.description}" as a version`}
+                    >
+                      {pending?.nodeId === entry.node.id ? (
+                        <Loader className="w-3 h-3 animate-spin" />
+                      ) : (
+                        <Tag className="w-3 h-3" />
+                      )}
+                    </Button>
+                  )}
+                </div>
+
+                {namingId === entry.node.id && (
+                  <form
+                    className="space-y-1 px-2 pb-2"
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      confirmPromotion(entry)
+                    }}
+                  >
+                    {!entry.isHead && (
+                      <p className="flex items-start gap-1 text-[10px] text-yellow-700">
+                        <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                        The live form will be saved as it was at this point, replacing its current
+                        fields. Later changes stay in this history.
+                      </p>
+                    )}
+                    <div className="flex items-center gap-1">
+                      <Input
+                        autoFocus
+                        value={versionName}
+                        onChange={(e) => setVersionName(e.target.value)}
+                        placeholder="Version name"
+                        className="h-7 text-xs"
+                        aria-label="Version name"
+                      />
+                      <Button
+                        type="submit"
+                        size="sm"
+                        className="h-7"
+                        disabled={!versionName.trim()}
+                      >
+                        {entry.isHead ? "Save" : "Replace and save"}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-7"
+                        onClick={() => setNamingId(null)}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                )}
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      )}
+
+      {historyTimeline.length > 0 && (
+        <p className="flex items-center gap-1 pt-1 text-[10px] text-muted-foreground">
+          <HardDrive className="w-3 h-3" />
+          History is saved on this device and kept across sessions
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,276 @@
+/**
+ * Page Break Editor
+ * Page headers, skip conditions and paging settings for multi-page forms
+ */
+
+"use client"
+
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { FileStack, Plus, Scissors, Trash2 } from "lucide-react"
+import { useFormBuilderContext } from "./FormBuilderProvider"
+import type { FormField } from "@/lib/types"
+import type { Condition, ConditionOperator, FormPage } from "@/lib/types-extended"
+
+const PAGE_CONDITION_OPERATORS: { value: ConditionOperator; label: string }[] = [
+  { value: "equals", label: "equals" },
+  { value: "not_equals", label: "does not equal" },
+  { value: "contains", label: "contains" },
+  { value: "greater_than", label: "is greater than" },
+  { value: "less_than", label: "is less than" },
+  { value: "is_empty", label: "is empty" },
+  { value: "is_not_empty", label: "is not empty" },
+]
+
+const VALUELESS_OPERATORS: ConditionOperator[] = ["is_empty", "is_not_empty"]
+
+interface PageBreakHeaderProps {
+  page: FormPage
+  pageNumber: number
+  pageCount: number
+  /** Fields on earlier pages; only these are answered when the page is reached */
+  precedingFields: FormField[]
+}
+
+export function PageBreakHeader({
+  page,
+  pageNumber,
+  pageCount,
+  precedingFields,
+}: PageBreakHeaderProps) {
+  const { updatePage, removePageBreak } = useFormBuilderContext()
+  const conditions = page.show_conditions ?? []
+
+  const updateConditions = (nextConditions: Condition[]) => {
+    updatePage(page.id, { show_conditions: nextConditions })
+  }
+
+  const updateCondition = (index: number, updates: Partial<Condition>) => {
+    updateConditions(
+      conditions.map((condition, i) => (i === index ? { ...condition, ...updates } : condition))
+    )
+  }
+
+  return (
+    <Card className="p-4 border-dashed border-primary/40 bg-primary/5 space-y-3">
+      <div className="flex items-center gap-2">
+        <FileStack className="w-4 h-4 text-primary flex-shrink-0" />
+        <span className="text-xs font-medium text-primary uppercase tracking-wide">
+          Page {pageNumber} of {pageCount}
+        </span>
+        {pageNumber > 1 && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-7 text-xs"
+            onClick={() => removePageBreak(page.id)}
+            aria-label={`Remove page break before page ${pageNumber}`}
+          >
+            <Trash2 className="w-3 h-3 mr-1" />
+            Remove break
+          </Button>
+        )}
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        <Input
+          value={page.title}
+          onChange={(e) => updatePage(page.id, { title: e.target.value })}
+          placeholder={`Page ${pageNumber} title`}
+          className="h-8 text-sm font-medium"
+          aria-label={`Page ${pageNumber} title`}
+        />
+        <Input
+          value={page.description || ""}
+          onChange={(e) => updatePage(page.id, { description: e.target.value })}
+          placeholder="Description (optional)"
+          className="h-8 text-sm"
+          aria-label={`Page ${pageNumber} description`}
+        />
+      </div>
+
+      {pageNumber > 1 && (
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">
+            {conditions.length > 0
+              ? "Show this page only when all of these are true:"
+              : "Always shown. Add a condition to skip this page based on earlier answers."}
+          </Label>
+          {conditions.map((condition, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <Select
+                value={condition.field_id}
+                onValueChange={(fieldId) =>
+                  updateCondition(index, {
+                    field_id: fieldId,
+                    field_name: precedingFields.find((field) => field.id === fieldId)?.label,
+                  })
+                }
+              >
+                <SelectTrigger className="h-8 w-44 text-xs">
+                  <SelectValue placeholder="Field" />
+                </SelectTrigger>
+                <SelectContent>
+                  {precedingFields.map((field) => (
+                    <SelectItem key={field.id} value={field.id}>
+                      {field.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={condition.operator}
+                onValueChange={(operator) =>
+                  updateCondition(index, { operator: operator as ConditionOperator })
+                }
+              >
+                <SelectTrigger className="h-8 w-36 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAGE_CONDITION_OPERATORS.map((operator) => (
+                    <SelectItem key={operator.value} value={operator.value}>
+                      {operator.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!VALUELESS_OPERATORS.includes(condition.operator) && (
+                <Input
+                  value={condition.value ?? ""}
+                  onChange={(e) => updateCondition(index, { value: e.target.value })}
+                  placeholder="Value"
+                  className="h-8 w-36 text-xs"
+                  aria-label="Condition value"
+                />
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => updateConditions(conditions.filter((_, i) => i !== index))}
+                aria-label="Remove condition"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={precedingFields.length === 0}
+            onClick={() =>
+              updateConditions([
+                ...conditions,
+                {
+                  field_id: precedingFields[0].id,
+                  field_name: precedingFields[0].label,
+                  operator: "equals",
+                  value: "",
+                  value_type: "static",
+                },
+              ])
+            }
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add condition
+          </Button>
+        </div>
+      )}
+    </Card>
+  )
+}
+
+interface InsertPageBreakButtonProps {
+  fieldId: string
+}
+
+/**
+ * Divider between fields that starts a new page at `fieldId`
+ */
+export function InsertPageBreakButton({ fieldId }: InsertPageBreakButtonProps) {
+  const { addPageBreak } = useFormBuilderContext()
+
+  return (
+    <div className="flex justify-center opacity-0 hover:opacity-100 focus-within:opacity-100 transition-opacity">
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="h-6 text-xs text-muted-foreground"
+        onClick={() => addPageBreak(fieldId)}
+      >
+        <Scissors className="w-3 h-3 mr-1" />
+        Insert page break
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Paging behaviour for the whole form
+ */
+export function PageSettingsPanel() {
+  const { pages, pageSettings, updatePageSettings } = useFormBuilderContext()
+
+  if (pages.length < 2) return null
+
+  const settings: { key: keyof typeof pageSettings; label: string; description: string }[] = [
+    {
+      key: "show_progress_bar",
+      label: "Progress bar",
+      description: "Show which page the respondent is on",
+    },
+    {
+      key: "allow_page_navigation",
+      label: "Back navigation",
+      description: "Let respondents return to earlier pages",
+    },
+    {
+      key: "save_on_page_change",
+      label: "Save draft on page change",
+      description: "Keep answers on the device between pages",
+    },
+  ]
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <FileStack className="w-4 h-4 text-muted-foreground" />
+        <h4 className="text-sm font-semibold">Pages</h4>
+        <span className="text-xs text-muted-foreground">{pages.length} pages</span>
+      </div>
+      <div className="grid gap-3 sm:grid-cols-3">
+        {settings.map((setting) => (
+          <div key={setting.key} className="flex items-start gap-2">
+            <Switch
+              id={`page-setting-${setting.key}`}
+              checked={pageSettings[setting.key]}
+              onCheckedChange={(checked) => updatePageSettings({ [setting.key]: checked })}
+            />
+            <div>
+              <Label htmlFor={`page-setting-${setting.key}`} className="text-xs font-medium">
+                {setting.label}
+              </Label>
+              <p className="text-xs text-muted-foreground">{setting.description}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  )
+}
@@ -6,9 +6,12 @@
 export { FormBuilder } from "./FormBuilder"
 export { FormBuilderProvider, useFormBuilderContext } from "./FormBuilderProvider"
 export { FormBuilderToolbar } from "./FormBuilderToolbar"
+export { CollaboratorAvatars, FieldPresenceTags } from "./CollaboratorPresence"
+export { HistoryTimeline } from "./HistoryTimeline"
 export { FormBuilderCanvas } from "./FormBuilderCanvas"
 export { FieldPaletteContainer } from "./FieldPalette/FieldPaletteContainer"
 export { FieldTypeCard } from "./FieldPalette/FieldTypeCard"
+export { PageBreakHeader, InsertPageBreakButton, PageSettingsPanel } from "./PageBreakEditor"
 export { FieldEditorContainer } from "./FieldEditor/FieldEditorContainer"
 export { FieldConfigPanel } from "./FieldEditor/FieldConfigPanel"
 export { FieldOptionsEditor } from "./FieldEditor/FieldOptionsEditor"
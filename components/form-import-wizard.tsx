@@ -0,0 +1,327 @@
+"use client"
+
+/**
+ * Form Import Wizard
+ * Uploads an XLSForm workbook, Google Forms export or CSV of field
+ * definitions, previews the converted form with everything that couldn't be
+ * converted, then creates the form together with its rules
+ */
+
+import { useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { formsAPI } from "@/lib/api"
+import { toast } from "@/hooks/use-toast"
+import { useStore } from "@/lib/store"
+import { readXlsx } from "@/lib/xlsx"
+import {
+  importCsvFields,
+  importFormDefinition,
+  importGoogleForm,
+  importXLSForm,
+  isFormDefinitionDocument,
+  isGoogleFormExport,
+  toCreateFormInput,
+  type FormImportResult,
+  type ImportIssue,
+} from "@/lib/form-import"
+import { AlertTriangle, ArrowLeft, FileUp, Info, Loader, XCircle } from "lucide-react"
+
+const sourceLabels: Record<FormImportResult["source"], string> = {
+  xlsform: "XLSForm",
+  google_forms: "Google Forms",
+  csv: "CSV field definitions",
+  form_definition: "Form definition",
+}
+
+const severityIcons: Record<ImportIssue["severity"], typeof Info> = {
+  error: XCircle,
+  warning: AlertTriangle,
+  info: Info,
+}
+
+async function parseImportFile(file: File): Promise<FormImportResult> {
+  const name = file.name.replace(/\.[^.]+$/, "")
+  const extension = file.name.split(".").pop()?.toLowerCase()
+
+  if (extension === "xlsx") {
+    return importXLSForm(await readXlsx(await file.arrayBuffer()), name)
+  }
+  if (extension === "csv") {
+    return importCsvFields(await file.text(), name)
+  }
+  if (extension === "json") {
+    const json = JSON.parse(await file.text())
+    if (isFormDefinitionDocument(json)) return importFormDefinition(json)
+    if (!isGoogleFormExport(json)) {
+      throw new Error("This JSON file is not a Google Forms export or form definition")
+    }
+    return importGoogleForm(json)
+  }
+  throw new Error("Choose an .xlsx XLSForm, a Google Forms .json export or a .csv file")
+}
+
+export function FormImportWizard() {
+  const router = useRouter()
+  const currentUser = useStore((state) => state.user)
+
+  const [fileName, setFileName] = useState("")
+  const [result, setResult] = useState<FormImportResult | null>(null)
+  const [title, setTitle] = useState("")
+  const [isParsing, setIsParsing] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [parseError, setParseError] = useState<string | null>(null)
+
+  const errorCount = useMemo(
+    () => result?.issues.filter((issue) => issue.severity === "error").length ?? 0,
+    [result]
+  )
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setParseError(null)
+    setIsParsing(true)
+
+    try {
+      const imported = await parseImportFile(file)
+      setResult(imported)
+      setTitle(imported.title)
+    } catch (error: any) {
+      setResult(null)
+      setParseError(error.message || "The file could not be read")
+    } finally {
+      setIsParsing(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    if (!result || !title.trim()) return
+    setIsCreating(true)
+
+    try {
+      const response = await formsAPI.create(
+        toCreateFormInput({ ...result, title: title.trim() }, currentUser?.organization_id || "")
+      )
+      const form = response.data.data
+
+      // Rules need the new form's ID, so they're created afterwards
+      const ruleResults = await Promise.allSettled([
+        ...result.conditionalRules.map((rule) =>
+          formsAPI.createConditionalRule(form.id, { ...rule, form_id: form.id })
+        ),
+        ...result.validationRules.map((rule) =>
+          formsAPI.createValidationRule(form.id, { ...rule, form_id: form.id, enabled: true })
+        ),
+      ])
+      const failedRules = ruleResults.filter((outcome) => outcome.status === "rejected").length
+
+      toast({
+        title: "Form Imported",
+        description: failedRules
+          ? `${failedRules} rule${failedRules !== 1 ? "s" : ""} could not be created; add them in the builder`
+          : "Review the imported form before publishing",
+        variant: failedRules ? "destructive" : undefined,
+      })
+      router.push(`/forms/${form.id}/edit`)
+    } catch (error: any) {
+      console.error("Failed to import form:", error)
+      toast({
+        title: "Import Failed",
+        description: error.response?.data?.detail || "Failed to create the form. Please try again.",
+        variant: "destructive",
+      })
+      setIsCreating(false)
+    }
+  }
+
+  const reset = () => {
+    setResult(null)
+    setFileName("")
+    setParseError(null)
+  }
+
+  if (!result) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Import a form</CardTitle>
+          <CardDescription>
+            Upload an XLSForm workbook (.xlsx), a Google Forms or form definition export (.json) or
+            a CSV of field definitions using XLSForm&apos;s survey columns (type, name, label,
+            required, relevant, constraint, choices)
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <label
+            htmlFor="form-import-file"
+            className="flex cursor-pointer flex-col items-center gap-2 rounded-lg border-2 border-dashed p-8 text-center transition-colors hover:bg-muted/50"
+          >
+            {isParsing ? (
+              <Loader className="w-8 h-8 animate-spin text-muted-foreground" />
+            ) : (
+              <FileUp className="w-8 h-8 text-muted-foreground" />
+            )}
+            <span className="text-sm font-medium">
+              {isParsing ? `Reading ${fileName}…` : "Choose a file to import"}
+            </span>
+            <input
+              id="form-import-file"
+              type="file"
+              accept=".xlsx,.json,.csv"
+              className="sr-only"
+              disabled={isParsing}
+              onChange={(e) => {
+                handleFile(e.target.files?.[0])
+                e.target.value = ""
+              }}
+            />
+          </label>
+
+          {parseError && (
+            <Alert variant="destructive">
+              <XCircle className="h-4 w-4" />
+              <AlertTitle>Could not import {fileName}</AlertTitle>
+              <AlertDescription>{parseError}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Review import</CardTitle>
+            <CardDescription>
+              {fileName} · {sourceLabels[result.source]}
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={reset} disabled={isCreating}>
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Choose another file
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="form-import-title">Form title</Label>
+          <Input
+            id="form-import-title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            disabled={isCreating}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="secondary">
+            {result.fields.length} field{result.fields.length !== 1 ? "s" : ""}
+          </Badge>
+          {result.pages.length > 1 && (
+            <Badge variant="secondary">{result.pages.length} pages</Badge>
+          )}
+          <Badge variant="secondary">
+            {result.conditionalRules.length} conditional rule
+            {result.conditionalRules.length !== 1 ? "s" : ""}
+          </Badge>
+          <Badge variant="secondary">
+            {result.validationRules.length} validation rule
+            {result.validationRules.length !== 1 ? "s" : ""}
+          </Badge>
+        </div>
+
+        {result.issues.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">
+              Not converted ({result.issues.length})
+              {errorCount > 0 && (
+                <span className="ml-2 text-destructive">
+                  {errorCount} error{errorCount !== 1 ? "s" : ""}
+                </span>
+              )}
+            </h3>
+            <ScrollArea className="max-h-64 rounded border">
+              <ul className="divide-y text-sm" aria-label="Import issues">
+                {result.issues.map((issue, index) => {
+                  const Icon = severityIcons[issue.severity]
+                  return (
+                    <li key={index} className="flex items-start gap-2 px-3 py-2">
+                      <Icon
+                        className={`w-4 h-4 mt-0.5 flex-shrink-0 ${
+                          issue.severity === "error"
+                            ? "text-destructive"
+                            : issue.severity === "warning"
+                              ? "text-amber-500"
+                              : "text-muted-foreground"
+                        }`}
+                      />
+                      <div>
+                        <p>{issue.message}</p>
+                        <p className="text-xs text-muted-foreground">{issue.location}</p>
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            </ScrollArea>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Fields</h3>
+          <ScrollArea className="max-h-80 rounded border">
+            <ul className="divide-y text-sm">
+              {result.fields.map((field) => (
+                <li key={field.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="truncate">
+                      {field.label}
+                      {field.required && <span className="text-destructive"> *</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {field.id}
+                      {field.options?.length ? ` · ${field.options.length} options` : ""}
+                      {field.fields?.length ? ` · ${field.fields.length} fields per entry` : ""}
+                    </p>
+                  </div>
+                  <Badge variant="outline">{field.repeatable ? "repeat group" : field.type}</Badge>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        </div>
+
+        {errorCount > 0 && (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertTitle>Fix the errors above before importing</AlertTitle>
+            <AlertDescription>
+              Update the source file and choose it again; warnings can be fixed in the builder after
+              import.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleCreate}
+            disabled={isCreating || errorCount > 0 || result.fields.length === 0 || !title.trim()}
+          >
+            {isCreating && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+            Create draft form
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
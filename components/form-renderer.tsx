@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState, useEffect, useCallback, useMemo } from "react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -13,10 +13,27 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { MediaUploader } from "@/components/media-uploader"
 import { GPSCapture } from "@/components/gps-capture"
 import type { FormField, GPSCoordinates, FormResponseData } from "@/lib/types"
-import { Loader, Save, Clock } from "lucide-react"
+import { Loader, Save, Clock, Info, AlertTriangle, ChevronLeft, ChevronRight } from "lucide-react"
 import { z } from "zod"
 import { toast } from "@/hooks/use-toast"
 import { useAutosave, useDraft } from "@/hooks/use-autosave"
+import {
+  useConditionalLogicEvaluation,
+  type ConditionalRule,
+} from "@/hooks/forms/use-conditional-logic"
+import { applyFieldLogic, type LogicMessage } from "@/lib/conditional-logic"
+import { buildCalculationPlan, evaluateCalculatedFields, formatFormulaValue } from "@/lib/formula"
+import {
+  DEFAULT_PAGE_SETTINGS,
+  findVisiblePageIndex,
+  getSkippedFieldIds,
+  getVisiblePages,
+  resolveFormPages,
+} from "@/lib/form-pages"
+import { saveDraft, loadDraft, clearDraft as clearPageDraft } from "@/lib/public-form-utils"
+import { normalizeGroupValues, validateGroupRows } from "@/lib/repeating-groups"
+import { RepeatingGroupField } from "@/components/repeating-group-field"
+import type { FormPage, FormPageSettings } from "@/lib/types-extended"
 
 interface FormRendererProps {
   formId: string
@@ -33,6 +50,22 @@ interface FormRendererProps {
   onSubmit: (data: FormResponseData, attachments: Record<string, string>) => Promise<void>
   isSubmitting?: boolean
   isPublic?: boolean
+  /** Keep selected files on the device instead of uploading them immediately */
+  isOffline?: boolean
+  onPendingFilesChange?: (pendingFiles: Record<string, File>) => void
+  /** Conditional rules evaluated live against the response */
+  rules?: ConditionalRule[]
+  /** Page breaks; with more than one page the form is filled in page by page */
+  pages?: FormPage[]
+  pageSettings?: Partial<FormPageSettings>
+  /** Answers to start from, e.g. when amending a returned response */
+  initialData?: FormResponseData
+  initialAttachments?: Record<string, string>
+  /** Autosave key; defaults to one draft per form */
+  draftKey?: string
+  submitLabel?: string
+  /** Try the form out without saving drafts or announcing submission */
+  preview?: boolean
 }
 
 export function FormRenderer({
@@ -44,13 +77,30 @@ export function FormRenderer({
   onSubmit,
   isSubmitting = false,
   isPublic = false,
+  isOffline = false,
+  onPendingFilesChange,
+  rules,
+  pages,
+  pageSettings,
+  initialData,
+  initialAttachments,
+  draftKey,
+  submitLabel = "Submit Response",
+  preview = false,
 }: FormRendererProps) {
-  const [formData, setFormData] = useState<FormResponseData>({})
-  const [attachments, setAttachments] = useState<Record<string, string>>({})
+  const [formData, setFormData] = useState<FormResponseData>(initialData ?? {})
+  const [attachments, setAttachments] = useState<Record<string, string>>(initialAttachments ?? {})
+  const [pendingFiles, setPendingFiles] = useState<Record<string, File>>({})
   const [errors, setErrors] = useState<Record<string, string>>({})
+  const [currentPageId, setCurrentPageId] = useState<string | null>(null)
+
+  const formPages = useMemo(() => resolveFormPages(fields, pages), [fields, pages])
+  const isPaged = formPages.length > 1
+  const settings = { ...DEFAULT_PAGE_SETTINGS, ...pageSettings }
 
   // Autosave setup for form responses
-  const responseKey = `form-response-${formId}`
+  const responseKey = draftKey ?? `form-response-${formId}`
+  const keepsDrafts = !isPublic && !preview
 
   // Check for existing draft response
   const draftResponse = useDraft<{
@@ -60,7 +110,7 @@ export function FormRenderer({
 
   // Load draft response on mount
   useEffect(() => {
-    if (draftResponse && !isPublic) {
+    if (draftResponse && keepsDrafts) {
       setFormData(draftResponse.formData)
       setAttachments(draftResponse.attachments)
       toast({
@@ -68,7 +118,20 @@ export function FormRenderer({
         description: "Your previous response has been restored",
       })
     }
-  }, [draftResponse, isPublic])
+  }, [draftResponse, keepsDrafts])
+
+  // Restore answers saved on an earlier page change, once per form
+  const restoresPageDraft =
+    isPaged && settings.save_on_page_change && !preview && !draftResponse && !initialData
+  const restoredPageDraftFor = useRef<string | null>(null)
+  useEffect(() => {
+    if (!restoresPageDraft || restoredPageDraftFor.current === formId) return
+    restoredPageDraftFor.current = formId
+    const pageDraft = loadDraft(formId)
+    if (pageDraft) {
+      setFormData(pageDraft)
+    }
+  }, [formId, restoresPageDraft])
 
   // Current response data for autosave
   const currentResponseData = { formData, attachments }
@@ -84,9 +147,67 @@ export function FormRenderer({
     data: currentResponseData,
     key: responseKey,
     interval: 60000, // 60 seconds (1 minute) for responses
-    enabled: !isPublic && Object.keys(formData).length > 0, // Only autosave if not public and there's data
+    enabled: keepsDrafts && Object.keys(formData).length > 0, // Only autosave if not public and there's data
   })
 
+  // Calculated fields are recomputed from the other answers on every change, and
+  // repeating groups are resized to their row bounds
+  const calculationPlan = useMemo(() => buildCalculationPlan(fields), [fields])
+  const calculatedData = useMemo(
+    () =>
+      normalizeGroupValues(fields, {
+        ...formData,
+        ...evaluateCalculatedFields(fields, formData, calculationPlan),
+      }),
+    [fields, formData, calculationPlan]
+  )
+
+  // Conditional logic: hidden fields are skipped, set/calculated values override input
+  const logic = useConditionalLogicEvaluation(rules, fields, calculatedData)
+  const logicData = useMemo(
+    () => ({ ...calculatedData, ...logic.calculated_values }),
+    [calculatedData, logic]
+  )
+
+  // Page skip logic: fields on skipped pages are treated like hidden fields, and pages
+  // whose fields are all hidden by rules are skipped too
+  const visiblePages = useMemo(
+    () =>
+      getVisiblePages(formPages, logicData).filter((page) =>
+        page.fields.some((field) => logic.fields[field.id]?.visible !== false)
+      ),
+    [formPages, logicData, logic]
+  )
+  const skippedFieldIds = useMemo(
+    () => getSkippedFieldIds(formPages, logicData),
+    [formPages, logicData]
+  )
+  const pageIndex = findVisiblePageIndex(formPages, visiblePages, currentPageId)
+  const currentPage = visiblePages[pageIndex]
+  const isLastPage = pageIndex >= visiblePages.length - 1
+
+  const activeFields = useMemo(
+    () =>
+      fields
+        .filter(
+          (field) => logic.fields[field.id]?.visible !== false && !skippedFieldIds.has(field.id)
+        )
+        .map((field) => applyFieldLogic(field, logic.fields[field.id])),
+    [fields, logic, skippedFieldIds]
+  )
+  const responseData = useMemo(() => {
+    const hidden = new Set(logic.hidden_fields)
+    return Object.fromEntries(
+      Object.entries(logicData).filter(([id]) => !hidden.has(id) && !skippedFieldIds.has(id))
+    ) as FormResponseData
+  }, [logicData, logic, skippedFieldIds])
+  const pageFields = useMemo(() => {
+    if (!isPaged) return activeFields
+    const pageFieldIds = new Set(currentPage?.fields.map((field) => field.id))
+    return activeFields.filter((field) => pageFieldIds.has(field.id))
+  }, [isPaged, activeFields, currentPage])
+  const formMessages = logic.messages.filter((message) => !message.field_id)
+
   const handleFieldChange = useCallback(
     (fieldId: string, value: any) => {
       setFormData((prev) => ({ ...prev, [fieldId]: value }))
@@ -109,6 +230,28 @@ export function FormRenderer({
     [errors]
   )
 
+  const handleFileDeferred = useCallback(
+    (fieldId: string, file: File) => {
+      setPendingFiles((prev) => ({ ...prev, [fieldId]: file }))
+      if (errors[fieldId]) {
+        setErrors((prev) => ({ ...prev, [fieldId]: "" }))
+      }
+    },
+    [errors]
+  )
+
+  const handleFileCleared = useCallback((fieldId: string) => {
+    setPendingFiles((prev) => {
+      const next = { ...prev }
+      delete next[fieldId]
+      return next
+    })
+  }, [])
+
+  useEffect(() => {
+    onPendingFilesChange?.(pendingFiles)
+  }, [pendingFiles, onPendingFilesChange])
+
   /**
    * Create Zod schema for a field based on its configuration
    */
@@ -269,6 +412,16 @@ export function FormRenderer({
           .regex(/^#[0-9A-Fa-f]{6}$/, `${field.label} must be a valid color`)
         break
 
+      case "calculated":
+        // Computed from other fields, never entered by the user
+        schema = z.any()
+        break
+
+      case "group":
+        // Rows are checked child by child in validateField
+        schema = z.any()
+        break
+
       case "signature":
         schema = z
           .string({
@@ -292,7 +445,19 @@ export function FormRenderer({
 
   const validateField = useCallback(
     (field: FormField): string | null => {
-      const value = field.type === "file" ? attachments[field.id] : formData[field.id]
+      // Files kept on the device are uploaded when the submission is synced
+      if (field.type === "file" && pendingFiles[field.id]) return null
+
+      if (field.type === "group") {
+        return validateGroupRows(field, responseData, (child, childValue) => {
+          const result = createFieldSchema(child).safeParse(childValue)
+          return result.success
+            ? null
+            : result.error.errors[0]?.message || `${child.label} is invalid`
+        })
+      }
+
+      const value = field.type === "file" ? attachments[field.id] : responseData[field.id]
 
       try {
         const fieldSchema = createFieldSchema(field)
@@ -305,24 +470,76 @@ export function FormRenderer({
         return `${field.label} is invalid`
       }
     },
-    [attachments, formData, createFieldSchema]
+    [attachments, pendingFiles, responseData, createFieldSchema]
   )
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-
-    // Validate all fields
+  const collectErrors = (fieldsToValidate: FormField[]) => {
     const newErrors: Record<string, string> = {}
-    fields.forEach((field) => {
-      const error = validateField(field)
+    fieldsToValidate.forEach((field) => {
+      const error = validateField(field) || logic.errors[field.id]
       if (error) {
         newErrors[field.id] = error
       }
     })
+    return newErrors
+  }
+
+  const goToPage = (index: number) => {
+    const page = visiblePages[index]
+    if (!page) return
+
+    setCurrentPageId(page.id)
+    // Page drafts are per form; an amendment must not become the next response's draft
+    if (settings.save_on_page_change && !initialData && !preview) {
+      saveDraft(formId, formData)
+    }
+    window.scrollTo?.({ top: 0, behavior: "smooth" })
+  }
+
+  const handleNextPage = () => {
+    // Only the current page has to be valid before moving on
+    const pageErrors = collectErrors(pageFields)
+    if (Object.keys(pageErrors).length > 0) {
+      setErrors(pageErrors)
+      toast({
+        title: "Validation Error",
+        description: `Please fix ${Object.keys(pageErrors).length} error${Object.keys(pageErrors).length > 1 ? "s" : ""} on this page`,
+        variant: "destructive",
+      })
+      const firstErrorField = document.getElementById(`field-${Object.keys(pageErrors)[0]}`)
+      firstErrorField?.scrollIntoView?.({ behavior: "smooth", block: "center" })
+      return
+    }
+
+    setErrors({})
+    goToPage(pageIndex + 1)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (isPaged && !isLastPage) {
+      handleNextPage()
+      return
+    }
+
+    // Validate all fields
+    const newErrors = collectErrors(activeFields)
 
     if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors)
 
+      // Jump back to the page holding the first error
+      if (isPaged) {
+        const firstErrorId = Object.keys(newErrors)[0]
+        const errorPage = visiblePages.find((page) =>
+          page.fields.some((field) => field.id === firstErrorId)
+        )
+        if (errorPage && errorPage.id !== currentPage?.id) {
+          setCurrentPageId(errorPage.id)
+        }
+      }
+
       // Show toast notification for validation errors
       toast({
         title: "Validation Error",
@@ -337,7 +554,11 @@ export function FormRenderer({
     }
 
     try {
-      await onSubmit(formData, attachments)
+      await onSubmit(responseData, attachments)
+      if (preview) return
+      if (isPaged && settings.save_on_page_change && !initialData) {
+        clearPageDraft(formId)
+      }
       toast({
         title: "Success",
         description: "Form submitted successfully",
@@ -353,8 +574,11 @@ export function FormRenderer({
     }
   }
 
-  const renderField = (field: FormField) => {
-    const value = formData[field.id]
+  const renderField = (
+    field: FormField,
+    value: any = responseData[field.id],
+    onChange: (value: any) => void = (next) => handleFieldChange(field.id, next)
+  ): React.ReactNode => {
     const error = errors[field.id]
 
     switch (field.type) {
@@ -364,7 +588,7 @@ export function FormRenderer({
             id={field.id}
             type="text"
             value={value || ""}
-            onChange={(e) => handleFieldChange(field.id, e.target.value)}
+            onChange={(e) => onChange(e.target.value)}
             placeholder={field.placeholder}
             className={`w-full h-10 px-3 py-2 border border-gray-300 rounded-md focus:border-gray-500 focus:ring-1 focus:ring-gray-500 transition-colors bg-white ${error ? "border-red-300 focus:border-red-500 focus:ring-red-500" : ""}`}
           />
@@ -375,7 +599,7 @@ export function FormRenderer({
           <Textarea
             id={field.id}
             value={value || ""}
-            onChange={(e) => handleFieldChange(field.id, e.target.value)}
+            onChange={(e) => onChange(e.target.value)}
             placeholder={field.placeholder}
             rows={4}
             className={`w-full px-3 py-2 border border-gray-300 rounded-md focus:border-gray-500 focus:ring-1 focus:ring-gray-500 transition-colors bg-white resize-none ${error ? "border-red-300 focus:border-red-500 focus:ring-red-500" : ""}`}
@@ -388,7 +612,7 @@ export function FormRenderer({
             id={field.id}
             type="email"
             value={value || ""}
-            onChange={(e) => handleFieldChange(field.id, e.target.value)}
+            onChange={(e) => onChange(e.target.value)}
             placeholder={field.placeholder || "name@example.com"}
             className={`w-full h-10 px-3 py-2 border border-gray-300 rounded-md focus:border-gray-500 focus:ring-1 focus:ring-gray-500 transition-colors bg-white ${error ? "border-red-300 focus:border-red-500 focus:ring-red-500" : ""}`}
           />
@@ -400,9 +624,7 @@ export function FormRenderer({
             id={field.id}
             type="number"
             value={value || ""}
-            onChange={(e) =>
-              handleFieldChange(field.id, e.target.value ? parseFloat(e.target.value) : "")
-            }
+            onChange={(e) => onChange(e.target.value ? parseFloat(e.target.value) : "")}
             placeholder={field.placeholder}
             min={field.validation?.min}
             max={field.validation?.max}
@@ -416,7 +638,7 @@ export function FormRenderer({
             id={field.id}
             type="date"
             value={value || ""}
-            onChange={(e) => handleFieldChange(field.id, e.target.value)}
+            onChange={(e) => onChange(e.target.value)}
             className={`w-full h-10 px-3 py-2 border border-gray-300 rounded-md focus:border-gray-500 focus:ring-1 focus:ring-gray-500 transition-colors bg-white ${error ? "border-red-300 focus:border-red-500 focus:ring-red-500" : ""}`}
           />
         )
@@ -426,7 +648,7 @@ export function FormRenderer({
           <select
             id={field.id}
             value={value || ""}
-            onChange={(e) => handleFieldChange(field.id, e.target.value)}
+            onChange={(e) => onChange(e.target.value)}
             className={`w-full h-10 px-3 py-2 border border-gray-300 rounded-md focus:border-gray-500 focus:ring-1 focus:ring-gray-500 transition-colors bg-white ${error ? "border-red-300 focus:border-red-500 focus:ring-red-500" : ""}`}
           >
             <option value="">Select an option</option>
@@ -448,7 +670,7 @@ export function FormRenderer({
             <RadioGroup
               value={radioValue}
               onValueChange={(newValue) => {
-                handleFieldChange(field.id, newValue)
+                onChange(newValue)
               }}
               className="space-y-3"
             >
@@ -489,7 +711,7 @@ export function FormRenderer({
                         value={isRadioOtherSelected && value !== "other" ? value : ""}
                         onChange={(e) => {
                           const customValue = e.target.value.trim()
-                          handleFieldChange(field.id, customValue || "other")
+                          onChange(customValue || "other")
                         }}
                         className={`w-full h-10 px-3 py-2 border border-gray-300 rounded-md focus:border-gray-500 focus:ring-1 focus:ring-gray-500 transition-colors bg-white ${error ? "border-red-300 focus:border-red-500 focus:ring-red-500" : ""}`}
                       />
@@ -527,7 +749,7 @@ export function FormRenderer({
                     const newValues = checked
                       ? [...currentValues, opt.value]
                       : currentValues.filter((v: string) => v !== opt.value)
-                    handleFieldChange(field.id, newValues)
+                    onChange(newValues)
                   }}
                 />
                 <span className="text-sm font-medium text-gray-900">{opt.label}</span>
@@ -554,7 +776,7 @@ export function FormRenderer({
                         // Remove the custom value
                         newValues = currentValues.filter((v) => optionValues.includes(v))
                       }
-                      handleFieldChange(field.id, newValues)
+                      onChange(newValues)
                     }}
                   />
                   <span className="text-sm font-medium text-gray-900">Other (please specify)</span>
@@ -575,7 +797,7 @@ export function FormRenderer({
                         const newValues = e.target.value.trim()
                           ? [...filteredValues, e.target.value.trim()]
                           : filteredValues
-                        handleFieldChange(field.id, newValues)
+                        onChange(newValues)
                       }}
                       className={`w-full h-10 px-3 py-2 border border-gray-300 rounded-md focus:border-gray-500 focus:ring-1 focus:ring-gray-500 transition-colors bg-white ${error ? "border-red-300 focus:border-red-500 focus:ring-red-500" : ""}`}
                     />
@@ -590,7 +812,7 @@ export function FormRenderer({
         return (
           <GPSCapture
             value={value as GPSCoordinates}
-            onCapture={(coords) => handleFieldChange(field.id, coords)}
+            onCapture={(coords) => onChange(coords)}
             required={field.required}
           />
         )
@@ -621,6 +843,39 @@ export function FormRenderer({
             label={`Upload ${field.label}`}
             onUploadSuccess={(url) => handleFileUpload(field.id, url)}
             maxSize={5 * 1024 * 1024} // 5MB
+            deferUpload={isOffline}
+            onFileDeferred={(file) => handleFileDeferred(field.id, file)}
+            onFileCleared={() => handleFileCleared(field.id)}
+          />
+        )
+
+      case "calculated":
+        return (
+          <output
+            id={field.id}
+            aria-live="polite"
+            className="block w-full min-h-10 px-3 py-2 border border-dashed border-gray-300 rounded-md bg-gray-50 text-gray-900 font-medium"
+          >
+            {formatFormulaValue(value)}
+          </output>
+        )
+
+      case "group":
+        return (
+          <RepeatingGroupField
+            field={field}
+            value={value}
+            data={responseData}
+            onChange={onChange}
+            renderChild={(child, childValue, onChildChange) => (
+              <div className="space-y-2">
+                <Label htmlFor={child.id} className="block text-sm font-medium text-gray-900">
+                  {child.label}
+                  {child.required && <span className="text-red-500 ml-1">*</span>}
+                </Label>
+                {renderField(child, childValue, onChildChange)}
+              </div>
+            )}
           />
         )
 
@@ -629,6 +884,26 @@ export function FormRenderer({
     }
   }
 
+  const renderLogicMessage = (message: LogicMessage, index: number) => (
+    <div
+      key={`${message.rule_id}-${index}`}
+      className={`mt-4 p-3 rounded-md border flex items-start gap-2 text-sm ${
+        message.severity === "info"
+          ? "bg-blue-50 border-blue-200 text-blue-800"
+          : message.severity === "warning"
+            ? "bg-amber-50 border-amber-200 text-amber-800"
+            : "bg-red-50 border-red-200 text-red-700"
+      }`}
+    >
+      {message.severity === "info" ? (
+        <Info className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      ) : (
+        <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      )}
+      <span>{message.message}</span>
+    </div>
+  )
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-3xl mx-auto px-6 py-12">
@@ -659,9 +934,47 @@ export function FormRenderer({
         {/* Form Content */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
           <form onSubmit={handleSubmit} className="divide-y divide-gray-100" role="form">
-            {fields.map((field, index) => (
-              <div key={field.id} id={`field-${field.id}`} className="px-8 py-8">
+            {isPaged && currentPage && (
+              <div className="px-8 py-6">
                 <div className="max-w-2xl mx-auto">
+                  {settings.show_progress_bar && (
+                    <div className="mb-4" data-testid="page-progress">
+                      <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+                        <span>
+                          Page {pageIndex + 1} of {visiblePages.length}
+                        </span>
+                        <span>{Math.round(((pageIndex + 1) / visiblePages.length) * 100)}%</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-1.5">
+                        <div
+                          className="bg-gray-900 h-1.5 rounded-full transition-all duration-300"
+                          style={{ width: `${((pageIndex + 1) / visiblePages.length) * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {currentPage.title && (
+                    <h2 className="text-xl font-semibold text-gray-900">{currentPage.title}</h2>
+                  )}
+                  {currentPage.description && (
+                    <p className="text-gray-600 mt-1">{currentPage.description}</p>
+                  )}
+                </div>
+              </div>
+            )}
+            {formMessages.length > 0 && (
+              <div className="px-8 py-6 space-y-2">
+                {formMessages.map((message, index) => renderLogicMessage(message, index))}
+              </div>
+            )}
+            {pageFields.map((field, index) => (
+              <div key={field.id} id={`field-${field.id}`} className="px-8 py-8">
+                <fieldset
+                  className="max-w-2xl mx-auto disabled:opacity-60"
+                  disabled={
+                    logic.fields[field.id]?.enabled === false || field.id in logic.calculated_values
+                  }
+                >
                   <Label
                     htmlFor={field.id}
                     className="block text-lg font-medium text-gray-900 mb-3"
@@ -673,18 +986,21 @@ export function FormRenderer({
                     <p className="text-gray-600 mb-4 text-sm leading-relaxed">{field.helpText}</p>
                   )}
                   <div className="space-y-3">{renderField(field)}</div>
+                  {logic.messages
+                    .filter((message) => message.field_id === field.id)
+                    .map((message, messageIndex) => renderLogicMessage(message, messageIndex))}
                   {errors[field.id] && (
                     <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
                       <p className="text-sm text-red-700">{errors[field.id]}</p>
                     </div>
                   )}
-                </div>
+                </fieldset>
               </div>
             ))}
 
             {/* Footer Section */}
             {(branding?.footer_text ||
-              (!isPublic && (isDirty || isAutosaving || lastSaved || hasDraft))) && (
+              (keepsDrafts && (isDirty || isAutosaving || lastSaved || hasDraft))) && (
               <div className="px-8 py-6 bg-gray-50 border-t border-gray-200">
                 <div className="max-w-2xl mx-auto">
                   {branding?.footer_text && (
@@ -692,7 +1008,7 @@ export function FormRenderer({
                   )}
 
                   {/* Autosave Status for non-public forms */}
-                  {!isPublic && (isDirty || isAutosaving || lastSaved || hasDraft) && (
+                  {keepsDrafts && (isDirty || isAutosaving || lastSaved || hasDraft) && (
                     <div className="flex items-center justify-center gap-2 text-sm mb-4">
                       {isAutosaving ? (
                         <>
@@ -730,10 +1046,12 @@ export function FormRenderer({
                   <span className="text-lg font-medium text-gray-900">Form Progress</span>
                   <span className="text-gray-600 font-medium">
                     {(() => {
-                      const requiredFields = fields.filter((f) => f.required)
+                      const requiredFields = activeFields.filter((f) => f.required)
                       const filledRequiredFields = requiredFields.filter((field) => {
                         const value =
-                          field.type === "file" ? attachments[field.id] : formData[field.id]
+                          field.type === "file"
+                            ? attachments[field.id] || pendingFiles[field.id]?.name
+                            : responseData[field.id]
                         if (field.type === "checkbox") {
                           return Array.isArray(value) && value.length > 0
                         }
@@ -748,11 +1066,13 @@ export function FormRenderer({
                     className="bg-gray-600 h-2 rounded-full transition-all duration-500"
                     style={{
                       width: `${(() => {
-                        const requiredFields = fields.filter((f) => f.required)
+                        const requiredFields = activeFields.filter((f) => f.required)
                         if (requiredFields.length === 0) return 100
                         const filledRequiredFields = requiredFields.filter((field) => {
                           const value =
-                            field.type === "file" ? attachments[field.id] : formData[field.id]
+                            field.type === "file"
+                              ? attachments[field.id] || pendingFiles[field.id]?.name
+                              : responseData[field.id]
                           if (field.type === "checkbox") {
                             return Array.isArray(value) && value.length > 0
                           }
@@ -778,7 +1098,18 @@ export function FormRenderer({
                 )}
 
                 <div className="flex gap-4 justify-center">
-                  {!isPublic && hasDraft && (
+                  {isPaged && settings.allow_page_navigation && pageIndex > 0 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => goToPage(pageIndex - 1)}
+                      className="px-6 py-2 border-gray-300 text-gray-700 hover:bg-gray-50"
+                    >
+                      <ChevronLeft className="w-4 h-4 mr-1" />
+                      Back
+                    </Button>
+                  )}
+                  {keepsDrafts && hasDraft && (
                     <Button
                       type="button"
                       variant="outline"
@@ -798,8 +1129,13 @@ export function FormRenderer({
                         <Loader className="w-4 h-4 mr-2 animate-spin" />
                         Submitting...
                       </>
+                    ) : isPaged && !isLastPage ? (
+                      <>
+                        Next
+                        <ChevronRight className="w-4 h-4 ml-1" />
+                      </>
                     ) : (
-                      "Submit Response"
+                      submitLabel
                     )}
                   </Button>
                 </div>
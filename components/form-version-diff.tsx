@@ -0,0 +1,205 @@
+"use client"
+
+/**
+ * Form Version Diff Component
+ * Classifies changes between two form versions, estimates their impact on
+ * collected responses and previews both versions side by side
+ */
+
+import { useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { FormRenderer } from "@/components/form-renderer"
+import { useAllFormResponses } from "@/hooks/use-responses"
+import type { FormVersion } from "@/hooks/forms/use-form-versioning"
+import {
+  diffFormSchemas,
+  estimateResponseImpact,
+  type ChangeImpact,
+  type SchemaChange,
+} from "@/lib/form-schema-diff"
+import type { FormField, FormResponse } from "@/lib/types"
+import { AlertTriangle, CheckCircle2, Eye, GitCompare } from "lucide-react"
+
+interface FormVersionDiffProps {
+  formId: string
+  from: FormVersion
+  to: FormVersion
+}
+
+const kindLabels: Record<SchemaChange["kind"], string> = {
+  field_added: "Field added",
+  field_removed: "Field removed",
+  label_changed: "Label changed",
+  type_changed: "Type changed",
+  options_added: "Options added",
+  options_renamed: "Options renamed",
+  options_removed: "Options removed",
+  validation_tightened: "Validation tightened",
+  validation_loosened: "Validation loosened",
+  required_added: "Made required",
+  required_removed: "Made optional",
+}
+
+export function FormVersionDiff({ formId, from, to }: FormVersionDiffProps) {
+  const { data: responseSet, isLoading: responsesLoading } = useAllFormResponses(formId)
+  const responses = responseSet?.responses
+  // Paging stopped before the server's total, so the counts are a sample
+  const isSample = !!responseSet && responseSet.responses.length < responseSet.total
+
+  const fromFields = useMemo(() => (from.fields ?? []) as FormField[], [from.fields])
+  const toFields = useMemo(() => (to.fields ?? []) as FormField[], [to.fields])
+
+  const changes = useMemo(() => diffFormSchemas(fromFields, toFields), [fromFields, toFields])
+  const summary = useMemo(
+    () => estimateResponseImpact(changes, toFields, (responses ?? []) as FormResponse[]),
+    [changes, toFields, responses]
+  )
+  const impactById = useMemo(
+    () => new Map(summary.impacts.map((impact) => [impact.change.id, impact])),
+    [summary]
+  )
+
+  const breakingCount = changes.filter((change) => change.breaking).length
+
+  return (
+    <Tabs defaultValue="changes">
+      <TabsList>
+        <TabsTrigger value="changes" className="gap-2">
+          <GitCompare className="h-4 w-4" />
+          Changes ({changes.length})
+        </TabsTrigger>
+        <TabsTrigger value="preview" className="gap-2">
+          <Eye className="h-4 w-4" />
+          Side-by-side preview
+        </TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="changes" className="space-y-4">
+        {responsesLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : breakingCount > 0 ? (
+          <Alert variant={summary.affectedResponses > 0 ? "destructive" : "default"}>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>
+              {breakingCount} breaking {breakingCount === 1 ? "change" : "changes"}
+            </AlertTitle>
+            <AlertDescription>
+              {summary.affectedResponses.toLocaleString()} of{" "}
+              {summary.totalResponses.toLocaleString()} existing responses would become invalid or
+              orphaned moving from v{from.version} to v{to.version}.
+              {isSample && (
+                <>
+                  {" "}
+                  These counts are a sample: {responseSet.total.toLocaleString()} responses were
+                  collected, but only the first {summary.totalResponses.toLocaleString()} could be
+                  loaded.
+                </>
+              )}
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Alert>
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertTitle>No breaking changes</AlertTitle>
+            <AlertDescription>
+              Existing responses stay valid moving from v{from.version} to v{to.version}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {changes.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            The two versions have the same fields
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {changes.map((change) => (
+              <ChangeRow
+                key={change.id}
+                change={change}
+                impact={impactById.get(change.id)}
+                isEstimating={responsesLoading}
+              />
+            ))}
+          </div>
+        )}
+      </TabsContent>
+
+      <TabsContent value="preview">
+        <div className="grid gap-6 lg:grid-cols-2">
+          {[from, to].map((version) => (
+            <Card key={version.id}>
+              <CardHeader>
+                <CardTitle>v{version.version}</CardTitle>
+                <CardDescription>{version.title}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <FormRenderer
+                  // Separate ID so preview input never touches the real form's drafts
+                  formId={`${formId}-v${version.version}-preview`}
+                  formTitle={version.title}
+                  description={version.description}
+                  fields={(version.fields ?? []) as FormField[]}
+                  branding={version.branding}
+                  pages={version.schema?.pages}
+                  pageSettings={version.schema?.settings}
+                  onSubmit={async () => {}}
+                  preview
+                />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </TabsContent>
+    </Tabs>
+  )
+}
+
+function ChangeRow({
+  change,
+  impact,
+  isEstimating,
+}: {
+  change: SchemaChange
+  impact?: ChangeImpact
+  isEstimating: boolean
+}) {
+  return (
+    <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+      <div className="space-y-1 min-w-0">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium">{change.fieldLabel}</span>
+          <span className="text-xs font-mono text-muted-foreground">{change.fieldPath}</span>
+          <Badge variant={change.breaking ? "destructive" : "secondary"}>
+            {kindLabels[change.kind]}
+          </Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">{change.description}</p>
+        {impact && impact.sampleResponseIds.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            e.g.{" "}
+            <span className="font-mono">
+              {impact.sampleResponseIds.map((id) => id.slice(0, 8)).join(", ")}
+            </span>
+          </p>
+        )}
+      </div>
+      {change.breaking && (
+        <div className="text-right flex-shrink-0">
+          {isEstimating || !impact ? (
+            <Skeleton className="h-5 w-16" />
+          ) : (
+            <>
+              <p className="font-bold">{impact.affected.toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground">responses {impact.effect}</p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
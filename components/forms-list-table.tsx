@@ -7,8 +7,26 @@ import { useToast } from "@/hooks/use-toast"
 import { ColumnDef } from "@tanstack/react-table"
 import { Button } from "@/components/ui/button"
 import type { Form } from "@/lib/types"
-import { useForms, usePublishForm, useDeleteForm } from "@/hooks/use-forms"
-import { Edit, Eye, Send, Trash2, UserPlus, MoreHorizontal, Share2 } from "lucide-react"
+import {
+  useForms,
+  usePublishForm,
+  useDeleteForm,
+  useExportForm,
+  useExportFormDefinition,
+} from "@/hooks/use-forms"
+import {
+  Edit,
+  Eye,
+  Send,
+  Trash2,
+  UserPlus,
+  MoreHorizontal,
+  Share2,
+  Download,
+  FileSpreadsheet,
+  FileJson,
+  BookOpen,
+} from "lucide-react"
 import { DataTable, DataTableColumnHeader } from "@/components/data-table"
 import { Badge } from "@/components/ui/badge"
 import { motion, AnimatePresence } from "framer-motion"
@@ -39,6 +57,8 @@ export function FormsListTable() {
   const { data: forms = [], isLoading } = useForms()
   const publishForm = usePublishForm()
   const deleteForm = useDeleteForm()
+  const exportForm = useExportForm()
+  const exportDefinition = useExportFormDefinition()
   const { toast } = useToast()
   const router = useRouter()
   const { hasPermission } = usePermissions()
@@ -199,6 +219,35 @@ export function FormsListTable() {
                     </Link>
                   </DropdownMenuItem>
                 )}
+                {hasPermission("forms:read") && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => exportForm.mutate(form.id)}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Export
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() =>
+                        exportDefinition.mutate({ formId: form.id, format: "xlsform" })
+                      }
+                    >
+                      <FileSpreadsheet className="mr-2 h-4 w-4" />
+                      Export as XLSForm
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => exportDefinition.mutate({ formId: form.id, format: "json" })}
+                    >
+                      <FileJson className="mr-2 h-4 w-4" />
+                      Export as JSON Schema
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href={`/forms/${form.id}/codebook`}>
+                        <BookOpen className="mr-2 h-4 w-4" />
+                        Data Dictionary
+                      </Link>
+                    </DropdownMenuItem>
+                  </>
+                )}
                 <DropdownMenuSeparator />
                 {hasPermission("forms:delete") && (
                   <DropdownMenuItem
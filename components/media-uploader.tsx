@@ -6,7 +6,7 @@ import { useState, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import { Card } from "@/components/ui/card"
-import { Upload, X, CheckCircle } from "lucide-react"
+import { Upload, X, CheckCircle, CloudOff } from "lucide-react"
 import axios from "axios"
 import { filesAPI } from "@/lib/api"
 
@@ -15,6 +15,11 @@ interface MediaUploaderProps {
   accept?: string
   maxSize?: number
   label?: React.ReactNode
+  /** Keep the file on the device instead of uploading it (used while offline) */
+  deferUpload?: boolean
+  onFileDeferred?: (file: File) => void
+  /** The deferred file was removed before it could upload */
+  onFileCleared?: () => void
 }
 
 export function MediaUploader({
@@ -22,11 +27,15 @@ export function MediaUploader({
   accept = "image/*",
   maxSize = 10 * 1024 * 1024, // 10MB default
   label = "Upload Image",
+  deferUpload = false,
+  onFileDeferred,
+  onFileCleared,
 }: MediaUploaderProps) {
   const [isUploading, setIsUploading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState(0)
   const [error, setError] = useState<string | null>(null)
   const [uploadedUrl, setUploadedUrl] = useState<string | null>(null)
+  const [deferredFileName, setDeferredFileName] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -43,6 +52,16 @@ export function MediaUploader({
   }
 
   const uploadFile = async (file: File) => {
+    if (deferUpload) {
+      setError(null)
+      setDeferredFileName(file.name)
+      onFileDeferred?.(file)
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ""
+      }
+      return
+    }
+
     setError(null)
     setIsUploading(true)
     setUploadProgress(0)
@@ -121,7 +140,29 @@ export function MediaUploader({
 
   return (
     <div className="space-y-3">
-      {uploadedUrl ? (
+      {deferredFileName && !uploadedUrl ? (
+        <Card className="p-4 bg-amber-50 border-amber-200">
+          <div className="flex items-center gap-3">
+            <CloudOff className="w-5 h-5 text-amber-600" />
+            <div className="flex-1">
+              <p className="text-sm font-medium text-amber-900">Saved on this device</p>
+              <p className="text-xs text-amber-700 truncate">
+                {deferredFileName} will upload when you are back online
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setDeferredFileName(null)
+                onFileCleared?.()
+              }}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </Card>
+      ) : uploadedUrl ? (
         <Card className="p-4 bg-green-50 border-green-200">
           <div className="flex items-center gap-3">
             <CheckCircle className="w-5 h-5 text-green-600" />
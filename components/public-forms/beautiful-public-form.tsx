@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
@@ -12,20 +12,44 @@ import {
   Sparkles,
   Clock,
   Send,
+  Info,
 } from "lucide-react"
 import type { Form, FormField, FormResponseData } from "@/lib/types"
 import { cn } from "@/lib/utils"
 import { FormFieldRenderer } from "./form-field-renderer"
 import confetti from "canvas-confetti"
+import {
+  useConditionalLogicEvaluation,
+  type ConditionalRule,
+} from "@/hooks/forms/use-conditional-logic"
+import { applyFieldLogic, isEmptyValue } from "@/lib/conditional-logic"
+import { buildCalculationPlan, evaluateCalculatedFields } from "@/lib/formula"
+import {
+  DEFAULT_PAGE_SETTINGS,
+  findVisiblePageIndex,
+  getSkippedFieldIds,
+  getVisiblePages,
+  resolveFormPages,
+  type ResolvedFormPage,
+} from "@/lib/form-pages"
+import { saveDraft, loadDraft, clearDraft } from "@/lib/public-form-utils"
+import { normalizeGroupValues, validateGroupRows } from "@/lib/repeating-groups"
 
 interface BeautifulPublicFormProps {
   form: Form
   onSubmit: (data: FormResponseData, attachments: Record<string, string>) => Promise<void>
   isSubmitting?: boolean
+  /** Conditional rules evaluated live against the response */
+  rules?: ConditionalRule[]
 }
 
-export function BeautifulPublicForm({ form, onSubmit, isSubmitting = false }: BeautifulPublicFormProps) {
-  const [currentStep, setCurrentStep] = useState(0)
+export function BeautifulPublicForm({
+  form,
+  onSubmit,
+  isSubmitting = false,
+  rules,
+}: BeautifulPublicFormProps) {
+  const [currentPageId, setCurrentPageId] = useState<string | null>(null)
   const [formData, setFormData] = useState<FormResponseData>({})
   const [attachments, setAttachments] = useState<Record<string, string>>({})
   const [errors, setErrors] = useState<Record<string, string>>({})
@@ -33,20 +57,111 @@ export function BeautifulPublicForm({ form, onSubmit, isSubmitting = false }: Be
   const [elapsedTime, setElapsedTime] = useState(0)
 
   const branding = form.schema?.branding
-  const fields = form.schema?.fields || []
+  const allFields = useMemo(() => form.schema?.fields || [], [form.schema?.fields])
   const primaryColor = branding?.primary_color || "hsl(var(--primary))"
 
-  // Group fields into steps (10 fields per step for long forms)
-  const fieldsPerStep = 10
-  const steps: FormField[][] = []
-  for (let i = 0; i < fields.length; i += fieldsPerStep) {
-    steps.push(fields.slice(i, i + fieldsPerStep))
-  }
+  // Calculated fields are recomputed from the other answers on every change
+  const calculationPlan = useMemo(() => buildCalculationPlan(allFields), [allFields])
+  const calculatedData = useMemo(
+    () =>
+      normalizeGroupValues(allFields, {
+        ...formData,
+        ...evaluateCalculatedFields(allFields, formData, calculationPlan),
+      }),
+    [allFields, formData, calculationPlan]
+  )
+
+  // Steps are the schema's pages; forms without pages are split into steps of 10 fields
+  const hasSchemaPages = (form.schema?.pages?.length ?? 0) > 1
+  const pageSettings = hasSchemaPages
+    ? { ...DEFAULT_PAGE_SETTINGS, ...form.schema?.settings }
+    : { ...DEFAULT_PAGE_SETTINGS, save_on_page_change: false }
+  const formPages = useMemo(() => {
+    if (hasSchemaPages) return resolveFormPages(allFields, form.schema?.pages)
+
+    const fieldsPerStep = 10
+    const chunks: ResolvedFormPage[] = []
+    for (let i = 0; i < allFields.length; i += fieldsPerStep) {
+      chunks.push({
+        id: `step_${chunks.length + 1}`,
+        title: "",
+        order: chunks.length,
+        fields: allFields.slice(i, i + fieldsPerStep),
+      })
+    }
+    return chunks
+  }, [allFields, hasSchemaPages, form.schema?.pages])
+
+  // Conditional logic: hidden fields drop out of the steps and the submitted data
+  const logic = useConditionalLogicEvaluation(rules, allFields, calculatedData)
+  const logicData = useMemo(
+    () => ({ ...calculatedData, ...logic.calculated_values }),
+    [calculatedData, logic]
+  )
+  const skippedFieldIds = useMemo(
+    () => getSkippedFieldIds(formPages, logicData),
+    [formPages, logicData]
+  )
+  const fields = useMemo(
+    () =>
+      allFields
+        .filter(
+          (field) => logic.fields[field.id]?.visible !== false && !skippedFieldIds.has(field.id)
+        )
+        .map((field) => applyFieldLogic(field, logic.fields[field.id])),
+    [allFields, logic, skippedFieldIds]
+  )
+  const responseData = useMemo(() => {
+    const hidden = new Set(logic.hidden_fields)
+    return Object.fromEntries(
+      Object.entries(logicData).filter(([id]) => !hidden.has(id) && !skippedFieldIds.has(id))
+    ) as FormResponseData
+  }, [logicData, logic, skippedFieldIds])
+
+  // Skipped pages and pages whose fields are all hidden are left out of the steps
+  const visiblePages = useMemo(() => {
+    const activeIds = new Set(fields.map((field) => field.id))
+    return getVisiblePages(formPages, logicData).filter((page) =>
+      page.fields.some((field) => activeIds.has(field.id))
+    )
+  }, [formPages, logicData, fields])
+  const steps = useMemo(
+    () =>
+      visiblePages.map((page) =>
+        fields.filter((field) => page.fields.some((pageField) => pageField.id === field.id))
+      ),
+    [visiblePages, fields]
+  )
 
+  const currentStep = Math.max(0, findVisiblePageIndex(formPages, visiblePages, currentPageId))
+  const currentPage = visiblePages[currentStep]
   const currentFields = steps[currentStep] || []
   const totalSteps = steps.length
   const progress = ((currentStep + 1) / totalSteps) * 100
 
+  // Restore answers saved on an earlier page change, once per form
+  const restoresPageDraft = hasSchemaPages && pageSettings.save_on_page_change
+  const restoredPageDraftFor = useRef<string | null>(null)
+  useEffect(() => {
+    if (!restoresPageDraft || restoredPageDraftFor.current === form.id) return
+    restoredPageDraftFor.current = form.id
+    const draft = loadDraft(form.id)
+    if (draft) {
+      setFormData(draft)
+    }
+  }, [form.id, restoresPageDraft])
+
+  const goToStep = (index: number) => {
+    const page = visiblePages[index]
+    if (!page) return
+
+    setCurrentPageId(page.id)
+    if (pageSettings.save_on_page_change) {
+      saveDraft(form.id, formData)
+    }
+    window.scrollTo({ top: 0, behavior: "smooth" })
+  }
+
   // Track elapsed time
   useEffect(() => {
     const interval = setInterval(() => {
@@ -76,15 +191,28 @@ export function BeautifulPublicForm({ form, onSubmit, isSubmitting = false }: Be
     setAttachments((prev) => ({ ...prev, [fieldId]: url }))
   }, [])
 
+  const getFieldError = (field: FormField): string | null => {
+    if (field.type === "group") {
+      const groupError = validateGroupRows(field, responseData, (child, value) =>
+        child.required && isEmptyValue(value) ? `${child.label} is required` : null
+      )
+      if (groupError) return groupError
+    } else if (field.required) {
+      const value = responseData[field.id]
+      if (value === undefined || value === null || value === "") {
+        return "This field is required"
+      }
+    }
+    return logic.errors[field.id] || null
+  }
+
   const validateCurrentStep = (): boolean => {
     const newErrors: Record<string, string> = {}
 
     currentFields.forEach((field) => {
-      if (field.required) {
-        const value = formData[field.id]
-        if (value === undefined || value === null || value === "") {
-          newErrors[field.id] = "This field is required"
-        }
+      const error = getFieldError(field)
+      if (error) {
+        newErrors[field.id] = error
       }
     })
 
@@ -95,16 +223,14 @@ export function BeautifulPublicForm({ form, onSubmit, isSubmitting = false }: Be
   const handleNext = () => {
     if (validateCurrentStep()) {
       if (currentStep < totalSteps - 1) {
-        setCurrentStep(currentStep + 1)
-        window.scrollTo({ top: 0, behavior: "smooth" })
+        goToStep(currentStep + 1)
       }
     }
   }
 
   const handlePrevious = () => {
-    if (currentStep > 0) {
-      setCurrentStep(currentStep - 1)
-      window.scrollTo({ top: 0, behavior: "smooth" })
+    if (currentStep > 0 && pageSettings.allow_page_navigation) {
+      goToStep(currentStep - 1)
     }
   }
 
@@ -114,11 +240,9 @@ export function BeautifulPublicForm({ form, onSubmit, isSubmitting = false }: Be
     // Validate all fields
     const allErrors: Record<string, string> = {}
     fields.forEach((field) => {
-      if (field.required) {
-        const value = formData[field.id]
-        if (value === undefined || value === null || value === "") {
-          allErrors[field.id] = "This field is required"
-        }
+      const error = getFieldError(field)
+      if (error) {
+        allErrors[field.id] = error
       }
     })
 
@@ -126,21 +250,24 @@ export function BeautifulPublicForm({ form, onSubmit, isSubmitting = false }: Be
       setErrors(allErrors)
       // Go to first step with error
       const firstErrorField = Object.keys(allErrors)[0]
-      const errorStepIndex = steps.findIndex((step) =>
-        step.some((f: FormField) => f.id === firstErrorField)
+      const errorStep = visiblePages.find((page) =>
+        page.fields.some((field) => field.id === firstErrorField)
       )
-      if (errorStepIndex !== -1) {
-        setCurrentStep(errorStepIndex)
+      if (errorStep) {
+        setCurrentPageId(errorStep.id)
       }
       return
     }
 
-    await onSubmit(formData, attachments)
+    await onSubmit(responseData, attachments)
+    if (pageSettings.save_on_page_change) {
+      clearDraft(form.id)
+    }
   }
 
   const requiredFieldsCount = fields.filter((f) => f.required).length
   const completionPercentage = requiredFieldsCount > 0
-    ? Math.round((Object.keys(formData).length / requiredFieldsCount) * 100)
+    ? Math.round((Object.keys(responseData).length / requiredFieldsCount) * 100)
     : 0
 
   return (
@@ -194,7 +321,7 @@ export function BeautifulPublicForm({ form, onSubmit, isSubmitting = false }: Be
           </div>
 
           {/* Progress Bar */}
-          {totalSteps > 1 && (
+          {totalSteps > 1 && pageSettings.show_progress_bar && (
             <div className="space-y-2">
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">
@@ -242,17 +369,61 @@ export function BeautifulPublicForm({ form, onSubmit, isSubmitting = false }: Be
 
             {/* Current Step Fields */}
             <div className="space-y-6">
+              {(currentPage?.title || currentPage?.description) && (
+                <div>
+                  {currentPage.title && (
+                    <h2 className="text-xl font-semibold" style={{ color: primaryColor }}>
+                      {currentPage.title}
+                    </h2>
+                  )}
+                  {currentPage.description && (
+                    <p className="text-sm text-muted-foreground mt-1">{currentPage.description}</p>
+                  )}
+                </div>
+              )}
+              {logic.messages
+                .filter((message) => !message.field_id)
+                .map((message, index) => (
+                  <div
+                    key={`${message.rule_id}-${index}`}
+                    className="flex items-start gap-2 p-3 rounded-md bg-muted text-sm"
+                  >
+                    <Info className="w-4 h-4 mt-0.5 flex-shrink-0" style={{ color: primaryColor }} />
+                    <span>{message.message}</span>
+                  </div>
+                ))}
               {currentFields.map((field) => (
-                <div key={field.id} className="animate-in fade-in slide-in-from-bottom-4 duration-300">
+                <fieldset
+                  key={field.id}
+                  className="animate-in fade-in slide-in-from-bottom-4 duration-300 disabled:opacity-60"
+                  disabled={
+                    logic.fields[field.id]?.enabled === false ||
+                    field.id in logic.calculated_values
+                  }
+                >
                   <FormFieldRenderer
                     field={field}
-                    value={formData[field.id]}
+                    value={responseData[field.id]}
                     error={errors[field.id]}
                     onChange={(value) => handleFieldChange(field.id, value)}
                     onAttachmentChange={(url) => handleAttachmentChange(field.id, url)}
                     primaryColor={primaryColor}
+                    formData={responseData}
                   />
-                </div>
+                  {logic.messages
+                    .filter((message) => message.field_id === field.id)
+                    .map((message, index) => (
+                      <p
+                        key={`${message.rule_id}-${index}`}
+                        className={cn(
+                          "mt-2 text-sm",
+                          message.severity === "info" ? "text-muted-foreground" : "text-destructive"
+                        )}
+                      >
+                        {message.message}
+                      </p>
+                    ))}
+                </fieldset>
               ))}
             </div>
 
@@ -261,7 +432,7 @@ export function BeautifulPublicForm({ form, onSubmit, isSubmitting = false }: Be
               <Button
                 variant="outline"
                 onClick={handlePrevious}
-                disabled={currentStep === 0}
+                disabled={currentStep === 0 || !pageSettings.allow_page_navigation}
                 className="gap-2"
               >
                 <ChevronLeft className="w-4 h-4" />
@@ -19,6 +19,8 @@ import { GPSCapture } from "@/components/gps-capture"
 import type { FormField } from "@/lib/types"
 import { AlertCircle, CheckCircle2, HelpCircle, Star } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { formatFormulaValue } from "@/lib/formula"
+import { RepeatingGroupField } from "@/components/repeating-group-field"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 
 interface FormFieldRendererProps {
@@ -28,6 +30,8 @@ interface FormFieldRendererProps {
   onChange: (value: any) => void
   onAttachmentChange?: (url: string) => void
   primaryColor?: string
+  /** All current answers; needed by groups whose row count comes from another field */
+  formData?: Record<string, any>
 }
 
 export function FormFieldRenderer({
@@ -37,6 +41,7 @@ export function FormFieldRenderer({
   onChange,
   onAttachmentChange,
   primaryColor = "hsl(var(--primary))",
+  formData = {},
 }: FormFieldRendererProps) {
   const hasValue = value !== undefined && value !== null && value !== ""
   const showSuccess = hasValue && !error && field.required
@@ -444,6 +449,48 @@ export function FormFieldRenderer({
     )
   }
 
+  // Calculated (read-only, computed from other fields)
+  if (field.type === "calculated") {
+    return (
+      <div>
+        {renderLabel()}
+        <output
+          id={field.id}
+          aria-live="polite"
+          className="block w-full rounded-md border border-dashed bg-muted/50 px-4 py-3 text-lg font-semibold"
+          style={{ color: primaryColor }}
+        >
+          {formatFormulaValue(value)}
+        </output>
+      </div>
+    )
+  }
+
+  // Group of nested fields, optionally repeating
+  if (field.type === "group") {
+    return (
+      <div>
+        {renderLabel()}
+        <RepeatingGroupField
+          field={field}
+          value={value}
+          data={formData}
+          onChange={onChange}
+          accentColor={primaryColor}
+          renderChild={(child, childValue, onChildChange) => (
+            <FormFieldRenderer
+              field={child}
+              value={childValue}
+              onChange={onChildChange}
+              primaryColor={primaryColor}
+            />
+          )}
+        />
+        {renderValidationFeedback()}
+      </div>
+    )
+  }
+
   // Default fallback
   return (
     <div>
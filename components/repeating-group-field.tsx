@@ -0,0 +1,107 @@
+"use client"
+
+import type React from "react"
+import { Button } from "@/components/ui/button"
+import { Plus, Trash2 } from "lucide-react"
+import type { FormField } from "@/lib/types"
+import { getGroupRepeatBounds, resizeGroupRows, type GroupRow } from "@/lib/repeating-groups"
+
+interface RepeatingGroupFieldProps {
+  field: FormField
+  value: any
+  /** Current answers, used when the row count comes from another field */
+  data: Record<string, any>
+  onChange: (rows: GroupRow[]) => void
+  /**
+   * Render one child input. `child.id` is made unique per row so labels and
+   * inputs stay linked; the answer is stored under the original child ID.
+   */
+  renderChild: (child: FormField, value: any, onChange: (value: any) => void) => React.ReactNode
+  accentColor?: string
+}
+
+/**
+ * Rows of nested fields for `group` fields, shared by the form renderers
+ */
+export function RepeatingGroupField({
+  field,
+  value,
+  data,
+  onChange,
+  renderChild,
+  accentColor,
+}: RepeatingGroupFieldProps) {
+  const rows = resizeGroupRows(field, value, data)
+  const { max, min, fixed } = getGroupRepeatBounds(field, data)
+  const children = field.fields ?? []
+  const showRowHeaders = field.repeatable || !!field.repeatCountField
+
+  const updateRow = (rowIndex: number, childId: string, childValue: any) => {
+    onChange(
+      rows.map((row, index) => (index === rowIndex ? { ...row, [childId]: childValue } : row))
+    )
+  }
+
+  if (fixed && rows.length === 0 && field.repeatCountField) {
+    return (
+      <p className="text-sm text-muted-foreground italic">
+        Answer the question that sets how many entries are needed first.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4" role="group" aria-label={field.label}>
+      {rows.map((row, rowIndex) => (
+        <div
+          key={rowIndex}
+          className="rounded-md border border-gray-200 p-4 space-y-4 bg-white"
+          style={accentColor ? { borderLeft: `4px solid ${accentColor}` } : undefined}
+        >
+          {showRowHeaders && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-700">
+                {field.label} #{rowIndex + 1}
+              </span>
+              {!fixed && rows.length > min && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs text-muted-foreground"
+                  onClick={() => onChange(rows.filter((_, index) => index !== rowIndex))}
+                  aria-label={`Remove ${field.label} #${rowIndex + 1}`}
+                >
+                  <Trash2 className="w-3 h-3 mr-1" />
+                  Remove
+                </Button>
+              )}
+            </div>
+          )}
+          {children.map((child) => (
+            <div key={child.id}>
+              {renderChild(
+                { ...child, id: `${field.id}_${rowIndex}_${child.id}` },
+                row[child.id],
+                (childValue) => updateRow(rowIndex, child.id, childValue)
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {!fixed && rows.length < max && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...rows, {}])}
+          style={accentColor ? { borderColor: accentColor, color: accentColor } : undefined}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add {rows.length === 0 ? field.label : "another"}
+        </Button>
+      )}
+    </div>
+  )
+}
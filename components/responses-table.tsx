@@ -55,6 +55,7 @@ import {
 import { TableSkeleton } from "@/components/skeleton-loader"
 import { usePermissions } from "@/lib/permission-context"
 import { formatRelativeTime, formatFullDate, isImageUrl, isUrl } from "@/lib/date-utils"
+import { describeResponseData } from "@/lib/repeating-groups"
 
 interface ResponsesTableProps {
   formId?: string
@@ -647,16 +648,17 @@ export function ResponsesTable({ formId }: ResponsesTableProps) {
               <div>
                 <h3 className="text-lg font-semibold mb-4">Response Data</h3>
                 <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2">
-                  {Object.entries(selectedResponse.data).map(([key, value]) => (
-                    <div key={key} className="border-l-4 border-primary/20 pl-4 py-2">
-                      <div className="font-medium text-foreground mb-2">
-                        {fieldLabels[key] || key}
+                  {/* Repeating group rows are flattened into one entry per answer */}
+                  {describeResponseData(selectedResponse.data, formData?.schema?.fields).map(
+                    ({ key, label, value }) => (
+                      <div key={key} className="border-l-4 border-primary/20 pl-4 py-2">
+                        <div className="font-medium text-foreground mb-2">
+                          {fieldLabels[key] || label}
+                        </div>
+                        <div className="text-muted-foreground">{renderValue(value, key)}</div>
                       </div>
-                      <div className="text-muted-foreground">
-                        {renderValue(value, key)}
-                      </div>
-                    </div>
-                  ))}
+                    )
+                  )}
 
                   {Object.keys(selectedResponse.data).length === 0 && (
                     <div className="text-center py-8 text-muted-foreground">
@@ -1,6 +1,8 @@
 "use client"
 
-import { useState, useEffect, useMemo } from "react"
+import { useState, useEffect, useMemo, useCallback, useRef } from "react"
+import dynamic from "next/dynamic"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -14,7 +16,7 @@ import {
 } from "@/components/ui/select"
 import { responsesAPI, formsAPI } from "@/lib/api"
 import { useQuery } from "@tanstack/react-query"
-import type { FormResponse, Form } from "@/lib/types"
+import type { FormResponse, Form, FormField } from "@/lib/types"
 import { useDeleteResponse } from "@/hooks/use-responses"
 import {
   Table,
@@ -24,12 +26,32 @@ import {
   Download,
   Eye,
   Trash2,
+  Map as MapIcon,
+  Copy,
+  X,
 } from "lucide-react"
 import { TableSkeleton } from "@/components/skeleton-loader"
+import { Skeleton } from "@/components/ui/skeleton"
 import { usePermissions } from "@/lib/permission-context"
 import { formatRelativeTime } from "@/lib/date-utils"
 import { DataTable, DataTableColumnHeader } from "@/components/data-table"
-import { ColumnDef } from "@tanstack/react-table"
+import { ColumnDef, SortingState } from "@tanstack/react-table"
+import {
+  extractResponsePoints,
+  getResponseIdsInPolygon,
+  type GeoPolygon,
+} from "@/lib/response-geo"
+import { formatAnswer } from "@/lib/response-review"
+import {
+  createDefaultViewState,
+  decodeViewState,
+  diffColumnVisibility,
+  encodeViewState,
+  fromViewFilters,
+  toViewFilters,
+  type ResponseViewMode,
+  type ResponseViewState,
+} from "@/lib/response-views"
 
 // Import our new components
 import { ResponseAnalyticsDashboard } from "./response-analytics-dashboard"
@@ -37,17 +59,36 @@ import { ResponseFiltersPanel, type ResponseFilters } from "./response-filters"
 import { ResponseCardView } from "./response-card-view"
 import { ResponseDetailModal } from "./response-detail-modal"
 import { ResponseBulkActions } from "./response-bulk-actions"
+import { ResponseReviewBadge } from "./response-review-panel"
+import { ResponseDuplicates } from "./response-duplicates"
+import { ResponseSavedViews } from "./response-saved-views"
 import { ResponseVisualizations } from "./response-visualizations"
 
+// Leaflet touches `window` on import, so the map is client-only
+const ResponseMap = dynamic(() => import("./response-map").then((mod) => mod.ResponseMap), {
+  ssr: false,
+  loading: () => <Skeleton className="h-[500px] w-full" />,
+})
+
 interface ProfessionalResponsesTableProps {
   formId?: string
 }
 
-type ViewMode = "table" | "cards" | "analytics" | "insights"
+// Answers that don't fit in a table cell
+const NON_COLUMN_TYPES = new Set<FormField["type"]>(["group", "file", "signature", "gps"])
+// Answer columns shown before the user picks any
+const DEFAULT_ANSWER_COLUMNS = 4
+
+const answerColumnId = (fieldId: string) => `answer:${fieldId}`
 
 export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTableProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const viewParam = searchParams.get("view")
+
   const [selectedFormId, setSelectedFormId] = useState(formId || "")
-  const [viewMode, setViewMode] = useState<ViewMode>("table")
+  const [viewMode, setViewMode] = useState<ResponseViewMode>("table")
   const [selectedResponse, setSelectedResponse] = useState<FormResponse | null>(null)
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false)
   const [selectedResponses, setSelectedResponses] = useState<FormResponse[]>([])
@@ -56,6 +97,16 @@ export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTabl
     qualityRange: [0, 100],
     fieldFilters: {},
   })
+  const [mapArea, setMapArea] = useState<GeoPolygon | null>(null)
+  const [columnVisibility, setColumnVisibility] = useState<Record<string, boolean>>({})
+  const [columnOrder, setColumnOrder] = useState<string[]>([])
+  const [sorting, setSorting] = useState<SortingState>([])
+  const [groupBy, setGroupBy] = useState<string | null>(null)
+  const [linkApplied, setLinkApplied] = useState(false)
+  // Tokens this table wrote to the URL, which come back as `viewParam`
+  const ownViewTokens = useRef(new Set<string>())
+  // The table's token when the URL was last brought in step with it
+  const syncedViewToken = useRef<string | null>(null)
 
   const deleteResponse = useDeleteResponse()
   const { hasPermission } = usePermissions()
@@ -63,6 +114,7 @@ export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTabl
   const canViewResponses = hasPermission("responses:read")
   const canDeleteResponses = hasPermission("responses:delete")
   const canExportResponses = hasPermission("responses:export")
+  const canUpdateResponses = hasPermission("responses:update")
 
   // Fetch forms
   const { data: forms = [] } = useQuery({
@@ -154,6 +206,89 @@ export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTabl
     })
   }, [responsesData, filters])
 
+  const mapPoints = useMemo(
+    () => extractResponsePoints(filteredResponses, formData?.schema?.fields),
+    [filteredResponses, formData]
+  )
+
+  // Responses inside the area drawn on the map; applies to every list view
+  const visibleResponses = useMemo(() => {
+    if (!mapArea) return filteredResponses
+    const insideArea = getResponseIdsInPolygon(mapPoints, mapArea)
+    return filteredResponses.filter((response: FormResponse) => insideArea.has(response.id))
+  }, [filteredResponses, mapPoints, mapArea])
+
+  const gpsFieldLabels = useMemo(
+    () =>
+      Object.fromEntries(
+        (formData?.schema?.fields || []).map((field: any) => [field.id, field.label])
+      ) as Record<string, string>,
+    [formData]
+  )
+
+  const answerFields: FormField[] = useMemo(
+    () =>
+      (formData?.schema?.fields || []).filter(
+        (field: FormField) => !NON_COLUMN_TYPES.has(field.type)
+      ),
+    [formData]
+  )
+
+  const defaultColumnVisibility = useMemo(
+    () =>
+      Object.fromEntries(
+        answerFields
+          .slice(DEFAULT_ANSWER_COLUMNS)
+          .map((field) => [answerColumnId(field.id), false])
+      ) as Record<string, boolean>,
+    [answerFields]
+  )
+
+  const currentView: ResponseViewState = {
+    formId: selectedFormId,
+    mode: viewMode,
+    filters: toViewFilters(filters),
+    columnVisibility,
+    columnOrder,
+    sorting,
+    groupBy,
+  }
+  const viewToken = selectedFormId ? encodeViewState(currentView) : null
+
+  const applyView = useCallback((state: ResponseViewState) => {
+    setSelectedFormId(state.formId)
+    setViewMode(state.mode)
+    setFilters(fromViewFilters(state.filters))
+    setColumnVisibility(state.columnVisibility)
+    setColumnOrder(state.columnOrder)
+    setSorting(state.sorting)
+    setGroupBy(state.groupBy)
+    setMapArea(null)
+  }, [])
+
+  // Open the view encoded in the link, from a shared URL or the command palette
+  useEffect(() => {
+    if (viewParam && ownViewTokens.current.delete(viewParam)) return
+    const state = decodeViewState(viewParam)
+    if (state) applyView(state)
+    setLinkApplied(true)
+  }, [viewParam, applyView])
+
+  // Keep the link in step with the table so the URL always reproduces it.
+  // Only table changes write the link; a new link is applied by the effect above.
+  useEffect(() => {
+    if (!linkApplied || !viewToken || viewToken === syncedViewToken.current) return
+    syncedViewToken.current = viewToken
+    if (viewToken === viewParam) return
+    ownViewTokens.current.add(viewToken)
+    router.replace(`${pathname}?view=${viewToken}`, { scroll: false })
+  }, [linkApplied, viewToken, viewParam, pathname, router])
+
+  // Columns, sort and grouping refer to one form's fields, so a new form starts afresh
+  const handleFormChange = (id: string) => {
+    applyView({ ...createDefaultViewState(id), mode: viewMode })
+  }
+
   const formTitlesMap = forms.reduce((acc: Record<string, string>, form: Form) => {
     acc[form.id] = form.title
     return acc
@@ -187,6 +322,7 @@ export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTabl
   const columns: ColumnDef<FormResponse>[] = [
     {
       accessorKey: "id",
+      meta: { label: "ID" },
       header: ({ column }) => <DataTableColumnHeader column={column} title="ID" />,
       cell: ({ row }) => {
         const id = row.getValue("id") as string
@@ -195,11 +331,13 @@ export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTabl
     },
     {
       accessorKey: "submitted_by",
+      meta: { label: "Submitted By" },
       header: ({ column }) => <DataTableColumnHeader column={column} title="Submitted By" />,
       cell: ({ row }) => row.getValue("submitted_by") || "Anonymous",
     },
     {
       accessorKey: "submitted_at",
+      meta: { label: "Submitted" },
       header: ({ column }) => <DataTableColumnHeader column={column} title="Submitted" />,
       cell: ({ row }) => (
         <span className="text-muted-foreground">
@@ -209,6 +347,7 @@ export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTabl
     },
     {
       accessorKey: "quality_score",
+      meta: { label: "Quality" },
       header: ({ column }) => <DataTableColumnHeader column={column} title="Quality" />,
       cell: ({ row }) => {
         const score = (row.original as any).quality_score
@@ -218,8 +357,28 @@ export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTabl
         return <Badge variant={variant}>{score.toFixed(0)}%</Badge>
       },
     },
+    {
+      accessorKey: "review_status",
+      meta: { label: "Review" },
+      header: ({ column }) => <DataTableColumnHeader column={column} title="Review" />,
+      cell: ({ row }) => <ResponseReviewBadge status={row.original.review_status} />,
+    },
+    ...answerFields.map(
+      (field): ColumnDef<FormResponse> => ({
+        id: answerColumnId(field.id),
+        accessorFn: (row) => row.data?.[field.id],
+        meta: { label: field.label },
+        header: ({ column }) => <DataTableColumnHeader column={column} title={field.label} />,
+        cell: ({ getValue }) => (
+          <span className="inline-block max-w-48 truncate align-bottom">
+            {formatAnswer(getValue())}
+          </span>
+        ),
+      })
+    ),
     {
       id: "actions",
+      enableHiding: false,
       header: () => <div className="text-right">Actions</div>,
       cell: ({ row }) => (
         <div className="flex items-center justify-end gap-2">
@@ -280,6 +439,22 @@ export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTabl
             <Grid className="w-4 h-4 mr-2" />
             Cards
           </Button>
+          <Button
+            variant={viewMode === "map" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setViewMode("map")}
+          >
+            <MapIcon className="w-4 h-4 mr-2" />
+            Map
+          </Button>
+          <Button
+            variant={viewMode === "duplicates" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setViewMode("duplicates")}
+          >
+            <Copy className="w-4 h-4 mr-2" />
+            Duplicates
+          </Button>
           <Button
             variant={viewMode === "analytics" ? "default" : "outline"}
             size="sm"
@@ -303,7 +478,7 @@ export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTabl
       <Card className="p-4">
         <div className="flex items-center gap-4">
           <div className="flex-1">
-            <Select value={selectedFormId} onValueChange={setSelectedFormId}>
+            <Select value={selectedFormId} onValueChange={handleFormChange}>
               <SelectTrigger>
                 <SelectValue placeholder="Select a form to view responses..." />
               </SelectTrigger>
@@ -316,6 +491,13 @@ export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTabl
               </SelectContent>
             </Select>
           </div>
+          {selectedFormId && (
+            <ResponseSavedViews
+              formId={selectedFormId}
+              current={currentView}
+              onApply={applyView}
+            />
+          )}
           {canExportResponses && selectedFormId && (
             <Button variant="outline">
               <Download className="w-4 h-4 mr-2" />
@@ -333,6 +515,7 @@ export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTabl
               selectedResponses={selectedResponses}
               onDelete={handleBulkDelete}
               onClearSelection={() => setSelectedResponses([])}
+              fields={formData?.schema?.fields}
             />
           )}
 
@@ -341,6 +524,16 @@ export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTabl
             <ResponseAnalyticsDashboard formId={selectedFormId} />
           )}
 
+          {/* Duplicate Detection View */}
+          {viewMode === "duplicates" && (
+            <ResponseDuplicates
+              key={selectedFormId}
+              formId={selectedFormId}
+              fields={formData?.schema?.fields}
+              canResolve={canUpdateResponses}
+            />
+          )}
+
           {/* Insights/Visualization View */}
           {viewMode === "insights" && (
             <ResponseVisualizations
@@ -350,7 +543,7 @@ export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTabl
           )}
 
           {/* Table/Card Views with Filters */}
-          {(viewMode === "table" || viewMode === "cards") && (
+          {(viewMode === "table" || viewMode === "cards" || viewMode === "map") && (
             <div className="grid gap-6 lg:grid-cols-4">
               {/* Filters Sidebar */}
               <div className="lg:col-span-1">
@@ -364,23 +557,89 @@ export function ProfessionalResponsesTable({ formId }: ProfessionalResponsesTabl
               {/* Main Content */}
               <div className="lg:col-span-3">
                 <Card className="p-6">
+                  {mapArea && (
+                    <div className="flex items-center justify-between gap-2 mb-4 p-3 rounded-lg bg-muted/50 text-sm">
+                      <span>
+                        <MapIcon className="w-4 h-4 inline mr-2" />
+                        {visibleResponses.length} of {filteredResponses.length} responses in the
+                        selected map area
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSelectedResponses(visibleResponses)}
+                          disabled={visibleResponses.length === 0}
+                        >
+                          Select all in area
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setMapArea(null)}>
+                          <X className="w-4 h-4 mr-1" />
+                          Clear area
+                        </Button>
+                      </div>
+                    </div>
+                  )}
                   {responsesLoading ? (
                     <TableSkeleton />
-                  ) : filteredResponses.length === 0 ? (
+                  ) : viewMode === "map" ? (
+                    <ResponseMap
+                      points={mapPoints}
+                      responses={filteredResponses}
+                      fieldLabels={gpsFieldLabels}
+                      selectionArea={mapArea}
+                      onSelectionAreaChange={setMapArea}
+                      onOpenResponse={handleViewResponse}
+                    />
+                  ) : visibleResponses.length === 0 ? (
                     <div className="text-center py-12">
                       <p className="text-muted-foreground">No responses found</p>
                     </div>
                   ) : viewMode === "table" ? (
-                    <DataTable
-                      columns={columns}
-                      data={filteredResponses}
-                      searchKey="submitted_by"
-                      searchPlaceholder="Search responses..."
-                      onRowDoubleClick={handleViewResponse}
-                    />
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-end gap-2">
+                        <span className="text-sm text-muted-foreground">Group by</span>
+                        <Select
+                          value={groupBy ?? "none"}
+                          onValueChange={(value) => setGroupBy(value === "none" ? null : value)}
+                        >
+                          <SelectTrigger className="w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No grouping</SelectItem>
+                            <SelectItem value="submitted_by">Submitted By</SelectItem>
+                            <SelectItem value="review_status">Review</SelectItem>
+                            {answerFields.map((field) => (
+                              <SelectItem key={field.id} value={answerColumnId(field.id)}>
+                                {field.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <DataTable
+                        columns={columns}
+                        data={visibleResponses}
+                        searchKey="submitted_by"
+                        searchPlaceholder="Search responses..."
+                        onRowDoubleClick={handleViewResponse}
+                        sorting={sorting}
+                        onSortingChange={setSorting}
+                        columnVisibility={{ ...defaultColumnVisibility, ...columnVisibility }}
+                        onColumnVisibilityChange={(visibility) =>
+                          setColumnVisibility(
+                            diffColumnVisibility(visibility, defaultColumnVisibility)
+                          )
+                        }
+                        columnOrder={columnOrder}
+                        onColumnOrderChange={setColumnOrder}
+                        grouping={groupBy ? [groupBy] : []}
+                      />
+                    </div>
                   ) : (
                     <ResponseCardView
-                      responses={filteredResponses}
+                      responses={visibleResponses}
                       selectedResponses={selectedResponses}
                       onToggleSelect={handleToggleSelect}
                       onView={handleViewResponse}
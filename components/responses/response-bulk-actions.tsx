@@ -19,8 +19,29 @@ import {
   FileJson,
   FileSpreadsheet,
   ChevronDown,
+  Undo2,
 } from "lucide-react"
-import type { FormResponse } from "@/lib/types"
+import type { FormField, FormResponse } from "@/lib/types"
+import { flattenResponseData } from "@/lib/repeating-groups"
+import { writeXlsx } from "@/lib/xlsx"
+import {
+  REVIEW_STATUSES,
+  partitionByTransition,
+  validateReviewAction,
+  getReviewStatus,
+  type ReviewDecision,
+} from "@/lib/response-review"
+import { useBulkReviewResponses } from "@/hooks/use-responses"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -38,53 +59,70 @@ interface ResponseBulkActionsProps {
   selectedResponses: FormResponse[]
   onDelete: (responses: FormResponse[]) => void
   onClearSelection: () => void
+  /** Form fields, used to flatten repeating groups into columns */
+  fields?: FormField[]
 }
 
 type ExportFormat = "csv" | "json" | "excel"
 
+/** Spreadsheet cells hold text; lists are comma separated */
+function toCellText(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  if (Array.isArray(value)) return value.map(toCellText).join(", ")
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
 export function ResponseBulkActions({
   selectedResponses,
   onDelete,
   onClearSelection,
+  fields,
 }: ResponseBulkActionsProps) {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [reviewDecision, setReviewDecision] = useState<ReviewDecision | null>(null)
+  const [reviewNote, setReviewNote] = useState("")
+  const [reviewError, setReviewError] = useState<string | null>(null)
   const { toast } = useToast()
+  const bulkReview = useBulkReviewResponses()
 
-  const handleExport = async (format: ExportFormat) => {
-    // TODO: Implement actual export logic
-    toast({
-      title: "Exporting...",
-      description: `Exporting ${selectedResponses.length} response(s) as ${format.toUpperCase()}`,
-    })
+  const reviewTargets = reviewDecision
+    ? partitionByTransition(selectedResponses, reviewDecision)
+    : { eligible: [], skipped: [] }
 
-    // Simulate export
+  const handleExport = async (format: ExportFormat) => {
     const data = selectedResponses.map((r) => r.data)
+    // Each repeating group row gets its own columns
+    const rows = data.map((row) => flattenResponseData(row, fields))
+    const headers = [...new Set(rows.flatMap((row) => Object.keys(row)))]
 
+    let blob: Blob
+    let extension: string
     if (format === "json") {
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement("a")
-      a.href = url
-      a.download = `responses-${new Date().toISOString().split("T")[0]}.json`
-      a.click()
-      URL.revokeObjectURL(url)
+      blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" })
+      extension = "json"
     } else if (format === "csv") {
-      // Basic CSV export
-      const headers = Object.keys(data[0] || {})
       const csv = [
         headers.join(","),
-        ...data.map((row) => headers.map((h) => JSON.stringify(row[h] || "")).join(",")),
+        ...rows.map((row) => headers.map((h) => JSON.stringify(row[h] ?? "")).join(",")),
       ].join("\n")
-
-      const blob = new Blob([csv], { type: "text/csv" })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement("a")
-      a.href = url
-      a.download = `responses-${new Date().toISOString().split("T")[0]}.csv`
-      a.click()
-      URL.revokeObjectURL(url)
+      blob = new Blob([csv], { type: "text/csv" })
+      extension = "csv"
+    } else {
+      const sheet = [headers, ...rows.map((row) => headers.map((h) => toCellText(row[h])))]
+      blob = new Blob([writeXlsx({ Responses: sheet }) as BlobPart], {
+        type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      })
+      extension = "xlsx"
     }
 
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `responses-${new Date().toISOString().split("T")[0]}.${extension}`
+    a.click()
+    URL.revokeObjectURL(url)
+
     toast({
       title: "Export Complete",
       description: `${selectedResponses.length} response(s) exported successfully`,
@@ -105,18 +143,38 @@ export function ResponseBulkActions({
     })
   }
 
-  const handleFlag = () => {
-    toast({
-      title: "Flag for Review",
-      description: "Flagging feature will be available soon",
-    })
+  const openReviewDialog = (decision: ReviewDecision) => {
+    setReviewDecision(decision)
+    setReviewNote("")
+    setReviewError(null)
   }
 
-  const handleMarkReviewed = () => {
-    toast({
-      title: "Mark as Reviewed",
-      description: "Review status feature will be available soon",
-    })
+  const handleReviewConfirm = async () => {
+    if (!reviewDecision) return
+    const { eligible } = reviewTargets
+    if (eligible.length === 0) {
+      setReviewError(
+        `None of the selected responses can be marked ${REVIEW_STATUSES[reviewDecision].label.toLowerCase()}`
+      )
+      return
+    }
+    const problem = validateReviewAction(getReviewStatus(eligible[0]), reviewDecision, reviewNote)
+    if (problem) {
+      setReviewError(problem)
+      return
+    }
+
+    try {
+      await bulkReview.mutateAsync({
+        response_ids: eligible.map((response) => response.id),
+        status: reviewDecision,
+        note: reviewNote.trim() || undefined,
+      })
+      setReviewDecision(null)
+      onClearSelection()
+    } catch (error) {
+      // Error handled by mutation
+    }
   }
 
   const handleDeleteConfirm = () => {
@@ -183,13 +241,19 @@ export function ResponseBulkActions({
                 <UserPlus className="w-4 h-4 mr-2" />
                 Assign to User
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={handleFlag}>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Review</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => openReviewDialog("approved")}>
+                <CheckCircle2 className="w-4 h-4 mr-2" />
+                Approve
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => openReviewDialog("flagged")}>
                 <Flag className="w-4 h-4 mr-2" />
                 Flag for Review
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={handleMarkReviewed}>
-                <CheckCircle2 className="w-4 h-4 mr-2" />
-                Mark as Reviewed
+              <DropdownMenuItem onClick={() => openReviewDialog("needs_correction")}>
+                <Undo2 className="w-4 h-4 mr-2" />
+                Request Correction
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
@@ -208,6 +272,55 @@ export function ResponseBulkActions({
         </div>
       </div>
 
+      <Dialog
+        open={reviewDecision !== null}
+        onOpenChange={(open) => !open && setReviewDecision(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewDecision && REVIEW_STATUSES[reviewDecision].label}:{" "}
+              {reviewTargets.eligible.length} response
+              {reviewTargets.eligible.length !== 1 ? "s" : ""}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewDecision && REVIEW_STATUSES[reviewDecision].description}
+              {reviewTargets.skipped.length > 0 &&
+                `. ${reviewTargets.skipped.length} selected response${
+                  reviewTargets.skipped.length !== 1 ? "s are" : " is"
+                } already in a state that can't change this way and will be skipped.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-review-note">
+              Note{reviewDecision === "approved" ? " (optional)" : ""}
+            </Label>
+            <Textarea
+              id="bulk-review-note"
+              value={reviewNote}
+              onChange={(e) => {
+                setReviewNote(e.target.value)
+                setReviewError(null)
+              }}
+              placeholder={
+                reviewDecision === "needs_correction"
+                  ? "Tell the agents what to correct"
+                  : "Add a note for the record"
+              }
+            />
+            {reviewError && <p className="text-sm text-destructive">{reviewError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewDecision(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleReviewConfirm} disabled={bulkReview.isPending}>
+              {bulkReview.isPending ? "Saving..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -23,11 +23,17 @@ import {
   Image as ImageIcon,
   Copy,
   Check,
+  MessageSquare,
 } from "lucide-react"
 import type { FormResponse, Form } from "@/lib/types"
 import { formatRelativeTime, formatFullDate, isImageUrl, isUrl } from "@/lib/date-utils"
 import { useState } from "react"
 import { useToast } from "@/hooks/use-toast"
+import { useResponse } from "@/hooks/use-responses"
+import { usePermissions } from "@/lib/permission-context"
+import { getOpenFieldComments } from "@/lib/response-review"
+import { ResponseReviewBadge, ResponseReviewPanel } from "./response-review-panel"
+import { ResponseRevisionHistory } from "./response-revision-history"
 
 interface ResponseDetailModalProps {
   open: boolean
@@ -39,13 +45,20 @@ interface ResponseDetailModalProps {
 export function ResponseDetailModal({
   open,
   onOpenChange,
-  response,
+  response: listedResponse,
   formData,
 }: ResponseDetailModalProps) {
   const [copiedId, setCopiedId] = useState(false)
   const { toast } = useToast()
+  const { hasPermission } = usePermissions()
+  // Review actions change the response; prefer the fresh copy over the list row
+  const { data: latestResponse } = useResponse(open ? listedResponse?.id ?? "" : "")
 
-  if (!response) return null
+  if (!listedResponse) return null
+
+  const response: FormResponse =
+    latestResponse?.id === listedResponse.id ? latestResponse : listedResponse
+  const openComments = getOpenFieldComments(response)
 
   const qualityScore = (response as any).quality_score
   const fieldLabels =
@@ -309,8 +322,10 @@ export function ResponseDetailModal({
 
         <div className="flex-1 overflow-y-auto">
           <Tabs defaultValue="data" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="data">Response Data</TabsTrigger>
+              <TabsTrigger value="review">Review</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
               <TabsTrigger value="metadata">Metadata</TabsTrigger>
             </TabsList>
 
@@ -323,6 +338,9 @@ export function ResponseDetailModal({
                     <p className="text-sm text-muted-foreground mt-1">
                       Submitted {formatRelativeTime(response.submitted_at)}
                     </p>
+                    <div className="mt-2">
+                      <ResponseReviewBadge status={response.review_status} />
+                    </div>
                   </div>
                   {qualityScore !== undefined && qualityScore !== null && (
                     <Badge variant={getQualityBadgeVariant(qualityScore)} className="text-lg px-4 py-2">
@@ -375,6 +393,15 @@ export function ResponseDetailModal({
                               <p className="text-sm text-muted-foreground">{field.description}</p>
                             )}
                             <div className="pt-2">{renderFieldValue(field.id, value)}</div>
+                            {openComments.get(field.id)?.map((comment) => (
+                              <p
+                                key={comment.id}
+                                className="flex items-start gap-2 text-sm text-amber-800 bg-amber-50 dark:text-amber-300 dark:bg-amber-900/20 px-3 py-2 rounded-lg"
+                              >
+                                <MessageSquare className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                {comment.comment}
+                              </p>
+                            ))}
                           </div>
                         </Card>
                       )
@@ -384,6 +411,18 @@ export function ResponseDetailModal({
               ))}
             </TabsContent>
 
+            <TabsContent value="review" className="mt-6">
+              <ResponseReviewPanel
+                response={response}
+                fields={formData?.schema?.fields}
+                canReview={hasPermission("responses:update")}
+              />
+            </TabsContent>
+
+            <TabsContent value="history" className="mt-6">
+              <ResponseRevisionHistory responseId={response.id} fields={formData?.schema?.fields} />
+            </TabsContent>
+
             <TabsContent value="metadata" className="space-y-4 mt-6">
               <Card className="p-6">
                 <h4 className="font-semibold mb-4">Submission Information</h4>
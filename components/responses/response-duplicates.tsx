@@ -0,0 +1,543 @@
+"use client"
+
+/**
+ * Response Duplicates
+ * Detection rules, suspected duplicate groups and a side-by-side merge review
+ */
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { CheckCircle2, Copy, GitMerge, Loader2, RotateCcw, X } from "lucide-react"
+import type { FormField, FormResponse } from "@/lib/types"
+import { cn } from "@/lib/utils"
+import { formatFullDate, formatRelativeTime } from "@/lib/date-utils"
+import { formatAnswer } from "@/lib/response-review"
+import {
+  compareResponses,
+  defaultMergeChoices,
+  describeDuplicateReason,
+  findDuplicates,
+  getDefaultDetectorConfig,
+  mergeResponses,
+  type DuplicateDetectorConfig,
+  type DuplicateGroup,
+} from "@/lib/response-duplicates"
+import { useDebounce } from "@/hooks/use-debounce"
+import { useLocalStorage } from "@/hooks/use-local-storage"
+import {
+  useAllFormResponses,
+  useDismissDuplicates,
+  useDuplicateDismissals,
+  useMergeDuplicates,
+} from "@/hooks/use-responses"
+
+// Answers that can't be compared as a key
+const NON_KEY_TYPES = new Set<FormField["type"]>(["gps", "file", "signature", "group"])
+
+// Rule edits settle before the pairwise scan reruns
+const DETECTION_DELAY_MS = 300
+
+interface ResponseDuplicatesProps {
+  /** Every response to the form is scanned, not just the table's page */
+  formId: string
+  fields?: FormField[]
+  /** Allow merging and dismissing; without it groups are read-only */
+  canResolve?: boolean
+}
+
+export function ResponseDuplicates({ formId, fields = [], canResolve }: ResponseDuplicatesProps) {
+  const [config, setConfig] = useLocalStorage<DuplicateDetectorConfig>(
+    `duplicate-detector-${formId}`,
+    getDefaultDetectorConfig(fields)
+  )
+  const detectorConfig = useDebounce(config, DETECTION_DELAY_MS)
+  const [activeGroupId, setActiveGroupId] = useState<string | null>(null)
+  const { data: allResponses, isLoading } = useAllFormResponses(formId)
+  const { data: dismissals = [] } = useDuplicateDismissals(formId)
+
+  const responses = useMemo(() => allResponses?.responses ?? [], [allResponses])
+  const total = allResponses?.total ?? 0
+  const groups = useMemo(
+    () =>
+      findDuplicates(
+        responses,
+        detectorConfig,
+        dismissals.map((dismissal) => dismissal.response_ids)
+      ),
+    [responses, detectorConfig, dismissals]
+  )
+  const responsesById = useMemo(
+    () => new Map(responses.map((response) => [response.id, response])),
+    [responses]
+  )
+  const labels = useMemo(
+    () => Object.fromEntries(fields.map((field) => [field.id, field.label])),
+    [fields]
+  )
+  const activeGroup = groups.find((group) => group.id === activeGroupId)
+
+  const update = (changes: Partial<DuplicateDetectorConfig>) =>
+    setConfig((prev) => ({ ...prev, ...changes }))
+  const toggle = (list: "exactFields" | "nameFields", fieldId: string, checked: boolean) =>
+    update({
+      [list]: checked
+        ? [...config[list], fieldId]
+        : config[list].filter((id: string) => id !== fieldId),
+    })
+
+  const keyFields = fields.filter((field) => !NON_KEY_TYPES.has(field.type))
+  const textFields = fields.filter((field) => field.type === "text")
+  const gpsFields = fields.filter((field) => field.type === "gps")
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">Detection Rules</h3>
+            <p className="text-sm text-muted-foreground">
+              Responses matching any rule are grouped as suspected duplicates
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setConfig(getDefaultDetectorConfig(fields))}
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset
+          </Button>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Exact match on</Label>
+            <FieldChecklist
+              fields={keyFields}
+              selected={config.exactFields}
+              onToggle={(fieldId, checked) => toggle("exactFields", fieldId, checked)}
+              empty="No fields can be used as keys"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label>Similar names in</Label>
+            <FieldChecklist
+              fields={textFields}
+              selected={config.nameFields}
+              onToggle={(fieldId, checked) => toggle("nameFields", fieldId, checked)}
+              empty="This form has no text fields"
+            />
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>Similarity</span>
+                <span className="text-muted-foreground">
+                  {Math.round(config.nameThreshold * 100)}%
+                </span>
+              </div>
+              <Slider
+                value={[config.nameThreshold * 100]}
+                min={50}
+                max={100}
+                step={5}
+                onValueChange={([value]) => update({ nameThreshold: value / 100 })}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="duplicate-phonetic"
+                checked={config.phonetic}
+                onCheckedChange={(checked) => update({ phonetic: checked })}
+              />
+              <Label htmlFor="duplicate-phonetic" className="font-normal">
+                Match names that sound alike
+              </Label>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Nearby locations</Label>
+            <Select
+              value={config.gpsField ?? "off"}
+              onValueChange={(value) => update({ gpsField: value === "off" ? null : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Off</SelectItem>
+                {gpsFields.map((field) => (
+                  <SelectItem key={field.id} value={field.id}>
+                    {field.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="duplicate-radius" className="text-xs font-normal">
+                  Within (metres)
+                </Label>
+                <Input
+                  id="duplicate-radius"
+                  type="number"
+                  min={1}
+                  value={config.radiusMeters}
+                  disabled={!config.gpsField}
+                  onChange={(e) => update({ radiusMeters: Math.max(1, Number(e.target.value)) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="duplicate-window" className="text-xs font-normal">
+                  Within (minutes)
+                </Label>
+                <Input
+                  id="duplicate-window"
+                  type="number"
+                  min={1}
+                  value={config.windowMinutes}
+                  disabled={!config.gpsField}
+                  onChange={(e) => update({ windowMinutes: Math.max(1, Number(e.target.value)) })}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </Card>
+
+      <div className="space-y-3">
+        {isLoading ? (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading every response to this form
+          </p>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {groups.length} suspected duplicate group{groups.length !== 1 ? "s" : ""} among{" "}
+            {responses.length < total
+              ? `the first ${responses.length} of ${total} responses. The rest could not be loaded, so some duplicates may be missing.`
+              : `${responses.length} responses`}
+          </p>
+        )}
+        {isLoading ? null : groups.length === 0 ? (
+          <Card className="p-12 text-center text-muted-foreground">
+            <CheckCircle2 className="w-10 h-10 mx-auto mb-3 text-green-600" />
+            <p>No duplicates found with these rules</p>
+          </Card>
+        ) : (
+          groups.map((group) => (
+            <Card key={group.id} className="p-4 flex items-start justify-between gap-4">
+              <div className="space-y-2 min-w-0">
+                <div className="flex items-center gap-2">
+                  <Copy className="w-4 h-4 text-muted-foreground" />
+                  <span className="font-medium">{group.responseIds.length} responses</span>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {uniqueReasons(group, labels).map((reason) => (
+                    <Badge key={reason} variant="outline">
+                      {reason}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-sm text-muted-foreground truncate">
+                  {group.responseIds
+                    .map((id) => {
+                      const response = responsesById.get(id)
+                      return `${response?.submitted_by || "Anonymous"} (${formatRelativeTime(
+                        response?.submitted_at ?? ""
+                      )})`
+                    })
+                    .join(", ")}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setActiveGroupId(group.id)}>
+                Review
+              </Button>
+            </Card>
+          ))
+        )}
+      </div>
+
+      {activeGroup && (
+        <DuplicateReviewDialog
+          key={activeGroup.id}
+          formId={formId}
+          responses={activeGroup.responseIds
+            .map((id) => responsesById.get(id))
+            .filter((response): response is FormResponse => !!response)}
+          fields={fields}
+          canResolve={canResolve}
+          onClose={() => setActiveGroupId(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+function uniqueReasons(group: DuplicateGroup, labels: Record<string, string>): string[] {
+  const kinds = new Map<string, string>()
+  group.matches.forEach((match) =>
+    match.reasons.forEach((reason) => {
+      if (!kinds.has(reason.kind)) kinds.set(reason.kind, describeDuplicateReason(reason, labels))
+    })
+  )
+  return Array.from(kinds.values())
+}
+
+interface FieldChecklistProps {
+  fields: FormField[]
+  selected: string[]
+  onToggle: (fieldId: string, checked: boolean) => void
+  empty: string
+}
+
+function FieldChecklist({ fields, selected, onToggle, empty }: FieldChecklistProps) {
+  if (fields.length === 0) return <p className="text-sm text-muted-foreground">{empty}</p>
+  return (
+    <ScrollArea className="max-h-40 rounded-md border">
+      <div className="p-2 space-y-2">
+        {fields.map((field) => (
+          <label key={field.id} className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={selected.includes(field.id)}
+              onCheckedChange={(checked) => onToggle(field.id, checked === true)}
+            />
+            <span className="truncate">{field.label}</span>
+          </label>
+        ))}
+      </div>
+    </ScrollArea>
+  )
+}
+
+interface DuplicateReviewDialogProps {
+  formId: string
+  responses: FormResponse[]
+  fields: FormField[]
+  canResolve?: boolean
+  onClose: () => void
+}
+
+function DuplicateReviewDialog({
+  formId,
+  responses,
+  fields,
+  canResolve,
+  onClose,
+}: DuplicateReviewDialogProps) {
+  const rows = useMemo(() => compareResponses(responses, fields), [responses, fields])
+  const [primaryId, setPrimaryId] = useState(responses[0]?.id ?? "")
+  const [choices, setChoices] = useState(() => defaultMergeChoices(responses, primaryId, rows))
+  const [confirmMerge, setConfirmMerge] = useState(false)
+  const dismissDuplicates = useDismissDuplicates()
+  const mergeDuplicates = useMergeDuplicates()
+  const busy = dismissDuplicates.isPending || mergeDuplicates.isPending
+
+  const choosePrimary = (id: string) => {
+    setPrimaryId(id)
+    setChoices(defaultMergeChoices(responses, id, rows))
+  }
+
+  const handleDismiss = async () => {
+    try {
+      await dismissDuplicates.mutateAsync({
+        form_id: formId,
+        response_ids: responses.map((response) => response.id),
+      })
+      onClose()
+    } catch (error) {
+      // Error handled by mutation
+    }
+  }
+
+  const handleMerge = async () => {
+    const merged = mergeResponses(responses, primaryId, choices)
+    try {
+      await mergeDuplicates.mutateAsync({
+        primary_id: primaryId,
+        duplicate_ids: responses
+          .filter((response) => response.id !== primaryId)
+          .map((response) => response.id),
+        ...merged,
+      })
+      setConfirmMerge(false)
+      onClose()
+    } catch (error) {
+      // Error handled by mutation
+    }
+  }
+
+  return (
+    <>
+      <Dialog open onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Review Suspected Duplicates</DialogTitle>
+            <DialogDescription>
+              {canResolve
+                ? "Pick the response to keep and, for each answer that differs, which value the merged response should have."
+                : "Answers that differ between the responses are highlighted."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2 font-medium w-48">Answer</th>
+                  {responses.map((response) => (
+                    <th key={response.id} className="text-left p-2 font-normal align-top">
+                      <div className="space-y-1">
+                        <code className="text-xs bg-muted px-2 py-1 rounded">
+                          {response.id.slice(0, 8)}
+                        </code>
+                        <p className="font-medium">{response.submitted_by || "Anonymous"}</p>
+                        <p
+                          className="text-xs text-muted-foreground"
+                          title={formatFullDate(response.submitted_at)}
+                        >
+                          {formatRelativeTime(response.submitted_at)}
+                        </p>
+                        {canResolve &&
+                          (response.id === primaryId ? (
+                            <Badge>Keep</Badge>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-6 text-xs"
+                              onClick={() => choosePrimary(response.id)}
+                            >
+                              Keep this one
+                            </Button>
+                          ))}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.key}
+                    className={cn("border-b", row.differs && "bg-amber-50 dark:bg-amber-950/20")}
+                  >
+                    <td className="p-2 font-medium align-top">{row.label}</td>
+                    {row.values.map((value, index) => {
+                      const responseId = responses[index].id
+                      const chosen = canResolve && choices[row.key] === responseId
+                      return (
+                        <td key={responseId} className="p-2 align-top">
+                          {canResolve && row.differs ? (
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setChoices((prev) => ({ ...prev, [row.key]: responseId }))
+                              }
+                              className={cn(
+                                "w-full text-left rounded px-2 py-1 border break-words",
+                                chosen
+                                  ? "border-primary bg-primary/10"
+                                  : "border-transparent hover:border-border"
+                              )}
+                            >
+                              {formatAnswer(value)}
+                            </button>
+                          ) : (
+                            <span className="block px-2 py-1 break-words">
+                              {formatAnswer(value)}
+                            </span>
+                          )}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            {canResolve && (
+              <>
+                <Button variant="outline" onClick={handleDismiss} disabled={busy}>
+                  {dismissDuplicates.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <X className="w-4 h-4 mr-2" />
+                  )}
+                  Not Duplicates
+                </Button>
+                <Button onClick={() => setConfirmMerge(true)} disabled={busy}>
+                  <GitMerge className="w-4 h-4 mr-2" />
+                  Merge {responses.length} Responses
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmMerge} onOpenChange={setConfirmMerge}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge responses?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The kept response is updated with the chosen answers and the other{" "}
+              {responses.length - 1} response{responses.length !== 2 ? "s are" : " is"} deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={mergeDuplicates.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleMerge()
+              }}
+              disabled={mergeDuplicates.isPending}
+            >
+              {mergeDuplicates.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Merge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -18,9 +18,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Badge } from "@/components/ui/badge"
 import {
   Filter,
-  X,
   Calendar as CalendarIcon,
-  Save,
   RotateCcw,
   ChevronDown,
 } from "lucide-react"
@@ -50,8 +48,6 @@ interface ResponseFiltersProps {
 
 export function ResponseFiltersPanel({ filters, onChange, fieldOptions = [] }: ResponseFiltersProps) {
   const [isExpanded, setIsExpanded] = useState(false)
-  const [savedFilters, setSavedFilters] = useState<Record<string, ResponseFilters>>({})
-  const [filterName, setFilterName] = useState("")
 
   const hasActiveFilters =
     filters.search ||
@@ -69,25 +65,6 @@ export function ResponseFiltersPanel({ filters, onChange, fieldOptions = [] }: R
     })
   }
 
-  const handleSaveFilter = () => {
-    if (!filterName.trim()) return
-    setSavedFilters({
-      ...savedFilters,
-      [filterName]: filters,
-    })
-    setFilterName("")
-  }
-
-  const handleLoadFilter = (name: string) => {
-    onChange(savedFilters[name])
-  }
-
-  const handleRemoveSavedFilter = (name: string) => {
-    const updated = { ...savedFilters }
-    delete updated[name]
-    setSavedFilters(updated)
-  }
-
   const updateFilter = (key: keyof ResponseFilters, value: any) => {
     onChange({ ...filters, [key]: value })
   }
@@ -250,46 +227,6 @@ export function ResponseFiltersPanel({ filters, onChange, fieldOptions = [] }: R
               ))}
             </div>
           )}
-
-          {/* Saved Filters */}
-          {Object.keys(savedFilters).length > 0 && (
-            <div className="space-y-2">
-              <Label>Saved Filters</Label>
-              <div className="flex flex-wrap gap-2">
-                {Object.keys(savedFilters).map((name) => (
-                  <Badge
-                    key={name}
-                    variant="outline"
-                    className="cursor-pointer hover:bg-accent"
-                  >
-                    <span onClick={() => handleLoadFilter(name)}>{name}</span>
-                    <X
-                      className="w-3 h-3 ml-2"
-                      onClick={(e) => {
-                        e.stopPropagation()
-                        handleRemoveSavedFilter(name)
-                      }}
-                    />
-                  </Badge>
-                ))}
-              </div>
-            </div>
-          )}
-
-          {/* Save Current Filter */}
-          <div className="space-y-2">
-            <Label>Save Current Filter</Label>
-            <div className="flex gap-2">
-              <Input
-                placeholder="Filter name..."
-                value={filterName}
-                onChange={(e) => setFilterName(e.target.value)}
-              />
-              <Button onClick={handleSaveFilter} disabled={!filterName.trim()}>
-                <Save className="w-4 h-4" />
-              </Button>
-            </div>
-          </div>
         </div>
       )}
     </Card>
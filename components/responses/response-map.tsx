@@ -0,0 +1,313 @@
+"use client"
+
+import { Fragment, useEffect, useMemo, useState } from "react"
+import {
+  Circle,
+  CircleMarker,
+  MapContainer,
+  Polygon,
+  Polyline,
+  Popup,
+  Rectangle,
+  TileLayer,
+  Tooltip,
+  useMap,
+  useMapEvents,
+} from "react-leaflet"
+import "leaflet/dist/leaflet.css"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Eye, Flame, MapPin, PenTool, X, Check, Undo2 } from "lucide-react"
+import {
+  buildHeatmapCells,
+  clusterPoints,
+  getPointsBounds,
+  type GeoPolygon,
+  type PointCluster,
+  type ResponsePoint,
+} from "@/lib/response-geo"
+import { formatRelativeTime } from "@/lib/date-utils"
+import type { FormResponse } from "@/lib/types"
+
+export type ResponseMapMode = "markers" | "heatmap"
+
+interface ResponseMapProps {
+  points: ResponsePoint[]
+  responses: FormResponse[]
+  /** Label for each GPS field, shown in popups */
+  fieldLabels?: Record<string, string>
+  selectionArea: GeoPolygon | null
+  onSelectionAreaChange: (area: GeoPolygon | null) => void
+  onOpenResponse: (response: FormResponse) => void
+}
+
+const HEAT_COLORS = ["#fde68a", "#fbbf24", "#f97316", "#dc2626", "#7f1d1d"]
+const MARKER_COLOR = "#2563eb"
+
+function heatColor(intensity: number): string {
+  return HEAT_COLORS[Math.min(Math.floor(intensity * HEAT_COLORS.length), HEAT_COLORS.length - 1)]
+}
+
+/** Keeps the zoom level in React state and fits the map to the points once */
+function MapViewport({
+  points,
+  onZoomChange,
+}: {
+  points: ResponsePoint[]
+  onZoomChange: (zoom: number) => void
+}) {
+  const map = useMap()
+  const [hasFitted, setHasFitted] = useState(false)
+
+  useMapEvents({
+    zoomend: () => onZoomChange(map.getZoom()),
+  })
+
+  useEffect(() => {
+    const bounds = getPointsBounds(points)
+    if (!bounds || hasFitted) return
+    map.fitBounds(bounds, { padding: [40, 40], maxZoom: 15 })
+    onZoomChange(map.getZoom())
+    setHasFitted(true)
+  }, [map, points, hasFitted, onZoomChange])
+
+  return null
+}
+
+/** Adds a vertex on each map click while an area is being drawn */
+function AreaDrawer({ onAddVertex }: { onAddVertex: (vertex: [number, number]) => void }) {
+  useMapEvents({
+    click: (event: { latlng: { lat: number; lng: number } }) =>
+      onAddVertex([event.latlng.lat, event.latlng.lng]),
+  })
+  return null
+}
+
+function ClusterMarker({ cluster }: { cluster: PointCluster }) {
+  const map = useMap()
+  const count = cluster.points.length
+
+  return (
+    <CircleMarker
+      center={[cluster.latitude, cluster.longitude]}
+      radius={Math.min(12 + Math.log2(count) * 4, 32)}
+      pathOptions={{ color: MARKER_COLOR, fillColor: MARKER_COLOR, fillOpacity: 0.6, weight: 2 }}
+      eventHandlers={{
+        click: () => map.setView([cluster.latitude, cluster.longitude], map.getZoom() + 2),
+      }}
+    >
+      <Tooltip permanent direction="center">
+        {count}
+      </Tooltip>
+    </CircleMarker>
+  )
+}
+
+/**
+ * Leaflet map of GPS answers with clustered markers, accuracy circles, a
+ * heatmap mode and polygon area selection. Leaflet needs `window`, so load
+ * this with `next/dynamic` and `ssr: false`.
+ */
+export function ResponseMap({
+  points,
+  responses,
+  fieldLabels = {},
+  selectionArea,
+  onSelectionAreaChange,
+  onOpenResponse,
+}: ResponseMapProps) {
+  const [mode, setMode] = useState<ResponseMapMode>("markers")
+  const [zoom, setZoom] = useState(2)
+  const [draft, setDraft] = useState<GeoPolygon | null>(null)
+
+  const responsesById = useMemo(
+    () => new Map(responses.map((response) => [response.id, response])),
+    [responses]
+  )
+  const clusters = useMemo(() => clusterPoints(points, zoom), [points, zoom])
+  const heatCells = useMemo(
+    () => (mode === "heatmap" ? buildHeatmapCells(points, zoom) : []),
+    [mode, points, zoom]
+  )
+
+  const isDrawing = draft !== null
+
+  const finishDrawing = () => {
+    if (draft && draft.length >= 3) onSelectionAreaChange(draft)
+    setDraft(null)
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant={mode === "markers" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setMode("markers")}
+        >
+          <MapPin className="w-4 h-4 mr-2" />
+          Markers
+        </Button>
+        <Button
+          variant={mode === "heatmap" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setMode("heatmap")}
+        >
+          <Flame className="w-4 h-4 mr-2" />
+          Heatmap
+        </Button>
+
+        <div className="ml-auto flex items-center gap-2">
+          {isDrawing ? (
+            <>
+              <span className="text-sm text-muted-foreground">
+                Click the map to outline an area ({draft.length} points)
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft(draft.slice(0, -1))}
+                disabled={draft.length === 0}
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                Undo
+              </Button>
+              <Button size="sm" onClick={finishDrawing} disabled={draft.length < 3}>
+                <Check className="w-4 h-4 mr-2" />
+                Finish
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <>
+              {selectionArea && (
+                <Button variant="ghost" size="sm" onClick={() => onSelectionAreaChange(null)}>
+                  <X className="w-4 h-4 mr-2" />
+                  Clear area
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => setDraft([])}>
+                <PenTool className="w-4 h-4 mr-2" />
+                {selectionArea ? "Redraw area" : "Select area"}
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {points.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-[500px] rounded-lg border border-dashed text-muted-foreground">
+          <MapPin className="w-10 h-10 mb-3 opacity-50" />
+          <p>No GPS answers to show</p>
+        </div>
+      ) : (
+        <MapContainer
+          center={[0, 0]}
+          zoom={2}
+          scrollWheelZoom
+          className="h-[500px] w-full rounded-lg border z-0"
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          <MapViewport points={points} onZoomChange={setZoom} />
+          {isDrawing && <AreaDrawer onAddVertex={(vertex) => setDraft([...draft, vertex])} />}
+
+          {mode === "heatmap"
+            ? heatCells.map((cell) => (
+                <Rectangle
+                  key={cell.id}
+                  bounds={cell.bounds}
+                  pathOptions={{
+                    stroke: false,
+                    fillColor: heatColor(cell.intensity),
+                    fillOpacity: 0.35 + cell.intensity * 0.4,
+                  }}
+                >
+                  <Tooltip>
+                    {cell.count} {cell.count === 1 ? "response" : "responses"}
+                  </Tooltip>
+                </Rectangle>
+              ))
+            : clusters.map((cluster) => {
+                if (cluster.points.length > 1) {
+                  return <ClusterMarker key={cluster.id} cluster={cluster} />
+                }
+
+                const point = cluster.points[0]
+                const response = responsesById.get(point.responseId)
+                return (
+                  <Fragment key={`${point.responseId}-${point.fieldId}`}>
+                    {point.accuracy && (
+                      <Circle
+                        center={[point.latitude, point.longitude]}
+                        radius={point.accuracy}
+                        pathOptions={{ color: MARKER_COLOR, weight: 1, fillOpacity: 0.1 }}
+                      />
+                    )}
+                    <CircleMarker
+                      center={[point.latitude, point.longitude]}
+                      radius={7}
+                      pathOptions={{
+                        color: "#ffffff",
+                        fillColor: MARKER_COLOR,
+                        fillOpacity: 1,
+                        weight: 2,
+                      }}
+                    >
+                      <Popup>
+                        <div className="space-y-1 text-sm">
+                          <p className="font-medium">{response?.submitted_by || "Anonymous"}</p>
+                          {response?.submitted_at && (
+                            <p className="text-muted-foreground">
+                              {formatRelativeTime(response.submitted_at)}
+                            </p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {fieldLabels[point.fieldId] || point.fieldId}:{" "}
+                            {point.latitude.toFixed(5)}, {point.longitude.toFixed(5)}
+                            {point.accuracy ? ` (±${Math.round(point.accuracy)} m)` : ""}
+                          </p>
+                          {response && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="mt-2 w-full"
+                              onClick={() => onOpenResponse(response)}
+                            >
+                              <Eye className="w-3 h-3 mr-1" />
+                              View response
+                            </Button>
+                          )}
+                        </div>
+                      </Popup>
+                    </CircleMarker>
+                  </Fragment>
+                )
+              })}
+
+          {selectionArea && !isDrawing && (
+            <Polygon
+              positions={selectionArea}
+              pathOptions={{ color: "#7c3aed", weight: 2, fillOpacity: 0.08, dashArray: "6 4" }}
+            />
+          )}
+          {isDrawing && draft.length > 0 && (
+            <Polyline positions={draft} pathOptions={{ color: "#7c3aed", weight: 2 }} />
+          )}
+        </MapContainer>
+      )}
+
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Badge variant="secondary">{points.length} locations</Badge>
+        {mode === "markers"
+          ? "Click a cluster to zoom in; circles show reported GPS accuracy."
+          : "Darker cells hold more responses."}
+      </div>
+    </div>
+  )
+}
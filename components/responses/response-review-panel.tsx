@@ -0,0 +1,263 @@
+"use client"
+
+/**
+ * Response Review Panel
+ * Review status, field comments and approve / flag / return actions for a
+ * single response
+ */
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { CheckCircle2, Flag, Loader2, MessageSquare, Undo2, X } from "lucide-react"
+import type { FormField, FormResponse, ResponseReviewStatus } from "@/lib/types"
+import { describeResponseData } from "@/lib/repeating-groups"
+import { formatFullDate, formatRelativeTime } from "@/lib/date-utils"
+import {
+  REVIEW_STATUSES,
+  REVIEW_TRANSITIONS,
+  getOpenFieldComments,
+  getReviewStatus,
+  validateReviewAction,
+  type ReviewDecision,
+} from "@/lib/response-review"
+import { useReviewResponse } from "@/hooks/use-responses"
+
+const STATUS_VARIANTS: Record<
+  ResponseReviewStatus,
+  "secondary" | "success" | "warning" | "destructive"
+> = {
+  pending: "secondary",
+  approved: "success",
+  flagged: "warning",
+  needs_correction: "destructive",
+}
+
+const ACTIONS: Record<
+  ReviewDecision,
+  { label: string; icon: typeof CheckCircle2; variant: "default" | "outline" | "destructive" }
+> = {
+  approved: { label: "Approve", icon: CheckCircle2, variant: "default" },
+  flagged: { label: "Flag", icon: Flag, variant: "outline" },
+  needs_correction: { label: "Request Correction", icon: Undo2, variant: "destructive" },
+}
+
+export function ResponseReviewBadge({ status }: { status?: ResponseReviewStatus }) {
+  const value = status ?? "pending"
+  return (
+    <Badge variant={STATUS_VARIANTS[value]} title={REVIEW_STATUSES[value].description}>
+      {REVIEW_STATUSES[value].label}
+    </Badge>
+  )
+}
+
+interface ResponseReviewPanelProps {
+  response: FormResponse
+  fields?: FormField[]
+  /** Show the review actions; without it the panel is read-only */
+  canReview?: boolean
+}
+
+export function ResponseReviewPanel({ response, fields, canReview }: ResponseReviewPanelProps) {
+  const [note, setNote] = useState("")
+  const [commentField, setCommentField] = useState("")
+  const [commentText, setCommentText] = useState("")
+  const [fieldComments, setFieldComments] = useState<{ field_id: string; comment: string }[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const reviewResponse = useReviewResponse()
+
+  const status = getReviewStatus(response)
+  const openComments = getOpenFieldComments(response)
+  const answers = useMemo(
+    () => describeResponseData(response.data, fields),
+    [response.data, fields]
+  )
+  const labelFor = (key: string) => answers.find((answer) => answer.key === key)?.label ?? key
+
+  const addComment = () => {
+    if (!commentField || !commentText.trim()) return
+    setFieldComments((prev) => [...prev, { field_id: commentField, comment: commentText.trim() }])
+    setCommentText("")
+    setError(null)
+  }
+
+  const handleReview = async (to: ReviewDecision) => {
+    const problem = validateReviewAction(status, to, note, fieldComments)
+    if (problem) {
+      setError(problem)
+      return
+    }
+    try {
+      await reviewResponse.mutateAsync({
+        id: response.id,
+        status: to,
+        note: note.trim() || undefined,
+        field_comments: fieldComments.length > 0 ? fieldComments : undefined,
+      })
+      setNote("")
+      setFieldComments([])
+      setError(null)
+    } catch (error) {
+      // Error handled by mutation
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-6 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-semibold">Review Status</h4>
+          <ResponseReviewBadge status={status} />
+        </div>
+        {response.reviewed_at && (
+          <p className="text-sm text-muted-foreground" title={formatFullDate(response.reviewed_at)}>
+            Reviewed {formatRelativeTime(response.reviewed_at)}
+            {response.reviewed_by ? ` by ${response.reviewed_by}` : ""}
+          </p>
+        )}
+        {response.review_note && (
+          <p className="text-sm bg-muted p-3 rounded-lg whitespace-pre-wrap">
+            {response.review_note}
+          </p>
+        )}
+        {!!response.revision && (
+          <p className="text-xs text-muted-foreground">
+            Amended {response.revision} time{response.revision !== 1 ? "s" : ""}
+          </p>
+        )}
+      </Card>
+
+      {openComments.size > 0 && (
+        <Card className="p-6 space-y-3">
+          <h4 className="font-semibold flex items-center gap-2">
+            <MessageSquare className="w-4 h-4" />
+            Open Field Comments
+          </h4>
+          {Array.from(openComments.entries()).map(([fieldId, comments]) => (
+            <div key={fieldId} className="space-y-1">
+              <p className="text-sm font-medium">{labelFor(fieldId)}</p>
+              {comments.map((comment) => (
+                <p key={comment.id} className="text-sm text-muted-foreground pl-3 border-l-2">
+                  {comment.comment}
+                  <span className="text-xs ml-2">
+                    — {comment.author_name || comment.author_id},{" "}
+                    {formatRelativeTime(comment.created_at)}
+                  </span>
+                </p>
+              ))}
+            </div>
+          ))}
+        </Card>
+      )}
+
+      {canReview && (
+        <Card className="p-6 space-y-4">
+          <h4 className="font-semibold">Review</h4>
+
+          <div className="space-y-2">
+            <Label>Comment on an answer</Label>
+            <div className="flex gap-2">
+              <Select value={commentField} onValueChange={setCommentField}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Select an answer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {answers.map((answer) => (
+                    <SelectItem key={answer.key} value={answer.key}>
+                      {answer.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Textarea
+                value={commentText}
+                onChange={(e) => setCommentText(e.target.value)}
+                placeholder="What is wrong with this answer?"
+                className="min-h-10 flex-1"
+                rows={1}
+              />
+              <Button
+                variant="outline"
+                onClick={addComment}
+                disabled={!commentField || !commentText.trim()}
+              >
+                Add
+              </Button>
+            </div>
+            {fieldComments.length > 0 && (
+              <div className="space-y-1">
+                {fieldComments.map((comment, index) => (
+                  <div
+                    key={`${comment.field_id}-${index}`}
+                    className="flex items-start justify-between gap-2 text-sm bg-muted/50 px-3 py-2 rounded"
+                  >
+                    <span>
+                      <span className="font-medium">{labelFor(comment.field_id)}:</span>{" "}
+                      {comment.comment}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => setFieldComments((prev) => prev.filter((_, i) => i !== index))}
+                      aria-label="Remove comment"
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-note">Note</Label>
+            <Textarea
+              id="review-note"
+              value={note}
+              onChange={(e) => {
+                setNote(e.target.value)
+                setError(null)
+              }}
+              placeholder="Shown to the agent when the response is returned or flagged"
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex flex-wrap justify-end gap-2">
+            {REVIEW_TRANSITIONS[status].map((to) => {
+              const action = ACTIONS[to]
+              const Icon = action.icon
+              return (
+                <Button
+                  key={to}
+                  variant={action.variant}
+                  onClick={() => handleReview(to)}
+                  disabled={reviewResponse.isPending}
+                >
+                  {reviewResponse.isPending && reviewResponse.variables?.status === to ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Icon className="w-4 h-4 mr-2" />
+                  )}
+                  {action.label}
+                </Button>
+              )
+            })}
+          </div>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+"use client"
+
+/**
+ * Response Revision History
+ * Amendments to a response, each shown as a diff against the previous revision
+ */
+
+import { Badge } from "@/components/ui/badge"
+import { Card } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { History } from "lucide-react"
+import type { FormField } from "@/lib/types"
+import { formatFullDate, formatRelativeTime } from "@/lib/date-utils"
+import { diffResponseData, formatAnswer } from "@/lib/response-review"
+import { useResponseRevisions } from "@/hooks/use-responses"
+
+interface ResponseRevisionHistoryProps {
+  responseId: string
+  fields?: FormField[]
+}
+
+export function ResponseRevisionHistory({ responseId, fields }: ResponseRevisionHistoryProps) {
+  const { data: revisions = [], isLoading } = useResponseRevisions(responseId)
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <Skeleton key={i} className="h-24 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  if (revisions.length <= 1) {
+    return (
+      <Card className="p-6 text-center text-muted-foreground">
+        <History className="w-8 h-8 mx-auto mb-2" />
+        <p>This response has not been amended</p>
+      </Card>
+    )
+  }
+
+  // Newest amendment first; the original submission has nothing to compare against
+  const amendments = revisions
+    .slice(1)
+    .map((revision, index) => ({
+      revision,
+      changes: diffResponseData(revisions[index].data, revision.data, fields),
+    }))
+    .reverse()
+
+  return (
+    <div className="space-y-4">
+      {amendments.map(({ revision, changes }) => (
+        <Card key={revision.id} className="p-6 space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h4 className="font-semibold">Revision {revision.revision}</h4>
+              <p
+                className="text-sm text-muted-foreground"
+                title={formatFullDate(revision.created_at)}
+              >
+                {revision.created_by_name || revision.created_by},{" "}
+                {formatRelativeTime(revision.created_at)}
+              </p>
+            </div>
+            <Badge variant="outline">
+              {changes.length} change{changes.length !== 1 ? "s" : ""}
+            </Badge>
+          </div>
+          {revision.note && (
+            <p className="text-sm bg-muted p-3 rounded-lg whitespace-pre-wrap">{revision.note}</p>
+          )}
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No answers changed</p>
+          ) : (
+            <div className="divide-y rounded-lg border text-sm">
+              {changes.map((change) => (
+                <div key={change.key} className="grid grid-cols-3 gap-3 px-3 py-2">
+                  <span className="font-medium">{change.label}</span>
+                  <span
+                    className={
+                      change.kind === "added"
+                        ? "text-muted-foreground"
+                        : "text-red-700 dark:text-red-400 line-through break-words"
+                    }
+                  >
+                    {formatAnswer(change.before)}
+                  </span>
+                  <span
+                    className={
+                      change.kind === "removed"
+                        ? "text-muted-foreground"
+                        : "text-green-700 dark:text-green-400 break-words"
+                    }
+                  >
+                    {formatAnswer(change.after)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,282 @@
+"use client"
+
+/**
+ * Response Saved Views
+ * Switch between, save, share and link named presets of the responses table
+ */
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Bookmark, Check, ChevronDown, Link2, Loader2, Save, Trash2, Users } from "lucide-react"
+import type { SavedResponseView } from "@/lib/types"
+import { encodeViewState, decodeViewState, type ResponseViewState } from "@/lib/response-views"
+import { useStore } from "@/lib/store"
+import { useToast } from "@/hooks/use-toast"
+import { useRoles } from "@/hooks/rbac/use-roles"
+import {
+  useCreateResponseView,
+  useDeleteResponseView,
+  useResponseViews,
+  useUpdateResponseView,
+} from "@/hooks/use-response-views"
+
+interface ResponseSavedViewsProps {
+  formId: string
+  current: ResponseViewState
+  onApply: (state: ResponseViewState) => void
+}
+
+export function ResponseSavedViews({ formId, current, onApply }: ResponseSavedViewsProps) {
+  const [activeViewId, setActiveViewId] = useState<string | null>(null)
+  const [saveOpen, setSaveOpen] = useState(false)
+  const { user } = useStore()
+  const { toast } = useToast()
+  const { data: views = [] } = useResponseViews(formId)
+  const updateView = useUpdateResponseView()
+  const deleteView = useDeleteResponseView()
+
+  const token = encodeViewState(current)
+  // A view opened from a link or the command palette is recognised by its state
+  const activeView =
+    views.find((view) => view.id === activeViewId) ?? views.find((view) => view.state === token)
+  const isModified = !!activeView && activeView.state !== token
+  const isOwner = !!activeView && activeView.owner_id === user?.id
+
+  const myViews = views.filter((view) => view.owner_id === user?.id)
+  const sharedViews = views.filter((view) => view.owner_id !== user?.id)
+
+  const handleApply = (view: SavedResponseView) => {
+    const state = decodeViewState(view.state)
+    if (!state) {
+      toast({
+        title: "Error",
+        description: `View "${view.name}" could not be opened`,
+        variant: "destructive",
+      })
+      return
+    }
+    setActiveViewId(view.id)
+    onApply(state)
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast({ title: "Success", description: "Link to this view copied" })
+    } catch {
+      toast({ title: "Error", description: "Failed to copy link", variant: "destructive" })
+    }
+  }
+
+  const renderItem = (view: SavedResponseView) => (
+    <DropdownMenuItem key={view.id} onSelect={() => handleApply(view)}>
+      <Check
+        className={`w-4 h-4 mr-2 ${activeView?.id === view.id ? "opacity-100" : "opacity-0"}`}
+      />
+      <span className="flex-1 truncate">{view.name}</span>
+      {view.visibility === "role" && (
+        <Badge variant="outline" className="ml-2 text-xs">
+          <Users className="w-3 h-3 mr-1" />
+          {view.role_name || "Shared"}
+        </Badge>
+      )}
+    </DropdownMenuItem>
+  )
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Bookmark className="w-4 h-4 mr-2" />
+            <span className="max-w-40 truncate">{activeView ? activeView.name : "Views"}</span>
+            {isModified && <span className="ml-1 text-muted-foreground">(modified)</span>}
+            <ChevronDown className="w-4 h-4 ml-2" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          {myViews.length > 0 && (
+            <>
+              <DropdownMenuLabel>My Views</DropdownMenuLabel>
+              {myViews.map(renderItem)}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuLabel>Shared With Me</DropdownMenuLabel>
+              {sharedViews.map(renderItem)}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          {isOwner && isModified && (
+            <DropdownMenuItem
+              onSelect={() => updateView.mutate({ id: activeView.id, state: token })}
+              disabled={updateView.isPending}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Update &quot;{activeView.name}&quot;
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => setSaveOpen(true)}>
+            <Save className="w-4 h-4 mr-2" />
+            Save as New View...
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleCopyLink}>
+            <Link2 className="w-4 h-4 mr-2" />
+            Copy Link
+          </DropdownMenuItem>
+          {isOwner && (
+            <DropdownMenuItem
+              className="text-destructive"
+              onSelect={() =>
+                deleteView.mutate(activeView.id, { onSuccess: () => setActiveViewId(null) })
+              }
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete &quot;{activeView.name}&quot;
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {saveOpen && (
+        <SaveViewDialog
+          formId={formId}
+          token={token}
+          onClose={() => setSaveOpen(false)}
+          onSaved={(view) => setActiveViewId(view.id)}
+        />
+      )}
+    </>
+  )
+}
+
+interface SaveViewDialogProps {
+  formId: string
+  token: string
+  onClose: () => void
+  onSaved: (view: SavedResponseView) => void
+}
+
+function SaveViewDialog({ formId, token, onClose, onSaved }: SaveViewDialogProps) {
+  const [name, setName] = useState("")
+  const [visibility, setVisibility] = useState<"private" | "role">("private")
+  const [roleId, setRoleId] = useState("")
+  const { data: roles = [] } = useRoles()
+  const createView = useCreateResponseView()
+
+  const canSave = !!name.trim() && (visibility === "private" || !!roleId)
+
+  const handleSave = async () => {
+    if (!canSave) return
+    try {
+      const view = await createView.mutateAsync({
+        name: name.trim(),
+        form_id: formId,
+        state: token,
+        visibility,
+        role_id: visibility === "role" ? roleId : undefined,
+      })
+      onSaved(view)
+      onClose()
+    } catch (error) {
+      // Error handled by mutation
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save View</DialogTitle>
+          <DialogDescription>
+            Saves the visualisation, filters, columns, sort and grouping currently shown
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name</Label>
+            <Input
+              id="view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Flagged this week"
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Who can use it</Label>
+            <RadioGroup
+              value={visibility}
+              onValueChange={(value) => setVisibility(value as "private" | "role")}
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="private" id="view-private" />
+                <Label htmlFor="view-private" className="font-normal">
+                  Only me
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="role" id="view-role" />
+                <Label htmlFor="view-role" className="font-normal">
+                  Everyone with a role
+                </Label>
+              </div>
+            </RadioGroup>
+            {visibility === "role" && (
+              <Select value={roleId} onValueChange={setRoleId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map((role) => (
+                    <SelectItem key={role.id} value={role.id}>
+                      {role.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || createView.isPending}>
+            {createView.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save View
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
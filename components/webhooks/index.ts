@@ -0,0 +1,3 @@
+export { WebhookDeliveryInspector } from "./webhook-delivery-inspector"
+export { WebhookSignatureVerifier } from "./webhook-signature-verifier"
+export { WebhookEventCatalogue } from "./webhook-event-catalogue"
@@ -0,0 +1,378 @@
+"use client"
+
+/**
+ * Webhook Delivery Inspector
+ * Lists delivery attempts for a webhook with their request and response,
+ * checks each payload's signature against the webhook secret and re-sends
+ * selected deliveries
+ */
+
+import { useEffect, useMemo, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { formatDistanceToNow } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { webhooksAPI } from "@/lib/api"
+import { useToast } from "@/hooks/use-toast"
+import { SIGNATURE_HEADER, formatBody, getHeader, verifySignature } from "@/lib/webhooks"
+import type { SignatureCheck } from "@/lib/webhooks"
+import type { Webhook, WebhookDelivery } from "@/lib/types"
+import {
+  CheckCircle2,
+  Clock,
+  Inbox,
+  Loader2,
+  RotateCcw,
+  ShieldAlert,
+  ShieldCheck,
+  XCircle,
+} from "lucide-react"
+
+interface WebhookDeliveryInspectorProps {
+  webhook: Webhook
+}
+
+type StatusFilter = "all" | "failed"
+
+const statusBadges: Record<WebhookDelivery["status"], { label: string; className: string }> = {
+  success: {
+    label: "Delivered",
+    className: "bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-300",
+  },
+  failed: {
+    label: "Failed",
+    className: "bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-300",
+  },
+  pending: {
+    label: "Pending",
+    className: "bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-300",
+  },
+}
+
+function HeadersTable({ headers }: { headers?: Record<string, string> }) {
+  const entries = Object.entries(headers ?? {})
+  if (entries.length === 0) {
+    return <p className="text-xs text-muted-foreground">No headers recorded</p>
+  }
+  return (
+    <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-xs font-mono">
+      {entries.map(([name, value]) => (
+        <div key={name} className="contents">
+          <dt className="text-muted-foreground">{name}</dt>
+          <dd className="break-all">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
+
+function Body({ body }: { body?: string }) {
+  if (!body) return <p className="text-xs text-muted-foreground">Empty body</p>
+  return (
+    <pre className="bg-muted p-3 rounded-lg text-xs overflow-auto max-h-72 whitespace-pre-wrap break-all">
+      {formatBody(body)}
+    </pre>
+  )
+}
+
+function SignatureResult({ webhook, delivery }: { webhook: Webhook; delivery: WebhookDelivery }) {
+  const header = getHeader(delivery.request_headers, SIGNATURE_HEADER)
+  const [check, setCheck] = useState<SignatureCheck | null>(null)
+  const [checkError, setCheckError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setCheck(null)
+    setCheckError(null)
+    if (header === undefined) return
+
+    verifySignature(webhook.secret, delivery.request_body, header)
+      .then((result) => {
+        if (!cancelled) setCheck(result)
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setCheckError(error.message || "The signature could not be checked")
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [webhook.secret, delivery.request_body, header])
+
+  if (header === undefined) {
+    return (
+      <div className="flex items-start gap-2 text-sm text-amber-700 dark:text-amber-400">
+        <ShieldAlert className="w-4 h-4 mt-0.5" />
+        This delivery has no {SIGNATURE_HEADER} header
+      </div>
+    )
+  }
+  if (checkError) {
+    return (
+      <div className="flex items-start gap-2 text-sm text-amber-700 dark:text-amber-400">
+        <ShieldAlert className="w-4 h-4 mt-0.5" />
+        {checkError}
+      </div>
+    )
+  }
+  if (!check) {
+    return <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+  }
+
+  return (
+    <div className="space-y-3">
+      <div
+        className={`flex items-start gap-2 text-sm ${
+          check.valid ? "text-green-700 dark:text-green-400" : "text-red-700 dark:text-red-400"
+        }`}
+      >
+        {check.valid ? (
+          <ShieldCheck className="w-4 h-4 mt-0.5" />
+        ) : (
+          <ShieldAlert className="w-4 h-4 mt-0.5" />
+        )}
+        {check.valid
+          ? "Signature matches the webhook secret"
+          : "Signature does not match the current webhook secret. The body may have been altered, or the secret rotated since delivery."}
+      </div>
+      <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-xs font-mono">
+        <dt className="text-muted-foreground">Received</dt>
+        <dd className="break-all">{check.received ?? `${header} (malformed)`}</dd>
+        <dt className="text-muted-foreground">Expected</dt>
+        <dd className="break-all">{check.expected}</dd>
+      </dl>
+    </div>
+  )
+}
+
+export function WebhookDeliveryInspector({ webhook }: WebhookDeliveryInspectorProps) {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [filter, setFilter] = useState<StatusFilter>("all")
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+
+  const logsKey = ["webhooks", webhook.id, "logs"]
+  const { data: deliveries = [], isLoading } = useQuery({
+    queryKey: logsKey,
+    queryFn: async () => {
+      const response = await webhooksAPI.getWebhookLogs(webhook.id)
+      return (response.data.data as { logs: WebhookDelivery[] }).logs ?? []
+    },
+  })
+
+  const replayMutation = useMutation({
+    mutationFn: (ids: string[]) => webhooksAPI.replayDeliveries(webhook.id, ids),
+    onSuccess: (_, ids) => {
+      queryClient.invalidateQueries({ queryKey: logsKey })
+      toast({
+        title: "Replay Queued",
+        description: `${ids.length} ${ids.length === 1 ? "delivery" : "deliveries"} will be re-sent with a fresh signature.`,
+      })
+      setSelectedIds(new Set())
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Replay Failed",
+        description: error.response?.data?.detail || "Failed to replay deliveries",
+        variant: "destructive",
+      })
+    },
+  })
+
+  const visible = useMemo(
+    () =>
+      filter === "failed"
+        ? deliveries.filter((delivery) => delivery.status === "failed")
+        : deliveries,
+    [deliveries, filter]
+  )
+  const active = deliveries.find((delivery) => delivery.id === activeId) ?? visible[0] ?? null
+  const failedCount = deliveries.filter((delivery) => delivery.status === "failed").length
+  const allVisibleSelected =
+    visible.length > 0 && visible.every((delivery) => selectedIds.has(delivery.id))
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const toggleAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visible.map((delivery) => delivery.id)))
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (deliveries.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Inbox className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+        <p className="text-muted-foreground">
+          No deliveries yet. Send a test event to see one here.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Button
+            variant={filter === "all" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setFilter("all")}
+          >
+            All ({deliveries.length})
+          </Button>
+          <Button
+            variant={filter === "failed" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setFilter("failed")}
+          >
+            Failed ({failedCount})
+          </Button>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => replayMutation.mutate([...selectedIds])}
+          disabled={selectedIds.size === 0 || replayMutation.isPending || !webhook.enabled}
+          title={webhook.enabled ? undefined : "Enable the webhook to replay deliveries"}
+        >
+          {replayMutation.isPending ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <RotateCcw className="w-4 h-4 mr-2" />
+          )}
+          Replay selected{selectedIds.size > 0 && ` (${selectedIds.size})`}
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-[280px_1fr]">
+        <div className="border rounded-lg">
+          <div className="flex items-center gap-2 px-3 py-2 border-b text-xs text-muted-foreground">
+            <Checkbox
+              checked={allVisibleSelected}
+              onCheckedChange={toggleAllVisible}
+              aria-label="Select all shown deliveries"
+            />
+            Select all shown
+          </div>
+          <ScrollArea className="h-[420px]">
+            <ul>
+              {visible.map((delivery) => (
+                <li
+                  key={delivery.id}
+                  className={`flex items-start gap-2 px-3 py-2 border-b last:border-b-0 ${
+                    active?.id === delivery.id ? "bg-muted" : "hover:bg-muted/50"
+                  }`}
+                >
+                  <Checkbox
+                    checked={selectedIds.has(delivery.id)}
+                    onCheckedChange={() => toggleSelected(delivery.id)}
+                    className="mt-0.5"
+                    aria-label={`Select delivery ${delivery.id}`}
+                  />
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left"
+                    onClick={() => setActiveId(delivery.id)}
+                  >
+                    <div className="flex items-center gap-2">
+                      {delivery.status === "success" ? (
+                        <CheckCircle2 className="w-3 h-3 text-green-600" />
+                      ) : delivery.status === "failed" ? (
+                        <XCircle className="w-3 h-3 text-red-600" />
+                      ) : (
+                        <Clock className="w-3 h-3 text-amber-600" />
+                      )}
+                      <span className="text-sm font-medium truncate">{delivery.event}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {delivery.response_status ?? "No response"}
+                      {delivery.duration_ms !== undefined && ` · ${delivery.duration_ms} ms`}
+                      {" · "}
+                      {formatDistanceToNow(new Date(delivery.created_at))} ago
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        </div>
+
+        {active && (
+          <div className="border rounded-lg p-4 space-y-4 min-w-0">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <h4 className="font-medium">{active.event}</h4>
+                <p className="text-xs text-muted-foreground font-mono break-all">{active.id}</p>
+              </div>
+              <Badge variant="outline" className={statusBadges[active.status].className}>
+                {statusBadges[active.status].label}
+              </Badge>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 text-xs">
+              <div>
+                <p className="text-muted-foreground">Status</p>
+                <p className="font-medium">{active.response_status ?? "—"}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Latency</p>
+                <p className="font-medium">
+                  {active.duration_ms !== undefined ? `${active.duration_ms} ms` : "—"}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Attempt</p>
+                <p className="font-medium">
+                  {active.attempt}
+                  {active.replay_of && " (replay)"}
+                </p>
+              </div>
+            </div>
+
+            {active.error && (
+              <p className="text-sm text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-950 rounded p-2">
+                {active.error}
+              </p>
+            )}
+
+            <Tabs defaultValue="request">
+              <TabsList>
+                <TabsTrigger value="request">Request</TabsTrigger>
+                <TabsTrigger value="response">Response</TabsTrigger>
+                <TabsTrigger value="signature">Signature</TabsTrigger>
+              </TabsList>
+              <TabsContent value="request" className="space-y-3">
+                <p className="text-xs font-mono break-all">POST {active.request_url}</p>
+                <HeadersTable headers={active.request_headers} />
+                <Body body={active.request_body} />
+              </TabsContent>
+              <TabsContent value="response" className="space-y-3">
+                <HeadersTable headers={active.response_headers} />
+                <Body body={active.response_body} />
+              </TabsContent>
+              <TabsContent value="signature">
+                <SignatureResult webhook={webhook} delivery={active} />
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+"use client"
+
+/**
+ * Webhook Event Catalogue
+ * Payload schema and example for every event a webhook can subscribe to
+ */
+
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { WEBHOOK_EVENTS, examplePayload, payloadSchema } from "@/lib/webhooks"
+
+export function WebhookEventCatalogue() {
+  return (
+    <Accordion type="single" collapsible className="w-full">
+      {WEBHOOK_EVENTS.map((event) => (
+        <AccordionItem key={event.id} value={event.id}>
+          <AccordionTrigger className="text-sm">
+            <span className="flex items-center gap-3">
+              <code className="text-xs bg-muted px-2 py-0.5 rounded">{event.id}</code>
+              <span className="text-muted-foreground font-normal">{event.description}</span>
+            </span>
+          </AccordionTrigger>
+          <AccordionContent>
+            <Tabs defaultValue="example">
+              <TabsList>
+                <TabsTrigger value="example">Example</TabsTrigger>
+                <TabsTrigger value="schema">Schema</TabsTrigger>
+              </TabsList>
+              <TabsContent value="example">
+                <pre className="bg-muted p-3 rounded-lg text-xs overflow-auto max-h-80">
+                  {JSON.stringify(examplePayload(event), null, 2)}
+                </pre>
+              </TabsContent>
+              <TabsContent value="schema">
+                <pre className="bg-muted p-3 rounded-lg text-xs overflow-auto max-h-80">
+                  {JSON.stringify(payloadSchema(event), null, 2)}
+                </pre>
+              </TabsContent>
+            </Tabs>
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  )
+}
@@ -0,0 +1,198 @@
+"use client"
+
+/**
+ * Webhook Signature Verifier
+ * Checks a pasted payload and signature header against a webhook's secret,
+ * with receiver-side verification snippets
+ */
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { SIGNATURE_HEADER, verificationSnippets, verifySignature } from "@/lib/webhooks"
+import type { SignatureCheck } from "@/lib/webhooks"
+import type { Webhook } from "@/lib/types"
+import { Loader2, ShieldAlert, ShieldCheck } from "lucide-react"
+
+interface WebhookSignatureVerifierProps {
+  webhooks: Webhook[]
+}
+
+const snippets = verificationSnippets()
+
+export function WebhookSignatureVerifier({ webhooks }: WebhookSignatureVerifierProps) {
+  const [webhookId, setWebhookId] = useState<string>("")
+  const [customSecret, setCustomSecret] = useState("")
+  const [body, setBody] = useState("")
+  const [header, setHeader] = useState("")
+  const [check, setCheck] = useState<SignatureCheck | null>(null)
+  const [checkError, setCheckError] = useState<string | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+
+  const secret = webhooks.find((webhook) => webhook.id === webhookId)?.secret ?? customSecret
+
+  const resetCheck = () => {
+    setCheck(null)
+    setCheckError(null)
+  }
+
+  const handleVerify = async () => {
+    setIsChecking(true)
+    resetCheck()
+    try {
+      setCheck(await verifySignature(secret, body, header))
+    } catch (error: any) {
+      setCheckError(error.message || "The signature could not be checked")
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <Label htmlFor="verify-webhook">Webhook secret</Label>
+            <Select
+              value={webhookId || "custom"}
+              onValueChange={(value) => {
+                setWebhookId(value === "custom" ? "" : value)
+                resetCheck()
+              }}
+            >
+              <SelectTrigger id="verify-webhook" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="custom">Enter a secret</SelectItem>
+                {webhooks.map((webhook) => (
+                  <SelectItem key={webhook.id} value={webhook.id}>
+                    {webhook.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {!webhookId && (
+            <div>
+              <Label htmlFor="verify-secret">Secret</Label>
+              <Input
+                id="verify-secret"
+                type="password"
+                value={customSecret}
+                onChange={(e) => {
+                  setCustomSecret(e.target.value)
+                  resetCheck()
+                }}
+                className="mt-1 font-mono"
+                autoComplete="off"
+              />
+            </div>
+          )}
+        </div>
+
+        <div>
+          <Label htmlFor="verify-body">Raw request body</Label>
+          <Textarea
+            id="verify-body"
+            value={body}
+            onChange={(e) => {
+              setBody(e.target.value)
+              resetCheck()
+            }}
+            placeholder='{"event":"response.created",...}'
+            className="mt-1 font-mono text-xs min-h-32"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Paste the body exactly as received; reformatting it changes the signature
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="verify-header">{SIGNATURE_HEADER} header</Label>
+          <Input
+            id="verify-header"
+            value={header}
+            onChange={(e) => {
+              setHeader(e.target.value)
+              resetCheck()
+            }}
+            placeholder="sha256=…"
+            className="mt-1 font-mono text-xs"
+          />
+        </div>
+
+        <div className="flex items-center gap-4">
+          <Button onClick={handleVerify} disabled={!secret || !body || !header || isChecking}>
+            {isChecking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Verify signature
+          </Button>
+          {check && (
+            <span
+              className={`flex items-center gap-2 text-sm ${
+                check.valid
+                  ? "text-green-700 dark:text-green-400"
+                  : "text-red-700 dark:text-red-400"
+              }`}
+              role="status"
+            >
+              {check.valid ? (
+                <ShieldCheck className="w-4 h-4" />
+              ) : (
+                <ShieldAlert className="w-4 h-4" />
+              )}
+              {check.valid
+                ? "Valid signature"
+                : check.received
+                  ? "Signature does not match"
+                  : "Header is not a sha256 signature"}
+            </span>
+          )}
+        </div>
+        {checkError && (
+          <p
+            className="flex items-center gap-2 text-sm text-red-700 dark:text-red-400"
+            role="alert"
+          >
+            <ShieldAlert className="w-4 h-4" />
+            {checkError}
+          </p>
+        )}
+        {check && !check.valid && (
+          <p className="text-xs font-mono text-muted-foreground break-all">
+            Expected sha256={check.expected}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <h4 className="font-medium text-sm mb-2">Verifying in your endpoint</h4>
+        <Tabs defaultValue={snippets[0].language}>
+          <TabsList>
+            {snippets.map((snippet) => (
+              <TabsTrigger key={snippet.language} value={snippet.language}>
+                {snippet.language}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {snippets.map((snippet) => (
+            <TabsContent key={snippet.language} value={snippet.language}>
+              <pre className="bg-muted p-3 rounded-lg text-xs overflow-auto">{snippet.code}</pre>
+            </TabsContent>
+          ))}
+        </Tabs>
+      </div>
+    </div>
+  )
+}
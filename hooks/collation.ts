@@ -3,6 +3,7 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
 import { collationAPI, geographicAPI } from "@/lib/api"
 import type {
+  AggregatedResults,
   CollationDashboard,
   CollationIncident,
   CollationLiveFeedItem,
@@ -56,6 +57,7 @@ export function usePollingStations(params?: {
   electoral_area_id?: string
   constituency_id?: string
   region_id?: string
+  limit?: number
 }) {
   return useQuery({
     queryKey: ["polling-stations", params],
@@ -204,6 +206,7 @@ export function useBulkAddEntries() {
         position_id?: string
         candidate_id?: string
         poll_option_id?: string
+        write_in_name?: string
         votes: number
         votes_in_words?: string
       }>
@@ -215,6 +218,42 @@ export function useBulkAddEntries() {
   })
 }
 
+export function useUpdateResultEntry() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      entryId,
+      data,
+    }: {
+      sheetId: string
+      entryId: string
+      data: {
+        write_in_name?: string
+        votes?: number
+        votes_in_words?: string
+      }
+    }) => collationAPI.updateResultEntry(entryId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["result-sheet", variables.sheetId] })
+      queryClient.invalidateQueries({ queryKey: ["result-entries", variables.sheetId] })
+    },
+  })
+}
+
+export function useDeleteResultEntry() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ entryId }: { sheetId: string; entryId: string }) =>
+      collationAPI.deleteResultEntry(entryId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["result-sheet", variables.sheetId] })
+      queryClient.invalidateQueries({ queryKey: ["result-entries", variables.sheetId] })
+    },
+  })
+}
+
 export function useUpdateSheetTotals() {
   const queryClient = useQueryClient()
 
@@ -430,6 +469,32 @@ export function useResolveIncident() {
   })
 }
 
+// ============================================
+// DISCREPANCY HOOKS
+// ============================================
+
+export function useReportDiscrepancy() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      sheetId,
+      data,
+    }: {
+      sheetId: string
+      data: {
+        discrepancy_type: string
+        expected_value?: string
+        actual_value?: string
+        description: string
+      }
+    }) => collationAPI.reportDiscrepancy(sheetId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["result-sheet", variables.sheetId] })
+    },
+  })
+}
+
 // ============================================
 // AGGREGATION HOOKS
 // ============================================
@@ -443,7 +508,7 @@ export function useAggregateResults(
     queryKey: ["aggregate-results", electionId, level, areaId],
     queryFn: async () => {
       const response = await collationAPI.aggregateResults(electionId, level, areaId)
-      return response.data.data
+      return response.data.data as AggregatedResults
     },
     enabled: !!electionId && !!level,
   })
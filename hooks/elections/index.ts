@@ -7,6 +7,7 @@ export {
   useUpdateElection,
   useDeleteElection,
   usePublishElection,
+  useOpenElection,
   usePauseElection,
   useResumeElection,
   useCloseElection,
@@ -23,15 +24,31 @@ export {
   useCreatePollOption,
   useUpdatePollOption,
   useDeletePollOption,
+  useWriteInMerges,
+  useCreateWriteInMerge,
+  useDeleteWriteInMerge,
+  useCheckReceiptCodes,
 } from "./use-elections"
+export { useElectionSchedule } from "./use-election-schedule"
 
 // Voting hooks
 export { useVoteStatus, useVerifyVoter, useCastVotes } from "./use-voting"
 
+// Public ballot hooks
+export {
+  usePublicElection,
+  usePublicVoteStatus,
+  useRequestVoterOTP,
+  useVerifyPublicVoter,
+  useCastPublicVote,
+  useVoteReceiptVerification,
+} from "./use-public-voting"
+
 // Analytics hooks
 export {
   useElectionResults,
   useFinalizedResults,
+  useElectionBallots,
   useElectionAnalytics,
   useElectionDemographics,
   useRegionalResults,
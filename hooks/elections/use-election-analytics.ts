@@ -3,6 +3,7 @@ import { electionAnalyticsAPI } from "@/lib/api"
 import { queryKeys } from "@/lib/query-client"
 import { useToast } from "@/hooks/use-toast"
 import type {
+  CastBallot,
   ElectionResults,
   ElectionAnalytics,
   DemographicBreakdown,
@@ -43,6 +44,18 @@ export function useFinalizedResults(electionId: string) {
   })
 }
 
+// Get cast ballots for recounting ranked-choice results
+export function useElectionBallots(electionId: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.elections.ballots(electionId),
+    queryFn: async () => {
+      const response = await electionAnalyticsAPI.getBallots(electionId)
+      return response.data.data as CastBallot[]
+    },
+    enabled: !!electionId && enabled,
+  })
+}
+
 // ============================================
 // ANALYTICS QUERIES
 // ============================================
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react"
+import { ELECTION_SCHEDULE } from "@/lib/constants"
+import { getNextScheduledTransition, runPreflightChecks } from "@/lib/election-lifecycle"
+import type { Election } from "@/lib/types"
+
+// Ticks the countdown to the next scheduled open/close. A due transition is
+// only reported; a manager confirms it from the election controls.
+export function useElectionSchedule(election: Election | undefined) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), ELECTION_SCHEDULE.CLOCK_TICK_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  const next = election ? getNextScheduledTransition(election, new Date(now)) : null
+  const isDue = next?.state === "due"
+  // A due opening still has to pass its pre-flight checks
+  const blockers =
+    election && next && isDue
+      ? runPreflightChecks(election, next.transition, { now: new Date(now) }).errors
+      : []
+
+  return { now, next, isDue, blockers }
+}
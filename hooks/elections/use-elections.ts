@@ -2,6 +2,8 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
 import { electionsAPI } from "@/lib/api"
 import { queryKeys } from "@/lib/query-client"
 import { useToast } from "@/hooks/use-toast"
+import { checkReceiptCodes } from "@/lib/vote-receipts"
+import { MAX_PAGE_SIZE } from "@/lib/constants"
 import type {
   Election,
   ElectionPosition,
@@ -16,6 +18,9 @@ import type {
   CreatePollOptionInput,
   UpdatePollOptionInput,
   ElectionAuditLog,
+  PaginatedResponse,
+  WriteInMerge,
+  CreateWriteInMergeInput,
 } from "@/lib/types"
 
 // ============================================
@@ -188,6 +193,35 @@ export function usePublishElection() {
   })
 }
 
+// Open voting in a scheduled election
+export function useOpenElection() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await electionsAPI.open(id)
+      return response.data.data as Election
+    },
+    onSuccess: (data, id) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.elections.all() })
+      queryClient.invalidateQueries({ queryKey: queryKeys.elections.detail(id) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.elections.dashboard() })
+      toast({
+        title: "Success",
+        description: "Voting is now open",
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to open voting",
+        variant: "destructive",
+      })
+    },
+  })
+}
+
 // Pause election
 export function usePauseElection() {
   const queryClient = useQueryClient()
@@ -710,3 +744,129 @@ export function useDeletePollOption() {
     },
   })
 }
+
+// ============================================
+// WRITE-INS
+// ============================================
+
+// Get an election's write-in merges
+export function useWriteInMerges(electionId: string) {
+  return useQuery({
+    queryKey: queryKeys.elections.writeInMerges(electionId),
+    queryFn: async () => {
+      const response = await electionsAPI.getWriteInMerges(electionId)
+      return (response.data.data || []) as WriteInMerge[]
+    },
+    enabled: !!electionId,
+  })
+}
+
+// Merge write-in spellings
+export function useCreateWriteInMerge() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({
+      electionId,
+      data,
+    }: {
+      electionId: string
+      data: CreateWriteInMergeInput
+    }) => {
+      const response = await electionsAPI.createWriteInMerge(electionId, data)
+      return response.data.data as WriteInMerge
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.elections.writeInMerges(variables.electionId),
+      })
+      toast({
+        title: "Success",
+        description: "Write-ins merged successfully",
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to merge write-ins",
+        variant: "destructive",
+      })
+    },
+  })
+}
+
+// Undo a write-in merge
+export function useDeleteWriteInMerge() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ electionId, mergeId }: { electionId: string; mergeId: string }) => {
+      const response = await electionsAPI.deleteWriteInMerge(electionId, mergeId)
+      return response.data
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.elections.writeInMerges(variables.electionId),
+      })
+      toast({
+        title: "Success",
+        description: "Merge undone successfully",
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to undo merge",
+        variant: "destructive",
+      })
+    },
+  })
+}
+
+// ============================================
+// RECEIPT CHECKS
+// ============================================
+
+// Stops a server that ignores `page` from keeping the loop going forever
+const AUDIT_LOG_MAX_PAGES = 1000
+
+// Check confirmation codes against every vote entry in the election's audit log
+export function useCheckReceiptCodes() {
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ electionId, codes }: { electionId: string; codes: string[] }) => {
+      const auditLog = new Map<string, ElectionAuditLog>()
+      for (let page = 1; ; page++) {
+        if (page > AUDIT_LOG_MAX_PAGES) {
+          throw new Error("The audit log is too long to check every code")
+        }
+        const response = await electionsAPI.getAuditLog(electionId, {
+          page,
+          limit: MAX_PAGE_SIZE,
+        })
+        const entries = (response.data.data || []) as ElectionAuditLog[]
+        const pagination = response.data.pagination as
+          | PaginatedResponse<ElectionAuditLog>["pagination"]
+          | undefined
+        const before = auditLog.size
+        entries.forEach((entry) => auditLog.set(entry.id, entry))
+
+        // A page with nothing new means the server is repeating itself
+        if (auditLog.size === before) break
+        if (pagination ? page >= pagination.total_pages : entries.length < MAX_PAGE_SIZE) break
+      }
+      return checkReceiptCodes(codes, Array.from(auditLog.values()))
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description:
+          error.response?.data?.message || error.message || "Failed to check receipt codes",
+        variant: "destructive",
+      })
+    },
+  })
+}
@@ -0,0 +1,103 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { publicElectionsAPI } from "@/lib/api"
+import { queryKeys } from "@/lib/query-client"
+import type {
+  CastVotesInput,
+  PublicElection,
+  VoteReceipt,
+  VoteReceiptVerification,
+  VoteStatus,
+  VoterVerificationInput,
+  VoterVerificationResult,
+} from "@/lib/types"
+
+// Hooks for the unauthenticated ballot at /vote/[id]. Errors are left to the
+// caller, which shows them inline next to the step the voter is on.
+
+// ============================================
+// PUBLIC VOTING QUERIES
+// ============================================
+
+export function usePublicElection(electionId: string) {
+  return useQuery({
+    queryKey: queryKeys.elections.publicDetail(electionId),
+    queryFn: async () => {
+      const response = await publicElectionsAPI.getElection(electionId)
+      return response.data.data as PublicElection
+    },
+    enabled: !!electionId,
+    retry: false,
+  })
+}
+
+// Whether the holder of a voter token has already voted
+export function usePublicVoteStatus(electionId: string, voterToken: string | null) {
+  return useQuery({
+    queryKey: queryKeys.elections.publicVoteStatus(electionId, voterToken ?? ""),
+    queryFn: async () => {
+      const response = await publicElectionsAPI.checkVoteStatus(electionId, voterToken!)
+      return response.data.data as VoteStatus
+    },
+    enabled: !!electionId && !!voterToken,
+    retry: false,
+  })
+}
+
+// Look up a receipt's confirmation code
+export function useVoteReceiptVerification(electionId: string, confirmationCode: string | null) {
+  return useQuery({
+    queryKey: queryKeys.elections.publicReceipt(electionId, confirmationCode ?? ""),
+    queryFn: async () => {
+      const response = await publicElectionsAPI.verifyReceipt(electionId, confirmationCode!)
+      return response.data.data as VoteReceiptVerification
+    },
+    enabled: !!electionId && !!confirmationCode,
+    retry: false,
+  })
+}
+
+// ============================================
+// PUBLIC VOTING MUTATIONS
+// ============================================
+
+// Send a one-time code to the voter's phone
+export function useRequestVoterOTP() {
+  return useMutation({
+    mutationFn: async ({ electionId, phone }: { electionId: string; phone: string }) => {
+      const response = await publicElectionsAPI.requestOTP(electionId, { phone })
+      return response.data
+    },
+  })
+}
+
+// Exchange the voter's national ID and/or phone code for a voter token
+export function useVerifyPublicVoter() {
+  return useMutation({
+    mutationFn: async ({
+      electionId,
+      data,
+    }: {
+      electionId: string
+      data: VoterVerificationInput
+    }) => {
+      const response = await publicElectionsAPI.verifyVoter(electionId, data)
+      return response.data.data as VoterVerificationResult
+    },
+  })
+}
+
+export function useCastPublicVote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ electionId, data }: { electionId: string; data: CastVotesInput }) => {
+      const response = await publicElectionsAPI.castVote(electionId, data)
+      return response.data.data.receipt as VoteReceipt
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["elections", "public", variables.electionId, "vote-status"],
+      })
+    },
+  })
+}
@@ -3,13 +3,34 @@
  * Manages form state, field operations, and integrates all sub-hooks
  */
 
-import { useState, useCallback, useEffect, useRef } from "react"
+import { useState, useCallback, useEffect, useRef, useMemo } from "react"
 import type { FormField, FormBranding, Form } from "@/lib/types"
-import type { ConditionalRule, ValidationRule } from "@/lib/types-extended"
+import type {
+  ConditionalRule,
+  FormPage,
+  FormPageSettings,
+  ValidationRule,
+} from "@/lib/types-extended"
 import type { LockStatus } from "@/hooks/forms/use-form-locking"
 import { generateFieldId, sanitizeFormField } from "@/lib/security"
 import { useFormHistory } from "./use-form-history"
+import { fingerprintFormState } from "@/lib/form-history"
+import { useFormCollaboration } from "./use-form-collaboration"
+import {
+  deriveFieldOperations,
+  mergeFieldOperations,
+  type CollaboratorPresence,
+  type FieldConflict,
+} from "@/lib/form-collaboration"
 import { formsAPI } from "@/lib/api"
+import { normalizeConditionalRules } from "@/lib/conditional-rules"
+import {
+  DEFAULT_PAGE_SETTINGS,
+  insertPageBreak,
+  normalizePageBreaks,
+  orderFieldsByPages,
+  removePageBreak as removePageBreakFromPages,
+} from "@/lib/form-pages"
 import { toast } from "@/hooks/use-toast"
 import { useStore } from "@/lib/store"
 
@@ -17,35 +38,60 @@ interface UseFormBuilderOptions {
   initialForm?: Form
   onSave?: (formData: any) => Promise<void>
   autoLock?: boolean
+  /**
+   * Co-edit with other sessions instead of keeping the form locked. The lock
+   * is held until the collaboration channel opens, and taken again when
+   * edits conflict or the channel is lost.
+   */
+  collaborative?: boolean
   enableAutosave?: boolean
   autosaveInterval?: number
 }
 
+const FIELD_COMMANDS = ["add_field", "remove_field", "update_field", "reorder_fields"]
+
 export function useFormBuilder(options: UseFormBuilderOptions = {}) {
   const {
     initialForm,
     onSave,
     autoLock = true,
+    collaborative = true,
     enableAutosave = true,
     autosaveInterval = 30000,
   } = options
   const currentUser = useStore((state) => state.user)
 
+  // Fields are kept in page order so every page is a contiguous run
+  const [initialLayout] = useState(() =>
+    orderFieldsByPages(initialForm?.schema?.fields || [], initialForm?.schema?.pages)
+  )
+  const initialPageSettings: FormPageSettings = {
+    ...DEFAULT_PAGE_SETTINGS,
+    ...initialForm?.schema?.settings,
+  }
+
   // Core form state
   const [title, setTitle] = useState(initialForm?.title || "")
   const [description, setDescription] = useState(initialForm?.description || "")
-  const [fields, setFields] = useState<FormField[]>(initialForm?.schema?.fields || [])
+  const [fields, setFields] = useState<FormField[]>(initialLayout.fields)
   const [branding, setBranding] = useState<FormBranding>(initialForm?.schema?.branding || {})
+  const [pageBreaks, setPageBreaks] = useState<FormPage[]>(initialLayout.pages)
+  const [pageSettings, setPageSettings] = useState<FormPageSettings>(initialPageSettings)
   const [selectedFieldId, setSelectedFieldId] = useState<string | null>(null)
 
   // Track saved state for dirty checking
   const [savedState, setSavedState] = useState({
     title: initialForm?.title || "",
     description: initialForm?.description || "",
-    fields: initialForm?.schema?.fields || [],
+    fields: initialLayout.fields,
     branding: initialForm?.schema?.branding || {},
+    pages: initialLayout.pages,
+    pageSettings: initialPageSettings,
   })
 
+  // Page breaks follow their anchor fields through reorders and deletions
+  const pages = useMemo(() => normalizePageBreaks(fields, pageBreaks), [fields, pageBreaks])
+
   // Feature state
   const [conditionalRules, setConditionalRules] = useState<ConditionalRule[]>([])
   const [validationRules, setValidationRules] = useState<ValidationRule[]>([])
@@ -60,6 +106,119 @@ export function useFormBuilder(options: UseFormBuilderOptions = {}) {
 
   const formId = initialForm?.id
   const lockCheckInterval = useRef<NodeJS.Timeout | null>(null)
+  const holdsLock = useRef(false)
+
+  /**
+   * Acquire the edit lock and keep its status fresh.
+   * Resolves to false when another user already holds it.
+   */
+  const startLockFlow = useCallback(async () => {
+    if (!formId) return false
+    if (holdsLock.current) return true
+
+    try {
+      // First acquire the lock
+      await formsAPI.acquireLock(formId)
+      holdsLock.current = true
+
+      // Then get the lock status
+      const statusRes = await formsAPI.getLockStatus(formId)
+      if (statusRes.data.success && statusRes.data.data) {
+        setLockStatus(statusRes.data.data)
+      }
+
+      // Set up periodic lock status check
+      if (lockCheckInterval.current) clearInterval(lockCheckInterval.current)
+      lockCheckInterval.current = setInterval(async () => {
+        try {
+          const statusRes = await formsAPI.getLockStatus(formId)
+          if (statusRes.data.success && statusRes.data.data) {
+            setLockStatus(statusRes.data.data)
+          }
+        } catch (error) {
+          console.error("Lock status check failed:", error)
+        }
+      }, 30000) // Check every 30 seconds
+      return true
+    } catch (error: any) {
+      if (error.response?.status === 409) {
+        // Form is locked by another user
+        const lockedBy = error.response?.data?.locked_by
+        toast({
+          title: "Form Locked",
+          description: `This form is currently being edited by ${lockedBy?.username || "another user"}`,
+          variant: "destructive",
+        })
+
+        formsAPI
+          .getLockStatus(formId)
+          .then((statusRes) => {
+            if (statusRes.data.success && statusRes.data.data) {
+              setLockStatus(statusRes.data.data)
+            }
+          })
+          .catch(console.error)
+      }
+      return false
+    }
+  }, [formId])
+
+  /**
+   * Stop checking the lock and release it
+   */
+  const stopLockFlow = useCallback(() => {
+    if (lockCheckInterval.current) {
+      clearInterval(lockCheckInterval.current)
+      lockCheckInterval.current = null
+    }
+    // Release lock on unmount
+    if (formId) {
+      formsAPI.releaseLock(formId).catch(console.error)
+    }
+    holdsLock.current = false
+  }, [formId])
+
+  const collaboration = useFormCollaboration({
+    formId,
+    enabled: collaborative,
+    fields,
+    setFields,
+    selectedFieldId,
+    // Concurrent edits to the same field fall back to the lock: whoever gets
+    // it keeps their version and pushes it to everyone else
+    onConflict: async (conflicts: FieldConflict[], collaborator: CollaboratorPresence | null) => {
+      if (!autoLock) return
+      const acquired = await startLockFlow()
+      if (!acquired) return
+
+      conflicts.forEach((conflict) => collaboration.sendSnapshot(conflict.fieldId))
+      toast({
+        title: "Editing conflict",
+        description: `${collaborator?.username || "Another user"} changed the same field. Your version was kept and the form is now locked to you.`,
+      })
+    },
+    onUnavailable: () => {
+      if (autoLock) startLockFlow()
+    },
+  })
+
+  /**
+   * Move fields back or forward through history. While co-editing, only the
+   * command's own changes are replayed so collaborators' edits are kept.
+   */
+  const restoreFields = (from: FormField[], to: FormField[]) => {
+    if (collaboration.isConnected) {
+      setFields((prev) => mergeFieldOperations(prev, deriveFieldOperations(from, to)).fields)
+    } else {
+      setFields(to)
+    }
+  }
+
+  // What history commands change, to tell whether saved history still applies
+  const historyFingerprint = useMemo(
+    () => fingerprintFormState({ title, description, fields, branding }),
+    [title, description, fields, branding]
+  )
 
   // Initialize command history with callbacks
   const {
@@ -69,22 +228,26 @@ export function useFormBuilder(options: UseFormBuilderOptions = {}) {
     canUndo,
     canRedo,
     clearHistory,
+    timeline: historyTimeline,
+    goTo: goToHistory,
   } = useFormHistory({
-    maxHistorySize: 50,
+    formId,
+    fingerprint: historyFingerprint,
+    maxHistorySize: 200,
     onUndo: (command) => {
       // Restore previous state
       switch (command.type) {
         case "add_field":
-          setFields(command.data.previous)
+          restoreFields(command.data.current, command.data.previous)
           break
         case "remove_field":
-          setFields(command.data.previous)
+          restoreFields(command.data.current, command.data.previous)
           break
         case "update_field":
-          setFields(command.data.previous)
+          restoreFields(command.data.current, command.data.previous)
           break
         case "reorder_fields":
-          setFields(command.data.previous)
+          restoreFields(command.data.current, command.data.previous)
           break
         case "update_branding":
           setBranding(command.data.previous)
@@ -101,16 +264,16 @@ export function useFormBuilder(options: UseFormBuilderOptions = {}) {
       // Apply current state
       switch (command.type) {
         case "add_field":
-          setFields(command.data.current)
+          restoreFields(command.data.previous, command.data.current)
           break
         case "remove_field":
-          setFields(command.data.current)
+          restoreFields(command.data.previous, command.data.current)
           break
         case "update_field":
-          setFields(command.data.current)
+          restoreFields(command.data.previous, command.data.current)
           break
         case "reorder_fields":
-          setFields(command.data.current)
+          restoreFields(command.data.previous, command.data.current)
           break
         case "update_branding":
           setBranding(command.data.current)
@@ -123,6 +286,15 @@ export function useFormBuilder(options: UseFormBuilderOptions = {}) {
           break
       }
     },
+    // Share field edits from the command stream with collaborators
+    onCommand: (command, direction) => {
+      if (!FIELD_COMMANDS.includes(command.type)) return
+      if (direction === "undo") {
+        collaboration.broadcastFieldChange(command.data.current, command.data.previous)
+      } else {
+        collaboration.broadcastFieldChange(command.data.previous, command.data.current)
+      }
+    },
   })
 
   // Load conditional rules and validation rules
@@ -138,7 +310,7 @@ export function useFormBuilder(options: UseFormBuilderOptions = {}) {
         ])
 
         if (conditionalRes.data.success) {
-          setConditionalRules(conditionalRes.data.data || [])
+          setConditionalRules(normalizeConditionalRules(conditionalRes.data.data))
         }
 
         if (validationRes.data.success) {
@@ -154,57 +326,24 @@ export function useFormBuilder(options: UseFormBuilderOptions = {}) {
     loadRules()
   }, [formId])
 
-  // Acquire lock on mount if autoLock is enabled
+  // Acquire lock on mount if autoLock is enabled, until co-editing is live
+  const isCoEditing = collaborative && collaboration.isConnected
   useEffect(() => {
-    if (!formId || !autoLock) return
+    if (!formId || !autoLock || isCoEditing) return
 
-    const acquireLock = async () => {
-      try {
-        // First acquire the lock
-        await formsAPI.acquireLock(formId)
+    startLockFlow()
 
-        // Then get the lock status
-        const statusRes = await formsAPI.getLockStatus(formId)
-        if (statusRes.data.success && statusRes.data.data) {
-          setLockStatus(statusRes.data.data)
-        }
+    return stopLockFlow
+  }, [formId, autoLock, isCoEditing, currentUser, startLockFlow, stopLockFlow])
 
-        // Set up periodic lock status check
-        lockCheckInterval.current = setInterval(async () => {
-          try {
-            const statusRes = await formsAPI.getLockStatus(formId)
-            if (statusRes.data.success && statusRes.data.data) {
-              setLockStatus(statusRes.data.data)
-            }
-          } catch (error) {
-            console.error("Lock status check failed:", error)
-          }
-        }, 30000) // Check every 30 seconds
-      } catch (error: any) {
-        if (error.response?.status === 409) {
-          // Form is locked by another user
-          const lockedBy = error.response?.data?.locked_by
-          toast({
-            title: "Form Locked",
-            description: `This form is currently being edited by ${lockedBy?.username || "another user"}`,
-            variant: "destructive",
-          })
-        }
-      }
-    }
-
-    acquireLock()
+  // A lock taken after a conflict or lost connection is released on unmount
+  useEffect(() => {
+    if (!collaborative) return
 
     return () => {
-      if (lockCheckInterval.current) {
-        clearInterval(lockCheckInterval.current)
-      }
-      // Release lock on unmount
-      if (formId) {
-        formsAPI.releaseLock(formId).catch(console.error)
-      }
+      if (holdsLock.current) stopLockFlow()
     }
-  }, [formId, autoLock, currentUser])
+  }, [collaborative, stopLockFlow])
 
   /**
    * Add a new field
@@ -451,6 +590,43 @@ export function useFormBuilder(options: UseFormBuilderOptions = {}) {
     [branding, executeCommand]
   )
 
+  /**
+   * Start a new page at the given field
+   */
+  const addPageBreak = useCallback(
+    (fieldId: string) => {
+      setPageBreaks(insertPageBreak(fields, pageBreaks, fieldId))
+    },
+    [fields, pageBreaks]
+  )
+
+  /**
+   * Remove a page break, merging its fields into the page above
+   */
+  const removePageBreak = useCallback(
+    (pageId: string) => {
+      setPageBreaks(removePageBreakFromPages(fields, pageBreaks, pageId))
+    },
+    [fields, pageBreaks]
+  )
+
+  /**
+   * Update a page's title, description or skip conditions
+   */
+  const updatePage = useCallback(
+    (pageId: string, updates: Partial<Omit<FormPage, "id" | "fields" | "order">>) => {
+      setPageBreaks(pages.map((page) => (page.id === pageId ? { ...page, ...updates } : page)))
+    },
+    [pages]
+  )
+
+  /**
+   * Update paging behaviour (progress bar, back navigation, drafts)
+   */
+  const updatePageSettings = useCallback((updates: Partial<FormPageSettings>) => {
+    setPageSettings((prev) => ({ ...prev, ...updates }))
+  }, [])
+
   /**
    * Validate field uniqueness
    */
@@ -475,7 +651,9 @@ export function useFormBuilder(options: UseFormBuilderOptions = {}) {
     title !== savedState.title ||
     description !== savedState.description ||
     JSON.stringify(fields) !== JSON.stringify(savedState.fields) ||
-    JSON.stringify(branding) !== JSON.stringify(savedState.branding)
+    JSON.stringify(branding) !== JSON.stringify(savedState.branding) ||
+    JSON.stringify(pages) !== JSON.stringify(savedState.pages) ||
+    JSON.stringify(pageSettings) !== JSON.stringify(savedState.pageSettings)
 
   /**
    * Mark current state as saved (reset dirty flag)
@@ -487,8 +665,10 @@ export function useFormBuilder(options: UseFormBuilderOptions = {}) {
       description,
       fields: JSON.parse(JSON.stringify(fields)), // Deep clone to avoid reference issues
       branding: JSON.parse(JSON.stringify(branding)),
+      pages: JSON.parse(JSON.stringify(pages)),
+      pageSettings: { ...pageSettings },
     })
-  }, [title, description, fields, branding])
+  }, [title, description, fields, branding, pages, pageSettings])
 
   return {
     // Core state
@@ -496,6 +676,8 @@ export function useFormBuilder(options: UseFormBuilderOptions = {}) {
     description,
     fields,
     branding,
+    pages,
+    pageSettings,
     selectedFieldId,
     selectedField,
 
@@ -504,6 +686,8 @@ export function useFormBuilder(options: UseFormBuilderOptions = {}) {
     validationRules,
     lockStatus,
     currentVersion,
+    collaborators: collaboration.collaborators,
+    collaborationStatus: collaboration.status,
 
     // UI state
     isSaving,
@@ -522,6 +706,12 @@ export function useFormBuilder(options: UseFormBuilderOptions = {}) {
     moveFieldDown,
     setSelectedFieldId,
 
+    // Page operations
+    addPageBreak,
+    removePageBreak,
+    updatePage,
+    updatePageSettings,
+
     // Form operations (with command history)
     updateTitle,
     updateDescription,
@@ -542,6 +732,8 @@ export function useFormBuilder(options: UseFormBuilderOptions = {}) {
     canUndo,
     canRedo,
     clearHistory,
+    historyTimeline,
+    goToHistory,
 
     // Validation
     validateFieldIds,
@@ -0,0 +1,226 @@
+/**
+ * Form Collaboration Hook
+ * Shares presence and field edits with other sessions editing the same form
+ */
+
+import { useState, useCallback, useEffect, useRef, type Dispatch, type SetStateAction } from "react"
+import type { FormField } from "@/lib/types"
+import {
+  PRESENCE_HEARTBEAT_MS,
+  createSocketTransport,
+  deriveFieldOperations,
+  getCollaborationUrl,
+  getPresenceColor,
+  mergeFieldOperations,
+  prunePresence,
+  type CollabMessage,
+  type CollabTransport,
+  type CollabTransportStatus,
+  type CollaboratorPresence,
+  type FieldConflict,
+  type SocketFactory,
+} from "@/lib/form-collaboration"
+import { useStore } from "@/lib/store"
+
+export interface UseFormCollaborationOptions {
+  formId?: string
+  enabled?: boolean
+  fields: FormField[]
+  setFields: Dispatch<SetStateAction<FormField[]>>
+  selectedFieldId: string | null
+
+  /**
+   * Called when a collaborator edited the same property of a field as this
+   * session. The non-conflicting parts of their edit are already merged.
+   */
+  onConflict?: (conflicts: FieldConflict[], collaborator: CollaboratorPresence | null) => void
+
+  /**
+   * Called when the collaboration channel can't be reached
+   */
+  onUnavailable?: () => void
+
+  /**
+   * Socket factory, for connecting to a mock server in tests
+   */
+  createSocket?: SocketFactory
+}
+
+export function useFormCollaboration(options: UseFormCollaborationOptions) {
+  const {
+    formId,
+    enabled = true,
+    fields,
+    setFields,
+    selectedFieldId,
+    onConflict,
+    onUnavailable,
+    createSocket,
+  } = options
+  const currentUser = useStore((state) => state.user)
+
+  const [sessionId] = useState(
+    () => `session_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
+  )
+  const [peers, setPeers] = useState<Record<string, CollaboratorPresence>>({})
+  const [status, setStatus] = useState<CollabTransportStatus>("closed")
+
+  const transportRef = useRef<CollabTransport | null>(null)
+
+  // Incoming messages are merged against the latest fields, not a stale render
+  const fieldsRef = useRef(fields)
+  fieldsRef.current = fields
+  const peersRef = useRef(peers)
+  peersRef.current = peers
+
+  const callbacksRef = useRef({ onConflict, onUnavailable })
+  callbacksRef.current = { onConflict, onUnavailable }
+
+  const presenceRef = useRef<CollaboratorPresence | null>(null)
+  presenceRef.current = {
+    sessionId,
+    userId: currentUser?.id,
+    username: currentUser?.username || "Anonymous",
+    color: getPresenceColor(sessionId),
+    selectedFieldId,
+    lastSeen: Date.now(),
+  }
+
+  const announce = useCallback(() => {
+    if (!transportRef.current || !presenceRef.current) return
+    transportRef.current.send({
+      type: "presence",
+      presence: { ...presenceRef.current, lastSeen: Date.now() },
+    })
+  }, [])
+
+  const handleMessage = useCallback(
+    (message: CollabMessage) => {
+      switch (message.type) {
+        case "presence": {
+          if (message.presence.sessionId === sessionId) return
+          const isNew = !peersRef.current[message.presence.sessionId]
+          setPeers((prev) => ({
+            ...prev,
+            [message.presence.sessionId]: { ...message.presence, lastSeen: Date.now() },
+          }))
+          // Let newcomers see this session without waiting for the next heartbeat
+          if (isNew) announce()
+          return
+        }
+
+        case "leave":
+          setPeers((prev) => {
+            const { [message.sessionId]: _left, ...rest } = prev
+            return rest
+          })
+          return
+
+        case "ops": {
+          if (message.sessionId === sessionId) return
+          const { fields: merged, conflicts } = mergeFieldOperations(fieldsRef.current, message.ops)
+          fieldsRef.current = merged
+          setFields(merged)
+          if (conflicts.length > 0) {
+            callbacksRef.current.onConflict?.(
+              conflicts,
+              peersRef.current[message.sessionId] ?? null
+            )
+          }
+          return
+        }
+
+        case "snapshot": {
+          if (message.sessionId === sessionId) return
+          const exists = fieldsRef.current.some((field) => field.id === message.field.id)
+          const merged = exists
+            ? fieldsRef.current.map((field) =>
+                field.id === message.field.id ? message.field : field
+              )
+            : [...fieldsRef.current, message.field]
+          fieldsRef.current = merged
+          setFields(merged)
+          return
+        }
+      }
+    },
+    [sessionId, setFields, announce]
+  )
+
+  // Connect to the form's collaboration channel
+  useEffect(() => {
+    if (!formId || !enabled) return
+
+    const transport = createSocketTransport(
+      getCollaborationUrl(formId),
+      createSocket,
+      useStore.getState().token
+    )
+    transportRef.current = transport
+    setStatus("connecting")
+
+    const unsubscribe = transport.subscribe(handleMessage)
+    const unsubscribeStatus = transport.onStatusChange((next) => {
+      setStatus(next)
+      if (next === "open") announce()
+      if (next === "failed" || next === "closed") {
+        setPeers({})
+        callbacksRef.current.onUnavailable?.()
+      }
+    })
+
+    const heartbeat = setInterval(() => {
+      announce()
+      setPeers((prev) => prunePresence(prev, Date.now()))
+    }, PRESENCE_HEARTBEAT_MS)
+
+    return () => {
+      clearInterval(heartbeat)
+      transport.send({ type: "leave", sessionId })
+      unsubscribe()
+      unsubscribeStatus()
+      transport.close()
+      transportRef.current = null
+      setPeers({})
+      setStatus("closed")
+    }
+  }, [formId, enabled, sessionId, createSocket, handleMessage, announce])
+
+  // Re-announce whenever the selected field changes
+  useEffect(() => {
+    if (status === "open") announce()
+  }, [selectedFieldId, status, announce])
+
+  /**
+   * Broadcast the operations between two field lists
+   */
+  const broadcastFieldChange = useCallback(
+    (previous: FormField[], current: FormField[]) => {
+      if (!transportRef.current || status !== "open") return
+      const ops = deriveFieldOperations(previous, current)
+      if (ops.length > 0) transportRef.current.send({ type: "ops", sessionId, ops })
+    },
+    [sessionId, status]
+  )
+
+  /**
+   * Send this session's copy of a field as the authoritative version
+   */
+  const sendSnapshot = useCallback(
+    (fieldId: string) => {
+      const field = fieldsRef.current.find((f) => f.id === fieldId)
+      if (!transportRef.current || !field) return
+      transportRef.current.send({ type: "snapshot", sessionId, field })
+    },
+    [sessionId]
+  )
+
+  return {
+    sessionId,
+    collaborators: Object.values(peers),
+    status,
+    isConnected: status === "open",
+    broadcastFieldChange,
+    sendSnapshot,
+  }
+}
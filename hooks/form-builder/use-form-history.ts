@@ -1,116 +1,194 @@
 /**
  * Command History Hook for Undo/Redo functionality
+ * History is a tree, so undone commands survive as branches, and is
+ * persisted per form so it is kept across sessions while the form is unchanged
  */
 
-import { useState, useCallback, useRef, useEffect } from "react"
+import { useState, useCallback, useRef, useEffect, useMemo } from "react"
 import type { Command, CommandType, CommandHistory } from "@/lib/types-extended"
+import {
+  HISTORY_ROOT,
+  appendCommand,
+  createHistoryTree,
+  getActiveBranch,
+  indexedDBHistoryStorage,
+  isHistoryCurrent,
+  listTimeline,
+  moveHead,
+  planJump,
+  type HistoryStorage,
+  type HistoryTree,
+} from "@/lib/form-history"
+
+export type CommandDirection = "execute" | "undo" | "redo"
 
 interface UseFormHistoryOptions {
+  /**
+   * Form whose history is persisted; history stays in memory without one
+   */
+  formId?: string
+  /**
+   * `fingerprintFormState` of the form as it is now. Saved history recorded
+   * against a different state (unsaved edits, a collaborator's save, a
+   * restored version) is discarded instead of replayed over newer data.
+   */
+  fingerprint?: string
   maxHistorySize?: number
   onUndo?: (command: Command) => void
   onRedo?: (command: Command) => void
+  /**
+   * Called once for every executed, undone or redone command, outside of
+   * state updates, so subscribers can safely run side effects
+   */
+  onCommand?: (command: Command, direction: CommandDirection) => void
+  storage?: HistoryStorage
 }
 
+const PERSIST_DELAY_MS = 500
+
 export function useFormHistory(options: UseFormHistoryOptions = {}) {
-  const { maxHistorySize = 50, onUndo, onRedo } = options
+  const {
+    formId,
+    fingerprint,
+    maxHistorySize = 200,
+    onUndo,
+    onRedo,
+    onCommand,
+    storage = indexedDBHistoryStorage,
+  } = options
+  const persistedFormId = formId && formId !== "new" ? formId : undefined
+
+  const [tree, setTree] = useState<HistoryTree>(createHistoryTree)
+  const [isLoaded, setIsLoaded] = useState(!persistedFormId)
 
-  const [history, setHistory] = useState<CommandHistory>({
-    commands: [],
-    currentIndex: -1,
-  })
+  const treeRef = useRef(tree)
+  treeRef.current = tree
+  const fingerprintRef = useRef(fingerprint)
+  fingerprintRef.current = fingerprint
 
-  const historyRef = useRef(history)
-  historyRef.current = history
+  // Resume the history saved by an earlier session
+  useEffect(() => {
+    if (!persistedFormId) return
+
+    let cancelled = false
+    storage.get(persistedFormId).then((saved) => {
+      if (cancelled) return
+      const current = fingerprintRef.current
+      if (saved && current !== undefined && !isHistoryCurrent(saved, current)) {
+        storage.delete(persistedFormId)
+      } else if (saved && Object.keys(treeRef.current.nodes).length === 0) {
+        // Commands made while loading take precedence over the saved tree
+        treeRef.current = saved.tree
+        setTree(saved.tree)
+      }
+      setIsLoaded(true)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [persistedFormId, storage])
+
+  // Persist changes, debounced since typing records a command per keystroke
+  useEffect(() => {
+    if (!persistedFormId || !isLoaded) return
+
+    const timeout = setTimeout(
+      () => storage.put(persistedFormId, { tree, fingerprint }),
+      PERSIST_DELAY_MS
+    )
+    return () => clearTimeout(timeout)
+  }, [persistedFormId, isLoaded, tree, fingerprint, storage])
+
+  const applyTree = useCallback((next: HistoryTree) => {
+    treeRef.current = next
+    setTree(next)
+  }, [])
 
   /**
    * Add a new command to history
    */
   const executeCommand = useCallback(
     (type: CommandType, data: { previous: any; current: any }, description: string) => {
-      setHistory((prev) => {
-        // Remove any commands after current index (they will be lost when new command is added)
-        const newCommands = prev.commands.slice(0, prev.currentIndex + 1)
-
-        // Add new command
-        const command: Command = {
-          id: `cmd_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-          type,
-          timestamp: Date.now(),
-          data,
-          description,
-        }
+      const command: Command = {
+        id: `cmd_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        type,
+        timestamp: Date.now(),
+        data,
+        description,
+      }
 
-        newCommands.push(command)
+      // Commands after the head are kept as a branch rather than dropped
+      applyTree(appendCommand(treeRef.current, command, maxHistorySize))
 
-        // Enforce max history size
-        if (newCommands.length > maxHistorySize) {
-          newCommands.shift()
-        }
+      onCommand?.(command, "execute")
+    },
+    [maxHistorySize, onCommand, applyTree]
+  )
 
-        return {
-          commands: newCommands,
-          currentIndex: newCommands.length - 1,
-        }
+  /**
+   * Move to any point in the tree, undoing back to the shared ancestor and
+   * redoing forward along the target's branch
+   */
+  const goTo = useCallback(
+    (nodeId: string | null) => {
+      const current = treeRef.current
+      if (nodeId !== null && !current.nodes[nodeId]) return
+
+      planJump(current, nodeId).forEach(({ command, direction }) => {
+        if (direction === "undo") onUndo?.(command)
+        else onRedo?.(command)
+        onCommand?.(command, direction)
       })
+
+      applyTree(moveHead(current, nodeId))
     },
-    [maxHistorySize]
+    [onUndo, onRedo, onCommand, applyTree]
   )
 
   /**
    * Undo the last command
    */
   const undo = useCallback(() => {
-    if (!canUndo) return null
-
-    setHistory((prev) => {
-      const newIndex = prev.currentIndex - 1
-      const command = prev.commands[prev.currentIndex]
-
-      if (command && onUndo) {
-        onUndo(command)
-      }
+    const current = treeRef.current
+    const head = current.headId ? current.nodes[current.headId] : null
+    if (!head) return null
 
-      return {
-        ...prev,
-        currentIndex: newIndex,
-      }
-    })
-
-    return historyRef.current.commands[historyRef.current.currentIndex]
-  }, [onUndo])
+    goTo(head.parentId)
+    return head.command
+  }, [goTo])
 
   /**
    * Redo the next command
    */
   const redo = useCallback(() => {
-    if (!canRedo) return null
-
-    setHistory((prev) => {
-      const newIndex = prev.currentIndex + 1
-      const command = prev.commands[newIndex]
-
-      if (command && onRedo) {
-        onRedo(command)
-      }
+    const current = treeRef.current
+    const nextId = current.activeChild[current.headId ?? HISTORY_ROOT]
+    const next = nextId ? current.nodes[nextId] : null
+    if (!next) return null
 
-      return {
-        ...prev,
-        currentIndex: newIndex,
-      }
-    })
-
-    return historyRef.current.commands[historyRef.current.currentIndex]
-  }, [onRedo])
+    goTo(next.id)
+    return next.command
+  }, [goTo])
 
   /**
    * Clear all history
    */
   const clearHistory = useCallback(() => {
-    setHistory({
-      commands: [],
-      currentIndex: -1,
-    })
-  }, [])
+    applyTree(createHistoryTree())
+    if (persistedFormId) storage.delete(persistedFormId)
+  }, [applyTree, persistedFormId, storage])
+
+  // Linear view of the active branch, for callers that don't need the tree
+  const branch = useMemo(() => getActiveBranch(tree), [tree])
+  const history: CommandHistory = useMemo(
+    () => ({
+      commands: branch.map((node) => node.command),
+      currentIndex: branch.findIndex((node) => node.id === tree.headId),
+    }),
+    [branch, tree.headId]
+  )
+  const timeline = useMemo(() => listTimeline(tree), [tree])
 
   /**
    * Get command at specific index
@@ -130,20 +208,17 @@ export function useFormHistory(options: UseFormHistoryOptions = {}) {
    */
   const goToIndex = useCallback(
     (index: number) => {
-      if (index < -1 || index >= history.commands.length) {
+      if (index < -1 || index >= branch.length) {
         return
       }
 
-      setHistory((prev) => ({
-        ...prev,
-        currentIndex: index,
-      }))
+      goTo(index === -1 ? null : branch[index].id)
     },
-    [history.commands.length]
+    [branch, goTo]
   )
 
-  const canUndo = history.currentIndex >= 0
-  const canRedo = history.currentIndex < history.commands.length - 1
+  const canUndo = tree.headId !== null
+  const canRedo = Boolean(tree.activeChild[tree.headId ?? HISTORY_ROOT])
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -168,6 +243,7 @@ export function useFormHistory(options: UseFormHistoryOptions = {}) {
 
   return {
     history,
+    timeline,
     executeCommand,
     undo,
     redo,
@@ -176,5 +252,6 @@ export function useFormHistory(options: UseFormHistoryOptions = {}) {
     clearHistory,
     getCommandAt,
     goToIndex,
+    goTo,
   }
 }
@@ -3,69 +3,29 @@
  * React Query hooks for managing form conditional logic rules (show/hide fields, enable/disable, etc.)
  */
 
+import { useMemo } from "react"
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
 import { apiClient } from "@/lib/api"
+import { evaluateConditionalRules, type LogicContext } from "@/lib/conditional-logic"
+import { normalizeConditionalRule, normalizeConditionalRules } from "@/lib/conditional-rules"
+import type { FormField, FormResponseData } from "@/lib/types"
 import { queryKeys } from "@/lib/query-client"
 import { toast } from "sonner"
-
-// Types
-export interface ConditionalRule {
-  id: string
-  form_id: string
-  name: string
-  description?: string
-  priority: number // Higher priority rules execute first
-  enabled: boolean
-  conditions: Condition[]
-  actions: Action[]
-  logic_operator: "AND" | "OR" // How to combine multiple conditions
-  created_at: string
-  updated_at?: string
-}
-
-export interface Condition {
-  field_id: string
-  field_name: string
-  operator: ConditionOperator
-  value: any
-  value_type?: "static" | "field" | "variable" // Compare against static value, another field, or variable
-}
-
-export type ConditionOperator =
-  | "equals"
-  | "not_equals"
-  | "greater_than"
-  | "less_than"
-  | "greater_than_or_equal"
-  | "less_than_or_equal"
-  | "contains"
-  | "not_contains"
-  | "starts_with"
-  | "ends_with"
-  | "is_empty"
-  | "is_not_empty"
-  | "in"
-  | "not_in"
-  | "matches_regex"
-
-export interface Action {
-  type: ActionType
-  target_field_ids: string[]
-  parameters?: Record<string, any>
-}
-
-export type ActionType =
-  | "show"
-  | "hide"
-  | "enable"
-  | "disable"
-  | "set_value"
-  | "set_required"
-  | "set_optional"
-  | "set_options" // For select/radio fields
-  | "calculate" // For computed fields
-  | "validate"
-  | "show_message"
+import type {
+  Condition,
+  ConditionalAction as Action,
+  ConditionalActionType as ActionType,
+  ConditionalRule,
+} from "@/lib/types-extended"
+
+// Types (canonical model lives in lib/types-extended)
+export type {
+  Condition,
+  ConditionOperator,
+  ConditionalAction as Action,
+  ConditionalActionType as ActionType,
+  ConditionalRule,
+} from "@/lib/types-extended"
 
 export interface CreateRuleRequest {
   form_id: string
@@ -125,7 +85,7 @@ export function useConditionalRules(formId: string | undefined) {
     queryFn: async () => {
       if (!formId) throw new Error("Form ID is required")
       const response = await apiClient.get(`/forms/${formId}/conditional-rules`)
-      return response.data.data as ConditionalRule[]
+      return normalizeConditionalRules(response.data.data)
     },
     enabled: !!formId,
   })
@@ -140,7 +100,7 @@ export function useConditionalRule(formId: string | undefined, ruleId: string |
         throw new Error("Form ID and rule ID are required")
       }
       const response = await apiClient.get(`/forms/${formId}/conditional-rules/${ruleId}`)
-      return response.data.data as ConditionalRule
+      return normalizeConditionalRule(response.data.data)
     },
     enabled: !!formId && !!ruleId,
   })
@@ -153,7 +113,7 @@ export function useActiveConditionalRules(formId: string | undefined) {
     queryFn: async () => {
       if (!formId) throw new Error("Form ID is required")
       const response = await apiClient.get(`/forms/${formId}/conditional-rules/active`)
-      return response.data.data as ConditionalRule[]
+      return normalizeConditionalRules(response.data.data)
     },
     enabled: !!formId,
   })
@@ -179,7 +139,7 @@ export function useCreateConditionalRule(formId: string) {
   return useMutation({
     mutationFn: async (data: CreateRuleRequest) => {
       const response = await apiClient.post(`/forms/${formId}/conditional-rules`, data)
-      return response.data.data as ConditionalRule
+      return normalizeConditionalRule(response.data.data)
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.forms.conditionalRules(formId) })
@@ -198,7 +158,7 @@ export function useUpdateConditionalRule(formId: string, ruleId: string) {
   return useMutation({
     mutationFn: async (data: UpdateRuleRequest) => {
       const response = await apiClient.put(`/forms/${formId}/conditional-rules/${ruleId}`, data)
-      return response.data.data as ConditionalRule
+      return normalizeConditionalRule(response.data.data)
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.forms.conditionalRules(formId) })
@@ -238,7 +198,7 @@ export function useToggleConditionalRule(formId: string, ruleId: string) {
         `/forms/${formId}/conditional-rules/${ruleId}/toggle`,
         { enabled }
       )
-      return response.data.data as ConditionalRule
+      return normalizeConditionalRule(response.data.data)
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: queryKeys.forms.conditionalRules(formId) })
@@ -273,7 +233,7 @@ export function useDuplicateConditionalRule(formId: string, ruleId: string) {
         `/forms/${formId}/conditional-rules/${ruleId}/duplicate`,
         data
       )
-      return response.data.data as ConditionalRule
+      return normalizeConditionalRule(response.data.data)
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.forms.conditionalRules(formId) })
@@ -331,7 +291,7 @@ export function useRulesAffectingField(formId: string | undefined, fieldId: stri
         throw new Error("Form ID and field ID are required")
       }
       const response = await apiClient.get(`/forms/${formId}/conditional-rules/by-field/${fieldId}`)
-      return response.data.data as ConditionalRule[]
+      return normalizeConditionalRules(response.data.data)
     },
     enabled: !!formId && !!fieldId,
   })
@@ -355,3 +315,16 @@ export function useBulkToggleRules(formId: string) {
     },
   })
 }
+
+// Evaluate rules locally as the form data changes (no server round-trip, works offline)
+export function useConditionalLogicEvaluation(
+  rules: ConditionalRule[] | undefined,
+  fields: FormField[],
+  data: FormResponseData,
+  context?: LogicContext
+) {
+  return useMemo(
+    () => evaluateConditionalRules(rules ?? [], fields, data, context),
+    [rules, fields, data, context]
+  )
+}
@@ -5,7 +5,9 @@
 
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
 import { apiClient } from "@/lib/api"
+import { findPublishBlockingRuleIssues, formatRuleIssues } from "@/lib/conditional-rules"
 import { queryKeys } from "@/lib/query-client"
+import type { Form } from "@/lib/types"
 import { toast } from "sonner"
 
 // Types
@@ -18,6 +20,8 @@ export interface FormVersion {
   fields: any[] // Form field schema
   branding?: any
   settings?: any
+  /** Schema stored with the version, holding its page breaks and page settings */
+  schema?: Pick<Form["schema"], "pages" | "settings">
   status: "draft" | "active" | "archived" | "decommissioned"
   created_by: string
   created_by_username?: string
@@ -77,15 +81,20 @@ export interface VersionStats {
 export function useFormVersions(formId: string | undefined) {
   return useQuery({
     queryKey: formId ? queryKeys.forms.versions(formId) : [],
-    queryFn: async () => {
+    queryFn: () => {
       if (!formId) throw new Error("Form ID is required")
-      const response = await apiClient.get(`/forms/${formId}/versions`)
-      return response.data.data as FormVersion[]
+      return fetchFormVersions(formId)
     },
     enabled: !!formId,
   })
 }
 
+// Fetch a form's versions outside a component, e.g. for exports
+export async function fetchFormVersions(formId: string): Promise<FormVersion[]> {
+  const response = await apiClient.get(`/forms/${formId}/versions`)
+  return response.data.data as FormVersion[]
+}
+
 // Get specific version
 export function useFormVersion(formId: string | undefined, version: number | undefined) {
   return useQuery({
@@ -177,6 +186,11 @@ export function usePublishVersion(formId: string, version: number) {
 
   return useMutation({
     mutationFn: async (data?: PublishVersionRequest) => {
+      const ruleIssues = await findPublishBlockingRuleIssues(formId)
+      if (ruleIssues.length > 0) {
+        throw Object.assign(new Error(formatRuleIssues(ruleIssues)), { ruleIssues })
+      }
+
       // Use the correct publish endpoint (no version-specific endpoint exists)
       // This sets form status to "active" (not "published")
       const response = await apiClient.post(`/forms/${formId}/publish`, data)
@@ -188,7 +202,11 @@ export function usePublishVersion(formId: string, version: number) {
       toast.success("Form published successfully")
     },
     onError: (error: any) => {
-      toast.error(error.response?.data?.message || "Failed to publish form")
+      toast.error(
+        error.ruleIssues
+          ? `Fix conditional rules before publishing: ${error.message}`
+          : error.response?.data?.message || "Failed to publish form"
+      )
     },
   })
 }
@@ -1,7 +1,16 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
-import { formsAPI } from "@/lib/api"
+import { exportAPI, formsAPI } from "@/lib/api"
 import { queryKeys } from "@/lib/query-client"
 import { useToast } from "@/hooks/use-toast"
+import { fetchFormVersions } from "@/hooks/forms/use-form-versioning"
+import {
+  findPublishBlockingRuleIssues,
+  formatRuleIssues,
+  normalizeConditionalRules,
+} from "@/lib/conditional-rules"
+import { exportFileName, exportFormDefinition, exportXLSForm } from "@/lib/form-export"
+import { writeXlsx } from "@/lib/xlsx"
+import { buildCodebook, codebookToCsv, codebookToMarkdown, codebookToPdf } from "@/lib/codebook"
 import type { Form } from "@/lib/types"
 
 // Fetch all forms with optional filters
@@ -111,6 +120,12 @@ export function usePublishForm() {
 
   return useMutation({
     mutationFn: async (id: string) => {
+      // Rules pointing at deleted fields would silently stop working once live
+      const ruleIssues = await findPublishBlockingRuleIssues(id)
+      if (ruleIssues.length > 0) {
+        throw Object.assign(new Error(formatRuleIssues(ruleIssues)), { ruleIssues })
+      }
+
       const response = await formsAPI.publish(id)
       return response.data.data as Form
     },
@@ -122,10 +137,10 @@ export function usePublishForm() {
         description: "Form published successfully",
       })
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
-        title: "Error",
-        description: "Failed to publish form",
+        title: error.ruleIssues ? "Fix Conditional Rules" : "Error",
+        description: error.ruleIssues ? error.message : "Failed to publish form",
         variant: "destructive",
       })
     },
@@ -255,6 +270,150 @@ export function useExportForm() {
   })
 }
 
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.URL.revokeObjectURL(url)
+}
+
+// Export form definition as XLSForm or JSON Schema
+export function useExportFormDefinition() {
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ formId, format }: { formId: string; format: "xlsform" | "json" }) => {
+      const [formResponse, conditionalResponse, validationResponse] = await Promise.all([
+        formsAPI.getById(formId),
+        formsAPI.getConditionalRules(formId),
+        formsAPI.getValidationRules(formId),
+      ])
+      const form: Form = formResponse.data.data
+      const conditionalRules = normalizeConditionalRules(conditionalResponse.data.data)
+      const validationRules = validationResponse.data.data || []
+
+      if (format === "xlsform") {
+        const { workbook, issues } = exportXLSForm(form, conditionalRules, validationRules)
+        return {
+          blob: new Blob([writeXlsx(workbook) as BlobPart], {
+            type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          }),
+          fileName: exportFileName(form, "xlsx"),
+          skipped: issues.filter((issue) => issue.severity !== "info").length,
+        }
+      }
+
+      const definition = exportFormDefinition(form, conditionalRules, validationRules)
+      return {
+        blob: new Blob([JSON.stringify(definition, null, 2)], { type: "application/schema+json" }),
+        fileName: exportFileName(form, "schema.json"),
+        skipped: 0,
+      }
+    },
+    onSuccess: ({ blob, fileName, skipped }) => {
+      downloadBlob(blob, fileName)
+
+      toast({
+        title: "Success",
+        description: skipped
+          ? `Form exported; ${skipped} setting${skipped !== 1 ? "s" : ""} could not be converted`
+          : "Form exported successfully",
+      })
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to export form",
+        variant: "destructive",
+      })
+    },
+  })
+}
+
+const CODEBOOK_FORMATS = {
+  markdown: { extension: "codebook.md", type: "text/markdown" },
+  csv: { extension: "codebook.csv", type: "text/csv" },
+  pdf: { extension: "codebook.pdf", type: "application/pdf" },
+}
+
+// Download a form's data dictionary, optionally with its responses
+export function useExportCodebook() {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      formId,
+      format,
+      responses,
+    }: {
+      formId: string
+      format: keyof typeof CODEBOOK_FORMATS
+      responses?: "csv" | "xlsx" | "json"
+    }) => {
+      const [formResponse, versions, conditionalResponse, validationResponse] = await Promise.all([
+        formsAPI.getById(formId),
+        // The same versions the codebook page shows
+        queryClient.fetchQuery({
+          queryKey: queryKeys.forms.versions(formId),
+          queryFn: () => fetchFormVersions(formId),
+        }),
+        formsAPI.getConditionalRules(formId),
+        formsAPI.getValidationRules(formId),
+      ])
+      const form: Form = formResponse.data.data
+      const codebook = buildCodebook(
+        form,
+        versions,
+        normalizeConditionalRules(conditionalResponse.data.data),
+        validationResponse.data.data || []
+      )
+
+      const { extension, type } = CODEBOOK_FORMATS[format]
+      const content =
+        format === "pdf"
+          ? (codebookToPdf(codebook) as BlobPart)
+          : format === "csv"
+            ? codebookToCsv(codebook)
+            : codebookToMarkdown(codebook)
+      const files = [
+        { blob: new Blob([content], { type }), fileName: exportFileName(form, extension) },
+      ]
+
+      if (responses) {
+        const response = await exportAPI.responses({ form_ids: [formId], format: responses })
+        files.push({
+          blob: response.data,
+          fileName: exportFileName(form, `responses.${responses}`),
+        })
+      }
+      return files
+    },
+    onSuccess: (files) => {
+      files.forEach(({ blob, fileName }) => downloadBlob(blob, fileName))
+
+      toast({
+        title: "Success",
+        description:
+          files.length > 1
+            ? "Responses and data dictionary exported successfully"
+            : "Data dictionary exported successfully",
+      })
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to export data dictionary",
+        variant: "destructive",
+      })
+    },
+  })
+}
+
 // Cleanup deleted forms mutation (admin only)
 export function useCleanupForms() {
   const queryClient = useQueryClient()
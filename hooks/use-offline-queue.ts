@@ -0,0 +1,115 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { OFFLINE_QUEUE } from "@/lib/constants"
+import {
+  OFFLINE_QUEUE_EVENT,
+  countSubmissionsByForm,
+  discardSubmission,
+  enqueueSubmission,
+  listSubmissions,
+  retrySubmission,
+  syncOutbox,
+  type QueuedSubmission,
+  type SyncResult,
+} from "@/lib/offline-queue"
+import { logger } from "@/lib/logger"
+
+/**
+ * Track the browser's online/offline state
+ */
+export function useOnlineStatus(): boolean {
+  const [isOnline, setIsOnline] = useState(true)
+
+  useEffect(() => {
+    if (typeof navigator === "undefined") return
+
+    setIsOnline(navigator.onLine)
+    const handleOnline = () => setIsOnline(true)
+    const handleOffline = () => setIsOnline(false)
+
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+    }
+  }, [])
+
+  return isOnline
+}
+
+/**
+ * Access the offline submission outbox.
+ *
+ * Replays queued submissions automatically when the device comes back online
+ * and periodically while there are pending items.
+ */
+export function useOfflineQueue(options: { autoSync?: boolean } = {}) {
+  const { autoSync = true } = options
+  const isOnline = useOnlineStatus()
+  const [items, setItems] = useState<QueuedSubmission[]>([])
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [lastSyncResult, setLastSyncResult] = useState<SyncResult | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await listSubmissions())
+    } catch (error) {
+      logger.warn("Failed to read offline queue", { error })
+    }
+  }, [])
+
+  const syncNow = useCallback(async () => {
+    setIsSyncing(true)
+    try {
+      const result = await syncOutbox()
+      setLastSyncResult(result)
+      return result
+    } catch (error) {
+      logger.warn("Offline queue sync failed", { error })
+      return null
+    } finally {
+      setIsSyncing(false)
+      await refresh()
+    }
+  }, [refresh])
+
+  useEffect(() => {
+    refresh()
+    window.addEventListener(OFFLINE_QUEUE_EVENT, refresh)
+    return () => window.removeEventListener(OFFLINE_QUEUE_EVENT, refresh)
+  }, [refresh])
+
+  const hasPending = items.some((item) => item.status === "pending")
+
+  // Replay as soon as connectivity returns
+  useEffect(() => {
+    if (autoSync && isOnline && hasPending) {
+      syncNow()
+    }
+  }, [autoSync, isOnline, hasPending, syncNow])
+
+  // Keep retrying on an interval while items are waiting for their backoff
+  useEffect(() => {
+    if (!autoSync || !isOnline || !hasPending) return
+
+    const interval = setInterval(syncNow, OFFLINE_QUEUE.SYNC_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [autoSync, isOnline, hasPending, syncNow])
+
+  const countsByForm = useMemo(() => countSubmissionsByForm(items), [items])
+
+  return {
+    items,
+    countsByForm,
+    isOnline,
+    isSyncing,
+    lastSyncResult,
+    enqueue: enqueueSubmission,
+    retry: retrySubmission,
+    discard: discardSubmission,
+    syncNow,
+    refresh,
+  }
+}
@@ -0,0 +1,98 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { responsesAPI } from "@/lib/api"
+import { queryKeys } from "@/lib/query-client"
+import { useToast } from "@/hooks/use-toast"
+import type { SaveResponseViewInput, SavedResponseView } from "@/lib/types"
+
+// Saved views the current user can open, optionally for one form
+export function useResponseViews(formId?: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.responses.views(formId),
+    queryFn: async () => {
+      const response = await responsesAPI.getViews(formId ? { form_id: formId } : undefined)
+      return ((response.data.data || []) as SavedResponseView[]).sort((a, b) =>
+        a.name.localeCompare(b.name)
+      )
+    },
+    enabled: options?.enabled ?? true,
+  })
+}
+
+export function useCreateResponseView() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (data: SaveResponseViewInput) => {
+      const response = await responsesAPI.createView(data)
+      return response.data.data as SavedResponseView
+    },
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: ["responses", "views"] })
+      toast({
+        title: "Success",
+        description: `Saved view "${view.name}"`,
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.detail || "Failed to save view",
+        variant: "destructive",
+      })
+    },
+  })
+}
+
+// Rename, reshare or overwrite the state of a view the user owns
+export function useUpdateResponseView() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ id, ...data }: { id: string } & Partial<SaveResponseViewInput>) => {
+      const response = await responsesAPI.updateView(id, data)
+      return response.data.data as SavedResponseView
+    },
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: ["responses", "views"] })
+      toast({
+        title: "Success",
+        description: `Updated view "${view.name}"`,
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.detail || "Failed to update view",
+        variant: "destructive",
+      })
+    },
+  })
+}
+
+export function useDeleteResponseView() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await responsesAPI.deleteView(id)
+      return response.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["responses", "views"] })
+      toast({
+        title: "Success",
+        description: "View deleted",
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.detail || "Failed to delete view",
+        variant: "destructive",
+      })
+    },
+  })
+}
@@ -2,6 +2,15 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
 import { responsesAPI } from "@/lib/api"
 import { queryKeys } from "@/lib/query-client"
 import { useToast } from "@/hooks/use-toast"
+import { REVIEW_STATUSES } from "@/lib/response-review"
+import { MAX_PAGE_SIZE } from "@/lib/constants"
+import type {
+  FormResponse,
+  FormResponseData,
+  ResponseDuplicateDismissal,
+  ResponseReviewStatus,
+  ResponseRevision,
+} from "@/lib/types"
 
 interface ResponsesParams {
   form_id?: string
@@ -19,13 +28,47 @@ export function useResponses(params?: ResponsesParams) {
   })
 }
 
+// Stops paging a server that ignores `offset`
+const EVERY_PAGE_MAX_PAGES = 200
+
+// Fetch every response to a form, page by page. `total` is the server's count;
+// `responses` falls short of it when the page cap is reached.
+export function useAllFormResponses(formId: string) {
+  return useQuery({
+    queryKey: queryKeys.responses.everyPage(formId),
+    queryFn: async () => {
+      const responses = new Map<string, FormResponse>()
+      let total: number | undefined
+      for (let page = 0; page < EVERY_PAGE_MAX_PAGES; page++) {
+        const response = await responsesAPI.getAll({
+          form_id: formId,
+          limit: MAX_PAGE_SIZE,
+          offset: page * MAX_PAGE_SIZE,
+        })
+        const batch = (response.data.data?.responses || []) as FormResponse[]
+        total = response.data.data?.total ?? total
+        const before = responses.size
+        batch.forEach((item) => responses.set(item.id, item))
+
+        if (responses.size === before || batch.length < MAX_PAGE_SIZE) break
+        if (total !== undefined && responses.size >= total) break
+      }
+      return {
+        responses: Array.from(responses.values()),
+        total: Math.max(total ?? 0, responses.size),
+      }
+    },
+    enabled: !!formId,
+  })
+}
+
 // Fetch single response by ID
 export function useResponse(id: string) {
   return useQuery({
     queryKey: queryKeys.responses.detail(id),
     queryFn: async () => {
       const response = await responsesAPI.getById(id)
-      return response.data.data
+      return response.data.data as FormResponse
     },
     enabled: !!id,
   })
@@ -118,3 +161,208 @@ export function useCleanupResponses() {
     },
   })
 }
+
+// Review a single response: approve, flag or return it with field comments
+export function useReviewResponse() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...data
+    }: {
+      id: string
+      status: ResponseReviewStatus
+      note?: string
+      field_comments?: { field_id: string; comment: string }[]
+    }) => {
+      const response = await responsesAPI.review(id, data)
+      return response.data.data as FormResponse
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.responses.detail(variables.id) })
+      queryClient.invalidateQueries({ queryKey: ["responses"] })
+      toast({
+        title: "Success",
+        description: `Response marked ${REVIEW_STATUSES[variables.status].label.toLowerCase()}`,
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.detail || "Failed to review response",
+        variant: "destructive",
+      })
+    },
+  })
+}
+
+// Apply the same review status to several responses
+export function useBulkReviewResponses() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (data: {
+      response_ids: string[]
+      status: ResponseReviewStatus
+      note?: string
+    }) => {
+      const response = await responsesAPI.bulkReview(data)
+      return response.data
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["responses"] })
+      toast({
+        title: "Success",
+        description: `${variables.response_ids.length} response${
+          variables.response_ids.length !== 1 ? "s" : ""
+        } marked ${REVIEW_STATUSES[variables.status].label.toLowerCase()}`,
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.detail || "Failed to review responses",
+        variant: "destructive",
+      })
+    },
+  })
+}
+
+// Responses returned to the current agent for correction
+export function useReturnedResponses() {
+  return useQuery({
+    queryKey: queryKeys.responses.returned,
+    queryFn: async () => {
+      const response = await responsesAPI.getReturned()
+      return (response.data.data || []) as FormResponse[]
+    },
+  })
+}
+
+// Revision history of a response, oldest first
+export function useResponseRevisions(id: string | undefined) {
+  return useQuery({
+    queryKey: id ? queryKeys.responses.revisions(id) : [],
+    queryFn: async () => {
+      if (!id) throw new Error("Response ID is required")
+      const response = await responsesAPI.getRevisions(id)
+      return ((response.data.data || []) as ResponseRevision[]).sort(
+        (a, b) => a.revision - b.revision
+      )
+    },
+    enabled: !!id,
+  })
+}
+
+// Amend a returned response; the server records a revision and resets it to pending
+export function useAmendResponse() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...data
+    }: {
+      id: string
+      data: FormResponseData
+      attachments?: Record<string, string>
+      note?: string
+    }) => {
+      const response = await responsesAPI.amend(id, data)
+      return response.data.data as ResponseRevision
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.responses.detail(variables.id) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.responses.returned })
+      toast({
+        title: "Success",
+        description: "Response amended and sent back for review",
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.detail || "Failed to amend response",
+        variant: "destructive",
+      })
+    },
+  })
+}
+
+// Groups of responses a reviewer confirmed are not duplicates
+export function useDuplicateDismissals(formId: string | undefined) {
+  return useQuery({
+    queryKey: formId ? queryKeys.responses.duplicateDismissals(formId) : [],
+    queryFn: async () => {
+      if (!formId) throw new Error("Form ID is required")
+      const response = await responsesAPI.getDuplicateDismissals(formId)
+      return (response.data.data || []) as ResponseDuplicateDismissal[]
+    },
+    enabled: !!formId,
+  })
+}
+
+// Mark a group of suspected duplicates as distinct responses
+export function useDismissDuplicates() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (data: { form_id: string; response_ids: string[] }) => {
+      const response = await responsesAPI.dismissDuplicates(data)
+      return response.data.data as ResponseDuplicateDismissal
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.responses.duplicateDismissals(variables.form_id),
+      })
+      toast({
+        title: "Success",
+        description: "Responses marked as not duplicates",
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.detail || "Failed to dismiss duplicates",
+        variant: "destructive",
+      })
+    },
+  })
+}
+
+// Merge duplicates into one response; the others are deleted
+export function useMergeDuplicates() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (data: {
+      primary_id: string
+      duplicate_ids: string[]
+      data: FormResponseData
+      attachments?: Record<string, string>
+    }) => {
+      const response = await responsesAPI.mergeDuplicates(data)
+      return response.data.data as FormResponse
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["responses"] })
+      toast({
+        title: "Success",
+        description: `Merged ${variables.duplicate_ids.length + 1} responses`,
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.response?.data?.detail || "Failed to merge responses",
+        variant: "destructive",
+      })
+    },
+  })
+}
@@ -0,0 +1,249 @@
+import {
+  buildCastVotesInput,
+  findRoundMismatch,
+  getBallotContests,
+  getMaxSelections,
+  setRank,
+  shuffleChoices,
+  tabulateInstantRunoff,
+  toggleSelection,
+  toPublicElection,
+  toRankedBallot,
+  validateBallot,
+  WRITE_IN_CHOICE_ID,
+  type BallotContest,
+} from "../ballots"
+import type { Election } from "../types"
+
+const president: BallotContest = {
+  id: "pos_president",
+  type: "position",
+  title: "President",
+  max_selections: 2,
+  choices: [{ id: "a" }, { id: "b" }, { id: "c" }],
+}
+
+const candidates = [
+  { candidate_id: "a", name: "Ama" },
+  { candidate_id: "b", name: "Kofi" },
+  { candidate_id: "c", name: "Esi" },
+]
+
+const repeat = (count: number, ballot: string[]) => Array.from({ length: count }, () => ballot)
+
+describe("ballot layout", () => {
+  const election = {
+    id: "e1",
+    title: "SRC Elections 2024",
+    election_type: "election",
+    voting_method: "single_choice",
+    verification_level: "verified",
+    require_national_id: true,
+    require_phone_otp: false,
+    status: "draft",
+    start_date: "2024-12-08T08:00:00Z",
+    end_date: "2024-12-08T17:00:00Z",
+    branding: { primary_color: "#006b3f" },
+    settings: { randomize_candidates: true, show_party_affiliation: false },
+    positions: [
+      {
+        id: "p2",
+        title: "Secretary",
+        max_selections: 1,
+        display_order: 2,
+        candidates: [],
+      },
+      {
+        id: "p1",
+        title: "President",
+        max_selections: 1,
+        display_order: 1,
+        candidates: [
+          { id: "b", name: "Kofi", party: "Unity", display_order: 2, endorsements: ["x"] },
+          { id: "a", name: "Ama", party: "Progress", display_order: 1, endorsements: [] },
+        ],
+      },
+    ],
+  } as unknown as Election
+
+  it("previews a draft as the ballot voters get, in display order", () => {
+    const ballot = toPublicElection(election)
+    expect(ballot.settings).toEqual({
+      allow_write_in: undefined,
+      randomize_candidates: true,
+      show_party_affiliation: false,
+    })
+    expect(ballot.positions.map((position) => position.id)).toEqual(["p1", "p2"])
+    expect(ballot.positions[0].candidates).toEqual([
+      { id: "a", name: "Ama", party: "Progress" },
+      { id: "b", name: "Kofi", party: "Unity" },
+    ])
+    expect(getBallotContests(ballot).map((contest) => contest.title)).toEqual([
+      "President",
+      "Secretary",
+    ])
+  })
+
+  it("shuffles choices the same way for the same seed", () => {
+    const choices = ["a", "b", "c", "d", "e", "f"]
+    const shuffled = shuffleChoices(choices, "voter-1:p1")
+    expect(shuffleChoices(choices, "voter-1:p1")).toEqual(shuffled)
+    expect([...shuffled].sort()).toEqual(choices)
+    const orders = new Set(
+      Array.from({ length: 20 }, (_, i) => shuffleChoices(choices, `voter-${i}`).join(""))
+    )
+    expect(orders.size).toBeGreaterThan(1)
+  })
+
+  it("ranks a choice by number", () => {
+    expect(setRank(["a", "b", "c"], "c", 1)).toEqual(["c", "a", "b"])
+    expect(setRank(["a", "b"], "c", 9)).toEqual(["a", "b", "c"])
+    expect(setRank(["a", "b", "c"], "a", null)).toEqual(["b", "c"])
+  })
+})
+
+describe("casting", () => {
+  it("caps selections by voting method", () => {
+    expect(getMaxSelections("single_choice", president)).toBe(1)
+    expect(getMaxSelections("multi_choice", president)).toBe(2)
+    expect(getMaxSelections("ranked_choice", president)).toBe(3)
+  })
+
+  it("ignores ticks past the limit", () => {
+    expect(toggleSelection(["a", "b"], "c", 2)).toEqual(["a", "b"])
+    expect(toggleSelection(["a", "b"], "a", 2)).toEqual(["b"])
+  })
+
+  it("rejects over-selected, duplicate and unknown choices", () => {
+    expect(validateBallot("multi_choice", president, ["a", "b", "c"])).toBe(
+      "President: select at most 2"
+    )
+    expect(validateBallot("ranked_choice", president, ["a", "a"])).toMatch(/only be marked once/)
+    expect(validateBallot("ranked_choice", president, ["z"])).toMatch(/unknown choice/)
+    expect(validateBallot("multi_choice", president, [])).toBeNull()
+  })
+
+  it("numbers ranked choices in order", () => {
+    const input = buildCastVotesInput("ranked_choice", [president], { pos_president: ["c", "a"] })
+    expect(input).toEqual({
+      votes: [
+        { position_id: "pos_president", candidate_id: "c", rank: 1 },
+        { position_id: "pos_president", candidate_id: "a", rank: 2 },
+      ],
+    })
+  })
+
+  it("casts poll options without ranks for multi-choice", () => {
+    const poll: BallotContest = { id: "poll", type: "poll", title: "Poll", choices: [{ id: "x" }] }
+    expect(buildCastVotesInput("multi_choice", [poll], { poll: ["x"] }, "token")).toEqual({
+      votes: [{ poll_option_id: "x" }],
+      voter_token: "token",
+    })
+  })
+
+  it("counts a write-in as a choice and requires its name", () => {
+    const open = { ...president, allow_write_in: true }
+    expect(getMaxSelections("ranked_choice", open)).toBe(4)
+    expect(validateBallot("single_choice", president, [WRITE_IN_CHOICE_ID])).toMatch(
+      /unknown choice/
+    )
+    expect(validateBallot("single_choice", open, [WRITE_IN_CHOICE_ID], "  ")).toMatch(
+      /enter the name/
+    )
+    expect(validateBallot("single_choice", open, [WRITE_IN_CHOICE_ID], "Yaw Mensah")).toBeNull()
+  })
+
+  it("casts a write-in's name in place of a candidate", () => {
+    const open = { ...president, allow_write_in: true }
+    const input = buildCastVotesInput(
+      "ranked_choice",
+      [open],
+      { pos_president: [WRITE_IN_CHOICE_ID, "a"] },
+      undefined,
+      { pos_president: " Yaw Mensah " }
+    )
+    expect(input.votes).toEqual([
+      { position_id: "pos_president", write_in: "Yaw Mensah", rank: 1 },
+      { position_id: "pos_president", candidate_id: "a", rank: 2 },
+    ])
+    expect(toRankedBallot(input.votes, "pos_president")).toEqual(["a"])
+  })
+
+  it("reads a ranking back from cast votes", () => {
+    const votes = [
+      { position_id: "pos_president", candidate_id: "a", rank: 2 },
+      { position_id: "pos_other", candidate_id: "z", rank: 1 },
+      { position_id: "pos_president", candidate_id: "c", rank: 1 },
+    ]
+    expect(toRankedBallot(votes, "pos_president")).toEqual(["c", "a"])
+  })
+})
+
+describe("tabulateInstantRunoff", () => {
+  it("declares a first-round majority winner", () => {
+    const result = tabulateInstantRunoff([...repeat(3, ["a"]), ["b"]], candidates)
+    expect(result.winner_id).toBe("a")
+    expect(result.rounds).toHaveLength(1)
+    expect(result.rounds[0].candidates[0]).toEqual({
+      candidate_id: "a",
+      name: "Ama",
+      votes: 3,
+      percentage: 75,
+    })
+  })
+
+  it("transfers eliminated candidates' ballots to the next preference", () => {
+    const ballots = [...repeat(4, ["a", "b"]), ...repeat(3, ["b", "a"]), ...repeat(2, ["c", "b"])]
+    const result = tabulateInstantRunoff(ballots, candidates)
+
+    expect(result.eliminations).toEqual([{ round: 1, candidate_id: "c", tiebreak: false }])
+    expect(result.rounds[1].candidates.map((c) => [c.candidate_id, c.votes])).toEqual([
+      ["b", 5],
+      ["a", 4],
+    ])
+    expect(result.winner_id).toBe("b")
+  })
+
+  it("counts exhausted ballots and measures majorities against continuing ballots", () => {
+    const ballots = [...repeat(3, ["a"]), ...repeat(2, ["b"]), ...repeat(2, ["c"])]
+    const result = tabulateInstantRunoff(ballots, candidates)
+
+    expect(result.exhausted).toEqual([0, 2])
+    expect(result.rounds[1].candidates[0]).toMatchObject({ candidate_id: "a", percentage: 60 })
+    expect(result.winner_id).toBe("a")
+  })
+
+  it("breaks ties for last place using earlier rounds, then list order", () => {
+    const ballots = [...repeat(5, ["a"]), ...repeat(3, ["b"]), ...repeat(3, ["c"])]
+    const result = tabulateInstantRunoff(ballots, candidates)
+    expect(result.eliminations[0]).toEqual({ round: 1, candidate_id: "c", tiebreak: true })
+  })
+
+  it("ignores unknown and repeated rankings", () => {
+    const result = tabulateInstantRunoff([["z", "a", "a"], ["b"], ["a"]], candidates)
+    expect(result.rounds[0].candidates.find((c) => c.candidate_id === "a")?.votes).toBe(2)
+    expect(result.winner_id).toBe("a")
+  })
+
+  it("has no winner without ballots", () => {
+    expect(tabulateInstantRunoff([], candidates).winner_id).toBeNull()
+  })
+})
+
+describe("findRoundMismatch", () => {
+  it("reports the first round that differs from a recount", () => {
+    const ballots = [...repeat(4, ["a", "b"]), ...repeat(3, ["b"]), ...repeat(2, ["c", "b"])]
+    const { rounds } = tabulateInstantRunoff(ballots, candidates)
+
+    expect(findRoundMismatch(rounds, rounds)).toBeNull()
+
+    const tampered = rounds.map((round) => ({
+      ...round,
+      candidates: round.candidates.map((c) =>
+        round.round === 2 && c.candidate_id === "a" ? { ...c, votes: c.votes + 1 } : c
+      ),
+    }))
+    expect(findRoundMismatch(tampered, rounds)).toBe(2)
+    expect(findRoundMismatch(rounds.slice(0, 1), rounds)).toBe(2)
+  })
+})
@@ -0,0 +1,168 @@
+import { buildCodebook, codebookToCsv, codebookToMarkdown, codebookToPdf } from "../codebook"
+import type { Form, FormField } from "../types"
+import type { ConditionalRule } from "../types-extended"
+
+const GENERATED_AT = "2026-01-01T00:00:00.000Z"
+
+const age: FormField = { id: "age", type: "number", label: "Age", required: true, min: 0 }
+const gender: FormField = {
+  id: "gender",
+  type: "radio",
+  label: "Gender",
+  required: false,
+  options: [
+    { label: "Female", value: "f" },
+    { label: "Male", value: "m" },
+  ],
+}
+const household: FormField = {
+  id: "household",
+  type: "group",
+  label: "Household members",
+  required: false,
+  repeatable: true,
+  maxRepeats: 10,
+  fields: [{ id: "name", type: "text", label: "Name", required: true }],
+}
+const voter: FormField = { id: "voter_id", type: "text", label: "Voter ID", required: false }
+
+function makeForm(fields: FormField[], version = 3): Form {
+  return {
+    id: "form-1",
+    title: "Household survey",
+    organization_id: "org-1",
+    status: "active",
+    version,
+    schema: { fields },
+    created_by: "user-1",
+    created_at: GENERATED_AT,
+  }
+}
+
+const showVoterId: ConditionalRule = {
+  id: "rule-1",
+  form_id: "form-1",
+  name: "Adults only",
+  priority: 1,
+  enabled: true,
+  logic_operator: "AND",
+  conditions: [
+    { field_id: "age", operator: "greater_than_or_equal", value: 18, value_type: "static" },
+    { field_id: "gender", operator: "equals", value: "f", value_type: "static" },
+  ],
+  actions: [{ type: "show", target_field_ids: ["voter_id"] }],
+}
+
+const versions = [
+  { version: 1, fields: [age, { ...gender, label: "Sex" }] },
+  { version: 2, fields: [age, gender, household] },
+  { version: 3, fields: [age, gender, household, voter] },
+]
+
+describe("buildCodebook", () => {
+  const codebook = buildCodebook(
+    makeForm([age, gender, household, voter]),
+    versions,
+    [showVoterId],
+    [
+      {
+        field_id: "voter_id",
+        rule_type: "pattern",
+        parameters: { value: "^[0-9]{10}$" },
+        error_message: "Enter 10 digits",
+        enabled: true,
+      },
+    ],
+    GENERATED_AT
+  )
+  const entry = (variable: string) => codebook.entries.find((e) => e.variable === variable)!
+
+  it("lists every field, including repeating group children", () => {
+    expect(codebook.entries.map((e) => e.variable)).toEqual([
+      "age",
+      "gender",
+      "household",
+      "household.name",
+      "voter_id",
+    ])
+    expect(entry("household")).toMatchObject({
+      typeLabel: "Repeating group",
+      validation: ["Repeats at most 10 times"],
+    })
+  })
+
+  it("lists allowed values with their stored codes", () => {
+    expect(entry("gender").values).toEqual([
+      { code: "f", label: "Female" },
+      { code: "m", label: "Male" },
+    ])
+    expect(entry("age").validation).toEqual(["At least 0"])
+    expect(entry("voter_id").validation).toEqual(["Must match the pattern ^[0-9]{10}$"])
+  })
+
+  it("describes skip logic in plain language", () => {
+    expect(entry("voter_id").skipLogic).toEqual([
+      'Shown when "Age" is at least 18 and "Gender" is "Female" (f)',
+    ])
+    expect(entry("age").skipLogic).toEqual([])
+  })
+
+  it("records the version each field was introduced or changed in", () => {
+    expect(entry("age")).toMatchObject({ introducedIn: 1, changes: [] })
+    expect(entry("gender")).toMatchObject({
+      introducedIn: 1,
+      changes: [{ version: 2, description: 'Relabelled "Sex" → "Gender"' }],
+    })
+    expect(entry("household.name").introducedIn).toBe(2)
+    expect(entry("voter_id").introducedIn).toBe(3)
+  })
+
+  it("leaves fields that aren't in a saved version unversioned", () => {
+    const draft = buildCodebook(makeForm([age, voter]), versions.slice(0, 1), [], [], GENERATED_AT)
+    expect(draft.entries.find((e) => e.variable === "voter_id")?.introducedIn).toBeNull()
+  })
+})
+
+describe("codebook serializers", () => {
+  const codebook = buildCodebook(
+    makeForm([age, gender, voter]),
+    versions,
+    [showVoterId],
+    [],
+    GENERATED_AT
+  )
+
+  it("renders Markdown with a value table per choice field", () => {
+    const markdown = codebookToMarkdown(codebook)
+    expect(markdown).toContain("# Household survey — Data dictionary")
+    expect(markdown).toContain("| `gender` | Gender | Single choice | No | v1 |")
+    expect(markdown).toContain("| `f` | Female |")
+    expect(markdown).toContain("- **History:** Introduced in v1; changed in v2")
+  })
+
+  it("renders one CSV row per variable and quotes cells that need it", () => {
+    const lines = codebookToCsv(codebook).trimEnd().split("\r\n")
+    expect(lines).toHaveLength(4)
+    expect(lines[2]).toBe("gender,Gender,radio,no,f=Female; m=Male,,,,1,2,,")
+    expect(lines[3]).toContain('"Shown when ""Age"" is at least 18')
+  })
+
+  it("renders a PDF", () => {
+    const pdf = Buffer.from(codebookToPdf(codebook)).toString("latin1")
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true)
+    expect(pdf).toContain("(gender \x97 Gender) Tj")
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true)
+
+    // Every xref entry points at its object
+    const xref = Number(pdf.match(/startxref\n(\d+)/)![1])
+    const offsets = pdf
+      .slice(xref)
+      .split("\n")
+      .slice(3)
+      .filter((line) => line.endsWith(" n "))
+      .map((line) => Number(line.slice(0, 10)))
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset, offset + 12)).toMatch(new RegExp(`^${index + 1} 0 obj`))
+    })
+  })
+})
@@ -0,0 +1,146 @@
+import {
+  countReported,
+  fromSubmissionProgress,
+  getStationProgress,
+  groupContestTotals,
+  isStationGap,
+  rollUpStations,
+} from "../collation-rollup"
+import type { PollingStation, ResultSheet, ResultSheetStatus } from "../types"
+
+const station = (id: string, areaId: string): PollingStation => ({
+  id,
+  name: `Station ${id}`,
+  code: id.toUpperCase(),
+  electoral_area_id: areaId,
+  registered_voters: 500,
+  created_at: "2024-01-01T00:00:00Z",
+})
+
+const sheet = (id: string, stationId: string, status: ResultSheetStatus): ResultSheet => ({
+  id,
+  election_id: "election_1",
+  polling_station_id: stationId,
+  sheet_type: "polling_station",
+  status,
+  created_by: "officer_1",
+  created_at: "2024-01-01T00:00:00Z",
+})
+
+const stations = [
+  station("ps1", "ea1"),
+  station("ps2", "ea1"),
+  station("ps3", "ea1"),
+  station("ps4", "ea2"),
+]
+
+describe("getStationProgress", () => {
+  it("marks stations without a sheet as missing", () => {
+    const progress = getStationProgress(stations, [
+      sheet("s1", "ps1", "submitted"),
+      sheet("s2", "ps2", "draft"),
+    ])
+    expect(progress.map((item) => item.status)).toEqual([
+      "submitted",
+      "draft",
+      "missing",
+      "missing",
+    ])
+    expect(progress.filter(isStationGap).map((item) => item.station.id)).toEqual([
+      "ps2",
+      "ps3",
+      "ps4",
+    ])
+  })
+
+  it("keeps the most advanced sheet per station", () => {
+    const [first] = getStationProgress(stations, [
+      sheet("s1", "ps1", "draft"),
+      sheet("s2", "ps1", "verified"),
+      sheet("s3", "ps1", "submitted"),
+    ])
+    expect(first.sheet?.id).toBe("s2")
+  })
+
+  it("ignores collation centre sheets", () => {
+    const [first] = getStationProgress(stations, [
+      { ...sheet("s1", "ps1", "certified"), sheet_type: "constituency" },
+    ])
+    expect(first.status).toBe("missing")
+  })
+})
+
+describe("rollUpStations", () => {
+  it("counts statuses per area", () => {
+    const progress = getStationProgress(stations, [
+      sheet("s1", "ps1", "submitted"),
+      sheet("s2", "ps2", "certified"),
+      sheet("s3", "ps4", "draft"),
+    ])
+    const counts = rollUpStations(progress, (item) => item.electoral_area_id)
+
+    expect(counts.get("ea1")).toMatchObject({
+      total_stations: 3,
+      missing: 1,
+      submitted: 1,
+      certified: 1,
+    })
+    expect(counts.get("ea2")).toMatchObject({ total_stations: 1, drafts: 1, missing: 0 })
+    expect(countReported(counts.get("ea1")!)).toBe(2)
+  })
+
+  it("derives missing stations from server progress", () => {
+    expect(
+      fromSubmissionProgress({
+        total_stations: 10,
+        sheets_created: 7,
+        drafts: 2,
+        submitted: 2,
+        verified: 1,
+        approved: 1,
+        certified: 1,
+        completion_rate: 50,
+      })
+    ).toMatchObject({ missing: 3, drafts: 2 })
+  })
+})
+
+describe("groupContestTotals", () => {
+  it("groups candidates by position and sorts by votes", () => {
+    const contests = groupContestTotals([
+      {
+        position_id: "p1",
+        position_title: "President",
+        candidate_id: "c1",
+        candidate_name: "Ama",
+        total_votes: 40,
+      },
+      {
+        position_id: "p2",
+        position_title: "MP",
+        candidate_id: "c3",
+        candidate_name: "Kofi",
+        total_votes: 12,
+      },
+      {
+        position_id: "p1",
+        position_title: "President",
+        candidate_id: "c2",
+        candidate_name: "Yaw",
+        total_votes: 60,
+      },
+    ])
+
+    expect(contests.map((contest) => contest.title)).toEqual(["President", "MP"])
+    expect(contests[0].total_votes).toBe(100)
+    expect(contests[0].rows.map((row) => row.name)).toEqual(["Yaw", "Ama"])
+  })
+
+  it("puts poll options in a single contest", () => {
+    const [contest] = groupContestTotals([
+      { poll_option_id: "o1", option_text: "Yes", total_votes: 5 },
+      { poll_option_id: "o2", option_text: "No", total_votes: 3 },
+    ])
+    expect(contest).toMatchObject({ id: "poll", title: "Poll", total_votes: 8 })
+  })
+})
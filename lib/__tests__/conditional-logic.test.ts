@@ -0,0 +1,114 @@
+import { calculateValue, evaluateConditionalRules, evaluateOperator } from "../conditional-logic"
+import type { FormField } from "../types"
+import type { ConditionalRule } from "../types-extended"
+import fixtures from "./fixtures/conditional-logic.json"
+
+const fields = fixtures.fields as FormField[]
+
+describe("Conditional Logic Engine", () => {
+  describe("fixture cases", () => {
+    // Whole-form scenarios, kept as data so cases can be added without code
+    it.each(fixtures.cases.map((testCase) => [testCase.name, testCase] as const))(
+      "%s",
+      (_name, testCase) => {
+        const result = evaluateConditionalRules(
+          testCase.rules as unknown as ConditionalRule[],
+          fields,
+          testCase.data
+        )
+
+        expect(result.hidden_fields.sort()).toEqual([...testCase.expected.hidden_fields].sort())
+        expect(result.required_fields.sort()).toEqual([...testCase.expected.required_fields].sort())
+        expect(result.calculated_values).toEqual(testCase.expected.calculated_values)
+      }
+    )
+  })
+
+  describe("evaluateOperator", () => {
+    it("should compare numeric strings as numbers", () => {
+      expect(evaluateOperator("equals", "10", 10)).toBe(true)
+      expect(evaluateOperator("greater_than", "9", "10")).toBe(false)
+    })
+
+    it("should compare ISO dates", () => {
+      expect(evaluateOperator("less_than", "2024-01-31", "2024-02-01")).toBe(true)
+    })
+
+    it("should check membership for multi-select values", () => {
+      expect(evaluateOperator("contains", ["water", "power"], "power")).toBe(true)
+      expect(evaluateOperator("in", ["water"], ["power", "water"])).toBe(true)
+      expect(evaluateOperator("not_in", "roads", "water,power")).toBe(true)
+    })
+
+    it("should treat invalid regular expressions as non-matching", () => {
+      expect(evaluateOperator("matches_regex", "abc", "([")).toBe(false)
+      expect(evaluateOperator("matches_regex", "GA-123", "^GA-\\d+$")).toBe(true)
+    })
+  })
+
+  describe("calculateValue", () => {
+    it("should ignore empty operands and respect precision", () => {
+      expect(
+        calculateValue(
+          { operation: "average", source_field_ids: ["a", "b", "c"], precision: 1 },
+          {
+            a: 1,
+            b: "2",
+            c: "",
+          }
+        )
+      ).toBe(1.5)
+      expect(
+        calculateValue({ operation: "divide", source_field_ids: ["a", "b"] }, { a: 1, b: 0 })
+      ).toBeNull()
+    })
+  })
+
+  it("should collect messages, options and disabled fields from matching rules", () => {
+    const rules = [
+      {
+        id: "r1",
+        form_id: "f1",
+        name: "Northern",
+        enabled: true,
+        priority: 0,
+        logic_operator: "AND",
+        conditions: [
+          {
+            field_id: "region",
+            field_name: "Region",
+            operator: "equals",
+            value: "northern",
+          },
+        ],
+        actions: [
+          {
+            type: "set_options",
+            target_field_ids: ["district"],
+            parameters: { options: [{ label: "Tamale", value: "tamale" }] },
+          },
+          {
+            type: "show_message",
+            target_field_ids: ["district"],
+            parameters: { message: "Select a northern district", severity: "warning" },
+          },
+          { type: "disable", target_field_ids: ["guardian"] },
+        ],
+      },
+    ] as ConditionalRule[]
+
+    const result = evaluateConditionalRules(rules, fields, { region: "northern" })
+
+    expect(result.fields.district.options).toEqual([{ label: "Tamale", value: "tamale" }])
+    expect(result.disabled_fields).toEqual(["guardian"])
+    expect(result.messages).toEqual([
+      {
+        rule_id: "r1",
+        field_id: "district",
+        message: "Select a northern district",
+        severity: "warning",
+      },
+    ])
+    expect(result.matched_rule_ids).toEqual(["r1"])
+  })
+})
@@ -0,0 +1,118 @@
+import {
+  findPublishBlockingRuleIssues,
+  isLegacyConditionalRule,
+  normalizeConditionalRule,
+  validateConditionalRules,
+} from "../conditional-rules"
+import { formsAPI } from "../api"
+import type { ConditionalRule, LegacyConditionalRule } from "../types-extended"
+
+// Mock the API
+jest.mock("../api", () => ({
+  formsAPI: {
+    getById: jest.fn(),
+    getConditionalRules: jest.fn(),
+  },
+}))
+
+const legacyRule: LegacyConditionalRule = {
+  id: "rule-1",
+  form_id: "form-1",
+  rule_name: "Show employer",
+  rule_type: "show_hide",
+  conditions: [{ field_id: "employed", operator: "equals", value: "yes" }],
+  actions: [
+    { type: "show_field", target_field_id: "employer" },
+    { type: "show_error", target_field_id: "employer", error_message: "Employer is required" },
+    { type: "clear_error", target_field_id: "employer" },
+  ],
+  priority: 2,
+  is_active: false,
+  created_at: "2024-01-01T00:00:00Z",
+}
+
+const canonicalRule: ConditionalRule = {
+  id: "rule-2",
+  form_id: "form-1",
+  name: "Total",
+  priority: 0,
+  enabled: true,
+  logic_operator: "OR",
+  conditions: [{ field_id: "income", operator: "is_not_empty", value: null }],
+  actions: [
+    {
+      type: "calculate",
+      target_field_ids: ["total"],
+      parameters: { operation: "sum", source_field_ids: ["income", "bonus"] },
+    },
+  ],
+}
+
+describe("Conditional Rules", () => {
+  describe("normalizeConditionalRule", () => {
+    it("should upgrade legacy payloads to the canonical model", () => {
+      expect(isLegacyConditionalRule(legacyRule)).toBe(true)
+
+      expect(normalizeConditionalRule(legacyRule)).toEqual({
+        id: "rule-1",
+        form_id: "form-1",
+        name: "Show employer",
+        description: undefined,
+        priority: 2,
+        enabled: false,
+        logic_operator: "AND",
+        conditions: [
+          { field_id: "employed", operator: "equals", value: "yes", value_type: "static" },
+        ],
+        actions: [
+          { type: "show", target_field_ids: ["employer"], parameters: {} },
+          {
+            type: "validate",
+            target_field_ids: ["employer"],
+            parameters: { message: "Employer is required" },
+          },
+        ],
+        created_at: "2024-01-01T00:00:00Z",
+        updated_at: undefined,
+        created_by: undefined,
+      })
+    })
+
+    it("should leave canonical rules unchanged", () => {
+      expect(isLegacyConditionalRule(canonicalRule)).toBe(false)
+      expect(normalizeConditionalRule(canonicalRule)).toMatchObject(canonicalRule)
+    })
+  })
+
+  describe("validateConditionalRules", () => {
+    it("should flag references to deleted fields", () => {
+      const issues = validateConditionalRules(
+        [canonicalRule, normalizeConditionalRule(legacyRule)],
+        [{ id: "income" }, { id: "total" }, { id: "employed" }]
+      )
+
+      expect(issues).toEqual([
+        expect.objectContaining({ rule_id: "rule-2", field_id: "bonus", severity: "error" }),
+        // Disabled rules only warn
+        expect.objectContaining({ rule_id: "rule-1", field_id: "employer", severity: "warning" }),
+        expect.objectContaining({ rule_id: "rule-1", field_id: "employer", severity: "warning" }),
+      ])
+    })
+  })
+
+  describe("findPublishBlockingRuleIssues", () => {
+    it("should validate saved rules against the saved schema", async () => {
+      ;(formsAPI.getById as jest.Mock).mockResolvedValue({
+        data: { data: { id: "form-1", schema: { fields: [{ id: "income" }, { id: "total" }] } } },
+      })
+      ;(formsAPI.getConditionalRules as jest.Mock).mockResolvedValue({
+        data: { data: [canonicalRule, legacyRule] },
+      })
+
+      const issues = await findPublishBlockingRuleIssues("form-1")
+
+      expect(issues).toHaveLength(1)
+      expect(issues[0]).toMatchObject({ rule_name: "Total", field_id: "bonus" })
+    })
+  })
+})
@@ -0,0 +1,161 @@
+import {
+  formatCountdown,
+  getElectionTimeline,
+  getManualTransitions,
+  getNextScheduledTransition,
+  getTransitionTarget,
+  runPreflightChecks,
+} from "../election-lifecycle"
+import type { Candidate, Election, ElectionPosition } from "../types"
+
+const now = new Date("2024-12-07T10:00:00Z")
+
+const candidate = (id: string): Candidate => ({
+  id,
+  position_id: "p1",
+  name: `Candidate ${id}`,
+  policies: {},
+  experience: {},
+  endorsements: [],
+  display_order: 0,
+  created_at: "2024-12-01T00:00:00Z",
+})
+
+const position = (title: string, maxSelections: number, candidates: number): ElectionPosition => ({
+  id: title,
+  election_id: "e1",
+  title,
+  max_selections: maxSelections,
+  display_order: 0,
+  created_at: "2024-12-01T00:00:00Z",
+  candidates: Array.from({ length: candidates }, (_, i) => candidate(`${title}-${i}`)),
+})
+
+const election = (overrides: Partial<Election> = {}): Election => ({
+  id: "e1",
+  organization_id: "o1",
+  title: "SRC Elections 2024",
+  election_type: "election",
+  voting_method: "single_choice",
+  verification_level: "verified",
+  require_national_id: true,
+  require_phone_otp: false,
+  results_visibility: "after_close",
+  show_voter_count: true,
+  start_date: "2024-12-08T08:00:00Z",
+  end_date: "2024-12-08T17:00:00Z",
+  status: "draft",
+  settings: {},
+  branding: {},
+  created_by: "u1",
+  created_at: "2024-12-01T00:00:00Z",
+  deleted: false,
+  positions: [position("President", 1, 2)],
+  ...overrides,
+})
+
+describe("transitions", () => {
+  it("only offers transitions that are legal from the current status", () => {
+    expect(getManualTransitions("draft")).toEqual(["publish", "cancel"])
+    expect(getManualTransitions("scheduled")).toEqual(["open", "cancel"])
+    expect(getManualTransitions("active")).toEqual(["pause", "close", "cancel"])
+    expect(getManualTransitions("paused")).toEqual(["resume", "close", "cancel"])
+    expect(getManualTransitions("closed")).toEqual([])
+    expect(getManualTransitions("cancelled")).toEqual([])
+  })
+
+  it("schedules a published election until its start date", () => {
+    expect(getTransitionTarget(election(), "publish", now)).toBe("scheduled")
+    expect(
+      getTransitionTarget(election({ start_date: "2024-12-07T09:00:00Z" }), "publish", now)
+    ).toBe("active")
+  })
+})
+
+describe("runPreflightChecks", () => {
+  it("passes a ready election", () => {
+    expect(runPreflightChecks(election(), "publish", { now })).toEqual({ errors: [], warnings: [] })
+  })
+
+  it("blocks publishing an incomplete ballot or a bad schedule", () => {
+    expect(runPreflightChecks(election({ positions: [] }), "publish", { now }).errors).toEqual([
+      "Add at least one position",
+    ])
+    expect(
+      runPreflightChecks(election({ positions: [position("Treasurer", 2, 1)] }), "publish", { now })
+        .errors
+    ).toEqual(['"Treasurer" allows 2 selections but has only 1 candidate'])
+    expect(
+      runPreflightChecks(election({ end_date: "2024-12-08T07:00:00Z" }), "publish", { now }).errors
+    ).toEqual(["The end date must be after the start date"])
+    expect(
+      runPreflightChecks(election({ election_type: "poll", poll_options: [] }), "publish", { now })
+        .errors
+    ).toHaveLength(1)
+  })
+
+  it("warns about risky settings without blocking", () => {
+    const result = runPreflightChecks(
+      election({
+        verification_level: "anonymous",
+        require_national_id: false,
+        results_visibility: "real_time",
+        start_date: "2024-12-07T09:45:00Z",
+        end_date: "2024-12-07T10:15:00Z",
+        positions: [position("President", 1, 1)],
+      }),
+      "publish",
+      { now }
+    )
+    expect(result.errors).toEqual([])
+    expect(result.warnings).toHaveLength(5)
+    expect(result.warnings).toContain("Voting is open for only 30 minutes")
+  })
+
+  it("rejects transitions that aren't legal and checks the rest against the clock", () => {
+    expect(runPreflightChecks(election(), "resume", { now }).errors).toEqual([
+      "A draft election can't resume",
+    ])
+    const ended = election({ status: "paused", end_date: "2024-12-07T09:00:00Z" })
+    expect(runPreflightChecks(ended, "resume", { now }).errors).toHaveLength(1)
+    expect(runPreflightChecks(ended, "close", { now, totalVotes: 0 }).warnings).toEqual([
+      "No votes have been cast",
+    ])
+    expect(
+      runPreflightChecks(election({ status: "active" }), "cancel", { now, totalVotes: 12 }).warnings
+    ).toEqual(["12 votes will be discarded"])
+  })
+})
+
+describe("schedule", () => {
+  it("counts down to the next transition the schedule will make", () => {
+    expect(getNextScheduledTransition(election(), now)).toBeNull()
+
+    const scheduled = election({ status: "scheduled" })
+    expect(getNextScheduledTransition(scheduled, now)).toMatchObject({
+      transition: "open",
+      state: "upcoming",
+    })
+    expect(getNextScheduledTransition(scheduled, new Date("2024-12-08T08:00:00Z"))).toMatchObject({
+      transition: "open",
+      state: "due",
+    })
+
+    const active = election({ status: "active" })
+    expect(getElectionTimeline(active, now).map((event) => event.state)).toEqual([
+      "done",
+      "upcoming",
+    ])
+    expect(getNextScheduledTransition(active, now)?.transition).toBe("close")
+    expect(getNextScheduledTransition(election({ status: "closed" }), now)).toBeNull()
+    expect(
+      getElectionTimeline(election({ status: "cancelled" }), now).map((event) => event.state)
+    ).toEqual(["skipped", "skipped"])
+  })
+
+  it("formats the countdown", () => {
+    expect(formatCountdown(5_000)).toBe("00:00:05")
+    expect(formatCountdown((2 * 86400 + 3 * 3600 + 14 * 60 + 5) * 1000)).toBe("2d 03:14:05")
+    expect(formatCountdown(-1000)).toBe("00:00:00")
+  })
+})
@@ -0,0 +1,236 @@
+import {
+  createSocketTransport,
+  deriveFieldOperations,
+  getCollaborationUrl,
+  groupPresenceByField,
+  mergeFieldOperations,
+  prunePresence,
+  type CollabMessage,
+  type CollabTransportStatus,
+  type CollaboratorPresence,
+  type SocketLike,
+} from "../form-collaboration"
+import type { FormField } from "../types"
+
+const field = (id: string, overrides: Partial<FormField> = {}): FormField => ({
+  id,
+  type: "text",
+  label: id,
+  required: false,
+  ...overrides,
+})
+
+/**
+ * In-memory stand-in for the collaboration server: relays every frame a
+ * socket sends to all other sockets connected to the same URL
+ */
+class MockSocketServer {
+  private rooms = new Map<string, Set<MockSocket>>()
+  refuse = false
+
+  connect = (url: string): SocketLike => {
+    const socket = new MockSocket(this, url)
+    queueMicrotask(() => {
+      if (this.refuse) {
+        socket.onerror?.({})
+        socket.onclose?.({})
+        return
+      }
+      if (!this.rooms.has(url)) this.rooms.set(url, new Set())
+      this.rooms.get(url)!.add(socket)
+      socket.readyState = 1
+      socket.onopen?.({})
+    })
+    return socket
+  }
+
+  relay(from: MockSocket, data: string) {
+    this.rooms.get(from.url)?.forEach((socket) => {
+      if (socket !== from) queueMicrotask(() => socket.onmessage?.({ data }))
+    })
+  }
+
+  disconnect(socket: MockSocket) {
+    this.rooms.get(socket.url)?.delete(socket)
+  }
+}
+
+class MockSocket implements SocketLike {
+  readyState = 0
+  onopen: SocketLike["onopen"] = null
+  onmessage: SocketLike["onmessage"] = null
+  onclose: SocketLike["onclose"] = null
+  onerror: SocketLike["onerror"] = null
+
+  constructor(
+    private server: MockSocketServer,
+    readonly url: string
+  ) {}
+
+  send(data: string) {
+    this.server.relay(this, data)
+  }
+
+  close() {
+    this.readyState = 3
+    this.server.disconnect(this)
+    this.onclose?.({})
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+const presence = (
+  sessionId: string,
+  selectedFieldId: string | null,
+  lastSeen = 0
+): CollaboratorPresence => ({
+  sessionId,
+  username: sessionId,
+  color: "#000",
+  selectedFieldId,
+  lastSeen,
+})
+
+describe("deriveFieldOperations", () => {
+  it("describes adds, removals, property edits and moves", () => {
+    const before = [field("a"), field("b"), field("c", { placeholder: "x" })]
+    const after = [field("c"), field("a", { label: "A" }), field("d")]
+
+    expect(deriveFieldOperations(before, after)).toEqual([
+      { kind: "remove", fieldId: "b", previous: before[1] },
+      {
+        kind: "update",
+        fieldId: "c",
+        previous: { placeholder: "x" },
+        changes: { placeholder: null },
+      },
+      { kind: "update", fieldId: "a", previous: { label: "a" }, changes: { label: "A" } },
+      { kind: "add", field: after[2], afterId: "a" },
+      { kind: "reorder", order: ["c", "a", "d"] },
+    ])
+  })
+})
+
+describe("mergeFieldOperations", () => {
+  const base = [field("a"), field("b"), field("c")]
+
+  it("merges edits to different fields and properties", () => {
+    // This session renamed "a"; the collaborator made "a" required and added a field
+    const local = base.map((f) => (f.id === "a" ? { ...f, label: "Name" } : f))
+    const remote = [...base.map((f) => (f.id === "a" ? { ...f, required: true } : f)), field("d")]
+
+    const { fields, conflicts } = mergeFieldOperations(local, deriveFieldOperations(base, remote))
+    expect(conflicts).toEqual([])
+    expect(fields[0]).toMatchObject({ label: "Name", required: true })
+    expect(fields.map((f) => f.id)).toEqual(["a", "b", "c", "d"])
+  })
+
+  it("reports concurrent edits to the same property as conflicts", () => {
+    const local = base.map((f) => (f.id === "b" ? { ...f, label: "Mine" } : f))
+    const remote = base.map((f) => (f.id === "b" ? { ...f, label: "Theirs", helpText: "Help" } : f))
+
+    const { fields, conflicts } = mergeFieldOperations(local, deriveFieldOperations(base, remote))
+    expect(conflicts).toEqual([{ fieldId: "b", keys: ["label"] }])
+    expect(fields[1]).toMatchObject({ label: "Mine", helpText: "Help" })
+  })
+
+  it("only removes fields that haven't changed locally", () => {
+    const local = base.map((f) => (f.id === "c" ? { ...f, label: "Edited" } : f))
+    const remote = base.filter((f) => f.id !== "c")
+
+    const { fields, conflicts } = mergeFieldOperations(local, deriveFieldOperations(base, remote))
+    expect(conflicts).toEqual([{ fieldId: "c", keys: [] }])
+    expect(fields).toHaveLength(3)
+  })
+
+  it("keeps fields the sender didn't know about when reordering", () => {
+    const local = [...base, field("new")]
+    const remote = [base[2], base[0], base[1]]
+
+    const { fields } = mergeFieldOperations(local, deriveFieldOperations(base, remote))
+    expect(fields.map((f) => f.id)).toEqual(["c", "a", "b", "new"])
+  })
+})
+
+describe("presence", () => {
+  it("drops stale collaborators and groups the rest by field", () => {
+    const peers = prunePresence(
+      {
+        s1: presence("s1", "a", 1_000),
+        s2: presence("s2", "a", 50_000),
+        s3: presence("s3", null, 50_000),
+      },
+      60_000
+    )
+    expect(Object.keys(peers)).toEqual(["s2", "s3"])
+    expect(
+      groupPresenceByField(Object.values(peers))
+        .get("a")
+        ?.map((p) => p.sessionId)
+    ).toEqual(["s2"])
+  })
+})
+
+describe("createSocketTransport", () => {
+  const url = "ws://localhost/v1/forms/form_1/collaborate"
+
+  it("relays edits between sessions through the server", async () => {
+    const server = new MockSocketServer()
+    const alice = createSocketTransport(url, server.connect)
+    const bob = createSocketTransport(url, server.connect)
+
+    const received: CollabMessage[] = []
+    bob.subscribe((message) => received.push(message))
+    await flush()
+
+    const ops = deriveFieldOperations([field("a")], [field("a", { label: "Renamed" })])
+    alice.send({ type: "ops", sessionId: "alice", ops })
+    await flush()
+
+    expect(received).toEqual([{ type: "ops", sessionId: "alice", ops }])
+    expect(mergeFieldOperations([field("a")], ops).fields[0].label).toBe("Renamed")
+
+    alice.close()
+    bob.close()
+  })
+
+  it("sends the token in the first message rather than the URL", async () => {
+    const server = new MockSocketServer()
+    const sent: string[] = []
+    const transport = createSocketTransport(
+      getCollaborationUrl("form_1"),
+      (socketUrl) => {
+        const socket = server.connect(socketUrl)
+        const send = socket.send.bind(socket)
+        socket.send = (data) => {
+          sent.push(data)
+          send(data)
+        }
+        return socket
+      },
+      "secret-token"
+    )
+    transport.send({ type: "leave", sessionId: "alice" })
+    await flush()
+
+    expect(sent.map((data) => JSON.parse(data))).toEqual([
+      { type: "auth", token: "secret-token" },
+      { type: "leave", sessionId: "alice" },
+    ])
+    expect(getCollaborationUrl("form_1")).not.toContain("token")
+    transport.close()
+  })
+
+  it("reports a connection that never opens as failed, once", async () => {
+    const server = new MockSocketServer()
+    server.refuse = true
+
+    const statuses: CollabTransportStatus[] = []
+    const transport = createSocketTransport(url, server.connect)
+    transport.onStatusChange((status) => statuses.push(status))
+    await flush()
+
+    expect(statuses).toEqual(["failed"])
+  })
+})
@@ -0,0 +1,218 @@
+import { exportFormDefinition, exportXLSForm, type ExportValidationRule } from "../form-export"
+import { importFormDefinition, importXLSForm } from "../form-import"
+import { readXlsx, writeXlsx } from "../xlsx"
+import type { Form, FormField } from "../types"
+import type { ConditionalRule } from "../types-extended"
+import { TextDecoder, TextEncoder } from "util"
+
+// jsdom doesn't provide the Encoding API that the .xlsx reader and writer use
+Object.assign(global, { TextDecoder, TextEncoder })
+
+const fields: FormField[] = [
+  { id: "name", type: "text", label: "Name", required: true, helpText: "As on your ID card" },
+  { id: "contact", type: "email", label: "Email", required: false },
+  { id: "age", type: "number", label: "Age", required: true, step: 1 },
+  {
+    id: "consent",
+    type: "radio",
+    label: "Consent?",
+    required: true,
+    options: [
+      { label: "Yes", value: "yes" },
+      { label: "No", value: "no" },
+    ],
+  },
+  { id: "reason", type: "textarea", label: "Why not?", required: false },
+  {
+    id: "fruit",
+    type: "checkbox",
+    label: "Fruit",
+    required: false,
+    allowOther: true,
+    options: [
+      { label: "Apple", value: "apple" },
+      { label: "Pear", value: "pear" },
+    ],
+  },
+  { id: "score", type: "rating", label: "Score", required: false, min: 1, max: 5, step: 1 },
+  {
+    id: "double_age",
+    type: "calculated",
+    label: "Double age",
+    required: false,
+    formula: "{age} * 2",
+  },
+  {
+    id: "members",
+    type: "group",
+    label: "Members",
+    required: false,
+    repeatable: true,
+    repeatCountField: "age",
+    fields: [{ id: "member_name", type: "text", label: "Member name", required: true }],
+  },
+]
+
+const form: Form = {
+  id: "form-1",
+  title: "Household survey",
+  organization_id: "org-1",
+  status: "active",
+  version: 3,
+  created_by: "user-1",
+  created_at: "2026-01-01T00:00:00Z",
+  schema: {
+    fields,
+    pages: [
+      { id: "page_1", title: "About you", fields: ["name", "contact", "age", "consent"], order: 0 },
+      {
+        id: "page_2",
+        title: "Details",
+        fields: ["reason", "fruit", "score", "double_age", "members"],
+        order: 1,
+      },
+    ],
+  },
+}
+
+const conditionalRules: ConditionalRule[] = [
+  {
+    id: "rule-1",
+    form_id: "form-1",
+    name: "Ask why",
+    priority: 0,
+    enabled: true,
+    logic_operator: "AND",
+    conditions: [{ field_id: "consent", operator: "equals", value: "no", value_type: "static" }],
+    actions: [{ type: "show", target_field_ids: ["reason"] }],
+  },
+  {
+    id: "rule-2",
+    form_id: "form-1",
+    name: "Adults who consented",
+    priority: 0,
+    enabled: true,
+    logic_operator: "AND",
+    conditions: [
+      { field_id: "age", operator: "greater_than_or_equal", value: 18, value_type: "static" },
+      { field_id: "fruit", operator: "equals", value: "apple", value_type: "static" },
+    ],
+    actions: [{ type: "show", target_field_ids: ["score"] }],
+  },
+]
+
+const validationRules: ExportValidationRule[] = [
+  { field_id: "age", rule_type: "min_value", parameters: { value: 0 }, error_message: "Age 0-120" },
+  {
+    field_id: "age",
+    rule_type: "max_value",
+    parameters: { value: 120 },
+    error_message: "Age 0-120",
+  },
+  {
+    field_id: "name",
+    rule_type: "pattern",
+    parameters: { value: "^[A-Za-z ]+$" },
+    error_message: "Letters only",
+  },
+]
+
+const ruleShape = (
+  rules: Array<Pick<ConditionalRule, "logic_operator" | "conditions" | "actions">>
+) =>
+  rules
+    .map((rule) => ({
+      logic_operator: rule.logic_operator,
+      conditions: rule.conditions,
+      actions: rule.actions,
+    }))
+    .sort((a, b) =>
+      a.actions[0].target_field_ids[0].localeCompare(b.actions[0].target_field_ids[0])
+    )
+
+const validationShape = (rules: ExportValidationRule[]) =>
+  rules
+    .map((rule) => [rule.field_id, rule.rule_type, rule.parameters?.value, rule.error_message])
+    .sort((a, b) => a.join().localeCompare(b.join()))
+
+describe("exportXLSForm", () => {
+  it("round-trips through an .xlsx file and importXLSForm", async () => {
+    const { workbook, issues } = exportXLSForm(form, conditionalRules, validationRules)
+    expect(issues).toEqual([])
+
+    const bytes = writeXlsx(workbook)
+    const imported = importXLSForm(await readXlsx(bytes.slice().buffer))
+
+    expect(imported.title).toBe(form.title)
+    expect(imported.fields).toEqual(fields)
+    expect(imported.pages).toEqual(form.schema.pages)
+    expect(ruleShape(imported.conditionalRules)).toEqual(ruleShape(conditionalRules))
+    expect(validationShape(imported.validationRules)).toEqual(validationShape(validationRules))
+    expect(imported.issues).toEqual([])
+  })
+
+  it("uses selected() for multi-select conditions", () => {
+    const { workbook } = exportXLSForm(form, conditionalRules, validationRules)
+    const [header, ...rows] = workbook.survey
+    const score = rows.find((row) => row[header.indexOf("name")] === "score")!
+
+    expect(score[header.indexOf("relevant")]).toBe("${age} >= 18 and selected(${fruit}, 'apple')")
+  })
+
+  it("reports rules it can't express", () => {
+    const { issues } = exportXLSForm(
+      form,
+      [
+        {
+          ...conditionalRules[0],
+          actions: [{ type: "set_required", target_field_ids: ["reason"] }],
+        },
+      ],
+      [{ field_id: "contact", rule_type: "unique", error_message: "Taken" }]
+    )
+
+    expect(issues.map((issue) => issue.location)).toEqual(['rule "Ask why"', 'field "Email"'])
+  })
+})
+
+describe("exportFormDefinition", () => {
+  const document = exportFormDefinition(
+    form,
+    conditionalRules,
+    validationRules,
+    new Date("2026-02-01T00:00:00Z")
+  )
+
+  it("describes responses as JSON Schema with JSON Forms visibility rules", () => {
+    expect(document.$id).toBe("urn:sdigdata:form:form-1:v3")
+    expect(document.required).toEqual(["name", "age", "consent"])
+    expect(document.properties.age).toMatchObject({
+      type: "integer",
+      minimum: 0,
+      maximum: 120,
+      errorMessage: { minimum: "Age 0-120", maximum: "Age 0-120" },
+    })
+    expect(document.properties.members.items.required).toEqual(["member_name"])
+
+    const details = document["x-uischema"].elements![1]
+    expect(
+      details.elements!.find((element) => element.scope === "#/properties/reason")!.rule
+    ).toEqual({
+      effect: "SHOW",
+      condition: {
+        scope: "#/properties/consent",
+        schema: { const: "no" },
+        failWhenUndefined: true,
+      },
+    })
+  })
+
+  it("round-trips through importFormDefinition", () => {
+    const imported = importFormDefinition(JSON.parse(JSON.stringify(document)))
+
+    expect(imported.fields).toEqual(fields)
+    expect(imported.pages).toEqual(form.schema.pages)
+    expect(ruleShape(imported.conditionalRules)).toEqual(ruleShape(conditionalRules))
+    expect(validationShape(imported.validationRules)).toEqual(validationShape(validationRules))
+  })
+})
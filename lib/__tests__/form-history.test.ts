@@ -0,0 +1,132 @@
+import {
+  appendCommand,
+  createHistoryTree,
+  fingerprintFormState,
+  getActiveBranch,
+  isHistoryCurrent,
+  listTimeline,
+  moveHead,
+  planJump,
+  type HistoryTree,
+} from "../form-history"
+import type { Command } from "../types-extended"
+
+// Mock logger
+jest.mock("../logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+let clock = 0
+
+const command = (id: string): Command => ({
+  id,
+  type: "update_title",
+  timestamp: ++clock,
+  data: { previous: `before ${id}`, current: `after ${id}` },
+  description: `Command ${id}`,
+})
+
+const build = (ids: string[], maxNodes = 100): HistoryTree =>
+  ids.reduce((tree, id) => appendCommand(tree, command(id), maxNodes), createHistoryTree())
+
+const ids = (nodes: Array<{ id: string }>) => nodes.map((node) => node.id)
+
+describe("appendCommand", () => {
+  it("keeps undone commands as a branch instead of dropping them", () => {
+    // a - b - c, undo twice, then d
+    let tree = build(["a", "b", "c"])
+    tree = moveHead(tree, "a")
+    tree = appendCommand(tree, command("d"), 100)
+
+    expect(Object.keys(tree.nodes).sort()).toEqual(["a", "b", "c", "d"])
+    expect(tree.nodes.d.parentId).toBe("a")
+    expect(ids(getActiveBranch(tree))).toEqual(["a", "d"])
+  })
+
+  it("forgets abandoned branches before the current path when full", () => {
+    let tree = build(["a", "b"])
+    tree = moveHead(tree, "a")
+    tree = appendCommand(tree, command("c"), 100)
+    tree = appendCommand(tree, command("d"), 3)
+
+    expect(Object.keys(tree.nodes).sort()).toEqual(["a", "c", "d"])
+  })
+
+  it("forgets the oldest commands on a single path", () => {
+    const tree = build(["a", "b", "c", "d"], 3)
+
+    expect(ids(getActiveBranch(tree))).toEqual(["b", "c", "d"])
+    expect(tree.nodes.b.parentId).toBeNull()
+  })
+})
+
+describe("planJump", () => {
+  it("undoes to the shared ancestor and redoes down the other branch", () => {
+    let tree = build(["a", "b", "c"])
+    tree = moveHead(tree, "a")
+    tree = appendCommand(tree, command("d"), 100)
+
+    expect(planJump(tree, "c").map((step) => [step.command.id, step.direction])).toEqual([
+      ["d", "undo"],
+      ["b", "redo"],
+      ["c", "redo"],
+    ])
+    expect(planJump(tree, null).map((step) => step.command.id)).toEqual(["d", "a"])
+  })
+
+  it("makes the target's branch the one redo follows", () => {
+    let tree = build(["a", "b", "c"])
+    tree = moveHead(tree, "a")
+    tree = appendCommand(tree, command("d"), 100)
+    tree = moveHead(tree, "b")
+
+    expect(ids(getActiveBranch(tree))).toEqual(["a", "b", "c"])
+  })
+})
+
+describe("listTimeline", () => {
+  it("indents abandoned branches at their fork point", () => {
+    let tree = build(["a", "b", "c"])
+    tree = moveHead(tree, "a")
+    tree = appendCommand(tree, command("d"), 100)
+    tree = appendCommand(tree, command("e"), 100)
+    tree = moveHead(tree, "d")
+
+    expect(
+      listTimeline(tree).map((entry) => [
+        entry.node.id,
+        entry.depth,
+        entry.isHead,
+        entry.isActive,
+        entry.isAhead,
+      ])
+    ).toEqual([
+      ["a", 0, false, true, false],
+      ["b", 1, false, false, false],
+      ["c", 1, false, false, false],
+      ["d", 0, true, true, false],
+      ["e", 0, false, true, true],
+    ])
+  })
+})
+
+describe("isHistoryCurrent", () => {
+  const state = { title: "Survey", description: "", fields: [{ id: "q1", type: "text" }] }
+
+  it("resumes history saved against the same form state", () => {
+    const saved = { tree: createHistoryTree(), fingerprint: fingerprintFormState(state) }
+    expect(isHistoryCurrent(saved, fingerprintFormState({ ...state }))).toBe(true)
+  })
+
+  it("treats history as stale once the form has changed or without a fingerprint", () => {
+    const saved = { tree: createHistoryTree(), fingerprint: fingerprintFormState(state) }
+    const changed = fingerprintFormState({ ...state, title: "Survey 2" })
+    expect(isHistoryCurrent(saved, changed)).toBe(false)
+    expect(isHistoryCurrent({ tree: createHistoryTree() }, changed)).toBe(false)
+  })
+})
@@ -0,0 +1,248 @@
+import {
+  convertRelevant,
+  importCsvFields,
+  importGoogleForm,
+  importXLSForm,
+  parseCsv,
+  toCreateFormInput,
+} from "../form-import"
+import type { Workbook } from "../xlsx"
+
+const workbook: Workbook = {
+  survey: [
+    [
+      "type",
+      "name",
+      "label::English (en)",
+      "required",
+      "relevant",
+      "constraint",
+      "constraint_message",
+      "appearance",
+    ],
+    ["start", "start", "", "", "", "", "", ""],
+    ["begin group", "household", "Household", "", "", "", "", ""],
+    ["integer", "age", "Age", "yes", "", ". >= 18 and . < 120", "Must be an adult", ""],
+    ["select_one yes_no", "consent", "Consent?", "true()", "", "", "", ""],
+    [
+      "text",
+      "reason",
+      "Why not?",
+      "",
+      "${consent} = 'no'",
+      "string-length(.) <= 200",
+      "",
+      "multiline",
+    ],
+    ["end group", "", "", "", "", "", "", ""],
+    ["begin group", "members", "Members", "", "", "", "", ""],
+    ["begin repeat", "member", "Member", "", "${consent} = 'yes'", "", "", ""],
+    ["text", "member_name", "Name", "", "", "", "", ""],
+    ["end repeat", "", "", "", "", "", "", ""],
+    ["note", "thanks", "Thanks", "", "", "", "", ""],
+    ["calculate", "double_age", "", "", "", "", "", ""],
+    ["end group", "", "", "", "", "", "", ""],
+  ],
+  choices: [
+    ["list_name", "name", "label"],
+    ["yes_no", "yes", "Yes"],
+    ["yes_no", "no", "No"],
+  ],
+  settings: [["form_title"], ["Household survey"]],
+}
+
+describe("importXLSForm", () => {
+  const result = importXLSForm(workbook)
+
+  it("maps question types, choices and top-level groups to pages", () => {
+    expect(result.title).toBe("Household survey")
+    expect(result.fields.map((field) => [field.id, field.type])).toEqual([
+      ["age", "number"],
+      ["consent", "radio"],
+      ["reason", "textarea"],
+      ["member", "group"],
+      ["double_age", "calculated"],
+    ])
+    expect(result.fields[1]).toMatchObject({
+      required: true,
+      options: [
+        { value: "yes", label: "Yes" },
+        { value: "no", label: "No" },
+      ],
+    })
+    expect(result.fields[3]).toMatchObject({
+      repeatable: true,
+      fields: [{ id: "member_name", type: "text" }],
+    })
+    expect(result.pages.map((page) => [page.title, page.fields])).toEqual([
+      ["Household", ["age", "consent", "reason"]],
+      ["Members", ["member", "double_age"]],
+    ])
+  })
+
+  it("turns relevant expressions into show rules", () => {
+    expect(result.conditionalRules.map((rule) => [rule.conditions, rule.actions])).toEqual([
+      [
+        [{ field_id: "consent", operator: "equals", value: "yes", value_type: "static" }],
+        [{ type: "show", target_field_ids: ["member"] }],
+      ],
+      [
+        [{ field_id: "consent", operator: "equals", value: "no", value_type: "static" }],
+        [{ type: "show", target_field_ids: ["reason"] }],
+      ],
+    ])
+  })
+
+  it("turns constraints into validation rules, tightening strict integer bounds", () => {
+    expect(
+      result.validationRules.map((rule) => [
+        rule.field_id,
+        rule.rule_type,
+        rule.parameters.value,
+        rule.error_message,
+      ])
+    ).toEqual([
+      ["age", "min_value", 18, "Must be an adult"],
+      ["age", "max_value", 119, "Must be an adult"],
+      ["reason", "max_length", 200, "Why not? has an invalid value"],
+    ])
+  })
+
+  it("reports what it skipped", () => {
+    expect(result.issues.map((issue) => [issue.severity, issue.location])).toEqual([
+      ["info", "survey row 2"],
+      ["warning", "survey row 12"],
+      ["warning", "survey row 13"],
+    ])
+  })
+})
+
+describe("convertRelevant", () => {
+  const fields = new Set(["a", "b"])
+
+  it("handles selected(), empty checks and a single logical operator", () => {
+    expect(convertRelevant("selected(${a}, 'x') or ${b} != ''", fields)).toEqual({
+      logic_operator: "OR",
+      conditions: [
+        { field_id: "a", operator: "equals", value: "x", value_type: "static" },
+        { field_id: "b", operator: "is_not_empty", value: null },
+      ],
+      approximated: [],
+    })
+  })
+
+  it("keeps not(selected()) true while the question is unanswered", () => {
+    expect(convertRelevant("not(selected(${a}, 'x'))", fields)).toEqual({
+      logic_operator: "OR",
+      conditions: [
+        { field_id: "a", operator: "is_empty", value: null },
+        { field_id: "a", operator: "not_in", value: ["x"], value_type: "static" },
+      ],
+      approximated: [],
+    })
+    expect(convertRelevant("not(selected(${a}, 'x')) and ${b} = 1", fields)).toMatchObject({
+      logic_operator: "AND",
+      approximated: ["not(selected(${a}, 'x'))"],
+    })
+  })
+
+  it("gives up on mixed operators and unknown fields", () => {
+    expect(convertRelevant("${a} = 1 and ${b} = 2 or ${a} = 3", fields)).toBeNull()
+    expect(convertRelevant("${c} = 1", fields)).toBeNull()
+  })
+})
+
+describe("importCsvFields", () => {
+  it("reads inline choices and quoted cells", () => {
+    const csv = [
+      "type,name,label,choices",
+      'select_multiple,fruit,"Fruit, any","a=Apple; b=Banana"',
+      "select_one,color,Colour,Red;Dark blue",
+    ].join("\n")
+    const result = importCsvFields(csv, "Fruit")
+
+    expect(result.fields).toMatchObject([
+      {
+        id: "fruit",
+        type: "checkbox",
+        label: "Fruit, any",
+        options: [
+          { value: "a", label: "Apple" },
+          { value: "b", label: "Banana" },
+        ],
+      },
+      {
+        id: "color",
+        type: "radio",
+        options: [
+          { value: "red", label: "Red" },
+          { value: "dark_blue", label: "Dark blue" },
+        ],
+      },
+    ])
+    expect(result.issues).toEqual([])
+  })
+
+  it("parses escaped quotes and CRLF line endings", () => {
+    expect(parseCsv('a,"say ""hi"""\r\nb,c\r\n')).toEqual([
+      ["a", 'say "hi"'],
+      ["b", "c"],
+    ])
+  })
+})
+
+describe("importGoogleForm", () => {
+  const result = importGoogleForm({
+    info: { title: "Feedback", description: "Tell us" },
+    items: [
+      { title: "Your name", questionItem: { question: { required: true, textQuestion: {} } } },
+      {
+        title: "Rating",
+        questionItem: {
+          question: { scaleQuestion: { low: 1, high: 5, lowLabel: "Bad", highLabel: "Good" } },
+        },
+      },
+      { pageBreakItem: {}, title: "More" },
+      {
+        title: "Pick one",
+        questionItem: {
+          question: {
+            choiceQuestion: {
+              type: "DROP_DOWN",
+              options: [{ value: "One" }, { value: "Two" }, { isOther: true }],
+            },
+          },
+        },
+      },
+      { title: "Logo", imageItem: {} },
+    ],
+  })
+
+  it("maps questions and page breaks", () => {
+    expect(result.title).toBe("Feedback")
+    expect(result.fields).toMatchObject([
+      { id: "your_name", type: "text", required: true },
+      { id: "rating", type: "range", min: 1, max: 5, helpText: "1 = Bad, 5 = Good" },
+      {
+        id: "pick_one",
+        type: "select",
+        allowOther: true,
+        options: [
+          { value: "one", label: "One" },
+          { value: "two", label: "Two" },
+        ],
+      },
+    ])
+    expect(result.pages.map((page) => page.fields)).toEqual([["your_name", "rating"], ["pick_one"]])
+    expect(result.issues).toHaveLength(1)
+  })
+
+  it("builds a draft create payload", () => {
+    expect(toCreateFormInput(result, "org-1")).toMatchObject({
+      title: "Feedback",
+      organization_id: "org-1",
+      status: "draft",
+      form_schema: { pages: result.pages },
+    })
+  })
+})
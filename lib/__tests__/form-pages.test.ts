@@ -0,0 +1,132 @@
+import {
+  findVisiblePageIndex,
+  getSkippedFieldIds,
+  getVisiblePages,
+  insertPageBreak,
+  normalizePageBreaks,
+  orderFieldsByPages,
+  removePageBreak,
+  resolveFormPages,
+} from "../form-pages"
+import type { FormField } from "../types"
+import type { FormPage } from "../types-extended"
+
+const field = (id: string): FormField => ({ id, type: "text", label: id, required: false })
+
+const fields = ["name", "has_children", "children_count", "school", "comments"].map(field)
+
+const pages: FormPage[] = [
+  { id: "p1", title: "About you", order: 0, fields: ["name", "has_children"] },
+  {
+    id: "p2",
+    title: "Children",
+    order: 1,
+    fields: ["children_count", "school"],
+    show_conditions: [{ field_id: "has_children", operator: "equals", value: "yes" }],
+  },
+  { id: "p3", title: "Wrap up", order: 2, fields: ["comments"] },
+]
+
+describe("resolveFormPages", () => {
+  it("treats a form without pages as a single page", () => {
+    const resolved = resolveFormPages(fields, undefined)
+    expect(resolved).toHaveLength(1)
+    expect(resolved[0].fields).toEqual(fields)
+  })
+
+  it("resolves field IDs, ignores unknown ones and appends unassigned fields to the last page", () => {
+    const resolved = resolveFormPages(fields, [
+      { id: "b", title: "Second", order: 1, fields: ["school", "deleted_field"] },
+      { id: "a", title: "First", order: 0, fields: ["name", "school"] },
+    ])
+
+    expect(resolved.map((page) => page.id)).toEqual(["a", "b"])
+    expect(resolved[0].fields.map((f) => f.id)).toEqual(["name", "school"])
+    expect(resolved[1].fields.map((f) => f.id)).toEqual([
+      "has_children",
+      "children_count",
+      "comments",
+    ])
+  })
+})
+
+describe("page skip logic", () => {
+  const resolved = resolveFormPages(fields, pages)
+
+  it("hides pages whose show_conditions fail", () => {
+    expect(getVisiblePages(resolved, { has_children: "no" }).map((p) => p.id)).toEqual(["p1", "p3"])
+    expect(getVisiblePages(resolved, { has_children: "yes" }).map((p) => p.id)).toEqual([
+      "p1",
+      "p2",
+      "p3",
+    ])
+  })
+
+  it("reports fields on skipped pages", () => {
+    expect([...getSkippedFieldIds(resolved, { has_children: "no" })]).toEqual([
+      "children_count",
+      "school",
+    ])
+  })
+
+  it("falls back to the closest earlier visible page when the current page is skipped", () => {
+    const visible = getVisiblePages(resolved, { has_children: "no" })
+    expect(findVisiblePageIndex(resolved, visible, "p2")).toBe(0)
+    expect(findVisiblePageIndex(resolved, visible, "p3")).toBe(1)
+    expect(findVisiblePageIndex(resolved, visible, null)).toBe(0)
+  })
+})
+
+describe("builder page breaks", () => {
+  it("inserts the first break by splitting the form into two pages", () => {
+    const result = insertPageBreak(fields, [], "children_count")
+    expect(result.map((page) => page.fields)).toEqual([
+      ["name", "has_children"],
+      ["children_count", "school", "comments"],
+    ])
+  })
+
+  it("moves page breaks with their anchor field when fields are reordered", () => {
+    const reordered = ["name", "children_count", "has_children", "school", "comments"].map(field)
+    const result = normalizePageBreaks(reordered, pages)
+    expect(result.map((page) => page.fields)).toEqual([
+      ["name"],
+      ["children_count", "has_children", "school"],
+      ["comments"],
+    ])
+    expect(result[1].show_conditions).toEqual(pages[1].show_conditions)
+  })
+
+  it("merges a page into the one above when its break is removed or its anchor deleted", () => {
+    expect(removePageBreak(fields, pages, "p2").map((page) => page.fields)).toEqual([
+      ["name", "has_children", "children_count", "school"],
+      ["comments"],
+    ])
+
+    const withoutComments = fields.filter((f) => f.id !== "comments")
+    expect(normalizePageBreaks(withoutComments, pages).map((page) => page.id)).toEqual(["p1", "p2"])
+  })
+
+  it("returns no pages once only one page is left", () => {
+    const twoPages = insertPageBreak(fields, [], "school")
+    expect(removePageBreak(fields, twoPages, twoPages[1].id)).toEqual([])
+  })
+
+  it("orders fields to follow saved pages so each page is contiguous", () => {
+    const layout = orderFieldsByPages(fields, [
+      { id: "a", title: "A", order: 0, fields: ["comments", "name"] },
+      { id: "b", title: "B", order: 1, fields: ["school"] },
+    ])
+    expect(layout.fields.map((f) => f.id)).toEqual([
+      "comments",
+      "name",
+      "school",
+      "has_children",
+      "children_count",
+    ])
+    expect(layout.pages.map((page) => page.fields)).toEqual([
+      ["comments", "name"],
+      ["school", "has_children", "children_count"],
+    ])
+  })
+})
@@ -0,0 +1,169 @@
+import { diffFormSchemas, estimateResponseImpact, getAnswersAtPath } from "../form-schema-diff"
+import type { FormField, FormResponse } from "../types"
+
+const field = (id: string, overrides: Partial<FormField> = {}): FormField => ({
+  id,
+  type: "text",
+  label: id,
+  required: false,
+  ...overrides,
+})
+
+const response = (id: string, data: Record<string, any>): FormResponse =>
+  ({ id, form_id: "form_1", data, submitted_at: "2024-01-01T00:00:00Z" }) as FormResponse
+
+const colour = field("colour", {
+  type: "select",
+  options: [
+    { label: "Red", value: "red" },
+    { label: "Blue", value: "blue" },
+    { label: "Green", value: "green" },
+  ],
+})
+
+const before: FormField[] = [
+  field("name"),
+  field("age", { type: "number" }),
+  field("notes", { type: "textarea" }),
+  colour,
+  field("code", { validation: { maxLength: 10 } }),
+  field("household", { type: "group", fields: [field("member"), field("relation")] }),
+]
+
+const responses = [
+  response("r1", {
+    name: "Ama",
+    age: 34,
+    notes: "ok",
+    colour: "red",
+    code: "ABC",
+    household: [{ member: "Kofi", relation: "" }],
+  }),
+  response("r2", { name: "Yaw", age: "thirty", colour: "green", code: "ABCDEFG" }),
+  response("r3", { age: 20, colour: "blue" }),
+]
+
+describe("diffFormSchemas", () => {
+  it("finds no changes between identical schemas", () => {
+    expect(diffFormSchemas(before, before)).toEqual([])
+  })
+
+  it("classifies added and removed fields", () => {
+    const after = [...before.filter((f) => f.id !== "notes"), field("email", { required: true })]
+    const changes = diffFormSchemas(before, after)
+    expect(changes.map((change) => [change.kind, change.fieldPath, change.breaking])).toEqual([
+      ["field_removed", "notes", true],
+      ["field_added", "email", true],
+    ])
+  })
+
+  it("treats compatible type changes as non-breaking", () => {
+    const after = before.map((f) =>
+      f.id === "name"
+        ? { ...f, type: "textarea" as const }
+        : f.id === "age"
+          ? { ...f, type: "date" as const }
+          : f
+    )
+    expect(
+      diffFormSchemas(before, after).map((change) => [change.fieldPath, change.breaking])
+    ).toEqual([
+      ["name", false],
+      ["age", true],
+    ])
+  })
+
+  it("tells relabelled options from changed values and removals", () => {
+    const after = before.map((f) =>
+      f.id === "colour"
+        ? {
+            ...f,
+            options: [
+              { label: "Crimson", value: "red" },
+              { label: "Blue", value: "BLUE" },
+              { label: "Yellow", value: "yellow" },
+            ],
+          }
+        : f
+    )
+    const changes = diffFormSchemas(before, after)
+    expect(changes).toEqual([
+      expect.objectContaining({ kind: "options_renamed", breaking: true, before: ["blue"] }),
+      expect.objectContaining({ kind: "options_removed", before: ["green"] }),
+      expect.objectContaining({ kind: "options_added", after: ["yellow"] }),
+    ])
+  })
+
+  it("detects tightened validation and required toggles", () => {
+    const after = before.map((f) =>
+      f.id === "code" ? { ...f, required: true, validation: { maxLength: 5 } } : f
+    )
+    expect(diffFormSchemas(before, after).map((change) => change.kind)).toEqual([
+      "validation_tightened",
+      "required_added",
+    ])
+  })
+
+  it("compares fields inside repeating groups", () => {
+    const after = before.map((f) =>
+      f.id === "household"
+        ? { ...f, fields: [field("member"), field("relation", { required: true })] }
+        : f
+    )
+    expect(diffFormSchemas(before, after)).toEqual([
+      expect.objectContaining({ kind: "required_added", fieldPath: "household.relation" }),
+    ])
+  })
+})
+
+describe("estimateResponseImpact", () => {
+  it("counts orphaned answers for removed fields", () => {
+    const after = before.filter((f) => f.id !== "notes")
+    const { impacts } = estimateResponseImpact(diffFormSchemas(before, after), after, responses)
+    expect(impacts).toEqual([
+      expect.objectContaining({ effect: "orphaned", affected: 1, sampleResponseIds: ["r1"] }),
+    ])
+  })
+
+  it("counts answers invalidated by type, option and validation changes", () => {
+    const after = before.map((f) => {
+      if (f.id === "name") return { ...f, type: "email" as const }
+      if (f.id === "colour") return { ...f, options: f.options!.filter((o) => o.value !== "green") }
+      if (f.id === "code") return { ...f, validation: { maxLength: 5 } }
+      return f
+    })
+    const summary = estimateResponseImpact(diffFormSchemas(before, after), after, responses)
+    expect(summary.impacts.map((impact) => [impact.change.kind, impact.affected])).toEqual([
+      ["type_changed", 2],
+      ["options_removed", 1],
+      ["validation_tightened", 1],
+    ])
+    expect(summary).toMatchObject({ affectedResponses: 2, totalResponses: 3 })
+  })
+
+  it("counts missing answers for newly required fields", () => {
+    const after = [
+      { ...before[0], required: true },
+      ...before.slice(1),
+      field("phone", { type: "phone", required: true }),
+    ]
+    const { impacts } = estimateResponseImpact(diffFormSchemas(before, after), after, responses)
+    expect(impacts.map((impact) => [impact.change.kind, impact.affected])).toEqual([
+      ["required_added", 1],
+      ["field_added", 3],
+    ])
+  })
+
+  it("only counts existing repeating group rows", () => {
+    expect(getAnswersAtPath(responses[0], "household.relation")).toEqual([""])
+    expect(getAnswersAtPath(responses[1], "household.relation")).toEqual([])
+
+    const after = before.map((f) =>
+      f.id === "household"
+        ? { ...f, fields: [field("member"), field("relation", { required: true })] }
+        : f
+    )
+    const { impacts } = estimateResponseImpact(diffFormSchemas(before, after), after, responses)
+    expect(impacts[0].affected).toBe(1)
+  })
+})
@@ -0,0 +1,114 @@
+import {
+  buildCalculationPlan,
+  evaluateCalculatedFields,
+  evaluateFormula,
+  FormulaError,
+  getFormulaDependencies,
+  parseFormula,
+} from "../formula"
+import type { FormField } from "../types"
+
+const field = (id: string, formula?: string): FormField => ({
+  id,
+  type: formula === undefined ? "number" : "calculated",
+  label: id,
+  required: false,
+  formula,
+})
+
+describe("Formula", () => {
+  describe("evaluateFormula", () => {
+    it("should respect operator precedence and associativity", () => {
+      expect(evaluateFormula("1 + 2 * 3", {})).toBe(7)
+      expect(evaluateFormula("(1 + 2) * 3", {})).toBe(9)
+      expect(evaluateFormula("2 ^ 3 ^ 2", {})).toBe(512)
+      expect(evaluateFormula("-2 ^ 2", {})).toBe(-4)
+      expect(evaluateFormula("10 - 4 - 3", {})).toBe(3)
+    })
+
+    it("should read field values and coerce numeric strings", () => {
+      expect(evaluateFormula("{price} * {qty}", { price: "2.5", qty: 4 })).toBe(10)
+    })
+
+    it("should leave arithmetic empty until inputs are filled in", () => {
+      expect(evaluateFormula("{a} + {b}", { a: 1 })).toBeNull()
+      expect(evaluateFormula("sum({a}, {b})", { a: 1, b: "" })).toBe(1)
+      expect(evaluateFormula("{a} / 0", { a: 1 })).toBeNull()
+    })
+
+    it("should support text, logic and aggregate functions", () => {
+      const data = { first: "ama", last: "Mensah", scores: ["4", "6"], age: 17 }
+
+      expect(evaluateFormula('upper({first}) & " " & {last}', data)).toBe("AMA Mensah")
+      expect(evaluateFormula("avg({scores})", data)).toBe(5)
+      expect(evaluateFormula("count({first}, {missing})", data)).toBe(1)
+      expect(evaluateFormula('if({age} >= 18 and {last} != "", "adult", "minor")', data)).toBe(
+        "minor"
+      )
+      expect(evaluateFormula("contains({scores}, 6)", data)).toBe(true)
+    })
+
+    it("should support date functions", () => {
+      const data = { start: "2024-01-15", end: "2024-03-01" }
+
+      expect(evaluateFormula("datediff({end}, {start})", data)).toBe(46)
+      expect(evaluateFormula('datediff({end}, {start}, "months")', data)).toBe(1)
+      expect(evaluateFormula('dateadd({start}, 1, "months")', data)).toBe("2024-02-15")
+      expect(evaluateFormula("year({end}) * 100 + month({end})", data)).toBe(202403)
+    })
+  })
+
+  describe("parseFormula", () => {
+    it("should reject unknown names and functions", () => {
+      expect(() => parseFormula("price * 2")).toThrow(/use \{price\}/)
+      expect(() => parseFormula("constructor(1)")).toThrow(FormulaError)
+      expect(() => parseFormula("eval('1')")).toThrow('Unknown function "eval"')
+    })
+
+    it("should report the position of syntax errors", () => {
+      try {
+        parseFormula("round({a}, 2")
+        fail("expected a FormulaError")
+      } catch (error) {
+        expect(error).toBeInstanceOf(FormulaError)
+        expect((error as FormulaError).position).toBe(12)
+      }
+      expect(() => parseFormula("round(1, 2, 3)")).toThrow("round() takes 1-2 argument(s)")
+    })
+
+    it("should list field dependencies", () => {
+      expect(getFormulaDependencies("sum({a}, {b}) * {a}")).toEqual(["a", "b"])
+    })
+  })
+
+  describe("calculated fields", () => {
+    it("should evaluate chained formulas in dependency order", () => {
+      const fields = [
+        field("total", "{subtotal} + {tax}"),
+        field("tax", "round({subtotal} * 0.15, 2)"),
+        field("subtotal", "{price} * {qty}"),
+        field("price"),
+        field("qty"),
+      ]
+
+      expect(buildCalculationPlan(fields).order).toEqual(["subtotal", "tax", "total"])
+      expect(evaluateCalculatedFields(fields, { price: 10, qty: 3 })).toEqual({
+        total: 34.5,
+        tax: 4.5,
+        subtotal: 30,
+      })
+    })
+
+    it("should detect cycles and leave cyclic fields empty", () => {
+      const fields = [field("a", "{b} + 1"), field("b", "{a} + 1"), field("c", "{x} * 2")]
+      const plan = buildCalculationPlan(fields)
+
+      expect(plan.cycles).toEqual([["a", "b", "a"]])
+      expect(plan.diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+        "Unknown field {x}",
+        "Circular reference: {a} → {b} → {a}",
+      ])
+      expect(evaluateCalculatedFields(fields, {}, plan)).toEqual({ a: null, b: null, c: null })
+    })
+  })
+})
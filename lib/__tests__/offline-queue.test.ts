@@ -0,0 +1,271 @@
+import {
+  classifySyncError,
+  clearSyncedSubmissions,
+  countSubmissionsByForm,
+  enqueueSubmission,
+  getRetryDelay,
+  listSubmissions,
+  retrySubmission,
+  syncOutbox,
+  type OutboxStorage,
+  type QueuedSubmission,
+} from "../offline-queue"
+import { OFFLINE_QUEUE } from "../constants"
+
+// Mock the API
+jest.mock("../api", () => ({
+  responsesAPI: { create: jest.fn() },
+  filesAPI: { presign: jest.fn() },
+}))
+
+// Mock logger
+jest.mock("../logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+const createMemoryStorage = (): OutboxStorage & { items: Map<string, QueuedSubmission> } => {
+  const items = new Map<string, QueuedSubmission>()
+  return {
+    items,
+    getAll: async () => Array.from(items.values()),
+    put: async (item) => {
+      items.set(item.id, item)
+    },
+    delete: async (id) => {
+      items.delete(id)
+    },
+  }
+}
+
+const form = { id: "form-1", title: "Household Survey", version: 2 }
+
+describe("Offline Queue", () => {
+  let storage: ReturnType<typeof createMemoryStorage>
+
+  beforeEach(() => {
+    storage = createMemoryStorage()
+  })
+
+  describe("enqueueSubmission", () => {
+    it("should store a pending submission with its payload", async () => {
+      const item = await enqueueSubmission(
+        {
+          form,
+          payload: {
+            form_id: "form-1",
+            data: { location: { latitude: 5.6, longitude: -0.2, accuracy: 10 } },
+          },
+        },
+        storage
+      )
+
+      expect(item.status).toBe("pending")
+      expect(item.attempts).toBe(0)
+      expect(item.form_version).toBe(2)
+      expect(await listSubmissions("form-1", storage)).toHaveLength(1)
+    })
+  })
+
+  describe("getRetryDelay", () => {
+    it("should back off exponentially up to the maximum", () => {
+      expect(getRetryDelay(1)).toBe(OFFLINE_QUEUE.BASE_RETRY_DELAY_MS)
+      expect(getRetryDelay(3)).toBe(OFFLINE_QUEUE.BASE_RETRY_DELAY_MS * 4)
+      expect(getRetryDelay(50)).toBe(OFFLINE_QUEUE.MAX_RETRY_DELAY_MS)
+    })
+  })
+
+  describe("classifySyncError", () => {
+    it("should retry network and server errors", () => {
+      expect(classifySyncError(new Error("Network Error")).kind).toBe("retry")
+      expect(classifySyncError({ response: { status: 503, data: {} } }).kind).toBe("retry")
+      expect(classifySyncError({ response: { status: 429, data: {} } }).kind).toBe("retry")
+    })
+
+    it("should report rejected payloads as conflicts", () => {
+      const result = classifySyncError({
+        response: {
+          status: 422,
+          data: { detail: [{ loc: ["body", "data"], msg: "field required" }] },
+        },
+      })
+
+      expect(result.kind).toBe("conflict")
+      expect(result.status).toBe(422)
+      expect(result.message).toBe("body.data: field required")
+    })
+  })
+
+  describe("syncOutbox", () => {
+    it("should upload pending files before submitting the response", async () => {
+      await enqueueSubmission(
+        {
+          form,
+          payload: { form_id: "form-1", data: { name: "Ama" } },
+          pendingFiles: [
+            { field_id: "photo", name: "photo.jpg", type: "image/jpeg", blob: new Blob(["x"]) },
+          ],
+        },
+        storage
+      )
+
+      const submit = jest.fn().mockResolvedValue({ id: "response-1" })
+      const upload = jest.fn().mockResolvedValue("https://files.example.com/photo.jpg")
+
+      const result = await syncOutbox({ storage, submit, upload })
+
+      expect(result.synced).toBe(1)
+      expect(submit).toHaveBeenCalledWith({
+        form_id: "form-1",
+        data: { name: "Ama" },
+        attachments: { photo: "https://files.example.com/photo.jpg" },
+      })
+
+      const [item] = await listSubmissions(undefined, storage)
+      expect(item.status).toBe("synced")
+      expect(item.response_id).toBe("response-1")
+      expect(item.pending_files).toHaveLength(0)
+    })
+
+    it("should schedule a retry with backoff on network errors", async () => {
+      await enqueueSubmission({ form, payload: { form_id: "form-1", data: {} } }, storage)
+      const now = Date.now() + 1000
+      const submit = jest.fn().mockRejectedValue(new Error("Network Error"))
+
+      await syncOutbox({ storage, submit, now: () => now })
+
+      const [item] = await listSubmissions(undefined, storage)
+      expect(item.status).toBe("pending")
+      expect(item.attempts).toBe(1)
+      expect(item.next_attempt_at).toBe(now + getRetryDelay(1))
+
+      // Not due yet, so it is skipped
+      const result = await syncOutbox({ storage, submit, now: () => now + 1 })
+      expect(result.skipped).toBe(1)
+      expect(submit).toHaveBeenCalledTimes(1)
+    })
+
+    it("should mark submissions as failed once attempts are exhausted", async () => {
+      const item = await enqueueSubmission(
+        { form, payload: { form_id: "form-1", data: {} } },
+        storage
+      )
+      await storage.put({ ...item, attempts: OFFLINE_QUEUE.MAX_ATTEMPTS - 1 })
+
+      const result = await syncOutbox({
+        storage,
+        submit: jest.fn().mockRejectedValue({ response: { status: 500, data: {} } }),
+      })
+
+      expect(result.failed).toBe(1)
+      expect((await listSubmissions(undefined, storage))[0].status).toBe("failed")
+    })
+
+    it("should record conflicts and allow them to be retried", async () => {
+      const item = await enqueueSubmission(
+        { form, payload: { form_id: "form-1", data: {} } },
+        storage
+      )
+
+      await syncOutbox({
+        storage,
+        submit: jest.fn().mockRejectedValue({
+          response: { status: 409, data: { detail: "Form has been decommissioned" } },
+        }),
+      })
+
+      let [stored] = await listSubmissions(undefined, storage)
+      expect(stored.status).toBe("conflict")
+      expect(stored.conflict).toMatchObject({
+        status: 409,
+        message: "Form has been decommissioned",
+      })
+
+      await retrySubmission(item.id, storage)
+      ;[stored] = await listSubmissions(undefined, storage)
+      expect(stored.status).toBe("pending")
+      expect(stored.conflict).toBeUndefined()
+    })
+
+    it("should drop submissions synced before the retention period", async () => {
+      const now = Date.now() + 1000
+      const old = await enqueueSubmission(
+        { form, payload: { form_id: "form-1", data: {} } },
+        storage
+      )
+      await storage.put({
+        ...old,
+        status: "synced",
+        synced_at: new Date(now - OFFLINE_QUEUE.SYNCED_RETENTION_MS - 1).toISOString(),
+      })
+      await enqueueSubmission({ form, payload: { form_id: "form-1", data: {} } }, storage)
+
+      await syncOutbox({ storage, submit: jest.fn().mockResolvedValue({}), now: () => now })
+
+      const items = await listSubmissions(undefined, storage)
+      expect(items.map((item) => item.id)).not.toContain(old.id)
+      expect(items.map((item) => item.status)).toEqual(["synced"])
+    })
+
+    it("should run a sync for another form after the running one", async () => {
+      await enqueueSubmission({ form, payload: { form_id: "form-1", data: {} } }, storage)
+      await enqueueSubmission(
+        { form: { ...form, id: "form-2" }, payload: { form_id: "form-2", data: {} } },
+        storage
+      )
+      const submit = jest.fn().mockResolvedValue({})
+
+      const [first, second, shared] = await Promise.all([
+        syncOutbox({ formId: "form-1", storage, submit }),
+        syncOutbox({ formId: "form-2", storage, submit }),
+        syncOutbox({ formId: "form-2", storage, submit }),
+      ])
+
+      expect(first.synced).toBe(1)
+      expect(second.synced).toBe(1)
+      expect(shared).toBe(second)
+      expect(submit).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe("clearSyncedSubmissions", () => {
+    it("should only remove synced submissions", async () => {
+      const synced = await enqueueSubmission(
+        { form, payload: { form_id: "form-1", data: {} } },
+        storage
+      )
+      await storage.put({ ...synced, status: "synced", synced_at: new Date().toISOString() })
+      await enqueueSubmission({ form, payload: { form_id: "form-1", data: {} } }, storage)
+
+      await clearSyncedSubmissions("form-1", storage)
+
+      expect((await listSubmissions(undefined, storage)).map((item) => item.status)).toEqual([
+        "pending",
+      ])
+    })
+  })
+
+  describe("countSubmissionsByForm", () => {
+    it("should count statuses per form", async () => {
+      const base = await enqueueSubmission(
+        { form, payload: { form_id: "form-1", data: {} } },
+        storage
+      )
+      const items: QueuedSubmission[] = [
+        base,
+        { ...base, id: "2", status: "synced" },
+        { ...base, id: "3", status: "conflict" },
+        { ...base, id: "4", form_id: "form-2", status: "failed" },
+      ]
+
+      expect(countSubmissionsByForm(items)).toEqual({
+        "form-1": { pending: 1, failed: 0, conflict: 1, synced: 1 },
+        "form-2": { pending: 0, failed: 1, conflict: 0, synced: 0 },
+      })
+    })
+  })
+})
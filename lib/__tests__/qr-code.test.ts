@@ -0,0 +1,109 @@
+import { encodeQrCode, reedSolomonRemainder, type QrCode } from "../qr-code"
+
+const MASKS: ((row: number, col: number) => boolean)[] = [
+  (r, c) => (r + c) % 2 === 0,
+  (r) => r % 2 === 0,
+  (_, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+]
+
+/** Format information read from around the top-left finder */
+function readFormat({ modules }: QrCode) {
+  // prettier-ignore
+  const positions = [
+    [0, 8], [1, 8], [2, 8], [3, 8], [4, 8], [5, 8], [7, 8], [8, 8],
+    [8, 7], [8, 5], [8, 4], [8, 3], [8, 2], [8, 1], [8, 0],
+  ]
+  const bits = positions.reduce((acc, [r, c], i) => acc | (Number(modules[r][c]) << i), 0)
+  const data = (bits ^ 0x5412) >>> 10
+  return { ecLevel: data >>> 3, mask: data & 7 }
+}
+
+/** Codewords of a version 1 symbol, unmasked, in placement order */
+function readVersion1Codewords(code: QrCode): number[] {
+  const { size, modules } = code
+  const { mask } = readFormat(code)
+  const isFunction = (r: number, c: number) =>
+    r === 6 || c === 6 || (r < 9 && c < 9) || (r < 9 && c >= size - 8) || (r >= size - 8 && c < 9)
+
+  const bits: number[] = []
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5
+    const upward = ((right + 1) & 2) === 0
+    for (let step = 0; step < size; step++) {
+      const row = upward ? size - 1 - step : step
+      for (const col of [right, right - 1]) {
+        if (isFunction(row, col)) continue
+        bits.push(Number(modules[row][col] !== MASKS[mask](row, col)))
+      }
+    }
+  }
+
+  const codewords: number[] = []
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return codewords
+}
+
+describe("reedSolomonRemainder", () => {
+  it("matches the worked example from the QR code standard", () => {
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17]
+    expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23])
+  })
+})
+
+describe("encodeQrCode", () => {
+  it("picks the smallest version that fits", () => {
+    expect(encodeQrCode("ABC-123").version).toBe(1)
+    expect(encodeQrCode("x".repeat(14)).version).toBe(1)
+    expect(encodeQrCode("x".repeat(15)).version).toBe(2)
+    const link = encodeQrCode(
+      "https://vote.example.org/vote/3f2b8c1e-9a4d-4e6f-8b2a-1c3d5e7f9a0b/receipt?code=K7Q2-M9XD"
+    )
+    expect(link.version).toBe(6)
+    expect(link.size).toBe(41)
+    expect(() => encodeQrCode("x".repeat(214))).toThrow(/too long/)
+  })
+
+  it("draws finder and timing patterns", () => {
+    const { size, modules } = encodeQrCode("hello")
+    const finderRow = [true, true, true, true, true, true, true, false]
+    expect(modules[0].slice(0, 8)).toEqual(finderRow)
+    expect(modules[0].slice(size - 8).reverse()).toEqual(finderRow)
+    expect(modules[size - 1].slice(0, 8)).toEqual(finderRow)
+    expect(modules[3].slice(0, 7)).toEqual([true, false, true, true, true, false, true])
+    expect(modules[6].slice(8, size - 8)).toEqual([true, false, true, false, true])
+    expect(modules[size - 8][8]).toBe(true)
+  })
+
+  it("writes level M format information in both copies", () => {
+    const code = encodeQrCode("hello")
+    const { size, modules } = code
+    expect(readFormat(code).ecLevel).toBe(0)
+
+    const first = [0, 1, 2, 3, 4, 5, 7].map((r) => modules[r][8])
+    const second = [0, 1, 2, 3, 4, 5, 6].map((i) => modules[8][size - 1 - i])
+    expect(second).toEqual(first)
+  })
+
+  it("encodes the text as byte-mode data followed by its error correction", () => {
+    const code = encodeQrCode("GHA-42")
+    const codewords = readVersion1Codewords(code)
+    const data = codewords.slice(0, 16)
+
+    // Mode 0100, length 6, then the bytes shifted by the 4-bit mode
+    expect(data[0]).toBe(0x40)
+    const bits = data.map((byte) => byte.toString(2).padStart(8, "0")).join("")
+    const text = Array.from({ length: 6 }, (_, i) =>
+      String.fromCharCode(parseInt(bits.slice(12 + i * 8, 20 + i * 8), 2))
+    ).join("")
+    expect(text).toBe("GHA-42")
+    expect(data.slice(-2)).toEqual([0xec, 0x11])
+    expect(codewords.slice(16, 26)).toEqual(reedSolomonRemainder(data, 10))
+  })
+})
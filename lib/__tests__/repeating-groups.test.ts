@@ -0,0 +1,132 @@
+import {
+  describeResponseData,
+  flattenResponseData,
+  getGroupRepeatBounds,
+  normalizeGroupValues,
+  resizeGroupRows,
+  validateGroupRows,
+} from "../repeating-groups"
+import { formFieldSchema } from "../validations"
+import type { FormField } from "../types"
+
+const members: FormField = {
+  id: "members",
+  type: "group",
+  label: "Household member",
+  required: true,
+  repeatable: true,
+  minRepeats: 1,
+  maxRepeats: 3,
+  fields: [
+    { id: "name", type: "text", label: "Name", required: true },
+    { id: "age", type: "number", label: "Age", required: false },
+  ],
+}
+
+const requiredCheck = (child: FormField, value: any) =>
+  child.required && (value === undefined || value === "") ? `${child.label} is required` : null
+
+describe("repeat bounds", () => {
+  it("uses min/max repeats for respondent-driven groups", () => {
+    expect(getGroupRepeatBounds(members, {})).toEqual({ min: 1, max: 3, fixed: false })
+  })
+
+  it("fixes the row count from the count field, capped by maxRepeats", () => {
+    const counted = { ...members, repeatCountField: "household_size" }
+    expect(getGroupRepeatBounds(counted, { household_size: 2 })).toEqual({
+      min: 2,
+      max: 2,
+      fixed: true,
+    })
+    expect(getGroupRepeatBounds(counted, { household_size: "12" }).max).toBe(3)
+    expect(getGroupRepeatBounds(counted, {}).max).toBe(0)
+  })
+
+  it("treats non-repeatable groups as a single row", () => {
+    const single = { ...members, repeatable: false }
+    expect(resizeGroupRows(single, undefined, {})).toEqual([{}])
+  })
+})
+
+describe("resizing", () => {
+  it("pads and trims rows from the end to follow the count field", () => {
+    const counted = { ...members, repeatCountField: "household_size" }
+    const rows = [{ name: "Ama" }, { name: "Kofi" }, { name: "Esi" }]
+
+    expect(resizeGroupRows(counted, rows, { household_size: 1 })).toEqual([{ name: "Ama" }])
+    expect(resizeGroupRows(counted, rows.slice(0, 1), { household_size: 2 })).toEqual([
+      { name: "Ama" },
+      {},
+    ])
+  })
+
+  it("normalizes every group in a response", () => {
+    const data = normalizeGroupValues([members], { other: "x" })
+    expect(data).toEqual({ other: "x", members: [{}] })
+  })
+})
+
+describe("validateGroupRows", () => {
+  it("reports the first invalid child with its row number", () => {
+    const data = { members: [{ name: "Ama" }, { age: 4 }] }
+    expect(validateGroupRows(members, data, requiredCheck)).toBe(
+      "Household member #2: Name is required"
+    )
+  })
+
+  it("enforces the row count", () => {
+    const data = { members: [{ name: "A" }, { name: "B" }, { name: "C" }, { name: "D" }] }
+    expect(validateGroupRows(members, data, requiredCheck)).toBe(
+      "Household member allows at most 3 entries"
+    )
+    expect(validateGroupRows(members, { members: [] }, requiredCheck)).toBe(
+      "Household member is required"
+    )
+  })
+})
+
+describe("flattening", () => {
+  const response = {
+    household_size: 2,
+    members: [
+      { name: "Ama", age: 34 },
+      { name: "Kofi", age: 6 },
+    ],
+  }
+
+  it("gives each row's answers their own column", () => {
+    expect(flattenResponseData(response, [members])).toEqual({
+      household_size: 2,
+      "members[1].name": "Ama",
+      "members[1].age": 34,
+      "members[2].name": "Kofi",
+      "members[2].age": 6,
+    })
+  })
+
+  it("labels flattened entries with the group and child labels", () => {
+    const labels = describeResponseData(response, [members]).map((entry) => entry.label)
+    expect(labels).toContain("Household member #2 › Age")
+  })
+
+  it("detects groups without field definitions", () => {
+    expect(Object.keys(flattenResponseData(response))).toContain("members[2].name")
+  })
+})
+
+describe("formFieldSchema", () => {
+  it("accepts group fields with children", () => {
+    expect(formFieldSchema.safeParse(members).success).toBe(true)
+  })
+
+  it("rejects empty or nested groups", () => {
+    expect(formFieldSchema.safeParse({ ...members, fields: [] }).success).toBe(false)
+    expect(formFieldSchema.safeParse({ ...members, fields: [members] }).success).toBe(false)
+  })
+
+  it("rejects minRepeats above maxRepeats", () => {
+    expect(formFieldSchema.safeParse({ ...members, minRepeats: 5, maxRepeats: 2 }).success).toBe(
+      false
+    )
+  })
+})
@@ -0,0 +1,169 @@
+import {
+  compareResponses,
+  defaultMergeChoices,
+  findDuplicates,
+  getDefaultDetectorConfig,
+  mergeResponses,
+  normalizeName,
+  soundex,
+  type DuplicateDetectorConfig,
+} from "../response-duplicates"
+import { distanceInMeters } from "../response-geo"
+import type { FormField, FormResponse } from "../types"
+
+const response = (
+  id: string,
+  data: Record<string, any>,
+  submitted_at = "2024-01-01T09:00:00Z"
+): FormResponse => ({ id, form_id: "form_1", data, submitted_at }) as FormResponse
+
+const fields: FormField[] = [
+  { id: "full_name", type: "text", label: "Full name", required: true },
+  { id: "national_id", type: "text", label: "National ID", required: false },
+  { id: "village", type: "select", label: "Village", required: false },
+  { id: "location", type: "gps", label: "Location", required: false },
+]
+
+const off: DuplicateDetectorConfig = {
+  exactFields: [],
+  nameFields: [],
+  nameThreshold: 0.85,
+  phonetic: false,
+  gpsField: null,
+  radiusMeters: 50,
+  windowMinutes: 30,
+}
+
+describe("string matching", () => {
+  it("computes Soundex codes", () => {
+    expect(soundex("Robert")).toBe("R163")
+    expect(soundex("Rupert")).toBe("R163")
+    expect(soundex("Ashcraft")).toBe("A261")
+    expect(soundex("Tymczak")).toBe("T522")
+    expect(soundex("Lee")).toBe("L000")
+  })
+
+  it("normalizes accents, punctuation and word order", () => {
+    expect(normalizeName("Mensah, Kwámé")).toEqual(["kwame", "mensah"])
+  })
+})
+
+describe("distanceInMeters", () => {
+  it("measures great-circle distance", () => {
+    const a = { latitude: 5.6037, longitude: -0.187 }
+    expect(distanceInMeters(a, a)).toBe(0)
+    // 0.001° of latitude is about 111 m
+    expect(distanceInMeters(a, { ...a, latitude: 5.6047 })).toBeCloseTo(111.2, 0)
+  })
+})
+
+describe("findDuplicates", () => {
+  it("matches exact key fields ignoring case and skips blanks", () => {
+    const groups = findDuplicates(
+      [
+        response("a", { national_id: "GHA-123 " }),
+        response("b", { national_id: "gha-123" }),
+        response("c", { national_id: "" }),
+        response("d", {}),
+      ],
+      { ...off, exactFields: ["national_id"] }
+    )
+    expect(groups).toHaveLength(1)
+    expect(groups[0].responseIds).toEqual(["a", "b"])
+    expect(groups[0].matches[0].reasons).toEqual([{ kind: "exact", fields: ["national_id"] }])
+  })
+
+  it("matches names by edit distance and by sound", () => {
+    const responses = [
+      response("a", { full_name: "Kwame Mensah" }),
+      response("b", { full_name: "mensah kwami" }),
+      response("c", { full_name: "Akosua Boateng" }),
+      response("d", { full_name: "Stephen" }),
+      response("e", { full_name: "Steven" }),
+    ]
+    const strict = findDuplicates(responses, { ...off, nameFields: ["full_name"] })
+    expect(strict.map((group) => group.responseIds)).toEqual([["a", "b"]])
+
+    const phonetic = findDuplicates(responses, {
+      ...off,
+      nameFields: ["full_name"],
+      phonetic: true,
+    })
+    expect(phonetic.map((group) => group.responseIds)).toEqual([
+      ["a", "b"],
+      ["d", "e"],
+    ])
+    expect(phonetic[1].matches[0].reasons[0]).toMatchObject({ kind: "name", phonetic: true })
+  })
+
+  it("matches nearby GPS points only within the time window", () => {
+    const here = { latitude: 5.6037, longitude: -0.187, accuracy: 5 }
+    const near = { latitude: 5.6039, longitude: -0.187, accuracy: 5 }
+    const groups = findDuplicates(
+      [
+        response("a", { location: here }, "2024-01-01T09:00:00Z"),
+        response("b", { location: near }, "2024-01-01T09:20:00Z"),
+        response("c", { location: near }, "2024-01-01T11:00:00Z"),
+        response("d", { location: "unknown" }, "2024-01-01T09:05:00Z"),
+      ],
+      { ...off, gpsField: "location" }
+    )
+    expect(groups.map((group) => group.responseIds)).toEqual([["a", "b"]])
+    expect(groups[0].matches[0].reasons[0]).toMatchObject({ kind: "location", minutesApart: 20 })
+  })
+
+  it("joins pairs into groups, oldest first, and leaves out dismissed pairs", () => {
+    const responses = [
+      response("c", { national_id: "1", full_name: "Ama Owusu" }, "2024-01-03T00:00:00Z"),
+      response("a", { national_id: "1", full_name: "Ama Owusu" }, "2024-01-01T00:00:00Z"),
+      response("b", { national_id: "2", full_name: "Ama Owusu" }, "2024-01-02T00:00:00Z"),
+    ]
+    const config = { ...off, exactFields: ["national_id"], nameFields: ["full_name"] }
+
+    const [group] = findDuplicates(responses, config)
+    expect(group.responseIds).toEqual(["a", "b", "c"])
+    expect(group.matches.find((m) => m.ids.join() === "a,c")?.reasons).toHaveLength(2)
+
+    expect(findDuplicates(responses, config, [["a", "b", "c"]])).toEqual([])
+    const remaining = findDuplicates(responses, config, [["a", "b"]])
+    expect(remaining[0].responseIds).toEqual(["a", "b", "c"])
+    expect(remaining[0].matches.map((m) => m.ids.join())).not.toContain("a,b")
+  })
+
+  it("derives a default configuration from the form", () => {
+    expect(getDefaultDetectorConfig(fields)).toMatchObject({
+      exactFields: [],
+      nameFields: ["full_name"],
+      gpsField: "location",
+    })
+  })
+})
+
+describe("merging", () => {
+  const group = [
+    response("a", { full_name: "Kwame Mensah", village: "" }),
+    response("b", { full_name: "Kwame Mensa", village: "Osu", photo: "x" }),
+  ]
+  group[1].attachments = { photo: "https://files/photo.jpg" }
+
+  it("compares answers side by side in form order", () => {
+    const rows = compareResponses(group, fields)
+    expect(rows.map((row) => [row.key, row.differs])).toEqual([
+      ["full_name", true],
+      ["village", true],
+      ["photo", true],
+    ])
+  })
+
+  it("keeps the primary's answers and fills its blanks from the others", () => {
+    const rows = compareResponses(group, fields)
+    const choices = defaultMergeChoices(group, "a", rows)
+    expect(choices).toEqual({ full_name: "a", village: "b", photo: "b" })
+
+    expect(mergeResponses(group, "a", choices)).toEqual({
+      data: { full_name: "Kwame Mensah", village: "Osu", photo: "x" },
+      attachments: { photo: "https://files/photo.jpg" },
+    })
+    expect(mergeResponses(group, "a", { ...choices, photo: "a" }).data).not.toHaveProperty("photo")
+  })
+})
@@ -0,0 +1,105 @@
+import {
+  buildHeatmapCells,
+  clusterPoints,
+  extractResponsePoints,
+  getPointsBounds,
+  getResponseIdsInPolygon,
+  isPointInPolygon,
+  type GeoPolygon,
+} from "../response-geo"
+import type { FormField, FormResponse } from "../types"
+
+const response = (id: string, data: Record<string, any>): FormResponse =>
+  ({ id, form_id: "form_1", data, submitted_at: "2024-01-01T00:00:00Z" }) as FormResponse
+
+const accra = { latitude: 5.6037, longitude: -0.187, accuracy: 12 }
+const osu = { latitude: 5.556, longitude: -0.1769, accuracy: 0 }
+const kumasi = { latitude: 6.6885, longitude: -1.6244, accuracy: 30 }
+
+const responses = [
+  response("r1", { location: accra, name: "Ama" }),
+  response("r2", { location: osu }),
+  response("r3", { location: kumasi, home: accra }),
+  response("r4", { location: "unknown" }),
+]
+
+describe("extractResponsePoints", () => {
+  it("reads coordinate answers and drops invalid accuracy", () => {
+    const points = extractResponsePoints(responses)
+    expect(points.map((p) => `${p.responseId}.${p.fieldId}`)).toEqual([
+      "r1.location",
+      "r2.location",
+      "r3.location",
+      "r3.home",
+    ])
+    expect(points[1].accuracy).toBeUndefined()
+  })
+
+  it("limits points to gps fields when fields are given", () => {
+    const fields: FormField[] = [
+      { id: "location", type: "gps", label: "Location", required: false },
+    ]
+    expect(extractResponsePoints(responses, fields)).toHaveLength(3)
+  })
+})
+
+describe("clustering", () => {
+  const points = extractResponsePoints(responses)
+
+  it("merges nearby points when zoomed out and splits them when zoomed in", () => {
+    const zoomedOut = clusterPoints(points, 5)
+    expect(zoomedOut.map((cluster) => cluster.points.length).sort()).toEqual([1, 3])
+
+    const zoomedIn = clusterPoints(points, 14)
+    expect(zoomedIn.every((cluster) => cluster.points.length <= 2)).toBe(true)
+  })
+
+  it("places clusters at the mean of their points", () => {
+    const [cluster] = clusterPoints(points.slice(0, 2), 3)
+    expect(cluster.latitude).toBeCloseTo((accra.latitude + osu.latitude) / 2)
+  })
+
+  it("scales heatmap intensity to the densest cell", () => {
+    const cells = buildHeatmapCells(points, 5)
+    const densest = cells.find((cell) => cell.intensity === 1)
+    expect(densest?.count).toBe(3)
+    const [[south, west], [north, east]] = densest!.bounds
+    expect(south).toBeLessThan(accra.latitude)
+    expect(north).toBeGreaterThan(accra.latitude)
+    expect(west).toBeLessThan(accra.longitude)
+    expect(east).toBeGreaterThan(accra.longitude)
+  })
+
+  it("computes the bounding box", () => {
+    expect(getPointsBounds([accra, kumasi])).toEqual([
+      [accra.latitude, kumasi.longitude],
+      [kumasi.latitude, accra.longitude],
+    ])
+    expect(getPointsBounds([])).toBeNull()
+  })
+})
+
+describe("area selection", () => {
+  const greaterAccra: GeoPolygon = [
+    [5.4, -0.4],
+    [5.9, -0.4],
+    [5.9, 0.1],
+    [5.4, 0.1],
+  ]
+
+  it("tests points against the polygon", () => {
+    expect(isPointInPolygon(accra, greaterAccra)).toBe(true)
+    expect(isPointInPolygon(kumasi, greaterAccra)).toBe(false)
+  })
+
+  it("selects responses with any answer inside the area", () => {
+    const ids = getResponseIdsInPolygon(extractResponsePoints(responses), greaterAccra)
+    expect([...ids]).toEqual(["r1", "r2", "r3"])
+  })
+
+  it("ignores polygons with fewer than three vertices", () => {
+    expect(
+      getResponseIdsInPolygon(extractResponsePoints(responses), greaterAccra.slice(0, 2)).size
+    ).toBe(0)
+  })
+})
@@ -0,0 +1,116 @@
+import {
+  canTransition,
+  diffResponseData,
+  getOpenFieldComments,
+  partitionByTransition,
+  validateReviewAction,
+} from "../response-review"
+import type { FormField, ResponseFieldComment } from "../types"
+
+const fields: FormField[] = [
+  { id: "name", type: "text", label: "Name", required: true },
+  { id: "age", type: "number", label: "Age", required: false },
+  {
+    id: "members",
+    type: "group",
+    label: "Members",
+    required: false,
+    repeatable: true,
+    fields: [{ id: "relation", type: "text", label: "Relation", required: false }],
+  },
+  { id: "notes", type: "textarea", label: "Notes", required: false },
+]
+
+describe("review transitions", () => {
+  it("lets reviewers act on pending responses and re-open approved ones", () => {
+    expect(canTransition("pending", "approved")).toBe(true)
+    expect(canTransition("approved", "needs_correction")).toBe(true)
+    expect(canTransition("approved", "approved")).toBe(false)
+    expect(canTransition("flagged", "pending")).toBe(false)
+  })
+
+  it("splits a bulk selection into eligible and skipped responses", () => {
+    const responses = [
+      { id: "a" },
+      { id: "b", review_status: "approved" as const },
+      { id: "c", review_status: "flagged" as const },
+    ]
+    const { eligible, skipped } = partitionByTransition(responses, "approved")
+    expect(eligible.map((r) => r.id)).toEqual(["a", "c"])
+    expect(skipped.map((r) => r.id)).toEqual(["b"])
+  })
+})
+
+describe("validateReviewAction", () => {
+  it("requires an explanation when returning or flagging a response", () => {
+    expect(validateReviewAction("pending", "needs_correction", " ")).toMatch(/Explain/)
+    expect(
+      validateReviewAction("pending", "needs_correction", "", [
+        { field_id: "age", comment: "Age looks wrong" },
+      ])
+    ).toBeNull()
+    expect(validateReviewAction("pending", "flagged", "")).toMatch(/flagged/)
+    expect(validateReviewAction("pending", "approved", "")).toBeNull()
+  })
+
+  it("rejects disallowed transitions and empty comments", () => {
+    expect(validateReviewAction("approved", "approved", "")).toBe(
+      "A response that is approved can't be marked approved"
+    )
+    expect(
+      validateReviewAction("pending", "needs_correction", "note", [
+        { field_id: "age", comment: "" },
+      ])
+    ).toMatch(/empty/)
+  })
+})
+
+describe("getOpenFieldComments", () => {
+  it("groups unresolved comments by answer", () => {
+    const comment = (id: string, field_id: string, resolved_at?: string): ResponseFieldComment => ({
+      id,
+      field_id,
+      comment: id,
+      author_id: "reviewer",
+      created_at: "2026-01-01T00:00:00Z",
+      resolved_at,
+    })
+    const open = getOpenFieldComments({
+      field_comments: [
+        comment("1", "age"),
+        comment("2", "age"),
+        comment("3", "name", "2026-01-02T00:00:00Z"),
+      ],
+    })
+    expect(Array.from(open.keys())).toEqual(["age"])
+    expect(open.get("age")?.map((c) => c.id)).toEqual(["1", "2"])
+  })
+})
+
+describe("diffResponseData", () => {
+  it("lists added, removed and changed answers in form order", () => {
+    const changes = diffResponseData(
+      { notes: "old", age: 30, name: "Ama", members: [{ relation: "son" }] },
+      { name: "Ama", age: 31, members: [{ relation: "daughter" }, { relation: "son" }] },
+      fields
+    )
+    expect(changes).toEqual([
+      { key: "age", label: "Age", kind: "changed", before: 30, after: 31 },
+      {
+        key: "members[1].relation",
+        label: "Members #1 › Relation",
+        kind: "changed",
+        before: "son",
+        after: "daughter",
+      },
+      { key: "members[2].relation", label: "Members #2 › Relation", kind: "added", after: "son" },
+      { key: "notes", label: "Notes", kind: "removed", before: "old" },
+    ])
+  })
+
+  it("treats blank values as equal and compares arrays by value", () => {
+    expect(
+      diffResponseData({ notes: "", tags: ["a", "b"] }, { notes: null, tags: ["a", "b"] }, fields)
+    ).toEqual([])
+  })
+})
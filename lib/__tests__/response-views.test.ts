@@ -0,0 +1,93 @@
+import {
+  createDefaultViewState,
+  decodeViewState,
+  diffColumnVisibility,
+  encodeViewState,
+  fromViewFilters,
+  isSameViewState,
+  toViewFilters,
+  type ResponseViewState,
+} from "../response-views"
+
+const view: ResponseViewState = {
+  formId: "form_1",
+  mode: "map",
+  filters: {
+    search: "Ama Ɔsei",
+    dateFrom: "2024-03-01T00:00:00.000Z",
+    dateTo: "2024-03-31T00:00:00.000Z",
+    qualityRange: [40, 100],
+    fieldFilters: { region: "Ashanti" },
+  },
+  columnVisibility: { "answer:notes": true, quality_score: false },
+  columnOrder: ["submitted_at", "answer:region"],
+  sorting: [{ id: "submitted_at", desc: true }],
+  groupBy: "review_status",
+}
+
+describe("view tokens", () => {
+  it("round-trips a view through a URL-safe token", () => {
+    const token = encodeViewState(view)
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(decodeViewState(token)).toEqual({
+      ...view,
+      filters: { ...view.filters, submittedBy: undefined, hasAttachments: undefined },
+    })
+  })
+
+  it("gives equal views equal tokens regardless of key order and defaults", () => {
+    const reordered: ResponseViewState = {
+      ...view,
+      filters: { ...view.filters, fieldFilters: { empty: "", region: "Ashanti" } },
+      columnVisibility: { quality_score: false, "answer:notes": true },
+    }
+    expect(isSameViewState(view, reordered)).toBe(true)
+    expect(isSameViewState(view, { ...view, groupBy: null })).toBe(false)
+  })
+
+  it("rejects malformed tokens and fills in missing parts", () => {
+    expect(decodeViewState(null)).toBeNull()
+    expect(decodeViewState("not a token")).toBeNull()
+    expect(decodeViewState(btoa(JSON.stringify({ v: 99, f: "form_1" })))).toBeNull()
+
+    const partial = btoa(JSON.stringify({ v: 1, f: "form_1", m: "bogus", s: [[1, 1]] }))
+    expect(decodeViewState(partial)).toEqual({
+      ...createDefaultViewState("form_1"),
+      filters: {
+        search: "",
+        qualityRange: [0, 100],
+        fieldFilters: {},
+        dateFrom: undefined,
+        dateTo: undefined,
+        submittedBy: undefined,
+        hasAttachments: undefined,
+      },
+    })
+  })
+})
+
+describe("filters", () => {
+  it("converts date ranges to ISO strings and back", () => {
+    const from = new Date("2024-03-01T00:00:00.000Z")
+    const filters = toViewFilters({
+      search: "",
+      dateRange: { from, to: undefined },
+      qualityRange: [0, 100],
+      fieldFilters: {},
+    })
+    expect(filters).toMatchObject({ dateFrom: "2024-03-01T00:00:00.000Z", dateTo: undefined })
+    expect(fromViewFilters(filters).dateRange).toEqual({ from, to: undefined })
+    expect(fromViewFilters({ ...filters, dateFrom: undefined }).dateRange).toBeUndefined()
+  })
+})
+
+describe("diffColumnVisibility", () => {
+  it("keeps only columns that differ from their default", () => {
+    expect(
+      diffColumnVisibility(
+        { id: true, "answer:a": true, "answer:b": false, "answer:c": false },
+        { "answer:b": false, "answer:c": true }
+      )
+    ).toEqual({ "answer:c": false })
+  })
+})
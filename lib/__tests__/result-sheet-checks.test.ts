@@ -0,0 +1,138 @@
+import {
+  buildDiscrepancyReports,
+  checkResultSheet,
+  parseNumberWords,
+  type SheetContest,
+} from "../result-sheet-checks"
+
+const contest = (votes: [number, string?][]): SheetContest => ({
+  id: "pos_president",
+  title: "President",
+  entries: votes.map(([count, words], index) => ({
+    key: `cand_${index + 1}`,
+    label: `Candidate ${index + 1}`,
+    votes: count,
+    votes_in_words: words,
+  })),
+})
+
+const consistentTotals = {
+  total_registered_voters: 500,
+  total_votes_cast: 310,
+  total_valid_votes: 300,
+  total_rejected_votes: 10,
+}
+
+describe("parseNumberWords", () => {
+  it.each([
+    ["zero", 0],
+    ["seventeen", 17],
+    ["forty-two", 42],
+    ["one hundred and five", 105],
+    ["Two Thousand, Four Hundred and Six", 2406],
+    ["one hundred thousand", 100000],
+    ["three million two hundred thousand and one", 3200001],
+    ["1,204", 1204],
+    ["twelve votes only", 12],
+  ])("reads %p as %p", (text, expected) => {
+    expect(parseNumberWords(text)).toBe(expected)
+  })
+
+  it.each(["", "lots", "one hundred hundred", "two thousand million", "5 hundred"])(
+    "rejects %p",
+    (text) => {
+      expect(parseNumberWords(text)).toBeNull()
+    }
+  )
+})
+
+describe("checkResultSheet", () => {
+  it("passes consistent figures", () => {
+    expect(checkResultSheet(consistentTotals, [contest([[200], [100]])])).toEqual([])
+  })
+
+  it("warns when candidate votes don't add up to valid votes", () => {
+    const [issue] = checkResultSheet(consistentTotals, [contest([[200], [90]])])
+    expect(issue).toMatchObject({
+      id: "candidate_sum:pos_president",
+      severity: "warning",
+      expected: 300,
+      actual: 290,
+    })
+  })
+
+  it("warns when valid and rejected votes don't make up votes cast", () => {
+    const issues = checkResultSheet({ ...consistentTotals, total_rejected_votes: 12 }, [])
+    expect(issues).toEqual([
+      expect.objectContaining({ type: "cast_total", expected: 310, actual: 312 }),
+    ])
+  })
+
+  it("blocks more votes cast than registered voters", () => {
+    const issues = checkResultSheet({ ...consistentTotals, total_registered_voters: 300 }, [])
+    expect(issues).toEqual([
+      expect.objectContaining({ type: "over_registered", severity: "error" }),
+    ])
+  })
+
+  it("blocks figures that disagree with the amount in words", () => {
+    const issues = checkResultSheet(consistentTotals, [
+      contest([
+        [200, "two hundred"],
+        [100, "one hundred and ten"],
+      ]),
+    ])
+    expect(issues).toEqual([
+      expect.objectContaining({
+        id: "votes_in_words:cand_2",
+        severity: "error",
+        expected: 110,
+        actual: 100,
+      }),
+    ])
+  })
+
+  it("warns about words it can't read", () => {
+    const issues = checkResultSheet(consistentTotals, [contest([[200, "two hundret"], [100]])])
+    expect(issues).toEqual([
+      expect.objectContaining({ type: "unreadable_words", severity: "warning" }),
+    ])
+  })
+
+  it("blocks write-in votes without a name and counts them towards valid votes", () => {
+    const president = contest([[250]])
+    president.entries.push(
+      { key: "writein:1", label: "Write-in", votes: 40, write_in: true, write_in_name: "Yaw" },
+      { key: "writein:2", label: "Write-in", votes: 10, write_in: true, write_in_name: " " }
+    )
+    const issues = checkResultSheet(consistentTotals, [president])
+    expect(issues).toEqual([
+      expect.objectContaining({
+        type: "write_in_name",
+        severity: "error",
+        entryKey: "writein:2",
+      }),
+    ])
+  })
+
+  it("skips checks until the totals they need are entered", () => {
+    expect(checkResultSheet({}, [contest([[200], [100]])])).toEqual([])
+    expect(checkResultSheet({ total_votes_cast: 10 }, [])).toEqual([])
+  })
+})
+
+describe("buildDiscrepancyReports", () => {
+  it("pre-fills reports for warnings only", () => {
+    const issues = checkResultSheet({ ...consistentTotals, total_registered_voters: 100 }, [
+      contest([[200], [90]]),
+    ])
+    expect(buildDiscrepancyReports(issues)).toEqual([
+      {
+        discrepancy_type: "candidate_sum",
+        expected_value: "300",
+        actual_value: "290",
+        description: expect.stringContaining("President"),
+      },
+    ])
+  })
+})
@@ -0,0 +1,9 @@
+import { levenshtein } from "../string-distance"
+
+describe("levenshtein", () => {
+  it("counts edits between strings", () => {
+    expect(levenshtein("kitten", "sitting")).toBe(3)
+    expect(levenshtein("", "abc")).toBe(3)
+    expect(levenshtein("same", "same")).toBe(0)
+  })
+})
@@ -0,0 +1,80 @@
+import {
+  buildReceiptPdf,
+  checkReceiptCodes,
+  getReceiptUrl,
+  normalizeConfirmationCode,
+  parseReceiptCodes,
+  summarizeReceiptChecks,
+} from "../vote-receipts"
+import type { ElectionAuditLog } from "../types"
+
+const entry = (id: string, action: string, code?: string): ElectionAuditLog => ({
+  id,
+  election_id: "e1",
+  action,
+  details: code ? { confirmation_code: code } : {},
+  created_at: "2024-12-07T10:00:00Z",
+})
+
+describe("confirmation codes", () => {
+  it("normalizes case and spacing", () => {
+    expect(normalizeConfirmationCode(" k7q2-m9xd ")).toBe("K7Q2-M9XD")
+    expect(normalizeConfirmationCode("K7Q2 M9XD")).toBe("K7Q2M9XD")
+    expect(normalizeConfirmationCode("abc")).toBeNull()
+    expect(normalizeConfirmationCode("K7Q2/M9XD")).toBeNull()
+  })
+
+  it("links to the lookup page with the code filled in", () => {
+    expect(getReceiptUrl("https://vote.example.org", "e1", "K7Q2-M9XD")).toBe(
+      "https://vote.example.org/vote/e1/receipt?code=K7Q2-M9XD"
+    )
+  })
+
+  it("splits pasted lists and reports tokens that aren't codes", () => {
+    expect(parseReceiptCodes("k7q2-m9xd, AAAA-1111\nk7q2-m9xd;  ??\n")).toEqual({
+      codes: ["K7Q2-M9XD", "AAAA-1111"],
+      invalid: ["??"],
+    })
+  })
+})
+
+describe("checkReceiptCodes", () => {
+  it("matches codes to vote entries only", () => {
+    const log = [
+      entry("1", "vote_cast", "aaaa-1111"),
+      entry("2", "vote_cast", "BBBB-2222"),
+      entry("3", "vote_cast", "BBBB-2222"),
+      entry("4", "election_published", "CCCC-3333"),
+      entry("5", "vote_cast"),
+    ]
+    const results = checkReceiptCodes(["AAAA-1111", "BBBB-2222", "CCCC-3333"], log)
+
+    expect(results.map((result) => [result.code, result.status])).toEqual([
+      ["AAAA-1111", "recorded"],
+      ["BBBB-2222", "duplicate"],
+      ["CCCC-3333", "not_found"],
+    ])
+    expect(results[0].entries.map((e) => e.id)).toEqual(["1"])
+    expect(summarizeReceiptChecks(results)).toEqual({ recorded: 1, duplicate: 1, not_found: 1 })
+  })
+})
+
+describe("buildReceiptPdf", () => {
+  it("prints the code and draws the QR code", () => {
+    const pdf = Buffer.from(
+      buildReceiptPdf({
+        electionTitle: "SRC Elections 2024",
+        confirmationCode: "K7Q2-M9XD",
+        votesCast: 3,
+        verifyUrl: "https://vote.example.org/vote/e1/receipt?code=K7Q2-M9XD",
+      })
+    ).toString("latin1")
+
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true)
+    expect(pdf).toContain("(K7Q2-M9XD) Tj")
+    expect(pdf).toContain("(SRC Elections 2024) Tj")
+    expect(pdf).not.toContain("Voted at")
+    expect(pdf).toMatch(/\d+\.\d{2} \d+\.\d{2} \d+\.\d{2} \d+\.\d{2} re\n/)
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true)
+  })
+})
@@ -0,0 +1,136 @@
+import {
+  clearVoteReceipt,
+  clearVoterToken,
+  getRetryAfterSeconds,
+  getStoredVoteReceipt,
+  getStoredVoterToken,
+  getVerificationSteps,
+  getVoteErrorMessage,
+  maskPhoneNumber,
+  normalizeNationalId,
+  normalizePhoneNumber,
+  storeVoteReceipt,
+  storeVoterToken,
+} from "../voter-verification"
+import { VOTER_VERIFICATION } from "../constants"
+
+describe("getVerificationSteps", () => {
+  it("asks for the national ID before the phone and code", () => {
+    const election = { require_national_id: false, require_phone_otp: false }
+    expect(getVerificationSteps(election)).toEqual([])
+    expect(getVerificationSteps({ ...election, require_phone_otp: true })).toEqual([
+      "phone",
+      "code",
+    ])
+    expect(getVerificationSteps({ require_national_id: true, require_phone_otp: true })).toEqual([
+      "national_id",
+      "phone",
+      "code",
+    ])
+  })
+})
+
+describe("phone numbers", () => {
+  it("normalizes local and international formats to E.164", () => {
+    expect(normalizePhoneNumber("024 123 4567")).toBe("+233241234567")
+    expect(normalizePhoneNumber("241234567")).toBe("+233241234567")
+    expect(normalizePhoneNumber("+233 (24) 123-4567")).toBe("+233241234567")
+    expect(normalizePhoneNumber("00233241234567")).toBe("+233241234567")
+    expect(normalizePhoneNumber("+44 7700 900123")).toBe("+447700900123")
+  })
+
+  it("rejects numbers of the wrong shape", () => {
+    expect(normalizePhoneNumber("")).toBeNull()
+    expect(normalizePhoneNumber("024 123 456")).toBeNull()
+    expect(normalizePhoneNumber("+233 24 123 45678")).toBeNull()
+    expect(normalizePhoneNumber("call me")).toBeNull()
+  })
+
+  it("masks all but the country code and last digits", () => {
+    expect(maskPhoneNumber("+233241234567")).toBe("+233 ••••••567")
+  })
+})
+
+describe("normalizeNationalId", () => {
+  it("accepts Ghana Card numbers with or without separators", () => {
+    expect(normalizeNationalId("GHA-123456789-0")).toBe("GHA-123456789-0")
+    expect(normalizeNationalId(" gha 123456789 0 ")).toBe("GHA-123456789-0")
+    expect(normalizeNationalId("GHA1234567890")).toBe("GHA-123456789-0")
+  })
+
+  it("rejects other formats", () => {
+    expect(normalizeNationalId("GHA-12345678-0")).toBeNull()
+    expect(normalizeNationalId("NGA-123456789-0")).toBeNull()
+  })
+})
+
+describe("errors", () => {
+  it("reads string and object details", () => {
+    expect(getVoteErrorMessage({ response: { data: { detail: "Invalid code" } } }, "x")).toBe(
+      "Invalid code"
+    )
+    expect(
+      getVoteErrorMessage({ response: { data: { detail: { message: "Expired" } } } }, "x")
+    ).toBe("Expired")
+    expect(getVoteErrorMessage(new Error("Network Error"), "Try again")).toBe("Try again")
+  })
+
+  it("honours Retry-After and falls back to the default cooldown", () => {
+    expect(getRetryAfterSeconds({ response: { headers: { "retry-after": "42" } } })).toBe(42)
+    expect(getRetryAfterSeconds({ response: { headers: {} } })).toBe(
+      VOTER_VERIFICATION.OTP_RESEND_COOLDOWN_SECONDS
+    )
+  })
+})
+
+describe("voter token storage", () => {
+  afterEach(() => {
+    window.sessionStorage.clear()
+    window.localStorage.clear()
+  })
+
+  it("keeps one token per election", () => {
+    storeVoterToken("e1", "token-1")
+    storeVoterToken("e2", "token-2")
+    expect(getStoredVoterToken("e1")).toBe("token-1")
+
+    clearVoterToken("e1")
+    expect(getStoredVoterToken("e1")).toBeNull()
+    expect(getStoredVoterToken("e2")).toBe("token-2")
+  })
+
+  it("keeps the token for the session only", () => {
+    storeVoterToken("e1", "token-1")
+    expect(window.sessionStorage.getItem("voter-token-e1")).toBe("token-1")
+    expect(window.localStorage.getItem("voter-token-e1")).toBeNull()
+  })
+
+  it("moves tokens stored by earlier visits out of local storage", () => {
+    window.localStorage.setItem("voter-token-e1", "token-1")
+    expect(getStoredVoterToken("e1")).toBe("token-1")
+    expect(window.localStorage.getItem("voter-token-e1")).toBeNull()
+  })
+
+  it("keeps only the receipt once a vote is cast", () => {
+    const receipt = {
+      confirmation_code: "ABC123",
+      voted_at: "2026-01-01T00:00:00Z",
+      voter_hash: "hash",
+    }
+    storeVoterToken("e1", "token-1")
+    storeVoteReceipt("e1", receipt)
+
+    expect(getStoredVoterToken("e1")).toBeNull()
+    expect(getStoredVoteReceipt("e1")).toEqual({
+      confirmation_code: "ABC123",
+      voted_at: "2026-01-01T00:00:00Z",
+    })
+    expect(getStoredVoteReceipt("e2")).toBeNull()
+  })
+
+  it("forgets a receipt left by an earlier voter", () => {
+    storeVoteReceipt("e1", { confirmation_code: "ABC123" })
+    clearVoteReceipt("e1")
+    expect(getStoredVoteReceipt("e1")).toBeNull()
+  })
+})
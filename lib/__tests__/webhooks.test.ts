@@ -0,0 +1,77 @@
+import {
+  WEBHOOK_EVENTS,
+  computeSignature,
+  examplePayload,
+  getHeader,
+  parseSignatureHeader,
+  payloadSchema,
+  verifySignature,
+} from "../webhooks"
+import { TextEncoder } from "util"
+import { webcrypto } from "crypto"
+
+// jsdom doesn't provide the Encoding or Web Crypto APIs
+Object.assign(global, { TextEncoder })
+Object.defineProperty(global, "crypto", { value: webcrypto })
+
+// RFC 4231 test case 2
+const SECRET = "Jefe"
+const BODY = "what do ya want for nothing?"
+const DIGEST = "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843"
+
+describe("computeSignature", () => {
+  it("computes a hex HMAC-SHA256", async () => {
+    await expect(computeSignature(SECRET, BODY)).resolves.toBe(DIGEST)
+  })
+
+  it("explains a missing secret instead of failing in Web Crypto", async () => {
+    await expect(computeSignature("", BODY)).rejects.toThrow("A webhook secret is needed")
+  })
+})
+
+describe("verifySignature", () => {
+  it("accepts prefixed and bare digests in any case", async () => {
+    await expect(verifySignature(SECRET, BODY, `sha256=${DIGEST}`)).resolves.toMatchObject({
+      valid: true,
+    })
+    await expect(verifySignature(SECRET, BODY, DIGEST.toUpperCase())).resolves.toMatchObject({
+      valid: true,
+    })
+  })
+
+  it("rejects an altered body or a malformed header", async () => {
+    await expect(verifySignature(SECRET, `${BODY} `, `sha256=${DIGEST}`)).resolves.toMatchObject({
+      valid: false,
+      received: DIGEST,
+    })
+    await expect(verifySignature(SECRET, BODY, "sha1=abc")).resolves.toMatchObject({
+      valid: false,
+      received: null,
+    })
+    expect(parseSignatureHeader(`  sha256=${DIGEST} `)).toBe(DIGEST)
+  })
+})
+
+describe("getHeader", () => {
+  it("looks headers up case-insensitively", () => {
+    expect(getHeader({ "x-webhook-signature": "sha256=1" }, "X-Webhook-Signature")).toBe("sha256=1")
+    expect(getHeader(undefined, "X-Webhook-Signature")).toBeUndefined()
+  })
+})
+
+describe("WEBHOOK_EVENTS", () => {
+  it.each(WEBHOOK_EVENTS.map((event) => [event.id, event]))(
+    "%s has an example with every required property",
+    (_, event) => {
+      const schema = payloadSchema(event)
+      const payload = examplePayload(event)
+
+      expect(schema.properties.event.const).toBe(event.id)
+      schema.required.forEach((key: string) => expect(payload).toHaveProperty(key))
+      event.dataSchema.required.forEach((key: string) => expect(payload.data).toHaveProperty(key))
+      Object.keys(payload.data).forEach((key) =>
+        expect(event.dataSchema.properties).toHaveProperty(key)
+      )
+    }
+  )
+})
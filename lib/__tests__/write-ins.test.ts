@@ -0,0 +1,99 @@
+import { mergePositionResults, suggestWriteInMerges, writeInKey } from "../write-ins"
+import type { PositionResult, WriteInMerge } from "../types"
+
+const position: PositionResult = {
+  position_id: "pos_chair",
+  title: "Chairperson",
+  max_selections: 1,
+  total_votes: 100,
+  candidates: [
+    { candidate_id: "a", name: "Ama Owusu", votes: 40, percentage: 40, rank: 1 },
+    { candidate_id: "b", name: "Kofi Boateng", votes: 35, percentage: 35, rank: 2 },
+  ],
+  write_ins: [
+    { name: "Yaw Mensah", votes: 10 },
+    { name: "yaw mensah.", votes: 3 },
+    { name: "Yaw Mensa", votes: 2 },
+    { name: "Kofi Boatang", votes: 6 },
+    { name: "Efua", votes: 4 },
+  ],
+}
+
+const merge = (overrides: Partial<WriteInMerge>): WriteInMerge => ({
+  id: "m1",
+  election_id: "e1",
+  position_id: "pos_chair",
+  variants: [],
+  created_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+})
+
+describe("writeInKey", () => {
+  it("ignores case, accents, punctuation and spacing", () => {
+    expect(writeInKey("  Kwàbena   O'Neil. ")).toBe("kwabena oneil")
+  })
+})
+
+describe("mergePositionResults", () => {
+  it("groups identical spellings under the most common one", () => {
+    const merged = mergePositionResults(position, [])
+    expect(merged.write_ins[0]).toEqual({
+      key: "yaw mensah",
+      name: "Yaw Mensah",
+      votes: 13,
+      variants: ["Yaw Mensah", "yaw mensah."],
+      mergeId: undefined,
+    })
+    expect(merged.write_in_total).toBe(25)
+    expect(merged.candidates).toEqual(position.candidates)
+  })
+
+  it("folds merged variants into a name or a candidate", () => {
+    const merged = mergePositionResults(position, [
+      merge({ id: "m1", variants: ["Yaw Mensah", "Yaw Mensa"], name: "Yaw Mensah" }),
+      merge({ id: "m2", variants: ["Kofi Boatang"], candidate_id: "b" }),
+      merge({ id: "m3", position_id: "pos_other", variants: ["Efua"], name: "Efua Sey" }),
+    ])
+
+    expect(merged.write_ins.map(({ name, votes, mergeId }) => [name, votes, mergeId])).toEqual([
+      ["Yaw Mensah", 15, "m1"],
+      ["Efua", 4, undefined],
+    ])
+    expect(
+      merged.candidates.map(({ candidate_id, votes, percentage, rank }) => [
+        candidate_id,
+        votes,
+        percentage,
+        rank,
+      ])
+    ).toEqual([
+      ["b", 41, 41, 1],
+      ["a", 40, 40, 2],
+    ])
+    expect(merged.write_in_total).toBe(19)
+  })
+})
+
+describe("suggestWriteInMerges", () => {
+  it("clusters near spellings and matches listed candidates", () => {
+    const { write_ins } = mergePositionResults(position, [])
+    const suggestions = suggestWriteInMerges(write_ins, position.candidates)
+
+    expect(suggestions).toEqual([
+      { keys: ["yaw mensah", "yaw mensa"], name: "Yaw Mensah", candidate_id: undefined },
+      { keys: ["kofi boatang"], name: "Kofi Boateng", candidate_id: "b" },
+    ])
+  })
+
+  it("matches names written in another order and skips merged groups", () => {
+    const suggestions = suggestWriteInMerges(
+      [
+        { key: "mensah yaw", name: "Mensah Yaw", votes: 2, variants: ["Mensah Yaw"] },
+        { key: "merge:m1", name: "Yaw Mensah", votes: 9, variants: [], mergeId: "m1" },
+        { key: "efua", name: "Efua", votes: 1, variants: ["Efua"] },
+      ],
+      [{ candidate_id: "c", name: "Yaw Mensah" }]
+    )
+    expect(suggestions).toEqual([{ keys: ["mensah yaw"], name: "Yaw Mensah", candidate_id: "c" }])
+  })
+})
@@ -394,7 +394,8 @@ export const templatesAPI = {
 
 // Responses endpoints
 export const responsesAPI = {
-  getAll: (params?: { form_id?: string }) => apiClient.get("/v1/responses", { params }),
+  getAll: (params?: { form_id?: string; limit?: number; offset?: number }) =>
+    apiClient.get("/v1/responses", { params }),
   getById: (id: string) => apiClient.get(`/v1/responses/${id}`),
   create: (data: import("./types").CreateResponseInput) => apiClient.post("/v1/responses", data),
   delete: (id: string) => apiClient.delete(`/v1/responses/${id}`),
@@ -430,6 +431,50 @@ export const responsesAPI = {
     apiClient.get("/v1/responses", {
       params: { ...params, view: "summary" },
     }),
+  // Review workflow
+  review: (
+    id: string,
+    data: {
+      status: import("./types").ResponseReviewStatus
+      note?: string
+      field_comments?: { field_id: string; comment: string }[]
+    }
+  ) => apiClient.post(`/v1/responses/${id}/review`, data),
+  bulkReview: (data: {
+    response_ids: string[]
+    status: import("./types").ResponseReviewStatus
+    note?: string
+  }) => apiClient.post("/v1/responses/review/bulk", data),
+  // Responses returned to the current user for correction
+  getReturned: () => apiClient.get("/v1/responses/returned"),
+  getRevisions: (id: string) => apiClient.get(`/v1/responses/${id}/revisions`),
+  amend: (
+    id: string,
+    data: {
+      data: import("./types").FormResponseData
+      attachments?: Record<string, string>
+      note?: string
+    }
+  ) => apiClient.post(`/v1/responses/${id}/revisions`, data),
+  // Duplicate resolution
+  getDuplicateDismissals: (formId: string) =>
+    apiClient.get("/v1/responses/duplicates/dismissals", { params: { form_id: formId } }),
+  dismissDuplicates: (data: { form_id: string; response_ids: string[] }) =>
+    apiClient.post("/v1/responses/duplicates/dismissals", data),
+  // Rewrites the primary as a new revision and deletes the duplicates
+  mergeDuplicates: (data: {
+    primary_id: string
+    duplicate_ids: string[]
+    data: import("./types").FormResponseData
+    attachments?: Record<string, string>
+  }) => apiClient.post("/v1/responses/merge", data),
+  // Saved table views: the caller's own plus those shared with their roles
+  getViews: (params?: { form_id?: string }) => apiClient.get("/v1/responses/views", { params }),
+  createView: (data: import("./types").SaveResponseViewInput) =>
+    apiClient.post("/v1/responses/views", data),
+  updateView: (id: string, data: Partial<import("./types").SaveResponseViewInput>) =>
+    apiClient.put(`/v1/responses/views/${id}`, data),
+  deleteView: (id: string) => apiClient.delete(`/v1/responses/views/${id}`),
 }
 
 // Users endpoints
@@ -616,6 +661,8 @@ export const webhooksAPI = {
   deleteWebhook: (id: string) => apiClient.delete(`/v1/webhooks/${id}`),
   testWebhook: (id: string) => apiClient.post(`/v1/webhooks/${id}/test`),
   getWebhookLogs: (id: string) => apiClient.get(`/v1/webhooks/${id}/logs`),
+  replayDeliveries: (id: string, deliveryIds: string[]) =>
+    apiClient.post(`/v1/webhooks/${id}/logs/replay`, { delivery_ids: deliveryIds }),
 }
 
 // Public Forms endpoints (no authentication required)
@@ -664,6 +711,7 @@ export const electionsAPI = {
 
   // Lifecycle management
   publish: (id: string) => apiClient.post(`/v1/elections/${id}/publish`),
+  open: (id: string) => apiClient.post(`/v1/elections/${id}/open`),
   pause: (id: string) => apiClient.post(`/v1/elections/${id}/pause`),
   resume: (id: string) => apiClient.post(`/v1/elections/${id}/resume`),
   close: (id: string) => apiClient.post(`/v1/elections/${id}/close`),
@@ -742,6 +790,19 @@ export const electionsAPI = {
   // Delete poll option
   deletePollOption: (electionId: string, optionId: string) =>
     apiClient.delete(`/v1/elections/${electionId}/options/${optionId}`),
+
+  // ========== WRITE-INS ==========
+  // List merges of write-in spellings
+  getWriteInMerges: (electionId: string) =>
+    apiClient.get(`/v1/elections/${electionId}/write-ins/merges`),
+
+  // Merge write-in spellings into one name or a listed candidate
+  createWriteInMerge: (electionId: string, data: import("./types").CreateWriteInMergeInput) =>
+    apiClient.post(`/v1/elections/${electionId}/write-ins/merges`, data),
+
+  // Undo a merge
+  deleteWriteInMerge: (electionId: string, mergeId: string) =>
+    apiClient.delete(`/v1/elections/${electionId}/write-ins/merges/${mergeId}`),
 }
 
 // Voting endpoints (authenticated)
@@ -773,6 +834,12 @@ export const electionAnalyticsAPI = {
   getFinalizedResults: (electionId: string) =>
     apiClient.get(`/v1/elections/${electionId}/results/final`),
 
+  // Get anonymised cast ballots, e.g. to recount ranked-choice results
+  getBallots: (electionId: string, positionId?: string) =>
+    apiClient.get(`/v1/elections/${electionId}/results/ballots`, {
+      params: positionId ? { position_id: positionId } : undefined,
+    }),
+
   // Finalize and cache results (admin only)
   finalizeResults: (electionId: string) =>
     apiClient.post(`/v1/elections/${electionId}/results/finalize`),
@@ -950,10 +1017,8 @@ export const publicElectionsAPI = {
     axios.post(`${API_BASE_URL}/v1/vote/${electionId}/request-otp`, data),
 
   // Verify voter (anonymous flow)
-  verifyVoter: (
-    electionId: string,
-    data: { national_id?: string; phone?: string; otp?: string }
-  ) => axios.post(`${API_BASE_URL}/v1/vote/${electionId}/verify`, data),
+  verifyVoter: (electionId: string, data: import("./types").VoterVerificationInput) =>
+    axios.post(`${API_BASE_URL}/v1/vote/${electionId}/verify`, data),
 
   // Cast anonymous vote
   castVote: (electionId: string, data: import("./types").CastVotesInput) =>
@@ -964,6 +1029,12 @@ export const publicElectionsAPI = {
     axios.get(`${API_BASE_URL}/v1/vote/${electionId}/vote-status`, {
       params: { voter_token: voterToken },
     }),
+
+  // Confirm a ballot was recorded and counted from its receipt's confirmation code
+  verifyReceipt: (electionId: string, confirmationCode: string) =>
+    axios.get(`${API_BASE_URL}/v1/vote/${electionId}/receipt`, {
+      params: { confirmation_code: confirmationCode },
+    }),
 }
 
 // ============================================
@@ -1059,6 +1130,7 @@ export const collationAPI = {
     position_id?: string
     candidate_id?: string
     poll_option_id?: string
+    write_in_name?: string
     votes: number
     votes_in_words?: string
   }) => apiClient.post(`/v1/collation/sheets/${sheetId}/entries`, data),
@@ -1067,12 +1139,21 @@ export const collationAPI = {
     position_id?: string
     candidate_id?: string
     poll_option_id?: string
+    write_in_name?: string
     votes: number
     votes_in_words?: string
   }>) => apiClient.post(`/v1/collation/sheets/${sheetId}/entries/bulk`, { entries }),
 
   getResultEntries: (sheetId: string) => apiClient.get(`/v1/collation/sheets/${sheetId}/entries`),
 
+  updateResultEntry: (entryId: string, data: {
+    write_in_name?: string
+    votes?: number
+    votes_in_words?: string
+  }) => apiClient.patch(`/v1/collation/entries/${entryId}`, data),
+
+  deleteResultEntry: (entryId: string) => apiClient.delete(`/v1/collation/entries/${entryId}`),
+
   // Attachments
   addAttachment: (sheetId: string, data: {
     attachment_type: string
@@ -1188,6 +1269,13 @@ export const collationAPI = {
   getDiscrepancies: (electionId: string, status?: string) =>
     apiClient.get(`/v1/collation/elections/${electionId}/discrepancies`, { params: { status } }),
 
+  reportDiscrepancy: (sheetId: string, data: {
+    discrepancy_type: string
+    expected_value?: string
+    actual_value?: string
+    description: string
+  }) => apiClient.post(`/v1/collation/sheets/${sheetId}/discrepancies`, data),
+
   resolveDiscrepancy: (discrepancyId: string, resolutionNotes: string) =>
     apiClient.post(`/v1/collation/discrepancies/${discrepancyId}/resolve`, { resolution_notes: resolutionNotes }),
 }
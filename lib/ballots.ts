@@ -0,0 +1,406 @@
+/**
+ * Ballots
+ *
+ * Laying out an election's contests for the voter, turning their choices into
+ * `CastVotesInput`, and tallying ranked-choice ballots by instant runoff. A
+ * ballot for one contest (a position, or a poll's options) is the list of
+ * chosen IDs: in preference order for ranked choice, in any order otherwise.
+ */
+
+import type {
+  CastVotesInput,
+  Election,
+  PublicElection,
+  RankedChoiceRound,
+  VoteSelection,
+  VotingMethod,
+} from "./types"
+
+/** Chosen candidate or poll option IDs, keyed by contest ID */
+export type BallotSelections = Record<string, string[]>
+
+/** Names written in, keyed by contest ID */
+export type BallotWriteIns = Record<string, string>
+
+export interface BallotContest {
+  /** Position ID, or any stable key for a poll's options */
+  id: string
+  type: "position" | "poll"
+  title: string
+  max_selections?: number
+  choices: { id: string }[]
+  /** Voters may write in a name, selected as `WRITE_IN_CHOICE_ID` */
+  allow_write_in?: boolean
+}
+
+/** Stands in a selection for the contest's written-in name */
+export const WRITE_IN_CHOICE_ID = "write-in"
+
+export const WRITE_IN_MAX_LENGTH = 100
+
+export interface IrvCandidate {
+  candidate_id: string
+  name: string
+}
+
+export interface IrvElimination {
+  round: number
+  candidate_id: string
+  /** Last place was tied and settled by the tie-break rules */
+  tiebreak: boolean
+}
+
+export interface InstantRunoffResult {
+  rounds: RankedChoiceRound[]
+  eliminations: IrvElimination[]
+  /** Ballots with no continuing candidate left, per round */
+  exhausted: number[]
+  winner_id: string | null
+}
+
+//=============================================================================
+// Contests
+//=============================================================================
+
+const POLL_CONTEST_ID = "poll"
+
+/** One contest per position, or a single contest for a poll's options */
+export function getBallotContests(
+  election: Pick<
+    PublicElection,
+    "election_type" | "title" | "positions" | "poll_options" | "settings"
+  >
+): BallotContest[] {
+  if (election.election_type === "poll") {
+    return [
+      {
+        id: POLL_CONTEST_ID,
+        type: "poll",
+        title: election.title,
+        choices: election.poll_options,
+      },
+    ]
+  }
+  return election.positions.map((position) => ({
+    id: position.id,
+    type: "position",
+    title: position.title,
+    max_selections: position.max_selections,
+    choices: position.candidates,
+    allow_write_in: !!election.settings?.allow_write_in,
+  }))
+}
+
+/**
+ * Shuffle a contest's choices into an order fixed by the seed, so one voter
+ * sees the same order on every render while voters as a whole don't all see
+ * the first-listed candidate first
+ */
+export function shuffleChoices<T>(choices: T[], seed: string): T[] {
+  // FNV-1a hash of the seed feeding a mulberry32 generator
+  let state = 2166136261
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619)
+  }
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), state | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  const shuffled = [...choices]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    const swap = shuffled[i]
+    shuffled[i] = shuffled[j]
+    shuffled[j] = swap
+  }
+  return shuffled
+}
+
+/**
+ * The ballot voters would get for an election, built from the admin view so
+ * a draft can be previewed before it is published
+ */
+export function toPublicElection(election: Election): PublicElection {
+  const byDisplayOrder = (a: { display_order: number }, b: { display_order: number }) =>
+    a.display_order - b.display_order
+
+  return {
+    id: election.id,
+    title: election.title,
+    description: election.description,
+    election_type: election.election_type,
+    voting_method: election.voting_method,
+    verification_level: election.verification_level,
+    require_national_id: election.require_national_id,
+    require_phone_otp: election.require_phone_otp,
+    status: election.status,
+    start_date: election.start_date,
+    end_date: election.end_date,
+    branding: election.branding,
+    settings: {
+      allow_write_in: election.settings?.allow_write_in,
+      randomize_candidates: election.settings?.randomize_candidates,
+      show_party_affiliation: election.settings?.show_party_affiliation,
+    },
+    positions: [...(election.positions ?? [])].sort(byDisplayOrder).map((position) => ({
+      id: position.id,
+      title: position.title,
+      description: position.description,
+      max_selections: position.max_selections,
+      candidates: [...(position.candidates ?? [])]
+        .sort(byDisplayOrder)
+        .map(({ id, name, photo_url, party, bio, manifesto }) => ({
+          id,
+          name,
+          photo_url,
+          party,
+          bio,
+          manifesto,
+        })),
+    })),
+    poll_options: [...(election.poll_options ?? [])]
+      .sort(byDisplayOrder)
+      .map(({ id, option_text, description }) => ({ id, option_text, description })),
+  }
+}
+
+//=============================================================================
+// Casting
+//=============================================================================
+
+/**
+ * How many choices a voter may mark in a contest, counting a write-in as a
+ * choice. Ranked ballots may rank every choice; multi-choice ballots are
+ * capped by `max_selections`.
+ */
+export function getMaxSelections(method: VotingMethod, contest: BallotContest): number {
+  const available = contest.choices.length + (contest.allow_write_in ? 1 : 0)
+  if (method === "single_choice") return Math.min(1, available)
+  if (method === "ranked_choice") return available
+  return Math.min(Math.max(contest.max_selections ?? available, 1), available)
+}
+
+/**
+ * Tick or untick a multi-choice option; ticking past the limit is ignored
+ */
+export function toggleSelection(selected: string[], choiceId: string, max: number): string[] {
+  if (selected.includes(choiceId)) return selected.filter((id) => id !== choiceId)
+  if (selected.length >= max) return selected
+  return [...selected, choiceId]
+}
+
+/**
+ * Give a choice a rank (1 = first preference) in a ranking, shifting the
+ * choices below it down; a null rank removes it from the ranking
+ */
+export function setRank(ranking: string[], choiceId: string, rank: number | null): string[] {
+  const next = ranking.filter((id) => id !== choiceId)
+  if (rank === null) return next
+  next.splice(Math.min(Math.max(rank, 1), next.length + 1) - 1, 0, choiceId)
+  return next
+}
+
+/**
+ * Check one contest's selection, returning an error message or null.
+ * Leaving a contest blank is allowed.
+ */
+export function validateBallot(
+  method: VotingMethod,
+  contest: BallotContest,
+  selected: string[],
+  writeIn?: string
+): string | null {
+  const known = new Set(contest.choices.map((choice) => choice.id))
+  if (contest.allow_write_in) known.add(WRITE_IN_CHOICE_ID)
+  const max = getMaxSelections(method, contest)
+
+  if (new Set(selected).size !== selected.length) {
+    return `${contest.title}: each choice can only be marked once`
+  }
+  if (selected.some((id) => !known.has(id))) {
+    return `${contest.title}: the ballot contains an unknown choice`
+  }
+  if (selected.length > max) {
+    return `${contest.title}: select at most ${max}`
+  }
+  if (selected.includes(WRITE_IN_CHOICE_ID)) {
+    const name = writeIn?.trim() ?? ""
+    if (!name) return `${contest.title}: enter the name you want to write in`
+    if (name.length > WRITE_IN_MAX_LENGTH) {
+      return `${contest.title}: write-in names can be at most ${WRITE_IN_MAX_LENGTH} characters`
+    }
+  }
+  return null
+}
+
+/**
+ * Build the request body for casting votes. Ranked ballots number their
+ * choices from 1 in the order given; a write-in carries its name in place
+ * of a candidate ID.
+ */
+export function buildCastVotesInput(
+  method: VotingMethod,
+  contests: BallotContest[],
+  selections: BallotSelections,
+  voterToken?: string,
+  writeIns: BallotWriteIns = {}
+): CastVotesInput {
+  const votes: VoteSelection[] = []
+
+  contests.forEach((contest) => {
+    const selected =
+      method === "single_choice"
+        ? (selections[contest.id] ?? []).slice(0, 1)
+        : (selections[contest.id] ?? [])
+
+    selected.forEach((choiceId, index) => {
+      const vote: VoteSelection =
+        contest.type === "poll"
+          ? { poll_option_id: choiceId }
+          : choiceId === WRITE_IN_CHOICE_ID
+            ? { position_id: contest.id, write_in: writeIns[contest.id]?.trim() }
+            : { position_id: contest.id, candidate_id: choiceId }
+      if (method === "ranked_choice") vote.rank = index + 1
+      votes.push(vote)
+    })
+  })
+
+  return voterToken ? { votes, voter_token: voterToken } : { votes }
+}
+
+//=============================================================================
+// Instant runoff
+//=============================================================================
+
+/**
+ * Read one contest's ranking from a cast ballot's votes. Pass a position ID
+ * to pick that position's votes; without one, poll option votes are used.
+ * Write-ins have no candidate ID and are skipped, so the count moves on to
+ * the voter's next preference.
+ */
+export function toRankedBallot(votes: VoteSelection[], positionId?: string): string[] {
+  return votes
+    .filter((vote) => (positionId ? vote.position_id === positionId : !!vote.poll_option_id))
+    .map((vote, index) => ({
+      id: (positionId ? vote.candidate_id : vote.poll_option_id) as string,
+      rank: vote.rank ?? Number.MAX_SAFE_INTEGER,
+      index,
+    }))
+    .filter((entry) => !!entry.id)
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map((entry) => entry.id)
+}
+
+function roundPercentage(votes: number, total: number): number {
+  return total > 0 ? Math.round((votes / total) * 10000) / 100 : 0
+}
+
+/**
+ * Tally ranked ballots by instant runoff.
+ *
+ * Each round counts every ballot for its highest-ranked continuing
+ * candidate. A candidate with more than half of the non-exhausted ballots
+ * wins; otherwise the candidate with the fewest votes is eliminated. Ties
+ * for last place go to the candidate who had fewer votes in the most recent
+ * earlier round that separates them, and failing that to the candidate
+ * listed last. Unknown IDs and repeated rankings on a ballot are ignored.
+ */
+export function tabulateInstantRunoff(
+  ballots: string[][],
+  candidates: IrvCandidate[]
+): InstantRunoffResult {
+  const listOrder = new Map(candidates.map((candidate, index) => [candidate.candidate_id, index]))
+  const names = new Map(candidates.map((candidate) => [candidate.candidate_id, candidate.name]))
+  const rankings = ballots.map((ballot) =>
+    Array.from(new Set(ballot)).filter((id) => listOrder.has(id))
+  )
+
+  const result: InstantRunoffResult = {
+    rounds: [],
+    eliminations: [],
+    exhausted: [],
+    winner_id: null,
+  }
+  const continuing = new Set(listOrder.keys())
+  const history: Map<string, number>[] = []
+
+  while (continuing.size > 0) {
+    const counts = new Map(Array.from(continuing, (id) => [id, 0]))
+    let exhausted = 0
+
+    rankings.forEach((ranking) => {
+      const top = ranking.find((id) => continuing.has(id))
+      if (top) counts.set(top, (counts.get(top) ?? 0) + 1)
+      else exhausted++
+    })
+
+    const active = rankings.length - exhausted
+    const standings = Array.from(counts.entries()).sort(
+      ([a, aVotes], [b, bVotes]) => bVotes - aVotes || listOrder.get(a)! - listOrder.get(b)!
+    )
+    const round = result.rounds.length + 1
+
+    history.push(counts)
+    result.exhausted.push(exhausted)
+    result.rounds.push({
+      round,
+      candidates: standings.map(([id, votes]) => ({
+        candidate_id: id,
+        name: names.get(id) ?? id,
+        votes,
+        percentage: roundPercentage(votes, active),
+      })),
+    })
+
+    if (active === 0) break
+    const [leaderId, leaderVotes] = standings[0]
+    if (continuing.size === 1 || leaderVotes * 2 > active) {
+      result.winner_id = leaderId
+      break
+    }
+
+    const fewest = standings[standings.length - 1][1]
+    let tied = standings.filter(([, votes]) => votes === fewest).map(([id]) => id)
+    const tiebreak = tied.length > 1
+
+    for (let earlier = history.length - 2; earlier >= 0 && tied.length > 1; earlier--) {
+      const earlierCounts = history[earlier]
+      const least = Math.min(...tied.map((id) => earlierCounts.get(id) ?? 0))
+      tied = tied.filter((id) => (earlierCounts.get(id) ?? 0) === least)
+    }
+    const eliminated = tied.sort((a, b) => listOrder.get(b)! - listOrder.get(a)!)[0]
+
+    result.eliminations.push({ round, candidate_id: eliminated, tiebreak })
+    continuing.delete(eliminated)
+  }
+
+  return result
+}
+
+/**
+ * Compare reported rounds against a recount, returning the first round
+ * whose counts differ, or null when they agree
+ */
+export function findRoundMismatch(
+  reported: RankedChoiceRound[],
+  recounted: RankedChoiceRound[]
+): number | null {
+  const length = Math.max(reported.length, recounted.length)
+  for (let index = 0; index < length; index++) {
+    const a = reported[index]
+    const b = recounted[index]
+    if (!a || !b) return index + 1
+
+    const votesById = new Map(
+      a.candidates.map((candidate) => [candidate.candidate_id, candidate.votes])
+    )
+    const differs =
+      a.candidates.length !== b.candidates.length ||
+      b.candidates.some((candidate) => votesById.get(candidate.candidate_id) !== candidate.votes)
+    if (differs) return index + 1
+  }
+  return null
+}
@@ -0,0 +1,576 @@
+/**
+ * Form Codebook
+ *
+ * Builds a field-level data dictionary for a form from its fields, options,
+ * validation, conditional rules, page conditions and version history, so
+ * exported responses can be analysed without opening the form builder. Each
+ * variable lists its label, type, allowed values with their stored codes,
+ * validation, skip logic in plain language, and the versions in which it was
+ * introduced or changed.
+ *
+ * Fields inside repeating groups are listed as `<group id>.<child id>`, the
+ * same addressing used by `lib/form-schema-diff.ts`.
+ */
+
+import type { Form, FormField } from "./types"
+import type { Condition, ConditionalActionType, ConditionalRule, FormPage } from "./types-extended"
+import type { ExportValidationRule } from "./form-export"
+import { diffFormSchemas } from "./form-schema-diff"
+import { writePdf, type PdfBlock } from "./pdf"
+
+/**
+ * A stored snapshot of the form's fields (see `FormVersion`)
+ */
+export interface CodebookVersion {
+  version: number
+  fields: FormField[]
+}
+
+export interface CodebookValue {
+  code: string
+  label: string
+}
+
+export interface CodebookChange {
+  version: number
+  description: string
+}
+
+export interface CodebookEntry {
+  /** Field ID, or `<group id>.<child id>` inside a repeating group */
+  variable: string
+  label: string
+  type: FormField["type"]
+  typeLabel: string
+  required: boolean
+  description?: string
+  page?: string
+  values: CodebookValue[]
+  validation: string[]
+  /** Skip logic and other rule effects, in plain language */
+  skipLogic: string[]
+  calculation?: string
+  /** First version containing the field; null if it hasn't been versioned yet */
+  introducedIn: number | null
+  changes: CodebookChange[]
+}
+
+export interface Codebook {
+  formId: string
+  title: string
+  description?: string
+  version: number
+  generatedAt: string
+  entries: CodebookEntry[]
+}
+
+const TYPE_LABELS: Record<FormField["type"], string> = {
+  text: "Text",
+  textarea: "Long text",
+  email: "Email address",
+  number: "Number",
+  date: "Date",
+  select: "Single choice (dropdown)",
+  radio: "Single choice",
+  checkbox: "Multiple choice",
+  gps: "GPS location",
+  file: "File upload",
+  phone: "Phone number",
+  url: "URL",
+  color: "Colour",
+  range: "Slider",
+  rating: "Rating",
+  signature: "Signature",
+  calculated: "Calculated",
+  group: "Group",
+}
+
+const CHOICE_TYPES: FormField["type"][] = ["select", "radio", "checkbox"]
+
+//=============================================================================
+// Plain-language logic
+//=============================================================================
+
+interface FieldInfo {
+  field: FormField
+  path: string
+}
+
+function flattenFields(fields: FormField[], prefix = ""): FieldInfo[] {
+  return fields.flatMap((field) => {
+    const path = prefix ? `${prefix}.${field.id}` : field.id
+    const children = field.type === "group" && field.fields ? flattenFields(field.fields, path) : []
+    return [{ field, path }, ...children]
+  })
+}
+
+function quote(text: string): string {
+  return `"${text}"`
+}
+
+function describeValue(value: unknown, field: FormField | undefined): string {
+  if (Array.isArray(value)) {
+    return value.map((item) => describeValue(item, field)).join(", ")
+  }
+  const option = field?.options?.find((candidate) => candidate.value === String(value))
+  if (option) {
+    return option.label === option.value
+      ? quote(option.label)
+      : `${quote(option.label)} (${option.value})`
+  }
+  return typeof value === "number" || typeof value === "boolean"
+    ? String(value)
+    : quote(String(value))
+}
+
+/**
+ * Describe a condition, e.g. `"Age" is greater than 17`
+ */
+export function describeCondition(
+  condition: Pick<Condition, "field_id" | "operator" | "value" | "value_type">,
+  fieldsById: Map<string, FormField>
+): string {
+  const field = fieldsById.get(condition.field_id)
+  const subject = quote(field?.label ?? condition.field_id)
+  const value =
+    condition.value_type === "field"
+      ? quote(fieldsById.get(String(condition.value))?.label ?? String(condition.value))
+      : condition.value_type === "variable"
+        ? `the variable ${String(condition.value)}`
+        : describeValue(condition.value, field)
+  const multiple = field?.type === "checkbox"
+
+  switch (condition.operator) {
+    case "equals":
+      return `${subject} ${multiple ? "includes" : "is"} ${value}`
+    case "not_equals":
+      return `${subject} ${multiple ? "does not include" : "is not"} ${value}`
+    case "greater_than":
+      return `${subject} is greater than ${value}`
+    case "less_than":
+      return `${subject} is less than ${value}`
+    case "greater_than_or_equal":
+      return `${subject} is at least ${value}`
+    case "less_than_or_equal":
+      return `${subject} is at most ${value}`
+    case "contains":
+      return `${subject} ${multiple ? "includes" : "contains"} ${value}`
+    case "not_contains":
+      return `${subject} ${multiple ? "does not include" : "does not contain"} ${value}`
+    case "starts_with":
+      return `${subject} starts with ${value}`
+    case "ends_with":
+      return `${subject} ends with ${value}`
+    case "in":
+      return `${subject} is one of ${value}`
+    case "not_in":
+      return `${subject} is none of ${value}`
+    case "is_empty":
+      return `${subject} is not answered`
+    case "is_not_empty":
+      return `${subject} is answered`
+    case "matches_regex":
+      return `${subject} matches the pattern ${String(condition.value)}`
+  }
+}
+
+function describeConditions(
+  conditions: Condition[],
+  joiner: "AND" | "OR",
+  fieldsById: Map<string, FormField>
+): string {
+  if (conditions.length === 0) return "always"
+  return conditions
+    .map((condition) => describeCondition(condition, fieldsById))
+    .join(joiner === "AND" ? " and " : " or ")
+}
+
+function describeAction(
+  type: ConditionalActionType,
+  parameters: Record<string, any>,
+  when: string
+): string {
+  switch (type) {
+    case "show":
+      return `Shown when ${when}`
+    case "hide":
+      return `Hidden when ${when}`
+    case "enable":
+      return `Enabled when ${when}`
+    case "disable":
+      return `Disabled when ${when}`
+    case "set_required":
+      return `Required when ${when}`
+    case "set_optional":
+      return `Optional when ${when}`
+    case "set_value":
+      return `Set to ${describeValue(parameters.value, undefined)} when ${when}`
+    case "calculate":
+      return `Calculated as ${parameters.formula ?? "a formula"} when ${when}`
+    case "set_options":
+      return `Choices change when ${when}`
+    case "validate":
+      return `Checked when ${when}${parameters.message ? `: ${quote(parameters.message)}` : ""}`
+    case "show_message":
+      return `Shows a message when ${when}`
+  }
+}
+
+function describePage(page: FormPage, fieldsById: Map<string, FormField>): string | null {
+  if (!page.show_conditions?.length) return null
+  const name = page.title ? `Page ${quote(page.title)}` : "Its page"
+  return `${name} is shown only when ${describeConditions(page.show_conditions, "AND", fieldsById)}`
+}
+
+//=============================================================================
+// Values and validation
+//=============================================================================
+
+function fieldValues(field: FormField): CodebookValue[] {
+  if (!CHOICE_TYPES.includes(field.type)) return []
+  return (field.options ?? []).map((option) => ({ code: option.value, label: option.label }))
+}
+
+function describeValidationRule(rule: ExportValidationRule): string {
+  const value = rule.parameters?.value
+
+  switch (rule.rule_type) {
+    case "required":
+      return "Required"
+    case "min_length":
+      return `At least ${value} characters`
+    case "max_length":
+      return `At most ${value} characters`
+    case "min_value":
+      return `At least ${value}`
+    case "max_value":
+      return `At most ${value}`
+    case "pattern":
+      return `Must match the pattern ${value ?? rule.parameters?.pattern}`
+    case "email":
+      return "Must be a valid email address"
+    case "url":
+      return "Must be a valid URL"
+    case "phone":
+      return "Must be a valid phone number"
+    case "unique":
+      return "Must be unique across responses"
+    default:
+      return rule.error_message
+        ? `${rule.rule_type.replace(/_/g, " ")}: ${quote(rule.error_message)}`
+        : rule.rule_type.replace(/_/g, " ")
+  }
+}
+
+function fieldValidation(field: FormField, rules: ExportValidationRule[]): string[] {
+  const descriptions: string[] = []
+  const { validation } = field
+  const min = validation?.min ?? field.min
+  const max = validation?.max ?? field.max
+
+  if (validation?.minLength !== undefined) {
+    descriptions.push(`At least ${validation.minLength} characters`)
+  }
+  if (validation?.maxLength !== undefined) {
+    descriptions.push(`At most ${validation.maxLength} characters`)
+  }
+  if (min !== undefined && max !== undefined) descriptions.push(`Between ${min} and ${max}`)
+  else if (min !== undefined) descriptions.push(`At least ${min}`)
+  else if (max !== undefined) descriptions.push(`At most ${max}`)
+  if (field.step !== undefined && (field.type === "range" || field.type === "number")) {
+    descriptions.push(`In steps of ${field.step}`)
+  }
+  if (validation?.pattern) descriptions.push(`Must match the pattern ${validation.pattern}`)
+  if (field.type === "file" && field.accept) descriptions.push(`Accepted files: ${field.accept}`)
+  if (field.allowOther) descriptions.push("Other answers may be entered as free text")
+  if (field.type === "checkbox") descriptions.push("Several values may be selected")
+  if (field.type === "group" && field.repeatable) {
+    const bounds = [
+      field.minRepeats !== undefined ? `at least ${field.minRepeats}` : null,
+      field.maxRepeats !== undefined ? `at most ${field.maxRepeats}` : null,
+    ].filter(Boolean)
+    descriptions.push(`Repeats${bounds.length ? ` ${bounds.join(" and ")} times` : ""}`)
+  }
+
+  rules
+    .filter((rule) => rule.enabled !== false && rule.rule_type !== "required")
+    .forEach((rule) => descriptions.push(describeValidationRule(rule)))
+
+  return Array.from(new Set(descriptions))
+}
+
+//=============================================================================
+// Version history
+//=============================================================================
+
+function fieldHistory(versions: CodebookVersion[]) {
+  const introduced = new Map<string, number>()
+  const changes = new Map<string, CodebookChange[]>()
+  const sorted = [...versions].sort((a, b) => a.version - b.version)
+
+  sorted.forEach((snapshot, index) => {
+    if (index === 0) {
+      flattenFields(snapshot.fields).forEach(({ path }) => introduced.set(path, snapshot.version))
+      return
+    }
+
+    diffFormSchemas(sorted[index - 1].fields, snapshot.fields).forEach((change) => {
+      if (change.kind === "field_added" && !introduced.has(change.fieldPath)) {
+        introduced.set(change.fieldPath, snapshot.version)
+        return
+      }
+      const description =
+        change.kind === "field_added"
+          ? "Added again"
+          : change.kind === "field_removed"
+            ? "Removed"
+            : change.description
+      changes.set(change.fieldPath, [
+        ...(changes.get(change.fieldPath) ?? []),
+        { version: snapshot.version, description },
+      ])
+    })
+  })
+
+  return { introduced, changes }
+}
+
+//=============================================================================
+// Building
+//=============================================================================
+
+/**
+ * Build the data dictionary for a form's current fields
+ */
+export function buildCodebook(
+  form: Form,
+  versions: CodebookVersion[],
+  conditionalRules: ConditionalRule[],
+  validationRules: ExportValidationRule[],
+  generatedAt = new Date().toISOString()
+): Codebook {
+  const fields = flattenFields(form.schema.fields)
+  const fieldsById = new Map(fields.map(({ field }) => [field.id, field]))
+  const { introduced, changes } = fieldHistory(versions)
+
+  const pageByField = new Map<string, FormPage>()
+  ;(form.schema.pages ?? []).forEach((page) =>
+    page.fields.forEach((id) => {
+      if (!pageByField.has(id)) pageByField.set(id, page)
+    })
+  )
+
+  const rules = [...conditionalRules]
+    .filter((rule) => rule.enabled)
+    .sort((a, b) => b.priority - a.priority)
+
+  const entries = fields.map(({ field, path }): CodebookEntry => {
+    const topLevelId = path.split(".")[0]
+    const page = pageByField.get(topLevelId)
+    const fieldRules = validationRules.filter((rule) => rule.field_id === field.id)
+
+    const skipLogic: string[] = []
+    const pageLogic = page && describePage(page, fieldsById)
+    if (pageLogic) skipLogic.push(pageLogic)
+    rules.forEach((rule) => {
+      const when = describeConditions(rule.conditions, rule.logic_operator, fieldsById)
+      rule.actions
+        .filter((action) => action.target_field_ids.includes(field.id))
+        .forEach((action) =>
+          skipLogic.push(describeAction(action.type, action.parameters ?? {}, when))
+        )
+    })
+
+    return {
+      variable: path,
+      label: field.label,
+      type: field.type,
+      typeLabel:
+        field.type === "group" && field.repeatable ? "Repeating group" : TYPE_LABELS[field.type],
+      required:
+        field.required ||
+        fieldRules.some((rule) => rule.enabled !== false && rule.rule_type === "required"),
+      description: field.helpText || undefined,
+      page: page?.title || undefined,
+      values: fieldValues(field),
+      validation: fieldValidation(field, fieldRules),
+      skipLogic,
+      calculation: field.type === "calculated" ? field.formula : undefined,
+      introducedIn: introduced.get(path) ?? null,
+      changes: changes.get(path) ?? [],
+    }
+  })
+
+  return {
+    formId: form.id,
+    title: form.title,
+    description: form.description || undefined,
+    version: form.version,
+    generatedAt,
+    entries,
+  }
+}
+
+//=============================================================================
+// Serialization
+//=============================================================================
+
+/**
+ * One-line summary of when a variable was introduced and changed
+ */
+export function describeHistory(entry: Pick<CodebookEntry, "introducedIn" | "changes">): string {
+  const introduced =
+    entry.introducedIn === null
+      ? "Not yet in a saved version"
+      : `Introduced in v${entry.introducedIn}`
+  const changed = Array.from(new Set(entry.changes.map((change) => change.version)))
+  return changed.length > 0
+    ? `${introduced}; changed in ${changed.map((version) => `v${version}`).join(", ")}`
+    : introduced
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ")
+}
+
+/**
+ * Render the codebook as Markdown: a summary table, then one section per
+ * variable
+ */
+export function codebookToMarkdown(codebook: Codebook): string {
+  const lines = [
+    `# ${codebook.title} — Data dictionary`,
+    "",
+    `Form version ${codebook.version} · generated ${codebook.generatedAt}`,
+  ]
+  if (codebook.description) lines.push("", codebook.description)
+
+  lines.push(
+    "",
+    "| Variable | Label | Type | Required | Introduced |",
+    "| --- | --- | --- | --- | --- |",
+    ...codebook.entries.map(
+      (entry) =>
+        `| \`${entry.variable}\` | ${escapeMarkdownCell(entry.label)} | ${entry.typeLabel} | ${
+          entry.required ? "Yes" : "No"
+        } | ${entry.introducedIn === null ? "—" : `v${entry.introducedIn}`} |`
+    )
+  )
+
+  codebook.entries.forEach((entry) => {
+    lines.push("", `## \`${entry.variable}\` — ${entry.label}`, "")
+    if (entry.description) lines.push(entry.description, "")
+    lines.push(`- **Type:** ${entry.typeLabel} (\`${entry.type}\`)`)
+    lines.push(`- **Required:** ${entry.required ? "Yes" : "No"}`)
+    if (entry.page) lines.push(`- **Page:** ${entry.page}`)
+    if (entry.calculation) lines.push(`- **Calculation:** \`${entry.calculation}\``)
+    if (entry.validation.length > 0) lines.push(`- **Validation:** ${entry.validation.join("; ")}`)
+    if (entry.skipLogic.length > 0) lines.push(`- **Skip logic:** ${entry.skipLogic.join("; ")}`)
+    lines.push(`- **History:** ${describeHistory(entry)}`)
+    entry.changes.forEach((change) => lines.push(`  - v${change.version}: ${change.description}`))
+
+    if (entry.values.length > 0) {
+      lines.push(
+        "",
+        "| Code | Label |",
+        "| --- | --- |",
+        ...entry.values.map((value) => `| \`${value.code}\` | ${escapeMarkdownCell(value.label)} |`)
+      )
+    }
+  })
+
+  return `${lines.join("\n")}\n`
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export const CODEBOOK_CSV_COLUMNS = [
+  "variable",
+  "label",
+  "type",
+  "required",
+  "values",
+  "validation",
+  "skip_logic",
+  "calculation",
+  "introduced_in",
+  "changed_in",
+  "page",
+  "description",
+]
+
+/**
+ * Render the codebook as CSV, one row per variable. Values are written as
+ * `code=label` pairs separated by semicolons.
+ */
+export function codebookToCsv(codebook: Codebook): string {
+  const rows = codebook.entries.map((entry) => [
+    entry.variable,
+    entry.label,
+    entry.type,
+    entry.required ? "yes" : "no",
+    entry.values.map((value) => `${value.code}=${value.label}`).join("; "),
+    entry.validation.join("; "),
+    entry.skipLogic.join("; "),
+    entry.calculation ?? "",
+    entry.introducedIn === null ? "" : String(entry.introducedIn),
+    Array.from(new Set(entry.changes.map((change) => change.version))).join("; "),
+    entry.page ?? "",
+    entry.description ?? "",
+  ])
+
+  return `${[CODEBOOK_CSV_COLUMNS, ...rows]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n")}\r\n`
+}
+
+/**
+ * Render the codebook as a PDF document
+ */
+export function codebookToPdf(codebook: Codebook): Uint8Array {
+  const blocks: PdfBlock[] = [
+    { type: "heading", text: `${codebook.title} — Data dictionary` },
+    {
+      type: "text",
+      text: `Form version ${codebook.version} · generated ${codebook.generatedAt}`,
+      muted: true,
+    },
+  ]
+  if (codebook.description) blocks.push({ type: "text", text: codebook.description })
+
+  codebook.entries.forEach((entry) => {
+    blocks.push({ type: "subheading", text: `${entry.variable} — ${entry.label}` })
+    if (entry.description) blocks.push({ type: "text", text: entry.description, muted: true })
+    blocks.push({ type: "definition", term: "Type", text: `${entry.typeLabel} (${entry.type})` })
+    blocks.push({ type: "definition", term: "Required", text: entry.required ? "Yes" : "No" })
+    if (entry.page) blocks.push({ type: "definition", term: "Page", text: entry.page })
+    if (entry.values.length > 0) {
+      blocks.push({
+        type: "definition",
+        term: "Values",
+        text: entry.values.map((value) => `${value.code} = ${value.label}`).join("\n"),
+      })
+    }
+    if (entry.calculation) {
+      blocks.push({ type: "definition", term: "Calculation", text: entry.calculation })
+    }
+    if (entry.validation.length > 0) {
+      blocks.push({ type: "definition", term: "Validation", text: entry.validation.join("\n") })
+    }
+    if (entry.skipLogic.length > 0) {
+      blocks.push({ type: "definition", term: "Skip logic", text: entry.skipLogic.join("\n") })
+    }
+    blocks.push({
+      type: "definition",
+      term: "History",
+      text: [
+        describeHistory(entry),
+        ...entry.changes.map((change) => `v${change.version}: ${change.description}`),
+      ].join("\n"),
+    })
+  })
+
+  return writePdf({ title: `${codebook.title} — Data dictionary`, blocks })
+}
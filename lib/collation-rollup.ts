@@ -0,0 +1,212 @@
+/**
+ * Collation Roll-up
+ *
+ * Helpers behind the collation roll-up explorer: matching polling stations to
+ * their result sheets, counting sheet statuses up the geographic hierarchy
+ * (polling station → electoral area → constituency → region → national) and
+ * grouping aggregated candidate totals by contest.
+ */
+
+import type {
+  AggregatedResults,
+  PollingStation,
+  ResultSheet,
+  ResultSheetStatus,
+  SubmissionProgress,
+} from "./types"
+
+export type RollupLevel = "national" | "region" | "constituency" | "electoral_area"
+
+/** A station's sheet status, or `missing` when no sheet has been created */
+export type StationSheetStatus = ResultSheetStatus | "missing"
+
+export interface StationProgress {
+  station: PollingStation
+  sheet?: ResultSheet
+  status: StationSheetStatus
+}
+
+export interface RollupCounts {
+  total_stations: number
+  missing: number
+  drafts: number
+  submitted: number
+  verified: number
+  approved: number
+  certified: number
+}
+
+export interface ContestTotals {
+  id: string
+  title: string
+  total_votes: number
+  rows: {
+    id: string
+    name: string
+    party?: string
+    total_votes: number
+  }[]
+}
+
+/** Child level shown when drilling into each level */
+export const ROLLUP_CHILD_LEVEL: Record<RollupLevel, RollupLevel | "polling_station"> = {
+  national: "region",
+  region: "constituency",
+  constituency: "electoral_area",
+  electoral_area: "polling_station",
+}
+
+const STATUS_ORDER: StationSheetStatus[] = [
+  "missing",
+  "draft",
+  "submitted",
+  "verified",
+  "approved",
+  "certified",
+]
+
+//=============================================================================
+// Stations
+//=============================================================================
+
+/**
+ * Pair each station with its polling station sheet. When a station has more
+ * than one sheet (e.g. a rejected draft was re-created) the furthest along
+ * in the workflow wins.
+ */
+export function getStationProgress(
+  stations: PollingStation[],
+  sheets: ResultSheet[]
+): StationProgress[] {
+  const sheetsByStation = new Map<string, ResultSheet>()
+  sheets.forEach((sheet) => {
+    if (sheet.sheet_type !== "polling_station" || !sheet.polling_station_id) return
+    const existing = sheetsByStation.get(sheet.polling_station_id)
+    if (!existing || STATUS_ORDER.indexOf(sheet.status) > STATUS_ORDER.indexOf(existing.status)) {
+      sheetsByStation.set(sheet.polling_station_id, sheet)
+    }
+  })
+
+  return stations.map((station) => {
+    const sheet = sheetsByStation.get(station.id)
+    return { station, sheet, status: sheet?.status ?? "missing" }
+  })
+}
+
+/**
+ * Whether a station still needs results entered: no sheet yet, or a draft
+ * that hasn't been submitted
+ */
+export function isStationGap(progress: StationProgress): boolean {
+  return progress.status === "missing" || progress.status === "draft"
+}
+
+//=============================================================================
+// Counts
+//=============================================================================
+
+export function emptyRollupCounts(): RollupCounts {
+  return {
+    total_stations: 0,
+    missing: 0,
+    drafts: 0,
+    submitted: 0,
+    verified: 0,
+    approved: 0,
+    certified: 0,
+  }
+}
+
+function countStatus(counts: RollupCounts, status: StationSheetStatus): void {
+  counts.total_stations += 1
+  if (status === "missing") counts.missing += 1
+  else if (status === "draft") counts.drafts += 1
+  else counts[status] += 1
+}
+
+/**
+ * Count sheet statuses for stations grouped by `keyOf`, e.g. by electoral
+ * area when viewing a constituency
+ */
+export function rollUpStations(
+  progress: StationProgress[],
+  keyOf: (station: PollingStation) => string
+): Map<string, RollupCounts> {
+  const groups = new Map<string, RollupCounts>()
+  progress.forEach(({ station, status }) => {
+    const key = keyOf(station)
+    let counts = groups.get(key)
+    if (!counts) {
+      counts = emptyRollupCounts()
+      groups.set(key, counts)
+    }
+    countStatus(counts, status)
+  })
+  return groups
+}
+
+/**
+ * Convert the server's submission progress for an area into roll-up counts
+ */
+export function fromSubmissionProgress(progress: SubmissionProgress): RollupCounts {
+  return {
+    total_stations: progress.total_stations,
+    missing: Math.max(progress.total_stations - progress.sheets_created, 0),
+    drafts: progress.drafts,
+    submitted: progress.submitted,
+    verified: progress.verified,
+    approved: progress.approved,
+    certified: progress.certified,
+  }
+}
+
+/**
+ * Stations whose sheet has at least been submitted
+ */
+export function countReported(counts: RollupCounts): number {
+  return counts.submitted + counts.verified + counts.approved + counts.certified
+}
+
+//=============================================================================
+// Candidate totals
+//=============================================================================
+
+/**
+ * Group aggregated results by position (or a single poll contest), with each
+ * contest's rows sorted by votes
+ */
+export function groupContestTotals(results: AggregatedResults["results"]): ContestTotals[] {
+  const contests = new Map<string, ContestTotals>()
+
+  results.forEach((result) => {
+    const contestId = result.position_id ?? "poll"
+    let contest = contests.get(contestId)
+    if (!contest) {
+      contest = {
+        id: contestId,
+        title: result.position_title ?? (result.position_id ? "Position" : "Poll"),
+        total_votes: 0,
+        rows: [],
+      }
+      contests.set(contestId, contest)
+    }
+    contest.total_votes += result.total_votes
+    contest.rows.push({
+      id:
+        result.candidate_id ??
+        result.poll_option_id ??
+        (result.write_in_name ? `write-in:${result.write_in_name}` : String(contest.rows.length)),
+      name:
+        result.candidate_name ??
+        result.option_text ??
+        (result.write_in_name ? `${result.write_in_name} (write-in)` : "Unknown"),
+      party: result.party,
+      total_votes: result.total_votes,
+    })
+  })
+
+  return Array.from(contests.values(), (contest) => ({
+    ...contest,
+    rows: [...contest.rows].sort((a, b) => b.total_votes - a.total_votes),
+  }))
+}
@@ -0,0 +1,499 @@
+/**
+ * Conditional Logic Engine
+ *
+ * Pure client-side evaluator for form conditional rules. Turns the form's
+ * rules and current answers into field states (visible, enabled, required,
+ * options), computed values and rule messages so forms can react live while
+ * the user types, including when the device is offline.
+ *
+ * Evaluation semantics:
+ * - Only enabled rules are evaluated, highest `priority` first.
+ * - A rule's conditions are combined with its `logic_operator` (AND by default);
+ *   a rule without conditions always applies.
+ * - When two rules set the same property of the same field, the higher priority
+ *   rule wins.
+ * - A field targeted by a `show` action is hidden until a rule shows it, and a
+ *   field targeted by an `enable` action is disabled until a rule enables it.
+ * - Values written by `set_value`/`calculate` feed back into the conditions of
+ *   other rules; evaluation repeats until the result is stable.
+ */
+
+import { evaluateFormula } from "./formula"
+import type { FormField, FormFieldOption, FormResponseData } from "./types"
+import type {
+  Condition,
+  ConditionalAction,
+  ConditionalRule,
+  ConditionOperator,
+} from "./types-extended"
+
+export interface FieldLogicState {
+  visible: boolean
+  enabled: boolean
+  required: boolean
+  options?: FormFieldOption[]
+}
+
+export interface LogicMessage {
+  rule_id: string
+  field_id?: string
+  message: string
+  severity: "info" | "warning" | "error"
+}
+
+export interface LogicEvaluationResult {
+  fields: Record<string, FieldLogicState>
+  visible_fields: string[]
+  hidden_fields: string[]
+  required_fields: string[]
+  disabled_fields: string[]
+  calculated_values: Record<string, any>
+  messages: LogicMessage[]
+  errors: Record<string, string>
+  matched_rule_ids: string[]
+}
+
+export interface LogicContext {
+  /** Values for conditions with `value_type: "variable"` */
+  variables?: Record<string, any>
+}
+
+const MAX_PASSES = 10
+
+//=============================================================================
+// Value helpers
+//=============================================================================
+
+export function isEmptyValue(value: any): boolean {
+  if (value === undefined || value === null) return true
+  if (typeof value === "string") return value.trim() === ""
+  if (Array.isArray(value)) return value.length === 0
+  if (typeof value === "object") return Object.keys(value).length === 0
+  return false
+}
+
+function toNumber(value: any): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null
+  if (typeof value === "boolean") return value ? 1 : 0
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value)
+    return Number.isFinite(parsed) ? parsed : null
+  }
+  return null
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/
+
+function toDate(value: any): number | null {
+  if (typeof value !== "string" || !ISO_DATE.test(value)) return null
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? null : time
+}
+
+function toList(value: any): any[] {
+  if (Array.isArray(value)) return value
+  if (typeof value === "string") {
+    return value
+      .split(",")
+      .map((item) => item.trim())
+      .filter((item) => item !== "")
+  }
+  return isEmptyValue(value) ? [] : [value]
+}
+
+function looseEquals(a: any, b: any): boolean {
+  if (a === b) return true
+  if (isEmptyValue(a) && isEmptyValue(b)) return true
+  const numA = toNumber(a)
+  const numB = toNumber(b)
+  if (numA !== null && numB !== null) return numA === numB
+  if (typeof a === "boolean" || typeof b === "boolean") {
+    return String(a).toLowerCase() === String(b).toLowerCase()
+  }
+  if (typeof a === "object" || typeof b === "object") {
+    return JSON.stringify(a) === JSON.stringify(b)
+  }
+  return String(a) === String(b)
+}
+
+function compare(actual: any, expected: any): number | null {
+  const dateA = toDate(actual)
+  const dateB = toDate(expected)
+  if (dateA !== null && dateB !== null) return dateA - dateB
+
+  const numA = toNumber(actual)
+  const numB = toNumber(expected)
+  if (numA !== null && numB !== null) return numA - numB
+
+  return null
+}
+
+function textContains(haystack: any, needle: any): boolean {
+  if (Array.isArray(haystack)) return haystack.some((item) => looseEquals(item, needle))
+  if (isEmptyValue(haystack)) return false
+  return String(haystack)
+    .toLowerCase()
+    .includes(String(needle ?? "").toLowerCase())
+}
+
+//=============================================================================
+// Conditions
+//=============================================================================
+
+/**
+ * Evaluate a single operator against an actual and expected value
+ */
+export function evaluateOperator(operator: ConditionOperator, actual: any, expected: any): boolean {
+  switch (operator) {
+    case "equals":
+      return Array.isArray(actual) && !Array.isArray(expected)
+        ? actual.some((item) => looseEquals(item, expected))
+        : looseEquals(actual, expected)
+    case "not_equals":
+      return !evaluateOperator("equals", actual, expected)
+    case "greater_than": {
+      const result = compare(actual, expected)
+      return result !== null && result > 0
+    }
+    case "less_than": {
+      const result = compare(actual, expected)
+      return result !== null && result < 0
+    }
+    case "greater_than_or_equal": {
+      const result = compare(actual, expected)
+      return result !== null && result >= 0
+    }
+    case "less_than_or_equal": {
+      const result = compare(actual, expected)
+      return result !== null && result <= 0
+    }
+    case "contains":
+      return textContains(actual, expected)
+    case "not_contains":
+      return !textContains(actual, expected)
+    case "starts_with":
+      return (
+        !isEmptyValue(actual) &&
+        String(actual)
+          .toLowerCase()
+          .startsWith(String(expected ?? "").toLowerCase())
+      )
+    case "ends_with":
+      return (
+        !isEmptyValue(actual) &&
+        String(actual)
+          .toLowerCase()
+          .endsWith(String(expected ?? "").toLowerCase())
+      )
+    case "is_empty":
+      return isEmptyValue(actual)
+    case "is_not_empty":
+      return !isEmptyValue(actual)
+    case "in": {
+      const options = toList(expected)
+      const values = Array.isArray(actual) ? actual : [actual]
+      return values.some((value) => options.some((option) => looseEquals(value, option)))
+    }
+    case "not_in":
+      return !isEmptyValue(actual) && !evaluateOperator("in", actual, expected)
+    case "matches_regex":
+      if (isEmptyValue(actual) || typeof expected !== "string") return false
+      try {
+        return new RegExp(expected).test(String(actual))
+      } catch {
+        return false
+      }
+    default:
+      return false
+  }
+}
+
+function resolveConditionValue(
+  condition: Pick<Condition, "value" | "value_type">,
+  data: FormResponseData,
+  context: LogicContext
+): any {
+  switch (condition.value_type) {
+    case "field":
+      return data[condition.value]
+    case "variable":
+      return context.variables?.[condition.value]
+    default:
+      return condition.value
+  }
+}
+
+/**
+ * Evaluate a single condition against the current form data
+ */
+export function evaluateCondition(
+  condition: Pick<Condition, "field_id" | "operator" | "value" | "value_type">,
+  data: FormResponseData,
+  context: LogicContext = {}
+): boolean {
+  return evaluateOperator(
+    condition.operator,
+    data[condition.field_id],
+    resolveConditionValue(condition, data, context)
+  )
+}
+
+/**
+ * Check whether all (AND) or any (OR) of a rule's conditions are met
+ */
+export function evaluateRuleConditions(
+  rule: Pick<ConditionalRule, "conditions" | "logic_operator">,
+  data: FormResponseData,
+  context: LogicContext = {}
+): boolean {
+  if (!rule.conditions || rule.conditions.length === 0) return true
+  const results = rule.conditions.map((condition) => evaluateCondition(condition, data, context))
+  return rule.logic_operator === "OR" ? results.some(Boolean) : results.every(Boolean)
+}
+
+//=============================================================================
+// Calculations
+//=============================================================================
+
+/**
+ * Evaluate a `calculate` action.
+ *
+ * Parameters are either `{ formula }` (see lib/formula.ts) or
+ * `{ operation, source_field_ids }` where operation is one of
+ * sum, subtract, multiply, divide, average, min, max, count or concat.
+ */
+export function calculateValue(
+  parameters: Record<string, any> | undefined,
+  data: FormResponseData
+): any {
+  if (typeof parameters?.formula === "string") {
+    try {
+      return evaluateFormula(parameters.formula, data)
+    } catch {
+      return null
+    }
+  }
+
+  const operation: string = parameters?.operation ?? "sum"
+  const sourceIds: string[] = parameters?.source_field_ids ?? parameters?.field_ids ?? []
+  const values = sourceIds.map((id) => data[id])
+
+  if (operation === "concat") {
+    return values.filter((value) => !isEmptyValue(value)).join(parameters?.separator ?? " ")
+  }
+  if (operation === "count") {
+    return values.filter((value) => !isEmptyValue(value)).length
+  }
+
+  const numbers = values.map(toNumber).filter((value): value is number => value !== null)
+  if (numbers.length === 0) return null
+
+  let result: number
+  switch (operation) {
+    case "subtract":
+      result = numbers.slice(1).reduce((acc, n) => acc - n, numbers[0])
+      break
+    case "multiply":
+      result = numbers.reduce((acc, n) => acc * n, 1)
+      break
+    case "divide":
+      if (numbers.slice(1).some((n) => n === 0)) return null
+      result = numbers.slice(1).reduce((acc, n) => acc / n, numbers[0])
+      break
+    case "average":
+    case "avg":
+      result = numbers.reduce((acc, n) => acc + n, 0) / numbers.length
+      break
+    case "min":
+      result = Math.min(...numbers)
+      break
+    case "max":
+      result = Math.max(...numbers)
+      break
+    default:
+      result = numbers.reduce((acc, n) => acc + n, 0)
+  }
+
+  const precision = parameters?.precision
+  return typeof precision === "number" ? Number(result.toFixed(precision)) : result
+}
+
+//=============================================================================
+// Rule evaluation
+//=============================================================================
+
+/**
+ * Sort enabled rules so the highest priority runs first (stable for ties)
+ */
+export function orderRules(rules: ConditionalRule[]): ConditionalRule[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => rule.enabled !== false)
+    .sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.index - b.index)
+    .map(({ rule }) => rule)
+}
+
+function initialFieldStates(
+  fields: FormField[],
+  rules: ConditionalRule[]
+): Record<string, FieldLogicState> {
+  const shownByRule = new Set<string>()
+  const enabledByRule = new Set<string>()
+
+  rules.forEach((rule) =>
+    rule.actions.forEach((action) => {
+      if (action.type === "show") action.target_field_ids.forEach((id) => shownByRule.add(id))
+      if (action.type === "enable") action.target_field_ids.forEach((id) => enabledByRule.add(id))
+    })
+  )
+
+  return Object.fromEntries(
+    fields.map((field) => [
+      field.id,
+      {
+        visible: !shownByRule.has(field.id),
+        enabled: !enabledByRule.has(field.id),
+        required: field.required,
+      },
+    ])
+  )
+}
+
+interface PassResult {
+  fields: Record<string, FieldLogicState>
+  values: Record<string, any>
+  messages: LogicMessage[]
+  errors: Record<string, string>
+  matched: string[]
+}
+
+function runPass(
+  rules: ConditionalRule[],
+  fields: FormField[],
+  data: FormResponseData,
+  context: LogicContext
+): PassResult {
+  const states = initialFieldStates(fields, rules)
+  const values: Record<string, any> = {}
+  const messages: LogicMessage[] = []
+  const errors: Record<string, string> = {}
+  const matched: string[] = []
+  // "fieldId:property" pairs already decided by a higher priority rule
+  const locked = new Set<string>()
+
+  const apply = (fieldId: string, property: string, update: () => void) => {
+    const key = `${fieldId}:${property}`
+    if (locked.has(key)) return
+    locked.add(key)
+    update()
+  }
+
+  const stateFor = (fieldId: string): FieldLogicState =>
+    (states[fieldId] ??= { visible: true, enabled: true, required: false })
+
+  for (const rule of rules) {
+    if (!evaluateRuleConditions(rule, data, context)) continue
+    matched.push(rule.id)
+
+    rule.actions.forEach((action: ConditionalAction) => {
+      const targets = action.target_field_ids ?? []
+      const params = action.parameters ?? {}
+
+      switch (action.type) {
+        case "show":
+        case "hide":
+          targets.forEach((id) =>
+            apply(id, "visible", () => (stateFor(id).visible = action.type === "show"))
+          )
+          break
+        case "enable":
+        case "disable":
+          targets.forEach((id) =>
+            apply(id, "enabled", () => (stateFor(id).enabled = action.type === "enable"))
+          )
+          break
+        case "set_required":
+        case "set_optional":
+          targets.forEach((id) =>
+            apply(id, "required", () => (stateFor(id).required = action.type === "set_required"))
+          )
+          break
+        case "set_options":
+          targets.forEach((id) =>
+            apply(id, "options", () => (stateFor(id).options = params.options ?? []))
+          )
+          break
+        case "set_value":
+          targets.forEach((id) => apply(id, "value", () => (values[id] = params.value)))
+          break
+        case "calculate":
+          targets.forEach((id) =>
+            apply(id, "value", () => (values[id] = calculateValue(params, data)))
+          )
+          break
+        case "validate":
+          targets.forEach((id) =>
+            apply(id, "error", () => (errors[id] = params.message ?? "This value is not valid"))
+          )
+          break
+        case "show_message":
+          messages.push({
+            rule_id: rule.id,
+            field_id: targets[0],
+            message: params.message ?? "",
+            severity: params.severity ?? "info",
+          })
+          break
+      }
+    })
+  }
+
+  return { fields: states, values, messages, errors, matched }
+}
+
+/**
+ * Evaluate conditional rules against the current form data.
+ */
+export function evaluateConditionalRules(
+  rules: ConditionalRule[],
+  fields: FormField[],
+  data: FormResponseData,
+  context: LogicContext = {}
+): LogicEvaluationResult {
+  const ordered = orderRules(rules)
+  let workingData: FormResponseData = { ...data }
+  let pass = runPass(ordered, fields, workingData, context)
+
+  // Feed set/calculated values back in until nothing changes
+  for (let i = 1; i < MAX_PASSES; i++) {
+    const nextData = { ...data, ...pass.values }
+    if (JSON.stringify(nextData) === JSON.stringify(workingData)) break
+    workingData = nextData
+    pass = runPass(ordered, fields, workingData, context)
+  }
+
+  const ids = Object.keys(pass.fields)
+  return {
+    fields: pass.fields,
+    visible_fields: ids.filter((id) => pass.fields[id].visible),
+    hidden_fields: ids.filter((id) => !pass.fields[id].visible),
+    required_fields: ids.filter((id) => pass.fields[id].visible && pass.fields[id].required),
+    disabled_fields: ids.filter((id) => !pass.fields[id].enabled),
+    calculated_values: pass.values,
+    messages: pass.messages,
+    errors: pass.errors,
+    matched_rule_ids: pass.matched,
+  }
+}
+
+/**
+ * Apply a logic result to a field definition (required flag and options)
+ */
+export function applyFieldLogic(field: FormField, state?: FieldLogicState): FormField {
+  if (!state) return field
+  return {
+    ...field,
+    required: state.required,
+    options: state.options ?? field.options,
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Conditional Rule Schema
+ *
+ * Normalizes rule payloads into the canonical `ConditionalRule` model and
+ * validates rules against a form's fields. Rules created by the form builder
+ * before the models were unified still come back from
+ * `formsAPI.getConditionalRules` in the legacy shape (`rule_name`,
+ * `is_active`, `show_field`, one `target_field_id` per action); they are
+ * upgraded here so every screen and the client-side evaluator see one model.
+ */
+
+import { formsAPI } from "./api"
+import type { Form, FormField } from "./types"
+import type {
+  Condition,
+  ConditionalAction,
+  ConditionalActionType,
+  ConditionalRule,
+  ConditionalRuleIssue,
+  LegacyConditionalAction,
+  LegacyConditionalActionType,
+  LegacyConditionalRule,
+} from "./types-extended"
+
+export type RawConditionalRule = ConditionalRule | LegacyConditionalRule
+
+const LEGACY_ACTION_TYPES: Record<LegacyConditionalActionType, ConditionalActionType | null> = {
+  show_field: "show",
+  hide_field: "hide",
+  enable_field: "enable",
+  disable_field: "disable",
+  set_value: "set_value",
+  calculate_value: "calculate",
+  set_required: "set_required",
+  set_optional: "set_optional",
+  show_error: "validate",
+  // Errors are recomputed on every evaluation, so clearing one needs no action
+  clear_error: null,
+}
+
+//=============================================================================
+// Normalization
+//=============================================================================
+
+/**
+ * Check whether a payload uses the legacy rule shape
+ */
+export function isLegacyConditionalRule(rule: RawConditionalRule): rule is LegacyConditionalRule {
+  const raw = rule as Record<string, any>
+  return (
+    "rule_name" in raw ||
+    "is_active" in raw ||
+    (Array.isArray(raw.actions) &&
+      raw.actions.some((action: Record<string, any>) => !Array.isArray(action.target_field_ids)))
+  )
+}
+
+function normalizeCondition(condition: Condition): Condition {
+  return {
+    ...condition,
+    value_type: condition.value_type ?? "static",
+  }
+}
+
+function normalizeAction(
+  action: ConditionalAction | LegacyConditionalAction
+): ConditionalAction | null {
+  if ("target_field_ids" in action && Array.isArray(action.target_field_ids)) {
+    return { ...action, parameters: action.parameters ?? {} }
+  }
+
+  const legacy = action as LegacyConditionalAction
+  const type = legacy.type in LEGACY_ACTION_TYPES ? LEGACY_ACTION_TYPES[legacy.type] : null
+  if (!type) return null
+
+  const parameters: Record<string, any> = {}
+  if (legacy.value !== undefined) parameters.value = legacy.value
+  if (legacy.formula !== undefined) parameters.formula = legacy.formula
+  if (legacy.error_message !== undefined) parameters.message = legacy.error_message
+
+  return {
+    type,
+    target_field_ids: legacy.target_field_id ? [legacy.target_field_id] : [],
+    parameters,
+  }
+}
+
+/**
+ * Upgrade a rule payload (canonical or legacy) to the canonical model
+ */
+export function normalizeConditionalRule(rule: RawConditionalRule): ConditionalRule {
+  const raw = rule as Partial<ConditionalRule> & Partial<LegacyConditionalRule>
+
+  return {
+    id: raw.id ?? "",
+    form_id: raw.form_id ?? "",
+    name: raw.name ?? raw.rule_name ?? "Untitled rule",
+    description: raw.description,
+    priority: Number(raw.priority ?? 0),
+    enabled: raw.enabled ?? raw.is_active ?? true,
+    logic_operator: raw.logic_operator === "OR" ? "OR" : "AND",
+    conditions: (raw.conditions ?? []).map(normalizeCondition),
+    actions: ((raw.actions ?? []) as Array<ConditionalAction | LegacyConditionalAction>)
+      .map(normalizeAction)
+      .filter((action): action is ConditionalAction => action !== null),
+    created_at: raw.created_at,
+    updated_at: raw.updated_at,
+    created_by: raw.created_by,
+  }
+}
+
+/**
+ * Upgrade a list of rule payloads, tolerating a missing list
+ */
+export function normalizeConditionalRules(
+  rules: RawConditionalRule[] | null | undefined
+): ConditionalRule[] {
+  return (rules ?? []).map(normalizeConditionalRule)
+}
+
+//=============================================================================
+// Validation
+//=============================================================================
+
+/**
+ * Find rules that reference fields which no longer exist on the form.
+ *
+ * Broken references in enabled rules are errors and should block publishing;
+ * in disabled rules they are reported as warnings.
+ */
+export function validateConditionalRules(
+  rules: ConditionalRule[],
+  fields: Pick<FormField, "id">[]
+): ConditionalRuleIssue[] {
+  const fieldIds = new Set(fields.map((field) => field.id))
+  const issues: ConditionalRuleIssue[] = []
+
+  rules.forEach((rule) => {
+    const severity = rule.enabled ? "error" : "warning"
+    const report = (fieldId: string, message: string) =>
+      issues.push({ rule_id: rule.id, rule_name: rule.name, field_id: fieldId, severity, message })
+
+    rule.conditions.forEach((condition) => {
+      if (!fieldIds.has(condition.field_id)) {
+        report(
+          condition.field_id,
+          `Condition on "${condition.field_name || condition.field_id}" refers to a field that no longer exists`
+        )
+      }
+      if (condition.value_type === "field" && !fieldIds.has(condition.value)) {
+        report(condition.value, `Condition compares against deleted field "${condition.value}"`)
+      }
+    })
+
+    rule.actions.forEach((action) => {
+      action.target_field_ids
+        .filter((fieldId) => !fieldIds.has(fieldId))
+        .forEach((fieldId) =>
+          report(fieldId, `"${action.type}" action targets deleted field "${fieldId}"`)
+        )
+
+      const sources: string[] = action.parameters?.source_field_ids ?? []
+      sources
+        .filter((fieldId) => !fieldIds.has(fieldId))
+        .forEach((fieldId) => report(fieldId, `Calculation uses deleted field "${fieldId}"`))
+    })
+
+    if (rule.actions.length === 0) {
+      issues.push({
+        rule_id: rule.id,
+        rule_name: rule.name,
+        severity: "warning",
+        message: "Rule has no actions",
+      })
+    }
+  })
+
+  return issues
+}
+
+/**
+ * Summarize blocking issues for a toast or error message
+ */
+export function formatRuleIssues(issues: ConditionalRuleIssue[], limit = 3): string {
+  const lines = issues.slice(0, limit).map((issue) => `${issue.rule_name}: ${issue.message}`)
+  if (issues.length > limit) {
+    lines.push(`and ${issues.length - limit} more`)
+  }
+  return lines.join("; ")
+}
+
+/**
+ * Load a form and its rules and return the issues that should block publishing
+ */
+export async function findPublishBlockingRuleIssues(
+  formId: string
+): Promise<ConditionalRuleIssue[]> {
+  const [formResponse, rulesResponse] = await Promise.all([
+    formsAPI.getById(formId),
+    formsAPI.getConditionalRules(formId),
+  ])
+  const form: Form = formResponse.data.data
+  const rules = normalizeConditionalRules(rulesResponse.data.data)
+
+  return validateConditionalRules(rules, form.schema?.fields ?? []).filter(
+    (issue) => issue.severity === "error"
+  )
+}
@@ -48,6 +48,29 @@ export const API_TIMEOUT_MS = 30000 // 30 seconds
 export const API_RETRY_ATTEMPTS = 3
 export const API_RETRY_DELAY_MS = 1000
 
+// Offline Submission Queue
+export const OFFLINE_QUEUE = {
+  BASE_RETRY_DELAY_MS: 5000, // 5 seconds
+  MAX_RETRY_DELAY_MS: 30 * 60 * 1000, // 30 minutes
+  MAX_ATTEMPTS: 8,
+  SYNC_INTERVAL_MS: 60000, // 1 minute
+  SYNCED_RETENTION_MS: 7 * 24 * 60 * 60 * 1000, // 7 days
+} as const
+
+// Public Ballot Voter Verification
+export const VOTER_VERIFICATION = {
+  OTP_LENGTH: 6,
+  OTP_RESEND_COOLDOWN_SECONDS: 60,
+  MAX_OTP_ATTEMPTS: 5,
+  DEFAULT_COUNTRY_CODE: "233", // Ghana
+} as const
+
+// Election Scheduling
+export const ELECTION_SCHEDULE = {
+  MIN_VOTING_WINDOW_MINUTES: 60, // Shorter windows are flagged before publishing
+  CLOCK_TICK_MS: 1000,
+} as const
+
 // Cache Times (React Query)
 export const CACHE_TIME = {
   DEFAULT: 5 * 60 * 1000, // 5 minutes
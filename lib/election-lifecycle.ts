@@ -0,0 +1,299 @@
+/**
+ * Election Lifecycle
+ *
+ * The statuses an election moves through and the legal transitions between
+ * them. Managers trigger every transition; opening a scheduled election and
+ * closing an open one fall due at start_date and end_date, and the timeline
+ * shows them as due until a manager confirms. Each transition runs pre-flight
+ * checks first: errors block it, warnings are shown for the manager to
+ * confirm.
+ */
+
+import { format } from "date-fns"
+import { ELECTION_SCHEDULE } from "./constants"
+import type { Election, ElectionStatus } from "./types"
+
+export type ElectionTransition = "publish" | "open" | "pause" | "resume" | "close" | "cancel"
+
+export interface PreflightResult {
+  errors: string[]
+  warnings: string[]
+}
+
+export interface PreflightContext {
+  now?: Date
+  /** Ballots cast so far, when known */
+  totalVotes?: number
+}
+
+export type TimelineEventState = "done" | "due" | "upcoming" | "skipped"
+
+export interface TimelineEvent {
+  transition: "open" | "close"
+  label: string
+  at: Date
+  state: TimelineEventState
+}
+
+//=============================================================================
+// Transitions
+//=============================================================================
+
+/** Statuses each transition can start from */
+const TRANSITIONS: Record<ElectionTransition, ElectionStatus[]> = {
+  publish: ["draft"],
+  open: ["scheduled"],
+  pause: ["active"],
+  resume: ["paused"],
+  close: ["active", "paused"],
+  cancel: ["draft", "scheduled", "active", "paused"],
+}
+
+const TRANSITION_ORDER: ElectionTransition[] = [
+  "publish",
+  "open",
+  "pause",
+  "resume",
+  "close",
+  "cancel",
+]
+
+export function canTransition(status: ElectionStatus, transition: ElectionTransition): boolean {
+  return TRANSITIONS[transition].includes(status)
+}
+
+/** Transitions a manager can start from the given status, in button order */
+export function getManualTransitions(status: ElectionStatus): ElectionTransition[] {
+  return TRANSITION_ORDER.filter((transition) => canTransition(status, transition))
+}
+
+/**
+ * Status the election ends up in. Publishing schedules the election when its
+ * start date is still ahead and opens it straight away otherwise.
+ */
+export function getTransitionTarget(
+  election: Pick<Election, "start_date">,
+  transition: ElectionTransition,
+  now: Date = new Date()
+): ElectionStatus {
+  switch (transition) {
+    case "publish":
+      return new Date(election.start_date) > now ? "scheduled" : "active"
+    case "open":
+    case "resume":
+      return "active"
+    case "pause":
+      return "paused"
+    case "close":
+      return "closed"
+    case "cancel":
+      return "cancelled"
+  }
+}
+
+//=============================================================================
+// Pre-flight checks
+//=============================================================================
+
+const formatDate = (date: Date) => format(date, "PPp")
+
+function checkBallot(election: Election, result: PreflightResult) {
+  if (election.election_type !== "election") {
+    if ((election.poll_options?.length ?? 0) < 2) {
+      result.errors.push("Add at least two options for voters to choose from")
+    }
+    return
+  }
+
+  const positions = election.positions ?? []
+  if (positions.length === 0) {
+    result.errors.push("Add at least one position")
+  }
+  positions.forEach((position) => {
+    const candidates = position.candidates?.length ?? 0
+    if (candidates === 0) {
+      result.errors.push(`"${position.title}" has no candidates`)
+    } else if (candidates < position.max_selections) {
+      const noun = candidates === 1 ? "candidate" : "candidates"
+      result.errors.push(
+        `"${position.title}" allows ${position.max_selections} selections but has only ${candidates} ${noun}`
+      )
+    } else if (candidates === 1) {
+      result.warnings.push(`"${position.title}" is uncontested`)
+    }
+  })
+}
+
+function checkSchedule(
+  election: Election,
+  transition: "publish" | "open",
+  now: Date,
+  result: PreflightResult
+) {
+  const start = new Date(election.start_date)
+  const end = new Date(election.end_date)
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    result.errors.push("Set a start and end date")
+    return
+  }
+  if (end <= start) {
+    result.errors.push("The end date must be after the start date")
+    return
+  }
+  if (end <= now) {
+    result.errors.push(`The voting period already ended on ${formatDate(end)}`)
+    return
+  }
+
+  const minutes = Math.round((end.getTime() - start.getTime()) / 60000)
+  if (minutes < ELECTION_SCHEDULE.MIN_VOTING_WINDOW_MINUTES) {
+    result.warnings.push(
+      `Voting is open for only ${minutes} ${minutes === 1 ? "minute" : "minutes"}`
+    )
+  }
+  if (transition === "publish" && start <= now) {
+    result.warnings.push("The start date has passed, so voting opens as soon as you publish")
+  }
+  if (transition === "open" && start > now) {
+    result.warnings.push(`Voting was due to open on ${formatDate(start)}`)
+  }
+}
+
+function checkSettings(election: Election, result: PreflightResult) {
+  if (
+    election.verification_level === "anonymous" &&
+    !election.require_national_id &&
+    !election.require_phone_otp
+  ) {
+    result.warnings.push(
+      "Voters aren't asked for a national ID or phone number, so one person can vote more than once"
+    )
+  }
+  if (election.results_visibility === "real_time") {
+    result.warnings.push("Results are visible while voting is open and can sway later voters")
+  }
+}
+
+/**
+ * Check an election is ready for a transition. A transition that isn't legal
+ * from the current status comes back as a single error.
+ */
+export function runPreflightChecks(
+  election: Election,
+  transition: ElectionTransition,
+  { now = new Date(), totalVotes }: PreflightContext = {}
+): PreflightResult {
+  const result: PreflightResult = { errors: [], warnings: [] }
+  if (!canTransition(election.status, transition)) {
+    result.errors.push(`A ${election.status} election can't ${transition}`)
+    return result
+  }
+
+  const end = new Date(election.end_date)
+  switch (transition) {
+    case "publish":
+    case "open":
+      checkBallot(election, result)
+      checkSchedule(election, transition, now, result)
+      if (transition === "publish") checkSettings(election, result)
+      break
+    case "resume":
+      if (end <= now) {
+        result.errors.push(
+          `The voting period ended on ${formatDate(end)}, so close the election instead`
+        )
+      }
+      break
+    case "close":
+      if (end > now) {
+        result.warnings.push(`Voting was due to run until ${formatDate(end)}`)
+      }
+      if (totalVotes === 0) {
+        result.warnings.push("No votes have been cast")
+      }
+      break
+    case "cancel":
+      if (totalVotes) {
+        result.warnings.push(
+          `${totalVotes} ${totalVotes === 1 ? "vote" : "votes"} will be discarded`
+        )
+      }
+      break
+  }
+  return result
+}
+
+//=============================================================================
+// Schedule
+//=============================================================================
+
+function getEventState(
+  status: ElectionStatus,
+  transition: "open" | "close",
+  at: Date,
+  now: Date
+): TimelineEventState {
+  if (status === "cancelled") return "skipped"
+  if (
+    status === "closed" ||
+    (transition === "open" && status !== "draft" && status !== "scheduled")
+  ) {
+    return "done"
+  }
+  return canTransition(status, transition) && at <= now ? "due" : "upcoming"
+}
+
+/** When voting opens and closes, and whether each has happened yet */
+export function getElectionTimeline(
+  election: Pick<Election, "status" | "start_date" | "end_date">,
+  now: Date = new Date()
+): TimelineEvent[] {
+  const start = new Date(election.start_date)
+  const end = new Date(election.end_date)
+  return [
+    {
+      transition: "open",
+      label: "Voting opens",
+      at: start,
+      state: getEventState(election.status, "open", start, now),
+    },
+    {
+      transition: "close",
+      label: "Voting closes",
+      at: end,
+      state: getEventState(election.status, "close", end, now),
+    },
+  ]
+}
+
+/**
+ * The next transition the schedule will make from the current status, or
+ * null when nothing is scheduled (drafts, and finished elections). A due
+ * transition's time has already passed.
+ */
+export function getNextScheduledTransition(
+  election: Pick<Election, "status" | "start_date" | "end_date">,
+  now: Date = new Date()
+): TimelineEvent | null {
+  return (
+    getElectionTimeline(election, now).find(
+      (event) =>
+        (event.state === "due" || event.state === "upcoming") &&
+        canTransition(election.status, event.transition)
+    ) ?? null
+  )
+}
+
+/** Time left as "2d 03:14:05", or "03:14:05" under a day */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const days = Math.floor(totalSeconds / 86400)
+  const clock = [
+    Math.floor((totalSeconds % 86400) / 3600),
+    Math.floor((totalSeconds % 3600) / 60),
+    totalSeconds % 60,
+  ]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":")
+  return days > 0 ? `${days}d ${clock}` : clock
+}
@@ -20,6 +20,8 @@ import {
   Sliders,
   Star,
   PenTool,
+  Calculator,
+  Rows3,
 } from "lucide-react"
 import type { LucideIcon } from "lucide-react"
 import type { FormField } from "@/lib/types"
@@ -301,6 +303,45 @@ export const FIELD_TYPE_CONFIGS: Record<FormField["type"], FieldTypeConfig> = {
     exampleUseCase: "Consent, agreement, authorization",
   },
 
+  calculated: {
+    type: "calculated",
+    label: "Calculated",
+    description: "Read-only value computed from other fields with a formula",
+    icon: Calculator,
+    category: "Advanced",
+    defaultConfig: {
+      formula: "",
+    },
+    supportsOptions: false,
+    supportsValidation: false,
+    supportsPlaceholder: false,
+    supportsHelpText: true,
+    supportsDefaultValue: false,
+    exampleUseCase: "Totals, age from date of birth, scores",
+  },
+
+  group: {
+    type: "group",
+    label: "Repeating Group",
+    description: "Set of nested fields that can repeat, e.g. one per household member",
+    icon: Rows3,
+    category: "Advanced",
+    defaultConfig: {
+      repeatable: true,
+      minRepeats: 1,
+      fields: [
+        { id: "name", type: "text", label: "Name", required: true },
+        { id: "age", type: "number", label: "Age", required: false },
+      ],
+    },
+    supportsOptions: false,
+    supportsValidation: false,
+    supportsPlaceholder: false,
+    supportsHelpText: true,
+    supportsDefaultValue: false,
+    exampleUseCase: "Household members, crops grown, visits",
+  },
+
   gps: {
     type: "gps",
     label: "GPS Location",
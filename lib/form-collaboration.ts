@@ -0,0 +1,384 @@
+/**
+ * Form Collaboration
+ *
+ * Presence and field-level merging for editing one form from several
+ * sessions at once. Each form builder command is turned into field
+ * operations (add, remove, update, reorder) and broadcast over a socket.
+ * Incoming operations are merged compare-and-set style: an update applies
+ * only when the local value still matches the sender's previous value, so
+ * edits to different fields (or different properties of one field) merge
+ * cleanly and only concurrent edits to the same property are reported as
+ * conflicts. Conflicts are resolved by the existing form lock.
+ */
+
+import type { FormField } from "./types"
+
+export interface CollaboratorPresence {
+  sessionId: string
+  userId?: string
+  username: string
+  color: string
+  /** Field the collaborator currently has selected */
+  selectedFieldId: string | null
+  lastSeen: number
+}
+
+export type FieldOperation =
+  | { kind: "add"; field: FormField; afterId: string | null }
+  | { kind: "remove"; fieldId: string; previous: FormField }
+  | {
+      kind: "update"
+      fieldId: string
+      /** Values before the edit; `null` means the property was unset */
+      previous: Record<string, unknown>
+      changes: Record<string, unknown>
+    }
+  | { kind: "reorder"; order: string[] }
+
+export type CollabMessage =
+  | { type: "presence"; presence: CollaboratorPresence }
+  | { type: "leave"; sessionId: string }
+  | { type: "ops"; sessionId: string; ops: FieldOperation[] }
+  /** Authoritative copy of a field sent by the lock holder after a conflict */
+  | { type: "snapshot"; sessionId: string; field: FormField }
+
+export interface FieldConflict {
+  fieldId: string
+  /** Properties edited concurrently; empty when a field was edited and removed */
+  keys: string[]
+}
+
+export interface MergeResult {
+  fields: FormField[]
+  conflicts: FieldConflict[]
+}
+
+export interface CollabTransport {
+  send: (message: CollabMessage) => void
+  subscribe: (handler: (message: CollabMessage) => void) => () => void
+  /** Called once the socket opens, or with an error when it can't connect */
+  onStatusChange: (handler: (status: CollabTransportStatus) => void) => () => void
+  close: () => void
+}
+
+export type CollabTransportStatus = "connecting" | "open" | "closed" | "failed"
+
+/** Minimal WebSocket surface, so tests can connect to a mock server */
+export interface SocketLike {
+  readyState: number
+  send: (data: string) => void
+  close: () => void
+  onopen: ((event: unknown) => void) | null
+  onmessage: ((event: { data: unknown }) => void) | null
+  onclose: ((event: unknown) => void) | null
+  onerror: ((event: unknown) => void) | null
+}
+
+export type SocketFactory = (url: string) => SocketLike
+
+/** Presence entries not refreshed within this window are dropped */
+export const PRESENCE_TIMEOUT_MS = 45_000
+
+/** How often a session re-announces its presence */
+export const PRESENCE_HEARTBEAT_MS = 15_000
+
+const PRESENCE_COLORS = [
+  "#2563eb",
+  "#db2777",
+  "#16a34a",
+  "#ea580c",
+  "#9333ea",
+  "#0891b2",
+  "#ca8a04",
+  "#dc2626",
+]
+
+const SOCKET_OPEN = 1
+
+//=============================================================================
+// Presence
+//=============================================================================
+
+/**
+ * Stable colour for a collaborator, derived from their session ID
+ */
+export function getPresenceColor(sessionId: string): string {
+  let hash = 0
+  for (let i = 0; i < sessionId.length; i++) {
+    hash = (hash * 31 + sessionId.charCodeAt(i)) | 0
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length]
+}
+
+/**
+ * Drop collaborators that have left or stopped sending heartbeats
+ */
+export function prunePresence(
+  peers: Record<string, CollaboratorPresence>,
+  now: number,
+  timeoutMs = PRESENCE_TIMEOUT_MS
+): Record<string, CollaboratorPresence> {
+  return Object.fromEntries(
+    Object.entries(peers).filter(([, peer]) => now - peer.lastSeen <= timeoutMs)
+  )
+}
+
+/**
+ * Collaborators grouped by the field they have selected
+ */
+export function groupPresenceByField(
+  peers: CollaboratorPresence[]
+): Map<string, CollaboratorPresence[]> {
+  const byField = new Map<string, CollaboratorPresence[]>()
+  peers.forEach((peer) => {
+    if (!peer.selectedFieldId) return
+    byField.set(peer.selectedFieldId, [...(byField.get(peer.selectedFieldId) ?? []), peer])
+  })
+  return byField
+}
+
+//=============================================================================
+// Operations
+//=============================================================================
+
+function isSame(a: unknown, b: unknown): boolean {
+  // Unset properties travel as null, so treat the two as equal
+  if ((a === undefined || a === null) && (b === undefined || b === null)) return true
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function toWire(value: unknown): unknown {
+  return value === undefined ? null : value
+}
+
+/**
+ * Turn a before/after pair of field lists (as recorded by the form history)
+ * into the operations that transform one into the other
+ */
+export function deriveFieldOperations(
+  previous: FormField[],
+  current: FormField[]
+): FieldOperation[] {
+  const ops: FieldOperation[] = []
+  const previousById = new Map(previous.map((field) => [field.id, field]))
+  const currentIds = new Set(current.map((field) => field.id))
+
+  previous.forEach((field) => {
+    if (!currentIds.has(field.id)) ops.push({ kind: "remove", fieldId: field.id, previous: field })
+  })
+
+  current.forEach((field, index) => {
+    const before = previousById.get(field.id)
+    if (!before) {
+      ops.push({ kind: "add", field, afterId: index > 0 ? current[index - 1].id : null })
+      return
+    }
+
+    const keys = new Set([...Object.keys(before), ...Object.keys(field)])
+    const changed = [...keys].filter(
+      (key) => !isSame(before[key as keyof FormField], field[key as keyof FormField])
+    )
+    if (changed.length === 0) return
+
+    ops.push({
+      kind: "update",
+      fieldId: field.id,
+      previous: Object.fromEntries(
+        changed.map((key) => [key, toWire(before[key as keyof FormField])])
+      ),
+      changes: Object.fromEntries(
+        changed.map((key) => [key, toWire(field[key as keyof FormField])])
+      ),
+    })
+  })
+
+  // Only report a reorder when fields present in both lists moved
+  const kept = current.filter((field) => previousById.has(field.id)).map((field) => field.id)
+  const keptBefore = previous.filter((field) => currentIds.has(field.id)).map((field) => field.id)
+  if (kept.some((id, index) => id !== keptBefore[index])) {
+    ops.push({ kind: "reorder", order: current.map((field) => field.id) })
+  }
+
+  return ops
+}
+
+function applyUpdate(field: FormField, changes: Record<string, unknown>): FormField {
+  const next: Record<string, unknown> = { ...field }
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value === null) delete next[key]
+    else next[key] = value
+  })
+  return next as unknown as FormField
+}
+
+function applyReorder(fields: FormField[], order: string[]): FormField[] {
+  const byId = new Map(fields.map((field) => [field.id, field]))
+  const ordered = order.filter((id) => byId.has(id)).map((id) => byId.get(id)!)
+  const placed = new Set(order)
+
+  // Fields the sender doesn't know about yet keep their local position
+  fields.forEach((field, index) => {
+    if (!placed.has(field.id)) ordered.splice(Math.min(index, ordered.length), 0, field)
+  })
+  return ordered
+}
+
+/**
+ * Merge operations from another session into the local fields. Updates and
+ * removals only apply where the local field still matches what the sender
+ * saw; anything else is returned as a conflict and left untouched.
+ */
+export function mergeFieldOperations(fields: FormField[], ops: FieldOperation[]): MergeResult {
+  let merged = fields
+  const conflicts: FieldConflict[] = []
+
+  ops.forEach((op) => {
+    switch (op.kind) {
+      case "add": {
+        if (merged.some((field) => field.id === op.field.id)) return
+        const anchor = op.afterId ? merged.findIndex((field) => field.id === op.afterId) : -1
+        const index = op.afterId && anchor < 0 ? merged.length : anchor + 1
+        merged = [...merged.slice(0, index), op.field, ...merged.slice(index)]
+        return
+      }
+
+      case "remove": {
+        const local = merged.find((field) => field.id === op.fieldId)
+        if (!local) return
+        if (!isSame(local, op.previous)) {
+          conflicts.push({ fieldId: op.fieldId, keys: [] })
+          return
+        }
+        merged = merged.filter((field) => field.id !== op.fieldId)
+        return
+      }
+
+      case "update": {
+        const local = merged.find((field) => field.id === op.fieldId)
+        if (!local) {
+          // Edited remotely but removed here
+          conflicts.push({ fieldId: op.fieldId, keys: [] })
+          return
+        }
+
+        const applicable: Record<string, unknown> = {}
+        const conflicting: string[] = []
+        Object.entries(op.changes).forEach(([key, value]) => {
+          const localValue = local[key as keyof FormField]
+          if (isSame(localValue, value)) return
+          if (isSame(localValue, op.previous[key])) applicable[key] = value
+          else conflicting.push(key)
+        })
+
+        if (conflicting.length > 0) conflicts.push({ fieldId: op.fieldId, keys: conflicting })
+        if (Object.keys(applicable).length > 0) {
+          merged = merged.map((field) =>
+            field.id === op.fieldId ? applyUpdate(field, applicable) : field
+          )
+        }
+        return
+      }
+
+      case "reorder":
+        merged = applyReorder(merged, op.order)
+        return
+    }
+  })
+
+  return { fields: merged, conflicts }
+}
+
+//=============================================================================
+// Transport
+//=============================================================================
+
+function isCollabMessage(value: unknown): value is CollabMessage {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    ["presence", "leave", "ops", "snapshot"].includes((value as { type?: string }).type ?? "")
+  )
+}
+
+/**
+ * Socket URL for a form's collaboration channel. The access token is sent in
+ * the first message rather than the URL, which ends up in server and proxy logs.
+ */
+export function getCollaborationUrl(formId: string): string {
+  const base = (process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000").replace(/^http/, "ws")
+  return `${base}/v1/forms/${formId}/collaborate`
+}
+
+/**
+ * JSON message transport over a WebSocket. With a token, an `auth` message
+ * carrying it is the first frame sent once the socket opens. Messages sent
+ * before the socket opens are queued. A socket that closes before ever
+ * opening reports `failed`, so callers can fall back to locking.
+ */
+export function createSocketTransport(
+  url: string,
+  createSocket: SocketFactory = (socketUrl) => new WebSocket(socketUrl) as unknown as SocketLike,
+  token?: string | null
+): CollabTransport {
+  const handlers = new Set<(message: CollabMessage) => void>()
+  const statusHandlers = new Set<(status: CollabTransportStatus) => void>()
+  const queue: string[] = []
+  let opened = false
+  let closedByUs = false
+  let lastStatus: CollabTransportStatus = "connecting"
+
+  // error and close both fire when a socket fails, so report each status once
+  const setStatus = (status: CollabTransportStatus) => {
+    if (status === lastStatus) return
+    lastStatus = status
+    statusHandlers.forEach((handler) => handler(status))
+  }
+
+  const socket = createSocket(url)
+
+  socket.onopen = () => {
+    opened = true
+    if (token) socket.send(JSON.stringify({ type: "auth", token }))
+    queue.splice(0).forEach((data) => socket.send(data))
+    setStatus("open")
+  }
+
+  socket.onmessage = (event) => {
+    if (typeof event.data !== "string") return
+    try {
+      const message = JSON.parse(event.data)
+      if (isCollabMessage(message)) handlers.forEach((handler) => handler(message))
+    } catch {
+      // Ignore frames that aren't collaboration messages
+    }
+  }
+
+  socket.onclose = () => {
+    if (closedByUs) return
+    setStatus(opened ? "closed" : "failed")
+  }
+
+  socket.onerror = () => {
+    if (!opened) setStatus("failed")
+  }
+
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message)
+      if (socket.readyState === SOCKET_OPEN) socket.send(data)
+      else queue.push(data)
+    },
+    subscribe: (handler) => {
+      handlers.add(handler)
+      return () => handlers.delete(handler)
+    },
+    onStatusChange: (handler) => {
+      statusHandlers.add(handler)
+      return () => statusHandlers.delete(handler)
+    },
+    close: () => {
+      closedByUs = true
+      socket.close()
+    },
+  }
+}
@@ -0,0 +1,741 @@
+/**
+ * Form Export
+ *
+ * Exports a form definition, with its conditional and validation rules, so
+ * the same instrument can be used outside this system:
+ *
+ * - XLSForm workbook (survey, choices and settings sheets) for ODK Collect,
+ *   KoBoToolbox and other ODK-compatible tools. Pages become field-list
+ *   groups, `show` rules become `relevant` expressions and validation rules
+ *   become `constraint` expressions. `importXLSForm` reads it back.
+ * - Form definition document: a JSON Schema (draft 2020-12) describing the
+ *   shape of a response, with a JSON Forms UI schema for layout and
+ *   visibility, and the rules themselves for lossless re-import or audit.
+ *
+ * Anything the target format can't express is listed in `issues`.
+ */
+
+import type { Form, FormField } from "./types"
+import type { Condition, ConditionalRule, FormPage } from "./types-extended"
+import { FIELD_TYPE_COLUMN, type ImportIssue } from "./form-import"
+import type { SheetRows, Workbook } from "./xlsx"
+
+/**
+ * Validation rule as stored by the validation rules API
+ */
+export interface ExportValidationRule {
+  field_id: string
+  rule_type: string
+  parameters?: Record<string, any>
+  error_message: string
+  enabled?: boolean
+}
+
+export interface XLSFormExport {
+  workbook: Workbook
+  issues: ImportIssue[]
+}
+
+/**
+ * Version of the form definition document layout. Bump when a property is
+ * renamed or removed; adding properties is backwards compatible.
+ */
+export const FORM_DEFINITION_FORMAT_VERSION = 1
+
+export const FORM_DEFINITION_FORMAT = "sdigdata.form-definition"
+
+export interface FormDefinitionDocument {
+  $schema: "https://json-schema.org/draft/2020-12/schema"
+  $id: string
+  $comment: string
+  title: string
+  description?: string
+  type: "object"
+  properties: Record<string, JsonSchema>
+  required: string[]
+  "x-sdigdata": {
+    format: typeof FORM_DEFINITION_FORMAT
+    formatVersion: number
+    formId: string
+    formVersion: number
+    status: Form["status"]
+    exportedAt: string
+    /** Fields exactly as stored, for lossless re-import */
+    fields: FormField[]
+    pages: FormPage[]
+    conditionalRules: ConditionalRule[]
+    validationRules: ExportValidationRule[]
+  }
+  /** JSON Forms UI schema: layout, labels and visibility rules */
+  "x-uischema": UISchemaElement
+}
+
+type JsonSchema = Record<string, any>
+
+interface UISchemaElement {
+  type: string
+  label?: string
+  scope?: string
+  elements?: UISchemaElement[]
+  options?: Record<string, any>
+  rule?: { effect: "SHOW"; condition: Record<string, any> }
+}
+
+const SURVEY_COLUMNS = [
+  "type",
+  "name",
+  "label",
+  "hint",
+  "required",
+  "relevant",
+  "constraint",
+  "constraint_message",
+  "appearance",
+  "default",
+  "calculation",
+  "parameters",
+  "repeat_count",
+  FIELD_TYPE_COLUMN,
+] as const
+
+type SurveyRow = Partial<Record<(typeof SURVEY_COLUMNS)[number], string>>
+
+/** Functions with the same meaning in formulas and ODK XPath */
+const XPATH_FUNCTIONS = new Set([
+  "abs",
+  "round",
+  "floor",
+  "pow",
+  "sqrt",
+  "concat",
+  "if",
+  "coalesce",
+  "today",
+  "max",
+  "min",
+  "count",
+])
+
+//=============================================================================
+// XLSForm expressions
+//=============================================================================
+
+function xpathLiteral(value: unknown): string {
+  if (typeof value === "number" || typeof value === "boolean") return String(value)
+  const text = String(value ?? "")
+  // XPath 1.0 has no escapes; switch quote style when needed
+  return text.includes("'") ? `"${text}"` : `'${text}'`
+}
+
+function conditionToXPath(condition: Condition, fieldsById: Map<string, FormField>): string | null {
+  const ref = `\${${condition.field_id}}`
+  const isMultiSelect = fieldsById.get(condition.field_id)?.type === "checkbox"
+  const value =
+    condition.value_type === "field" ? `\${${condition.value}}` : xpathLiteral(condition.value)
+  const values: unknown[] = Array.isArray(condition.value) ? condition.value : [condition.value]
+  const join = (parts: string[], keyword: "and" | "or") =>
+    parts.length === 1 ? parts[0] : `(${parts.join(` ${keyword} `)})`
+
+  switch (condition.operator) {
+    case "equals":
+      return isMultiSelect ? `selected(${ref}, ${value})` : `${ref} = ${value}`
+    case "not_equals":
+      return isMultiSelect ? `not(selected(${ref}, ${value}))` : `${ref} != ${value}`
+    case "greater_than":
+      return `${ref} > ${value}`
+    case "less_than":
+      return `${ref} < ${value}`
+    case "greater_than_or_equal":
+      return `${ref} >= ${value}`
+    case "less_than_or_equal":
+      return `${ref} <= ${value}`
+    case "is_empty":
+      return `${ref} = ''`
+    case "is_not_empty":
+      return `${ref} != ''`
+    case "contains":
+      return isMultiSelect ? `selected(${ref}, ${value})` : `contains(${ref}, ${value})`
+    case "not_contains":
+      return isMultiSelect ? `not(selected(${ref}, ${value}))` : `not(contains(${ref}, ${value}))`
+    case "starts_with":
+      return `starts-with(${ref}, ${value})`
+    case "ends_with":
+      return `ends-with(${ref}, ${value})`
+    case "in":
+      return join(
+        values.map((item) =>
+          isMultiSelect
+            ? `selected(${ref}, ${xpathLiteral(item)})`
+            : `${ref} = ${xpathLiteral(item)}`
+        ),
+        "or"
+      )
+    case "not_in":
+      return join(
+        values.map((item) =>
+          isMultiSelect
+            ? `not(selected(${ref}, ${xpathLiteral(item)}))`
+            : `${ref} != ${xpathLiteral(item)}`
+        ),
+        "and"
+      )
+    case "matches_regex":
+      return `regex(${ref}, ${value})`
+    default:
+      return null
+  }
+}
+
+function ruleToXPath(rule: ConditionalRule, fieldsById: Map<string, FormField>): string | null {
+  const clauses = rule.conditions.map((condition) => conditionToXPath(condition, fieldsById))
+  if (clauses.length === 0 || clauses.some((clause) => clause === null)) return null
+  return (clauses as string[]).join(rule.logic_operator === "OR" ? " or " : " and ")
+}
+
+function validationToXPath(rule: ExportValidationRule): string | null {
+  const value = rule.parameters?.value
+
+  switch (rule.rule_type) {
+    case "min_value":
+      return `. >= ${Number(value)}`
+    case "max_value":
+      return `. <= ${Number(value)}`
+    case "min_length":
+      return `string-length(.) >= ${Number(value)}`
+    case "max_length":
+      return `string-length(.) <= ${Number(value)}`
+    case "pattern":
+      return `regex(., ${xpathLiteral(value ?? rule.parameters?.pattern)})`
+    default:
+      return null
+  }
+}
+
+/**
+ * Rewrite a formula as an XLSForm calculation (`{x}` → `${x}`)
+ */
+export function formulaToCalculation(formula: string): string {
+  return formula
+    .replace(/\{([\w.-]+)\}/g, "${$1}")
+    .replace(/\s*\/\s*/g, " div ")
+    .replace(/\s*%\s*/g, " mod ")
+}
+
+//=============================================================================
+// XLSForm
+//=============================================================================
+
+function xlsformType(field: FormField): { type: string; appearance?: string; typeHint?: string } {
+  const list = field.id
+  const other = field.allowOther ? " or_other" : ""
+
+  switch (field.type) {
+    case "textarea":
+      return { type: "text", appearance: "multiline" }
+    case "email":
+    case "url":
+    case "color":
+      return { type: "text", typeHint: field.type }
+    case "phone":
+      return { type: "text", appearance: "numbers", typeHint: field.type }
+    case "number":
+      return { type: field.step === 1 ? "integer" : "decimal" }
+    case "date":
+      return { type: "date" }
+    case "select":
+      return { type: `select_one ${list}${other}`, appearance: "minimal" }
+    case "radio":
+      return { type: `select_one ${list}${other}` }
+    case "checkbox":
+      return { type: `select_multiple ${list}${other}` }
+    case "gps":
+      return { type: "geopoint" }
+    case "file": {
+      const accept = field.accept ?? ""
+      if (/^image\//.test(accept)) return { type: "image" }
+      if (/^audio\//.test(accept)) return { type: "audio" }
+      if (/^video\//.test(accept)) return { type: "video" }
+      return { type: "file" }
+    }
+    case "signature":
+      return { type: "image", appearance: "signature" }
+    case "range":
+      return { type: "range" }
+    case "rating":
+      return { type: "range", appearance: "rating" }
+    case "calculated":
+      return { type: "calculate" }
+    default:
+      return { type: "text" }
+  }
+}
+
+/**
+ * Export a form as an XLSForm workbook
+ */
+export function exportXLSForm(
+  form: Pick<Form, "id" | "title" | "version" | "schema">,
+  conditionalRules: ConditionalRule[] = [],
+  validationRules: ExportValidationRule[] = []
+): XLSFormExport {
+  const issues: ImportIssue[] = []
+  const fields = form.schema.fields ?? []
+  const pages = form.schema.pages ?? []
+  const survey: SurveyRow[] = []
+  const choices: SheetRows = [["list_name", "name", "label"]]
+
+  const allFields = fields.flatMap((field) => [field, ...(field.fields ?? [])])
+  const fieldsById = new Map(allFields.map((field) => [field.id, field]))
+
+  // A field is shown when any rule shows it, so its rules are or-ed together
+  const relevantByField = new Map<string, string[]>()
+  conditionalRules
+    .filter((rule) => rule.enabled)
+    .forEach((rule) => {
+      const location = `rule "${rule.name}"`
+      rule.actions.forEach((action) => {
+        if (action.type !== "show") {
+          issues.push({
+            severity: "warning",
+            location,
+            message: `"${action.type}" actions have no XLSForm equivalent and were not exported`,
+          })
+          return
+        }
+        const expression = ruleToXPath(rule, fieldsById)
+        if (!expression) {
+          issues.push({
+            severity: "warning",
+            location,
+            message: "Conditions could not be exported",
+          })
+          return
+        }
+        action.target_field_ids.forEach((id) =>
+          relevantByField.set(id, [...(relevantByField.get(id) ?? []), expression])
+        )
+      })
+    })
+
+  const constraintsByField = new Map<string, ExportValidationRule[]>()
+  validationRules
+    .filter((rule) => rule.enabled !== false)
+    .forEach((rule) =>
+      constraintsByField.set(rule.field_id, [
+        ...(constraintsByField.get(rule.field_id) ?? []),
+        rule,
+      ])
+    )
+
+  const relevantFor = (id: string) => {
+    const expressions = relevantByField.get(id) ?? []
+    if (expressions.length <= 1) return expressions[0]
+    return expressions.map((expression) => `(${expression})`).join(" or ")
+  }
+
+  const addField = (field: FormField) => {
+    const location = `field "${field.label}"`
+
+    if (field.type === "group") {
+      const beginType = field.repeatable ? "repeat" : "group"
+      const row: SurveyRow = {
+        type: `begin_${beginType}`,
+        name: field.id,
+        label: field.label,
+        relevant: relevantFor(field.id),
+      }
+      if (field.repeatable) {
+        if (field.repeatCountField) row.repeat_count = `\${${field.repeatCountField}}`
+        else if (field.minRepeats && field.minRepeats === field.maxRepeats) {
+          row.repeat_count = String(field.minRepeats)
+        } else if (field.minRepeats || field.maxRepeats) {
+          issues.push({
+            severity: "warning",
+            location,
+            message: "Repeat limits other than a fixed count were not exported",
+          })
+        }
+      }
+      survey.push(row)
+      ;(field.fields ?? []).forEach(addField)
+      survey.push({ type: `end_${beginType}` })
+      return
+    }
+
+    const { type, appearance, typeHint } = xlsformType(field)
+    const row: SurveyRow = {
+      type,
+      name: field.id,
+      label: field.label,
+      hint: field.helpText,
+      required: field.required ? "yes" : undefined,
+      relevant: relevantFor(field.id),
+      appearance,
+      [FIELD_TYPE_COLUMN]: typeHint,
+    }
+
+    if (field.defaultValue !== undefined && field.defaultValue !== "") {
+      row.default = Array.isArray(field.defaultValue)
+        ? field.defaultValue.join(" ")
+        : String(field.defaultValue)
+    }
+
+    if (field.type === "range" || field.type === "rating") {
+      const start = field.min ?? 1
+      const end = field.max ?? (field.type === "rating" ? 5 : 10)
+      row.parameters = `start=${start} end=${end} step=${field.step ?? 1}`
+    }
+
+    if (field.type === "calculated") {
+      row.calculation = formulaToCalculation(field.formula ?? "")
+      const unsupported = [...(field.formula ?? "").matchAll(/([a-z_]+)\s*\(/gi)]
+        .map((match) => match[1].toLowerCase())
+        .filter((name) => !XPATH_FUNCTIONS.has(name))
+      if (unsupported.length > 0) {
+        issues.push({
+          severity: "warning",
+          location,
+          message: `ODK doesn't support ${[...new Set(unsupported)].join(", ")}; check the calculation`,
+        })
+      }
+    }
+
+    if (field.options) {
+      field.options.forEach((option) => choices.push([field.id, option.value, option.label]))
+    }
+
+    const constraints = constraintsByField.get(field.id) ?? []
+    const expressions: string[] = []
+    constraints.forEach((rule) => {
+      const expression = validationToXPath(rule)
+      if (expression) expressions.push(expression)
+      else {
+        issues.push({
+          severity: "warning",
+          location,
+          message: `"${rule.rule_type}" validation has no XLSForm equivalent and was not exported`,
+        })
+      }
+    })
+    if (expressions.length > 0) {
+      row.constraint = expressions.join(" and ")
+      const messages = [...new Set(constraints.map((rule) => rule.error_message).filter(Boolean))]
+      row.constraint_message = messages.join("; ")
+    }
+
+    if (field.placeholder) {
+      issues.push({ severity: "info", location, message: "Placeholder text was not exported" })
+    }
+    if (field.validation && Object.values(field.validation).some((value) => value !== undefined)) {
+      issues.push({
+        severity: "info",
+        location,
+        message: "Built-in field validation was not exported; use validation rules instead",
+      })
+    }
+
+    survey.push(row)
+  }
+
+  if (pages.length > 1) {
+    const placed = new Set(pages.flatMap((page) => page.fields))
+    ;[...pages]
+      .sort((a, b) => a.order - b.order)
+      .forEach((page) => {
+        survey.push({
+          type: "begin_group",
+          name: page.id,
+          label: page.title,
+          appearance: "field-list",
+        })
+        page.fields.forEach((id) => {
+          const field = fields.find((candidate) => candidate.id === id)
+          if (field) addField(field)
+        })
+        survey.push({ type: "end_group" })
+        if (page.show_conditions?.length) {
+          issues.push({
+            severity: "warning",
+            location: `page "${page.title}"`,
+            message: "Page conditions were not exported",
+          })
+        }
+      })
+    fields.filter((field) => !placed.has(field.id)).forEach(addField)
+  } else {
+    fields.forEach(addField)
+  }
+
+  return {
+    workbook: {
+      survey: [
+        [...SURVEY_COLUMNS],
+        ...survey.map((row) => SURVEY_COLUMNS.map((column) => row[column] ?? "")),
+      ],
+      choices,
+      settings: [
+        ["form_title", "form_id", "version"],
+        [form.title, form.id, String(form.version)],
+      ],
+    },
+    issues,
+  }
+}
+
+//=============================================================================
+// JSON Schema / JSON Forms
+//=============================================================================
+
+function fieldSchema(field: FormField, rules: ExportValidationRule[]): JsonSchema {
+  const schema: JsonSchema = { title: field.label }
+  if (field.helpText) schema.description = field.helpText
+  if (field.defaultValue !== undefined) schema.default = field.defaultValue
+
+  const options = field.options?.map((option) => ({ const: option.value, title: option.label }))
+
+  switch (field.type) {
+    case "number":
+      Object.assign(schema, { type: field.step === 1 ? "integer" : "number" })
+      if (field.min !== undefined) schema.minimum = field.min
+      if (field.max !== undefined) schema.maximum = field.max
+      break
+    case "range":
+    case "rating":
+      Object.assign(schema, {
+        type: "number",
+        minimum: field.min ?? (field.type === "rating" ? 1 : undefined),
+        maximum: field.max ?? (field.type === "rating" ? 5 : undefined),
+      })
+      if (field.step) schema.multipleOf = field.step
+      break
+    case "email":
+      Object.assign(schema, { type: "string", format: "email" })
+      break
+    case "url":
+      Object.assign(schema, { type: "string", format: "uri" })
+      break
+    case "date":
+      Object.assign(schema, { type: "string", format: "date" })
+      break
+    case "color":
+      Object.assign(schema, { type: "string", pattern: "^#[0-9a-fA-F]{6}$" })
+      break
+    case "select":
+    case "radio":
+      Object.assign(schema, { type: "string" })
+      if (options?.length) {
+        schema.oneOf = field.allowOther ? [...options, { type: "string", title: "Other" }] : options
+      }
+      break
+    case "checkbox":
+      Object.assign(schema, {
+        type: "array",
+        uniqueItems: true,
+        items: field.allowOther || !options?.length ? { type: "string" } : { oneOf: options },
+      })
+      break
+    case "gps":
+      Object.assign(schema, {
+        type: "object",
+        properties: {
+          latitude: { type: "number", minimum: -90, maximum: 90 },
+          longitude: { type: "number", minimum: -180, maximum: 180 },
+          accuracy: { type: "number", minimum: 0 },
+        },
+        required: ["latitude", "longitude"],
+      })
+      break
+    case "file":
+    case "signature":
+      // Responses store the uploaded file's URL
+      Object.assign(schema, { type: "string", format: "uri" })
+      if (field.accept) schema["x-accept"] = field.accept
+      break
+    case "calculated":
+      Object.assign(schema, { readOnly: true, "x-formula": field.formula })
+      break
+    case "group": {
+      const children = field.fields ?? []
+      const item = {
+        type: "object",
+        properties: Object.fromEntries(children.map((child) => [child.id, fieldSchema(child, [])])),
+        required: children.filter((child) => child.required).map((child) => child.id),
+      }
+      if (field.repeatable) {
+        Object.assign(schema, { type: "array", items: item })
+        if (field.minRepeats !== undefined) schema.minItems = field.minRepeats
+        if (field.maxRepeats !== undefined) schema.maxItems = field.maxRepeats
+      } else {
+        Object.assign(schema, item)
+      }
+      break
+    }
+    default:
+      Object.assign(schema, { type: "string" })
+  }
+
+  const messages: Record<string, string> = {}
+  rules.forEach((rule) => {
+    const value = rule.parameters?.value
+    const keyword = {
+      min_value: "minimum",
+      max_value: "maximum",
+      min_length: "minLength",
+      max_length: "maxLength",
+      pattern: "pattern",
+    }[rule.rule_type]
+    if (!keyword || value === undefined) return
+    schema[keyword] = keyword === "pattern" ? String(value) : Number(value)
+    messages[keyword] = rule.error_message
+  })
+  // ajv-errors style messages
+  if (Object.keys(messages).length > 0) schema.errorMessage = messages
+
+  schema["x-field-type"] = field.type
+  return schema
+}
+
+function conditionSchema(condition: Condition): Record<string, any> | null {
+  const scope = `#/properties/${condition.field_id}`
+  const value = condition.value
+  const schemas: Partial<Record<Condition["operator"], JsonSchema>> = {
+    equals: Array.isArray(value) ? { enum: value } : { const: value },
+    not_equals: { not: { const: value } },
+    greater_than: { exclusiveMinimum: value },
+    less_than: { exclusiveMaximum: value },
+    greater_than_or_equal: { minimum: value },
+    less_than_or_equal: { maximum: value },
+    in: { enum: Array.isArray(value) ? value : [value] },
+    not_in: { not: { enum: Array.isArray(value) ? value : [value] } },
+    is_not_empty: { minLength: 1 },
+    matches_regex: { pattern: String(value) },
+  }
+
+  if (condition.value_type === "field") return null
+  if (condition.operator === "is_empty") {
+    return { scope, schema: { not: { minLength: 1 } }, failWhenUndefined: false }
+  }
+  const schema = schemas[condition.operator]
+  return schema ? { scope, schema, failWhenUndefined: true } : null
+}
+
+function visibilityRule(rules: ConditionalRule[]): UISchemaElement["rule"] | undefined {
+  const alternatives = rules
+    .map((rule) => {
+      const conditions = rule.conditions.map(conditionSchema)
+      if (conditions.length === 0 || conditions.some((condition) => condition === null)) {
+        return null
+      }
+      return conditions.length === 1 ? conditions[0] : { type: rule.logic_operator, conditions }
+    })
+    .filter((condition): condition is Record<string, any> => condition !== null)
+
+  if (alternatives.length === 0) return undefined
+  return {
+    effect: "SHOW",
+    condition:
+      alternatives.length === 1 ? alternatives[0] : { type: "OR", conditions: alternatives },
+  }
+}
+
+/**
+ * Export a form as a versioned JSON Schema document with a JSON Forms UI
+ * schema. `x-sdigdata` carries the stored definition for lossless re-import.
+ */
+export function exportFormDefinition(
+  form: Pick<Form, "id" | "title" | "description" | "version" | "status" | "schema">,
+  conditionalRules: ConditionalRule[] = [],
+  validationRules: ExportValidationRule[] = [],
+  exportedAt: Date = new Date()
+): FormDefinitionDocument {
+  const fields = form.schema.fields ?? []
+  const pages = form.schema.pages ?? []
+  const activeValidation = validationRules.filter((rule) => rule.enabled !== false)
+  const activeConditional = conditionalRules.filter((rule) => rule.enabled)
+
+  const showRulesFor = (id: string) =>
+    activeConditional.filter((rule) =>
+      rule.actions.some((action) => action.type === "show" && action.target_field_ids.includes(id))
+    )
+
+  const control = (field: FormField): UISchemaElement => {
+    const element: UISchemaElement = {
+      type: "Control",
+      scope: `#/properties/${field.id}`,
+      label: field.label,
+    }
+    if (field.type === "textarea") element.options = { multi: true }
+    if (field.placeholder) element.options = { ...element.options, placeholder: field.placeholder }
+    const rule = visibilityRule(showRulesFor(field.id))
+    if (rule) element.rule = rule
+    return element
+  }
+
+  const fieldsById = new Map(fields.map((field) => [field.id, field]))
+  const uischema: UISchemaElement =
+    pages.length > 1
+      ? {
+          type: "Categorization",
+          elements: [...pages]
+            .sort((a, b) => a.order - b.order)
+            .map((page) => ({
+              type: "Category",
+              label: page.title,
+              elements: page.fields
+                .map((id) => fieldsById.get(id))
+                .filter((field): field is FormField => Boolean(field))
+                .map(control),
+            })),
+        }
+      : { type: "VerticalLayout", elements: fields.map(control) }
+
+  return {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    $id: `urn:sdigdata:form:${form.id}:v${form.version}`,
+    $comment:
+      `Response schema for "${form.title}" (version ${form.version}). ` +
+      "Properties are keyed by field ID. x-uischema is a JSON Forms UI schema; " +
+      `x-sdigdata holds the stored definition (${FORM_DEFINITION_FORMAT} v${FORM_DEFINITION_FORMAT_VERSION}).`,
+    title: form.title,
+    ...(form.description ? { description: form.description } : {}),
+    type: "object",
+    properties: Object.fromEntries(
+      fields.map((field) => [
+        field.id,
+        fieldSchema(
+          field,
+          activeValidation.filter((rule) => rule.field_id === field.id)
+        ),
+      ])
+    ),
+    // Conditionally shown fields are only required when visible
+    required: fields
+      .filter((field) => field.required && showRulesFor(field.id).length === 0)
+      .map((field) => field.id),
+    "x-sdigdata": {
+      format: FORM_DEFINITION_FORMAT,
+      formatVersion: FORM_DEFINITION_FORMAT_VERSION,
+      formId: form.id,
+      formVersion: form.version,
+      status: form.status,
+      exportedAt: exportedAt.toISOString(),
+      fields,
+      pages,
+      conditionalRules,
+      validationRules,
+    },
+    "x-uischema": uischema,
+  }
+}
+
+/**
+ * File name for an exported definition, e.g. `household-survey-v3.xlsx`
+ */
+export function exportFileName(form: Pick<Form, "title" | "version">, extension: string): string {
+  const slug =
+    form.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "form"
+  return `${slug}-v${form.version}.${extension}`
+}
@@ -0,0 +1,325 @@
+/**
+ * Form Builder History
+ *
+ * Branchable undo history for the form builder. Commands are kept as a tree
+ * instead of a list: executing a command after undoing starts a new branch
+ * rather than discarding the old redo path, and any point in the tree can be
+ * jumped to by undoing back to the common ancestor and redoing forward.
+ * Trees are persisted per form in IndexedDB so history survives reloads,
+ * alongside a fingerprint of the form they were recorded against; a saved
+ * tree whose fingerprint no longer matches the loaded form is stale.
+ */
+
+import { openDatabase, withStore, isIndexedDBAvailable } from "./idb"
+import { logger } from "./logger"
+import type { Command } from "./types-extended"
+
+const DB_NAME = "sdigdata-form-history"
+const DB_VERSION = 1
+const HISTORY_STORE = "histories"
+
+/** Key used in `activeChild` for the point before any command */
+export const HISTORY_ROOT = "root"
+
+export interface HistoryNode {
+  id: string
+  parentId: string | null
+  command: Command
+}
+
+export interface HistoryTree {
+  nodes: Record<string, HistoryNode>
+  /** Last applied command; `null` when everything has been undone */
+  headId: string | null
+  /** Child most recently visited from each node, which redo follows */
+  activeChild: Record<string, string>
+}
+
+export interface HistoryStep {
+  command: Command
+  direction: "undo" | "redo"
+}
+
+export interface TimelineEntry {
+  node: HistoryNode
+  /** Nesting level; abandoned branches are indented under their fork point */
+  depth: number
+  isHead: boolean
+  /** On the branch undo/redo currently walk */
+  isActive: boolean
+  /** Undone but still reachable with redo */
+  isAhead: boolean
+}
+
+export interface SavedHistory {
+  tree: HistoryTree
+  /** `fingerprintFormState` of the form at the tree's head */
+  fingerprint?: string
+}
+
+export interface FormHistoryRecord extends SavedHistory {
+  form_id: string
+  updated_at: string
+}
+
+//=============================================================================
+// Tree operations
+//=============================================================================
+
+export function createHistoryTree(): HistoryTree {
+  return { nodes: {}, headId: null, activeChild: {} }
+}
+
+function byTimestamp(a: HistoryNode, b: HistoryNode) {
+  return a.command.timestamp - b.command.timestamp
+}
+
+/**
+ * Children of a node (or of the root, for `null`), oldest first
+ */
+export function getChildren(tree: HistoryTree, id: string | null): HistoryNode[] {
+  return Object.values(tree.nodes)
+    .filter((node) => node.parentId === id)
+    .sort(byTimestamp)
+}
+
+/**
+ * Nodes from the root down to the given node, inclusive
+ */
+export function getPath(tree: HistoryTree, id: string | null): HistoryNode[] {
+  const path: HistoryNode[] = []
+  let node = id ? tree.nodes[id] : undefined
+  while (node) {
+    path.unshift(node)
+    node = node.parentId ? tree.nodes[node.parentId] : undefined
+  }
+  return path
+}
+
+/**
+ * The branch undo/redo walk: the path to the head, continued along the most
+ * recently visited children
+ */
+export function getActiveBranch(tree: HistoryTree): HistoryNode[] {
+  const branch = getPath(tree, tree.headId)
+  let next = tree.activeChild[tree.headId ?? HISTORY_ROOT]
+  while (next && tree.nodes[next]) {
+    branch.push(tree.nodes[next])
+    next = tree.activeChild[next]
+  }
+  return branch
+}
+
+/**
+ * Move the head, making the path to it the active branch
+ */
+export function moveHead(tree: HistoryTree, targetId: string | null): HistoryTree {
+  const activeChild = { ...tree.activeChild }
+  getPath(tree, targetId).forEach((node) => {
+    activeChild[node.parentId ?? HISTORY_ROOT] = node.id
+  })
+  return { ...tree, headId: targetId, activeChild }
+}
+
+/**
+ * Drop the oldest nodes until the tree fits. Abandoned leaves go first; once
+ * only the current path is left, its oldest commands are forgotten and their
+ * children become roots.
+ */
+export function pruneHistory(tree: HistoryTree, maxNodes: number): HistoryTree {
+  let nodes = { ...tree.nodes }
+  const activeChild = { ...tree.activeChild }
+
+  while (Object.keys(nodes).length > maxNodes) {
+    const current = { ...tree, nodes }
+    const protectedIds = new Set(getPath(current, tree.headId).map((node) => node.id))
+    const parents = new Set(Object.values(nodes).map((node) => node.parentId))
+
+    const leaf = Object.values(nodes)
+      .filter((node) => !protectedIds.has(node.id) && !parents.has(node.id))
+      .sort(byTimestamp)[0]
+    const victim = leaf ?? getChildren(current, null)[0]
+    if (!victim) break
+
+    const { [victim.id]: _removed, ...rest } = nodes
+    nodes = Object.fromEntries(
+      Object.entries(rest).map(([id, node]) => [
+        id,
+        node.parentId === victim.id ? { ...node, parentId: null } : node,
+      ])
+    )
+
+    delete activeChild[victim.id]
+    Object.keys(activeChild).forEach((key) => {
+      if (activeChild[key] === victim.id) delete activeChild[key]
+    })
+    // A forgotten root hands the active path to its child
+    if (!leaf && tree.activeChild[victim.id]) {
+      activeChild[HISTORY_ROOT] = tree.activeChild[victim.id]
+    }
+  }
+
+  return { ...tree, nodes, activeChild }
+}
+
+/**
+ * Record a command after the head. Existing children of the head are kept
+ * as an abandoned branch.
+ */
+export function appendCommand(tree: HistoryTree, command: Command, maxNodes: number): HistoryTree {
+  const node: HistoryNode = { id: command.id, parentId: tree.headId, command }
+  const next: HistoryTree = {
+    nodes: { ...tree.nodes, [node.id]: node },
+    headId: node.id,
+    activeChild: { ...tree.activeChild, [tree.headId ?? HISTORY_ROOT]: node.id },
+  }
+  return pruneHistory(next, maxNodes)
+}
+
+/**
+ * Commands to undo and redo, in order, to get from the head to a node
+ */
+export function planJump(tree: HistoryTree, targetId: string | null): HistoryStep[] {
+  const from = getPath(tree, tree.headId)
+  const to = getPath(tree, targetId)
+
+  let shared = 0
+  while (shared < from.length && shared < to.length && from[shared].id === to[shared].id) {
+    shared++
+  }
+
+  return [
+    ...from
+      .slice(shared)
+      .reverse()
+      .map((node) => ({ command: node.command, direction: "undo" as const })),
+    ...to.slice(shared).map((node) => ({ command: node.command, direction: "redo" as const })),
+  ]
+}
+
+/**
+ * Flatten the tree for display, oldest first. Abandoned branches are listed
+ * (indented) at the point they forked off, before the active continuation.
+ */
+export function listTimeline(tree: HistoryTree): TimelineEntry[] {
+  const entries: TimelineEntry[] = []
+  const activeIds = new Set(getActiveBranch(tree).map((node) => node.id))
+  const pastIds = new Set(getPath(tree, tree.headId).map((node) => node.id))
+
+  const visit = (parentId: string | null, depth: number) => {
+    const children = getChildren(tree, parentId)
+    const activeId = tree.activeChild[parentId ?? HISTORY_ROOT]
+    const main = children.find((child) => child.id === activeId) ?? children[children.length - 1]
+    const ordered = [...children.filter((child) => child !== main), ...(main ? [main] : [])]
+
+    ordered.forEach((node) => {
+      const isMain = node === main
+      const nodeDepth = isMain ? depth : depth + 1
+      entries.push({
+        node,
+        depth: nodeDepth,
+        isHead: node.id === tree.headId,
+        isActive: activeIds.has(node.id),
+        isAhead: activeIds.has(node.id) && !pastIds.has(node.id),
+      })
+      visit(node.id, nodeDepth)
+    })
+  }
+
+  visit(null, 0)
+  return entries
+}
+
+//=============================================================================
+// Persistence
+//=============================================================================
+
+/**
+ * Short hash of the form state history applies to, so a saved tree can be
+ * checked against the form it is restored onto (FNV-1a over the JSON)
+ */
+export function fingerprintFormState(state: unknown): string {
+  const json = JSON.stringify(state) ?? ""
+  let hash = 0x811c9dc5
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return `${json.length.toString(36)}-${(hash >>> 0).toString(36)}`
+}
+
+/**
+ * Whether a saved tree can be resumed on a form with the given fingerprint.
+ * Trees saved without a fingerprint can't be checked and count as stale.
+ */
+export function isHistoryCurrent(saved: SavedHistory, fingerprint: string): boolean {
+  return saved.fingerprint === fingerprint
+}
+
+/**
+ * Storage backend for history trees
+ */
+export interface HistoryStorage {
+  get: (formId: string) => Promise<SavedHistory | null>
+  put: (formId: string, history: SavedHistory) => Promise<void>
+  delete: (formId: string) => Promise<void>
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, [
+      { name: HISTORY_STORE, keyPath: "form_id" },
+    ]).catch((error) => {
+      dbPromise = null
+      throw error
+    })
+  }
+  return dbPromise
+}
+
+/**
+ * Default IndexedDB storage for builder history. Failures are logged and
+ * treated as "no history" so the builder keeps working without storage.
+ */
+export const indexedDBHistoryStorage: HistoryStorage = {
+  get: async (formId) => {
+    if (!isIndexedDBAvailable()) return null
+    try {
+      const record = await withStore<FormHistoryRecord | undefined>(
+        getDatabase(),
+        HISTORY_STORE,
+        "readonly",
+        (store) => store.get(formId)
+      )
+      return record ? { tree: record.tree, fingerprint: record.fingerprint } : null
+    } catch (error) {
+      logger.warn("Failed to load form history", { formId, error })
+      return null
+    }
+  },
+  put: async (formId, { tree, fingerprint }) => {
+    if (!isIndexedDBAvailable()) return
+    try {
+      await withStore(getDatabase(), HISTORY_STORE, "readwrite", (store) =>
+        store.put({
+          form_id: formId,
+          tree,
+          fingerprint,
+          updated_at: new Date().toISOString(),
+        } satisfies FormHistoryRecord)
+      )
+    } catch (error) {
+      logger.warn("Failed to save form history", { formId, error })
+    }
+  },
+  delete: async (formId) => {
+    if (!isIndexedDBAvailable()) return
+    try {
+      await withStore(getDatabase(), HISTORY_STORE, "readwrite", (store) => store.delete(formId))
+    } catch (error) {
+      logger.warn("Failed to clear form history", { formId, error })
+    }
+  },
+}
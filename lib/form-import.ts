@@ -0,0 +1,1309 @@
+/**
+ * Form Import
+ *
+ * Converts surveys built elsewhere into form schemas: XLSForm workbooks
+ * (ODK/KoBo survey, choices and settings sheets), Google Forms export JSON
+ * (the Forms API `forms.get` shape), CSV files using XLSForm's survey
+ * columns and form definition documents from `lib/form-export.ts`.
+ * XLSForm `relevant` expressions become conditional rules and `constraint`
+ * expressions become validation rules. Anything that can't be converted
+ * faithfully is skipped or approximated and listed in `issues`, so the
+ * person importing can review it before the form is created.
+ */
+
+import { parseFormula } from "./formula"
+import type { CreateFormInput, FormField, FormFieldOption } from "./types"
+import type { Condition, ConditionalAction, FormPage } from "./types-extended"
+import type { Workbook, SheetRows } from "./xlsx"
+import type { FormDefinitionDocument } from "./form-export"
+
+export type ImportSource = "xlsform" | "google_forms" | "csv" | "form_definition"
+
+export interface ImportIssue {
+  /** `info` for things skipped on purpose, such as XLSForm metadata */
+  severity: "info" | "warning" | "error"
+  /** Where the problem is, e.g. `survey row 12` or a question title */
+  location: string
+  message: string
+}
+
+export interface ImportedConditionalRule {
+  name: string
+  description?: string
+  priority: number
+  enabled: boolean
+  logic_operator: "AND" | "OR"
+  conditions: Condition[]
+  actions: ConditionalAction[]
+}
+
+export type ImportedValidationRuleType =
+  | "min_value"
+  | "max_value"
+  | "min_length"
+  | "max_length"
+  | "pattern"
+
+export interface ImportedValidationRule {
+  field_id: string
+  name: string
+  rule_type: ImportedValidationRuleType
+  parameters: { value: string | number }
+  error_message: string
+}
+
+export interface FormImportResult {
+  source: ImportSource
+  title: string
+  description?: string
+  fields: FormField[]
+  /** Page breaks; empty for single-page forms */
+  pages: FormPage[]
+  conditionalRules: ImportedConditionalRule[]
+  validationRules: ImportedValidationRule[]
+  issues: ImportIssue[]
+}
+
+interface SheetRecord {
+  /** 1-based spreadsheet row number, for issue locations */
+  row: number
+  values: Record<string, string>
+}
+
+const METADATA_TYPES = new Set([
+  "start",
+  "end",
+  "today",
+  "deviceid",
+  "subscriberid",
+  "simserial",
+  "phonenumber",
+  "username",
+  "email",
+  "audit",
+  "start-geopoint",
+  "background-audio",
+])
+
+const TRUE_VALUES = new Set(["yes", "true", "true()", "1"])
+
+/**
+ * Survey column recording the original field type for types XLSForm can't
+ * express (email, phone, ...). `instance::` columns become attributes on the
+ * instance node, which ODK tools carry along without interpreting.
+ */
+export const FIELD_TYPE_COLUMN = "instance::sdigdata_type"
+
+/** Field types that may be restored from FIELD_TYPE_COLUMN onto a text question */
+const TEXT_TYPE_HINTS = new Set<FormField["type"]>(["email", "phone", "url", "color"])
+
+//=============================================================================
+// Shared helpers
+//=============================================================================
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF)
+ */
+export function parseCsv(text: string): SheetRows {
+  const rows: SheetRows = []
+  let row: string[] = []
+  let cell = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+/**
+ * Turn sheet rows into records keyed by lower-cased header, skipping blank rows
+ */
+export function rowsToRecords(rows: SheetRows): SheetRecord[] {
+  const [header = [], ...body] = rows
+  const keys = header.map((key) => (key ?? "").trim().toLowerCase())
+
+  return body
+    .map((cells, index) => ({
+      row: index + 2,
+      values: Object.fromEntries(
+        keys
+          .map((key, column) => [key, (cells[column] ?? "").trim()] as const)
+          .filter(([key]) => key)
+      ),
+    }))
+    .filter((record) => Object.values(record.values).some(Boolean))
+}
+
+/**
+ * First non-empty value among a column and its translations
+ * (`label`, then `label::English (en)`, ...)
+ */
+function localized(values: Record<string, string>, column: string): string {
+  if (values[column]) return values[column]
+  const translated = Object.keys(values).find((key) => key.startsWith(`${column}::`) && values[key])
+  return translated ? values[translated] : ""
+}
+
+function slugify(text: string): string {
+  const slug = text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40)
+  return /^[a-z_]/.test(slug) ? slug : `q_${slug}`
+}
+
+function uniqueId(base: string, used: Set<string>): string {
+  let id = base || "field"
+  for (let n = 2; used.has(id); n++) id = `${base}_${n}`
+  used.add(id)
+  return id
+}
+
+function isTrue(value: string | undefined): boolean {
+  return TRUE_VALUES.has((value ?? "").trim().toLowerCase())
+}
+
+function toLiteral(raw: string): string | number | null {
+  const text = raw.trim()
+  const quoted = text.match(/^'(.*)'$|^"(.*)"$/)
+  if (quoted) return quoted[1] ?? quoted[2] ?? ""
+  const number = Number(text)
+  return text !== "" && Number.isFinite(number) ? number : null
+}
+
+/**
+ * Split an expression on a top-level keyword (outside quotes and parentheses)
+ */
+function splitTopLevel(expression: string, keyword: "and" | "or"): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let quote: string | null = null
+  let start = 0
+  const pattern = new RegExp(`^\\s${keyword}\\s`, "i")
+
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i]
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === "'" || char === '"') {
+      quote = char
+    } else if (char === "(") {
+      depth++
+    } else if (char === ")") {
+      depth--
+    } else if (depth === 0 && pattern.test(expression.slice(i))) {
+      parts.push(expression.slice(start, i).trim())
+      start = i + keyword.length + 2
+      i = start - 1
+    }
+  }
+
+  parts.push(expression.slice(start).trim())
+  return parts
+}
+
+function stripParens(expression: string): string {
+  let text = expression.trim()
+  while (text.startsWith("(") && text.endsWith(")")) {
+    // Only strip when the outer parentheses wrap the whole expression
+    let depth = 0
+    let wrapsAll = true
+    for (let i = 0; i < text.length - 1; i++) {
+      if (text[i] === "(") depth++
+      if (text[i] === ")") depth--
+      if (depth === 0) {
+        wrapsAll = false
+        break
+      }
+    }
+    if (!wrapsAll) break
+    text = text.slice(1, -1).trim()
+  }
+  return text
+}
+
+//=============================================================================
+// XLSForm expressions
+//=============================================================================
+
+const COMPARISON_OPERATORS: Record<string, Condition["operator"]> = {
+  "=": "equals",
+  "!=": "not_equals",
+  ">": "greater_than",
+  "<": "less_than",
+  ">=": "greater_than_or_equal",
+  "<=": "less_than_or_equal",
+}
+
+function convertClause(clause: string, fieldIds: Set<string>): Condition | null {
+  const text = stripParens(clause)
+  const known = (name: string) => (fieldIds.has(name) ? name : null)
+
+  const negatedSelected = text.match(
+    /^not\s*\(\s*selected\s*\(\s*\$\{([\w.-]+)\}\s*,\s*(.+)\)\s*\)$/i
+  )
+  if (negatedSelected) {
+    const fieldId = known(negatedSelected[1])
+    const value = toLiteral(negatedSelected[2])
+    return fieldId && value !== null
+      ? { field_id: fieldId, operator: "not_in", value: [String(value)], value_type: "static" }
+      : null
+  }
+
+  const selected = text.match(/^selected\s*\(\s*\$\{([\w.-]+)\}\s*,\s*(.+)\)$/i)
+  if (selected) {
+    const fieldId = known(selected[1])
+    const value = toLiteral(selected[2])
+    return fieldId && value !== null
+      ? { field_id: fieldId, operator: "equals", value: String(value), value_type: "static" }
+      : null
+  }
+
+  // string-length(${x}) > 0 and count-selected(${x}) >= 1 test for an answer
+  const answered = text.match(
+    /^(?:string-length|count-selected)\s*\(\s*\$\{([\w.-]+)\}\s*\)\s*(>|>=|=|!=)\s*(\d+)$/i
+  )
+  if (answered) {
+    const fieldId = known(answered[1])
+    const [operator, bound] = [answered[2], Number(answered[3])]
+    if (!fieldId) return null
+    if (
+      (operator === ">" && bound === 0) ||
+      (operator === ">=" && bound === 1) ||
+      (operator === "!=" && bound === 0)
+    ) {
+      return { field_id: fieldId, operator: "is_not_empty", value: null }
+    }
+    if (operator === "=" && bound === 0)
+      return { field_id: fieldId, operator: "is_empty", value: null }
+    return null
+  }
+
+  const comparison = text.match(/^\$\{([\w.-]+)\}\s*(!=|>=|<=|=|>|<)\s*(.+)$/)
+  if (comparison) {
+    const fieldId = known(comparison[1])
+    const value = toLiteral(comparison[3])
+    if (!fieldId || value === null) return null
+    if (value === "" && (comparison[2] === "=" || comparison[2] === "!=")) {
+      return {
+        field_id: fieldId,
+        operator: comparison[2] === "=" ? "is_empty" : "is_not_empty",
+        value: null,
+      }
+    }
+    return {
+      field_id: fieldId,
+      operator: COMPARISON_OPERATORS[comparison[2]],
+      value,
+      value_type: "static",
+    }
+  }
+
+  return null
+}
+
+/**
+ * Convert an XLSForm `relevant` expression into rule conditions. Returns
+ * null when the expression uses anything beyond simple comparisons joined
+ * by a single `and`/`or`.
+ *
+ * `not(selected())` becomes `not_in`, which unlike XPath is false while the
+ * question is unanswered, so an `is_empty` alternative is added alongside
+ * it. Rules don't nest, so among `and` clauses that can't be done and the
+ * clause is listed in `approximated`.
+ */
+export function convertRelevant(
+  expression: string,
+  fieldIds: Set<string>
+): { conditions: Condition[]; logic_operator: "AND" | "OR"; approximated: string[] } | null {
+  const text = stripParens(expression)
+  const orParts = splitTopLevel(text, "or")
+  const andParts = splitTopLevel(text, "and")
+  if (orParts.length > 1 && andParts.length > 1) return null
+
+  const clauses = orParts.length > 1 ? orParts : andParts
+  const converted = clauses.map((clause) => convertClause(clause, fieldIds))
+  if (converted.some((condition) => condition === null)) return null
+  const conditions = converted as Condition[]
+  const isNegatedSelection = (condition: Condition) => condition.operator === "not_in"
+
+  if (orParts.length > 1 || conditions.length === 1) {
+    const alternatives = conditions.flatMap((condition) =>
+      isNegatedSelection(condition)
+        ? [{ field_id: condition.field_id, operator: "is_empty" as const, value: null }, condition]
+        : [condition]
+    )
+    return {
+      conditions: alternatives,
+      logic_operator: alternatives.length > 1 ? "OR" : "AND",
+      approximated: [],
+    }
+  }
+
+  return {
+    conditions,
+    logic_operator: "AND",
+    approximated: clauses.filter((_, index) => isNegatedSelection(conditions[index])),
+  }
+}
+
+/**
+ * Convert an XLSForm `constraint` on a field into validation rules. Clauses
+ * that can't be expressed are returned in `unsupported`.
+ */
+export function convertConstraint(
+  expression: string,
+  field: Pick<FormField, "id" | "label" | "step">,
+  message: string
+): { rules: ImportedValidationRule[]; unsupported: string[]; approximated: string[] } {
+  const rules: ImportedValidationRule[] = []
+  const unsupported: string[] = []
+  const approximated: string[] = []
+  const errorMessage = message || `${field.label} has an invalid value`
+
+  const add = (rule_type: ImportedValidationRuleType, value: string | number) =>
+    rules.push({
+      field_id: field.id,
+      name: `${field.label}: ${rule_type.replace("_", " ")}`,
+      rule_type,
+      parameters: { value },
+      error_message: errorMessage,
+    })
+
+  splitTopLevel(stripParens(expression), "and").forEach((clause) => {
+    const text = stripParens(clause)
+
+    const regex = text.match(/^regex\s*\(\s*\.\s*,\s*(['"])(.*)\1\s*\)$/i)
+    if (regex) {
+      add("pattern", regex[2])
+      return
+    }
+
+    const length = text.match(/^string-length\s*\(\s*\.\s*\)\s*(>=|<=|>|<)\s*(\d+)$/i)
+    if (length) {
+      const [operator, bound] = [length[1], Number(length[2])]
+      if (operator === ">=") add("min_length", bound)
+      else if (operator === ">") add("min_length", bound + 1)
+      else if (operator === "<=") add("max_length", bound)
+      else add("max_length", bound - 1)
+      return
+    }
+
+    const value = text.match(/^\.\s*(>=|<=|>|<)\s*(-?\d+(?:\.\d+)?)$/)
+    if (value) {
+      const [operator, bound] = [value[1], Number(value[2])]
+      const isInteger = field.step === 1
+      if (operator === ">=") add("min_value", bound)
+      else if (operator === "<=") add("max_value", bound)
+      else if (isInteger)
+        add(operator === ">" ? "min_value" : "max_value", bound + (operator === ">" ? 1 : -1))
+      else {
+        // Decimal bounds can't be made exclusive
+        add(operator === ">" ? "min_value" : "max_value", bound)
+        approximated.push(text)
+      }
+      return
+    }
+
+    unsupported.push(text)
+  })
+
+  return { rules, unsupported, approximated }
+}
+
+/**
+ * Rewrite an XLSForm calculation in the formula language (`${x}` → `{x}`)
+ */
+export function convertCalculation(calculation: string): string {
+  return calculation
+    .replace(/\$\{([\w.-]+)\}/g, "{$1}")
+    .replace(/\s+div\s+/g, " / ")
+    .replace(/\s+mod\s+/g, " % ")
+}
+
+//=============================================================================
+// XLSForm
+//=============================================================================
+
+interface XLSFormConversion {
+  fields: FormField[]
+  pages: FormPage[]
+  conditionalRules: ImportedConditionalRule[]
+  validationRules: ImportedValidationRule[]
+  issues: ImportIssue[]
+}
+
+type ParsedType =
+  | {
+      kind: "field"
+      type: FormField["type"]
+      list?: string
+      extras?: Partial<FormField>
+      note?: string
+    }
+  | { kind: "begin_group" | "end_group" | "begin_repeat" | "end_repeat" }
+  | { kind: "metadata" }
+  | { kind: "skip"; reason: string }
+
+function parseXLSFormType(raw: string, appearance: string): ParsedType {
+  const [rawBase = "", list, modifier] = raw.trim().split(/\s+/)
+  const base = rawBase.toLowerCase()
+  const normalized = base === "begin" || base === "end" ? `${base}_${list?.toLowerCase()}` : base
+
+  switch (normalized) {
+    case "begin_group":
+    case "end_group":
+    case "begin_repeat":
+    case "end_repeat":
+      return { kind: normalized }
+    case "text":
+      return { kind: "field", type: appearance.includes("multiline") ? "textarea" : "text" }
+    case "integer":
+      return { kind: "field", type: "number", extras: { step: 1 } }
+    case "decimal":
+      return { kind: "field", type: "number" }
+    case "range":
+      return { kind: "field", type: appearance.includes("rating") ? "rating" : "range" }
+    case "select_one":
+      return {
+        kind: "field",
+        type: /minimal|autocomplete|search/.test(appearance) ? "select" : "radio",
+        list,
+        extras: modifier === "or_other" ? { allowOther: true } : undefined,
+      }
+    case "select_multiple":
+      return {
+        kind: "field",
+        type: "checkbox",
+        list,
+        extras: modifier === "or_other" ? { allowOther: true } : undefined,
+      }
+    case "select_one_from_file":
+    case "select_multiple_from_file":
+      return {
+        kind: "field",
+        type: "text",
+        note: `Choices from ${list ?? "an external file"} can't be imported; imported as a text question`,
+      }
+    case "date":
+      return { kind: "field", type: "date" }
+    case "datetime":
+      return {
+        kind: "field",
+        type: "date",
+        note: "Imported as a date question; the time is not captured",
+      }
+    case "time":
+      return { kind: "field", type: "text", note: "Time questions are imported as text" }
+    case "geopoint":
+      return { kind: "field", type: "gps" }
+    case "geotrace":
+    case "geoshape":
+      return { kind: "field", type: "gps", note: `${base} captures a single GPS point only` }
+    case "image":
+      return /signature|draw/.test(appearance)
+        ? { kind: "field", type: "signature" }
+        : { kind: "field", type: "file", extras: { accept: "image/*" } }
+    case "audio":
+      return { kind: "field", type: "file", extras: { accept: "audio/*" } }
+    case "video":
+      return { kind: "field", type: "file", extras: { accept: "video/*" } }
+    case "file":
+      return { kind: "field", type: "file" }
+    case "barcode":
+      return {
+        kind: "field",
+        type: "text",
+        note: "Barcode scanning isn't available; imported as text",
+      }
+    case "calculate":
+      return { kind: "field", type: "calculated" }
+    case "acknowledge":
+      return {
+        kind: "field",
+        type: "checkbox",
+        extras: { options: [{ label: "OK", value: "OK" }] },
+      }
+    case "note":
+      return {
+        kind: "skip",
+        reason: "Notes (display-only text) are not supported and were skipped",
+      }
+    case "hidden":
+      return { kind: "skip", reason: "Hidden questions are not supported and were skipped" }
+    case "rank":
+      return { kind: "skip", reason: "Ranking questions are not supported and were skipped" }
+    default:
+      if (METADATA_TYPES.has(normalized)) return { kind: "metadata" }
+      return { kind: "skip", reason: `Unknown question type "${raw}" was skipped` }
+  }
+}
+
+function parseRangeParameters(parameters: string): Partial<FormField> {
+  const values = Object.fromEntries(
+    parameters
+      .split(/[\s;]+/)
+      .map((pair) => pair.split("="))
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key.trim().toLowerCase(), Number(value)])
+  )
+  return {
+    // XLSForm defaults: start=1 end=10 step=1
+    min: Number.isFinite(values.start) ? values.start : 1,
+    max: Number.isFinite(values.end) ? values.end : 10,
+    step: Number.isFinite(values.step) ? values.step : 1,
+  }
+}
+
+interface Container {
+  kind: "root" | "group" | "repeat"
+  /** Repeat group being filled */
+  field?: FormField
+  /** IDs of every field created inside, for group-level relevant */
+  descendants: string[]
+  relevant?: string
+  label: string
+  row: number
+  topLevel: boolean
+}
+
+/**
+ * Convert survey records (and choice lists) into fields and rules
+ */
+function convertSurvey(
+  survey: SheetRecord[],
+  choiceLists: Map<string, FormFieldOption[]>,
+  sheetName: string
+): XLSFormConversion {
+  const issues: ImportIssue[] = []
+  const conditionalRules: ImportedConditionalRule[] = []
+  const validationRules: ImportedValidationRule[] = []
+  const fields: FormField[] = []
+  const usedIds = new Set<string>()
+
+  // All names up front, so relevant expressions can refer to later questions
+  const fieldIds = new Set(survey.map((record) => record.values.name).filter(Boolean))
+
+  const segments: Array<{ title?: string; fieldIds: string[] }> = [{ fieldIds: [] }]
+  const stack: Container[] = [{ kind: "root", descendants: [], label: "", row: 0, topLevel: false }]
+  const pending: Array<{ record: SheetRecord; field: FormField; inRepeat: boolean }> = []
+
+  const issue = (severity: ImportIssue["severity"], row: number, message: string) =>
+    issues.push({ severity, location: `${sheetName} row ${row}`, message })
+
+  const addRelevantRule = (relevant: string, targets: string[], label: string, row: number) => {
+    if (targets.length === 0) return
+    const converted = convertRelevant(relevant, fieldIds)
+    if (!converted) {
+      issue(
+        "warning",
+        row,
+        `Relevance "${relevant}" for "${label}" could not be converted; it is always shown`
+      )
+      return
+    }
+    converted.approximated.forEach((clause) =>
+      issue(
+        "warning",
+        row,
+        `Relevance "${clause}" for "${label}" hides the question while the answer is empty, where XLSForm shows it`
+      )
+    )
+    conditionalRules.push({
+      name: `Show ${label}`,
+      description: `Imported from relevant: ${relevant}`,
+      priority: 0,
+      enabled: true,
+      logic_operator: converted.logic_operator,
+      conditions: converted.conditions,
+      actions: [{ type: "show", target_field_ids: targets }],
+    })
+  }
+
+  survey.forEach((record) => {
+    const { values, row } = record
+    const appearance = (values.appearance ?? "").toLowerCase()
+    const parsed = parseXLSFormType(values.type ?? "", appearance)
+    const label = localized(values, "label") || values.name || `Row ${row}`
+
+    switch (parsed.kind) {
+      case "metadata":
+        issue("info", row, `Metadata "${values.type}" is recorded automatically and was skipped`)
+        return
+
+      case "skip":
+        issue("warning", row, parsed.reason)
+        return
+
+      case "begin_group": {
+        const topLevel = stack.length === 1
+        if (topLevel) segments.push({ title: label, fieldIds: [] })
+        stack.push({
+          kind: "group",
+          descendants: [],
+          relevant: values.relevant,
+          label,
+          row,
+          topLevel,
+        })
+        return
+      }
+
+      case "begin_repeat": {
+        if (stack.some((entry) => entry.kind === "repeat")) {
+          issue("warning", row, `Nested repeat "${label}" was merged into its parent repeat`)
+          stack.push({
+            kind: "group",
+            descendants: [],
+            relevant: values.relevant,
+            label,
+            row,
+            topLevel: false,
+          })
+          return
+        }
+
+        const id = uniqueId(values.name || slugify(label), usedIds)
+        const repeat: FormField = {
+          id,
+          type: "group",
+          label,
+          required: false,
+          repeatable: true,
+          fields: [],
+        }
+        const count = values.repeat_count?.trim()
+        const countRef = count?.match(/^\$\{([\w.-]+)\}$/)
+        if (countRef) repeat.repeatCountField = countRef[1]
+        else if (count && Number.isFinite(Number(count))) {
+          repeat.minRepeats = Number(count)
+          repeat.maxRepeats = Number(count)
+        } else if (count) {
+          issue("warning", row, `Repeat count "${count}" could not be converted`)
+        }
+
+        placeField(repeat)
+        stack.push({
+          kind: "repeat",
+          field: repeat,
+          descendants: [],
+          relevant: values.relevant,
+          label,
+          row,
+          topLevel: false,
+        })
+        return
+      }
+
+      case "end_group":
+      case "end_repeat": {
+        if (stack.length === 1) {
+          issue("error", row, `"${values.type}" has no matching begin`)
+          return
+        }
+        const closed = stack.pop()!
+        if (closed.relevant) {
+          const targets =
+            closed.kind === "repeat" && closed.field ? [closed.field.id] : closed.descendants
+          addRelevantRule(closed.relevant, targets, closed.label, closed.row)
+        }
+        if (closed.topLevel) segments.push({ fieldIds: [] })
+        return
+      }
+
+      case "field": {
+        const id = uniqueId(values.name || slugify(label), usedIds)
+        if (values.name && id !== values.name) {
+          issue("warning", row, `Duplicate name "${values.name}" was renamed to "${id}"`)
+        }
+
+        const field: FormField = {
+          id,
+          type: parsed.type,
+          label,
+          required: isTrue(values.required),
+          ...parsed.extras,
+        }
+        const hint = localized(values, "hint")
+        if (hint) field.helpText = hint
+        if (values.default) {
+          field.defaultValue = field.type === "number" ? Number(values.default) : values.default
+        }
+        if (parsed.note) issue("warning", row, `"${label}": ${parsed.note}`)
+        if (
+          values.required &&
+          !field.required &&
+          !/^(no|false|false\(\))$/i.test(values.required)
+        ) {
+          issue(
+            "warning",
+            row,
+            `Conditional requirement "${values.required}" for "${label}" was not converted`
+          )
+        }
+        if (isTrue(values.read_only)) {
+          issue("warning", row, `"${label}" is read-only in XLSForm; it is editable here`)
+        }
+        if (values.choice_filter) {
+          issue(
+            "warning",
+            row,
+            `Choice filter on "${label}" was not converted; all choices are shown`
+          )
+        }
+
+        if (field.type === "range" || field.type === "rating")
+          Object.assign(field, parseRangeParameters(values.parameters ?? ""))
+
+        const typeHint = values[FIELD_TYPE_COLUMN] as FormField["type"] | undefined
+        if (typeHint && field.type === "text" && TEXT_TYPE_HINTS.has(typeHint)) {
+          field.type = typeHint
+        }
+
+        if (parsed.list) {
+          const options = choiceLists.get(parsed.list)
+          if (!options)
+            issue("error", row, `Choice list "${parsed.list}" for "${label}" was not found`)
+          field.options = options ?? []
+        }
+
+        if (field.type === "calculated") {
+          field.formula = convertCalculation(values.calculation ?? "")
+          if (!field.formula.trim()) {
+            issue("warning", row, `"${label}" has no calculation`)
+          } else {
+            try {
+              parseFormula(field.formula)
+            } catch {
+              issue(
+                "warning",
+                row,
+                `Calculation for "${label}" uses unsupported functions; check the formula`
+              )
+            }
+          }
+        }
+
+        placeField(field)
+        pending.push({ record, field, inRepeat: stack.some((entry) => entry.kind === "repeat") })
+        return
+      }
+    }
+  })
+
+  stack.slice(1).forEach((open) => issue("error", open.row, `"${open.label}" is never closed`))
+
+  // Rules are created after every field exists so names resolve
+  pending.forEach(({ record, field, inRepeat }) => {
+    const { values, row } = record
+    const hasRules = values.relevant || values.constraint
+    if (hasRules && inRepeat) {
+      issue(
+        "warning",
+        row,
+        `Relevance and constraints inside repeats were not converted for "${field.label}"`
+      )
+      return
+    }
+
+    if (values.relevant) addRelevantRule(values.relevant, [field.id], field.label, row)
+
+    if (values.constraint) {
+      const message = localized(values, "constraint_message")
+      const { rules, unsupported, approximated } = convertConstraint(
+        values.constraint,
+        field,
+        message
+      )
+      validationRules.push(...rules)
+      unsupported.forEach((clause) =>
+        issue("warning", row, `Constraint "${clause}" on "${field.label}" could not be converted`)
+      )
+      approximated.forEach((clause) =>
+        issue(
+          "warning",
+          row,
+          `Constraint "${clause}" on "${field.label}" was imported as an inclusive bound`
+        )
+      )
+    }
+  })
+
+  const pageSegments = segments.filter((segment) => segment.fieldIds.length > 0)
+  const pages: FormPage[] =
+    pageSegments.length > 1
+      ? pageSegments.map((segment, index) => ({
+          id: `page_${index + 1}`,
+          title: segment.title || `Page ${index + 1}`,
+          fields: segment.fieldIds,
+          order: index,
+        }))
+      : []
+
+  return { fields, pages, conditionalRules, validationRules, issues }
+
+  function placeField(field: FormField) {
+    const repeat = [...stack].reverse().find((entry) => entry.kind === "repeat")
+    stack.forEach((entry) => entry.descendants.push(field.id))
+    if (repeat?.field && repeat.field !== field) {
+      repeat.field.fields = [...(repeat.field.fields ?? []), field]
+      return
+    }
+    fields.push(field)
+    segments[segments.length - 1].fieldIds.push(field.id)
+  }
+}
+
+function readChoiceLists(choices: SheetRecord[]): Map<string, FormFieldOption[]> {
+  const lists = new Map<string, FormFieldOption[]>()
+  choices.forEach(({ values }) => {
+    const list = values.list_name || values["list name"]
+    if (!list || !values.name) return
+    lists.set(list, [
+      ...(lists.get(list) ?? []),
+      { value: values.name, label: localized(values, "label") || values.name },
+    ])
+  })
+  return lists
+}
+
+function findSheet(workbook: Workbook, name: string): SheetRows | undefined {
+  const key = Object.keys(workbook).find((sheet) => sheet.trim().toLowerCase() === name)
+  return key ? workbook[key] : undefined
+}
+
+/**
+ * Convert an XLSForm workbook (survey, choices and settings sheets)
+ */
+export function importXLSForm(
+  workbook: Workbook,
+  fallbackTitle = "Imported form"
+): FormImportResult {
+  const survey = findSheet(workbook, "survey")
+  if (!survey) {
+    return {
+      source: "xlsform",
+      title: fallbackTitle,
+      fields: [],
+      pages: [],
+      conditionalRules: [],
+      validationRules: [],
+      issues: [{ severity: "error", location: "workbook", message: 'No "survey" sheet was found' }],
+    }
+  }
+
+  const choices = rowsToRecords(findSheet(workbook, "choices") ?? [])
+  const [settings] = rowsToRecords(findSheet(workbook, "settings") ?? [])
+  const conversion = convertSurvey(rowsToRecords(survey), readChoiceLists(choices), "survey")
+
+  return {
+    source: "xlsform",
+    title: settings?.values.form_title || fallbackTitle,
+    ...conversion,
+  }
+}
+
+//=============================================================================
+// CSV
+//=============================================================================
+
+/**
+ * Convert a CSV of XLSForm survey columns. Since a CSV has no choices sheet,
+ * options go in a `choices` column as `value=Label` pairs separated by `;`
+ * (or just labels), and the list name in `type` is optional.
+ */
+export function importCsvFields(text: string, fallbackTitle = "Imported form"): FormImportResult {
+  const records = rowsToRecords(parseCsv(text))
+  const choiceLists = new Map<string, FormFieldOption[]>()
+
+  const survey = records.map((record) => {
+    const { values } = record
+    const [base, list, ...rest] = (values.type ?? "").trim().split(/\s+/)
+    if (!/^select_(one|multiple)$/i.test(base ?? "")) return record
+
+    const listName = list && list !== "or_other" ? list : `row_${record.row}`
+    if (values.choices) {
+      choiceLists.set(
+        listName,
+        values.choices
+          .split(";")
+          .map((choice) => choice.trim())
+          .filter(Boolean)
+          .map((choice) => {
+            const [value, ...label] = choice.split("=")
+            return label.length > 0
+              ? { value: value.trim(), label: label.join("=").trim() }
+              : { value: slugify(choice), label: choice }
+          })
+      )
+    }
+    const modifier = list === "or_other" ? ["or_other"] : rest
+    return { ...record, values: { ...values, type: [base, listName, ...modifier].join(" ") } }
+  })
+
+  if (records.length > 0 && !("type" in records[0].values)) {
+    return {
+      source: "csv",
+      title: fallbackTitle,
+      fields: [],
+      pages: [],
+      conditionalRules: [],
+      validationRules: [],
+      issues: [{ severity: "error", location: "CSV", message: 'The CSV needs a "type" column' }],
+    }
+  }
+
+  return { source: "csv", title: fallbackTitle, ...convertSurvey(survey, choiceLists, "CSV") }
+}
+
+//=============================================================================
+// Google Forms
+//=============================================================================
+
+interface GoogleOption {
+  value?: string
+  isOther?: boolean
+  goToAction?: string
+  goToSectionId?: string
+}
+
+interface GoogleQuestion {
+  questionId?: string
+  required?: boolean
+  textQuestion?: { paragraph?: boolean }
+  choiceQuestion?: { type?: "RADIO" | "CHECKBOX" | "DROP_DOWN"; options?: GoogleOption[] }
+  scaleQuestion?: { low?: number; high?: number; lowLabel?: string; highLabel?: string }
+  ratingQuestion?: { ratingScaleLevel?: number }
+  dateQuestion?: { includeTime?: boolean }
+  timeQuestion?: { duration?: boolean }
+  fileUploadQuestion?: { types?: string[] }
+  rowQuestion?: { title?: string }
+}
+
+interface GoogleItem {
+  itemId?: string
+  title?: string
+  description?: string
+  questionItem?: { question?: GoogleQuestion }
+  questionGroupItem?: {
+    questions?: GoogleQuestion[]
+    grid?: { columns?: { type?: "RADIO" | "CHECKBOX"; options?: GoogleOption[] } }
+  }
+  pageBreakItem?: object
+  textItem?: object
+  imageItem?: object
+  videoItem?: object
+}
+
+interface GoogleForm {
+  info?: { title?: string; documentTitle?: string; description?: string }
+  items?: GoogleItem[]
+}
+
+const GOOGLE_FILE_TYPES: Record<string, string> = {
+  IMAGE: "image/*",
+  VIDEO: "video/*",
+  AUDIO: "audio/*",
+  PDF: "application/pdf",
+  DOCUMENT: ".doc,.docx,.odt,.rtf,.txt",
+  SPREADSHEET: ".xls,.xlsx,.ods,.csv",
+  PRESENTATION: ".ppt,.pptx,.odp",
+  DRAWING: "image/*",
+}
+
+/**
+ * Whether parsed JSON looks like a Google Forms export
+ */
+export function isGoogleFormExport(value: unknown): value is GoogleForm {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Array.isArray((value as GoogleForm).items) &&
+    ("info" in value || "formId" in value)
+  )
+}
+
+function googleOptions(options: GoogleOption[] = []): FormFieldOption[] {
+  const used = new Set<string>()
+  return options
+    .filter((option) => !option.isOther && option.value)
+    .map((option) => ({ label: option.value!, value: uniqueId(slugify(option.value!), used) }))
+}
+
+/**
+ * Convert a Google Forms export (the Forms API `forms.get` response)
+ */
+export function importGoogleForm(form: GoogleForm): FormImportResult {
+  const issues: ImportIssue[] = []
+  const fields: FormField[] = []
+  const usedIds = new Set<string>()
+  const segments: Array<{ title?: string; description?: string; fieldIds: string[] }> = [
+    { fieldIds: [] },
+  ]
+
+  const add = (field: FormField) => {
+    fields.push(field)
+    segments[segments.length - 1].fieldIds.push(field.id)
+  }
+
+  ;(form.items ?? []).forEach((item, index) => {
+    const title = item.title?.trim() || `Question ${index + 1}`
+    const location = `item ${index + 1} ("${title}")`
+    const base = { label: title, ...(item.description ? { helpText: item.description } : {}) }
+
+    if (item.pageBreakItem) {
+      segments.push({ title, description: item.description, fieldIds: [] })
+      return
+    }
+    if (item.textItem || item.imageItem || item.videoItem) {
+      issues.push({
+        severity: "warning",
+        location,
+        message: "Text, image and video items were skipped",
+      })
+      return
+    }
+
+    if (item.questionGroupItem) {
+      const grid = item.questionGroupItem.grid?.columns
+      const options = googleOptions(grid?.options)
+      ;(item.questionGroupItem.questions ?? []).forEach((question) => {
+        const row = question.rowQuestion?.title ?? ""
+        add({
+          id: uniqueId(slugify(`${title} ${row}`), usedIds),
+          type: grid?.type === "CHECKBOX" ? "checkbox" : "radio",
+          label: `${title}: ${row}`,
+          required: Boolean(question.required),
+          options,
+        })
+      })
+      issues.push({
+        severity: "info",
+        location,
+        message: "Grid was split into one question per row",
+      })
+      return
+    }
+
+    const question = item.questionItem?.question
+    if (!question) {
+      issues.push({ severity: "warning", location, message: "Unrecognised item was skipped" })
+      return
+    }
+
+    const field: FormField = {
+      id: uniqueId(slugify(title), usedIds),
+      type: "text",
+      required: Boolean(question.required),
+      ...base,
+    }
+
+    if (question.textQuestion) {
+      field.type = question.textQuestion.paragraph ? "textarea" : "text"
+    } else if (question.choiceQuestion) {
+      const choice = question.choiceQuestion
+      field.type =
+        choice.type === "CHECKBOX" ? "checkbox" : choice.type === "DROP_DOWN" ? "select" : "radio"
+      field.options = googleOptions(choice.options)
+      if (choice.options?.some((option) => option.isOther)) field.allowOther = true
+      if (choice.options?.some((option) => option.goToAction || option.goToSectionId)) {
+        issues.push({
+          severity: "warning",
+          location,
+          message: "Go-to-section navigation was not converted; add conditional rules instead",
+        })
+      }
+    } else if (question.scaleQuestion) {
+      const scale = question.scaleQuestion
+      Object.assign(field, { type: "range", min: scale.low ?? 1, max: scale.high ?? 5, step: 1 })
+      if (scale.lowLabel || scale.highLabel) {
+        field.helpText = [
+          field.helpText,
+          `${scale.low ?? 1} = ${scale.lowLabel ?? ""}, ${scale.high ?? 5} = ${scale.highLabel ?? ""}`,
+        ]
+          .filter(Boolean)
+          .join(" · ")
+      }
+    } else if (question.ratingQuestion) {
+      Object.assign(field, { type: "rating", max: question.ratingQuestion.ratingScaleLevel ?? 5 })
+    } else if (question.dateQuestion) {
+      field.type = "date"
+      if (question.dateQuestion.includeTime) {
+        issues.push({
+          severity: "warning",
+          location,
+          message: "Imported as a date question; the time is not captured",
+        })
+      }
+    } else if (question.timeQuestion) {
+      issues.push({ severity: "warning", location, message: "Time questions are imported as text" })
+    } else if (question.fileUploadQuestion) {
+      field.type = "file"
+      const accept = (question.fileUploadQuestion.types ?? [])
+        .map((type) => GOOGLE_FILE_TYPES[type])
+        .filter(Boolean)
+      if (accept.length > 0) field.accept = [...new Set(accept)].join(",")
+    } else {
+      issues.push({
+        severity: "warning",
+        location,
+        message: "Unknown question kind; imported as text",
+      })
+    }
+
+    add(field)
+  })
+
+  const pageSegments = segments.filter((segment) => segment.fieldIds.length > 0)
+  const pages: FormPage[] =
+    pageSegments.length > 1
+      ? pageSegments.map((segment, index) => ({
+          id: `page_${index + 1}`,
+          title: segment.title || `Page ${index + 1}`,
+          ...(segment.description ? { description: segment.description } : {}),
+          fields: segment.fieldIds,
+          order: index,
+        }))
+      : []
+
+  return {
+    source: "google_forms",
+    title: form.info?.title || form.info?.documentTitle || "Imported Google Form",
+    description: form.info?.description,
+    fields,
+    pages,
+    conditionalRules: [],
+    validationRules: [],
+    issues,
+  }
+}
+
+//=============================================================================
+// Form definition documents
+//=============================================================================
+
+const IMPORTABLE_VALIDATION_TYPES = new Set<string>([
+  "min_value",
+  "max_value",
+  "min_length",
+  "max_length",
+  "pattern",
+])
+
+/**
+ * Whether parsed JSON is a form definition document from `exportFormDefinition`
+ */
+export function isFormDefinitionDocument(value: unknown): value is FormDefinitionDocument {
+  const meta = (value as Partial<FormDefinitionDocument> | null)?.["x-sdigdata"]
+  return meta?.format === "sdigdata.form-definition" && Array.isArray(meta.fields)
+}
+
+/**
+ * Read back a form definition document, using the stored definition
+ */
+export function importFormDefinition(document: FormDefinitionDocument): FormImportResult {
+  const meta = document["x-sdigdata"]
+  const issues: ImportIssue[] = []
+
+  if (meta.formatVersion > 1) {
+    issues.push({
+      severity: "warning",
+      location: "document",
+      message: `Format version ${meta.formatVersion} is newer than this app supports; check the result`,
+    })
+  }
+
+  const validationRules = (meta.validationRules ?? []).flatMap((rule) => {
+    if (!IMPORTABLE_VALIDATION_TYPES.has(rule.rule_type)) {
+      issues.push({
+        severity: "warning",
+        location: `field "${rule.field_id}"`,
+        message: `"${rule.rule_type}" validation can't be imported and was skipped`,
+      })
+      return []
+    }
+    return [
+      {
+        field_id: rule.field_id,
+        name: `${rule.field_id}: ${rule.rule_type.replace("_", " ")}`,
+        rule_type: rule.rule_type as ImportedValidationRuleType,
+        parameters: { value: rule.parameters?.value },
+        error_message: rule.error_message,
+      },
+    ]
+  })
+
+  return {
+    source: "form_definition",
+    title: document.title,
+    description: document.description,
+    fields: meta.fields,
+    pages: meta.pages ?? [],
+    conditionalRules: (meta.conditionalRules ?? []).map((rule) => ({
+      name: rule.name,
+      description: rule.description,
+      priority: rule.priority,
+      enabled: rule.enabled,
+      logic_operator: rule.logic_operator,
+      conditions: rule.conditions,
+      actions: rule.actions,
+    })),
+    validationRules,
+    issues,
+  }
+}
+
+//=============================================================================
+// Output
+//=============================================================================
+
+/**
+ * Payload for `formsAPI.create` from an import result
+ */
+export function toCreateFormInput(
+  result: FormImportResult,
+  organizationId: string
+): CreateFormInput {
+  return {
+    title: result.title,
+    description: result.description,
+    organization_id: organizationId,
+    form_schema: {
+      fields: result.fields,
+      branding: {},
+      ...(result.pages.length > 1 ? { pages: result.pages } : {}),
+    },
+    version: 1,
+    status: "draft",
+  }
+}
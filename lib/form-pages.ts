@@ -0,0 +1,235 @@
+/**
+ * Multi-page Forms
+ *
+ * Resolves `FormPage` definitions against a form's fields for the paged
+ * renderers, evaluates per-page `show_conditions` (skip logic) and keeps
+ * page breaks consistent while fields are reordered in the builder.
+ *
+ * In the builder a page is anchored on its first field: moving that field
+ * moves the page break with it, and every other field belongs to the page
+ * of the closest anchor above it.
+ */
+
+import type { FormField, FormResponseData } from "./types"
+import type { FormPage, FormPageSettings } from "./types-extended"
+import { evaluateCondition } from "./conditional-logic"
+
+export const DEFAULT_PAGE_SETTINGS: FormPageSettings = {
+  allow_page_navigation: true,
+  show_progress_bar: true,
+  save_on_page_change: true,
+}
+
+/**
+ * A page with its field IDs resolved to field definitions
+ */
+export interface ResolvedFormPage extends Omit<FormPage, "fields"> {
+  fields: FormField[]
+}
+
+function generatePageId(): string {
+  return `page_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+function sortPages(pages: FormPage[]): FormPage[] {
+  return [...pages].sort((a, b) => a.order - b.order)
+}
+
+//=============================================================================
+// Rendering
+//=============================================================================
+
+/**
+ * Group fields into pages.
+ *
+ * Unknown field IDs are ignored, a field listed on several pages stays on the
+ * first one, and fields not assigned to any page are appended to the last
+ * page so nothing added after the pages were defined is lost. Forms without
+ * pages resolve to a single page holding every field.
+ */
+export function resolveFormPages(
+  fields: FormField[],
+  pages: FormPage[] | null | undefined
+): ResolvedFormPage[] {
+  if (!pages || pages.length === 0) {
+    return [{ id: "page_1", title: "", order: 0, fields }]
+  }
+
+  const fieldsById = new Map(fields.map((field) => [field.id, field]))
+  const assigned = new Set<string>()
+
+  const resolved: ResolvedFormPage[] = sortPages(pages).map((page) => ({
+    ...page,
+    fields: page.fields
+      .filter((fieldId) => fieldsById.has(fieldId) && !assigned.has(fieldId))
+      .map((fieldId) => {
+        assigned.add(fieldId)
+        return fieldsById.get(fieldId)!
+      }),
+  }))
+
+  const unassigned = fields.filter((field) => !assigned.has(field.id))
+  resolved[resolved.length - 1].fields.push(...unassigned)
+
+  const nonEmpty = resolved.filter((page) => page.fields.length > 0)
+  return nonEmpty.length > 0 ? nonEmpty : [resolved[0]]
+}
+
+/**
+ * Check a page's skip logic; all `show_conditions` must hold
+ */
+export function isPageVisible(
+  page: Pick<FormPage, "show_conditions">,
+  data: FormResponseData
+): boolean {
+  if (!page.show_conditions || page.show_conditions.length === 0) return true
+  return page.show_conditions.every((condition) => evaluateCondition(condition, data))
+}
+
+/**
+ * Pages the respondent will actually see, in order
+ */
+export function getVisiblePages<T extends Pick<FormPage, "show_conditions">>(
+  pages: T[],
+  data: FormResponseData
+): T[] {
+  return pages.filter((page) => isPageVisible(page, data))
+}
+
+/**
+ * IDs of fields on skipped pages; they are neither validated nor submitted
+ */
+export function getSkippedFieldIds(pages: ResolvedFormPage[], data: FormResponseData): Set<string> {
+  return new Set(
+    pages
+      .filter((page) => !isPageVisible(page, data))
+      .flatMap((page) => page.fields.map((field) => field.id))
+  )
+}
+
+/**
+ * Position of the current page among the visible pages.
+ *
+ * When an answer hides the current page, fall back to the closest visible
+ * page before it so the respondent is never stranded on a skipped page.
+ */
+export function findVisiblePageIndex(
+  pages: ResolvedFormPage[],
+  visiblePages: ResolvedFormPage[],
+  pageId: string | null
+): number {
+  if (visiblePages.length === 0) return -1
+
+  const visibleIndex = visiblePages.findIndex((page) => page.id === pageId)
+  if (visibleIndex >= 0) return visibleIndex
+
+  const pageIndex = pages.findIndex((page) => page.id === pageId)
+  if (pageIndex < 0) return 0
+
+  for (let i = pageIndex - 1; i >= 0; i--) {
+    const index = visiblePages.findIndex((page) => page.id === pages[i].id)
+    if (index >= 0) return index
+  }
+  return 0
+}
+
+//=============================================================================
+// Builder
+//=============================================================================
+
+/**
+ * Rebuild pages as contiguous runs of `fields`, each starting at its anchor
+ * field. Pages whose anchor was deleted merge into the page above; the first
+ * page always starts at the first field. A single remaining page means the
+ * form is no longer paged, so an empty list is returned.
+ */
+export function normalizePageBreaks(fields: FormField[], pages: FormPage[]): FormPage[] {
+  if (pages.length === 0 || fields.length === 0) return []
+
+  const positions = new Map(fields.map((field, index) => [field.id, index]))
+  const [first, ...rest] = sortPages(pages)
+
+  const anchored = [
+    { page: first, start: 0 },
+    ...rest
+      .filter((page) => page.fields.length > 0 && positions.has(page.fields[0]))
+      .map((page) => ({ page, start: positions.get(page.fields[0])! }))
+      .filter(({ start }) => start > 0),
+  ].sort((a, b) => a.start - b.start)
+
+  // Two breaks on the same field collapse into the first one
+  const unique = anchored.filter(
+    (entry, index) => index === 0 || entry.start !== anchored[index - 1].start
+  )
+  if (unique.length < 2) return []
+
+  return unique.map(({ page, start }, index) => ({
+    ...page,
+    order: index,
+    fields: fields
+      .slice(start, index + 1 < unique.length ? unique[index + 1].start : fields.length)
+      .map((field) => field.id),
+  }))
+}
+
+/**
+ * Reorder fields to follow the page layout so that every page is a
+ * contiguous run, as the builder expects
+ */
+export function orderFieldsByPages(fields: FormField[], pages: FormPage[] | null | undefined) {
+  if (!pages || pages.length === 0) return { fields, pages: [] as FormPage[] }
+
+  const resolved = resolveFormPages(fields, pages)
+  const orderedFields = resolved.flatMap((page) => page.fields)
+  const orderedPages = resolved.map((page) => ({
+    ...page,
+    fields: page.fields.map((field) => field.id),
+  }))
+
+  return { fields: orderedFields, pages: normalizePageBreaks(orderedFields, orderedPages) }
+}
+
+/**
+ * Start a new page at `fieldId`. Turning a single-page form into a paged one
+ * also creates the first page.
+ */
+export function insertPageBreak(
+  fields: FormField[],
+  pages: FormPage[],
+  fieldId: string
+): FormPage[] {
+  const current = normalizePageBreaks(fields, pages)
+  const index = fields.findIndex((field) => field.id === fieldId)
+  if (index <= 0 || current.some((page) => page.fields[0] === fieldId)) return current
+
+  const existing =
+    current.length > 0
+      ? current
+      : [{ id: generatePageId(), title: "Page 1", order: 0, fields: [fields[0].id] }]
+
+  return normalizePageBreaks(fields, [
+    ...existing,
+    {
+      id: generatePageId(),
+      title: `Page ${existing.length + 1}`,
+      order: existing.length,
+      fields: [fieldId],
+    },
+  ])
+}
+
+/**
+ * Remove a page break; its fields join the page above
+ */
+export function removePageBreak(
+  fields: FormField[],
+  pages: FormPage[],
+  pageId: string
+): FormPage[] {
+  const current = normalizePageBreaks(fields, pages)
+  if (current[0]?.id === pageId) return current
+  return normalizePageBreaks(
+    fields,
+    current.filter((page) => page.id !== pageId)
+  )
+}
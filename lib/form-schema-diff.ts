@@ -0,0 +1,482 @@
+/**
+ * Form Schema Diff
+ *
+ * Client-side structural diff between two form schema snapshots, and an
+ * estimate of how each change affects responses already collected. Unlike
+ * the server comparison (`formsAPI.compareVersions`), changes are classified
+ * by what they mean for existing data:
+ *
+ * - removing a field orphans its answers
+ * - changing a type, renaming or removing option values, tightening
+ *   validation or making a field required can invalidate answers
+ *
+ * Fields inside repeating groups are compared too, addressed as
+ * `<group id>.<child id>`.
+ */
+
+import type { FormField, FormFieldOption, FormResponse } from "./types"
+
+export type SchemaChangeKind =
+  | "field_added"
+  | "field_removed"
+  | "label_changed"
+  | "type_changed"
+  | "options_added"
+  | "options_renamed"
+  | "options_removed"
+  | "validation_tightened"
+  | "validation_loosened"
+  | "required_added"
+  | "required_removed"
+
+export interface SchemaChange {
+  /** Stable ID, e.g. `type_changed:<field path>` */
+  id: string
+  kind: SchemaChangeKind
+  /** Field ID, or `<group id>.<child id>` inside a repeating group */
+  fieldPath: string
+  fieldLabel: string
+  /** Whether existing responses can become invalid or orphaned */
+  breaking: boolean
+  description: string
+  before?: unknown
+  after?: unknown
+}
+
+export type ImpactEffect = "orphaned" | "invalid"
+
+export interface ChangeImpact {
+  change: SchemaChange
+  effect: ImpactEffect
+  /** Responses affected by this change */
+  affected: number
+  /** Up to a few affected response IDs, as examples */
+  sampleResponseIds: string[]
+}
+
+export interface ImpactSummary {
+  impacts: ChangeImpact[]
+  /** Responses affected by at least one breaking change */
+  affectedResponses: number
+  totalResponses: number
+}
+
+interface FieldBounds {
+  minLength?: number
+  maxLength?: number
+  min?: number
+  max?: number
+  pattern?: string
+}
+
+/** Type changes that keep every existing answer valid */
+const COMPATIBLE_TYPES: Record<string, FormField["type"][]> = {
+  text: ["textarea"],
+  textarea: ["text"],
+  email: ["text", "textarea"],
+  url: ["text", "textarea"],
+  phone: ["text", "textarea"],
+  select: ["radio"],
+  radio: ["select"],
+  rating: ["number", "range"],
+  range: ["number"],
+}
+
+const CHOICE_TYPES: FormField["type"][] = ["select", "radio", "checkbox"]
+
+const SAMPLE_SIZE = 5
+
+//=============================================================================
+// Diff
+//=============================================================================
+
+function flattenFields(
+  fields: FormField[],
+  prefix = ""
+): Map<string, { field: FormField; path: string }> {
+  const flat = new Map<string, { field: FormField; path: string }>()
+  fields.forEach((field) => {
+    const path = prefix ? `${prefix}.${field.id}` : field.id
+    flat.set(path, { field, path })
+    if (field.type === "group" && field.fields) {
+      flattenFields(field.fields, path).forEach((entry, key) => flat.set(key, entry))
+    }
+  })
+  return flat
+}
+
+function getBounds(field: FormField): FieldBounds {
+  return {
+    minLength: field.validation?.minLength,
+    maxLength: field.validation?.maxLength,
+    min: field.validation?.min ?? field.min,
+    max: field.validation?.max ?? field.max,
+    pattern: field.validation?.pattern || undefined,
+  }
+}
+
+/**
+ * Compare validation bounds. A raised lower bound, a lowered upper bound or a
+ * new/changed pattern tightens; the opposite loosens.
+ */
+function compareBounds(
+  before: FieldBounds,
+  after: FieldBounds
+): { tightened: string[]; loosened: string[] } {
+  const tightened: string[] = []
+  const loosened: string[] = []
+
+  ;(["minLength", "min"] as const).forEach((key) => {
+    const [a, b] = [before[key], after[key]]
+    if (a === b) return
+    if (b !== undefined && (a === undefined || b > a)) tightened.push(key)
+    else loosened.push(key)
+  })
+  ;(["maxLength", "max"] as const).forEach((key) => {
+    const [a, b] = [before[key], after[key]]
+    if (a === b) return
+    if (b !== undefined && (a === undefined || b < a)) tightened.push(key)
+    else loosened.push(key)
+  })
+  if (before.pattern !== after.pattern) {
+    if (after.pattern) tightened.push("pattern")
+    else loosened.push("pattern")
+  }
+
+  return { tightened, loosened }
+}
+
+function diffOptions(
+  path: string,
+  label: string,
+  before: FormFieldOption[] = [],
+  after: FormFieldOption[] = []
+): SchemaChange[] {
+  const changes: SchemaChange[] = []
+  const beforeValues = new Set(before.map((option) => option.value))
+  const afterByLabel = new Map(after.map((option) => [option.label, option]))
+
+  const renamed: { from: FormFieldOption; to: FormFieldOption }[] = []
+  const removed: FormFieldOption[] = []
+
+  before.forEach((option) => {
+    const match = after.find((candidate) => candidate.value === option.value)
+    if (match) {
+      if (match.label !== option.label) renamed.push({ from: option, to: match })
+      return
+    }
+    // Same label under a new value: the stored value changed
+    const relabelled = afterByLabel.get(option.label)
+    if (relabelled && !beforeValues.has(relabelled.value)) {
+      renamed.push({ from: option, to: relabelled })
+    } else {
+      removed.push(option)
+    }
+  })
+
+  const renamedTargets = new Set(renamed.map(({ to }) => to.value))
+  const added = after.filter(
+    (option) => !beforeValues.has(option.value) && !renamedTargets.has(option.value)
+  )
+
+  if (renamed.length > 0) {
+    const moved = renamed.filter(({ from, to }) => from.value !== to.value)
+    const valueChanged = moved.length > 0
+    changes.push({
+      id: `options_renamed:${path}`,
+      kind: "options_renamed",
+      fieldPath: path,
+      fieldLabel: label,
+      breaking: valueChanged,
+      description: `Renamed ${renamed
+        .map(({ from, to }) => `"${from.label}" → "${to.label}"`)
+        .join(", ")}${valueChanged ? " (stored values changed)" : ""}`,
+      // Only values that moved leave answers stale
+      before: moved.map(({ from }) => from.value),
+      after: moved.map(({ to }) => to.value),
+    })
+  }
+  if (removed.length > 0) {
+    changes.push({
+      id: `options_removed:${path}`,
+      kind: "options_removed",
+      fieldPath: path,
+      fieldLabel: label,
+      breaking: true,
+      description: `Removed ${removed.map((option) => `"${option.label}"`).join(", ")}`,
+      before: removed.map((option) => option.value),
+    })
+  }
+  if (added.length > 0) {
+    changes.push({
+      id: `options_added:${path}`,
+      kind: "options_added",
+      fieldPath: path,
+      fieldLabel: label,
+      breaking: false,
+      description: `Added ${added.map((option) => `"${option.label}"`).join(", ")}`,
+      after: added.map((option) => option.value),
+    })
+  }
+
+  return changes
+}
+
+/**
+ * Classify every change between two versions of a form's fields
+ */
+export function diffFormSchemas(before: FormField[], after: FormField[]): SchemaChange[] {
+  const changes: SchemaChange[] = []
+  const beforeFields = flattenFields(before)
+  const afterFields = flattenFields(after)
+
+  beforeFields.forEach(({ field, path }) => {
+    if (afterFields.has(path)) return
+    changes.push({
+      id: `field_removed:${path}`,
+      kind: "field_removed",
+      fieldPath: path,
+      fieldLabel: field.label,
+      breaking: true,
+      description: `Removed ${field.type} field "${field.label}"`,
+    })
+  })
+
+  afterFields.forEach(({ field: next, path }) => {
+    const previous = beforeFields.get(path)?.field
+
+    if (!previous) {
+      changes.push({
+        id: `field_added:${path}`,
+        kind: "field_added",
+        fieldPath: path,
+        fieldLabel: next.label,
+        // Existing responses have no answer for a new required field
+        breaking: next.required,
+        description: `Added ${next.required ? "required " : ""}${next.type} field "${next.label}"`,
+      })
+      return
+    }
+
+    if (previous.label !== next.label) {
+      changes.push({
+        id: `label_changed:${path}`,
+        kind: "label_changed",
+        fieldPath: path,
+        fieldLabel: next.label,
+        breaking: false,
+        description: `Relabelled "${previous.label}" → "${next.label}"`,
+        before: previous.label,
+        after: next.label,
+      })
+    }
+
+    if (previous.type !== next.type) {
+      changes.push({
+        id: `type_changed:${path}`,
+        kind: "type_changed",
+        fieldPath: path,
+        fieldLabel: next.label,
+        breaking: !COMPATIBLE_TYPES[previous.type]?.includes(next.type),
+        description: `Changed type from ${previous.type} to ${next.type}`,
+        before: previous.type,
+        after: next.type,
+      })
+    }
+
+    if (CHOICE_TYPES.includes(previous.type) || CHOICE_TYPES.includes(next.type)) {
+      changes.push(...diffOptions(path, next.label, previous.options, next.options))
+    }
+
+    const { tightened, loosened } = compareBounds(getBounds(previous), getBounds(next))
+    if (tightened.length > 0) {
+      changes.push({
+        id: `validation_tightened:${path}`,
+        kind: "validation_tightened",
+        fieldPath: path,
+        fieldLabel: next.label,
+        breaking: true,
+        description: `Tightened ${tightened.join(", ")}`,
+        before: getBounds(previous),
+        after: getBounds(next),
+      })
+    }
+    if (loosened.length > 0) {
+      changes.push({
+        id: `validation_loosened:${path}`,
+        kind: "validation_loosened",
+        fieldPath: path,
+        fieldLabel: next.label,
+        breaking: false,
+        description: `Loosened ${loosened.join(", ")}`,
+        before: getBounds(previous),
+        after: getBounds(next),
+      })
+    }
+
+    if (previous.required !== next.required) {
+      changes.push({
+        id: `${next.required ? "required_added" : "required_removed"}:${path}`,
+        kind: next.required ? "required_added" : "required_removed",
+        fieldPath: path,
+        fieldLabel: next.label,
+        breaking: next.required,
+        description: next.required ? "Now required" : "No longer required",
+      })
+    }
+  })
+
+  return changes
+}
+
+//=============================================================================
+// Impact on existing responses
+//=============================================================================
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  )
+}
+
+/**
+ * Answers for a field path in one response. Fields inside a repeating group
+ * yield one answer per row.
+ */
+export function getAnswersAtPath(response: FormResponse, path: string): unknown[] {
+  const [head, ...rest] = path.split(".")
+  const value = response.data?.[head]
+  if (rest.length === 0) return [value]
+  if (!Array.isArray(value)) return []
+
+  const childPath = rest.join(".")
+  return value.flatMap((row) =>
+    row && typeof row === "object"
+      ? getAnswersAtPath({ ...response, data: row as Record<string, unknown> }, childPath)
+      : []
+  )
+}
+
+function isValidForType(value: unknown, type: FormField["type"]): boolean {
+  switch (type) {
+    case "number":
+    case "range":
+    case "rating":
+      return (
+        typeof value === "number" ||
+        (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value)))
+      )
+    case "checkbox":
+      return Array.isArray(value)
+    case "gps":
+      return (
+        typeof value === "object" && value !== null && "latitude" in value && "longitude" in value
+      )
+    case "group":
+      return Array.isArray(value)
+    case "email":
+      return typeof value === "string" && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+    case "url":
+      return typeof value === "string" && /^https?:\/\/\S+$/.test(value)
+    case "date":
+      return typeof value === "string" && !isNaN(Date.parse(value))
+    case "color":
+      return typeof value === "string" && /^#[0-9A-Fa-f]{6}$/.test(value)
+    default:
+      return typeof value === "string" || typeof value === "number"
+  }
+}
+
+function violatesBounds(value: unknown, bounds: FieldBounds): boolean {
+  if (typeof value === "string") {
+    if (bounds.minLength !== undefined && value.length < bounds.minLength) return true
+    if (bounds.maxLength !== undefined && value.length > bounds.maxLength) return true
+    if (bounds.pattern) {
+      try {
+        if (!new RegExp(bounds.pattern).test(value)) return true
+      } catch {
+        // An invalid pattern can't be enforced, so it can't reject answers
+      }
+    }
+  }
+  const numeric =
+    typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN
+  if (!isNaN(numeric)) {
+    if (bounds.min !== undefined && numeric < bounds.min) return true
+    if (bounds.max !== undefined && numeric > bounds.max) return true
+  }
+  return false
+}
+
+function toValues(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Whether a response is affected by a breaking change, judged against the
+ * field as it is in the new version
+ */
+function isAffected(
+  response: FormResponse,
+  change: SchemaChange,
+  nextField: FormField | undefined
+): boolean {
+  const answers = getAnswersAtPath(response, change.fieldPath)
+  const given = answers.filter((answer) => !isEmpty(answer))
+
+  switch (change.kind) {
+    case "field_removed":
+      return given.length > 0
+    case "field_added":
+    case "required_added":
+      // Repeating group rows that don't exist can't be missing an answer
+      return change.fieldPath.includes(".") ? answers.some(isEmpty) : answers.every(isEmpty)
+    case "type_changed":
+      return !!nextField && given.some((answer) => !isValidForType(answer, nextField.type))
+    case "options_renamed":
+    case "options_removed": {
+      const stale = new Set((change.before as string[]) ?? [])
+      return given.some((answer) => toValues(answer).some((value) => stale.has(String(value))))
+    }
+    case "validation_tightened":
+      return !!nextField && given.some((answer) => violatesBounds(answer, getBounds(nextField)))
+    default:
+      return false
+  }
+}
+
+/**
+ * Estimate how many existing responses each breaking change would orphan or
+ * invalidate
+ */
+export function estimateResponseImpact(
+  changes: SchemaChange[],
+  nextFields: FormField[],
+  responses: FormResponse[]
+): ImpactSummary {
+  const fieldsByPath = flattenFields(nextFields)
+  const affectedIds = new Set<string>()
+
+  const impacts = changes
+    .filter((change) => change.breaking)
+    .map((change) => {
+      const nextField = fieldsByPath.get(change.fieldPath)?.field
+      const affected = responses.filter((response) => isAffected(response, change, nextField))
+      affected.forEach((response) => affectedIds.add(response.id))
+      return {
+        change,
+        effect: (change.kind === "field_removed" ? "orphaned" : "invalid") as ImpactEffect,
+        affected: affected.length,
+        sampleResponseIds: affected.slice(0, SAMPLE_SIZE).map((response) => response.id),
+      }
+    })
+
+  return {
+    impacts,
+    affectedResponses: affectedIds.size,
+    totalResponses: responses.length,
+  }
+}
@@ -0,0 +1,943 @@
+/**
+ * Formula Expression Language
+ *
+ * Sandboxed expressions for calculated fields and `calculate` rule actions.
+ * Formulas are parsed into an AST by a small recursive-descent parser and
+ * evaluated against the response data; nothing is ever passed to `eval` or
+ * `Function`, and only the whitelisted functions below can be called.
+ *
+ * Syntax:
+ * - Field references: `{field_id}`
+ * - Literals: `12.5`, `"text"` or `'text'`, `true`, `false`, `null`
+ * - Arithmetic: `+ - * / % ^`, string concatenation with `&`
+ * - Comparison: `= == != <> < <= > >=`, logic: `&& || !` (or `and`, `or`, `not`)
+ * - Function calls: `round({price} * {qty}, 2)`, `datediff({end}, {start}, "days")`
+ *
+ * Empty field values are `null`. Arithmetic involving `null` yields `null`,
+ * so a calculated field stays empty until its inputs are filled in, while
+ * aggregate functions (`sum`, `avg`, `count`, ...) skip empty values.
+ */
+
+import type { FormField, FormResponseData } from "./types"
+
+//=============================================================================
+// Errors
+//=============================================================================
+
+export class FormulaError extends Error {
+  constructor(
+    message: string,
+    public position?: number
+  ) {
+    super(message)
+    this.name = "FormulaError"
+  }
+}
+
+//=============================================================================
+// Tokenizer
+//=============================================================================
+
+type TokenType = "number" | "string" | "field" | "identifier" | "operator" | "paren" | "comma"
+
+interface Token {
+  type: TokenType
+  value: string
+  position: number
+}
+
+const OPERATORS = [
+  "<=",
+  ">=",
+  "==",
+  "!=",
+  "<>",
+  "&&",
+  "||",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "^",
+  "&",
+  "=",
+  "<",
+  ">",
+  "!",
+]
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))
+      if (!match) throw new FormulaError(`Unexpected "${char}"`, i)
+      tokens.push({ type: "number", value: match[0], position: i })
+      i += match[0].length
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      let value = ""
+      let j = i + 1
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === "\\" && j + 1 < source.length) j++
+        value += source[j]
+        j++
+      }
+      if (j >= source.length) throw new FormulaError("Unterminated string", i)
+      tokens.push({ type: "string", value, position: i })
+      i = j + 1
+      continue
+    }
+
+    if (char === "{") {
+      const end = source.indexOf("}", i)
+      if (end === -1) throw new FormulaError("Unclosed field reference", i)
+      const fieldId = source.slice(i + 1, end).trim()
+      if (!fieldId) throw new FormulaError("Empty field reference", i)
+      tokens.push({ type: "field", value: fieldId, position: i })
+      i = end + 1
+      continue
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!
+      tokens.push({ type: "identifier", value: match[0], position: i })
+      i += match[0].length
+      continue
+    }
+
+    if (char === "(" || char === ")") {
+      tokens.push({ type: "paren", value: char, position: i })
+      i++
+      continue
+    }
+
+    if (char === ",") {
+      tokens.push({ type: "comma", value: char, position: i })
+      i++
+      continue
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i))
+    if (operator) {
+      tokens.push({ type: "operator", value: operator, position: i })
+      i += operator.length
+      continue
+    }
+
+    throw new FormulaError(`Unexpected "${char}"`, i)
+  }
+
+  return tokens
+}
+
+//=============================================================================
+// Parser
+//=============================================================================
+
+export type FormulaNode =
+  | { type: "literal"; value: any }
+  | { type: "field"; id: string }
+  | { type: "unary"; operator: string; operand: FormulaNode }
+  | { type: "binary"; operator: string; left: FormulaNode; right: FormulaNode }
+  | { type: "call"; name: string; args: FormulaNode[] }
+
+// Lowest to highest precedence
+const BINARY_LEVELS: string[][] = [
+  ["||", "or"],
+  ["&&", "and"],
+  ["=", "==", "!=", "<>"],
+  ["<", "<=", ">", ">="],
+  ["&"],
+  ["+", "-"],
+  ["*", "/", "%"],
+]
+
+/**
+ * Parse a formula into an AST, throwing `FormulaError` on syntax errors
+ */
+export function parseFormula(source: string): FormulaNode {
+  const tokens = tokenize(source)
+  let index = 0
+
+  const peek = () => tokens[index]
+  const next = () => tokens[index++]
+  const isOperator = (token: Token | undefined, values: string[]) =>
+    !!token &&
+    ((token.type === "operator" && values.includes(token.value)) ||
+      (token.type === "identifier" && values.includes(token.value.toLowerCase())))
+
+  const parseBinary = (level: number): FormulaNode => {
+    if (level >= BINARY_LEVELS.length) return parseUnary()
+
+    let left = parseBinary(level + 1)
+    while (isOperator(peek(), BINARY_LEVELS[level])) {
+      const operator = next().value.toLowerCase()
+      const right = parseBinary(level + 1)
+      left = { type: "binary", operator, left, right }
+    }
+    return left
+  }
+
+  const parseUnary = (): FormulaNode => {
+    if (isOperator(peek(), ["-", "+", "!", "not"])) {
+      const operator = next().value.toLowerCase()
+      return { type: "unary", operator, operand: parseUnary() }
+    }
+    return parsePower()
+  }
+
+  // Exponentiation is right-associative and binds tighter than unary minus
+  const parsePower = (): FormulaNode => {
+    const base = parsePrimary()
+    if (isOperator(peek(), ["^"])) {
+      next()
+      return { type: "binary", operator: "^", left: base, right: parseUnary() }
+    }
+    return base
+  }
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next()
+    if (!token) throw new FormulaError("Unexpected end of formula", source.length)
+
+    switch (token.type) {
+      case "number":
+        return { type: "literal", value: Number(token.value) }
+      case "string":
+        return { type: "literal", value: token.value }
+      case "field":
+        return { type: "field", id: token.value }
+      case "paren":
+        if (token.value === "(") {
+          const expression = parseBinary(0)
+          const closing = next()
+          if (!closing || closing.value !== ")") {
+            throw new FormulaError('Expected ")"', closing?.position ?? source.length)
+          }
+          return expression
+        }
+        break
+      case "identifier": {
+        const name = token.value.toLowerCase()
+        if (name === "true" || name === "false") return { type: "literal", value: name === "true" }
+        if (name === "null") return { type: "literal", value: null }
+
+        if (peek()?.value !== "(") {
+          throw new FormulaError(
+            `Unknown name "${token.value}" (use {${token.value}} to reference a field)`,
+            token.position
+          )
+        }
+        // Own properties only, so names like "constructor" can't reach the prototype
+        if (!Object.prototype.hasOwnProperty.call(FORMULA_FUNCTIONS, name)) {
+          throw new FormulaError(`Unknown function "${token.value}"`, token.position)
+        }
+        next()
+
+        const args: FormulaNode[] = []
+        if (peek()?.value !== ")") {
+          args.push(parseBinary(0))
+          while (peek()?.type === "comma") {
+            next()
+            args.push(parseBinary(0))
+          }
+        }
+        const closing = next()
+        if (!closing || closing.value !== ")") {
+          throw new FormulaError('Expected ")"', closing?.position ?? source.length)
+        }
+
+        const { minArgs, maxArgs } = FORMULA_FUNCTIONS[name]
+        if (args.length < minArgs || (maxArgs !== undefined && args.length > maxArgs)) {
+          throw new FormulaError(
+            `${name}() takes ${maxArgs === undefined ? `at least ${minArgs}` : minArgs === maxArgs ? minArgs : `${minArgs}-${maxArgs}`} argument(s)`,
+            token.position
+          )
+        }
+        return { type: "call", name, args }
+      }
+    }
+
+    throw new FormulaError(`Unexpected "${token.value}"`, token.position)
+  }
+
+  const ast = parseBinary(0)
+  if (index < tokens.length) {
+    throw new FormulaError(`Unexpected "${tokens[index].value}"`, tokens[index].position)
+  }
+  return ast
+}
+
+//=============================================================================
+// Value helpers
+//=============================================================================
+
+const isEmpty = (value: any) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0)
+
+function toNumber(value: any): number | null {
+  if (isEmpty(value)) return null
+  if (typeof value === "number") return Number.isFinite(value) ? value : null
+  if (typeof value === "boolean") return value ? 1 : 0
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function toText(value: any): string {
+  if (value === undefined || value === null) return ""
+  if (Array.isArray(value)) return value.join(", ")
+  return String(value)
+}
+
+function toBoolean(value: any): boolean {
+  if (typeof value === "string") return value.trim() !== "" && value.toLowerCase() !== "false"
+  return !isEmpty(value) && value !== 0 && value !== false
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function toDate(value: any): Date | null {
+  if (isEmpty(value)) return null
+  if (value instanceof Date) return value
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00` : value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function flatten(values: any[]): any[] {
+  return values.flatMap((value) => (Array.isArray(value) ? value : [value]))
+}
+
+function numbersOf(values: any[]): number[] {
+  return flatten(values)
+    .map(toNumber)
+    .filter((value): value is number => value !== null)
+}
+
+function looseEquals(a: any, b: any): boolean {
+  const numA = toNumber(a)
+  const numB = toNumber(b)
+  if (numA !== null && numB !== null) return numA === numB
+  if (isEmpty(a) && isEmpty(b)) return true
+  return toText(a) === toText(b)
+}
+
+function compare(a: any, b: any): number | null {
+  const numA = toNumber(a)
+  const numB = toNumber(b)
+  if (numA !== null && numB !== null) return numA - numB
+  const dateA = toDate(a)
+  const dateB = toDate(b)
+  if (dateA && dateB) return dateA.getTime() - dateB.getTime()
+  if (isEmpty(a) || isEmpty(b)) return null
+  return toText(a).localeCompare(toText(b))
+}
+
+function addToDate(date: Date, amount: number, unit: string): Date {
+  const result = new Date(date)
+  switch (unit) {
+    case "years":
+      result.setFullYear(result.getFullYear() + amount)
+      break
+    case "months":
+      result.setMonth(result.getMonth() + amount)
+      break
+    case "weeks":
+      result.setDate(result.getDate() + amount * 7)
+      break
+    default:
+      result.setDate(result.getDate() + amount)
+  }
+  return result
+}
+
+function dateDiff(end: Date, start: Date, unit: string): number {
+  switch (unit) {
+    case "years":
+    case "months": {
+      let months =
+        (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth()
+      if (end.getDate() < start.getDate()) months--
+      return unit === "years" ? Math.trunc(months / 12) : months
+    }
+    case "weeks":
+      return Math.trunc((end.getTime() - start.getTime()) / (7 * DAY_MS))
+    default:
+      return Math.round((end.getTime() - start.getTime()) / DAY_MS)
+  }
+}
+
+//=============================================================================
+// Functions
+//=============================================================================
+
+interface FormulaFunction {
+  description: string
+  signature: string
+  minArgs: number
+  maxArgs?: number
+  fn: (...args: any[]) => any
+}
+
+const numeric =
+  (fn: (...values: number[]) => number) =>
+  (...args: any[]) => {
+    const values = args.map(toNumber)
+    if (values.some((value) => value === null)) return null
+    const result = fn(...(values as number[]))
+    return Number.isFinite(result) ? result : null
+  }
+
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  // Arithmetic
+  abs: {
+    description: "Absolute value",
+    signature: "abs(x)",
+    minArgs: 1,
+    maxArgs: 1,
+    fn: numeric(Math.abs),
+  },
+  round: {
+    description: "Round to a number of decimals",
+    signature: "round(x, decimals)",
+    minArgs: 1,
+    maxArgs: 2,
+    fn: numeric((x, decimals = 0) => {
+      const factor = 10 ** decimals
+      return Math.round(x * factor) / factor
+    }),
+  },
+  floor: {
+    description: "Round down",
+    signature: "floor(x)",
+    minArgs: 1,
+    maxArgs: 1,
+    fn: numeric(Math.floor),
+  },
+  ceil: {
+    description: "Round up",
+    signature: "ceil(x)",
+    minArgs: 1,
+    maxArgs: 1,
+    fn: numeric(Math.ceil),
+  },
+  sqrt: {
+    description: "Square root",
+    signature: "sqrt(x)",
+    minArgs: 1,
+    maxArgs: 1,
+    fn: numeric(Math.sqrt),
+  },
+  pow: {
+    description: "Power",
+    signature: "pow(x, y)",
+    minArgs: 2,
+    maxArgs: 2,
+    fn: numeric(Math.pow),
+  },
+
+  // Aggregates (empty values are skipped)
+  sum: {
+    description: "Sum of values",
+    signature: "sum(a, b, ...)",
+    minArgs: 1,
+    fn: (...args) => numbersOf(args).reduce((total, n) => total + n, 0),
+  },
+  avg: {
+    description: "Average of values",
+    signature: "avg(a, b, ...)",
+    minArgs: 1,
+    fn: (...args) => {
+      const values = numbersOf(args)
+      return values.length ? values.reduce((total, n) => total + n, 0) / values.length : null
+    },
+  },
+  min: {
+    description: "Smallest value",
+    signature: "min(a, b, ...)",
+    minArgs: 1,
+    fn: (...args) => {
+      const values = numbersOf(args)
+      return values.length ? Math.min(...values) : null
+    },
+  },
+  max: {
+    description: "Largest value",
+    signature: "max(a, b, ...)",
+    minArgs: 1,
+    fn: (...args) => {
+      const values = numbersOf(args)
+      return values.length ? Math.max(...values) : null
+    },
+  },
+  count: {
+    description: "Number of non-empty values",
+    signature: "count(a, b, ...)",
+    minArgs: 1,
+    fn: (...args) => flatten(args).filter((value) => !isEmpty(value)).length,
+  },
+
+  // Text
+  concat: {
+    description: "Join values into text",
+    signature: "concat(a, b, ...)",
+    minArgs: 1,
+    fn: (...args) => args.map(toText).join(""),
+  },
+  upper: {
+    description: "Uppercase text",
+    signature: "upper(text)",
+    minArgs: 1,
+    maxArgs: 1,
+    fn: (s) => toText(s).toUpperCase(),
+  },
+  lower: {
+    description: "Lowercase text",
+    signature: "lower(text)",
+    minArgs: 1,
+    maxArgs: 1,
+    fn: (s) => toText(s).toLowerCase(),
+  },
+  trim: {
+    description: "Remove surrounding spaces",
+    signature: "trim(text)",
+    minArgs: 1,
+    maxArgs: 1,
+    fn: (s) => toText(s).trim(),
+  },
+  len: {
+    description: "Text length",
+    signature: "len(text)",
+    minArgs: 1,
+    maxArgs: 1,
+    fn: (s) => toText(s).length,
+  },
+  left: {
+    description: "First characters of text",
+    signature: "left(text, n)",
+    minArgs: 2,
+    maxArgs: 2,
+    fn: (s, n) => toText(s).slice(0, toNumber(n) ?? 0),
+  },
+  right: {
+    description: "Last characters of text",
+    signature: "right(text, n)",
+    minArgs: 2,
+    maxArgs: 2,
+    fn: (s, n) => {
+      const count = toNumber(n) ?? 0
+      return count > 0 ? toText(s).slice(-count) : ""
+    },
+  },
+  substr: {
+    description: "Part of text (1-based start)",
+    signature: "substr(text, start, length)",
+    minArgs: 2,
+    maxArgs: 3,
+    fn: (s, start, length) => {
+      const from = Math.max((toNumber(start) ?? 1) - 1, 0)
+      const count = toNumber(length)
+      return count === null ? toText(s).slice(from) : toText(s).slice(from, from + count)
+    },
+  },
+  replace: {
+    description: "Replace all occurrences in text",
+    signature: "replace(text, search, replacement)",
+    minArgs: 3,
+    maxArgs: 3,
+    fn: (s, search, replacement) => toText(s).split(toText(search)).join(toText(replacement)),
+  },
+  contains: {
+    description: "Whether text (or a multi-select) contains a value",
+    signature: "contains(value, search)",
+    minArgs: 2,
+    maxArgs: 2,
+    fn: (value, search) =>
+      Array.isArray(value)
+        ? value.some((item) => looseEquals(item, search))
+        : toText(value).toLowerCase().includes(toText(search).toLowerCase()),
+  },
+
+  // Dates (returned as YYYY-MM-DD)
+  today: {
+    description: "Today's date",
+    signature: "today()",
+    minArgs: 0,
+    maxArgs: 0,
+    fn: () => formatDate(new Date()),
+  },
+  date: {
+    description: "Build a date",
+    signature: "date(year, month, day)",
+    minArgs: 3,
+    maxArgs: 3,
+    fn: (y, m, d) => {
+      const [year, month, day] = [y, m, d].map(toNumber)
+      if (year === null || month === null || day === null) return null
+      return formatDate(new Date(year, month - 1, day))
+    },
+  },
+  year: {
+    description: "Year of a date",
+    signature: "year(date)",
+    minArgs: 1,
+    maxArgs: 1,
+    fn: (d) => toDate(d)?.getFullYear() ?? null,
+  },
+  month: {
+    description: "Month of a date (1-12)",
+    signature: "month(date)",
+    minArgs: 1,
+    maxArgs: 1,
+    fn: (d) => {
+      const date = toDate(d)
+      return date ? date.getMonth() + 1 : null
+    },
+  },
+  day: {
+    description: "Day of the month",
+    signature: "day(date)",
+    minArgs: 1,
+    maxArgs: 1,
+    fn: (d) => toDate(d)?.getDate() ?? null,
+  },
+  dateadd: {
+    description: "Add days, weeks, months or years to a date",
+    signature: 'dateadd(date, amount, "days")',
+    minArgs: 2,
+    maxArgs: 3,
+    fn: (d, amount, unit = "days") => {
+      const date = toDate(d)
+      const n = toNumber(amount)
+      return date && n !== null ? formatDate(addToDate(date, n, toText(unit).toLowerCase())) : null
+    },
+  },
+  datediff: {
+    description: "Difference between two dates",
+    signature: 'datediff(end, start, "days")',
+    minArgs: 2,
+    maxArgs: 3,
+    fn: (end, start, unit = "days") => {
+      const endDate = toDate(end)
+      const startDate = toDate(start)
+      return endDate && startDate ? dateDiff(endDate, startDate, toText(unit).toLowerCase()) : null
+    },
+  },
+  age: {
+    description: "Age in whole years",
+    signature: "age(birth_date)",
+    minArgs: 1,
+    maxArgs: 1,
+    fn: (d) => {
+      const date = toDate(d)
+      return date ? dateDiff(new Date(), date, "years") : null
+    },
+  },
+
+  // Logic
+  if: {
+    description: "Choose a value by condition",
+    signature: "if(condition, then, else)",
+    minArgs: 2,
+    maxArgs: 3,
+    fn: (condition, whenTrue, whenFalse = null) => (toBoolean(condition) ? whenTrue : whenFalse),
+  },
+  coalesce: {
+    description: "First non-empty value",
+    signature: "coalesce(a, b, ...)",
+    minArgs: 1,
+    fn: (...args) => args.find((value) => !isEmpty(value)) ?? null,
+  },
+  isempty: {
+    description: "Whether a value is empty",
+    signature: "isempty(value)",
+    minArgs: 1,
+    maxArgs: 1,
+    fn: isEmpty,
+  },
+}
+
+//=============================================================================
+// Evaluation
+//=============================================================================
+
+function evaluateNode(node: FormulaNode, data: FormResponseData): any {
+  switch (node.type) {
+    case "literal":
+      return node.value
+
+    case "field": {
+      const value = data[node.id]
+      return isEmpty(value) ? null : value
+    }
+
+    case "unary": {
+      const operand = evaluateNode(node.operand, data)
+      if (node.operator === "!" || node.operator === "not") return !toBoolean(operand)
+      const value = toNumber(operand)
+      if (value === null) return null
+      return node.operator === "-" ? -value : value
+    }
+
+    case "binary": {
+      // Short-circuit logic
+      if (node.operator === "&&" || node.operator === "and") {
+        return toBoolean(evaluateNode(node.left, data)) && toBoolean(evaluateNode(node.right, data))
+      }
+      if (node.operator === "||" || node.operator === "or") {
+        return toBoolean(evaluateNode(node.left, data)) || toBoolean(evaluateNode(node.right, data))
+      }
+
+      const left = evaluateNode(node.left, data)
+      const right = evaluateNode(node.right, data)
+
+      switch (node.operator) {
+        case "&":
+          return toText(left) + toText(right)
+        case "=":
+        case "==":
+          return looseEquals(left, right)
+        case "!=":
+        case "<>":
+          return !looseEquals(left, right)
+        case "<":
+        case "<=":
+        case ">":
+        case ">=": {
+          const result = compare(left, right)
+          if (result === null) return false
+          if (node.operator === "<") return result < 0
+          if (node.operator === "<=") return result <= 0
+          if (node.operator === ">") return result > 0
+          return result >= 0
+        }
+      }
+
+      const a = toNumber(left)
+      const b = toNumber(right)
+      if (a === null || b === null) return null
+
+      let result: number
+      switch (node.operator) {
+        case "+":
+          result = a + b
+          break
+        case "-":
+          result = a - b
+          break
+        case "*":
+          result = a * b
+          break
+        case "/":
+          if (b === 0) return null
+          result = a / b
+          break
+        case "%":
+          if (b === 0) return null
+          result = a % b
+          break
+        case "^":
+          result = a ** b
+          break
+        default:
+          throw new FormulaError(`Unknown operator "${node.operator}"`)
+      }
+      return Number.isFinite(result) ? result : null
+    }
+
+    case "call": {
+      return FORMULA_FUNCTIONS[node.name].fn(...node.args.map((arg) => evaluateNode(arg, data)))
+    }
+  }
+}
+
+/**
+ * Evaluate a formula (source or parsed AST) against response data
+ */
+export function evaluateFormula(formula: string | FormulaNode, data: FormResponseData): any {
+  const ast = typeof formula === "string" ? parseFormula(formula) : formula
+  return evaluateNode(ast, data)
+}
+
+/**
+ * Field IDs referenced by a formula
+ */
+export function getFormulaDependencies(formula: string | FormulaNode): string[] {
+  const ast = typeof formula === "string" ? parseFormula(formula) : formula
+  const ids = new Set<string>()
+
+  const visit = (node: FormulaNode) => {
+    switch (node.type) {
+      case "field":
+        ids.add(node.id)
+        break
+      case "unary":
+        visit(node.operand)
+        break
+      case "binary":
+        visit(node.left)
+        visit(node.right)
+        break
+      case "call":
+        node.args.forEach(visit)
+        break
+    }
+  }
+
+  visit(ast)
+  return Array.from(ids)
+}
+
+//=============================================================================
+// Dependency graph
+//=============================================================================
+
+export interface FormulaDiagnostic {
+  field_id: string
+  message: string
+  position?: number
+}
+
+export interface CalculationPlan {
+  /** Calculated field IDs in the order they must be evaluated */
+  order: string[]
+  /** Field ID -> field IDs its formula reads */
+  dependencies: Record<string, string[]>
+  /** Each cycle as a path of field IDs, e.g. ["a", "b", "a"] */
+  cycles: string[][]
+  diagnostics: FormulaDiagnostic[]
+  asts: Record<string, FormulaNode>
+}
+
+/**
+ * Parse every calculated field, build the dependency graph and order it.
+ * Fields involved in a cycle (or with invalid formulas) are left out of `order`.
+ */
+export function buildCalculationPlan(fields: FormField[]): CalculationPlan {
+  const fieldIds = new Set(fields.map((field) => field.id))
+  const calculated = fields.filter((field) => field.type === "calculated")
+  const dependencies: Record<string, string[]> = {}
+  const asts: Record<string, FormulaNode> = {}
+  const diagnostics: FormulaDiagnostic[] = []
+
+  calculated.forEach((field) => {
+    if (!field.formula?.trim()) {
+      diagnostics.push({ field_id: field.id, message: "Formula is empty" })
+      return
+    }
+    try {
+      asts[field.id] = parseFormula(field.formula)
+      dependencies[field.id] = getFormulaDependencies(asts[field.id])
+      dependencies[field.id]
+        .filter((id) => !fieldIds.has(id))
+        .forEach((id) => diagnostics.push({ field_id: field.id, message: `Unknown field {${id}}` }))
+    } catch (error) {
+      diagnostics.push({
+        field_id: field.id,
+        message: error instanceof Error ? error.message : "Invalid formula",
+        position: error instanceof FormulaError ? error.position : undefined,
+      })
+    }
+  })
+
+  // Depth-first topological sort over calculated fields
+  const order: string[] = []
+  const cycles: string[][] = []
+  const state: Record<string, "visiting" | "done"> = {}
+  const inCycle = new Set<string>()
+
+  const visit = (id: string, path: string[]) => {
+    if (state[id] === "done") return
+    if (state[id] === "visiting") {
+      const cycle = [...path.slice(path.indexOf(id)), id]
+      cycles.push(cycle)
+      cycle.forEach((member) => inCycle.add(member))
+      return
+    }
+    state[id] = "visiting"
+    ;(dependencies[id] ?? [])
+      .filter((dependency) => dependency in asts)
+      .forEach((dependency) => visit(dependency, [...path, id]))
+    state[id] = "done"
+    order.push(id)
+  }
+
+  Object.keys(asts).forEach((id) => visit(id, []))
+
+  cycles.forEach((cycle) =>
+    diagnostics.push({
+      field_id: cycle[0],
+      message: `Circular reference: ${cycle.map((id) => `{${id}}`).join(" → ")}`,
+    })
+  )
+
+  return {
+    order: order.filter((id) => !inCycle.has(id)),
+    dependencies,
+    cycles,
+    diagnostics,
+    asts,
+  }
+}
+
+/**
+ * Compute every calculated field in dependency order.
+ * Returns only the calculated values; invalid or cyclic formulas yield `null`.
+ */
+export function evaluateCalculatedFields(
+  fields: FormField[],
+  data: FormResponseData,
+  plan: CalculationPlan = buildCalculationPlan(fields)
+): Record<string, any> {
+  const values: Record<string, any> = {}
+  const working: FormResponseData = { ...data }
+
+  fields
+    .filter((field) => field.type === "calculated")
+    .forEach((field) => {
+      values[field.id] = null
+    })
+
+  plan.order.forEach((id) => {
+    try {
+      values[id] = evaluateNode(plan.asts[id], working)
+    } catch {
+      values[id] = null
+    }
+    working[id] = values[id]
+  })
+
+  return values
+}
+
+/**
+ * Display text for a calculated value
+ */
+export function formatFormulaValue(value: any): string {
+  if (isEmpty(value)) return "—"
+  if (typeof value === "boolean") return value ? "Yes" : "No"
+  if (typeof value === "number") {
+    return value.toLocaleString(undefined, { maximumFractionDigits: 4 })
+  }
+  return toText(value)
+}
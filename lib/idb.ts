@@ -0,0 +1,84 @@
+/**
+ * Minimal promise wrapper around IndexedDB
+ *
+ * Used by features that need to persist structured data (including Blobs)
+ * on the device, such as the offline submission outbox.
+ */
+
+export interface IDBStoreDefinition {
+  name: string
+  keyPath: string
+  indexes?: Array<{ name: string; keyPath: string; unique?: boolean }>
+}
+
+/**
+ * Check whether IndexedDB is available in the current environment
+ */
+export function isIndexedDBAvailable(): boolean {
+  return typeof window !== "undefined" && typeof window.indexedDB !== "undefined"
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Open (and upgrade if needed) a database with the given object stores
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  stores: IDBStoreDefinition[]
+): Promise<IDBDatabase> {
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error("IndexedDB is not available"))
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(name, version)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      stores.forEach((definition) => {
+        if (db.objectStoreNames.contains(definition.name)) return
+        const store = db.createObjectStore(definition.name, { keyPath: definition.keyPath })
+        definition.indexes?.forEach((index) => {
+          store.createIndex(index.name, index.keyPath, { unique: index.unique ?? false })
+        })
+      })
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => reject(new Error(`Database "${name}" upgrade is blocked`))
+  })
+}
+
+/**
+ * Run a single operation against an object store and resolve with its result
+ */
+export async function withStore<T>(
+  dbPromise: Promise<IDBDatabase>,
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await dbPromise
+  const tx = db.transaction(storeName, mode)
+  const completed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+
+  const result = await promisifyRequest(operation(tx.objectStore(storeName)))
+  await completed
+
+  return result
+}
@@ -0,0 +1,524 @@
+/**
+ * Offline Submission Queue
+ *
+ * IndexedDB-backed outbox for field agents. Assigned form schemas are cached
+ * on the device so forms can be opened without a connection, and responses
+ * captured offline are queued (together with any files that still need to be
+ * uploaded) and replayed with exponential backoff once connectivity returns.
+ */
+
+import { filesAPI, responsesAPI } from "./api"
+import { OFFLINE_QUEUE } from "./constants"
+import { openDatabase, withStore, isIndexedDBAvailable } from "./idb"
+import { logger } from "./logger"
+import type { CreateResponseInput, Form } from "./types"
+import type { ConditionalRule } from "./types-extended"
+
+const DB_NAME = "sdigdata-offline"
+const DB_VERSION = 1
+const FORMS_STORE = "forms"
+const OUTBOX_STORE = "outbox"
+
+/**
+ * Window event fired whenever the outbox contents change
+ */
+export const OFFLINE_QUEUE_EVENT = "offline-queue-changed"
+
+export type QueuedSubmissionStatus = "pending" | "syncing" | "failed" | "conflict" | "synced"
+
+export interface PendingFile {
+  field_id: string
+  name: string
+  type: string
+  blob: Blob
+}
+
+export interface SubmissionConflict {
+  status: number
+  message: string
+  detected_at: string
+}
+
+export interface QueuedSubmission {
+  id: string
+  form_id: string
+  form_title?: string
+  form_version?: number
+  payload: CreateResponseInput
+  pending_files: PendingFile[]
+  status: QueuedSubmissionStatus
+  attempts: number
+  next_attempt_at: number
+  last_error?: string
+  conflict?: SubmissionConflict
+  response_id?: string
+  created_at: string
+  synced_at?: string
+}
+
+export interface CachedForm {
+  id: string
+  form: Form
+  /** Conditional rules, so logic keeps working without a connection */
+  rules?: ConditionalRule[]
+  cached_at: string
+}
+
+export interface QueueCounts {
+  pending: number
+  failed: number
+  conflict: number
+  synced: number
+}
+
+export interface SyncResult {
+  synced: number
+  failed: number
+  conflicts: number
+  skipped: number
+}
+
+/**
+ * Storage backend for queued submissions
+ */
+export interface OutboxStorage {
+  getAll: () => Promise<QueuedSubmission[]>
+  put: (item: QueuedSubmission) => Promise<void>
+  delete: (id: string) => Promise<void>
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, [
+      { name: FORMS_STORE, keyPath: "id" },
+      {
+        name: OUTBOX_STORE,
+        keyPath: "id",
+        indexes: [{ name: "form_id", keyPath: "form_id" }],
+      },
+    ]).catch((error) => {
+      dbPromise = null
+      throw error
+    })
+  }
+  return dbPromise
+}
+
+/**
+ * Default IndexedDB storage for the outbox
+ */
+export const indexedDBOutboxStorage: OutboxStorage = {
+  getAll: () =>
+    withStore<QueuedSubmission[]>(getDatabase(), OUTBOX_STORE, "readonly", (store) =>
+      store.getAll()
+    ),
+  put: async (item) => {
+    await withStore(getDatabase(), OUTBOX_STORE, "readwrite", (store) => store.put(item))
+  },
+  delete: async (id) => {
+    await withStore(getDatabase(), OUTBOX_STORE, "readwrite", (store) => store.delete(id))
+  },
+}
+
+function notifyQueueChanged() {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(OFFLINE_QUEUE_EVENT))
+  }
+}
+
+function generateId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+//=============================================================================
+// Form schema cache
+//=============================================================================
+
+/**
+ * Cache form schemas so they can be opened without a connection
+ */
+export async function cacheForms(forms: Form[]): Promise<void> {
+  if (!isIndexedDBAvailable()) return
+
+  const cachedAt = new Date().toISOString()
+  try {
+    await Promise.all(
+      forms.map(async (form) => {
+        const existing = await getCachedForm(form.id)
+        await withStore(getDatabase(), FORMS_STORE, "readwrite", (store) =>
+          store.put({
+            id: form.id,
+            form,
+            rules: existing?.rules,
+            cached_at: cachedAt,
+          } satisfies CachedForm)
+        )
+      })
+    )
+  } catch (error) {
+    logger.warn("Failed to cache forms for offline use", { error })
+  }
+}
+
+/**
+ * Store a form's conditional rules alongside its cached schema
+ */
+export async function cacheFormRules(formId: string, rules: ConditionalRule[]): Promise<void> {
+  if (!isIndexedDBAvailable()) return
+
+  try {
+    const existing = await getCachedForm(formId)
+    if (!existing) return
+    await withStore(getDatabase(), FORMS_STORE, "readwrite", (store) =>
+      store.put({ ...existing, rules } satisfies CachedForm)
+    )
+  } catch (error) {
+    logger.warn("Failed to cache conditional rules", { formId, error })
+  }
+}
+
+/**
+ * Get a single cached form schema
+ */
+export async function getCachedForm(formId: string): Promise<CachedForm | null> {
+  if (!isIndexedDBAvailable()) return null
+
+  try {
+    const cached = await withStore<CachedForm | undefined>(
+      getDatabase(),
+      FORMS_STORE,
+      "readonly",
+      (store) => store.get(formId)
+    )
+    return cached ?? null
+  } catch (error) {
+    logger.warn("Failed to read cached form", { formId, error })
+    return null
+  }
+}
+
+/**
+ * Get all cached form schemas
+ */
+export async function getCachedForms(): Promise<CachedForm[]> {
+  if (!isIndexedDBAvailable()) return []
+
+  try {
+    return await withStore<CachedForm[]>(getDatabase(), FORMS_STORE, "readonly", (store) =>
+      store.getAll()
+    )
+  } catch (error) {
+    logger.warn("Failed to read cached forms", { error })
+    return []
+  }
+}
+
+//=============================================================================
+// Outbox
+//=============================================================================
+
+/**
+ * Queue a response for later submission
+ */
+export async function enqueueSubmission(
+  input: {
+    form: Pick<Form, "id" | "title" | "version">
+    payload: CreateResponseInput
+    pendingFiles?: PendingFile[]
+  },
+  storage: OutboxStorage = indexedDBOutboxStorage
+): Promise<QueuedSubmission> {
+  const item: QueuedSubmission = {
+    id: generateId(),
+    form_id: input.form.id,
+    form_title: input.form.title,
+    form_version: input.form.version,
+    payload: input.payload,
+    pending_files: input.pendingFiles ?? [],
+    status: "pending",
+    attempts: 0,
+    next_attempt_at: Date.now(),
+    created_at: new Date().toISOString(),
+  }
+
+  await storage.put(item)
+  notifyQueueChanged()
+  return item
+}
+
+/**
+ * List queued submissions, optionally for a single form
+ */
+export async function listSubmissions(
+  formId?: string,
+  storage: OutboxStorage = indexedDBOutboxStorage
+): Promise<QueuedSubmission[]> {
+  const items = await storage.getAll()
+  return items
+    .filter((item) => !formId || item.form_id === formId)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+/**
+ * Reset a failed or conflicting submission so it is retried on the next sync
+ */
+export async function retrySubmission(
+  id: string,
+  storage: OutboxStorage = indexedDBOutboxStorage
+): Promise<void> {
+  const items = await storage.getAll()
+  const item = items.find((i) => i.id === id)
+  if (!item || item.status === "synced") return
+
+  await storage.put({
+    ...item,
+    status: "pending",
+    attempts: 0,
+    next_attempt_at: Date.now(),
+    conflict: undefined,
+  })
+  notifyQueueChanged()
+}
+
+/**
+ * Permanently remove a submission from the outbox
+ */
+export async function discardSubmission(
+  id: string,
+  storage: OutboxStorage = indexedDBOutboxStorage
+): Promise<void> {
+  await storage.delete(id)
+  notifyQueueChanged()
+}
+
+/**
+ * Remove synced submissions, optionally for a single form or only those
+ * synced before a point in time
+ */
+export async function clearSyncedSubmissions(
+  formId?: string,
+  storage: OutboxStorage = indexedDBOutboxStorage,
+  syncedBefore?: number
+): Promise<void> {
+  const items = await listSubmissions(formId, storage)
+  await Promise.all(
+    items
+      .filter(
+        (item) =>
+          item.status === "synced" &&
+          (syncedBefore === undefined || Date.parse(item.synced_at ?? "") < syncedBefore)
+      )
+      .map((item) => storage.delete(item.id))
+  )
+  notifyQueueChanged()
+}
+
+/**
+ * Count submissions per status, grouped by form ID
+ */
+export function countSubmissionsByForm(items: QueuedSubmission[]): Record<string, QueueCounts> {
+  return items.reduce<Record<string, QueueCounts>>((acc, item) => {
+    const counts = (acc[item.form_id] ??= { pending: 0, failed: 0, conflict: 0, synced: 0 })
+    if (item.status === "syncing") {
+      counts.pending += 1
+    } else {
+      counts[item.status] += 1
+    }
+    return acc
+  }, {})
+}
+
+/**
+ * Exponential backoff delay for the given attempt number (1-based)
+ */
+export function getRetryDelay(attempts: number): number {
+  const delay = OFFLINE_QUEUE.BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1)
+  return Math.min(delay, OFFLINE_QUEUE.MAX_RETRY_DELAY_MS)
+}
+
+/**
+ * Decide how a failed replay should be handled.
+ *
+ * Network errors, timeouts, rate limits, auth refreshes and server errors are
+ * transient and retried. Any other 4xx means the server rejected the payload
+ * (for example the form was changed or closed) and needs the agent's attention.
+ */
+export function classifySyncError(error: any): {
+  kind: "retry" | "conflict"
+  status?: number
+  message: string
+} {
+  const status: number | undefined = error?.response?.status
+  const detail = error?.response?.data?.detail ?? error?.response?.data?.message
+  const message = Array.isArray(detail)
+    ? detail.map((d: any) => `${d.loc?.join(".") ?? "field"}: ${d.msg}`).join(", ")
+    : typeof detail === "string"
+      ? detail
+      : error?.message || "Unknown error"
+
+  if (!status || status >= 500 || status === 401 || status === 408 || status === 429) {
+    return { kind: "retry", status, message }
+  }
+
+  return { kind: "conflict", status, message }
+}
+
+/**
+ * Upload a file captured offline using a presigned URL
+ */
+export async function uploadPendingFile(file: PendingFile): Promise<string> {
+  const presignResponse = await filesAPI.presign(file.name, file.type, "PUT")
+  const { upload_url, file_url } = presignResponse.data.data || presignResponse.data
+
+  const uploadResponse = await fetch(upload_url, {
+    method: "PUT",
+    body: file.blob,
+    headers: { "Content-Type": file.type },
+  })
+
+  if (!uploadResponse.ok) {
+    throw new Error(`Upload failed: ${uploadResponse.status} ${uploadResponse.statusText}`)
+  }
+
+  return file_url
+}
+
+export interface SyncOptions {
+  formId?: string
+  storage?: OutboxStorage
+  submit?: (payload: CreateResponseInput) => Promise<{ id?: string } | undefined>
+  upload?: (file: PendingFile) => Promise<string>
+  now?: () => number
+}
+
+const defaultSubmit = async (payload: CreateResponseInput) => {
+  const response = await responsesAPI.create(payload)
+  return response.data?.data
+}
+
+/** Running or waiting syncs, keyed by the form they replay ("" for all) */
+const syncsByForm = new Map<string, Promise<SyncResult>>()
+let lastSync: Promise<unknown> = Promise.resolve()
+
+/**
+ * Replay every due submission in the outbox, then drop submissions that were
+ * synced longer ago than the retention period.
+ *
+ * Only one sync runs at a time. Callers share a sync already running or
+ * waiting for the same form; a sync for another form waits its turn.
+ */
+export function syncOutbox(options: SyncOptions = {}): Promise<SyncResult> {
+  const key = options.formId ?? ""
+  const shared = syncsByForm.get(key)
+  if (shared) return shared
+
+  const sync: Promise<SyncResult> = lastSync
+    .catch(() => undefined)
+    .then(() => runSync(options))
+    .finally(() => {
+      if (syncsByForm.get(key) === sync) syncsByForm.delete(key)
+    })
+  syncsByForm.set(key, sync)
+  lastSync = sync
+  return sync
+}
+
+async function runSync({
+  formId,
+  storage = indexedDBOutboxStorage,
+  submit = defaultSubmit,
+  upload = uploadPendingFile,
+  now = Date.now,
+}: SyncOptions): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, failed: 0, conflicts: 0, skipped: 0 }
+  const items = await listSubmissions(formId, storage)
+
+  for (const original of items) {
+    // A "syncing" item here was interrupted mid-replay (e.g. the tab closed)
+    const isDue =
+      (original.status === "pending" || original.status === "syncing") &&
+      original.next_attempt_at <= now()
+    if (!isDue) {
+      if (original.status === "pending") result.skipped += 1
+      continue
+    }
+
+    let item: QueuedSubmission = { ...original, status: "syncing" }
+    await storage.put(item)
+
+    try {
+      // Upload files first so a retry never re-uploads files that already succeeded
+      const attachments = { ...(item.payload.attachments ?? {}) }
+      const remainingFiles = [...item.pending_files]
+      while (remainingFiles.length > 0) {
+        const file = remainingFiles[0]
+        attachments[file.field_id] = await upload(file)
+        remainingFiles.shift()
+        item = {
+          ...item,
+          payload: { ...item.payload, attachments },
+          pending_files: [...remainingFiles],
+        }
+        await storage.put(item)
+      }
+
+      const created = await submit(item.payload)
+      item = {
+        ...item,
+        status: "synced",
+        attempts: item.attempts + 1,
+        last_error: undefined,
+        response_id: created?.id,
+        synced_at: new Date(now()).toISOString(),
+      }
+      result.synced += 1
+    } catch (error) {
+      const classification = classifySyncError(error)
+      const attempts = item.attempts + 1
+
+      if (classification.kind === "conflict") {
+        item = {
+          ...item,
+          status: "conflict",
+          attempts,
+          last_error: classification.message,
+          conflict: {
+            status: classification.status ?? 0,
+            message: classification.message,
+            detected_at: new Date(now()).toISOString(),
+          },
+        }
+        result.conflicts += 1
+      } else {
+        const exhausted = attempts >= OFFLINE_QUEUE.MAX_ATTEMPTS
+        item = {
+          ...item,
+          status: exhausted ? "failed" : "pending",
+          attempts,
+          last_error: classification.message,
+          next_attempt_at: now() + getRetryDelay(attempts),
+        }
+        if (exhausted) result.failed += 1
+        else result.skipped += 1
+      }
+
+      logger.warn("Offline submission replay failed", {
+        submissionId: item.id,
+        formId: item.form_id,
+        attempts,
+        status: classification.status,
+      })
+    }
+
+    await storage.put(item)
+  }
+
+  // Also tells listeners the queue changed
+  await clearSyncedSubmissions(formId, storage, now() - OFFLINE_QUEUE.SYNCED_RETENTION_MS)
+  return result
+}
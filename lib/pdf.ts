@@ -0,0 +1,347 @@
+/**
+ * PDF Writer
+ *
+ * Minimal PDF 1.4 writer for text reports: headings, paragraphs,
+ * term/definition rows and QR codes laid out on A4 pages with the standard
+ * Helvetica fonts, so nothing needs to be embedded. Text is encoded as
+ * WinAnsi; characters outside it are replaced.
+ */
+
+export type PdfBlock =
+  | { type: "heading"; text: string }
+  | { type: "subheading"; text: string }
+  | { type: "text"; text: string; muted?: boolean }
+  /** Bold term with its definition wrapped in a column beside it */
+  | { type: "definition"; term: string; text: string }
+  /** QR code module grid, centred and `size` points wide */
+  | { type: "qr"; modules: boolean[][]; size: number }
+  | { type: "spacer" }
+
+export interface PdfDocument {
+  title: string
+  blocks: PdfBlock[]
+}
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 56
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const TERM_WIDTH = 96
+const FOOTER_SIZE = 8
+
+const STYLES = {
+  heading: { font: "F2", size: 14, leading: 18, before: 14 },
+  subheading: { font: "F2", size: 11, leading: 15, before: 10 },
+  text: { font: "F1", size: 9.5, leading: 13, before: 2 },
+} as const
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+
+// Bold glyphs are wider; scaling the regular metrics keeps wrapping on the safe side
+const BOLD_SCALE = 1.08
+
+// Characters WinAnsi places in 0x80-0x9F
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+}
+
+const SUBSTITUTES: Record<string, string> = {
+  "→": "->",
+  "←": "<-",
+  "≥": ">=",
+  "≤": "<=",
+  "≠": "!=",
+}
+
+interface PlacedLine {
+  font: string
+  size: number
+  x: number
+  y: number
+  text: string
+  gray?: number
+}
+
+interface PlacedGrid {
+  /** Bottom-left corner */
+  x: number
+  y: number
+  moduleSize: number
+  modules: boolean[][]
+}
+
+type PlacedItem = PlacedLine | PlacedGrid
+
+//=============================================================================
+// Text encoding and measurement
+//=============================================================================
+
+/**
+ * Map text onto WinAnsi, one character per byte
+ */
+function toWinAnsi(text: string): string {
+  let encoded = ""
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63
+    if (char === "\t") encoded += " "
+    else if (code >= 32 && code <= 126) encoded += char
+    else if (code >= 160 && code <= 255) encoded += char
+    else if (char in WIN_ANSI) encoded += String.fromCharCode(WIN_ANSI[char])
+    else if (char in SUBSTITUTES) encoded += SUBSTITUTES[char]
+    else encoded += "?"
+  }
+  return encoded
+}
+
+function measure(text: string, font: string, size: number): number {
+  let units = 0
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556
+  }
+  return ((units * size) / 1000) * (font === "F2" ? BOLD_SCALE : 1)
+}
+
+/**
+ * Break encoded text into lines no wider than `width`, splitting words that
+ * don't fit on a line of their own
+ */
+function wrap(text: string, font: string, size: number, width: number): string[] {
+  const lines: string[] = []
+
+  text.split("\n").forEach((paragraph) => {
+    let line = ""
+    paragraph.split(" ").forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word
+      if (measure(candidate, font, size) <= width) {
+        line = candidate
+        return
+      }
+      if (line) lines.push(line)
+      line = ""
+      let rest = word
+      while (measure(rest, font, size) > width) {
+        let cut = rest.length - 1
+        while (cut > 1 && measure(rest.slice(0, cut), font, size) > width) cut--
+        lines.push(rest.slice(0, cut))
+        rest = rest.slice(cut)
+      }
+      line = rest
+    })
+    lines.push(line)
+  })
+
+  return lines
+}
+
+function escapeString(text: string): string {
+  return text.replace(/[\\()]/g, (char) => `\\${char}`)
+}
+
+//=============================================================================
+// Layout
+//=============================================================================
+
+function layout(blocks: PdfBlock[]): PlacedItem[][] {
+  const pages: PlacedItem[][] = [[]]
+  const top = PAGE_HEIGHT - MARGIN
+  const bottom = MARGIN + FOOTER_SIZE * 2
+  let y = top
+
+  const newPage = () => {
+    pages.push([])
+    y = top
+  }
+  // Keep `height` points together, starting a new page if they don't fit
+  const reserve = (height: number) => {
+    if (y - height < bottom && y < top) newPage()
+  }
+  const current = () => pages[pages.length - 1]
+
+  blocks.forEach((block) => {
+    if (block.type === "spacer") {
+      y -= STYLES.text.leading / 2
+      return
+    }
+
+    if (block.type === "qr") {
+      const moduleSize = block.size / Math.max(1, block.modules.length)
+      // Scanners need four blank modules around the code
+      const quietZone = moduleSize * 4
+      y -= quietZone
+      reserve(block.size + quietZone)
+      y -= block.size
+      current().push({
+        x: MARGIN + (CONTENT_WIDTH - block.size) / 2,
+        y,
+        moduleSize,
+        modules: block.modules,
+      })
+      y -= quietZone
+      return
+    }
+
+    if (block.type === "definition") {
+      const style = STYLES.text
+      const termLines = wrap(toWinAnsi(block.term), "F2", style.size, TERM_WIDTH - 8)
+      const textLines = wrap(toWinAnsi(block.text), "F1", style.size, CONTENT_WIDTH - TERM_WIDTH)
+      y -= style.before
+      reserve(style.leading * Math.min(2, Math.max(termLines.length, textLines.length)))
+      const rowTop = y
+      const rowPage = pages.length
+      termLines.forEach((text, index) => {
+        current().push({
+          font: "F2",
+          size: style.size,
+          x: MARGIN,
+          y: rowTop - style.leading * (index + 1) + 3,
+          text,
+        })
+      })
+      textLines.forEach((text) => {
+        reserve(style.leading)
+        y -= style.leading
+        current().push({ font: "F1", size: style.size, x: MARGIN + TERM_WIDTH, y: y + 3, text })
+      })
+      if (pages.length === rowPage) y = Math.min(y, rowTop - style.leading * termLines.length)
+      return
+    }
+
+    const style = STYLES[block.type]
+    const lines = wrap(toWinAnsi(block.text), style.font, style.size, CONTENT_WIDTH)
+    y -= style.before
+    // Headings stay with at least the first lines that follow them
+    reserve(block.type === "text" ? style.leading : style.leading + STYLES.text.leading * 3)
+    lines.forEach((text) => {
+      reserve(style.leading)
+      y -= style.leading
+      current().push({
+        font: style.font,
+        size: style.size,
+        x: MARGIN,
+        y: y + 3,
+        text,
+        gray: block.type === "text" && block.muted ? 0.4 : undefined,
+      })
+    })
+  })
+
+  return pages
+}
+
+/**
+ * Dark modules as filled rectangles, one per horizontal run
+ */
+function gridContent(grid: PlacedGrid): string {
+  const { moduleSize, modules } = grid
+  const rects: string[] = []
+  modules.forEach((row, rowIndex) => {
+    const y = grid.y + (modules.length - rowIndex - 1) * moduleSize
+    let start = -1
+    for (let col = 0; col <= row.length; col++) {
+      if (col < row.length && row[col]) {
+        if (start < 0) start = col
+        continue
+      }
+      if (start >= 0) {
+        const rect = [grid.x + start * moduleSize, y, (col - start) * moduleSize, moduleSize]
+        rects.push(`${rect.map((n) => n.toFixed(2)).join(" ")} re`)
+        start = -1
+      }
+    }
+  })
+  return `0 g\n${rects.join("\n")}\nf`
+}
+
+function pageContent(items: PlacedItem[], footer: string): string {
+  const footerLine: PlacedLine = {
+    font: "F1",
+    size: FOOTER_SIZE,
+    x: PAGE_WIDTH - MARGIN - measure(footer, "F1", FOOTER_SIZE),
+    y: MARGIN - FOOTER_SIZE,
+    text: footer,
+    gray: 0.4,
+  }
+
+  return [...items, footerLine]
+    .map((item) =>
+      "modules" in item
+        ? gridContent(item)
+        : `BT ${item.gray ?? 0} g /${item.font} ${item.size} Tf ${item.x.toFixed(2)} ${item.y.toFixed(
+            2
+          )} Td (${escapeString(item.text)}) Tj ET`
+    )
+    .join("\n")
+}
+
+//=============================================================================
+// Serialization
+//=============================================================================
+
+/**
+ * Lay out and serialize a document
+ */
+export function writePdf(document: PdfDocument): Uint8Array {
+  const pages = layout(document.blocks)
+  const objects: string[] = []
+  const add = (body: string) => {
+    objects.push(body)
+    return objects.length
+  }
+
+  const catalog = add("")
+  const pageTree = add("")
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>")
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>")
+  const info = add(`<< /Title (${escapeString(toWinAnsi(document.title))}) >>`)
+
+  const pageIds = pages.map((lines, index) => {
+    const content = pageContent(lines, `Page ${index + 1} of ${pages.length}`)
+    const stream = add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+    return add(
+      `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${stream} 0 R >>`
+    )
+  })
+
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pageTree} 0 R >>`
+  objects[pageTree - 1] = `<< /Type /Pages /Kids [${pageIds
+    .map((id) => `${id} 0 R`)
+    .join(" ")}] /Count ${pageIds.length} >>`
+
+  // Every character is one byte, so string lengths are byte offsets
+  let output = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n"
+  const offsets = objects.map((body, index) => {
+    const offset = output.length
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`
+    return offset
+  })
+  const xref = output.length
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  offsets.forEach((offset) => {
+    output += `${String(offset).padStart(10, "0")} 00000 n \n`
+  })
+  output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  const bytes = new Uint8Array(output.length)
+  for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i)
+  return bytes
+}
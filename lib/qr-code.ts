@@ -0,0 +1,400 @@
+/**
+ * QR Code Encoder
+ *
+ * Encodes short text such as links and confirmation codes as a QR code:
+ * byte mode, error correction level M, versions 1-10 (up to 213 bytes of
+ * UTF-8). Returns the module grid so callers can draw it on a canvas or
+ * into a PDF.
+ */
+
+export interface QrCode {
+  version: number
+  /** Modules per side, not counting the quiet zone */
+  size: number
+  /** modules[row][col], true for dark */
+  modules: boolean[][]
+}
+
+/** Light modules callers should leave around the symbol */
+export const QR_QUIET_ZONE = 4
+
+// Level M block structure per version: EC codewords per block, the number
+// of data blocks, their length, and how many more blocks are one codeword longer
+const BLOCKS: [number, number, number, number][] = [
+  [10, 1, 16, 0],
+  [16, 1, 28, 0],
+  [26, 1, 44, 0],
+  [18, 2, 32, 0],
+  [24, 2, 43, 0],
+  [16, 4, 27, 0],
+  [18, 4, 31, 0],
+  [22, 2, 38, 2],
+  [22, 3, 36, 2],
+  [26, 4, 43, 1],
+]
+
+const ALIGNMENT_CENTERS = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+]
+
+// Level M is 00 in the format information
+const EC_LEVEL_BITS = 0b00
+const MAX_VERSION = BLOCKS.length
+
+//=============================================================================
+// Reed-Solomon over GF(256)
+//=============================================================================
+
+function buildGaloisTables() {
+  const exp = new Array<number>(512)
+  const log = new Array<number>(256)
+  let value = 1
+  for (let i = 0; i < 255; i++) {
+    exp[i] = value
+    log[value] = i
+    value <<= 1
+    if (value & 0x100) value ^= 0x11d
+  }
+  for (let i = 255; i < 512; i++) exp[i] = exp[i - 255]
+  return { exp, log }
+}
+
+const GF = buildGaloisTables()
+
+function multiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : GF.exp[GF.log[a] + GF.log[b]]
+}
+
+/** Product of (x - α^i) for i < degree, highest power first */
+function generatorPolynomial(degree: number): number[] {
+  let polynomial = [1]
+  for (let i = 0; i < degree; i++) {
+    const next = new Array<number>(polynomial.length + 1).fill(0)
+    polynomial.forEach((coefficient, j) => {
+      next[j] ^= coefficient
+      next[j + 1] ^= multiply(coefficient, GF.exp[i])
+    })
+    polynomial = next
+  }
+  return polynomial
+}
+
+/**
+ * Error correction codewords for one block of data codewords
+ */
+export function reedSolomonRemainder(data: number[], degree: number): number[] {
+  const generator = generatorPolynomial(degree)
+  const remainder = new Array<number>(degree).fill(0)
+  data.forEach((codeword) => {
+    const factor = codeword ^ (remainder.shift() as number)
+    remainder.push(0)
+    for (let i = 0; i < degree; i++) remainder[i] ^= multiply(generator[i + 1], factor)
+  })
+  return remainder
+}
+
+//=============================================================================
+// Codewords
+//=============================================================================
+
+function blockLengths(version: number): number[] {
+  const [, shortBlocks, length, longBlocks] = BLOCKS[version - 1]
+  return [
+    ...new Array<number>(shortBlocks).fill(length),
+    ...new Array<number>(longBlocks).fill(length + 1),
+  ]
+}
+
+function dataCapacity(version: number): number {
+  return blockLengths(version).reduce((sum, length) => sum + length, 0)
+}
+
+function countBits(version: number): number {
+  return version < 10 ? 8 : 16
+}
+
+function toUtf8Bytes(text: string): number[] {
+  const binary = encodeURIComponent(text).replace(/%([0-9A-F]{2})/g, (_, hex) =>
+    String.fromCharCode(parseInt(hex, 16))
+  )
+  return Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+function encodeCodewords(bytes: number[], version: number): number[] {
+  const bits: number[] = []
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  const capacity = dataCapacity(version)
+  push(0b0100, 4)
+  push(bytes.length, countBits(version))
+  bytes.forEach((byte) => push(byte, 8))
+  push(0, Math.min(4, capacity * 8 - bits.length))
+  push(0, (8 - (bits.length % 8)) % 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) codewords.push(pad)
+  return codewords
+}
+
+/**
+ * Split data into blocks, add error correction to each and interleave
+ */
+function interleave(data: number[], version: number): number[] {
+  const ecLength = BLOCKS[version - 1][0]
+  let offset = 0
+  const blocks = blockLengths(version).map((length) => {
+    offset += length
+    return data.slice(offset - length, offset)
+  })
+  const ecBlocks = blocks.map((block) => reedSolomonRemainder(block, ecLength))
+
+  const result: number[] = []
+  const longest = Math.max(...blocks.map((block) => block.length))
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach((block) => i < block.length && result.push(block[i]))
+  }
+  for (let i = 0; i < ecLength; i++) ecBlocks.forEach((block) => result.push(block[i]))
+  return result
+}
+
+//=============================================================================
+// Matrix
+//=============================================================================
+
+const MASKS: ((row: number, col: number) => boolean)[] = [
+  (r, c) => (r + c) % 2 === 0,
+  (r) => r % 2 === 0,
+  (_, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+]
+
+function formatBits(mask: number): number {
+  const data = (EC_LEVEL_BITS << 3) | mask
+  let remainder = data
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+  return ((data << 10) | remainder) ^ 0x5412
+}
+
+function versionBits(version: number): number {
+  let remainder = version
+  for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+  return (version << 12) | remainder
+}
+
+class Matrix {
+  readonly modules: boolean[][]
+  readonly reserved: boolean[][]
+
+  constructor(readonly size: number) {
+    this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+    this.reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+  }
+
+  setFunction(row: number, col: number, dark: boolean) {
+    this.modules[row][col] = dark
+    this.reserved[row][col] = true
+  }
+
+  drawFunctionPatterns(version: number) {
+    const { size } = this
+    for (let i = 8; i < size - 8; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+
+    const finders = [
+      [0, 0],
+      [0, size - 7],
+      [size - 7, 0],
+    ]
+    finders.forEach(([top, left]) => {
+      for (let dr = -1; dr <= 7; dr++) {
+        for (let dc = -1; dc <= 7; dc++) {
+          const row = top + dr
+          const col = left + dc
+          if (row < 0 || row >= size || col < 0 || col >= size) continue
+          const ring = Math.max(Math.abs(dr - 3), Math.abs(dc - 3))
+          this.setFunction(row, col, ring !== 2 && ring !== 4)
+        }
+      }
+    })
+
+    const centers = ALIGNMENT_CENTERS[version - 1]
+    const last = centers.length - 1
+    centers.forEach((row, i) => {
+      centers.forEach((col, j) => {
+        // Skip the three corners taken by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+        for (let dr = -2; dr <= 2; dr++) {
+          for (let dc = -2; dc <= 2; dc++) {
+            this.setFunction(row + dr, col + dc, Math.max(Math.abs(dr), Math.abs(dc)) !== 1)
+          }
+        }
+      })
+    })
+
+    if (version >= 7) {
+      const bits = versionBits(version)
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) === 1
+        const a = size - 11 + (i % 3)
+        const b = Math.floor(i / 3)
+        this.setFunction(b, a, dark)
+        this.setFunction(a, b, dark)
+      }
+    }
+
+    // Reserve the format areas until the mask is chosen
+    this.drawFormat(0)
+  }
+
+  drawFormat(mask: number) {
+    const { size } = this
+    const bits = formatBits(mask)
+    const bit = (i: number) => ((bits >>> i) & 1) === 1
+
+    for (let i = 0; i <= 5; i++) this.setFunction(i, 8, bit(i))
+    this.setFunction(7, 8, bit(6))
+    this.setFunction(8, 8, bit(7))
+    this.setFunction(8, 7, bit(8))
+    for (let i = 9; i < 15; i++) this.setFunction(8, 14 - i, bit(i))
+
+    for (let i = 0; i < 8; i++) this.setFunction(8, size - 1 - i, bit(i))
+    for (let i = 8; i < 15; i++) this.setFunction(size - 15 + i, 8, bit(i))
+    this.setFunction(size - 8, 8, true)
+  }
+
+  /** Fill the non-function modules in the standard zigzag, two columns at a time */
+  drawCodewords(codewords: number[]) {
+    const { size } = this
+    let index = 0
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      const upward = ((right + 1) & 2) === 0
+      for (let step = 0; step < size; step++) {
+        const row = upward ? size - 1 - step : step
+        for (let j = 0; j < 2; j++) {
+          const col = right - j
+          if (this.reserved[row][col]) continue
+          // Remainder bits past the last codeword stay light
+          if (index < codewords.length * 8) {
+            this.modules[row][col] = ((codewords[index >>> 3] >>> (7 - (index & 7))) & 1) === 1
+            index++
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    const test = MASKS[mask]
+    for (let row = 0; row < this.size; row++) {
+      for (let col = 0; col < this.size; col++) {
+        if (!this.reserved[row][col] && test(row, col)) {
+          this.modules[row][col] = !this.modules[row][col]
+        }
+      }
+    }
+  }
+
+  /**
+   * Penalty score from the four rules in the standard; lower scans better
+   */
+  penalty(): number {
+    const { size, modules } = this
+    let score = 0
+    const lines = [...modules, ...modules.map((_, col) => modules.map((row) => row[col]))]
+
+    lines.forEach((line) => {
+      let run = 1
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++
+          continue
+        }
+        if (run >= 5) score += run - 2
+        run = 1
+      }
+
+      const text = line.map((dark) => (dark ? "1" : "0")).join("")
+      score += 40 * (text.match(/(?=10111010000|00001011101)/g)?.length ?? 0)
+    })
+
+    for (let row = 0; row < size - 1; row++) {
+      for (let col = 0; col < size - 1; col++) {
+        const color = modules[row][col]
+        if (
+          modules[row][col + 1] === color &&
+          modules[row + 1][col] === color &&
+          modules[row + 1][col + 1] === color
+        ) {
+          score += 3
+        }
+      }
+    }
+
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0)
+    score += 10 * Math.floor(Math.abs(dark * 20 - size * size * 10) / (size * size))
+    return score
+  }
+}
+
+//=============================================================================
+// Encoding
+//=============================================================================
+
+/**
+ * Encode text as the smallest QR code that holds it. Throws when the text is
+ * longer than version 10 allows.
+ */
+export function encodeQrCode(text: string): QrCode {
+  const bytes = toUtf8Bytes(text)
+  let version = 1
+  while (
+    version <= MAX_VERSION &&
+    4 + countBits(version) + bytes.length * 8 > dataCapacity(version) * 8
+  ) {
+    version++
+  }
+  if (version > MAX_VERSION) {
+    throw new Error(`Text is too long for a QR code (${bytes.length} bytes)`)
+  }
+
+  const size = version * 4 + 17
+  const codewords = interleave(encodeCodewords(bytes, version), version)
+
+  let best: Matrix | null = null
+  let bestScore = Infinity
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const matrix = new Matrix(size)
+    matrix.drawFunctionPatterns(version)
+    matrix.drawCodewords(codewords)
+    matrix.applyMask(mask)
+    matrix.drawFormat(mask)
+    const score = matrix.penalty()
+    if (score < bestScore) {
+      best = matrix
+      bestScore = score
+    }
+  }
+
+  return { version, size, modules: (best as Matrix).modules }
+}
@@ -65,7 +65,12 @@ export const queryKeys = {
   // Responses
   responses: {
     all: (params?: any) => ["responses", "list", params] as const,
+    everyPage: (formId: string) => ["responses", "list", "every-page", formId] as const,
     detail: (id: string) => ["responses", "detail", id] as const,
+    revisions: (id: string) => ["responses", "detail", id, "revisions"] as const,
+    returned: ["responses", "returned"] as const,
+    duplicateDismissals: (formId: string) => ["responses", "duplicates", formId] as const,
+    views: (formId?: string) => ["responses", "views", formId] as const,
   },
 
   // Users
@@ -221,6 +226,10 @@ export const queryKeys = {
     results: (electionId: string) => ["elections", "detail", electionId, "results"] as const,
     finalizedResults: (electionId: string) =>
       ["elections", "detail", electionId, "results", "finalized"] as const,
+    ballots: (electionId: string) =>
+      ["elections", "detail", electionId, "results", "ballots"] as const,
+    writeInMerges: (electionId: string) =>
+      ["elections", "detail", electionId, "results", "write-in-merges"] as const,
     analytics: (electionId: string) =>
       ["elections", "detail", electionId, "analytics"] as const,
     demographics: (electionId: string) =>
@@ -239,6 +248,11 @@ export const queryKeys = {
     activeDashboard: () => ["elections", "dashboard", "active"] as const,
     voteStatus: (electionId: string) =>
       ["elections", "detail", electionId, "vote-status"] as const,
+    publicDetail: (electionId: string) => ["elections", "public", electionId] as const,
+    publicVoteStatus: (electionId: string, voterToken: string) =>
+      ["elections", "public", electionId, "vote-status", voterToken] as const,
+    publicReceipt: (electionId: string, confirmationCode: string) =>
+      ["elections", "public", electionId, "receipt", confirmationCode] as const,
   },
 
   // Political Parties
@@ -0,0 +1,224 @@
+/**
+ * Repeating Groups
+ *
+ * A `group` field nests child fields and stores its answer as an array of
+ * rows keyed by child field ID, e.g. one row per household member. The
+ * number of rows is either chosen by the respondent between `minRepeats`
+ * and `maxRepeats`, or fixed by the numeric answer of `repeatCountField`.
+ * Non-repeatable groups always hold exactly one row.
+ */
+
+import type { FormField, FormResponseData } from "./types"
+
+/** Hard cap on rows per group, whatever the form or count field says */
+export const MAX_GROUP_REPEATS = 50
+
+/** Field types that can be used inside a group */
+export const GROUP_CHILD_FIELD_TYPES: FormField["type"][] = [
+  "text",
+  "textarea",
+  "email",
+  "number",
+  "date",
+  "select",
+  "radio",
+  "checkbox",
+  "phone",
+  "url",
+  "color",
+  "range",
+  "rating",
+]
+
+export type GroupRow = Record<string, any>
+
+export interface GroupRepeatBounds {
+  min: number
+  max: number
+  /** The row count is set by another field and cannot be changed by hand */
+  fixed: boolean
+}
+
+export interface FlattenedResponseEntry {
+  key: string
+  label: string
+  value: any
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+export function isGroupField(field: Pick<FormField, "type">): boolean {
+  return field.type === "group"
+}
+
+/**
+ * Work out how many rows a group may have given the current answers
+ */
+export function getGroupRepeatBounds(field: FormField, data: FormResponseData): GroupRepeatBounds {
+  const cap = Math.min(field.maxRepeats ?? MAX_GROUP_REPEATS, MAX_GROUP_REPEATS)
+
+  if (field.repeatCountField) {
+    const count = Number(data[field.repeatCountField])
+    const rows = Number.isFinite(count) ? clamp(Math.floor(count), 0, cap) : 0
+    return { min: rows, max: rows, fixed: true }
+  }
+
+  if (!field.repeatable) {
+    return { min: 1, max: 1, fixed: true }
+  }
+
+  const min = clamp(field.minRepeats ?? (field.required ? 1 : 0), 0, cap)
+  return { min, max: cap, fixed: false }
+}
+
+/**
+ * Read a stored group value as rows; a single object counts as one row
+ */
+export function getGroupRows(value: any): GroupRow[] {
+  if (Array.isArray(value)) return value.map((row) => (isPlainObject(row) ? row : {}))
+  if (isPlainObject(value)) return [value]
+  return []
+}
+
+/**
+ * Pad or trim a group's rows to fit its bounds. Trimming only drops rows
+ * from the end, so lowering a count field keeps the earlier rows' answers.
+ */
+export function resizeGroupRows(field: FormField, value: any, data: FormResponseData): GroupRow[] {
+  const rows = getGroupRows(value)
+  const { min, max } = getGroupRepeatBounds(field, data)
+  const target = clamp(rows.length, min, max)
+
+  if (rows.length === target) return rows
+  if (rows.length > target) return rows.slice(0, target)
+  return [...rows, ...Array.from({ length: target - rows.length }, () => ({}))]
+}
+
+/**
+ * Resize every group in the response; used before rendering and submitting
+ */
+export function normalizeGroupValues(
+  fields: FormField[],
+  data: FormResponseData
+): FormResponseData {
+  const groups = fields.filter(isGroupField)
+  if (groups.length === 0) return data
+
+  const normalized = { ...data }
+  groups.forEach((group) => {
+    const rows = resizeGroupRows(group, data[group.id], data)
+    if (rows.length > 0 || group.id in data) {
+      normalized[group.id] = rows
+    }
+  })
+  return normalized
+}
+
+/**
+ * Validate a group's row count and every child answer. `validateChild`
+ * returns an error message or null; the first problem found is reported,
+ * prefixed with the row it belongs to.
+ */
+export function validateGroupRows(
+  field: FormField,
+  data: FormResponseData,
+  validateChild: (child: FormField, value: any) => string | null
+): string | null {
+  const rows = getGroupRows(data[field.id])
+  const { min, max, fixed } = getGroupRepeatBounds(field, data)
+
+  if (field.required && rows.length === 0 && !fixed) {
+    return `${field.label} is required`
+  }
+  if (rows.length < min) {
+    return `${field.label} needs at least ${min} ${min === 1 ? "entry" : "entries"}`
+  }
+  if (rows.length > max) {
+    return `${field.label} allows at most ${max} ${max === 1 ? "entry" : "entries"}`
+  }
+
+  for (let index = 0; index < rows.length; index++) {
+    for (const child of field.fields ?? []) {
+      const error = validateChild(child, rows[index][child.id])
+      if (error) {
+        return rows.length > 1 || field.repeatable
+          ? `${field.label} #${index + 1}: ${error}`
+          : error
+      }
+    }
+  }
+
+  return null
+}
+
+//=============================================================================
+// Flattening (tables and exports)
+//=============================================================================
+
+/**
+ * Column key for a child answer, e.g. `members[2].age`
+ */
+export function groupColumnKey(groupId: string, rowIndex: number, childId: string): string {
+  return `${groupId}[${rowIndex + 1}].${childId}`
+}
+
+/**
+ * Flatten a response for tabular output: each group row becomes one column
+ * per child field. Without field definitions, any array of plain objects is
+ * treated as a group.
+ */
+export function flattenResponseData(
+  data: FormResponseData,
+  fields?: FormField[]
+): Record<string, any> {
+  return Object.fromEntries(
+    describeResponseData(data, fields).map((entry) => [entry.key, entry.value])
+  )
+}
+
+/**
+ * Flatten a response into labelled entries for detail views
+ */
+export function describeResponseData(
+  data: FormResponseData,
+  fields?: FormField[]
+): FlattenedResponseEntry[] {
+  const fieldsById = new Map((fields ?? []).map((field) => [field.id, field]))
+  const entries: FlattenedResponseEntry[] = []
+
+  Object.entries(data).forEach(([key, value]) => {
+    const field = fieldsById.get(key)
+    const isGroup = field
+      ? isGroupField(field)
+      : Array.isArray(value) && value.length > 0 && value.every(isPlainObject)
+
+    if (!isGroup) {
+      entries.push({ key, label: field?.label || key, value })
+      return
+    }
+
+    const childLabels = new Map((field?.fields ?? []).map((child) => [child.id, child.label]))
+    getGroupRows(value).forEach((row, rowIndex) => {
+      // Known children first, in form order, then anything else stored in the row
+      const childIds = [
+        ...(field?.fields ?? []).map((child) => child.id),
+        ...Object.keys(row).filter((childId) => !childLabels.has(childId)),
+      ]
+      childIds.forEach((childId) => {
+        entries.push({
+          key: groupColumnKey(key, rowIndex, childId),
+          label: `${field?.label || key} #${rowIndex + 1} › ${childLabels.get(childId) || childId}`,
+          value: row[childId],
+        })
+      })
+    })
+  })
+
+  return entries
+}
@@ -0,0 +1,384 @@
+/**
+ * Response Duplicates
+ *
+ * Finds responses to a form that were probably collected twice. Three rules
+ * run independently and any one of them pairs two responses:
+ *
+ *   exact     the chosen key fields have identical answers
+ *   name      the person's name is within an edit-distance threshold or
+ *             sounds the same (Soundex), ignoring case, accents and word order
+ *   location  GPS answers within N metres, submitted within T minutes
+ *
+ * Pairs are joined into groups, so three submissions of the same household
+ * show up together. Groups a reviewer dismissed are left out; merging is done
+ * by the server from the answers picked in the side-by-side review.
+ */
+
+import type { FormField, FormResponse, FormResponseData } from "./types"
+import { isEmptyValue } from "./conditional-logic"
+import { distanceInMeters, isGpsValue } from "./response-geo"
+import { levenshtein } from "./string-distance"
+
+export interface DuplicateDetectorConfig {
+  /** Responses whose answers to all of these fields are equal */
+  exactFields: string[]
+  /** Answers joined into a person's name and compared fuzzily */
+  nameFields: string[]
+  /** Minimum name similarity (1 - edit distance / length), 0–1 */
+  nameThreshold: number
+  /** Also pair names that sound alike */
+  phonetic: boolean
+  /** GPS field for the location rule; null turns the rule off */
+  gpsField: string | null
+  radiusMeters: number
+  windowMinutes: number
+}
+
+export type DuplicateReason =
+  | { kind: "exact"; fields: string[] }
+  | { kind: "name"; similarity: number; phonetic: boolean }
+  | { kind: "location"; distanceMeters: number; minutesApart: number }
+
+export interface DuplicateMatch {
+  ids: [string, string]
+  reasons: DuplicateReason[]
+}
+
+export interface DuplicateGroup {
+  id: string
+  /** Oldest submission first */
+  responseIds: string[]
+  matches: DuplicateMatch[]
+}
+
+const NAME_PATTERN = /name/i
+
+/**
+ * Starting configuration for a form: name rule on text fields that look like
+ * names, location rule on the first GPS field
+ */
+export function getDefaultDetectorConfig(fields: FormField[] = []): DuplicateDetectorConfig {
+  return {
+    exactFields: [],
+    nameFields: fields
+      .filter((field) => field.type === "text" && NAME_PATTERN.test(`${field.id} ${field.label}`))
+      .map((field) => field.id),
+    nameThreshold: 0.85,
+    phonetic: true,
+    gpsField: fields.find((field) => field.type === "gps")?.id ?? null,
+    radiusMeters: 50,
+    windowMinutes: 30,
+  }
+}
+
+//=============================================================================
+// String matching
+//=============================================================================
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: "1",
+  f: "1",
+  p: "1",
+  v: "1",
+  c: "2",
+  g: "2",
+  j: "2",
+  k: "2",
+  q: "2",
+  s: "2",
+  x: "2",
+  z: "2",
+  d: "3",
+  t: "3",
+  l: "4",
+  m: "5",
+  n: "5",
+  r: "6",
+}
+
+/**
+ * American Soundex code of a word, e.g. "Robert" and "Rupert" are both R163
+ */
+export function soundex(word: string): string {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, "")
+  if (!letters) return ""
+
+  let code = letters[0].toUpperCase()
+  let previous = SOUNDEX_CODES[letters[0]] ?? ""
+  for (let i = 1; i < letters.length && code.length < 4; i++) {
+    const digit = SOUNDEX_CODES[letters[i]] ?? ""
+    if (digit && digit !== previous) code += digit
+    // Vowels separate letters with the same code; h and w do not
+    if (letters[i] !== "h" && letters[i] !== "w") previous = digit
+  }
+  return code.padEnd(4, "0")
+}
+
+/**
+ * Lower-cased name words without accents or punctuation, sorted so
+ * "Mensah, Kwame" and "kwame mensah" compare equal
+ */
+export function normalizeName(name: string): string[] {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .sort()
+}
+
+export function nameSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length)
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest
+}
+
+//=============================================================================
+// Detection
+//=============================================================================
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`
+}
+
+function exactKey(value: unknown): string | null {
+  if (isEmptyValue(value)) return null
+  return typeof value === "string" ? value.trim().toLowerCase() : JSON.stringify(value)
+}
+
+function minutesBetween(a: FormResponse, b: FormResponse): number {
+  return Math.abs(Date.parse(a.submitted_at) - Date.parse(b.submitted_at)) / 60_000
+}
+
+/**
+ * Group the responses that any enabled rule considers duplicates.
+ * `dismissals` are sets of response IDs confirmed as distinct.
+ */
+export function findDuplicates(
+  responses: FormResponse[],
+  config: DuplicateDetectorConfig,
+  dismissals: string[][] = []
+): DuplicateGroup[] {
+  const dismissed = new Set<string>()
+  dismissals.forEach((ids) =>
+    ids.forEach((a, i) => ids.slice(i + 1).forEach((b) => dismissed.add(pairKey(a, b))))
+  )
+
+  const matches = new Map<string, DuplicateMatch>()
+  const addMatch = (a: string, b: string, reason: DuplicateReason) => {
+    if (a === b) return
+    const key = pairKey(a, b)
+    if (dismissed.has(key)) return
+    const match = matches.get(key)
+    if (match) match.reasons.push(reason)
+    else matches.set(key, { ids: a < b ? [a, b] : [b, a], reasons: [reason] })
+  }
+
+  // Exact: bucket by the combined key so only true matches are compared
+  if (config.exactFields.length > 0) {
+    const buckets = new Map<string, string[]>()
+    responses.forEach((response) => {
+      const parts = config.exactFields.map((fieldId) => exactKey(response.data?.[fieldId]))
+      if (parts.some((part) => part === null)) return
+      const key = parts.join("\u0000")
+      buckets.set(key, [...(buckets.get(key) ?? []), response.id])
+    })
+    buckets.forEach((ids) =>
+      ids.forEach((a, i) =>
+        ids
+          .slice(i + 1)
+          .forEach((b) => addMatch(a, b, { kind: "exact", fields: config.exactFields }))
+      )
+    )
+  }
+
+  // Name: every pair, skipping those whose lengths alone rule out a match
+  if (config.nameFields.length > 0) {
+    const names = responses
+      .map((response) => {
+        const words = normalizeName(
+          config.nameFields.map((fieldId) => String(response.data?.[fieldId] ?? "")).join(" ")
+        )
+        return {
+          id: response.id,
+          name: words.join(" "),
+          sound: config.phonetic ? words.map(soundex).sort().join(" ") : "",
+        }
+      })
+      .filter((entry) => entry.name)
+
+    names.forEach((a, i) => {
+      names.slice(i + 1).forEach((b) => {
+        const phonetic = config.phonetic && a.sound === b.sound
+        const longest = Math.max(a.name.length, b.name.length)
+        const reachable = 1 - Math.abs(a.name.length - b.name.length) / longest
+        if (!phonetic && reachable < config.nameThreshold) return
+        const similarity = nameSimilarity(a.name, b.name)
+        if (phonetic || similarity >= config.nameThreshold) {
+          addMatch(a.id, b.id, { kind: "name", similarity, phonetic })
+        }
+      })
+    })
+  }
+
+  // Location: sweep responses in submission order within the time window
+  if (config.gpsField) {
+    const gpsField = config.gpsField
+    const located = responses
+      .filter((response) => isGpsValue(response.data?.[gpsField]))
+      .sort((a, b) => Date.parse(a.submitted_at) - Date.parse(b.submitted_at))
+
+    located.forEach((a, i) => {
+      for (let j = i + 1; j < located.length; j++) {
+        const b = located[j]
+        const minutesApart = minutesBetween(a, b)
+        if (minutesApart > config.windowMinutes) break
+        const distance = distanceInMeters(a.data[gpsField], b.data[gpsField])
+        if (distance <= config.radiusMeters) {
+          addMatch(a.id, b.id, { kind: "location", distanceMeters: distance, minutesApart })
+        }
+      }
+    })
+  }
+
+  return groupMatches(responses, Array.from(matches.values()))
+}
+
+function groupMatches(responses: FormResponse[], matches: DuplicateMatch[]): DuplicateGroup[] {
+  const parent = new Map<string, string>()
+  const find = (id: string): string => {
+    const next = parent.get(id) ?? id
+    if (next === id) return id
+    const root = find(next)
+    parent.set(id, root)
+    return root
+  }
+  matches.forEach(({ ids: [a, b] }) => {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA !== rootB) parent.set(rootB, rootA)
+  })
+
+  const submittedAt = new Map(
+    responses.map((response) => [response.id, Date.parse(response.submitted_at)])
+  )
+  const groups = new Map<string, DuplicateGroup>()
+  matches.forEach((match) => {
+    const root = find(match.ids[0])
+    const group = groups.get(root) ?? { id: root, responseIds: [], matches: [] }
+    group.matches.push(match)
+    match.ids.forEach((id) => {
+      if (!group.responseIds.includes(id)) group.responseIds.push(id)
+    })
+    groups.set(root, group)
+  })
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      responseIds: group.responseIds.sort(
+        (a, b) => (submittedAt.get(a) ?? 0) - (submittedAt.get(b) ?? 0)
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        b.responseIds.length - a.responseIds.length ||
+        (submittedAt.get(a.responseIds[0]) ?? 0) - (submittedAt.get(b.responseIds[0]) ?? 0)
+    )
+}
+
+/**
+ * One-line explanation of why two responses were paired
+ */
+export function describeDuplicateReason(
+  reason: DuplicateReason,
+  labels: Record<string, string> = {}
+): string {
+  switch (reason.kind) {
+    case "exact":
+      return `Same ${reason.fields.map((fieldId) => labels[fieldId] || fieldId).join(" + ")}`
+    case "name":
+      return reason.phonetic && reason.similarity < 1
+        ? `Names sound alike (${Math.round(reason.similarity * 100)}% similar)`
+        : `Names ${Math.round(reason.similarity * 100)}% similar`
+    case "location":
+      return `${Math.round(reason.distanceMeters)} m apart, ${Math.round(reason.minutesApart)} min apart`
+  }
+}
+
+//=============================================================================
+// Merging
+//=============================================================================
+
+export interface MergeRow {
+  /** Top-level field ID */
+  key: string
+  label: string
+  /** One value per response, in the order they were passed */
+  values: unknown[]
+  differs: boolean
+}
+
+/**
+ * Side-by-side rows for a group of responses, in form order. Repeating groups
+ * are compared and merged as a whole.
+ */
+export function compareResponses(responses: FormResponse[], fields: FormField[] = []): MergeRow[] {
+  const labels = new Map(fields.map((field) => [field.id, field.label]))
+  const keys = [
+    ...fields.map((field) => field.id),
+    ...responses.flatMap((response) => Object.keys(response.data || {})),
+  ].filter((key, index, all) => all.indexOf(key) === index)
+
+  return keys
+    .map((key) => {
+      const values = responses.map((response) => response.data?.[key])
+      const distinct = new Set(values.map((value) => exactKey(value) ?? ""))
+      return { key, label: labels.get(key) || key, values, differs: distinct.size > 1 }
+    })
+    .filter((row) => row.values.some((value) => !isEmptyValue(value)))
+}
+
+/**
+ * Which response each merged answer comes from: the primary's, unless it is
+ * blank and another response has one
+ */
+export function defaultMergeChoices(
+  responses: FormResponse[],
+  primaryId: string,
+  rows: MergeRow[]
+): Record<string, string> {
+  const primaryIndex = responses.findIndex((response) => response.id === primaryId)
+  return Object.fromEntries(
+    rows.map((row) => {
+      if (!isEmptyValue(row.values[primaryIndex])) return [row.key, primaryId]
+      const filled = row.values.findIndex((value) => !isEmptyValue(value))
+      return [row.key, responses[filled === -1 ? primaryIndex : filled].id]
+    })
+  )
+}
+
+/**
+ * Answers and attachments for the merged response. Fields without a choice
+ * keep the primary's answer.
+ */
+export function mergeResponses(
+  responses: FormResponse[],
+  primaryId: string,
+  choices: Record<string, string>
+): { data: FormResponseData; attachments: Record<string, string> } {
+  const byId = new Map(responses.map((response) => [response.id, response]))
+  const primary = byId.get(primaryId)
+  if (!primary) throw new Error(`Response ${primaryId} is not in the group`)
+
+  const data: FormResponseData = { ...primary.data }
+  const attachments: Record<string, string> = { ...(primary.attachments ?? {}) }
+  Object.entries(choices).forEach(([key, responseId]) => {
+    const source = byId.get(responseId) ?? primary
+    if (source.data && key in source.data) data[key] = source.data[key]
+    else delete data[key]
+    if (source.attachments?.[key]) attachments[key] = source.attachments[key]
+    else delete attachments[key]
+  })
+  return { data, attachments }
+}
@@ -0,0 +1,234 @@
+/**
+ * Response Geo
+ *
+ * Helpers behind the responses map: pulling GPS answers out of responses,
+ * grid-based marker clustering and heatmap cells in Web Mercator pixel space,
+ * and point-in-polygon tests for area selection. Kept free of Leaflet so the
+ * maths can be tested without a DOM.
+ */
+
+import type { FormField, FormResponse, GPSCoordinates } from "./types"
+
+export interface ResponsePoint {
+  responseId: string
+  fieldId: string
+  latitude: number
+  longitude: number
+  /** Reported accuracy radius in metres */
+  accuracy?: number
+}
+
+export interface PointCluster {
+  id: string
+  latitude: number
+  longitude: number
+  points: ResponsePoint[]
+}
+
+export interface HeatmapCell {
+  id: string
+  /** [[south, west], [north, east]] */
+  bounds: [[number, number], [number, number]]
+  count: number
+  /** count relative to the densest cell, 0–1 */
+  intensity: number
+}
+
+/** Polygon vertices as [latitude, longitude] pairs */
+export type GeoPolygon = [number, number][]
+
+const TILE_SIZE = 256
+const MAX_LATITUDE = 85.0511287798
+const EARTH_RADIUS_METERS = 6_371_000
+
+export function isGpsValue(value: any): value is GPSCoordinates {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Number.isFinite(value.latitude) &&
+    Number.isFinite(value.longitude) &&
+    Math.abs(value.latitude) <= 90 &&
+    Math.abs(value.longitude) <= 180
+  )
+}
+
+/**
+ * Collect GPS answers from responses. With field definitions only `gps`
+ * fields are read; without them any coordinate-shaped answer is used.
+ */
+export function extractResponsePoints(
+  responses: FormResponse[],
+  fields?: FormField[]
+): ResponsePoint[] {
+  const gpsFieldIds = fields
+    ? new Set(fields.filter((field) => field.type === "gps").map((field) => field.id))
+    : null
+  const points: ResponsePoint[] = []
+
+  responses.forEach((response) => {
+    Object.entries(response.data || {}).forEach(([fieldId, value]) => {
+      if (gpsFieldIds && !gpsFieldIds.has(fieldId)) return
+      if (!isGpsValue(value)) return
+      points.push({
+        responseId: response.id,
+        fieldId,
+        latitude: value.latitude,
+        longitude: value.longitude,
+        accuracy:
+          Number.isFinite(value.accuracy) && value.accuracy > 0 ? value.accuracy : undefined,
+      })
+    })
+  })
+
+  return points
+}
+
+/**
+ * Bounding box of the points as [[south, west], [north, east]], or null
+ */
+export function getPointsBounds(
+  points: Pick<ResponsePoint, "latitude" | "longitude">[]
+): [[number, number], [number, number]] | null {
+  if (points.length === 0) return null
+  const latitudes = points.map((point) => point.latitude)
+  const longitudes = points.map((point) => point.longitude)
+  return [
+    [Math.min(...latitudes), Math.min(...longitudes)],
+    [Math.max(...latitudes), Math.max(...longitudes)],
+  ]
+}
+
+/**
+ * Great-circle (haversine) distance between two points in metres
+ */
+export function distanceInMeters(
+  a: Pick<ResponsePoint, "latitude" | "longitude">,
+  b: Pick<ResponsePoint, "latitude" | "longitude">
+): number {
+  const radians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = radians(b.latitude - a.latitude)
+  const dLng = radians(b.longitude - a.longitude)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(radians(a.latitude)) * Math.cos(radians(b.latitude)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+//=============================================================================
+// Projection
+//=============================================================================
+
+function project(latitude: number, longitude: number, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom
+  const sin = Math.sin((Math.max(Math.min(latitude, MAX_LATITUDE), -MAX_LATITUDE) * Math.PI) / 180)
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  }
+}
+
+function unproject(x: number, y: number, zoom: number): [number, number] {
+  const scale = TILE_SIZE * 2 ** zoom
+  const longitude = (x / scale) * 360 - 180
+  const n = Math.PI - (2 * Math.PI * y) / scale
+  const latitude = (180 / Math.PI) * Math.atan(Math.sinh(n))
+  return [latitude, longitude]
+}
+
+function groupByCell<T extends Pick<ResponsePoint, "latitude" | "longitude">>(
+  points: T[],
+  zoom: number,
+  cellPixels: number
+): Map<string, T[]> {
+  const cells = new Map<string, T[]>()
+  points.forEach((point) => {
+    const { x, y } = project(point.latitude, point.longitude, zoom)
+    const key = `${Math.floor(x / cellPixels)}:${Math.floor(y / cellPixels)}`
+    const cell = cells.get(key)
+    if (cell) cell.push(point)
+    else cells.set(key, [point])
+  })
+  return cells
+}
+
+//=============================================================================
+// Clustering and heatmap
+//=============================================================================
+
+/**
+ * Group points that fall in the same screen-space grid cell at this zoom.
+ * Each cluster sits at the mean position of its points.
+ */
+export function clusterPoints(
+  points: ResponsePoint[],
+  zoom: number,
+  cellPixels = 60
+): PointCluster[] {
+  return Array.from(groupByCell(points, Math.round(zoom), cellPixels), ([key, members]) => ({
+    id: key,
+    latitude: members.reduce((sum, point) => sum + point.latitude, 0) / members.length,
+    longitude: members.reduce((sum, point) => sum + point.longitude, 0) / members.length,
+    points: members,
+  }))
+}
+
+/**
+ * Count points per grid cell for the heatmap layer
+ */
+export function buildHeatmapCells(
+  points: ResponsePoint[],
+  zoom: number,
+  cellPixels = 24
+): HeatmapCell[] {
+  const level = Math.round(zoom)
+  const cells = groupByCell(points, level, cellPixels)
+  const densest = Math.max(0, ...Array.from(cells.values(), (members) => members.length))
+
+  return Array.from(cells, ([key, members]) => {
+    const [column, row] = key.split(":").map(Number)
+    const [north, west] = unproject(column * cellPixels, row * cellPixels, level)
+    const [south, east] = unproject((column + 1) * cellPixels, (row + 1) * cellPixels, level)
+    return {
+      id: key,
+      bounds: [
+        [south, west],
+        [north, east],
+      ],
+      count: members.length,
+      intensity: densest > 0 ? members.length / densest : 0,
+    }
+  })
+}
+
+//=============================================================================
+// Area selection
+//=============================================================================
+
+/**
+ * Ray-casting point-in-polygon test on latitude/longitude pairs
+ */
+export function isPointInPolygon(
+  point: Pick<ResponsePoint, "latitude" | "longitude">,
+  polygon: GeoPolygon
+): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i]
+    const [latJ, lngJ] = polygon[j]
+    const crosses =
+      latI > point.latitude !== latJ > point.latitude &&
+      point.longitude < ((lngJ - lngI) * (point.latitude - latI)) / (latJ - latI) + lngI
+    if (crosses) inside = !inside
+  }
+  return inside
+}
+
+/**
+ * IDs of responses with at least one GPS answer inside the polygon
+ */
+export function getResponseIdsInPolygon(points: ResponsePoint[], polygon: GeoPolygon): Set<string> {
+  if (polygon.length < 3) return new Set()
+  return new Set(
+    points.filter((point) => isPointInPolygon(point, polygon)).map((point) => point.responseId)
+  )
+}
@@ -0,0 +1,188 @@
+/**
+ * Response Review
+ *
+ * QA workflow for submitted responses. A supervisor approves a response,
+ * flags it for a closer look, or returns it to the agent who collected it
+ * with comments on individual answers. The agent amends it, which records a
+ * new revision and puts the response back to pending:
+ *
+ *   pending ──► approved | flagged | needs_correction
+ *   flagged ──► approved | needs_correction
+ *   approved ──► flagged | needs_correction   (re-opened)
+ *   needs_correction ──► pending (amended)  | approved | flagged
+ *
+ * Revisions are full snapshots; `diffResponseData` compares two of them
+ * answer by answer, with repeating group rows flattened into columns.
+ */
+
+import type {
+  FormField,
+  FormResponse,
+  FormResponseData,
+  ResponseFieldComment,
+  ResponseReviewStatus,
+} from "./types"
+import { describeResponseData } from "./repeating-groups"
+
+export interface ReviewStatusInfo {
+  label: string
+  description: string
+}
+
+export const REVIEW_STATUSES: Record<ResponseReviewStatus, ReviewStatusInfo> = {
+  pending: { label: "Pending review", description: "Waiting for a reviewer" },
+  approved: { label: "Approved", description: "Accepted as collected" },
+  flagged: { label: "Flagged", description: "Needs a closer look before it is accepted" },
+  needs_correction: {
+    label: "Needs correction",
+    description: "Returned to the agent who collected it",
+  },
+}
+
+/**
+ * Statuses a reviewer can set. `pending` is only reached by the agent
+ * amending a returned response.
+ */
+export type ReviewDecision = Exclude<ResponseReviewStatus, "pending">
+
+export const REVIEW_TRANSITIONS: Record<ResponseReviewStatus, ReviewDecision[]> = {
+  pending: ["approved", "flagged", "needs_correction"],
+  flagged: ["approved", "needs_correction"],
+  approved: ["flagged", "needs_correction"],
+  needs_correction: ["approved", "flagged"],
+}
+
+export function getReviewStatus(response: Pick<FormResponse, "review_status">) {
+  return response.review_status ?? "pending"
+}
+
+export function canTransition(from: ResponseReviewStatus, to: ResponseReviewStatus): boolean {
+  return (REVIEW_TRANSITIONS[from] as ResponseReviewStatus[]).includes(to)
+}
+
+/**
+ * Split a selection into the responses a bulk review action applies to and
+ * those it would skip
+ */
+export function partitionByTransition<T extends Pick<FormResponse, "review_status">>(
+  responses: T[],
+  to: ResponseReviewStatus
+): { eligible: T[]; skipped: T[] } {
+  const eligible: T[] = []
+  const skipped: T[] = []
+  responses.forEach((response) =>
+    (canTransition(getReviewStatus(response), to) ? eligible : skipped).push(response)
+  )
+  return { eligible, skipped }
+}
+
+/**
+ * Check a review action before sending it; returns an error message or null.
+ * The agent has to be told what to fix, so returning a response needs a note
+ * or at least one field comment.
+ */
+export function validateReviewAction(
+  from: ResponseReviewStatus,
+  to: ResponseReviewStatus,
+  note: string,
+  fieldComments: { field_id: string; comment: string }[] = []
+): string | null {
+  if (!canTransition(from, to)) {
+    const label = (status: ResponseReviewStatus) => REVIEW_STATUSES[status].label.toLowerCase()
+    return `A response that is ${label(from)} can't be marked ${label(to)}`
+  }
+  if (fieldComments.some((comment) => !comment.comment.trim())) {
+    return "Field comments can't be empty"
+  }
+  if (to === "needs_correction" && !note.trim() && fieldComments.length === 0) {
+    return "Explain what needs correcting in a note or a field comment"
+  }
+  if (to === "flagged" && !note.trim()) {
+    return "Add a note explaining why the response is flagged"
+  }
+  return null
+}
+
+/**
+ * Unresolved comments, grouped by the answer they refer to
+ */
+export function getOpenFieldComments(
+  response: Pick<FormResponse, "field_comments">
+): Map<string, ResponseFieldComment[]> {
+  const open = new Map<string, ResponseFieldComment[]>()
+  ;(response.field_comments ?? [])
+    .filter((comment) => !comment.resolved_at)
+    .forEach((comment) =>
+      open.set(comment.field_id, [...(open.get(comment.field_id) ?? []), comment])
+    )
+  return open
+}
+
+//=============================================================================
+// Revision diffs
+//=============================================================================
+
+export interface ResponseDataChange {
+  /** Field ID, or a flattened group column such as `members[2].age` */
+  key: string
+  label: string
+  kind: "added" | "removed" | "changed"
+  before?: unknown
+  after?: unknown
+}
+
+function isBlank(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  )
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (isBlank(a) && isBlank(b)) return true
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Compare two snapshots of a response answer by answer, in form order
+ */
+export function diffResponseData(
+  before: FormResponseData,
+  after: FormResponseData,
+  fields?: FormField[]
+): ResponseDataChange[] {
+  const previous = new Map(describeResponseData(before, fields).map((entry) => [entry.key, entry]))
+  const next = new Map(describeResponseData(after, fields).map((entry) => [entry.key, entry]))
+  const order = (fields ?? []).map((field) => field.id)
+  const rank = (key: string) => {
+    const index = order.indexOf(key.split(/[.[]/)[0])
+    return index === -1 ? order.length : index
+  }
+
+  const keys = Array.from(new Set([...previous.keys(), ...next.keys()]))
+  return keys
+    .map((key, position) => ({ key, position }))
+    .sort((a, b) => rank(a.key) - rank(b.key) || a.position - b.position)
+    .flatMap(({ key }): ResponseDataChange[] => {
+      const from = previous.get(key)
+      const to = next.get(key)
+      if (isSameValue(from?.value, to?.value)) return []
+
+      const label = (to ?? from)!.label
+      if (isBlank(from?.value)) return [{ key, label, kind: "added", after: to!.value }]
+      if (isBlank(to?.value)) return [{ key, label, kind: "removed", before: from!.value }]
+      return [{ key, label, kind: "changed", before: from!.value, after: to!.value }]
+    })
+}
+
+/**
+ * Render an answer for a diff row
+ */
+export function formatAnswer(value: unknown): string {
+  if (isBlank(value)) return "—"
+  if (Array.isArray(value)) return value.map(formatAnswer).join(", ")
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
@@ -0,0 +1,217 @@
+/**
+ * Response Views
+ *
+ * Everything that shapes the responses table — the form, the visualisation,
+ * filters, column visibility and order, sort and grouping — as one plain
+ * object. A view state round-trips through a URL-safe token, so a link
+ * reproduces the view exactly; saved views store the same token.
+ */
+
+export type ResponseViewMode = "table" | "cards" | "map" | "duplicates" | "analytics" | "insights"
+
+export const RESPONSE_VIEW_MODES: ResponseViewMode[] = [
+  "table",
+  "cards",
+  "map",
+  "duplicates",
+  "analytics",
+  "insights",
+]
+
+/** Filters with dates as ISO strings so they survive JSON */
+export interface ResponseViewFilters {
+  search: string
+  dateFrom?: string
+  dateTo?: string
+  qualityRange: [number, number]
+  submittedBy?: string
+  hasAttachments?: boolean
+  fieldFilters: Record<string, any>
+}
+
+export interface ResponseViewState {
+  formId: string
+  mode: ResponseViewMode
+  filters: ResponseViewFilters
+  /** Only columns whose visibility differs from the default */
+  columnVisibility: Record<string, boolean>
+  /** Column IDs in display order; columns not listed keep their place after these */
+  columnOrder: string[]
+  sorting: { id: string; desc: boolean }[]
+  /** Column the table rows are grouped by */
+  groupBy: string | null
+}
+
+/** Shape of the filters panel state, with real dates */
+export interface ResponseFilterValues {
+  search: string
+  dateRange?: { from: Date | undefined; to?: Date }
+  qualityRange: [number, number]
+  submittedBy?: string
+  hasAttachments?: boolean
+  fieldFilters: Record<string, any>
+}
+
+const TOKEN_VERSION = 1
+
+export function createDefaultViewState(formId = ""): ResponseViewState {
+  return {
+    formId,
+    mode: "table",
+    filters: { search: "", qualityRange: [0, 100], fieldFilters: {} },
+    columnVisibility: {},
+    columnOrder: [],
+    sorting: [],
+    groupBy: null,
+  }
+}
+
+//=============================================================================
+// Filters
+//=============================================================================
+
+export function toViewFilters(filters: ResponseFilterValues): ResponseViewFilters {
+  const { dateRange, ...rest } = filters
+  return {
+    ...rest,
+    dateFrom: dateRange?.from?.toISOString(),
+    dateTo: dateRange?.to?.toISOString(),
+  }
+}
+
+export function fromViewFilters(filters: ResponseViewFilters): ResponseFilterValues {
+  const { dateFrom, dateTo, ...rest } = filters
+  return {
+    ...rest,
+    dateRange: dateFrom
+      ? { from: new Date(dateFrom), to: dateTo ? new Date(dateTo) : undefined }
+      : undefined,
+  }
+}
+
+//=============================================================================
+// Tokens
+//=============================================================================
+
+function toBase64Url(text: string): string {
+  // Percent-encode first so non-Latin-1 characters survive btoa
+  const binary = encodeURIComponent(text).replace(/%([0-9A-F]{2})/g, (_, hex) =>
+    String.fromCharCode(parseInt(hex, 16))
+  )
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(token: string): string {
+  const binary = atob(token.replace(/-/g, "+").replace(/_/g, "/"))
+  return decodeURIComponent(
+    Array.from(binary, (char) => `%${char.charCodeAt(0).toString(16).padStart(2, "0")}`).join("")
+  )
+}
+
+/**
+ * Drop defaults and undefined values so equal views give equal tokens
+ */
+function compactFilters(filters: ResponseViewFilters): Partial<ResponseViewFilters> {
+  const compact: Partial<ResponseViewFilters> = {}
+  if (filters.search) compact.search = filters.search
+  if (filters.dateFrom) compact.dateFrom = filters.dateFrom
+  if (filters.dateTo) compact.dateTo = filters.dateTo
+  if (filters.qualityRange[0] !== 0 || filters.qualityRange[1] !== 100) {
+    compact.qualityRange = filters.qualityRange
+  }
+  if (filters.submittedBy) compact.submittedBy = filters.submittedBy
+  if (filters.hasAttachments !== undefined) compact.hasAttachments = filters.hasAttachments
+  const fieldFilters = Object.fromEntries(
+    Object.entries(filters.fieldFilters)
+      .filter(([, value]) => value !== undefined && value !== null && value !== "")
+      .sort(([a], [b]) => a.localeCompare(b))
+  )
+  if (Object.keys(fieldFilters).length > 0) compact.fieldFilters = fieldFilters
+  return compact
+}
+
+export function encodeViewState(state: ResponseViewState): string {
+  const payload = {
+    v: TOKEN_VERSION,
+    f: state.formId,
+    m: state.mode,
+    q: compactFilters(state.filters),
+    c: Object.fromEntries(
+      Object.entries(state.columnVisibility).sort(([a], [b]) => a.localeCompare(b))
+    ),
+    o: state.columnOrder,
+    s: state.sorting.map(({ id, desc }) => [id, desc ? 1 : 0]),
+    g: state.groupBy,
+  }
+  return toBase64Url(JSON.stringify(payload))
+}
+
+/**
+ * Parse a token from a link; returns null for anything malformed or from an
+ * unknown version rather than a half-applied view
+ */
+export function decodeViewState(token: string | null | undefined): ResponseViewState | null {
+  if (!token) return null
+  let payload: any
+  try {
+    payload = JSON.parse(fromBase64Url(token))
+  } catch {
+    return null
+  }
+  if (!payload || payload.v !== TOKEN_VERSION || typeof payload.f !== "string") return null
+
+  const defaults = createDefaultViewState(payload.f)
+  const filters = typeof payload.q === "object" && payload.q ? payload.q : {}
+  const quality = filters.qualityRange
+  return {
+    formId: payload.f,
+    mode: RESPONSE_VIEW_MODES.includes(payload.m) ? payload.m : defaults.mode,
+    filters: {
+      search: typeof filters.search === "string" ? filters.search : "",
+      dateFrom: typeof filters.dateFrom === "string" ? filters.dateFrom : undefined,
+      dateTo: typeof filters.dateTo === "string" ? filters.dateTo : undefined,
+      qualityRange:
+        Array.isArray(quality) && quality.length === 2 && quality.every(Number.isFinite)
+          ? [quality[0], quality[1]]
+          : defaults.filters.qualityRange,
+      submittedBy: typeof filters.submittedBy === "string" ? filters.submittedBy : undefined,
+      hasAttachments:
+        typeof filters.hasAttachments === "boolean" ? filters.hasAttachments : undefined,
+      fieldFilters:
+        typeof filters.fieldFilters === "object" && filters.fieldFilters
+          ? filters.fieldFilters
+          : {},
+    },
+    columnVisibility: Object.fromEntries(
+      Object.entries(typeof payload.c === "object" && payload.c ? payload.c : {}).filter(
+        ([, visible]) => typeof visible === "boolean"
+      )
+    ) as Record<string, boolean>,
+    columnOrder: Array.isArray(payload.o)
+      ? payload.o.filter((id: unknown) => typeof id === "string")
+      : [],
+    sorting: Array.isArray(payload.s)
+      ? payload.s
+          .filter((entry: unknown) => Array.isArray(entry) && typeof entry[0] === "string")
+          .map(([id, desc]: [string, number]) => ({ id, desc: desc === 1 }))
+      : [],
+    groupBy: typeof payload.g === "string" ? payload.g : null,
+  }
+}
+
+export function isSameViewState(a: ResponseViewState, b: ResponseViewState): boolean {
+  return encodeViewState(a) === encodeViewState(b)
+}
+
+/**
+ * Column visibility overrides, keeping only the entries that differ from the
+ * defaults so new columns pick up their default in old views
+ */
+export function diffColumnVisibility(
+  visibility: Record<string, boolean>,
+  defaults: Record<string, boolean>
+): Record<string, boolean> {
+  return Object.fromEntries(
+    Object.entries(visibility).filter(([id, visible]) => (defaults[id] ?? true) !== visible)
+  )
+}
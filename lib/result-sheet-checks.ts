@@ -0,0 +1,276 @@
+/**
+ * Result Sheet Checks
+ *
+ * Arithmetic consistency checks for result sheet entry, run live while an
+ * officer types in figures from a pink sheet:
+ *
+ * - each contest's candidate votes add up to the valid votes
+ * - valid + rejected votes equal the total votes cast
+ * - votes cast do not exceed the registered voters
+ * - each figure matches the amount written out in words
+ * - each write-in row with votes names who they were for
+ *
+ * Errors block submission until corrected. Warnings can be overridden, in
+ * which case each one is recorded as a `CollationDiscrepancy`.
+ */
+
+import type { CollationDiscrepancy, ResultSheet } from "./types"
+
+export type SheetCheckSeverity = "error" | "warning"
+
+export type SheetCheckType =
+  | "candidate_sum"
+  | "cast_total"
+  | "over_registered"
+  | "votes_in_words"
+  | "unreadable_words"
+  | "write_in_name"
+
+export interface SheetCheckIssue {
+  /** Stable ID, e.g. `candidate_sum:<position id>` */
+  id: string
+  type: SheetCheckType
+  severity: SheetCheckSeverity
+  message: string
+  expected?: number
+  actual?: number
+  /** Contest the issue belongs to */
+  contestId?: string
+  /** Vote entry the issue belongs to */
+  entryKey?: string
+}
+
+export type SheetTotals = Pick<
+  ResultSheet,
+  "total_registered_voters" | "total_votes_cast" | "total_valid_votes" | "total_rejected_votes"
+>
+
+export interface SheetContest {
+  id: string
+  title: string
+  entries: {
+    key: string
+    label: string
+    votes?: number
+    votes_in_words?: string
+    /** A write-in row, named by `write_in_name` rather than a candidate */
+    write_in?: boolean
+    write_in_name?: string
+  }[]
+}
+
+export type DiscrepancyReport = Pick<
+  CollationDiscrepancy,
+  "discrepancy_type" | "expected_value" | "actual_value" | "description"
+>
+
+//=============================================================================
+// Number words
+//=============================================================================
+
+const UNITS: Record<string, number> = {
+  zero: 0,
+  nil: 0,
+  none: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fourty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+}
+
+const SCALES: Record<string, number> = {
+  thousand: 1_000,
+  million: 1_000_000,
+  billion: 1_000_000_000,
+}
+
+/**
+ * Parse an amount written in English words, e.g. "one thousand, two hundred
+ * and five". Digits are accepted too. Returns null when the text can't be
+ * read as a whole number.
+ */
+export function parseNumberWords(text: string): number | null {
+  const normalized = text.trim().toLowerCase()
+  if (!normalized) return null
+  if (/^\d[\d,\s]*$/.test(normalized)) return Number(normalized.replace(/[,\s]/g, ""))
+
+  const tokens = normalized
+    .replace(/\bvotes?\b|\bonly\b/g, " ")
+    .split(/[\s,-]+/)
+    .filter((token) => token && token !== "and")
+  if (tokens.length === 0) return null
+
+  let total = 0
+  let group = 0
+  let sawNumber = false
+  let lastScale = Infinity
+
+  for (const token of tokens) {
+    if (token in UNITS) {
+      group += UNITS[token]
+      sawNumber = true
+    } else if (token === "hundred") {
+      if (group >= 100) return null
+      group = (group || 1) * 100
+      sawNumber = true
+    } else if (token in SCALES) {
+      const scale = SCALES[token]
+      // Scales must descend: "two thousand million" is not a count
+      if (scale >= lastScale) return null
+      total += (group || 1) * scale
+      group = 0
+      lastScale = scale
+      sawNumber = true
+    } else {
+      return null
+    }
+  }
+
+  return sawNumber ? total + group : null
+}
+
+//=============================================================================
+// Checks
+//=============================================================================
+
+function sum(values: (number | undefined)[]): number {
+  return values.reduce<number>((total, value) => total + (value ?? 0), 0)
+}
+
+function isSet(value: number | undefined): value is number {
+  return typeof value === "number" && Number.isFinite(value)
+}
+
+/**
+ * Run every consistency check over the figures entered so far. Checks that
+ * depend on a total are skipped until that total has been entered.
+ */
+export function checkResultSheet(totals: SheetTotals, contests: SheetContest[]): SheetCheckIssue[] {
+  const issues: SheetCheckIssue[] = []
+  const {
+    total_registered_voters: registered,
+    total_votes_cast: cast,
+    total_valid_votes: valid,
+    total_rejected_votes: rejected,
+  } = totals
+
+  if (isSet(valid)) {
+    contests.forEach((contest) => {
+      const entered = contest.entries.filter((entry) => isSet(entry.votes))
+      if (entered.length === 0) return
+      const candidateTotal = sum(entered.map((entry) => entry.votes))
+      if (candidateTotal !== valid) {
+        issues.push({
+          id: `candidate_sum:${contest.id}`,
+          type: "candidate_sum",
+          severity: "warning",
+          message: `${contest.title}: candidate votes add up to ${candidateTotal.toLocaleString()}, but valid votes are ${valid.toLocaleString()}`,
+          expected: valid,
+          actual: candidateTotal,
+          contestId: contest.id,
+        })
+      }
+    })
+  }
+
+  if (isSet(cast) && isSet(valid) && isSet(rejected) && valid + rejected !== cast) {
+    issues.push({
+      id: "cast_total",
+      type: "cast_total",
+      severity: "warning",
+      message: `Valid (${valid.toLocaleString()}) + rejected (${rejected.toLocaleString()}) votes should equal votes cast (${cast.toLocaleString()})`,
+      expected: cast,
+      actual: valid + rejected,
+    })
+  }
+
+  if (isSet(cast) && isSet(registered) && cast > registered) {
+    issues.push({
+      id: "over_registered",
+      type: "over_registered",
+      severity: "error",
+      message: `Votes cast (${cast.toLocaleString()}) exceed registered voters (${registered.toLocaleString()}). Report an incident if the pink sheet really shows this.`,
+      expected: registered,
+      actual: cast,
+    })
+  }
+
+  contests.forEach((contest) => {
+    contest.entries.forEach((entry) => {
+      if (entry.write_in && isSet(entry.votes) && !entry.write_in_name?.trim()) {
+        issues.push({
+          id: `write_in_name:${entry.key}`,
+          type: "write_in_name",
+          severity: "error",
+          message: `${contest.title}: enter the name for the write-in with ${entry.votes.toLocaleString()} votes`,
+          contestId: contest.id,
+          entryKey: entry.key,
+        })
+      }
+      if (!entry.votes_in_words?.trim() || !isSet(entry.votes)) return
+      const written = parseNumberWords(entry.votes_in_words)
+
+      if (written === null) {
+        issues.push({
+          id: `unreadable_words:${entry.key}`,
+          type: "unreadable_words",
+          severity: "warning",
+          message: `${entry.label}: couldn't read "${entry.votes_in_words}" as a number`,
+          contestId: contest.id,
+          entryKey: entry.key,
+        })
+      } else if (written !== entry.votes) {
+        issues.push({
+          id: `votes_in_words:${entry.key}`,
+          type: "votes_in_words",
+          severity: "error",
+          message: `${entry.label}: ${entry.votes.toLocaleString()} in figures but ${written.toLocaleString()} in words`,
+          expected: written,
+          actual: entry.votes,
+          contestId: contest.id,
+          entryKey: entry.key,
+        })
+      }
+    })
+  })
+
+  return issues
+}
+
+/**
+ * Pre-fill discrepancy reports for warnings the officer chose to override
+ */
+export function buildDiscrepancyReports(issues: SheetCheckIssue[]): DiscrepancyReport[] {
+  return issues
+    .filter((issue) => issue.severity === "warning")
+    .map((issue) => ({
+      discrepancy_type: issue.type,
+      expected_value: issue.expected !== undefined ? String(issue.expected) : undefined,
+      actual_value: issue.actual !== undefined ? String(issue.actual) : undefined,
+      description: issue.message,
+    }))
+}
@@ -72,6 +72,11 @@ export const sanitizeFormField = <T extends Record<string, any>>(field: T): T =>
     }))
   }
 
+  // Sanitize child fields of groups
+  if ("fields" in sanitized && Array.isArray(sanitized.fields)) {
+    sanitized.fields = sanitized.fields.map((child: any) => sanitizeFormField(child))
+  }
+
   return sanitized as T
 }
 
@@ -0,0 +1,27 @@
+/**
+ * String Distance
+ *
+ * Edit distance for fuzzy matching of names people typed, used by duplicate
+ * detection and write-in suggestions.
+ */
+
+/**
+ * Levenshtein distance: the fewest single-character insertions, deletions
+ * and substitutions that turn one string into the other
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a) return b.length
+  if (!b) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
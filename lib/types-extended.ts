@@ -17,6 +17,8 @@ export type ConditionOperator =
   | "less_than_or_equal"
   | "contains"
   | "not_contains"
+  | "starts_with"
+  | "ends_with"
   | "in"
   | "not_in"
   | "is_empty"
@@ -24,38 +26,83 @@ export type ConditionOperator =
   | "matches_regex"
 
 export type ConditionalActionType =
-  | "show_field"
-  | "hide_field"
-  | "enable_field"
-  | "disable_field"
+  | "show"
+  | "hide"
+  | "enable"
+  | "disable"
   | "set_value"
-  | "calculate_value"
   | "set_required"
   | "set_optional"
-  | "show_error"
-  | "clear_error"
+  | "set_options" // For select/radio fields
+  | "calculate" // For computed fields
+  | "validate"
+  | "show_message"
 
 export interface Condition {
   field_id: string
+  field_name?: string
   operator: ConditionOperator
   value: any
+  value_type?: "static" | "field" | "variable" // Compare against static value, another field, or variable
 }
 
 export interface ConditionalAction {
   type: ConditionalActionType
+  target_field_ids: string[]
+  parameters?: Record<string, any>
+}
+
+/**
+ * Canonical conditional rule, shared by the logic editor, the form builder
+ * and the client-side evaluator. Payloads in the legacy shape are upgraded by
+ * `normalizeConditionalRule` in `lib/conditional-rules.ts`.
+ */
+export interface ConditionalRule {
+  id: string
+  form_id: string
+  name: string
+  description?: string
+  priority: number // Higher priority rules execute first
+  enabled: boolean
+  logic_operator: "AND" | "OR"
+  conditions: Condition[]
+  actions: ConditionalAction[]
+  created_at?: string
+  updated_at?: string
+  created_by?: string
+}
+
+/**
+ * Legacy rule shape (`rule_name`/`is_active`, one target per action) still
+ * returned for rules created before the models were unified
+ */
+export type LegacyConditionalActionType =
+  | "show_field"
+  | "hide_field"
+  | "enable_field"
+  | "disable_field"
+  | "set_value"
+  | "calculate_value"
+  | "set_required"
+  | "set_optional"
+  | "show_error"
+  | "clear_error"
+
+export interface LegacyConditionalAction {
+  type: LegacyConditionalActionType
   target_field_id?: string
   value?: any
   error_message?: string
   formula?: string
 }
 
-export interface ConditionalRule {
+export interface LegacyConditionalRule {
   id: string
   form_id: string
   rule_name: string
   rule_type: "show_hide" | "calculate" | "validate"
   conditions: Condition[]
-  actions: ConditionalAction[]
+  actions: LegacyConditionalAction[]
   priority: number
   is_active: boolean
   created_at: string
@@ -63,6 +110,14 @@ export interface ConditionalRule {
   created_by?: string
 }
 
+export interface ConditionalRuleIssue {
+  rule_id: string
+  rule_name: string
+  field_id?: string
+  severity: "error" | "warning"
+  message: string
+}
+
 export interface ConditionalRuleEvaluationResult {
   visible_fields: string[]
   hidden_fields: string[]
@@ -270,15 +325,17 @@ export interface FormPage {
   show_conditions?: Condition[]
 }
 
+export interface FormPageSettings {
+  allow_page_navigation: boolean
+  show_progress_bar: boolean
+  save_on_page_change: boolean
+}
+
 export interface MultiPageFormSchema {
   pages: FormPage[]
   fields: FormField[]
   branding?: any
-  settings: {
-    allow_page_navigation: boolean
-    show_progress_bar: boolean
-    save_on_page_change: boolean
-  }
+  settings: FormPageSettings
 }
 
 //=============================================================================
@@ -1,3 +1,5 @@
+import type { FormPage, FormPageSettings } from "./types-extended"
+
 export interface User {
   id: string
   username: string
@@ -47,6 +49,8 @@ export interface FormField {
     | "range"
     | "rating"
     | "signature"
+    | "calculated"
+    | "group"
   label: string
   required: boolean
   placeholder?: string
@@ -59,6 +63,16 @@ export interface FormField {
   max?: number
   step?: number
   defaultValue?: any
+  /** Expression for calculated fields, e.g. `{price} * {quantity}` (see lib/formula.ts) */
+  formula?: string
+  /** Child fields of a `group`; the response value is an array of rows keyed by child ID */
+  fields?: FormField[]
+  /** Let respondents add rows to a `group` (e.g. one per household member) */
+  repeatable?: boolean
+  minRepeats?: number
+  maxRepeats?: number
+  /** Field whose numeric answer sets the number of rows (see lib/repeating-groups.ts) */
+  repeatCountField?: string
 }
 
 export interface FormFieldOption {
@@ -85,6 +99,9 @@ export interface Form {
   schema: {
     fields: FormField[]
     branding?: FormBranding
+    /** Page breaks; forms without pages render as a single page */
+    pages?: FormPage[]
+    settings?: FormPageSettings
   }
   created_by: string
   created_at: string
@@ -109,6 +126,93 @@ export interface FormResponse {
   submitted_at: string
   data: FormResponseData
   attachments?: Record<string, string>
+  /** QA state; responses without one are pending review */
+  review_status?: ResponseReviewStatus
+  /** Reviewer's note for the latest review action */
+  review_note?: string
+  reviewed_by?: string
+  reviewed_at?: string
+  field_comments?: ResponseFieldComment[]
+  /** Number of amendments since the original submission */
+  revision?: number
+}
+
+/**
+ * QA state of a response (see `lib/response-review.ts` for the allowed
+ * transitions). Returning a response to its agent sets `needs_correction`;
+ * amending it puts it back to `pending`.
+ */
+export type ResponseReviewStatus = "pending" | "approved" | "flagged" | "needs_correction"
+
+/**
+ * Reviewer comment on a single answer
+ */
+export interface ResponseFieldComment {
+  id: string
+  /** Field ID, or `<group id>[<row>].<child id>` for an answer in a repeating group */
+  field_id: string
+  comment: string
+  author_id: string
+  author_name?: string
+  created_at: string
+  /** Set when an amendment addresses the comment */
+  resolved_at?: string
+}
+
+/**
+ * Snapshot of a response's answers. Revision 0 is the original submission;
+ * each amendment adds the next revision.
+ */
+export interface ResponseRevision {
+  id: string
+  response_id: string
+  revision: number
+  data: FormResponseData
+  attachments?: Record<string, string>
+  /** Agent's note describing the amendment */
+  note?: string
+  created_by: string
+  created_by_name?: string
+  created_at: string
+}
+
+/**
+ * Responses a reviewer confirmed are not duplicates of each other; the
+ * detector stops pairing any two of them
+ */
+export interface ResponseDuplicateDismissal {
+  id: string
+  form_id: string
+  response_ids: string[]
+  dismissed_by: string
+  dismissed_at: string
+}
+
+/**
+ * Named preset for the responses table. `state` is the same token used in
+ * `?view=` links (see `lib/response-views.ts`).
+ */
+export interface SavedResponseView {
+  id: string
+  name: string
+  form_id: string
+  state: string
+  /** Private views are only listed for their owner */
+  visibility: "private" | "role"
+  role_id?: string
+  role_name?: string
+  owner_id: string
+  owner_name?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface SaveResponseViewInput {
+  name: string
+  form_id: string
+  state: string
+  visibility: "private" | "role"
+  role_id?: string
 }
 
 export interface AuthState {
@@ -198,6 +302,8 @@ export interface CreateFormInput {
   form_schema: {
     fields: FormField[]
     branding?: FormBranding
+    pages?: FormPage[]
+    settings?: FormPageSettings
   }
   version: number
   status: "draft" | "active" | "archived" | "decommissioned"
@@ -386,6 +492,29 @@ export interface CreateWebhookInput {
   enabled?: boolean
 }
 
+/**
+ * One delivery attempt, as returned by the webhook logs endpoint
+ */
+export interface WebhookDelivery {
+  id: string
+  webhook_id: string
+  event: string
+  status: "success" | "failed" | "pending"
+  attempt: number
+  request_url: string
+  request_headers: Record<string, string>
+  /** Raw body exactly as sent, so its signature can be checked */
+  request_body: string
+  response_status?: number
+  response_headers?: Record<string, string>
+  response_body?: string
+  duration_ms?: number
+  error?: string
+  /** Set on deliveries re-sent from the console */
+  replay_of?: string
+  created_at: string
+}
+
 // ============================================
 // ELECTIONS & VOTING TYPES
 // ============================================
@@ -552,6 +681,8 @@ export interface VoteSelection {
   position_id?: string
   candidate_id?: string
   poll_option_id?: string
+  /** Name the voter wrote in, instead of a candidate_id */
+  write_in?: string
   rank?: number
 }
 
@@ -560,6 +691,12 @@ export interface CastVotesInput {
   voter_token?: string
 }
 
+export interface CastBallot {
+  ballot_id: string
+  votes: VoteSelection[]
+  voted_at?: string
+}
+
 export interface VoteReceipt {
   election_id: string
   election_title: string
@@ -570,6 +707,78 @@ export interface VoteReceipt {
   confirmation_code: string
 }
 
+export interface VoteStatus {
+  has_voted: boolean
+  voted_at?: string
+  confirmation_code?: string
+}
+
+export interface VoterVerificationInput {
+  national_id?: string
+  phone?: string
+  otp?: string
+}
+
+export interface VoterVerificationResult {
+  verified: boolean
+  voter_token: string
+  verification_level: VerificationLevel
+  message?: string
+}
+
+// Result of looking up a confirmation code; never includes the ballot's choices
+export interface VoteReceiptVerification {
+  election_id: string
+  election_title: string
+  election_status: ElectionStatus
+  confirmation_code: string
+  /** A ballot with this code is in the ballot box */
+  recorded: boolean
+  /** The ballot is included in the tally */
+  counted: boolean
+  voted_at?: string
+}
+
+// Public ballot (unauthenticated /vote endpoints)
+export interface PublicCandidate {
+  id: string
+  name: string
+  photo_url?: string
+  party?: string
+  bio?: string
+  manifesto?: string
+}
+
+export interface PublicElectionPosition {
+  id: string
+  title: string
+  description?: string
+  max_selections: number
+  candidates: PublicCandidate[]
+}
+
+export interface PublicElection {
+  id: string
+  title: string
+  description?: string
+  election_type: ElectionType
+  voting_method: VotingMethod
+  verification_level: VerificationLevel
+  require_national_id: boolean
+  require_phone_otp: boolean
+  status: ElectionStatus
+  start_date: string
+  end_date: string
+  branding?: ElectionBranding
+  settings?: Pick<
+    ElectionSettings,
+    "allow_write_in" | "randomize_candidates" | "show_party_affiliation"
+  >
+  positions: PublicElectionPosition[]
+  poll_options: Pick<PollOption, "id" | "option_text" | "description">[]
+  total_votes?: number
+}
+
 // Election Results Types
 export interface CandidateResult {
   candidate_id: string
@@ -598,6 +807,32 @@ export interface PositionResult {
   max_selections: number
   total_votes: number
   candidates: CandidateResult[]
+  // Write-in names as voters typed them, before any merges
+  write_ins?: WriteInTally[]
+}
+
+export interface WriteInTally {
+  name: string
+  votes: number
+}
+
+// Write-in spellings an admin folded into one name or into a listed candidate
+export interface WriteInMerge {
+  id: string
+  election_id: string
+  position_id: string
+  variants: string[]
+  name?: string
+  candidate_id?: string
+  created_by?: string
+  created_at: string
+}
+
+export interface CreateWriteInMergeInput {
+  position_id: string
+  variants: string[]
+  name?: string
+  candidate_id?: string
 }
 
 export interface PollOptionResult {
@@ -1127,6 +1362,7 @@ export interface ResultSheetEntry {
   poll_option_id?: string
   votes: number
   votes_in_words?: string
+  write_in_name?: string
   position_title?: string
   candidate_name?: string
   candidate_party?: string
@@ -1253,3 +1489,23 @@ export interface SubmissionProgress {
   certified: number
   completion_rate: number
 }
+
+export interface AggregatedResults {
+  level: string
+  area_id?: string
+  sheets_counted: number
+  total_votes_cast: number
+  total_valid_votes: number
+  total_rejected_votes: number
+  results: Array<{
+    position_id?: string
+    position_title?: string
+    candidate_id?: string
+    candidate_name?: string
+    party?: string
+    poll_option_id?: string
+    option_text?: string
+    write_in_name?: string
+    total_votes: number
+  }>
+}
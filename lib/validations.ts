@@ -1,4 +1,5 @@
 import { z } from "zod"
+import { MAX_GROUP_REPEATS } from "./repeating-groups"
 
 /**
  * Authentication Schemas
@@ -133,45 +134,61 @@ export const formFieldValidationSchema = z
     }
   )
 
-export const formFieldSchema = z
-  .object({
-    id: z.string().min(1, "Field ID is required"),
-    type: z.enum([
-      "text",
-      "textarea",
-      "email",
-      "number",
-      "date",
-      "select",
-      "radio",
-      "checkbox",
-      "gps",
-      "file",
-      "phone",
-      "url",
-      "color",
-      "range",
-      "rating",
-      "signature",
-    ]),
-    label: z.string().min(1, "Label is required").max(255, "Label must not exceed 255 characters"),
-    required: z.boolean(),
-    placeholder: z.string().max(255).optional(),
-    helpText: z.string().max(500).optional(),
-    options: z
-      .array(
-        z.object({
-          label: z.string(),
-          value: z.string(),
-        })
-      )
-      .optional(),
-    accept: z.string().optional(),
-    validation: formFieldValidationSchema.optional(),
-    min: z.number().optional(),
-    max: z.number().optional(),
-    step: z.number().positive().optional(),
-    defaultValue: z.any().optional(),
+const baseFormFieldSchema = z.object({
+  id: z.string().min(1, "Field ID is required"),
+  type: z.enum([
+    "text",
+    "textarea",
+    "email",
+    "number",
+    "date",
+    "select",
+    "radio",
+    "checkbox",
+    "gps",
+    "file",
+    "phone",
+    "url",
+    "color",
+    "range",
+    "rating",
+    "signature",
+    "calculated",
+    "group",
+  ]),
+  label: z.string().min(1, "Label is required").max(255, "Label must not exceed 255 characters"),
+  required: z.boolean(),
+  placeholder: z.string().max(255).optional(),
+  helpText: z.string().max(500).optional(),
+  options: z
+    .array(
+      z.object({
+        label: z.string(),
+        value: z.string(),
+      })
+    )
+    .optional(),
+  accept: z.string().optional(),
+  validation: formFieldValidationSchema.optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  step: z.number().positive().optional(),
+  defaultValue: z.any().optional(),
+  formula: z.string().max(2000).optional(),
+  repeatable: z.boolean().optional(),
+  minRepeats: z.number().int().min(0).optional(),
+  maxRepeats: z.number().int().positive().max(MAX_GROUP_REPEATS).optional(),
+  repeatCountField: z.string().optional(),
+})
+
+type FormFieldSchemaInput = z.infer<typeof baseFormFieldSchema> & {
+  fields?: FormFieldSchemaInput[]
+}
+
+export const formFieldSchema: z.ZodType<FormFieldSchemaInput> = baseFormFieldSchema
+  .extend({
+    // Child fields of a group; groups cannot be nested inside groups
+    fields: z.lazy(() => z.array(formFieldSchema)).optional(),
   })
   .refine(
     (data) => {
@@ -186,6 +203,34 @@ export const formFieldSchema = z
       path: ["options"],
     }
   )
+  .refine(
+    (data) => {
+      if (data.type === "group") {
+        return (
+          !!data.fields &&
+          data.fields.length > 0 &&
+          data.fields.every((child) => child.type !== "group")
+        )
+      }
+      return true
+    },
+    {
+      message: "Groups must have at least one field and cannot contain other groups",
+      path: ["fields"],
+    }
+  )
+  .refine(
+    (data) => {
+      if (data.minRepeats !== undefined && data.maxRepeats !== undefined) {
+        return data.minRepeats <= data.maxRepeats
+      }
+      return true
+    },
+    {
+      message: "minRepeats must be less than or equal to maxRepeats",
+      path: ["minRepeats"],
+    }
+  )
 
 export const formBrandingSchema = z.object({
   logo_url: z.string().url().optional(),
@@ -0,0 +1,139 @@
+/**
+ * Vote Receipts
+ *
+ * A receipt pairs a ballot's confirmation code with a link to the public
+ * lookup page, so a voter can check later that their ballot was recorded and
+ * counted without revealing how they voted. Admins bulk-check codes against
+ * the vote entries in an election's audit log.
+ */
+
+import { writePdf, type PdfBlock } from "./pdf"
+import { encodeQrCode } from "./qr-code"
+import type { ElectionAuditLog } from "./types"
+
+export interface ReceiptDocument {
+  electionTitle: string
+  confirmationCode: string
+  votedAt?: string
+  votesCast?: number
+  /** Lookup page link the QR code points to */
+  verifyUrl: string
+}
+
+/** Audit log action recorded when a ballot is cast */
+export const VOTE_CAST_AUDIT_ACTION = "vote_cast"
+
+//=============================================================================
+// Codes and links
+//=============================================================================
+
+/**
+ * Uppercase a confirmation code and drop spaces; returns null for anything
+ * that can't be one
+ */
+export function normalizeConfirmationCode(input: string): string | null {
+  const code = input.replace(/\s+/g, "").toUpperCase()
+  return /^[A-Z0-9-]{4,64}$/.test(code) ? code : null
+}
+
+export function getReceiptUrl(origin: string, electionId: string, code: string): string {
+  return `${origin}/vote/${encodeURIComponent(electionId)}/receipt?code=${encodeURIComponent(code)}`
+}
+
+//=============================================================================
+// Printable receipt
+//=============================================================================
+
+export const RECEIPT_NOTE =
+  "Scan the code or open the link to check that your ballot was recorded and counted. " +
+  "This receipt does not show how you voted."
+
+export function buildReceiptPdf(receipt: ReceiptDocument): Uint8Array {
+  const blocks: PdfBlock[] = [
+    { type: "heading", text: "Vote Receipt" },
+    { type: "spacer" },
+    { type: "definition", term: "Election", text: receipt.electionTitle },
+    { type: "definition", term: "Confirmation code", text: receipt.confirmationCode },
+  ]
+  if (receipt.votedAt) {
+    blocks.push({
+      type: "definition",
+      term: "Voted at",
+      text: new Date(receipt.votedAt).toLocaleString(),
+    })
+  }
+  if (receipt.votesCast !== undefined) {
+    blocks.push({ type: "definition", term: "Votes cast", text: String(receipt.votesCast) })
+  }
+  blocks.push(
+    { type: "qr", modules: encodeQrCode(receipt.verifyUrl).modules, size: 160 },
+    { type: "text", text: RECEIPT_NOTE, muted: true },
+    { type: "text", text: receipt.verifyUrl, muted: true }
+  )
+
+  return writePdf({ title: `Vote Receipt ${receipt.confirmationCode}`, blocks })
+}
+
+//=============================================================================
+// Bulk checks against the audit log
+//=============================================================================
+
+export type ReceiptCheckStatus = "recorded" | "duplicate" | "not_found"
+
+export interface ReceiptCheckResult {
+  code: string
+  status: ReceiptCheckStatus
+  /** Vote entries in the audit log carrying this code */
+  entries: ElectionAuditLog[]
+}
+
+/**
+ * Split pasted text into distinct codes, keeping the tokens that aren't
+ * valid codes apart so they can be reported
+ */
+export function parseReceiptCodes(text: string): { codes: string[]; invalid: string[] } {
+  const codes = new Set<string>()
+  const invalid: string[] = []
+  text
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .forEach((token) => {
+      const code = normalizeConfirmationCode(token)
+      if (code) codes.add(code)
+      else invalid.push(token)
+    })
+  return { codes: Array.from(codes), invalid }
+}
+
+/**
+ * Match codes to vote entries in the audit log. A code on more than one
+ * entry is flagged, since each ballot should have a unique code.
+ */
+export function checkReceiptCodes(
+  codes: string[],
+  auditLog: ElectionAuditLog[]
+): ReceiptCheckResult[] {
+  const entriesByCode = new Map<string, ElectionAuditLog[]>()
+  auditLog
+    .filter((entry) => entry.action === VOTE_CAST_AUDIT_ACTION)
+    .forEach((entry) => {
+      const code = normalizeConfirmationCode(String(entry.details?.confirmation_code ?? ""))
+      if (!code) return
+      entriesByCode.set(code, [...(entriesByCode.get(code) ?? []), entry])
+    })
+
+  return codes.map((code) => {
+    const entries = entriesByCode.get(code) ?? []
+    const status: ReceiptCheckStatus =
+      entries.length === 0 ? "not_found" : entries.length === 1 ? "recorded" : "duplicate"
+    return { code, status, entries }
+  })
+}
+
+export function summarizeReceiptChecks(
+  results: ReceiptCheckResult[]
+): Record<ReceiptCheckStatus, number> {
+  const summary: Record<ReceiptCheckStatus, number> = { recorded: 0, duplicate: 0, not_found: 0 }
+  results.forEach((result) => summary[result.status]++)
+  return summary
+}
@@ -0,0 +1,201 @@
+/**
+ * Voter Verification
+ *
+ * Input handling for the public ballot's verification wizard: phone numbers
+ * normalized to E.164, Ghana Card numbers, which steps an election needs,
+ * the voter token kept for the visit and the receipt kept once a vote is cast
+ * so a returning voter is recognised.
+ */
+
+import { VOTER_VERIFICATION } from "./constants"
+import type { PublicElection } from "./types"
+
+export type VerificationStep = "national_id" | "phone" | "code"
+
+//=============================================================================
+// Steps
+//=============================================================================
+
+/**
+ * Steps the voter goes through, in order. An empty list means the election
+ * hands out a token without asking for anything.
+ */
+export function getVerificationSteps(
+  election: Pick<PublicElection, "require_national_id" | "require_phone_otp">
+): VerificationStep[] {
+  const steps: VerificationStep[] = []
+  if (election.require_national_id) steps.push("national_id")
+  if (election.require_phone_otp) steps.push("phone", "code")
+  return steps
+}
+
+//=============================================================================
+// Phone numbers
+//=============================================================================
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/
+
+/**
+ * Normalize a phone number to E.164. Numbers without an international prefix
+ * are read as local to the default country, with or without the trunk 0
+ * (e.g. 024 123 4567 → +233241234567). Returns null when it can't be a number.
+ */
+export function normalizePhoneNumber(
+  input: string,
+  countryCode: string = VOTER_VERIFICATION.DEFAULT_COUNTRY_CODE
+): string | null {
+  let value = input.trim().replace(/[\s\-().]/g, "")
+  if (!value) return null
+
+  if (value.startsWith("00")) value = `+${value.slice(2)}`
+  if (!value.startsWith("+")) {
+    if (!/^\d+$/.test(value)) return null
+    value = value.startsWith("0") ? `+${countryCode}${value.slice(1)}` : `+${countryCode}${value}`
+  }
+
+  if (!E164_PATTERN.test(value)) return null
+  // Ghana mobile numbers are exactly nine digits after the country code
+  if (value.startsWith("+233") && value.length !== 13) return null
+  return value
+}
+
+/**
+ * Show enough of a number for the voter to recognise it: +233 ••••••567
+ */
+export function maskPhoneNumber(phone: string): string {
+  if (phone.length <= 7) return phone
+  return `${phone.slice(0, 4)} ${"•".repeat(phone.length - 7)}${phone.slice(-3)}`
+}
+
+//=============================================================================
+// National ID
+//=============================================================================
+
+/** Example shown next to the national ID input */
+export const NATIONAL_ID_EXAMPLE = "GHA-123456789-0"
+
+/**
+ * Normalize a Ghana Card number to GHA-XXXXXXXXX-X, accepting lowercase and
+ * missing or extra separators. Returns null when the format doesn't match.
+ */
+export function normalizeNationalId(input: string): string | null {
+  const compact = input.toUpperCase().replace(/[\s\-]/g, "")
+  const match = /^GHA(\d{9})(\d)$/.exec(compact)
+  return match ? `GHA-${match[1]}-${match[2]}` : null
+}
+
+//=============================================================================
+// Errors
+//=============================================================================
+
+/**
+ * Message from a failed /vote request; the API sends detail either as a
+ * string or as an object with a message
+ */
+export function getVoteErrorMessage(error: any, fallback: string): string {
+  const detail = error?.response?.data?.detail
+  if (typeof detail === "string") return detail
+  return detail?.message || error?.response?.data?.message || fallback
+}
+
+/**
+ * Seconds until another code may be requested, from a 429's Retry-After
+ * header when present
+ */
+export function getRetryAfterSeconds(error: any): number {
+  const header = error?.response?.headers?.["retry-after"]
+  const seconds = Number(header)
+  return Number.isFinite(seconds) && seconds > 0
+    ? Math.ceil(seconds)
+    : VOTER_VERIFICATION.OTP_RESEND_COOLDOWN_SECONDS
+}
+
+//=============================================================================
+// Voter token storage
+//=============================================================================
+
+// The token lets its holder cast this voter's ballot, so it only lives in the
+// tab's session storage until a vote is cast. Once voted, only the receipt
+// details a returning voter is shown are kept, in local storage.
+
+const voterTokenKey = (electionId: string) => `voter-token-${electionId}`
+const voteReceiptKey = (electionId: string) => `vote-receipt-${electionId}`
+
+/** What a returning voter is shown about the ballot they cast */
+export interface StoredVoteReceipt {
+  confirmation_code: string
+  voted_at?: string
+}
+
+export function getStoredVoterToken(electionId: string): string | null {
+  if (typeof window === "undefined") return null
+  try {
+    // Tokens used to be kept in local storage with no expiry; move them over
+    const legacy = window.localStorage.getItem(voterTokenKey(electionId))
+    if (legacy) {
+      window.localStorage.removeItem(voterTokenKey(electionId))
+      window.sessionStorage.setItem(voterTokenKey(electionId), legacy)
+    }
+    return window.sessionStorage.getItem(voterTokenKey(electionId))
+  } catch {
+    return null
+  }
+}
+
+export function storeVoterToken(electionId: string, token: string): void {
+  if (typeof window === "undefined") return
+  try {
+    window.sessionStorage.setItem(voterTokenKey(electionId), token)
+  } catch {
+    // Storage unavailable (private mode); the token lives for this visit only
+  }
+}
+
+export function clearVoterToken(electionId: string): void {
+  if (typeof window === "undefined") return
+  try {
+    window.sessionStorage.removeItem(voterTokenKey(electionId))
+    window.localStorage.removeItem(voterTokenKey(electionId))
+  } catch {
+    // Nothing stored
+  }
+}
+
+export function getStoredVoteReceipt(electionId: string): StoredVoteReceipt | null {
+  if (typeof window === "undefined") return null
+  try {
+    const stored = window.localStorage.getItem(voteReceiptKey(electionId))
+    const receipt = stored ? (JSON.parse(stored) as StoredVoteReceipt) : null
+    return receipt?.confirmation_code ? receipt : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Remember the receipt of a cast vote and drop the voter token, which has no
+ * use once the ballot is in
+ */
+export function storeVoteReceipt(electionId: string, receipt: StoredVoteReceipt): void {
+  clearVoterToken(electionId)
+  if (typeof window === "undefined") return
+  try {
+    const { confirmation_code, voted_at } = receipt
+    window.localStorage.setItem(
+      voteReceiptKey(electionId),
+      JSON.stringify({ confirmation_code, voted_at })
+    )
+  } catch {
+    // Storage unavailable; the receipt is shown for this visit only
+  }
+}
+
+/** Forget a receipt left on a shared device so the next voter can get a ballot */
+export function clearVoteReceipt(electionId: string): void {
+  if (typeof window === "undefined") return
+  try {
+    window.localStorage.removeItem(voteReceiptKey(electionId))
+  } catch {
+    // Nothing stored
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * Webhooks
+ *
+ * Event catalogue with a payload schema and example for every event, and
+ * HMAC signature verification for delivered payloads.
+ *
+ * Every delivery is a POST whose body is a JSON envelope
+ * `{ event, timestamp, webhook_id, data }`. The body is signed with the
+ * webhook's secret: `X-Webhook-Signature: sha256=<hex HMAC-SHA256 of the raw
+ * body>`. Receivers must verify against the raw bytes, before parsing.
+ */
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature"
+export const EVENT_HEADER = "X-Webhook-Event"
+export const DELIVERY_HEADER = "X-Webhook-Delivery"
+export const SIGNATURE_PREFIX = "sha256="
+
+type JsonSchema = Record<string, any>
+
+export interface WebhookEventDefinition {
+  id: string
+  label: string
+  description: string
+  /** JSON Schema for the payload's `data` object */
+  dataSchema: JsonSchema
+  /** Example `data` object */
+  example: Record<string, any>
+}
+
+//=============================================================================
+// Event catalogue
+//=============================================================================
+
+const timestamp = { type: "string", format: "date-time" }
+
+const formData: JsonSchema = {
+  type: "object",
+  required: ["id", "title", "organization_id", "status", "version"],
+  properties: {
+    id: { type: "string" },
+    title: { type: "string" },
+    description: { type: "string" },
+    organization_id: { type: "string" },
+    status: { enum: ["draft", "active", "archived", "decommissioned"] },
+    version: { type: "integer", minimum: 1 },
+    created_by: { type: "string" },
+    created_at: timestamp,
+    updated_at: timestamp,
+    published_at: timestamp,
+  },
+}
+
+const responseData: JsonSchema = {
+  type: "object",
+  required: ["id", "form_id", "submitted_by", "submitted_at", "data"],
+  properties: {
+    id: { type: "string" },
+    form_id: { type: "string" },
+    submitted_by: { type: "string" },
+    submitted_at: timestamp,
+    data: { type: "object", description: "Answers keyed by field ID" },
+    attachments: { type: "object", additionalProperties: { type: "string", format: "uri" } },
+  },
+}
+
+const userData: JsonSchema = {
+  type: "object",
+  required: ["id", "username", "email"],
+  properties: {
+    id: { type: "string" },
+    username: { type: "string" },
+    email: { type: "string", format: "email" },
+    role: { type: "string" },
+    organization_id: { type: "string" },
+    status: { enum: ["active", "inactive"] },
+    created_at: timestamp,
+  },
+}
+
+const deletedData = (resource: string): JsonSchema => ({
+  type: "object",
+  required: ["id", "deleted_at"],
+  properties: {
+    id: { type: "string", description: `ID of the deleted ${resource}` },
+    deleted_by: { type: "string" },
+    deleted_at: timestamp,
+  },
+})
+
+const exampleForm = {
+  id: "form_456",
+  title: "Household survey",
+  organization_id: "org_1",
+  status: "draft",
+  version: 1,
+  created_by: "user_789",
+  created_at: "2025-01-14T10:30:00Z",
+}
+
+const exampleResponse = {
+  id: "resp_123",
+  form_id: "form_456",
+  submitted_by: "user_789",
+  submitted_at: "2025-01-14T10:30:00Z",
+  data: { household_size: 4, district: "Accra Metropolitan" },
+}
+
+const exampleUser = {
+  id: "user_789",
+  username: "ama.mensah",
+  email: "ama.mensah@example.org",
+  role: "agent",
+  organization_id: "org_1",
+  status: "active",
+  created_at: "2025-01-14T10:30:00Z",
+}
+
+export const WEBHOOK_EVENTS: WebhookEventDefinition[] = [
+  {
+    id: "form.created",
+    label: "Form Created",
+    description: "When a new form is created",
+    dataSchema: formData,
+    example: exampleForm,
+  },
+  {
+    id: "form.updated",
+    label: "Form Updated",
+    description: "When a form is modified",
+    dataSchema: formData,
+    example: { ...exampleForm, version: 2, updated_at: "2025-01-15T08:00:00Z" },
+  },
+  {
+    id: "form.deleted",
+    label: "Form Deleted",
+    description: "When a form is deleted",
+    dataSchema: deletedData("form"),
+    example: { id: "form_456", deleted_by: "user_789", deleted_at: "2025-01-16T09:00:00Z" },
+  },
+  {
+    id: "form.published",
+    label: "Form Published",
+    description: "When a form is published",
+    dataSchema: formData,
+    example: { ...exampleForm, status: "active", published_at: "2025-01-15T12:00:00Z" },
+  },
+  {
+    id: "response.created",
+    label: "Response Created",
+    description: "When a new response is submitted",
+    dataSchema: responseData,
+    example: exampleResponse,
+  },
+  {
+    id: "response.updated",
+    label: "Response Updated",
+    description: "When a response is modified",
+    dataSchema: responseData,
+    example: { ...exampleResponse, data: { household_size: 5, district: "Accra Metropolitan" } },
+  },
+  {
+    id: "response.deleted",
+    label: "Response Deleted",
+    description: "When a response is deleted",
+    dataSchema: {
+      ...deletedData("response"),
+      properties: { ...deletedData("response").properties, form_id: { type: "string" } },
+    },
+    example: {
+      id: "resp_123",
+      form_id: "form_456",
+      deleted_by: "user_789",
+      deleted_at: "2025-01-16T09:00:00Z",
+    },
+  },
+  {
+    id: "user.created",
+    label: "User Created",
+    description: "When a new user is created",
+    dataSchema: userData,
+    example: exampleUser,
+  },
+  {
+    id: "user.updated",
+    label: "User Updated",
+    description: "When a user is modified",
+    dataSchema: userData,
+    example: { ...exampleUser, status: "inactive" },
+  },
+  {
+    id: "role.assigned",
+    label: "Role Assigned",
+    description: "When a role is assigned to a user",
+    dataSchema: {
+      type: "object",
+      required: ["user_id", "role_id", "role_name", "assigned_at"],
+      properties: {
+        user_id: { type: "string" },
+        role_id: { type: "string" },
+        role_name: { type: "string" },
+        organization_id: { type: "string" },
+        assigned_by: { type: "string" },
+        assigned_at: timestamp,
+      },
+    },
+    example: {
+      user_id: "user_789",
+      role_id: "role_12",
+      role_name: "supervisor",
+      organization_id: "org_1",
+      assigned_by: "user_1",
+      assigned_at: "2025-01-14T10:30:00Z",
+    },
+  },
+]
+
+/**
+ * JSON Schema for the full delivery body of an event
+ */
+export function payloadSchema(event: WebhookEventDefinition): JsonSchema {
+  return {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    title: `${event.id} webhook payload`,
+    type: "object",
+    required: ["event", "timestamp", "webhook_id", "data"],
+    properties: {
+      event: { const: event.id },
+      timestamp,
+      webhook_id: { type: "string" },
+      data: event.dataSchema,
+    },
+  }
+}
+
+/**
+ * Example delivery body for an event
+ */
+export function examplePayload(event: WebhookEventDefinition, webhookId = "wh_abc123") {
+  return {
+    event: event.id,
+    timestamp: "2025-01-14T10:30:00Z",
+    webhook_id: webhookId,
+    data: event.example,
+  }
+}
+
+//=============================================================================
+// Signatures
+//=============================================================================
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+/**
+ * Hex HMAC-SHA256 of a raw body. Throws when there is no secret or the page
+ * can't use Web Crypto (it is only available over HTTPS).
+ */
+export async function computeSignature(secret: string, body: string): Promise<string> {
+  if (!secret) throw new Error("A webhook secret is needed to compute the signature")
+  if (!globalThis.crypto?.subtle) {
+    throw new Error("Signatures can only be checked when the dashboard is served over HTTPS")
+  }
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  )
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(body)))
+}
+
+/**
+ * Hex digest from a signature header value (`sha256=<hex>` or bare hex)
+ */
+export function parseSignatureHeader(value: string): string | null {
+  const digest = value
+    .trim()
+    .replace(/^sha256=/i, "")
+    .toLowerCase()
+  return /^[0-9a-f]{64}$/.test(digest) ? digest : null
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let difference = 0
+  for (let i = 0; i < a.length; i++) difference |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return difference === 0
+}
+
+export interface SignatureCheck {
+  valid: boolean
+  /** Signature computed from the secret and body */
+  expected: string
+  /** Digest read from the header, or null when malformed */
+  received: string | null
+}
+
+/**
+ * Check a signature header against a raw body and webhook secret
+ */
+export async function verifySignature(
+  secret: string,
+  body: string,
+  header: string
+): Promise<SignatureCheck> {
+  const expected = await computeSignature(secret, body)
+  const received = parseSignatureHeader(header)
+  return { valid: received !== null && timingSafeEqual(expected, received), expected, received }
+}
+
+/**
+ * Case-insensitive header lookup
+ */
+export function getHeader(
+  headers: Record<string, string> | undefined,
+  name: string
+): string | undefined {
+  const key = Object.keys(headers ?? {}).find(
+    (header) => header.toLowerCase() === name.toLowerCase()
+  )
+  return key ? headers![key] : undefined
+}
+
+//=============================================================================
+// Deliveries
+//=============================================================================
+
+/**
+ * Pretty-print a body when it's JSON, otherwise return it unchanged
+ */
+export function formatBody(body: string | undefined | null): string {
+  if (!body) return ""
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2)
+  } catch {
+    return body
+  }
+}
+
+/**
+ * Receiver-side verification snippets for the docs panel
+ */
+export function verificationSnippets(): Array<{ language: string; code: string }> {
+  return [
+    {
+      language: "Node.js",
+      code: `import crypto from "node:crypto"
+import express from "express"
+
+const app = express()
+
+// Verify against the raw body, before JSON parsing
+app.post("/webhook", express.raw({ type: "application/json" }), (req, res) => {
+  const header = req.get("${SIGNATURE_HEADER}") ?? ""
+  const expected =
+    "${SIGNATURE_PREFIX}" +
+    crypto.createHmac("sha256", process.env.WEBHOOK_SECRET).update(req.body).digest("hex")
+
+  const valid =
+    header.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(header), Buffer.from(expected))
+  if (!valid) return res.status(401).end()
+
+  const payload = JSON.parse(req.body.toString("utf8"))
+  // ... handle payload.event
+  res.status(204).end()
+})`,
+    },
+    {
+      language: "Python",
+      code: `import hashlib
+import hmac
+import os
+
+from flask import Flask, abort, request
+
+app = Flask(__name__)
+
+
+@app.post("/webhook")
+def webhook():
+    # Verify against the raw body, before JSON parsing
+    body = request.get_data()
+    expected = "${SIGNATURE_PREFIX}" + hmac.new(
+        os.environ["WEBHOOK_SECRET"].encode(), body, hashlib.sha256
+    ).hexdigest()
+
+    if not hmac.compare_digest(request.headers.get("${SIGNATURE_HEADER}", ""), expected):
+        abort(401)
+
+    payload = request.get_json()
+    # ... handle payload["event"]
+    return "", 204`,
+    },
+    {
+      language: "PHP",
+      code: `<?php
+$body = file_get_contents("php://input");
+$expected = "${SIGNATURE_PREFIX}" . hash_hmac("sha256", $body, getenv("WEBHOOK_SECRET"));
+$header = $_SERVER["HTTP_${SIGNATURE_HEADER.toUpperCase().replace(/-/g, "_")}"] ?? "";
+
+if (!hash_equals($expected, $header)) {
+    http_response_code(401);
+    exit;
+}
+
+$payload = json_decode($body, true);
+// ... handle $payload["event"]
+http_response_code(204);`,
+    },
+  ]
+}
@@ -0,0 +1,189 @@
+/**
+ * Write-ins
+ *
+ * Helpers behind write-in moderation: grouping the names voters typed,
+ * applying the merges an admin has made (into one spelling or into a listed
+ * candidate) and suggesting likely spelling variants to merge next.
+ */
+
+import { levenshtein } from "./string-distance"
+import type { CandidateResult, PositionResult, WriteInMerge } from "./types"
+
+/** One write-in name on the results, with every spelling counted towards it */
+export interface WriteInGroup {
+  key: string
+  name: string
+  votes: number
+  /** The names exactly as voters typed them */
+  variants: string[]
+  /** Set when an admin merged the variants under this name */
+  mergeId?: string
+}
+
+export interface MergedPositionResult {
+  /** Listed candidates, including write-ins merged into them, re-ranked */
+  candidates: CandidateResult[]
+  write_ins: WriteInGroup[]
+  /** Votes for write-ins not merged into a candidate */
+  write_in_total: number
+}
+
+export interface WriteInSuggestion {
+  /** Keys of the groups that look like one name */
+  keys: string[]
+  name: string
+  candidate_id?: string
+}
+
+// ============================================================================
+// Grouping
+// ============================================================================
+
+/**
+ * Normalise a written-in name so trivially different spellings group
+ * together: case, accents, punctuation and spacing are ignored.
+ */
+export function writeInKey(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function roundPercentage(votes: number, total: number): number {
+  return total > 0 ? Math.round((votes / total) * 10000) / 100 : 0
+}
+
+/**
+ * Fold a position's raw write-in tallies into its results using the admin's
+ * merges. Variants are matched by `writeInKey`, so a merge also picks up
+ * later ballots spelling the name the same way. Unmerged spellings that
+ * share a key are grouped under their most common spelling.
+ */
+export function mergePositionResults(
+  position: PositionResult,
+  merges: WriteInMerge[]
+): MergedPositionResult {
+  const positionMerges = merges.filter((merge) => merge.position_id === position.position_id)
+  const mergeByKey = new Map<string, WriteInMerge>()
+  for (const merge of positionMerges) {
+    for (const variant of merge.variants) mergeByKey.set(writeInKey(variant), merge)
+  }
+
+  const extraVotes = new Map<string, number>()
+  const groups = new Map<string, WriteInGroup>()
+  const topVotes = new Map<string, number>()
+  for (const tally of position.write_ins ?? []) {
+    const key = writeInKey(tally.name)
+    if (!key) continue
+    const merge = mergeByKey.get(key)
+    const candidateId = merge?.candidate_id
+    if (candidateId && position.candidates.some((c) => c.candidate_id === candidateId)) {
+      extraVotes.set(candidateId, (extraVotes.get(candidateId) ?? 0) + tally.votes)
+      continue
+    }
+
+    const groupKey = merge ? `merge:${merge.id}` : key
+    const group = groups.get(groupKey) ?? {
+      key: groupKey,
+      name: merge?.name || tally.name,
+      votes: 0,
+      variants: [],
+      mergeId: merge?.id,
+    }
+    group.votes += tally.votes
+    group.variants.push(tally.name)
+    if (!merge?.name && tally.votes > (topVotes.get(groupKey) ?? 0)) {
+      group.name = tally.name
+      topVotes.set(groupKey, tally.votes)
+    }
+    groups.set(groupKey, group)
+  }
+
+  const candidates = position.candidates
+    .map((candidate) => {
+      const votes = candidate.votes + (extraVotes.get(candidate.candidate_id) ?? 0)
+      return { ...candidate, votes, percentage: roundPercentage(votes, position.total_votes) }
+    })
+    .sort((a, b) => b.votes - a.votes)
+  candidates.forEach((candidate, index) => {
+    const previous = candidates[index - 1]
+    candidate.rank = previous && previous.votes === candidate.votes ? previous.rank : index + 1
+  })
+
+  const writeIns = Array.from(groups.values()).sort(
+    (a, b) => b.votes - a.votes || a.name.localeCompare(b.name)
+  )
+
+  return {
+    candidates,
+    write_ins: writeIns,
+    write_in_total: writeIns.reduce((sum, group) => sum + group.votes, 0),
+  }
+}
+
+// ============================================================================
+// Suggestions
+// ============================================================================
+
+/**
+ * Whether two normalised names are probably the same person: a typo or two
+ * apart (one for short names), or the same words in another order.
+ */
+function isLikelySameName(a: string, b: string): boolean {
+  if (a === b) return true
+  const tokens = (name: string) => name.split(" ").sort().join(" ")
+  if (tokens(a) === tokens(b)) return true
+  const allowed = Math.min(a.length, b.length) < 6 ? 1 : 2
+  return Math.abs(a.length - b.length) <= allowed && levenshtein(a, b) <= allowed
+}
+
+/**
+ * Suggest unmerged write-in groups that look like one name, or like a listed
+ * candidate. Clusters take the candidate's name when one matches, otherwise
+ * the most-voted spelling.
+ */
+export function suggestWriteInMerges(
+  groups: WriteInGroup[],
+  candidates: Pick<CandidateResult, "candidate_id" | "name">[]
+): WriteInSuggestion[] {
+  const open = groups.filter((group) => !group.mergeId)
+  const keys = open.map((group) => writeInKey(group.name))
+
+  // Union-find over the groups, joining every likely pair
+  const parent = open.map((_, index) => index)
+  const find = (index: number): number =>
+    parent[index] === index ? index : (parent[index] = find(parent[index]))
+  for (let i = 0; i < open.length; i++) {
+    for (let j = i + 1; j < open.length; j++) {
+      if (isLikelySameName(keys[i], keys[j])) parent[find(j)] = find(i)
+    }
+  }
+
+  const clusters = new Map<number, number[]>()
+  open.forEach((_, index) => {
+    const root = find(index)
+    clusters.set(root, [...(clusters.get(root) ?? []), index])
+  })
+
+  const suggestions: WriteInSuggestion[] = []
+  for (const members of clusters.values()) {
+    const candidate = candidates.find((c) =>
+      members.some((index) => isLikelySameName(keys[index], writeInKey(c.name)))
+    )
+    if (!candidate && members.length < 2) continue
+
+    const top = members.reduce((best, index) =>
+      open[index].votes > open[best].votes ? index : best
+    )
+    suggestions.push({
+      keys: members.map((index) => open[index].key),
+      name: candidate?.name ?? open[top].name,
+      candidate_id: candidate?.candidate_id,
+    })
+  }
+  return suggestions
+}
@@ -0,0 +1,364 @@
+/**
+ * XLSX Reader and Writer
+ *
+ * Reads the cell values of every worksheet in an .xlsx workbook. An .xlsx
+ * file is a zip archive of XML parts; entries are inflated with the browser's
+ * `DecompressionStream` and parsed with `DOMParser`, so no spreadsheet
+ * library is needed. Only values are read: styles, formulas and merged cells
+ * are ignored (a formula cell yields its cached result).
+ *
+ * Workbooks are written as plain text cells in an uncompressed archive,
+ * which every spreadsheet application (and the reader above) can open.
+ */
+
+export type SheetRows = string[][]
+
+/** Sheet rows keyed by sheet name, in workbook order */
+export type Workbook = Record<string, SheetRows>
+
+const EOCD_SIGNATURE = 0x06054b50
+const CENTRAL_SIGNATURE = 0x02014b50
+const LOCAL_SIGNATURE = 0x04034b50
+
+interface ZipEntry {
+  name: string
+  method: number
+  compressedSize: number
+  localOffset: number
+}
+
+//=============================================================================
+// Zip
+//=============================================================================
+
+function readEntries(view: DataView): ZipEntry[] {
+  // The end-of-central-directory record sits in the last 64KB (+22 bytes)
+  let eocd = -1
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 65_557); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) throw new Error("Not a valid .xlsx file")
+
+  const count = view.getUint16(eocd + 10, true)
+  let offset = view.getUint32(eocd + 16, true)
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) break
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    entries.push({
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true),
+      name: decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)),
+    })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("This browser can't read .xlsx files; export the sheets as CSV instead")
+  }
+  const stream = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+async function readEntry(view: DataView, entry: ZipEntry): Promise<string> {
+  if (view.getUint32(entry.localOffset, true) !== LOCAL_SIGNATURE) {
+    throw new Error(`Corrupt zip entry: ${entry.name}`)
+  }
+  const nameLength = view.getUint16(entry.localOffset + 26, true)
+  const extraLength = view.getUint16(entry.localOffset + 28, true)
+  const start = view.byteOffset + entry.localOffset + 30 + nameLength + extraLength
+  const raw = new Uint8Array(view.buffer, start, entry.compressedSize)
+
+  let bytes: Uint8Array
+  if (entry.method === 0) bytes = raw
+  else if (entry.method === 8) bytes = await inflateRaw(raw)
+  else throw new Error(`Unsupported compression in ${entry.name}`)
+
+  return new TextDecoder().decode(bytes)
+}
+
+//=============================================================================
+// Spreadsheet XML
+//=============================================================================
+
+function parseXml(source: string): Document {
+  return new DOMParser().parseFromString(source, "application/xml")
+}
+
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS("*", localName))
+}
+
+function textOf(element: Element): string {
+  // Rich text runs split a string across several <t> elements
+  return elements(element, "t")
+    .map((t) => t.textContent ?? "")
+    .join("")
+}
+
+/**
+ * Zero-based column index from a cell reference such as `AB12`
+ */
+export function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "A"
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+function parseSheet(source: string, sharedStrings: string[]): SheetRows {
+  const rows: SheetRows = []
+
+  elements(parseXml(source), "row").forEach((row, rowPosition) => {
+    const rowIndex = Number(row.getAttribute("r") ?? rowPosition + 1) - 1
+    const cells: string[] = []
+
+    elements(row, "c").forEach((cell, cellPosition) => {
+      const reference = cell.getAttribute("r")
+      const index = reference ? columnIndex(reference) : cellPosition
+      const type = cell.getAttribute("t")
+      const value = elements(cell, "v")[0]?.textContent ?? ""
+
+      if (type === "s") cells[index] = sharedStrings[Number(value)] ?? ""
+      else if (type === "inlineStr") cells[index] = textOf(cell)
+      else if (type === "b") cells[index] = value === "1" ? "TRUE" : "FALSE"
+      else cells[index] = value
+    })
+
+    rows[rowIndex] = Array.from(cells, (cell) => cell ?? "")
+  })
+
+  return Array.from(rows, (row) => row ?? [])
+}
+
+function resolveTarget(target: string): string {
+  if (target.startsWith("/")) return target.slice(1)
+  return target.startsWith("xl/") ? target : `xl/${target}`
+}
+
+/**
+ * Read every worksheet in an .xlsx file as rows of cell text
+ */
+export async function readXlsx(data: ArrayBuffer): Promise<Workbook> {
+  const view = new DataView(data)
+  const entries = new Map(readEntries(view).map((entry) => [entry.name, entry]))
+
+  const read = async (name: string) => {
+    const entry = entries.get(name)
+    return entry ? readEntry(view, entry) : null
+  }
+
+  const workbookXml = await read("xl/workbook.xml")
+  const relsXml = await read("xl/_rels/workbook.xml.rels")
+  if (!workbookXml || !relsXml) throw new Error("Not a valid .xlsx file")
+
+  const sharedXml = await read("xl/sharedStrings.xml")
+  const sharedStrings = sharedXml ? elements(parseXml(sharedXml), "si").map(textOf) : []
+
+  const targets = new Map(
+    elements(parseXml(relsXml), "Relationship").map((rel) => [
+      rel.getAttribute("Id"),
+      resolveTarget(rel.getAttribute("Target") ?? ""),
+    ])
+  )
+
+  const workbook: Workbook = {}
+  for (const sheet of elements(parseXml(workbookXml), "sheet")) {
+    const name = sheet.getAttribute("name") ?? ""
+    const relationId =
+      sheet.getAttributeNS(
+        "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+        "id"
+      ) ?? sheet.getAttribute("r:id")
+    const target = targets.get(relationId)
+    const sheetXml = target ? await read(target) : null
+    workbook[name] = sheetXml ? parseSheet(sheetXml, sharedStrings) : []
+  }
+
+  return workbook
+}
+
+//=============================================================================
+// Writer
+//=============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Build a zip archive with stored (uncompressed) entries
+ */
+function writeZip(files: Array<{ name: string; content: string }>): Uint8Array {
+  const encoder = new TextEncoder()
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+
+  files.forEach(({ name, content }) => {
+    const nameBytes = encoder.encode(name)
+    const data = encoder.encode(content)
+    const crc = crc32(data)
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, LOCAL_SIGNATURE, true)
+    lv.setUint16(4, 20, true) // version needed
+    lv.setUint16(6, 0x0800, true) // UTF-8 names
+    lv.setUint16(8, 0, true) // stored
+    lv.setUint16(12, 0x21, true) // 1980-01-01
+    lv.setUint32(14, crc, true)
+    lv.setUint32(18, data.length, true)
+    lv.setUint32(22, data.length, true)
+    lv.setUint16(26, nameBytes.length, true)
+    local.set(nameBytes, 30)
+    local.set(data, 30 + nameBytes.length)
+
+    const central = new Uint8Array(46 + nameBytes.length)
+    const cv = new DataView(central.buffer)
+    cv.setUint32(0, CENTRAL_SIGNATURE, true)
+    cv.setUint16(4, 20, true)
+    cv.setUint16(6, 20, true)
+    cv.setUint16(8, 0x0800, true)
+    cv.setUint16(10, 0, true)
+    cv.setUint16(14, 0x21, true)
+    cv.setUint32(16, crc, true)
+    cv.setUint32(20, data.length, true)
+    cv.setUint32(24, data.length, true)
+    cv.setUint16(28, nameBytes.length, true)
+    cv.setUint32(42, offset, true)
+    central.set(nameBytes, 46)
+
+    locals.push(local)
+    centrals.push(central)
+    offset += local.length
+  })
+
+  const centralSize = centrals.reduce((size, entry) => size + entry.length, 0)
+  const eocd = new Uint8Array(22)
+  const ev = new DataView(eocd.buffer)
+  ev.setUint32(0, EOCD_SIGNATURE, true)
+  ev.setUint16(8, files.length, true)
+  ev.setUint16(10, files.length, true)
+  ev.setUint32(12, centralSize, true)
+  ev.setUint32(16, offset, true)
+
+  const zip = new Uint8Array(offset + centralSize + eocd.length)
+  let position = 0
+  for (const part of [...locals, ...centrals, eocd]) {
+    zip.set(part, position)
+    position += part.length
+  }
+  return zip
+}
+
+function escapeXml(text: string): string {
+  return (
+    text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      // Control characters aren't allowed in XML 1.0
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+  )
+}
+
+/**
+ * Spreadsheet column letters for a zero-based index (0 → A, 27 → AB)
+ */
+export function columnName(index: number): string {
+  let name = ""
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+function sheetXml(rows: SheetRows): string {
+  const body = rows
+    .map((cells, rowIndex) => {
+      const row = rowIndex + 1
+      const xml = cells
+        .map((value, column) =>
+          value === ""
+            ? ""
+            : `<c r="${columnName(column)}${row}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+        )
+        .join("")
+      return `<row r="${row}">${xml}</row>`
+    })
+    .join("")
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${body}</sheetData></worksheet>`
+}
+
+/**
+ * Write sheets of cell text as an .xlsx file
+ */
+export function writeXlsx(workbook: Workbook): Uint8Array {
+  const names = Object.keys(workbook)
+
+  return writeZip([
+    {
+      name: "[Content_Types].xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${names
+        .map(
+          (_, index) =>
+            `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        )
+        .join("")}</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names
+        .map(
+          (name, index) =>
+            `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+        )
+        .join("")}</sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${names
+        .map(
+          (_, index) =>
+            `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+        )
+        .join("")}</Relationships>`,
+    },
+    ...names.map((name, index) => ({
+      name: `xl/worksheets/sheet${index + 1}.xml`,
+      content: sheetXml(workbook[name]),
+    })),
+  ])
+}